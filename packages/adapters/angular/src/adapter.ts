@@ -0,0 +1,412 @@
+/**
+ * Angular 19+ Adapter Implementation for StellarIX UI
+ * Turns any StellarIX component core into a standalone Angular component
+ *
+ * Key Features:
+ * - Store subscriptions bridged to signals (zoneless friendly, OnPush)
+ * - Root a11y props and interaction handlers exposed as host bindings
+ * - Element and attribute selectors (`<sx-button>`, `<button sxButton>`)
+ * - Primitive state fields exposed as inputs
+ * - ControlValueAccessor for Input, Checkbox, Select, Slider and DatePicker
+ * - Component definitions written the way the AOT compiler emits them,
+ *   so no JIT compiler is needed at runtime
+ */
+
+import {
+    ChangeDetectionStrategy,
+    DestroyRef,
+    ViewEncapsulation,
+    booleanAttribute,
+    computed,
+    forwardRef,
+    inject,
+    numberAttribute,
+    ɵɵProvidersFeature,
+    ɵɵattribute,
+    ɵɵdefineComponent,
+    ɵɵlistener,
+    ɵɵprojection,
+    ɵɵprojectionDef,
+    type Signal,
+    type Type,
+} from '@angular/core';
+import { NG_VALUE_ACCESSOR } from '@angular/forms';
+import type {
+    ComponentCore,
+    FrameworkAdapter,
+} from '@stellarix-ui/core';
+import { VALUE_ACCESSOR_FIELDS, resolveAccessorValue } from './forms';
+import { storeToSignal } from './signals';
+import type {
+    AngularAdapterConfig,
+    StellarIXComponent,
+    StellarIXComponentType,
+    ValueAccessorField,
+} from './types';
+
+type ComponentInput = string | { name: string; transform: (value: unknown) => unknown };
+
+/**
+ * Input flag marking inputs with a transform (`InputFlags.HasDecoratorInputTransform`)
+ */
+const HAS_INPUT_TRANSFORM = 2;
+
+/**
+ * Render flags passed to template and host binding functions
+ */
+const RENDER_CREATE = 1;
+const RENDER_UPDATE = 2;
+
+const DEFAULT_CONFIG: Required<AngularAdapterConfig> = {
+    selectorPrefix: 'sx',
+    valueAccessors: {},
+};
+
+/**
+ * Prop names that differ from their attribute names
+ */
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+    tabIndex: 'tabindex',
+    htmlFor: 'for',
+    className: 'class',
+    readOnly: 'readonly',
+};
+
+/**
+ * Instance members that state fields must not shadow as inputs
+ */
+const RESERVED_MEMBERS = ['core', 'state'];
+
+/**
+ * Counter for per-class host ids. Classes created from different cores of the
+ * same primitive would otherwise share an Angular component id (NG0912).
+ */
+let componentCount = 0;
+
+/**
+ * Converts camelCase or PascalCase to kebab-case
+ */
+export function toKebabCase(value: string): string {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .replace(/[\s_]+/g, '-')
+        .toLowerCase();
+}
+
+/**
+ * Derives the component selector for a component core:
+ * an element selector plus an attribute selector for native hosts
+ */
+export function getSelector(
+    core: ComponentCore<any, any>,
+    prefix: string = DEFAULT_CONFIG.selectorPrefix
+): string {
+    const { name } = core.metadata;
+    return `${prefix}-${toKebabCase(name)}, [${prefix}${name}]`;
+}
+
+/**
+ * The selectors of getSelector, parsed the way component definitions take them
+ */
+function getSelectors(core: ComponentCore<any, any>, prefix: string): string[][] {
+    const { name } = core.metadata;
+    return [[`${prefix}-${toKebabCase(name)}`], ['', `${prefix}${name}`, '']];
+}
+
+/**
+ * Creates an Angular adapter with the given configuration
+ */
+export function createAngularAdapter(
+    config: AngularAdapterConfig = {}
+): FrameworkAdapter<Type<unknown>> {
+    const resolvedConfig: Required<AngularAdapterConfig> = {
+        ...DEFAULT_CONFIG,
+        ...config,
+        valueAccessors: { ...VALUE_ACCESSOR_FIELDS, ...config.valueAccessors },
+    };
+
+    return {
+        name: 'angular',
+        version: '19.0.0',
+
+        /**
+         * Creates a standalone Angular component from the component core
+         */
+        createComponent<TState, TLogic extends Record<string, any> = Record<string, any>>(
+            core: ComponentCore<TState, TLogic>
+        ): Type<unknown> {
+            return createComponentClass(core, resolvedConfig);
+        },
+    };
+}
+
+/**
+ * Default Angular adapter for StellarIX UI
+ */
+export const angularAdapter = createAngularAdapter();
+
+/**
+ * Helper to connect a component core to Angular
+ * @param componentCore The component core to render
+ * @param config Adapter configuration
+ * @returns A standalone component to add to `imports`
+ */
+export function connectToAngular<TState>(
+    componentCore: ComponentCore<TState, any>,
+    config: AngularAdapterConfig = {}
+): StellarIXComponentType<TState> {
+    return createAngularAdapter(config).createComponent(componentCore) as StellarIXComponentType<TState>;
+}
+
+/**
+ * Converts an a11y prop value into a host attribute value.
+ * null removes the attribute; non-ARIA booleans become presence attributes.
+ */
+function toAttributeValue(name: string, value: unknown): string | null {
+    if (value === undefined || value === null || typeof value === 'function' || typeof value === 'object') {
+        return null;
+    }
+
+    if (typeof value === 'boolean' && !name.startsWith('aria-')) {
+        return value ? '' : null;
+    }
+
+    return String(value);
+}
+
+/**
+ * Cores created with createPrimitive carry placeholder state and logic
+ * until the implementation is attached
+ */
+function hasImplementation(core: ComponentCore<any, any>): boolean {
+    return typeof core.state?.getState === 'function' && typeof core.logic?.getA11yProps === 'function';
+}
+
+/**
+ * Collects the root attributes to bind on the host, as attribute -> prop key.
+ * Props declared in `accessibility.ariaAttributes` are bound even when the
+ * current state omits them, so they appear once the state provides them.
+ */
+function getHostAttributes(core: ComponentCore<any, any>): Map<string, string> {
+    const attributes = new Map<string, string>();
+    const declared = core.metadata.accessibility?.ariaAttributes ?? [];
+    const current = hasImplementation(core) ? Object.keys(core.logic.getA11yProps('root') || {}) : [];
+
+    [...declared, ...current].forEach(key => {
+        attributes.set(ATTRIBUTE_ALIASES[key] ?? key, key);
+    });
+
+    return attributes;
+}
+
+/**
+ * Primitive state fields exposed as component inputs,
+ * with attribute transforms so `<sx-button disabled>` works
+ */
+function getInputs(state: Record<string, unknown>): ComponentInput[] {
+    return Object.entries(state)
+        .filter(([key]) => !RESERVED_MEMBERS.includes(key))
+        .flatMap(([key, value]): ComponentInput[] => {
+            switch (typeof value) {
+                case 'boolean':
+                    return [{ name: key, transform: booleanAttribute }];
+                case 'number':
+                    return [{ name: key, transform: numberAttribute }];
+                case 'string':
+                    return [key];
+                default:
+                    return [];
+            }
+        });
+}
+
+function createComponentClass<TState>(
+    core: ComponentCore<TState, any>,
+    config: Required<AngularAdapterConfig>
+): Type<unknown> {
+    const { name } = core.metadata;
+    const accessor = config.valueAccessors[name] as ValueAccessorField<TState> | undefined;
+    const implemented = hasImplementation(core);
+    const initialState = implemented ? core.state.getState() as Record<string, unknown> : {};
+
+    const setField = (key: string, value: unknown) => {
+        core.state.setState(prev => ({ ...prev, [key]: value }));
+    };
+
+    class StellarIXAngularComponent implements StellarIXComponent<TState> {
+        readonly core = core;
+        readonly state: Signal<TState>;
+
+        private readonly rootA11y = computed(() => {
+            this.state();
+            return core.logic.getA11yProps('root');
+        });
+
+        private onChange: (value: unknown) => void = () => {};
+        private onTouched: () => void = () => {};
+        private writingValue = false;
+
+        constructor() {
+            const destroyRef = inject(DestroyRef);
+            this.state = storeToSignal(core.state, destroyRef);
+
+            if (accessor) {
+                let lastValue = core.state.getState()[accessor.field];
+                const unsubscribe = core.state.subscribe(state => {
+                    const value = state[accessor.field];
+                    if (Object.is(value, lastValue)) {
+                        return;
+                    }
+
+                    lastValue = value;
+                    // Values written by the form model are not echoed back
+                    if (!this.writingValue) {
+                        this.onChange(value);
+                    }
+                });
+                destroyRef.onDestroy(unsubscribe);
+            }
+        }
+
+        a11y(elementId: string): Record<string, any> {
+            this.state();
+            return core.logic.getA11yProps(elementId);
+        }
+
+        handlers(elementId: string): Record<string, Function> {
+            return core.logic.getInteractionHandlers(elementId);
+        }
+
+        dispatch(event: string, payload?: any): void {
+            core.logic.handleEvent(event, payload);
+        }
+
+        /** @internal host binding */
+        hostAttribute(key: string): string | null {
+            return toAttributeValue(ATTRIBUTE_ALIASES[key] ?? key, this.rootA11y()[key]);
+        }
+
+        /** @internal host listener */
+        handleHostEvent(handlerName: string, event: Event): void {
+            core.logic.getInteractionHandlers('root')[handlerName]?.(event);
+        }
+
+        /** @internal host listener */
+        markAsTouched(): void {
+            this.onTouched();
+        }
+
+        writeValue(value: unknown): void {
+            if (!accessor) {
+                return;
+            }
+
+            this.writingValue = true;
+            try {
+                setField(accessor.field, resolveAccessorValue(accessor, value, core.state.getState()));
+            } finally {
+                this.writingValue = false;
+            }
+        }
+
+        registerOnChange(fn: (value: unknown) => void): void {
+            this.onChange = fn;
+        }
+
+        registerOnTouched(fn: () => void): void {
+            this.onTouched = fn;
+        }
+
+        setDisabledState(isDisabled: boolean): void {
+            setField('disabled', isDisabled);
+        }
+
+        ngOnDestroy(): void {
+            if (implemented) {
+                core.logic.cleanup();
+            }
+            // Some primitives (DatePicker) build their core without destroy
+            if (typeof core.destroy === 'function') {
+                core.destroy();
+            }
+        }
+    }
+
+    const inputs = getInputs(initialState).filter(input =>
+        !((typeof input === 'string' ? input : input.name) in StellarIXAngularComponent.prototype)
+    );
+
+    // Inputs read from and write to the store, so the core stays the single source of truth
+    inputs.forEach(input => {
+        const key = typeof input === 'string' ? input : input.name;
+        Object.defineProperty(StellarIXAngularComponent.prototype, key, {
+            get(this: StellarIXAngularComponent) {
+                return (this.state() as Record<string, unknown>)[key];
+            },
+            set(value: unknown) {
+                setField(key, value);
+            },
+            configurable: true,
+        });
+    });
+
+    const hostAttributes = Array.from(getHostAttributes(core));
+    const rootHandlers = implemented ? core.logic.getInteractionHandlers('root') : {};
+    const hostListeners = Object.keys(rootHandlers).map((handlerName): [string, string] => [
+        handlerName.replace(/^on/, '').toLowerCase(),
+        handlerName,
+    ]);
+
+    Object.defineProperty(StellarIXAngularComponent, 'name', { value: `StellarIX${name}` });
+
+    const definition = {
+        type: StellarIXAngularComponent,
+        selectors: getSelectors(core, config.selectorPrefix),
+        standalone: true,
+        hostAttrs: ['data-sx-component', `${toKebabCase(name)}-${++componentCount}`],
+        hostVars: hostAttributes.length,
+        hostBindings: (flags: number, context: StellarIXAngularComponent) => {
+            if (flags & RENDER_CREATE) {
+                hostListeners.forEach(([eventName, handlerName]) => {
+                    ɵɵlistener(eventName, (event: Event) => context.handleHostEvent(handlerName, event));
+                });
+                if (accessor) {
+                    ɵɵlistener('focusout', () => context.markAsTouched());
+                }
+            }
+            if (flags & RENDER_UPDATE) {
+                hostAttributes.forEach(([attribute, key]) => {
+                    ɵɵattribute(attribute, context.hostAttribute(key));
+                });
+            }
+        },
+        inputs: Object.fromEntries(inputs.map(input =>
+            typeof input === 'string'
+                ? [input, input]
+                : [input.name, [HAS_INPUT_TRANSFORM, input.name, input.name, input.transform]]
+        )),
+        features: accessor
+            ? [ɵɵProvidersFeature([
+                { provide: NG_VALUE_ACCESSOR, useExisting: forwardRef(() => StellarIXAngularComponent), multi: true },
+            ])]
+            : [],
+        ngContentSelectors: ['*'],
+        decls: 1,
+        vars: 0,
+        template: (flags: number) => {
+            if (flags & RENDER_CREATE) {
+                ɵɵprojectionDef();
+                ɵɵprojection(0);
+            }
+        },
+        encapsulation: ViewEncapsulation.None,
+        changeDetection: ChangeDetectionStrategy.OnPush,
+    };
+
+    Object.assign(StellarIXAngularComponent, {
+        ɵfac: (type?: Type<unknown>) => new (type ?? StellarIXAngularComponent)(),
+        ɵcmp: ɵɵdefineComponent(definition as Parameters<typeof ɵɵdefineComponent>[0]),
+    });
+
+    return StellarIXAngularComponent;
+}
@@ -0,0 +1,35 @@
+/**
+ * Angular Forms Integration
+ * ControlValueAccessor wiring for form-control primitives
+ */
+
+import type { ValueAccessorField } from './types';
+
+/**
+ * Form-control primitives and the state field each one exposes
+ * to `formControl`, `formControlName` and `ngModel`, keyed by `metadata.name`
+ */
+export const VALUE_ACCESSOR_FIELDS: Readonly<Record<string, ValueAccessorField>> = {
+    Input: { field: 'value', emptyValue: '' },
+    Checkbox: { field: 'checked', emptyValue: false },
+    Select: { field: 'value', emptyValue: (state: { multiple: boolean }) => (state.multiple ? [] : null) },
+    Slider: { field: 'value', emptyValue: (state: { min: number }) => state.min },
+    DatePicker: { field: 'value', emptyValue: null },
+};
+
+/**
+ * Resolves the value to write into state for a form control value.
+ * Forms reset controls to null, which is mapped to the field's empty value.
+ */
+export function resolveAccessorValue<TState>(
+    accessor: ValueAccessorField<TState>,
+    value: unknown,
+    state: TState
+): unknown {
+    if (value !== null && value !== undefined) {
+        return value;
+    }
+
+    const { emptyValue = null } = accessor;
+    return typeof emptyValue === 'function' ? emptyValue(state) : emptyValue;
+}
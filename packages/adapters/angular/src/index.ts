@@ -0,0 +1,39 @@
+/**
+ * StellarIX Angular 19+ Adapter
+ *
+ * Renders StellarIX component cores as standalone, signal-driven
+ * Angular components with forms support
+ */
+
+// Main adapter exports
+export {
+    angularAdapter,
+    createAngularAdapter,
+    connectToAngular,
+    getSelector,
+    toKebabCase,
+} from './adapter';
+
+// Signals exports
+export {
+    storeToSignal,
+    injectStellarIX,
+} from './signals';
+
+// Forms exports
+export {
+    VALUE_ACCESSOR_FIELDS,
+} from './forms';
+
+// Types exports
+export type {
+    AngularAdapterConfig,
+    StellarIXComponent,
+    StellarIXComponentType,
+    ValueAccessorField,
+} from './types';
+
+/**
+ * Version information
+ */
+export const VERSION = '0.0.1';
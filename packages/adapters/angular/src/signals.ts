@@ -0,0 +1,59 @@
+/**
+ * Angular Signals Integration
+ * Bridges StellarIX stores to Angular signals
+ */
+
+import {
+    DestroyRef,
+    computed,
+    inject,
+    signal,
+    type Signal,
+} from '@angular/core';
+import type { ComponentCore, Store } from '@stellarix-ui/core';
+
+/**
+ * Creates a read-only signal that mirrors a StellarIX store.
+ * The store subscription is released when the destroy ref fires,
+ * so outside an injection context pass one explicitly.
+ *
+ * @example
+ * ```ts
+ * readonly state = storeToSignal(core.state);
+ * readonly open = computed(() => this.state().open);
+ * ```
+ */
+export function storeToSignal<T>(
+    store: Store<T>,
+    destroyRef: DestroyRef = inject(DestroyRef)
+): Signal<T> {
+    const state = signal(store.getState());
+
+    const unsubscribe = store.subscribe(next => {
+        state.set(next);
+    });
+    destroyRef.onDestroy(unsubscribe);
+
+    return state.asReadonly();
+}
+
+/**
+ * Injects a component core as signals: the state, plus accessors for
+ * a11y props and interaction handlers that re-evaluate on state changes.
+ * Must be called in an injection context.
+ */
+export function injectStellarIX<TState, TLogic extends Record<string, any> = Record<string, any>>(
+    core: ComponentCore<TState, TLogic>
+) {
+    const state = storeToSignal(core.state);
+
+    return {
+        state,
+        a11y: (elementId: string) => computed(() => {
+            state();
+            return core.logic.getA11yProps(elementId);
+        }),
+        handlers: (elementId: string) => core.logic.getInteractionHandlers(elementId),
+        dispatch: (event: keyof TLogic | string, payload?: any) => core.logic.handleEvent(event, payload),
+    };
+}
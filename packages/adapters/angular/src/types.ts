@@ -0,0 +1,77 @@
+/**
+ * Angular Adapter Types
+ * Type definitions for the Angular 19+ signals adapter
+ */
+
+import type { Signal, Type } from '@angular/core';
+import type { ControlValueAccessor } from '@angular/forms';
+import type { ComponentCore } from '@stellarix-ui/core';
+
+/**
+ * Describes which state field a form-control primitive exposes
+ * to Angular forms through ControlValueAccessor
+ */
+export interface ValueAccessorField<TState = any> {
+    /**
+     * State field bound to the form control value (`value`, `checked`)
+     */
+    field: keyof TState & string;
+
+    /**
+     * Value written when the form control is reset to null/undefined.
+     * Functions receive the current state (e.g. Slider resets to `min`).
+     */
+    emptyValue?: unknown | ((state: TState) => unknown);
+}
+
+/**
+ * Angular adapter configuration
+ */
+export interface AngularAdapterConfig {
+    /**
+     * Prefix used for generated selectors (`sx` -> `sx-button, [sxButton]`)
+     * @default 'sx'
+     */
+    selectorPrefix?: string;
+
+    /**
+     * Additional or overriding value accessor fields, keyed by `metadata.name`
+     */
+    valueAccessors?: Record<string, ValueAccessorField>;
+}
+
+/**
+ * Instance API of a generated StellarIX Angular component.
+ * Reachable from templates through a template reference (`#select`).
+ */
+export interface StellarIXComponent<TState = any> extends Partial<ControlValueAccessor> {
+    /**
+     * The component core this component renders
+     */
+    readonly core: ComponentCore<TState, any>;
+
+    /**
+     * Component state bridged from the core store
+     */
+    readonly state: Signal<TState>;
+
+    /**
+     * Accessibility props for an element id, tracked by the state signal
+     */
+    a11y(elementId: string): Record<string, any>;
+
+    /**
+     * Interaction handlers for an element id
+     */
+    handlers(elementId: string): Record<string, Function>;
+
+    /**
+     * Dispatches a logic event, same as `core.logic.handleEvent`
+     */
+    dispatch(event: string, payload?: any): void;
+}
+
+/**
+ * Standalone component class produced by the adapter
+ */
+export type StellarIXComponentType<TState = any> = Type<StellarIXComponent<TState>>;
@@ -0,0 +1,313 @@
+/**
+ * Tests for Angular adapter
+ */
+
+// Only the test hosts below are compiled at runtime
+import '@angular/compiler';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    Component,
+    DestroyRef,
+    createComponent,
+    provideExperimentalZonelessChangeDetection,
+    type ApplicationRef,
+    type ComponentRef,
+    type Type,
+} from '@angular/core';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { createApplication } from '@angular/platform-browser';
+import { createStore } from '@stellarix-ui/core';
+import { createButtonWithImplementation } from '@stellarix-ui/button';
+import { createCheckboxWithImplementation } from '@stellarix-ui/checkbox';
+import { createInput, createInputWithImplementation } from '@stellarix-ui/input';
+import { createSelect } from '@stellarix-ui/select';
+import { createSliderWithImplementation } from '@stellarix-ui/slider';
+import {
+    angularAdapter,
+    createAngularAdapter,
+    connectToAngular,
+    getSelector,
+    toKebabCase,
+} from '../src/adapter';
+import { storeToSignal } from '../src/signals';
+import type { StellarIXComponent } from '../src/types';
+
+let hostCounter = 0;
+
+describe('Angular Adapter', () => {
+    let appRef: ApplicationRef;
+
+    const mount = <T>(component: Type<T>, tagName: string): ComponentRef<T> => {
+        const hostElement = document.createElement(tagName);
+        document.body.appendChild(hostElement);
+
+        const ref = createComponent(component, { environmentInjector: appRef.injector, hostElement });
+        appRef.attachView(ref.hostView);
+        ref.changeDetectorRef.detectChanges();
+        return ref;
+    };
+
+    const mountInForm = (component: Type<unknown>, tagName: string, control: FormControl) => {
+        const hostTag = `test-form-host-${++hostCounter}`;
+        const FormHost = Component({
+            selector: hostTag,
+            standalone: true,
+            imports: [component, ReactiveFormsModule],
+            template: `<${tagName} [formControl]="control" />`,
+        })(class {
+            control = control;
+        });
+
+        const ref = mount(FormHost, hostTag);
+        return ref.location.nativeElement.querySelector(tagName) as HTMLElement;
+    };
+
+    beforeEach(async () => {
+        appRef = await createApplication({
+            providers: [provideExperimentalZonelessChangeDetection()],
+        });
+    });
+
+    afterEach(() => {
+        appRef.destroy();
+        document.body.innerHTML = '';
+    });
+
+    it('should have correct name and version', () => {
+        expect(angularAdapter.name).toBe('angular');
+        expect(angularAdapter.version).toBe('19.0.0');
+    });
+
+    describe('selectors', () => {
+        it('derives element and attribute selectors from metadata', () => {
+            const core = createButtonWithImplementation();
+            expect(getSelector(core)).toBe('sx-button, [sxButton]');
+            expect(getSelector(core, 'acme')).toBe('acme-button, [acmeButton]');
+            expect(getSelector(createSelect())).toBe('sx-select, [sxSelect]');
+        });
+
+        it('converts names to kebab-case', () => {
+            expect(toKebabCase('DatePicker')).toBe('date-picker');
+            expect(toKebabCase('NavigationMenu')).toBe('navigation-menu');
+        });
+    });
+
+    describe('createComponent', () => {
+        it('returns a standalone component class', () => {
+            const core = createButtonWithImplementation();
+            const Button = angularAdapter.createComponent(core);
+
+            expect(typeof Button).toBe('function');
+            expect(Button.name).toBe('StellarIXButton');
+        });
+
+        it('defines the component up front instead of through the JIT compiler', () => {
+            const Button = angularAdapter.createComponent(createButtonWithImplementation());
+
+            // JIT-compiled classes get their definition from a lazy getter
+            expect(Object.getOwnPropertyDescriptor(Button, 'ɵcmp')).toHaveProperty('value');
+        });
+
+        it('defers bindings for cores without an attached implementation', () => {
+            const core = createInput();
+            const Input = angularAdapter.createComponent(core);
+
+            expect(typeof Input).toBe('function');
+        });
+
+        it('works through core.connect', () => {
+            const core = createButtonWithImplementation();
+            expect(typeof core.connect(angularAdapter)).toBe('function');
+        });
+    });
+
+    describe('host bindings', () => {
+        it('applies root a11y props to the host', () => {
+            const core = createButtonWithImplementation();
+            const ref = mount(connectToAngular(core), 'sx-button');
+            const host = ref.location.nativeElement as HTMLElement;
+
+            expect(host.getAttribute('role')).toBe('button');
+            expect(host.getAttribute('aria-disabled')).toBe('false');
+            expect(host.getAttribute('tabindex')).toBe('0');
+            expect(host.getAttribute('data-sx-component')).toMatch(/^button-\d+$/);
+        });
+
+        it('updates host attributes when the store changes', async () => {
+            const core = createButtonWithImplementation();
+            const ref = mount(connectToAngular(core), 'sx-button');
+            const host = ref.location.nativeElement as HTMLElement;
+
+            core.state.setState(prev => ({ ...prev, disabled: true }));
+            await appRef.whenStable();
+
+            expect(host.getAttribute('aria-disabled')).toBe('true');
+            expect(host.getAttribute('tabindex')).toBe('-1');
+        });
+
+        it('wires root interaction handlers as host listeners', () => {
+            const onClick = vi.fn();
+            const core = createButtonWithImplementation({ onClick });
+            const ref = mount(connectToAngular(core), 'sx-button');
+
+            (ref.location.nativeElement as HTMLElement).dispatchEvent(new MouseEvent('click'));
+
+            expect(onClick).toHaveBeenCalledTimes(1);
+        });
+
+        it('supports attribute selectors on native elements', () => {
+            const Button = connectToAngular(createButtonWithImplementation());
+
+            const NativeHost = Component({
+                selector: 'test-native-host',
+                standalone: true,
+                imports: [Button],
+                template: '<button sxButton>Save</button>',
+            })(class {});
+
+            const ref = mount(NativeHost, 'test-native-host');
+            const button = ref.location.nativeElement.querySelector('button') as HTMLButtonElement;
+
+            expect(button.getAttribute('role')).toBe('button');
+            expect(button.textContent).toBe('Save');
+        });
+
+        it('uses the configured selector prefix', () => {
+            const core = createButtonWithImplementation();
+            const Button = createAngularAdapter({ selectorPrefix: 'acme' }).createComponent(core);
+            const ref = mount(Button, 'acme-button');
+
+            expect((ref.location.nativeElement as HTMLElement).getAttribute('role')).toBe('button');
+        });
+    });
+
+    describe('inputs and signals', () => {
+        it('writes inputs through to the store', () => {
+            const core = createButtonWithImplementation();
+            const ref = mount(connectToAngular(core), 'sx-button');
+
+            ref.setInput('disabled', '');
+            ref.setInput('variant', 'primary');
+
+            expect(core.state.getState().disabled).toBe(true);
+            expect(core.state.getState().variant).toBe('primary');
+        });
+
+        it('exposes state as a signal on the instance', () => {
+            const core = createSelect({ options: [{ value: 'a', label: 'A' }] });
+            const ref = mount(connectToAngular(core), 'sx-select');
+            const instance = ref.instance as StellarIXComponent;
+
+            core.state.setState(prev => ({ ...prev, open: true }));
+
+            expect(instance.state().open).toBe(true);
+            expect(instance.a11y('trigger')['aria-expanded']).toBe(true);
+        });
+
+        it('releases store subscriptions on destroy', () => {
+            const store = createStore({ count: 0 });
+            const subscribe = vi.spyOn(store, 'subscribe');
+            const callbacks: Array<() => void> = [];
+            const destroyRef = { onDestroy: (fn: () => void) => { callbacks.push(fn); return () => {}; } } as DestroyRef;
+
+            const count = storeToSignal(store, destroyRef);
+            store.setState({ count: 1 });
+            expect(count().count).toBe(1);
+
+            callbacks.forEach(fn => fn());
+            store.setState({ count: 2 });
+
+            expect(subscribe).toHaveBeenCalledTimes(1);
+            expect(count().count).toBe(1);
+        });
+
+        it('cleans up the core when destroyed', () => {
+            const core = createSelect({ options: [{ value: 'a', label: 'A' }] });
+            const cleanup = vi.spyOn(core.logic, 'cleanup');
+            const destroy = vi.spyOn(core, 'destroy');
+            const ref = mount(connectToAngular(core), 'sx-select');
+
+            ref.destroy();
+
+            expect(cleanup).toHaveBeenCalled();
+            expect(destroy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('forms', () => {
+        it('binds Checkbox to a FormControl', () => {
+            const core = createCheckboxWithImplementation();
+            const control = new FormControl(true);
+            mountInForm(connectToAngular(core), 'sx-checkbox', control);
+
+            expect(core.state.getState().checked).toBe(true);
+
+            core.state.setChecked(false);
+            expect(control.value).toBe(false);
+
+            control.setValue(true);
+            expect(core.state.getState().checked).toBe(true);
+        });
+
+        it('binds Input and maps reset to the empty value', () => {
+            const core = createInputWithImplementation();
+            const control = new FormControl('hello');
+            mountInForm(connectToAngular(core), 'sx-input', control);
+
+            expect(core.state.getState().value).toBe('hello');
+
+            core.state.setValue('world');
+            expect(control.value).toBe('world');
+            expect(control.dirty).toBe(true);
+
+            control.reset();
+            expect(core.state.getState().value).toBe('');
+        });
+
+        it('binds Select and Slider values', () => {
+            const select = createSelect({ options: [{ value: 'a', label: 'A' }] });
+            const selectControl = new FormControl<string | null>(null);
+            mountInForm(connectToAngular(select), 'sx-select', selectControl);
+
+            select.logic.handleEvent('optionSelect', { option: { value: 'a', label: 'A' } });
+            expect(selectControl.value).toBe('a');
+
+            const slider = createSliderWithImplementation({ min: 10, max: 20, value: 15 });
+            const sliderControl = new FormControl<number | null>(12);
+            mountInForm(connectToAngular(slider), 'sx-slider', sliderControl);
+
+            expect(slider.state.getState().value).toBe(12);
+            sliderControl.setValue(null);
+            expect(slider.state.getState().value).toBe(10);
+        });
+
+        it('binds the values of a multiple Select and resets them to none', () => {
+            const select = createSelect({
+                multiple: true,
+                options: [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }],
+            });
+            const control = new FormControl<string[] | null>(['a']);
+            mountInForm(connectToAngular(select), 'sx-select', control);
+
+            expect(select.state.getState().value).toEqual(['a']);
+
+            select.logic.handleEvent('optionSelect', { option: { value: 'b', label: 'B' } });
+            expect(control.value).toEqual(['a', 'b']);
+
+            control.reset();
+            expect(select.state.getState().value).toEqual([]);
+        });
+
+        it('syncs disabled state and touched status', () => {
+            const core = createCheckboxWithImplementation();
+            const control = new FormControl(false);
+            const host = mountInForm(connectToAngular(core), 'sx-checkbox', control);
+
+            control.disable();
+            expect(core.state.getState().disabled).toBe(true);
+
+            host.dispatchEvent(new FocusEvent('focusout'));
+            expect(control.touched).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,22 @@
+/// <reference types="vitest/config" />
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'happy-dom',
+    include: ['test/**/*.test.ts'],
+  },
+  resolve: {
+    alias: {
+      '@stellarix-ui/core': path.resolve(__dirname, '../../core/src'),
+      '@stellarix-ui/utils': path.resolve(__dirname, '../../utils/src'),
+      '@stellarix-ui/button': path.resolve(__dirname, '../../primitives/button/src'),
+      '@stellarix-ui/checkbox': path.resolve(__dirname, '../../primitives/checkbox/src'),
+      '@stellarix-ui/input': path.resolve(__dirname, '../../primitives/input/src'),
+      '@stellarix-ui/select': path.resolve(__dirname, '../../primitives/select/src'),
+      '@stellarix-ui/slider': path.resolve(__dirname, '../../primitives/slider/src'),
+    },
+  },
+})
@@ -0,0 +1,160 @@
+/**
+ * Qwik Adapter Implementation
+ * Renders StellarIX component cores as resumable Qwik components
+ *
+ * Key Features:
+ * - Component state serialized into the Qwik container as a snapshot
+ * - No JavaScript runs on the client until the first interaction
+ * - Interaction handlers mapped to lazy-loaded QRLs
+ * - Logic layer rebuilt and rehydrated on demand after a resume
+ */
+
+import {
+    Slot,
+    componentQrl,
+    inlinedQrl,
+    jsx,
+    useLexicalScope,
+    useStore,
+    type QRL,
+} from '@builder.io/qwik';
+import type {
+    ComponentCore,
+    FrameworkAdapter,
+} from '@stellarix-ui/core';
+import {
+    dispatchInteraction,
+    registerCore,
+    registerQwikFactory,
+    resolveCore,
+    snapshotCore,
+} from './resumable';
+import type {
+    QwikAdapterConfig,
+    QwikCoreStore,
+    StellarIXQwikComponent,
+    StellarIXQwikProps,
+} from './types';
+
+/**
+ * Elements that cannot contain a slot
+ */
+const VOID_ELEMENTS = ['input', 'br', 'hr', 'img', 'area', 'base', 'col', 'embed', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+/**
+ * Prop names that differ from their attribute names
+ */
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+    tabIndex: 'tabindex',
+    htmlFor: 'for',
+    className: 'class',
+    readOnly: 'readonly',
+};
+
+/**
+ * Converts a11y props into root element attributes
+ */
+function toAttributes(props: Record<string, any>): Record<string, any> {
+    const attributes: Record<string, any> = {};
+
+    Object.entries(props).forEach(([name, value]) => {
+        if (value === undefined || value === null || typeof value === 'function') {
+            return;
+        }
+
+        const attribute = ATTRIBUTE_ALIASES[name] ?? name;
+        attributes[attribute] = attribute.startsWith('aria-') && typeof value === 'boolean'
+            ? String(value)
+            : value;
+    });
+
+    return attributes;
+}
+
+/**
+ * Lazy interaction handler. Loaded on the first event, it resolves the
+ * core through the captured store and runs the core handler.
+ * Handlers run asynchronously, so `preventDefault` has to be declared
+ * with Qwik's `preventdefault:*` attributes instead.
+ */
+function handleInteraction(event: Event): void {
+    const [store, elementId, handlerName] = useLexicalScope<[QwikCoreStore, string, string]>();
+    dispatchInteraction(store, elementId, handlerName, event);
+}
+
+/**
+ * Component render function, shared by every generated component.
+ * Only serializable values are captured: the core is looked up by key.
+ */
+function renderComponent(props: StellarIXQwikProps) {
+    const [key] = useLexicalScope<[string]>();
+    const store = useStore<QwikCoreStore>(() => ({ key, snapshot: snapshotCore(key) }));
+    const core = resolveCore(store);
+
+    if (!core) {
+        return null;
+    }
+
+    const tag = core.metadata.structure?.elements.root?.type || 'div';
+    const element: Record<string, any> = {};
+
+    // User props first, so core attributes and handlers win
+    Object.keys(props).forEach(name => {
+        if (name !== 'children') {
+            element[name] = props[name];
+        }
+    });
+
+    Object.assign(element, toAttributes(core.logic.getA11yProps('root')));
+
+    Object.keys(core.logic.getInteractionHandlers('root')).forEach(handlerName => {
+        const prop = `${handlerName}$`;
+        const handler: QRL<(event: Event) => void> = inlinedQrl(handleInteraction, 's_sx_interaction', [store, 'root', handlerName]);
+
+        element[prop] = props[prop] ? [handler, props[prop]] : handler;
+    });
+
+    if (!VOID_ELEMENTS.includes(tag)) {
+        element.children = jsx(Slot, {});
+    }
+
+    return jsx(tag as any, element);
+}
+
+/**
+ * Creates a Qwik adapter
+ */
+export function createQwikAdapter(config: QwikAdapterConfig = {}): FrameworkAdapter<StellarIXQwikComponent> {
+    Object.entries(config.factories ?? {}).forEach(([name, factory]) => {
+        registerQwikFactory(name, factory);
+    });
+
+    return {
+        name: 'qwik',
+        version: '1.0.0',
+
+        createComponent<TState, TLogic extends Record<string, any> = Record<string, any>>(
+            core: ComponentCore<TState, TLogic>
+        ): StellarIXQwikComponent {
+            const key = registerCore(core);
+
+            return componentQrl<StellarIXQwikProps>(
+                inlinedQrl(renderComponent, 's_sx_render', [key])
+            );
+        },
+    };
+}
+
+/**
+ * Default Qwik adapter instance
+ */
+export const qwikAdapter = createQwikAdapter();
+
+/**
+ * Connects a component core to Qwik
+ */
+export function connectToQwik<TState, TLogic extends Record<string, any> = Record<string, any>>(
+    core: ComponentCore<TState, TLogic>
+): StellarIXQwikComponent {
+    return core.connect(qwikAdapter);
+}
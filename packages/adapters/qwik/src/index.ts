@@ -0,0 +1,35 @@
+/**
+ * StellarIX Qwik Adapter
+ *
+ * Renders StellarIX component cores as resumable Qwik components:
+ * state is serialized into the container and the logic layer is
+ * rehydrated lazily on the first interaction
+ */
+
+// Main adapter exports
+export {
+    qwikAdapter,
+    createQwikAdapter,
+    connectToQwik,
+} from './adapter';
+
+// Resumability exports
+export {
+    registerQwikFactory,
+    resetQwikCores,
+    dispatchInteraction,
+} from './resumable';
+
+// Types exports
+export type {
+    QwikAdapterConfig,
+    QwikCoreFactory,
+    QwikCoreStore,
+    StellarIXQwikComponent,
+    StellarIXQwikProps,
+} from './types';
+
+/**
+ * Version information
+ */
+export const VERSION = '0.0.1';
@@ -0,0 +1,135 @@
+/**
+ * Resumable Core Registry
+ * Keeps component cores addressable by a serializable key, so QRLs
+ * running after a resume can find (or rebuild) the core they act on
+ */
+
+import {
+    createSnapshot,
+    restoreSnapshot,
+    type ComponentCore,
+    type StateSnapshot,
+} from '@stellarix-ui/core';
+import type { QwikCoreFactory, QwikCoreStore } from './types';
+
+/**
+ * Live cores of this JavaScript context, keyed by instance key
+ */
+const liveCores = new Map<string, ComponentCore<any, any>>();
+
+/**
+ * Factories used to rebuild cores after a resume, keyed by `metadata.name`
+ */
+const factories = new Map<string, QwikCoreFactory>();
+
+/**
+ * Keys whose core already matches the container state.
+ * Cores rendered in this context are the source of truth; cores found
+ * through a resumed container get the snapshot on first use.
+ */
+const hydratedKeys = new Set<string>();
+
+/**
+ * Per-name counters for instance keys
+ */
+const keyCounters = new Map<string, number>();
+
+/**
+ * Registers a factory that rebuilds a component core on the client.
+ * Needed when the module that created the core is not loaded after resume.
+ *
+ * @example
+ * ```ts
+ * registerQwikFactory('Button', () => createButton());
+ * ```
+ */
+export function registerQwikFactory(name: string, factory: QwikCoreFactory): void {
+    factories.set(name, factory);
+}
+
+/**
+ * Forgets every live core, as a freshly resumed page would
+ */
+export function resetQwikCores(): void {
+    liveCores.clear();
+    hydratedKeys.clear();
+}
+
+/**
+ * Registers a live core and returns its instance key.
+ * Keys are deterministic per component name, so the client gets
+ * the same key when it creates the same cores in the same order.
+ */
+export function registerCore(core: ComponentCore<any, any>): string {
+    const { name } = core.metadata;
+    const count = (keyCounters.get(name) ?? 0) + 1;
+    keyCounters.set(name, count);
+
+    const key = `${name}-${count}`;
+    liveCores.set(key, core);
+    return key;
+}
+
+/**
+ * Takes the snapshot stored in the container for a live core
+ */
+export function snapshotCore(key: string): StateSnapshot {
+    const core = liveCores.get(key);
+    if (!core) {
+        throw new Error(`[StellarIX Qwik] No component core registered for "${key}".`);
+    }
+
+    hydratedKeys.add(key);
+    return createSnapshot(core.metadata.name, core.state.getState(), core.metadata.snapshot);
+}
+
+/**
+ * Resolves the core of a container store, rebuilding it from its factory
+ * and restoring the snapshot when this context has not seen it yet
+ */
+export function resolveCore(store: QwikCoreStore): ComponentCore<any, any> | null {
+    const { key, snapshot } = store;
+    let core = liveCores.get(key);
+
+    if (!core) {
+        const factory = factories.get(snapshot.component);
+        if (!factory) {
+            console.warn(`[${snapshot.component}] No Qwik factory registered. Call registerQwikFactory('${snapshot.component}', factory) to resume it.`);
+            return null;
+        }
+
+        core = factory();
+        liveCores.set(key, core);
+    }
+
+    if (!hydratedKeys.has(key)) {
+        hydratedKeys.add(key);
+        const restored = restoreSnapshot(snapshot, core.metadata.snapshot);
+        core.state.setState((prev: any) => ({ ...prev, ...restored }));
+    }
+
+    return core;
+}
+
+/**
+ * Runs a core interaction handler and writes the resulting state
+ * back into the container store
+ */
+export function dispatchInteraction(
+    store: QwikCoreStore,
+    elementId: string,
+    handlerName: string,
+    event: Event
+): void {
+    const core = resolveCore(store);
+    if (!core) {
+        return;
+    }
+
+    const handler = core.logic.getInteractionHandlers(elementId)[handlerName];
+    if (handler) {
+        handler(event);
+    }
+
+    store.snapshot = createSnapshot(core.metadata.name, core.state.getState(), core.metadata.snapshot);
+}
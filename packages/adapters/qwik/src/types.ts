@@ -0,0 +1,54 @@
+/**
+ * Qwik Adapter Types
+ * Type definitions for the resumable Qwik adapter
+ */
+
+import type { Component } from '@builder.io/qwik';
+import type { ComponentCore, StateSnapshot } from '@stellarix-ui/core';
+
+/**
+ * Recreates a component core on the client after resume.
+ * Called with no options; the serialized snapshot is merged over its state.
+ */
+export type QwikCoreFactory = () => ComponentCore<any, any>;
+
+/**
+ * Qwik adapter configuration
+ */
+export interface QwikAdapterConfig {
+    /**
+     * Factories that rebuild cores after a resume, keyed by `metadata.name`.
+     * Same as calling `registerQwikFactory` for each entry.
+     */
+    factories?: Record<string, QwikCoreFactory>;
+}
+
+/**
+ * Resumable store kept in the Qwik container for each component instance.
+ * Everything in it is serialized into the `qwik/json` payload.
+ */
+export interface QwikCoreStore {
+    /**
+     * Key of the component core in the client registry
+     */
+    key: string;
+
+    /**
+     * Latest state snapshot of the component core
+     */
+    snapshot: StateSnapshot;
+}
+
+/**
+ * Props accepted by every generated Qwik component.
+ * Attributes are forwarded to the root element; `on*$` handlers run
+ * after the core handler for the same event.
+ */
+export interface StellarIXQwikProps {
+    [prop: string]: any;
+}
+
+/**
+ * Component produced by the adapter
+ */
+export type StellarIXQwikComponent = Component<StellarIXQwikProps>;
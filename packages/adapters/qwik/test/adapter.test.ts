@@ -0,0 +1,153 @@
+/**
+ * Tests for Qwik adapter
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { jsx } from '@builder.io/qwik';
+import { renderToString } from '@builder.io/qwik/server';
+import { createSnapshot } from '@stellarix-ui/core';
+import { createButtonWithImplementation } from '@stellarix-ui/button';
+import { createCalendar } from '@stellarix-ui/calendar';
+import { createDatePicker } from '@stellarix-ui/date-picker';
+import { qwikAdapter, createQwikAdapter, connectToQwik } from '../src/adapter';
+import { dispatchInteraction, registerQwikFactory, resetQwikCores } from '../src/resumable';
+import type { QwikCoreStore } from '../src/types';
+
+/**
+ * Renders a component on the server, mapping every QRL to one chunk
+ */
+async function renderToHtml(component: any, props: Record<string, any> = {}) {
+    const { html } = await renderToString(jsx(component, props), {
+        containerTagName: 'div',
+        qwikLoader: { include: 'never' },
+        symbolMapper: (symbolName: string) => [symbolName, 'q-chunk.js'],
+    });
+    return html;
+}
+
+/**
+ * Reads the state payload Qwik serialized into the container
+ */
+function readContainerState(html: string): any {
+    const match = html.match(/<script type="qwik\/json">(.*?)<\/script>/s);
+    return match ? JSON.parse(match[1]) : null;
+}
+
+describe('Qwik Adapter', () => {
+    beforeEach(() => {
+        resetQwikCores();
+    });
+
+    it('should create adapter with correct properties', () => {
+        expect(qwikAdapter.name).toBe('qwik');
+        expect(qwikAdapter.version).toBe('1.0.0');
+        expect(typeof qwikAdapter.createComponent).toBe('function');
+    });
+
+    it('should connect a core through connectToQwik', () => {
+        const component = connectToQwik(createButtonWithImplementation());
+        expect(typeof component).toBe('function');
+    });
+
+    describe('Server rendering', () => {
+        it('should render the root element with a11y attributes', async () => {
+            const Button = createButtonWithImplementation({ disabled: true }).connect(qwikAdapter);
+            const html = await renderToHtml(Button, { class: 'primary' });
+
+            expect(html).toContain('<button');
+            expect(html).toContain('class="primary"');
+            expect(html).toContain('aria-disabled="true"');
+        });
+
+        it('should map interaction handlers to lazy QRLs', async () => {
+            const Button = createButtonWithImplementation().connect(qwikAdapter);
+            const html = await renderToHtml(Button);
+
+            expect(html).toMatch(/on:click="q-chunk\.js#s_sx_interaction\[\d+(\s\d+)*\]"/);
+            expect(html).toContain('on:keydown=');
+        });
+
+        it('should serialize the state snapshot into the container', async () => {
+            const Button = createButtonWithImplementation({ pressed: true }).connect(qwikAdapter);
+            const html = await renderToHtml(Button);
+            const container = readContainerState(html);
+
+            expect(container).not.toBeNull();
+            expect(JSON.stringify(container.objs)).toContain('Button-');
+            expect(container.objs).toContain('Button');
+        });
+
+        it('should serialize dates with the component snapshot format', async () => {
+            const value = new Date('2024-03-15T12:00:00.000Z');
+            const Calendar = createCalendar({ value }).connect(qwikAdapter);
+            const html = await renderToHtml(Calendar);
+
+            expect(readContainerState(html).objs).toContain(value.toISOString());
+        });
+    });
+
+    describe('Resuming', () => {
+        const createStore = (core: any, key: string): QwikCoreStore => ({
+            key,
+            snapshot: createSnapshot(core.metadata.name, core.state.getState(), core.metadata.snapshot),
+        });
+
+        it('should rebuild the core from its factory on first interaction', () => {
+            const server = createButtonWithImplementation();
+            server.state.setState((prev: any) => ({ ...prev, pressed: true }));
+            const store = createStore(server, 'Button-1');
+
+            const client = createButtonWithImplementation();
+            const factory = vi.fn(() => client);
+            registerQwikFactory('Button', factory);
+
+            dispatchInteraction(store, 'root', 'onFocus', new FocusEvent('focus'));
+
+            expect(factory).toHaveBeenCalledTimes(1);
+            expect(client.state.getState().pressed).toBe(true);
+            expect(store.snapshot.state.focused).toBe(true);
+        });
+
+        it('should rehydrate the core only once', () => {
+            const server = createButtonWithImplementation({ pressed: true });
+            const store = createStore(server, 'Button-1');
+            const client = createButtonWithImplementation();
+            registerQwikFactory('Button', () => client);
+
+            dispatchInteraction(store, 'root', 'onFocus', new FocusEvent('focus'));
+            client.state.setState((prev: any) => ({ ...prev, pressed: false }));
+            dispatchInteraction(store, 'root', 'onBlur', new FocusEvent('blur'));
+
+            // The second interaction keeps the live state instead of restoring again
+            expect(client.state.getState().pressed).toBe(false);
+            expect(store.snapshot.state.focused).toBe(false);
+        });
+
+        it('should restore dates from the snapshot', () => {
+            const value = new Date('2024-03-15T12:00:00.000Z');
+            const server = createDatePicker({ value });
+            const store = JSON.parse(JSON.stringify(createStore(server, 'DatePicker-1')));
+
+            const client = createDatePicker();
+            createQwikAdapter({ factories: { DatePicker: () => client } });
+
+            dispatchInteraction(store, 'input', 'onFocus', new FocusEvent('focus'));
+
+            expect(client.state.getState().value).toEqual(value);
+            expect(store.snapshot.state.value).toBe(value.toISOString());
+        });
+
+        it('should warn when no factory is registered', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const store: QwikCoreStore = {
+                key: 'Unknown-1',
+                snapshot: { v: 1, component: 'Unknown', state: {} },
+            };
+
+            dispatchInteraction(store, 'root', 'onClick', new MouseEvent('click'));
+
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('registerQwikFactory'));
+            warn.mockRestore();
+        });
+    });
+});
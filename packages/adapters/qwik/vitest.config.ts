@@ -0,0 +1,37 @@
+/// <reference types="vitest/config" />
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+/**
+ * Provides the client manifest module that @builder.io/qwik/server imports.
+ * qwikVite emits the same empty manifest outside of production builds;
+ * the optimizer itself is not needed since the adapter ships inlined QRLs.
+ */
+const qwikClientManifest = {
+  name: 'qwik-client-manifest',
+  resolveId: (id: string) => (id === '@qwik-client-manifest' ? id : null),
+  load: (id: string) => (id === '@qwik-client-manifest' ? 'export const manifest = null;' : null),
+}
+
+export default defineConfig({
+  plugins: [qwikClientManifest],
+  test: {
+    globals: true,
+    environment: 'happy-dom',
+    include: ['test/**/*.test.ts'],
+    server: {
+      deps: {
+        inline: ['@builder.io/qwik'],
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      '@stellarix-ui/core': path.resolve(__dirname, '../../core/src'),
+      '@stellarix-ui/utils': path.resolve(__dirname, '../../utils/src'),
+      '@stellarix-ui/button': path.resolve(__dirname, '../../primitives/button/src'),
+      '@stellarix-ui/calendar': path.resolve(__dirname, '../../primitives/calendar/src'),
+      '@stellarix-ui/date-picker': path.resolve(__dirname, '../../primitives/date-picker/src'),
+    },
+  },
+})
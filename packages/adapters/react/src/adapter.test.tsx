@@ -1,6 +1,7 @@
 import React from 'react';
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
+import { createSelection } from '@stellarix-ui/core';
 import { reactAdapter } from './adapter';
 
 describe('React Adapter', () => {
@@ -10,7 +11,8 @@ describe('React Adapter', () => {
       state: {
         getState: vi.fn().mockReturnValue({ pressed: false, disabled: false }),
         setState: vi.fn(),
-        subscribe: vi.fn().mockReturnValue(() => {})
+        subscribe: vi.fn().mockReturnValue(() => {}),
+        select: (selector: any) => createSelection(mockCore.state, selector)
       },
       logic: {
         handleEvent: vi.fn(),
@@ -79,7 +81,8 @@ describe('React Adapter', () => {
       state: {
         getState: vi.fn().mockReturnValue({ pressed: false, disabled: false }),
         setState: vi.fn(),
-        subscribe: vi.fn().mockReturnValue(() => {})
+        subscribe: vi.fn().mockReturnValue(() => {}),
+        select: (selector: any) => createSelection(mockCore.state, selector)
       },
       logic: {
         handleEvent: vi.fn(),
@@ -137,7 +140,8 @@ describe('React Adapter', () => {
       state: {
         getState: vi.fn().mockReturnValue({ pressed: false, disabled: true }),
         setState: vi.fn(),
-        subscribe: vi.fn().mockReturnValue(() => {})
+        subscribe: vi.fn().mockReturnValue(() => {}),
+        select: (selector: any) => createSelection(mockCore.state, selector)
       },
       logic: {
         handleEvent: vi.fn(),
@@ -195,7 +199,8 @@ describe('React Adapter', () => {
       state: {
         getState: vi.fn().mockReturnValue({ pressed: false, disabled: false }),
         setState: vi.fn(),
-        subscribe: vi.fn().mockReturnValue(() => {})
+        subscribe: vi.fn().mockReturnValue(() => {}),
+        select: (selector: any) => createSelection(mockCore.state, selector)
       },
       logic: {
         handleEvent: vi.fn(),
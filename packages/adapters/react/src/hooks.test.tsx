@@ -0,0 +1,23 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { createComponentId } from '@stellarix-ui/core';
+import { useStellarIXCore } from './hooks';
+
+function Field() {
+  const core = useStellarIXCore(() => ({ id: createComponentId('field') }));
+  return <span id={core.id} />;
+}
+
+describe('useStellarIXCore', () => {
+  it('should create the same IDs on every render of the same tree', () => {
+    const render = () => renderToString(<><Field /><Field /></>);
+    const html = render();
+
+    expect(render()).toBe(html);
+    const ids = Array.from(html.matchAll(/id="([^"]+)"/g), match => match[1]);
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids).size).toBe(2);
+    ids.forEach(id => expect(id).toMatch(/^[\w-]+-field-1$/));
+  });
+});
@@ -3,39 +3,36 @@
  * State-of-the-art React 19 hooks for StellarIX UI
  */
 
-import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
-import type { Store, LogicLayer } from '@stellarix-ui/core';
+import { useRef, useState, useEffect, useCallback, useMemo, useSyncExternalStore, useId } from 'react';
+import { createIdProvider, withIdProvider } from '@stellarix-ui/core';
+import type { Store, LogicLayer, IdProvider } from '@stellarix-ui/core';
 import type { ReactLogic } from './types';
 
+/**
+ * Selector used when the whole state is read
+ */
+const selectState = <T>(state: T) => state;
+
 /**
  * Hook to use a StellarIX store in React components
- * Provides reactive state updates with React 19 optimizations
+ * Re-renders only when the selected slice changes. Pass a stable selector
+ * (module-level or memoized) to keep the subscription across renders.
  * @param store The store to use
- * @returns React state with value and setters
+ * @param selector Picks the slice the component reads, defaults to the whole state
+ * @param equalityFn Compares the previous and next slice, e.g. `shallowEqual`
+ * @returns The selected slice
  */
-export function useStore<T>(store: Store<T>): T {
-    const [state, setState] = useState<T>(() => store.getState());
+export function useStore<T, U = T>(
+    store: Store<T>,
+    selector?: (state: T) => U,
+    equalityFn?: (a: U, b: U) => boolean
+): U {
+    const selection = useMemo(
+        () => store.select(selector ?? (selectState as (state: T) => U), equalityFn),
+        [store, selector, equalityFn]
+    );
 
-    useEffect(() => {
-        // Subscribe to store changes
-        const unsubscribe = store.subscribe(newState => {
-            setState(newState);
-        });
-
-        // Check if current state is different from store state
-        const currentStoreState = store.getState();
-        setState(prevState => {
-            // Only update if actually different
-            if (JSON.stringify(prevState) !== JSON.stringify(currentStoreState)) {
-                return currentStoreState;
-            }
-            return prevState;
-        });
-
-        return unsubscribe;
-    }, [store]);
-
-    return state;
+    return useSyncExternalStore(selection.subscribe, selection.get, selection.get);
 }
 
 /**
@@ -84,6 +81,29 @@ export function useLogic<S, E extends Record<string, any> = Record<string, any>>
     }), [handleEvent, getA11yProps, getInteractionHandlers]);
 }
 
+/**
+ * Hook that creates an ID provider seeded with React's `useId`
+ * Components created with it get the same IDs on the server and the client
+ * @returns ID provider, stable for the component instance
+ */
+export function useStellarIXIdProvider(): IdProvider {
+    const seed = useId();
+    return useMemo(() => createIdProvider({ seed }), [seed]);
+}
+
+/**
+ * Hook that creates a component core once per component instance,
+ * with IDs that match between server and client render
+ * @param factory Creates the core, e.g. `() => createSelect(options)`
+ * @returns The component core
+ */
+export function useStellarIXCore<T>(factory: () => T): T {
+    const seed = useId();
+    // A provider per call, so a repeated initializer (StrictMode) creates the same IDs
+    const [core] = useState(() => withIdProvider(createIdProvider({ seed }), factory));
+    return core;
+}
+
 /**
  * Hook for managing refs with React 19 patterns
  * Supports both callback refs and ref objects
@@ -3,7 +3,9 @@ export {
   createSignalFromStore, 
   syncStoreToSignal, 
   createDerivedStore, 
-  createStoreEffect 
+  createStoreEffect,
+  createStellarIXIdProvider,
+  createStellarIXCore
 } from './signals';
 export type { 
   SolidComponent, 
@@ -1,12 +1,19 @@
-import { createSignal, createEffect, createMemo, onCleanup, batch } from 'solid-js';
-import type { Store } from '@stellarix-ui/core';
+import { createSignal, createEffect, createMemo, onCleanup, batch, createUniqueId } from 'solid-js';
+import { createIdProvider, withIdProvider } from '@stellarix-ui/core';
+import type { Store, IdProvider } from '@stellarix-ui/core';
 
-export function createSignalFromStore<T>(store: Store<T>) {
-  const [state, setState] = createSignal(store.getState());
+export function createSignalFromStore<T, U = T>(
+  store: Store<T>,
+  selector?: (state: T) => U,
+  equalityFn?: (a: U, b: U) => boolean
+) {
+  // The signal only changes when the selected slice does
+  const selection = store.select(selector ?? ((state: T) => state as unknown as U), equalityFn);
+  const [state, setState] = createSignal(selection.get());
   
-  const unsubscribe = store.subscribe((newState) => {
+  const unsubscribe = selection.subscribe((value) => {
     batch(() => {
-      setState(() => newState);
+      setState(() => value);
     });
   });
   
@@ -61,4 +68,13 @@ export function createStoreEffect<T>(
       onCleanup(cleanup);
     }
   });
+}
+
+// Seeded with createUniqueId, so IDs match between server and client render
+export function createStellarIXIdProvider(): IdProvider {
+  return createIdProvider({ seed: createUniqueId() });
+}
+
+export function createStellarIXCore<T>(factory: () => T): T {
+  return withIdProvider(createStellarIXIdProvider(), factory);
 }
\ No newline at end of file
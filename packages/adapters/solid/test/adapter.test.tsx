@@ -120,6 +120,15 @@ describe('Solid.js Adapter', () => {
       
       const buttonCore = {
         state: createStore({ disabled: false, type: 'button' }),
+        anatomy: {
+          parts: {
+            root: {
+              element: 'button',
+              slot: true,
+              props: ({ state }: any) => ({ type: state.type, disabled: state.disabled || undefined }),
+            },
+          },
+        },
         logic: {
           getA11yProps: () => ({ 'aria-label': 'Test Button' }),
           getInteractionHandlers: () => ({ onClick: vi.fn() }),
@@ -240,6 +249,15 @@ describe('Solid.js Adapter', () => {
       
       const checkboxCore = {
         state: createStore({ checked: false }),
+        anatomy: {
+          parts: {
+            root: {
+              element: 'input',
+              props: ({ state }: any) => ({ type: 'checkbox', checked: state.checked === true }),
+            },
+          },
+          bindings: { checked: 'checked' },
+        },
         logic: {
           getA11yProps: () => ({ role: 'checkbox' }),
           getInteractionHandlers: () => ({}),
@@ -288,6 +306,13 @@ describe('Solid.js Adapter', () => {
           ],
           placeholder: 'Select...',
         }),
+        anatomy: {
+          parts: {
+            root: { element: 'div' },
+            trigger: { element: 'button', text: ({ state }: any) => state.placeholder },
+            listbox: { element: 'ul', when: ({ state }: any) => state.open },
+          },
+        },
         logic: {
           getA11yProps: (part: string) => {
             if (part === 'trigger') return { 'aria-haspopup': 'listbox' };
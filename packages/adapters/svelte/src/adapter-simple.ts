@@ -77,6 +77,7 @@ export const svelteAdapter: FrameworkAdapter<SvelteComponentType> = {
         // Component lifecycle
         $destroy: () => {
           // Cleanup logic
+          stateBindings.dispose();
           if (core.logic && core.logic.cleanup) {
             core.logic.cleanup();
           }
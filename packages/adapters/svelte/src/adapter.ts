@@ -11,7 +11,9 @@
  * - Enhanced TypeScript support
  */
 
+import { renderAnatomy, resolveAnatomy } from '@stellarix-ui/core';
 import type {
+  AnatomyNode,
   ComponentCore,
   FrameworkAdapter,
 } from '@stellarix-ui/core';
@@ -47,7 +49,7 @@ export const svelteAdapter: FrameworkAdapter<SvelteComponentType> = {
   createComponent<TState, TLogic extends Record<string, any> = Record<string, any>>(
     core: ComponentCore<TState, TLogic> & { render?: (props: any) => any }
   ): SvelteComponentType {
-    const componentName = core.metadata.name;
+    const propMapping = getPropMapping(core);
     
     // Create a Svelte 5 component factory
     // In Svelte 5, components are functions that return component instances
@@ -60,7 +62,7 @@ export const svelteAdapter: FrameworkAdapter<SvelteComponentType> = {
       
       // Sync initial props with state
       if (options.props) {
-        syncPropsToState(core.state as any, options.props, getPropMapping(componentName));
+        syncPropsToState(core.state as any, options.props, propMapping);
       }
       
       // Component instance
@@ -75,9 +77,13 @@ export const svelteAdapter: FrameworkAdapter<SvelteComponentType> = {
         // State bindings - expose state directly for test compatibility
         $$state: stateBindings.state,
         
+        // Parts to render, from the component anatomy like the other adapters
+        $$nodes: [] as AnatomyNode[],
+        
         // Component lifecycle
         $destroy: () => {
           // Cleanup logic
+          stateBindings.dispose();
           if (core.logic && core.logic.cleanup) {
             core.logic.cleanup();
           }
@@ -87,10 +93,22 @@ export const svelteAdapter: FrameworkAdapter<SvelteComponentType> = {
         $set: (props: any) => {
           Object.assign(instance.$$props, props);
           // Sync new props to state
-          syncPropsToState(core.state as any, props, getPropMapping(componentName));
+          syncPropsToState(core.state as any, props, propMapping);
+          // Props the state does not hold still change the rendered parts
+          render();
         }
       };
       
+      const render = () => {
+        instance.$$nodes = renderAnatomy(core, instance.$$state as TState, instance.$$props);
+      };
+      
+      // Keep $$state and $$nodes current; the bindings skip updates that leave the state shallowly equal
+      stateBindings.subscribe((state) => {
+        instance.$$state = state;
+        render();
+      });
+      
       return instance;
     }
     
@@ -211,9 +229,10 @@ export function connectToSvelte<TState extends Record<string, any>, TLogic exten
 // }
 
 /**
- * Get prop to state mapping for a component
+ * Get prop to state mapping for a component:
+ * the common props plus the bindings its anatomy declares
  */
-function getPropMapping(componentName: string): Record<string, string> {
+function getPropMapping(core: ComponentCore<any, any>): Record<string, string> {
   const commonMapping = {
     disabled: 'disabled',
     readonly: 'readonly',
@@ -221,22 +240,7 @@ function getPropMapping(componentName: string): Record<string, string> {
     error: 'error'
   };
   
-  switch (componentName) {
-    case 'Input':
-      return { ...commonMapping, value: 'value', placeholder: 'placeholder' };
-    case 'Checkbox':
-      return { ...commonMapping, checked: 'checked' };
-    case 'Select':
-      return { ...commonMapping, value: 'value', options: 'options' };
-    case 'Dialog':
-      return { ...commonMapping, open: 'open' };
-    case 'Tabs':
-      return { ...commonMapping, value: 'selectedTab', tabs: 'tabs' };
-    case 'Stepper':
-      return { ...commonMapping, value: 'currentStep', steps: 'steps' };
-    default:
-      return commonMapping;
-  }
+  return { ...commonMapping, ...resolveAnatomy(core).bindings };
 }
 
 // /**
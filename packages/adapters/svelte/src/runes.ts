@@ -3,19 +3,41 @@
  * Utilities for working with Svelte 5's runes system
  */
 
-import type { Store } from '@stellarix-ui/core';
-import type { RuneUtils, StateBindings } from './types';
+import { shallowEqual, type Store, type StoreSelection } from '@stellarix-ui/core';
+import type { RuneUtils, StateBindings, StateReadable } from './types';
+
+/**
+ * Exposes a store selection through the Svelte store contract
+ */
+function toReadable<U>(selection: StoreSelection<U>): StateReadable<U> {
+  return {
+    subscribe(run) {
+      run(selection.get());
+      return selection.subscribe(value => run(value));
+    }
+  };
+}
 
 /**
  * Creates reactive state bindings using Svelte 5 runes
  * This bridges StellarIX's state management with Svelte's reactivity
+ * @param store The store to bind
+ * @param equalityFn Compares the previous and next state; subscribers are only notified of changes
  */
-export function createStateBindings<T extends Record<string, any>>(store: Store<T>): StateBindings<T> {
+export function createStateBindings<T extends Record<string, any>>(
+  store: Store<T>,
+  equalityFn: (a: T, b: T) => boolean = shallowEqual
+): StateBindings<T> {
   // In Svelte 5, we use $state() rune for reactive state
   // Since we can't use runes directly in .ts files, we'll return
   // a structure that can be used in .svelte files
   
-  let currentState = store.getState();
+  const selections = new Set<StoreSelection<any>>();
+  const track = <U>(selection: StoreSelection<U>) => {
+    selections.add(selection);
+    return selection;
+  };
+  const readable = toReadable(track(store.select(state => state, equalityFn)));
   
   // Create a reactive proxy that always returns the latest state
   const reactiveState = new Proxy({} as T, {
@@ -40,11 +62,6 @@ export function createStateBindings<T extends Record<string, any>>(store: Store<
     }
   });
   
-  // Subscribe to store changes
-  const unsubscribe = store.subscribe((newState) => {
-    currentState = newState;
-  });
-  
   const update = (updates: Partial<T>) => {
     store.setState((prevState) => ({
       ...prevState,
@@ -57,10 +74,10 @@ export function createStateBindings<T extends Record<string, any>>(store: Store<
     store.setState(() => initialState);
   };
   
-  // Clean up subscription when component is destroyed
-  if (typeof window !== 'undefined') {
-    window.addEventListener('unload', unsubscribe);
-  }
+  const dispose = () => {
+    selections.forEach(selection => selection.dispose());
+    selections.clear();
+  };
   
   return {
     get state() { 
@@ -70,7 +87,10 @@ export function createStateBindings<T extends Record<string, any>>(store: Store<
       return currentState;
     },
     update,
-    reset
+    reset,
+    subscribe: readable.subscribe,
+    select: (selector, sliceEqualityFn) => toReadable(track(store.select(selector, sliceEqualityFn))),
+    dispose
   };
 }
 
@@ -4,7 +4,7 @@
  */
 
 // Svelte 5 types - components are now functions, not classes
-import type { ComponentCore } from '@stellarix-ui/core';
+import type { AnatomyNode, ComponentCore } from '@stellarix-ui/core';
 
 /**
  * Svelte component type with proper Svelte 5 typing
@@ -65,12 +65,24 @@ export interface SvelteComponentInstance {
 export interface StellarIXSvelteComponent extends SvelteComponentInstance {
   // Additional StellarIX-specific methods can be added here
   $$stellarix_core?: ComponentCore<any, any>;
+  
+  /**
+   * Parts rendered from the component anatomy for the current state and props
+   */
+  $$nodes?: AnatomyNode[];
+}
+
+/**
+ * Svelte store contract: `run` is called with the current value and on every change
+ */
+export interface StateReadable<T> {
+  subscribe: (run: (value: T) => void) => () => void;
 }
 
 /**
  * Component state bindings for Svelte's runes
  */
-export interface StateBindings<T> {
+export interface StateBindings<T> extends StateReadable<T> {
   /**
    * The reactive state object
    */
@@ -85,6 +97,16 @@ export interface StateBindings<T> {
    * Reset state to initial values
    */
   reset: () => void;
+  
+  /**
+   * Readable store of a slice of the state, notified only when the slice changes
+   */
+  select: <U>(selector: (state: T) => U, equalityFn?: (a: U, b: U) => boolean) => StateReadable<U>;
+  
+  /**
+   * Ends every subscription made through the bindings
+   */
+  dispose: () => void;
 }
 
 /**
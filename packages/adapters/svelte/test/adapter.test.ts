@@ -5,8 +5,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { render, fireEvent, screen } from '@testing-library/svelte';
 import { svelteAdapter, connectToSvelte } from '../src/adapter';
-import { createComponentFactory } from '@stellarix-ui/core';
+import { createComponentFactory, createSelection, LogicLayerBuilder } from '@stellarix-ui/core';
 import type { ComponentCore } from '@stellarix-ui/core';
+import type { StellarIXSvelteComponent } from '../src/types';
 
 // Mock component core for testing
 const createMockCore = (name: string, initialState: any = {}): ComponentCore<any, any> => {
@@ -14,6 +15,7 @@ const createMockCore = (name: string, initialState: any = {}): ComponentCore<any
     getState: vi.fn(() => initialState),
     setState: vi.fn(),
     subscribe: vi.fn(() => vi.fn()),
+    select: vi.fn((selector: any, equalityFn?: any) => createSelection(mockStore, selector, equalityFn)),
   };
 
   const mockLogic = {
@@ -52,6 +54,29 @@ const createMockCore = (name: string, initialState: any = {}): ComponentCore<any
   };
 };
 
+interface SwitchState {
+  on: boolean;
+}
+
+interface SwitchEvents {
+  toggle: null;
+}
+
+const createSwitch = createComponentFactory<SwitchState, SwitchEvents>({
+  name: 'Switch',
+  createInitialState: () => ({ on: false }),
+  createLogic: () =>
+    new LogicLayerBuilder<SwitchState, SwitchEvents>()
+      .onEvent('toggle', state => ({ on: !state.on }))
+      .withA11y('root', state => ({ role: 'switch', 'aria-checked': state.on }))
+      .build(),
+  metadata: {
+    accessibility: { wcagLevel: 'AA', patterns: [] },
+    events: { supported: ['toggle'], required: [], custom: {} },
+    structure: { elements: { root: { type: 'button' } } },
+  },
+});
+
 describe('Svelte Adapter', () => {
   it('should have correct name and version', () => {
     expect(svelteAdapter.name).toBe('svelte');
@@ -115,6 +140,20 @@ describe('Svelte Adapter', () => {
       expect(component.$$stellarix_core).toBe(core);
     });
 
+    it('should render the anatomy for the current state', () => {
+      const core = createSwitch();
+      const component = svelteAdapter.createComponent(core)() as StellarIXSvelteComponent;
+      
+      expect(component.$$nodes?.[0]).toMatchObject({
+        element: 'button',
+        props: expect.objectContaining({ role: 'switch', 'aria-checked': false }),
+      });
+      
+      core.logic.handleEvent('toggle', null);
+      
+      expect(component.$$nodes?.[0]?.props['aria-checked']).toBe(true);
+    });
+
     it('should sync props to state', () => {
       const core = createMockCore('Input', { value: '', disabled: false });
       const factory = connectToSvelte(core);
@@ -234,7 +273,7 @@ describe('Svelte Adapter', () => {
   describe('Error Handling', () => {
     it('should handle missing metadata gracefully', () => {
       const core = {
-        state: { getState: vi.fn(), setState: vi.fn(), subscribe: vi.fn() },
+        state: { getState: vi.fn(), setState: vi.fn(), subscribe: vi.fn(), select: vi.fn(() => ({ get: vi.fn(), subscribe: vi.fn(() => vi.fn()), dispose: vi.fn() })) },
         logic: { 
           handleEvent: vi.fn(), 
           getA11yProps: vi.fn(() => ({})), 
@@ -0,0 +1,319 @@
+/**
+ * Vanilla Adapter Implementation
+ * Progressive enhancement of server-rendered markup with component cores
+ *
+ * Key Features:
+ * - No rendering: existing elements are found by `data-part`
+ *   (matching `metadata.structure.elements` keys)
+ * - A11y props applied as attributes, patched with a minimal diff
+ *   on every state change; form control values also set as DOM properties
+ * - Interaction handlers attached as native event listeners
+ * - Everything is torn down when `core.destroy()` is called
+ */
+
+import { FORM_CONTROLS, FORM_PROPERTIES, getEventName } from '@stellarix-ui/core';
+import type {
+    ComponentCore,
+    FrameworkAdapter,
+} from '@stellarix-ui/core';
+import type {
+    VanillaAdapterConfig,
+    VanillaComponent,
+    VanillaMount,
+} from './types';
+
+/**
+ * A hydrated element and the element id it plays
+ */
+interface Part {
+    elementId: string;
+    element: HTMLElement;
+    /**
+     * Position among the elements of a collection part (e.g. options)
+     */
+    index: number;
+}
+
+const DEFAULT_CONFIG: Required<VanillaAdapterConfig> = {
+    partAttribute: 'data-part',
+};
+
+/**
+ * Prop names that differ from their attribute names
+ */
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+    tabIndex: 'tabindex',
+    htmlFor: 'for',
+    className: 'class',
+    readOnly: 'readonly',
+};
+
+/**
+ * Teardown callbacks run by `core.destroy()`, keyed by core.
+ * destroy is decorated once per core and runs every hydrated component's teardown.
+ */
+const destroyHooks = new WeakMap<ComponentCore<any, any>, Set<() => void>>();
+
+/**
+ * Converts camelCase or PascalCase to kebab-case
+ */
+export function toKebabCase(value: string): string {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .replace(/[\s_]+/g, '-')
+        .toLowerCase();
+}
+
+/**
+ * Creates a vanilla DOM adapter with the given configuration
+ */
+export function createVanillaAdapter(
+    config: VanillaAdapterConfig = {}
+): FrameworkAdapter<VanillaMount> {
+    const resolvedConfig = { ...DEFAULT_CONFIG, ...config };
+
+    return {
+        name: 'vanilla',
+        version: '1.0.0',
+
+        /**
+         * Returns a mount function that hydrates a root element.
+         * Nothing touches the DOM until it is called.
+         */
+        createComponent<TState, TLogic extends Record<string, any> = Record<string, any>>(
+            core: ComponentCore<TState, TLogic>
+        ): VanillaMount<TState> {
+            return (root: HTMLElement) => hydrateComponent(core, root, resolvedConfig);
+        },
+    };
+}
+
+/**
+ * Default vanilla DOM adapter for StellarIX UI
+ */
+export const vanillaAdapter = createVanillaAdapter();
+
+/**
+ * Hydrates server-rendered markup with the behaviour of a component core
+ * @param root Root element of the markup; it plays the `root` part
+ *             unless a descendant is marked `data-part="root"`
+ * @param componentCore The component core to attach
+ * @param config Adapter configuration
+ * @returns The hydrated component
+ */
+export function hydrate<TState>(
+    root: HTMLElement,
+    componentCore: ComponentCore<TState, any>,
+    config: VanillaAdapterConfig = {}
+): VanillaComponent<TState> {
+    return hydrateComponent(componentCore, root, { ...DEFAULT_CONFIG, ...config });
+}
+
+/**
+ * Registers a callback to run when the core is destroyed
+ */
+function onCoreDestroy(core: ComponentCore<any, any>, callback: () => void): () => void {
+    let hooks = destroyHooks.get(core);
+
+    if (!hooks) {
+        const registered = new Set<() => void>();
+        const destroy = core.destroy;
+
+        core.destroy = () => {
+            Array.from(registered).forEach(dispose => dispose());
+            registered.clear();
+            destroy();
+        };
+
+        destroyHooks.set(core, registered);
+        hooks = registered;
+    }
+
+    hooks.add(callback);
+    return () => {
+        hooks.delete(callback);
+    };
+}
+
+/**
+ * Finds the elements playing an element id inside the root
+ */
+function findParts(root: HTMLElement, elementId: string, partAttribute: string): HTMLElement[] {
+    const names = new Set([elementId, toKebabCase(elementId)]);
+    const selector = Array.from(names)
+        .map(name => `[${partAttribute}="${name}"]`)
+        .join(', ');
+
+    const elements = Array.from(root.querySelectorAll<HTMLElement>(selector));
+    if (root.matches(selector)) {
+        elements.unshift(root);
+    }
+
+    if (elementId === 'root' && elements.length === 0) {
+        return [root];
+    }
+    return elements;
+}
+
+/**
+ * Converts a props object into attribute name/value pairs.
+ * Functions and objects are skipped.
+ */
+function toAttributes(props: Record<string, any>): Map<string, string> {
+    const attributes = new Map<string, string>();
+
+    Object.entries(props).forEach(([key, value]) => {
+        if (value === undefined || value === null || typeof value === 'function' || typeof value === 'object') {
+            return;
+        }
+
+        const name = ATTRIBUTE_ALIASES[key] ?? key;
+
+        if (typeof value === 'boolean') {
+            if (name.startsWith('aria-')) {
+                attributes.set(name, String(value));
+            } else if (value) {
+                attributes.set(name, '');
+            }
+            return;
+        }
+
+        attributes.set(name, String(value));
+    });
+
+    return attributes;
+}
+
+/**
+ * Applies attributes to an element, touching only what changed.
+ * Only attributes applied earlier are ever removed, so server-rendered
+ * attributes the core knows nothing about are left alone.
+ */
+function patchAttributes(
+    element: HTMLElement,
+    next: Map<string, string>,
+    previous: Set<string>
+): Set<string> {
+    previous.forEach(name => {
+        if (!next.has(name)) {
+            element.removeAttribute(name);
+        }
+    });
+
+    next.forEach((value, name) => {
+        if (element.getAttribute(name) !== value) {
+            element.setAttribute(name, value);
+        }
+    });
+
+    return new Set(next.keys());
+}
+
+/**
+ * Attaches a component core to existing markup
+ */
+function hydrateComponent<TState>(
+    core: ComponentCore<TState, any>,
+    root: HTMLElement,
+    config: Required<VanillaAdapterConfig>
+): VanillaComponent<TState> {
+    if (typeof HTMLElement === 'undefined') {
+        throw new Error('Vanilla adapter requires a DOM environment');
+    }
+
+    const elementIds = Object.keys(core.metadata.structure?.elements ?? {});
+    if (!elementIds.includes('root')) {
+        elementIds.unshift('root');
+    }
+
+    const parts: Part[] = elementIds.flatMap(elementId =>
+        findParts(root, elementId, config.partAttribute).map((element, position) => {
+            // Collection items may carry their own index (e.g. filtered lists)
+            const index = element.dataset.index !== undefined ? Number(element.dataset.index) : position;
+            return { elementId, element, index };
+        })
+    );
+
+    const appliedAttributes = new Map<HTMLElement, Set<string>>();
+    const teardown: Array<() => void> = [];
+
+    parts.forEach(({ elementId, element, index }) => {
+        const handlers = core.logic.getInteractionHandlers(elementId);
+        const isCollectionItem = typeof core.logic.getA11yProps(elementId) === 'function';
+
+        Object.entries(handlers).forEach(([handlerName, handler]) => {
+            const eventName = getEventName(handlerName, element);
+            const listener = (event: Event) => {
+                // Collection handlers read the item index from the event,
+                // the same way the React adapter passes it
+                if (isCollectionItem) {
+                    (event as any).optionIndex = index;
+                }
+                handler(event);
+            };
+
+            element.addEventListener(eventName, listener);
+            teardown.push(() => element.removeEventListener(eventName, listener));
+        });
+    });
+
+    const update = (): void => {
+        parts.forEach(({ elementId, element, index }) => {
+            const a11yProps = core.logic.getA11yProps(elementId) as unknown;
+            const props = typeof a11yProps === 'function' ? a11yProps(index) : a11yProps;
+            const previous = appliedAttributes.get(element) ?? new Set<string>();
+
+            appliedAttributes.set(element, patchAttributes(element, toAttributes(props || {}), previous));
+
+            // Attributes stop showing in the control once the user has edited it
+            if (props && FORM_CONTROLS.includes(element.localName)) {
+                FORM_PROPERTIES.forEach(name => {
+                    const value = props[name];
+                    if (value !== undefined && (element as any)[name] !== value) {
+                        (element as any)[name] = value;
+                    }
+                });
+            }
+        });
+    };
+
+    let destroyed = false;
+    const destroy = (): void => {
+        if (destroyed) {
+            return;
+        }
+        destroyed = true;
+        teardown.splice(0).forEach(dispose => dispose());
+    };
+
+    teardown.push(
+        core.state.subscribe(() => update()),
+        onCoreDestroy(core, destroy)
+    );
+
+    update();
+
+    return {
+        core,
+        root,
+        getParts: (elementId: string) => parts
+            .filter(part => part.elementId === elementId)
+            .map(part => part.element),
+        update,
+        destroy,
+    };
+}
+
+/**
+ * Helper to hydrate markup through `core.connect`
+ * @param componentCore The component core to attach
+ * @param root Root element of the server-rendered markup
+ * @returns The hydrated component
+ */
+export function connectToVanilla<TState>(
+    componentCore: ComponentCore<TState, any>,
+    root: HTMLElement
+): VanillaComponent<TState> {
+    const mount = componentCore.connect(vanillaAdapter) as VanillaMount<TState>;
+    return mount(root);
+}
@@ -0,0 +1,10 @@
+/**
+ * StellarIX UI Vanilla Adapter
+ * Hydrates server-rendered markup with framework-agnostic components
+ */
+
+export * from './adapter';
+export * from './types';
+
+// Version
+export const VERSION = '0.0.1';
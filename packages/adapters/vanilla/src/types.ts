@@ -0,0 +1,57 @@
+/**
+ * Vanilla Adapter Types
+ * Type definitions for the vanilla DOM adapter
+ */
+
+import type { ComponentCore } from '@stellarix-ui/core';
+
+/**
+ * Vanilla adapter configuration
+ */
+export interface VanillaAdapterConfig {
+    /**
+     * Attribute that names the part an element plays.
+     * Values match `metadata.structure.elements` keys, either as is
+     * (`tabPanel`) or in kebab-case (`tab-panel`).
+     * @default 'data-part'
+     */
+    partAttribute?: string;
+}
+
+/**
+ * Hydrated component: live behaviour attached to existing markup
+ */
+export interface VanillaComponent<TState = any> {
+    /**
+     * The component core driving the markup
+     */
+    readonly core: ComponentCore<TState, any>;
+
+    /**
+     * Root element the component was hydrated on
+     */
+    readonly root: HTMLElement;
+
+    /**
+     * Returns the elements found for an element id
+     * declared in `metadata.structure.elements`
+     */
+    getParts(elementId: string): HTMLElement[];
+
+    /**
+     * Re-patches attributes from the current state.
+     * Runs automatically on every state change.
+     */
+    update(): void;
+
+    /**
+     * Removes every listener and subscription, leaving the markup in place.
+     * Runs automatically when `core.destroy()` is called.
+     */
+    destroy(): void;
+}
+
+/**
+ * Hydrates a root element with the behaviour of a component core
+ */
+export type VanillaMount<TState = any> = (root: HTMLElement) => VanillaComponent<TState>;
@@ -0,0 +1,293 @@
+/**
+ * Tests for Vanilla adapter
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createComponentFactory, LogicLayerBuilder } from '@stellarix-ui/core';
+import { createButtonWithImplementation } from '@stellarix-ui/button';
+import { createSelect } from '@stellarix-ui/select';
+import {
+    vanillaAdapter,
+    createVanillaAdapter,
+    connectToVanilla,
+    hydrate,
+    toKebabCase,
+} from '../src/adapter';
+import type { VanillaMount } from '../src/types';
+
+const render = (html: string): HTMLElement => {
+    const container = document.createElement('div');
+    container.innerHTML = html.trim();
+    document.body.appendChild(container);
+    return container.firstElementChild as HTMLElement;
+};
+
+const fruitOptions = [
+    { value: 'apple', label: 'Apple' },
+    { value: 'banana', label: 'Banana' },
+    { value: 'cherry', label: 'Cherry' },
+];
+
+const selectMarkup = `
+    <div data-part="root">
+        <button data-part="trigger">Pick a fruit</button>
+        <ul data-part="listbox">
+            <li data-part="option">Apple</li>
+            <li data-part="option">Banana</li>
+            <li data-part="option">Cherry</li>
+        </ul>
+    </div>
+`;
+
+interface FieldState {
+    text: string;
+    edits: number;
+    opened: number;
+}
+
+interface FieldEvents {
+    edit: { target: HTMLInputElement };
+    open: undefined;
+}
+
+/**
+ * A text field core: the input shows `text`, typing edits it and double-clicking the root opens it
+ */
+const createField = createComponentFactory<FieldState, FieldEvents>({
+    name: 'Field',
+    createInitialState: () => ({ text: '', edits: 0, opened: 0 }),
+    createLogic: () =>
+        new LogicLayerBuilder<FieldState, FieldEvents>()
+            .onEvent('edit', (state, event) => ({ text: event.target.value, edits: state.edits + 1 }))
+            .onEvent('open', state => ({ opened: state.opened + 1 }))
+            .withA11y('input', state => ({ value: state.text }))
+            .withInteraction('input', 'onChange', () => 'edit')
+            .withInteraction('root', 'onDoubleClick', () => 'open')
+            .build(),
+    metadata: {
+        accessibility: { wcagLevel: 'AA', patterns: [] },
+        events: { supported: ['edit', 'open'], required: [], custom: {} },
+        structure: { elements: { root: { type: 'div' }, input: { type: 'input' } } },
+    },
+});
+
+const fieldMarkup = '<div><input data-part="input" type="text"></div>';
+
+describe('Vanilla Adapter', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('should have correct name and version', () => {
+        expect(vanillaAdapter.name).toBe('vanilla');
+        expect(vanillaAdapter.version).toBe('1.0.0');
+    });
+
+    it('converts element ids to kebab-case', () => {
+        expect(toKebabCase('tabPanel')).toBe('tab-panel');
+    });
+
+    describe('createComponent', () => {
+        it('returns a mount function without touching the DOM', () => {
+            const root = render('<button>Save</button>');
+            const mount = vanillaAdapter.createComponent(createButtonWithImplementation());
+
+            expect(typeof mount).toBe('function');
+            expect(root.hasAttribute('role')).toBe(false);
+
+            mount(root);
+            expect(root.getAttribute('role')).toBe('button');
+        });
+
+        it('works through core.connect', () => {
+            const root = render('<button>Save</button>');
+            const mount = createButtonWithImplementation().connect(vanillaAdapter) as VanillaMount;
+
+            expect(mount(root).root).toBe(root);
+        });
+    });
+
+    describe('hydration', () => {
+        it('uses the root element as the root part by default', () => {
+            const root = render('<button class="btn">Save</button>');
+            const component = hydrate(root, createButtonWithImplementation());
+
+            expect(component.getParts('root')).toEqual([root]);
+            expect(root.getAttribute('aria-pressed')).toBe('false');
+            expect(root.getAttribute('tabindex')).toBe('0');
+            expect(root.className).toBe('btn');
+        });
+
+        it('finds parts by data-part', () => {
+            const root = render(selectMarkup);
+            const component = hydrate(root, createSelect({ options: fruitOptions }));
+
+            expect(component.getParts('trigger')).toHaveLength(1);
+            expect(component.getParts('option')).toHaveLength(3);
+            expect(component.getParts('trigger')[0].getAttribute('aria-haspopup')).toBe('listbox');
+        });
+
+        it('applies per-index a11y props to collection items', () => {
+            const root = render(selectMarkup);
+            const component = hydrate(root, createSelect({ options: fruitOptions, value: 'banana' }));
+            const options = component.getParts('option');
+
+            expect(options[0].getAttribute('aria-selected')).toBe('false');
+            expect(options[1].getAttribute('aria-selected')).toBe('true');
+            expect(options[2].id).toMatch(/-option-2$/);
+        });
+
+        it('supports a custom part attribute', () => {
+            const root = render(`
+                <div data-sx="root">
+                    <button data-sx="trigger">Pick</button>
+                </div>
+            `);
+            const component = createVanillaAdapter({ partAttribute: 'data-sx' })
+                .createComponent(createSelect({ options: fruitOptions }))(root);
+
+            expect(component.getParts('trigger')[0].getAttribute('role')).toBe('combobox');
+        });
+    });
+
+    describe('interactions', () => {
+        it('attaches interaction handlers as listeners', () => {
+            const onClick = vi.fn();
+            const root = render('<button>Save</button>');
+            hydrate(root, createButtonWithImplementation({ onClick }));
+
+            root.click();
+            expect(onClick).toHaveBeenCalledTimes(1);
+        });
+
+        it('passes the item index to collection handlers', () => {
+            const onChange = vi.fn();
+            const root = render(selectMarkup);
+            const component = hydrate(root, createSelect({ options: fruitOptions, onChange }));
+
+            component.getParts('option')[2].click();
+            expect(onChange).toHaveBeenCalledWith('cherry', fruitOptions[2]);
+        });
+
+        it('maps handler names to their DOM events', () => {
+            const core = createField();
+            const root = render(fieldMarkup);
+            const input = hydrate(root, core).getParts('input')[0] as HTMLInputElement;
+
+            input.value = 'a';
+            input.dispatchEvent(new Event('input', { bubbles: true }));
+            root.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+
+            expect(core.state.getState()).toEqual({ text: 'a', edits: 1, opened: 1 });
+        });
+    });
+
+    describe('state updates', () => {
+        it('patches attributes when state changes', () => {
+            const core = createButtonWithImplementation();
+            const root = render('<button>Save</button>');
+            hydrate(root, core);
+
+            core.state.setState(prev => ({ ...prev, pressed: true }));
+            expect(root.getAttribute('aria-pressed')).toBe('true');
+        });
+
+        it('only writes attributes whose value changed', () => {
+            const core = createSelect({ options: fruitOptions });
+            const root = render(selectMarkup);
+            const component = hydrate(root, core);
+            const trigger = component.getParts('trigger')[0];
+            const listbox = component.getParts('listbox')[0];
+
+            const triggerWrites = vi.spyOn(trigger, 'setAttribute');
+            const listboxWrites = vi.spyOn(listbox, 'setAttribute');
+
+            core.state.setState(prev => ({ ...prev, open: true }));
+
+            expect(triggerWrites.mock.calls.map(([name]) => name)).toEqual(
+                expect.arrayContaining(['aria-expanded', 'aria-controls'])
+            );
+            expect(triggerWrites).not.toHaveBeenCalledWith('role', expect.anything());
+            expect(listboxWrites.mock.calls.map(([name]) => name)).toEqual(['aria-hidden']);
+        });
+
+        it('removes attributes the core no longer provides', () => {
+            const core = createSelect({ options: fruitOptions });
+            const root = render(selectMarkup);
+            const trigger = hydrate(root, core).getParts('trigger')[0];
+
+            core.state.setState(prev => ({ ...prev, open: true }));
+            expect(trigger.hasAttribute('aria-controls')).toBe(true);
+
+            core.state.setState(prev => ({ ...prev, open: false }));
+            expect(trigger.hasAttribute('aria-controls')).toBe(false);
+        });
+
+        it('sets the value of form controls as a DOM property', () => {
+            const core = createField();
+            const root = render(fieldMarkup);
+            const input = hydrate(root, core).getParts('input')[0] as HTMLInputElement;
+
+            input.value = 'typed';
+            core.state.setState(prev => ({ ...prev, text: 'reset' }));
+
+            expect(input.value).toBe('reset');
+            expect(input.getAttribute('value')).toBe('reset');
+        });
+
+        it('keeps server-rendered attributes it does not manage', () => {
+            const root = render('<button data-track="save" title="Save">Save</button>');
+            hydrate(root, createButtonWithImplementation());
+
+            expect(root.getAttribute('data-track')).toBe('save');
+            expect(root.getAttribute('title')).toBe('Save');
+        });
+    });
+
+    describe('teardown', () => {
+        it('removes listeners and subscriptions on core.destroy()', () => {
+            const onClick = vi.fn();
+            const core = createButtonWithImplementation({ onClick });
+            const root = render('<button>Save</button>');
+            const removeListener = vi.spyOn(root, 'removeEventListener');
+            hydrate(root, core);
+
+            core.destroy();
+
+            expect(removeListener.mock.calls.map(([name]) => name)).toEqual(
+                expect.arrayContaining(['click', 'focus', 'blur', 'keydown'])
+            );
+
+            root.click();
+            core.state.setState(prev => ({ ...prev, pressed: true }));
+
+            expect(onClick).not.toHaveBeenCalled();
+            expect(root.getAttribute('aria-pressed')).toBe('false');
+        });
+
+        it('tears down every component hydrated from the same core', () => {
+            const core = createButtonWithImplementation();
+            const first = render('<button>One</button>');
+            const second = render('<button>Two</button>');
+            hydrate(first, core);
+            hydrate(second, core);
+
+            core.destroy();
+            core.state.setState(prev => ({ ...prev, pressed: true }));
+
+            expect(first.getAttribute('aria-pressed')).toBe('false');
+            expect(second.getAttribute('aria-pressed')).toBe('false');
+        });
+
+        it('can be torn down without destroying the core', () => {
+            const core = createButtonWithImplementation();
+            const root = render('<button>Save</button>');
+            const component = connectToVanilla(core, root);
+
+            component.destroy();
+            core.state.setState(prev => ({ ...prev, pressed: true }));
+
+            expect(root.getAttribute('aria-pressed')).toBe('false');
+        });
+    });
+});
@@ -16,8 +16,6 @@ import {
     defineComponent,
     h,
     Fragment,
-    Teleport,
-    Transition,
     computed,
     watchEffect,
     onMounted,
@@ -32,16 +30,14 @@ import {
     type DefineComponent
 } from 'vue';
 
+import { renderAnatomy, resolveAnatomy } from '@stellarix-ui/core';
 import type {
+    AnatomyNode,
     ComponentCore,
     FrameworkAdapter,
 } from '@stellarix-ui/core';
 
-import { 
-    useStellarIXComponent, 
-    useStellarIXCompound, 
-    useStellarIXPortal 
-} from './composables';
+import { useStellarIXComponent } from './composables';
 
 import type { 
     VueComponent, 
@@ -54,16 +50,47 @@ import type {
  */
 export const STELLARIX_CONFIG_KEY: InjectionKey<VueAdapterConfig> = Symbol('stellarix-config');
 
+/**
+ * Elements that cannot have children
+ */
+const VOID_ELEMENTS = ['input', 'br', 'hr', 'img', 'area', 'base', 'col', 'embed', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+/**
+ * React-style prop names of the anatomy that Vue spells as the attribute
+ */
+const PROP_ALIASES: Record<string, string> = {
+    className: 'class',
+    htmlFor: 'for',
+    tabIndex: 'tabindex',
+    readOnly: 'readonly',
+};
+
+/**
+ * Converts anatomy node props to Vue props
+ */
+function toVueProps(nodeProps: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+        Object.entries(nodeProps).map(([name, value]) => [PROP_ALIASES[name] ?? name, value])
+    );
+}
+
+/**
+ * Converts a React-style handler name to the Vue one (onKeyDown -> onKeydown)
+ */
+function toVueHandlerName(handlerName: string): string {
+    const eventName = handlerName.replace(/^on/, '').toLowerCase();
+    return `on${eventName.charAt(0).toUpperCase()}${eventName.slice(1)}`;
+}
+
 /**
  * Enhanced Vue 3.5+ adapter for StellarIX UI
- * Implements compound components, portals, and Vue 3.5+ features
+ * Implements anatomy rendering and Vue 3.5+ features
  * 
  * Key Features:
- * - Compound component rendering (Select, Menu, Dialog, Tabs)
- * - Teleport rendering for overlays (Dialog, Popover, Tooltip)
+ * - Every component rendered from its anatomy, no per-component code
+ * - v-model for every binding the anatomy declares
  * - Vue 3.5+ useTemplateRef pattern
  * - Enhanced TypeScript generics
- * - Collection-based rendering
  * - Reactive state synchronization
  */
 export const vueAdapter: FrameworkAdapter<Component> = {
@@ -77,10 +104,19 @@ export const vueAdapter: FrameworkAdapter<Component> = {
     createComponent<TState, TLogic extends Record<string, any> = Record<string, any>>(
         core: ComponentCore<TState, TLogic> & { render?: (props: any) => any }
     ): Component {
-        // Get component metadata for rendering hints
-        const { structure, accessibility } = core.metadata;
         const componentName = core.metadata.name;
 
+        // Component props mirroring a state field, each one a v-model target
+        const modelBindings: Record<string, string> = {
+            modelValue: 'value',
+            checked: 'checked',
+            open: 'open',
+            visible: 'visible',
+        };
+        Object.entries(resolveAnatomy(core).bindings ?? {}).forEach(([propName, stateKey]) => {
+            modelBindings[propName === 'value' ? 'modelValue' : propName] = stateKey;
+        });
+
         // Check if a custom render function is provided
         if (core.render && typeof core.render === 'function') {
             return defineComponent({
@@ -137,7 +173,12 @@ export const vueAdapter: FrameworkAdapter<Component> = {
         // Create Vue component using defineComponent with Vue 3.5+ patterns
         return defineComponent({
             name: `StellarIX${componentName}`,
+            // Attributes go to the host part, which is not always the root element
+            inheritAttrs: false,
             props: {
+                // Bound props declared by the anatomy
+                ...Object.fromEntries(Object.keys(modelBindings).map(propName => [propName, null])),
+
                 // Core props with enhanced typing
                 modelValue: null,
                 disabled: Boolean,
@@ -164,9 +205,9 @@ export const vueAdapter: FrameworkAdapter<Component> = {
                 
                 // Component-specific props
                 type: String, // For Button, Input
-                checked: [Boolean, String] as PropType<boolean | 'indeterminate'>, // For Checkbox
-                open: Boolean, // For Dialog, Popover
-                visible: Boolean, // For Tooltip
+                checked: { type: [Boolean, String] as PropType<boolean | 'indeterminate'>, default: undefined }, // For Checkbox
+                open: { type: Boolean, default: undefined }, // For Dialog, Popover
+                visible: { type: Boolean, default: undefined }, // For Tooltip
                 options: Array as PropType<any[]>, // For Select
                 items: Array as PropType<any[]>, // For Menu, Collection components
                 tabs: Array as PropType<any[]>, // For Tabs
@@ -191,6 +232,7 @@ export const vueAdapter: FrameworkAdapter<Component> = {
             },
             emits: {
                 // V-model events
+                ...Object.fromEntries(Object.keys(modelBindings).map(propName => [`update:${propName}`, null])),
                 'update:modelValue': (value: any) => true,
                 'update:checked': (value: boolean | 'indeterminate') => true,
                 'update:open': (value: boolean) => true,
@@ -226,9 +268,9 @@ export const vueAdapter: FrameworkAdapter<Component> = {
                                     const currentState = core.state.getState();
                                     if (currentState && typeof currentState === 'object') {
                                         const updates: any = {};
-                                        if (props.modelValue !== undefined) updates.value = props.modelValue;
-                                        if (props.checked !== undefined) updates.checked = props.checked;
-                                        if (props.open !== undefined) updates.open = props.open;
+                                        Object.entries(modelBindings).forEach(([propName, stateKey]) => {
+                                            if ((props as any)[propName] !== undefined) updates[stateKey] = (props as any)[propName];
+                                        });
                                         if (props.disabled !== undefined) updates.disabled = props.disabled;
                                         
                                         if (Object.keys(updates).length > 0) {
@@ -264,10 +306,9 @@ export const vueAdapter: FrameworkAdapter<Component> = {
                             }
                         };
                         
-                        if (props.modelValue !== undefined) safeUpdate('value', props.modelValue);
-                        if (props.checked !== undefined) safeUpdate('checked', props.checked);
-                        if (props.open !== undefined) safeUpdate('open', props.open);
-                        if (props.visible !== undefined) safeUpdate('visible', props.visible);
+                        Object.entries(modelBindings).forEach(([propName, stateKey]) => {
+                            if ((props as any)[propName] !== undefined) safeUpdate(stateKey, (props as any)[propName]);
+                        });
                         if (props.disabled !== undefined) safeUpdate('disabled', props.disabled);
                         if (props.loading !== undefined) safeUpdate('loading', props.loading);
                         if (props.readonly !== undefined) safeUpdate('readonly', props.readonly);
@@ -286,304 +327,66 @@ export const vueAdapter: FrameworkAdapter<Component> = {
                     if (state.value && typeof state.value === 'object') {
                         const stateObj = state.value as any;
                         
-                        if ('value' in stateObj && stateObj.value !== props.modelValue) {
-                            emit('update:modelValue', stateObj.value);
-                        }
-                        if ('checked' in stateObj && stateObj.checked !== props.checked) {
-                            emit('update:checked', stateObj.checked);
-                        }
-                        if ('open' in stateObj && stateObj.open !== props.open) {
-                            emit('update:open', stateObj.open);
-                        }
-                        if ('visible' in stateObj && stateObj.visible !== props.visible) {
-                            emit('update:visible', stateObj.visible);
-                        }
+                        Object.entries(modelBindings).forEach(([propName, stateKey]) => {
+                            if (stateKey in stateObj && stateObj[stateKey] !== (props as any)[propName]) {
+                                emit(`update:${propName}` as any, stateObj[stateKey]);
+                            }
+                        });
                     }
                 });
 
+                // Runs a logic handler of the host element and reports the event to the parent
+                const handleHostEvent = (handlerName: string, handler: (event: any) => void, domEvent: Event) => {
+                    const vueEvent = handlerName.replace(/^on/, '').toLowerCase();
 
-                // Get component structure
-                const rootElement = structure.elements.root?.type || 'div';
-                const rootRole = structure.elements.root?.role || accessibility.role;
-                
+                    // Call the core interaction handler
+                    handler(domEvent);
 
-                // Return the render function for Vue component
-                return () => {
-                    // Get current accessibility props and interaction handlers
-                    const a11yProps = logic.getA11yProps('root');
-                    const interactionHandlers = logic.getInteractionHandlers('root');
-                    
-                    // For debugging: Check if explicit props are provided
-                    const hasExplicitAriaLabel = props['aria-label'] !== undefined;
-                    const hasExplicitDataTestId = props['data-testid'] !== undefined;
+                    // Call core logic
+                    logic.handleEvent(vueEvent, domEvent);
 
-                    // Convert interaction handlers to Vue event format with proper emit
-                    const vueHandlers: Record<string, any> = {};
-                    if (interactionHandlers && typeof interactionHandlers === 'object') {
-                        Object.entries(interactionHandlers).forEach(([event, handler]) => {
-                            if (typeof handler === 'function' && typeof event === 'string') {
-                                // Convert onEvent to Vue event format
-                                const vueEvent = event.replace(/^on/, '').toLowerCase();
-                                const eventHandlerName = `on${vueEvent.charAt(0).toUpperCase()}${vueEvent.slice(1)}`;
-                                
-                                vueHandlers[eventHandlerName] = (domEvent: Event) => {
-                                    // Call the core interaction handler
-                                    const result = handler(domEvent);
-                                    
-                                    // Call core logic
-                                    logic.handleEvent(vueEvent, domEvent);
-                                    
-                                    // Emit Vue event for testing and v-model
-                                    emit(vueEvent as any, domEvent);
-                                    
-                                    // Call prop callback if provided
-                                    const propCallback = (props as any)[eventHandlerName];
-                                    if (propCallback && typeof propCallback === 'function') {
-                                        propCallback(domEvent);
-                                    }
-                                    
-                                    return result;
-                                };
-                            }
-                        });
-                    }
-
-                    // Handle Dialog component with Teleport rendering
-                    if (componentName === 'Dialog') {
-                        const dialogState = state.value as any;
-                        
-                        if (!dialogState?.open) {
-                            return null;
-                        }
+                    // Emit Vue event for testing and v-model
+                    emit(vueEvent as any, domEvent);
 
-                        // Use Teleport for portal rendering
-                        return h(Teleport, { to: 'body' }, [
-                            h('div', {
-                                style: { position: 'fixed', inset: 0, zIndex: 9999 }
-                            }, [
-                                // Backdrop
-                                h('div', {
-                                    'data-part': 'backdrop',
-                                    role: 'presentation',
-                                    ...logic.getA11yProps('backdrop'),
-                                    ...logic.getInteractionHandlers('backdrop'),
-                                    style: { 
-                                        position: 'absolute', 
-                                        inset: 0, 
-                                        backgroundColor: 'rgba(0, 0, 0, 0.5)'
-                                    },
-                                    class: attrs.backdropClass || props.class
-                                }),
-                                
-                                // Dialog
-                                h('div', {
-                                    ...attrs,
-                                    ...a11yProps,
-                                    ...vueHandlers,
-                                    ref: elementRef,
-                                    role: 'dialog',
-                                    'data-part': 'dialog',
-                                    class: props.class,
-                                    style: {
-                                        position: 'relative',
-                                        backgroundColor: 'white',
-                                        padding: '20px',
-                                        maxWidth: '500px',
-                                        margin: '50px auto',
-                                        borderRadius: '8px',
-                                        ...(typeof props.style === 'object' ? props.style : {})
-                                    }
-                                }, slots.default ? slots.default() : [])
-                            ])
-                        ]);
+                    // Call prop callback if provided
+                    const propCallback = (props as any)[toVueHandlerName(handlerName)];
+                    if (propCallback && typeof propCallback === 'function') {
+                        propCallback(domEvent);
                     }
+                };
 
-                    // Handle Select component (compound component with trigger + listbox + options)
-                    if (componentName === 'Select') {
-                        const selectState = state.value as any;
-                        const { refs, a11y, interactions } = useStellarIXCompound(core, ['trigger', 'listbox', 'option', 'clear']);
-                        
-                        // Ensure a11y and interactions are callable
-                        const getA11y = (part: string) => {
-                            const fn = a11y[part];
-                            return typeof fn === 'function' ? fn() : {};
-                        };
-                        
-                        const getInteractions = (part: string) => {
-                            const fn = interactions[part];
-                            return typeof fn === 'function' ? fn() : {};
-                        };
-                        
-                        const allOptions = selectState.options || [];
-                        const filteredOptions = selectState.filteredOptions || allOptions;
-                        const selectedOption = allOptions.find((opt: any) => opt && opt.value === selectState.value);
-                        
-                        const elements = [];
-                        
-                        // Trigger button
-                        elements.push(
-                            h('button', {
-                                key: 'trigger',
-                                ref: refs.trigger,
-                                'data-part': 'trigger',
-                                type: 'button',
-                                ...getA11y('trigger'),
-                                ...getInteractions('trigger'),
-                                'aria-expanded': selectState.open ? 'true' : 'false',
-                                'aria-haspopup': 'listbox',
-                                disabled: selectState.disabled,
-                                'aria-readonly': selectState.readonly,
-                                class: `${props.class || ''} select-trigger`,
-                                style: {
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'space-between',
-                                    padding: '8px 12px',
-                                    border: '1px solid #ccc',
-                                    borderRadius: '4px',
-                                    backgroundColor: selectState.disabled ? '#f5f5f5' : 'white',
-                                    cursor: selectState.disabled ? 'not-allowed' : 'pointer',
-                                    minWidth: '200px',
-                                    ...(typeof props.style === 'object' ? props.style : {})
-                                }
-                            }, [
-                                // Display value or placeholder
-                                h('span', { key: 'value' }, 
-                                    selectedOption ? selectedOption.label : selectState.placeholder || 'Select an option'
-                                ),
-                                
-                                // Clear button (if clearable and has value)
-                                ...(props.clearable && selectState.value ? [
-                                    h('span', {
-                                        key: 'clear',
-                                        ref: refs.clear,
-                                        role: 'button',
-                                        tabindex: 0,
-                                        'data-part': 'clear',
-                                        ...getA11y('clear'),
-                                        ...getInteractions('clear'),
-                                        'aria-label': 'Clear selection',
-                                        style: {
-                                            background: 'none',
-                                            border: 'none',
-                                            padding: '2px',
-                                            cursor: 'pointer',
-                                            marginLeft: '8px'
-                                        }
-                                    }, '×')
-                                ] : []),
-                                
-                                // Dropdown arrow
-                                h('span', {
-                                    key: 'arrow',
-                                    'aria-hidden': 'true',
-                                    style: {
-                                        marginLeft: '8px',
-                                        transform: selectState.open ? 'rotate(180deg)' : 'rotate(0deg)',
-                                        transition: 'transform 0.2s'
-                                    }
-                                }, '▼')
-                            ])
-                        );
-                        
-                        // Listbox (only when open)
-                        if (selectState.open && filteredOptions.length > 0) {
-                            elements.push(
-                                h('ul', {
-                                    key: 'listbox',
-                                    ref: refs.listbox,
-                                    'data-part': 'listbox',
-                                    ...getA11y('listbox'),
-                                    role: 'listbox',
-                                    style: {
-                                        position: 'absolute',
-                                        top: '100%',
-                                        left: 0,
-                                        right: 0,
-                                        backgroundColor: 'white',
-                                        border: '1px solid #ccc',
-                                        borderTop: 'none',
-                                        borderRadius: '0 0 4px 4px',
-                                        maxHeight: '200px',
-                                        overflowY: 'auto',
-                                        listStyle: 'none',
-                                        margin: 0,
-                                        padding: 0,
-                                        zIndex: 1000
-                                    }
-                                }, filteredOptions.map((option: any, index: number) => {
-                                    const optionA11y = getA11y('option');
-                                    const optionHandlers = getInteractions('option');
-                                    
-                                    return h('li', {
-                                        key: option.value,
-                                        'data-part': 'option',
-                                        ...optionA11y,
-                                        ...optionHandlers,
-                                        role: 'option',
-                                        'aria-selected': option.value === selectState.value,
-                                        style: {
-                                            padding: '8px 12px',
-                                            cursor: option.disabled ? 'not-allowed' : 'pointer',
-                                            backgroundColor: index === selectState.highlightedIndex ? '#f0f0f0' : 
-                                                           option.value === selectState.value ? '#e6f3ff' : 'white',
-                                            color: option.disabled ? '#999' : 'black'
-                                        }
-                                    }, option.label);
-                                }))
-                            );
-                        }
-                        
-                        // Wrap in container
-                        return h('div', {
-                            ...attrs,
-                            ref: elementRef,
-                            style: {
-                                position: 'relative',
-                                display: 'inline-block',
-                                ...(typeof props.style === 'object' ? props.style : {})
-                            },
-                            class: props.class
-                        }, elements);
-                    }
+                // v-model for native form controls
+                const handleNativeInput = (event: Event) => {
+                    const target = event.target as HTMLInputElement;
+                    const isCheckable = target.type === 'checkbox' || target.type === 'radio';
+                    const value = isCheckable ? target.checked : target.value;
 
-                    // Handle other compound components (Menu, Tabs, Stepper, etc.)
-                    if (['Menu', 'Tabs', 'Stepper', 'Popover', 'Tooltip'].includes(componentName)) {
-                        return renderCompoundComponent(componentName, {
-                            state: state.value,
-                            logic,
-                            props,
-                            attrs,
-                            slots,
-                            emit,
-                            elementRef
-                        });
+                    // Update state
+                    if (state.value && typeof state.value === 'object') {
+                        (state.value as any)[isCheckable ? 'checked' : 'value'] = value;
                     }
 
-                    // Start with base props
-                    const componentProps: Record<string, any> = {
-                        ref: elementRef,
-                        role: rootRole
-                    };
-
-                    // Add a11y props from logic (lower priority)
-                    if (a11yProps && typeof a11yProps === 'object') {
-                        Object.assign(componentProps, a11yProps);
+                    // Emit v-model event
+                    if (isCheckable) {
+                        emit('update:checked', value as boolean);
+                    } else {
+                        emit('update:modelValue', value);
                     }
 
-                    // Add interaction handlers
-                    if (vueHandlers && typeof vueHandlers === 'object') {
-                        Object.assign(componentProps, vueHandlers);
+                    // Call prop handler
+                    if (props.onChange) {
+                        props.onChange(value);
                     }
 
-                    // Merge attributes (medium priority)
-                    if (attrs) {
-                        Object.assign(componentProps, attrs);
-                    }
+                    // Emit change event
+                    emit('change', value);
+                };
 
-                    // Override with explicit props (highest priority) - force override
+                // Return the render function for Vue component
+                return () => {
+                    // Explicit props win over the ones derived from state
                     // Note: Vue converts kebab-case props to camelCase in setup()
-                    const explicitPropsToForce = {
+                    const explicitProps: Record<string, any> = {
                         'class': props.class,
                         'style': props.style,
                         'id': props.id,
@@ -593,109 +396,68 @@ export const vueAdapter: FrameworkAdapter<Component> = {
                         'aria-describedby': props.ariaDescribedby || attrs['aria-describedby'],
                         'role': props.role
                     };
-                    
-                    // Force set all defined explicit props
-                    Object.entries(explicitPropsToForce).forEach(([propName, propValue]) => {
-                        if (propValue !== undefined && propValue !== null) {
-                            componentProps[propName] = propValue;
+
+                    const renderNode = (node: AnatomyNode): VNode => {
+                        const children: Array<VNode | string | number> = node.children.map(renderNode);
+                        if (node.text !== undefined) {
+                            children.push(node.text);
+                        } else if (node.slot && slots.default) {
+                            children.push(...slots.default());
                         }
-                    });
 
-                    // Handle component-specific props
-                    if (componentName === 'Button' && rootElement === 'button') {
-                        if (state.value && typeof state.value === 'object') {
-                            const stateObj = state.value as any;
-                            componentProps.disabled = stateObj.disabled || stateObj.loading;
-                            componentProps.type = stateObj.type || props.type || 'button';
+                        if (node.element === null) {
+                            return h(Fragment, { key: node.key }, children);
                         }
-                    }
 
-                    if (componentName === 'Input' && rootElement === 'input') {
-                        if (state.value && typeof state.value === 'object') {
-                            const stateObj = state.value as any;
-                            componentProps.type = stateObj.type || props.type || 'text';
-                            componentProps.value = stateObj.value || props.modelValue || '';
-                            componentProps.disabled = stateObj.disabled;
-                            componentProps.readonly = stateObj.readonly;
-                            componentProps.required = stateObj.required;
-                            componentProps.placeholder = props.placeholder;
-                            
-                            // Add input event handler for v-model support
-                            componentProps.onInput = (event: Event) => {
-                                const target = event.target as HTMLInputElement;
-                                const value = target.value;
-                                
-                                // Update state
-                                if (stateObj) {
-                                    stateObj.value = value;
-                                }
-                                
-                                // Emit v-model event
-                                emit('update:modelValue', value);
-                                
-                                // Call prop handler
-                                if (props.onChange) {
-                                    props.onChange(value);
+                        const elementProps: Record<string, any> = { key: node.key, ...toVueProps(node.props) };
+
+                        Object.entries(node.handlers).forEach(([name, handler]) => {
+                            // React-style onChange of a text field fires on every keystroke
+                            const isTextField = (node.element === 'input' || node.element === 'textarea')
+                                && node.props.type !== 'checkbox' && node.props.type !== 'radio';
+                            const handlerName = name === 'onChange' && isTextField && !node.handlers.onInput ? 'onInput' : name;
+
+                            elementProps[toVueHandlerName(handlerName)] = node.host
+                                ? (domEvent: Event) => handleHostEvent(name, handler, domEvent)
+                                : handler;
+                        });
+
+                        if (node.host) {
+                            Object.assign(elementProps, attrs, { ref: elementRef });
+                            Object.entries(explicitProps).forEach(([propName, propValue]) => {
+                                if (propValue !== undefined && propValue !== null) {
+                                    elementProps[propName] = propValue;
                                 }
-                                
-                                // Emit change event
-                                emit('change', value);
-                            };
-                        }
-                    }
+                            });
 
-                    if (componentName === 'Checkbox' && rootElement === 'input') {
-                        if (state.value && typeof state.value === 'object') {
-                            const stateObj = state.value as any;
-                            componentProps.type = 'checkbox';
-                            componentProps.checked = stateObj.checked === true;
-                            componentProps.disabled = stateObj.disabled;
-                            componentProps.required = stateObj.required;
-                            
-                            if (stateObj.checked === 'indeterminate') {
-                                componentProps['aria-checked'] = 'mixed';
-                                // Handle indeterminate via ref
-                                onMounted(() => {
-                                    if (elementRef.value && 'indeterminate' in elementRef.value) {
-                                        (elementRef.value as HTMLInputElement).indeterminate = true;
-                                    }
-                                });
-                            } else {
-                                componentProps['aria-checked'] = stateObj.checked ? 'true' : 'false';
+                            elementProps.class = [node.props.className, props.class].filter(Boolean).join(' ') || undefined;
+                            elementProps.style = [node.props.style, props.style].filter(Boolean);
+
+                            if (node.element === 'input' || node.element === 'textarea' || node.element === 'select') {
+                                const eventName = node.props.type === 'checkbox' || node.props.type === 'radio' ? 'onChange' : 'onInput';
+                                const logicHandler = elementProps[eventName];
+
+                                elementProps[eventName] = (event: Event) => {
+                                    logicHandler?.(event);
+                                    handleNativeInput(event);
+                                };
                             }
-                            
-                            // Add change event handler
-                            componentProps.onChange = (event: Event) => {
-                                const target = event.target as HTMLInputElement;
-                                const checked = target.checked;
-                                
-                                // Update state
-                                stateObj.checked = checked;
-                                
-                                // Emit v-model event
-                                emit('update:checked', checked);
-                                
-                                // Call prop handler
-                                if (props.onChange) {
-                                    props.onChange(checked);
-                                }
-                                
-                                // Emit change event
-                                emit('change', checked);
-                            };
                         }
-                    }
 
-                    // Common props are already handled above
+                        return h(node.element, elementProps, VOID_ELEMENTS.includes(node.element) ? undefined : children);
+                    };
 
-                    // Void elements can't have children
-                    const isVoidElement = ['input', 'br', 'hr', 'img', 'area', 'base', 'col', 'embed', 'link', 'meta', 'param', 'source', 'track', 'wbr'].includes(rootElement);
+                    const nodes = renderAnatomy(core, state.value as TState, {
+                        ...attrs,
+                        ...props,
+                        className: props.class,
+                        children: slots.default,
+                    });
 
-                    return h(
-                        rootElement,
-                        componentProps,
-                        isVoidElement ? undefined : (slots.default ? slots.default() : [])
-                    );
+                    if (nodes.length === 0) {
+                        return null;
+                    }
+                    return nodes.length === 1 ? renderNode(nodes[0]!) : h(Fragment, nodes.map(renderNode));
                 };
             }
         });
@@ -738,332 +500,6 @@ export function createStellarIXProvider(config: VueAdapterConfig = {}) {
     });
 }
 
-/**
- * Helper function to render compound components
- */
-function renderCompoundComponent(
-    componentName: string, 
-    context: {
-        state: any;
-        logic: any;
-        props: any;
-        attrs: any;
-        slots: any;
-        emit: any;
-        elementRef: any;
-    }
-): VNode | null {
-    const { state, logic, props, attrs, slots, emit, elementRef } = context;
-
-    switch (componentName) {
-        case 'Menu':
-            return renderMenuComponent(state, logic, props, attrs, slots, elementRef);
-        
-        case 'Tabs':
-            return renderTabsComponent(state, logic, props, attrs, slots, elementRef);
-        
-        case 'Stepper':
-            return renderStepperComponent(state, logic, props, attrs, slots, elementRef);
-        
-        case 'Popover':
-            if (!state?.open) return null;
-            return h(Teleport, { to: 'body' }, [
-                h('div', {
-                    ...attrs,
-                    ...logic.getA11yProps('popover'),
-                    ...logic.getInteractionHandlers('popover'),
-                    ref: elementRef,
-                    role: 'tooltip',
-                    'data-part': 'popover',
-                    style: {
-                        position: 'absolute',
-                        backgroundColor: 'white',
-                        border: '1px solid #e0e0e0',
-                        borderRadius: '6px',
-                        padding: '12px',
-                        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                        zIndex: 1000,
-                        maxWidth: '300px',
-                        ...(typeof props.style === 'object' ? props.style : {})
-                    },
-                    class: props.class
-                }, slots.default ? slots.default() : [])
-            ]);
-        
-        case 'Tooltip':
-            if (!state?.visible) return null;
-            return h(Teleport, { to: 'body' }, [
-                h('div', {
-                    ...attrs,
-                    ...logic.getA11yProps('tooltip'),
-                    ...logic.getInteractionHandlers('tooltip'),
-                    ref: elementRef,
-                    role: 'tooltip',
-                    'data-part': 'tooltip',
-                    style: {
-                        position: 'absolute',
-                        backgroundColor: '#333',
-                        color: 'white',
-                        padding: '8px 12px',
-                        borderRadius: '4px',
-                        fontSize: '0.875rem',
-                        zIndex: 1000,
-                        maxWidth: '250px',
-                        wordWrap: 'break-word',
-                        ...(typeof props.style === 'object' ? props.style : {})
-                    },
-                    class: props.class
-                }, slots.default ? slots.default() : [state.content])
-            ]);
-        
-        default:
-            return null;
-    }
-}
-
-/**
- * Render Menu component
- */
-function renderMenuComponent(state: any, logic: any, props: any, attrs: any, slots: any, elementRef: any): VNode {
-    const items = state.items || [];
-    
-    const menuItems = items.map((item: any, index: number) => {
-        if (item.type === 'separator') {
-            return h('li', {
-                key: item.id || `separator-${index}`,
-                role: 'separator',
-                'data-part': 'separator',
-                style: {
-                    height: '1px',
-                    backgroundColor: '#e0e0e0',
-                    margin: '4px 0'
-                }
-            });
-        }
-        
-        if (item.type === 'section') {
-            return h('li', {
-                key: item.id || `section-${index}`,
-                role: 'group',
-                'data-part': 'section'
-            }, [
-                item.label && h('div', {
-                    'data-part': 'section-header',
-                    style: {
-                        padding: '8px 12px 4px 12px',
-                        fontSize: '0.875rem',
-                        fontWeight: '600',
-                        color: '#666'
-                    }
-                }, item.label),
-                ...((item.items || []).map((subItem: any, subIndex: number) => 
-                    renderMenuItem(subItem, `${index}-${subIndex}`, logic, state)
-                ))
-            ]);
-        }
-        
-        return renderMenuItem(item, index, logic, state);
-    });
-    
-    return h('div', {
-        ...attrs,
-        ...logic.getA11yProps('root'),
-        ref: elementRef,
-        class: props.class,
-        style: props.style,
-        'data-part': 'menu-container'
-    }, [
-        h('ul', {
-            ...logic.getA11yProps('menu'),
-            role: 'menu',
-            'data-part': 'menu',
-            style: {
-                listStyle: 'none',
-                margin: 0,
-                padding: '4px 0',
-                backgroundColor: 'white',
-                border: '1px solid #e0e0e0',
-                borderRadius: '6px',
-                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                minWidth: '200px'
-            }
-        }, menuItems)
-    ]);
-}
-
-/**
- * Render menu item
- */
-function renderMenuItem(item: any, index: number | string, logic: any, menuState: any): VNode {
-    const itemA11y = logic.getA11yProps('menuItem');
-    const itemHandlers = logic.getInteractionHandlers('menuItem');
-    
-    const isSelected = item.id === menuState.selectedItem;
-    const isHighlighted = item.id === menuState.highlightedItem;
-    
-    return h('li', {
-        key: item.id || `item-${index}`,
-        ...itemA11y,
-        ...itemHandlers,
-        role: 'menuitem',
-        'data-part': 'menu-item',
-        'aria-selected': isSelected,
-        style: {
-            padding: '8px 12px',
-            cursor: item.disabled ? 'not-allowed' : 'pointer',
-            backgroundColor: isHighlighted ? '#f0f0f0' : 
-                           isSelected ? '#e6f3ff' : 'transparent',
-            color: item.disabled ? '#999' : 'black',
-            display: 'flex',
-            alignItems: 'center',
-            gap: '8px'
-        }
-    }, [
-        item.icon && h('span', { 'data-part': 'menu-item-icon' }, item.icon),
-        h('span', { 'data-part': 'menu-item-label' }, item.label || item.name),
-        item.shortcut && h('span', { 
-            'data-part': 'menu-item-shortcut',
-            style: { marginLeft: 'auto', fontSize: '0.875rem', color: '#999' }
-        }, item.shortcut)
-    ]);
-}
-
-/**
- * Render Tabs component
- */
-function renderTabsComponent(state: any, logic: any, props: any, attrs: any, slots: any, elementRef: any): VNode {
-    const tabs = state.tabs || [];
-    const selectedTab = state.selectedTab || tabs[0]?.id;
-    
-    const tabButtons = tabs.map((tab: any, index: number) => {
-        const isSelected = tab.id === selectedTab;
-        
-        return h('button', {
-            key: tab.id || `tab-${index}`,
-            ...logic.getA11yProps('tab'),
-            ...logic.getInteractionHandlers('tab'),
-            role: 'tab',
-            'data-part': 'tab',
-            'aria-selected': isSelected,
-            'aria-controls': `panel-${tab.id}`,
-            id: `tab-${tab.id}`,
-            disabled: tab.disabled,
-            style: {
-                padding: '12px 16px',
-                border: 'none',
-                backgroundColor: isSelected ? 'white' : 'transparent',
-                color: isSelected ? '#007acc' : '#666',
-                borderBottom: isSelected ? '2px solid #007acc' : '2px solid transparent',
-                cursor: tab.disabled ? 'not-allowed' : 'pointer',
-                fontWeight: isSelected ? '600' : 'normal'
-            }
-        }, tab.label || `Tab ${index + 1}`);
-    });
-    
-    const tabPanels = tabs.filter((tab: any) => tab.id === selectedTab).map((tab: any) => {
-        return h('div', {
-            key: `panel-${tab.id}`,
-            ...logic.getA11yProps('tabPanel'),
-            role: 'tabpanel',
-            'data-part': 'tab-panel',
-            id: `panel-${tab.id}`,
-            'aria-labelledby': `tab-${tab.id}`,
-            style: {
-                padding: '16px',
-                backgroundColor: 'white',
-                border: '1px solid #e0e0e0',
-                borderTop: 'none'
-            }
-        }, tab.content || (slots.default ? slots.default() : []));
-    });
-    
-    return h('div', {
-        ...attrs,
-        ...logic.getA11yProps('root'),
-        ref: elementRef,
-        class: props.class,
-        style: props.style,
-        'data-part': 'tabs'
-    }, [
-        h('div', {
-            ...logic.getA11yProps('tabList'),
-            role: 'tablist',
-            'data-part': 'tab-list',
-            style: {
-                display: 'flex',
-                borderBottom: '1px solid #e0e0e0',
-                backgroundColor: '#f9f9f9'
-            }
-        }, tabButtons),
-        ...tabPanels
-    ]);
-}
-
-/**
- * Render Stepper component
- */
-function renderStepperComponent(state: any, logic: any, props: any, attrs: any, slots: any, elementRef: any): VNode {
-    const steps = state.steps || [];
-    
-    const stepElements = steps.map((step: any, index: number) => {
-        const status = 'completed'; // Simplified for now
-        const stepContent = status === 'completed' ? '✓' : (index + 1).toString();
-        
-        return h('li', {
-            key: step.id || `step-${index}`,
-            ...logic.getA11yProps('step'),
-            'data-part': 'step',
-            style: {
-                display: state.orientation === 'vertical' ? 'block' : 'inline-block',
-                marginRight: state.orientation === 'horizontal' ? '20px' : '0',
-                marginBottom: state.orientation === 'vertical' ? '20px' : '0'
-            }
-        }, [
-            h('button', {
-                ...logic.getA11yProps('stepButton'),
-                ...logic.getInteractionHandlers('stepButton'),
-                'data-part': 'step-button',
-                disabled: state.disabled || step.disabled,
-                style: {
-                    padding: '10px',
-                    borderRadius: '50%',
-                    width: '40px',
-                    height: '40px',
-                    border: '1px solid #ccc',
-                    backgroundColor: 'white',
-                    cursor: state.disabled || step.disabled ? 'not-allowed' : 'pointer'
-                }
-            }, stepContent),
-            step.label && h('span', {
-                'data-part': 'step-label',
-                style: { marginLeft: '10px' }
-            }, step.label)
-        ]);
-    });
-    
-    return h('div', {
-        ...attrs,
-        ...logic.getA11yProps('root'),
-        ref: elementRef,
-        class: props.class,
-        style: props.style,
-        'data-part': 'stepper'
-    }, [
-        h('ol', {
-            ...logic.getA11yProps('list'),
-            'data-part': 'step-list',
-            style: {
-                listStyle: 'none',
-                display: 'flex',
-                flexDirection: state.orientation === 'vertical' ? 'column' : 'row',
-                gap: '20px',
-                margin: 0,
-                padding: 0
-            }
-        }, stepElements)
-    ]);
-}
-
 // Re-export everything for convenience
 export * from './composables';
 export * from './types';
\ No newline at end of file
@@ -17,6 +17,9 @@ import {
     unref,
     shallowRef,
     shallowReactive,
+    getCurrentScope,
+    onScopeDispose,
+    useId,
     type Ref,
     type ComputedRef,
     type UnwrapRef,
@@ -24,24 +27,68 @@ import {
     type WatchStopHandle
 } from 'vue';
 
-import type { ComponentCore } from '@stellarix-ui/core';
+import { createIdProvider, withIdProvider } from '@stellarix-ui/core';
+import type { ComponentCore, Store, IdProvider } from '@stellarix-ui/core';
 import type { VueComposableReturn, VueEventHandler } from './types';
 
+/**
+ * Whether a value is a StellarIX store rather than a plain state object
+ */
+function isStore(value: unknown): value is Store<any> {
+    return !!value && typeof value === 'object'
+        && typeof (value as Store<any>).getState === 'function'
+        && typeof (value as Store<any>).select === 'function';
+}
+
+/**
+ * Writable copy of a state value, so local writes never reach the store
+ */
+function toWritableState<T>(value: T): T {
+    return value && typeof value === 'object' && !Array.isArray(value)
+        ? { ...value as Record<string, any> } as T
+        : value;
+}
+
 /**
  * Vue 3.5+ composable for StellarIX state management
- * Provides reactive state integration with StellarIX core
+ * Provides reactive state integration with StellarIX core.
+ * Given a store, the ref follows the selected slice and only changes when
+ * `equalityFn` reports a change; the subscription ends with the calling scope.
  */
+export function useStellarIXState<TState, TSelected = TState>(
+    store: Store<TState>,
+    selector?: (state: TState) => TSelected,
+    equalityFn?: (a: TSelected, b: TSelected) => boolean
+): Ref<UnwrapRef<TSelected>>;
 export function useStellarIXState<TState>(
     coreState: TState
-): Ref<UnwrapRef<TState>> {
+): Ref<UnwrapRef<TState>>;
+export function useStellarIXState(
+    source: unknown,
+    selector?: (state: any) => any,
+    equalityFn?: (a: any, b: any) => boolean
+): Ref<any> {
+    if (isStore(source)) {
+        const selection = source.select(selector ?? (state => state), equalityFn);
+        const stateRef = shallowRef(toWritableState(selection.get()));
+
+        const unsubscribe = selection.subscribe(value => {
+            stateRef.value = toWritableState(value);
+        });
+        if (getCurrentScope()) {
+            onScopeDispose(unsubscribe);
+        }
+
+        return stateRef;
+    }
+
     // Use shallowRef for better performance and avoid readonly violations
     // Based on VueUse patterns for large data structures
-    if (coreState && typeof coreState === 'object' && !Array.isArray(coreState)) {
+    if (source && typeof source === 'object' && !Array.isArray(source)) {
         // Create a writable reactive copy of the state
-        const stateRef = shallowRef({ ...coreState as Record<string, any> });
-        return stateRef as Ref<UnwrapRef<TState>>;
+        return shallowRef(toWritableState(source));
     } else {
-        return ref(coreState) as Ref<UnwrapRef<TState>>;
+        return ref(source);
     }
 }
 
@@ -147,6 +194,23 @@ export function useStellarIXModel<T>(
     });
 }
 
+/**
+ * Vue 3.5+ composable for an ID provider seeded with Vue's `useId`
+ * Components created with it get the same IDs on the server and the client
+ */
+export function useStellarIXIdProvider(): IdProvider {
+    return createIdProvider({ seed: useId() });
+}
+
+/**
+ * Vue 3.5+ composable that creates a component core in setup,
+ * with IDs that match between server and client render
+ * @param factory Creates the core, e.g. `() => createSelect(options)`
+ */
+export function useStellarIXCore<T>(factory: () => T): T {
+    return withIdProvider(useStellarIXIdProvider(), factory);
+}
+
 /**
  * Vue 3.5+ composable for component lifecycle integration
  * Connects Vue lifecycle to StellarIX component lifecycle
@@ -214,24 +278,8 @@ export function useStellarIXComponent<TState, TLogic extends Record<string, any>
 ) {
     const { modelKey = 'modelValue', lifecycleOptions = {} } = options;
     
-    // Set up reactive state - handle both Store interface and plain state  
-    const initialState = typeof core.state === 'object' && 'getState' in core.state 
-        ? core.state.getState() 
-        : core.state;
-    const state = useStellarIXState(initialState);
-    
-    // Set up reactive sync with core state if it's a store
-    if (typeof core.state === 'object' && 'subscribe' in core.state && typeof core.state.subscribe === 'function') {
-        // Subscribe to core state changes and update local state
-        core.state.subscribe((newState: any) => {
-            // Use Object.assign to update the existing ref value instead of replacing it
-            if (state.value && typeof state.value === 'object') {
-                Object.assign(state.value, newState);
-            } else {
-                state.value = newState as UnwrapRef<TState>;
-            }
-        });
-    }
+    // Set up reactive state - handle both Store interface and plain state
+    const state = useStellarIXState<TState>(core.state);
     
     // Set up logic integration
     const logic = useStellarIXLogic(core.logic);
@@ -307,10 +355,7 @@ export function useStellarIXCompound<TState, TLogic extends Record<string, any>>
     parts: string[]
 ) {
     // Use simplified approach without full lifecycle integration
-    const initialState = typeof core.state === 'object' && 'getState' in core.state 
-        ? core.state.getState() 
-        : core.state;
-    const state = useStellarIXState(initialState);
+    const state = useStellarIXState<TState>(core.state);
     const logic = useStellarIXLogic(core.logic);
     
     // Create refs for each compound part
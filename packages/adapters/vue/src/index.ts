@@ -19,6 +19,8 @@ export {
     useStellarIXLogic,
     useStellarIXRef,
     useStellarIXModel,
+    useStellarIXIdProvider,
+    useStellarIXCore,
     useStellarIXLifecycle,
     useStellarIXComponent,
     useStellarIXCompound,
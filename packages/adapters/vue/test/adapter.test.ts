@@ -8,9 +8,11 @@ import { mount } from '@vue/test-utils';
 import { defineComponent, ref, nextTick } from 'vue';
 import { vueAdapter, connectToVue, createStellarIXProvider } from '../src/adapter';
 import { useStellarIXComponent, useStellarIXModel } from '../src/composables';
+import type { ComponentAnatomy } from '@stellarix-ui/core';
 
 // Mock StellarIX core for testing
 const createMockCore = (name: string, customState = {}, customLogic = {}) => ({
+    anatomy: undefined as ComponentAnatomy | undefined,
     metadata: {
         name,
         structure: {
@@ -158,8 +160,16 @@ describe('Vue Adapter', () => {
                 disabled: false 
             });
             
-            // Override structure for input
-            mockCore.metadata.structure.elements.root = { type: 'input', role: 'textbox' };
+            // Override anatomy for input
+            mockCore.anatomy = {
+                parts: {
+                    root: {
+                        element: 'input',
+                        props: ({ state, props }) => ({ type: state.type, value: state.value, placeholder: props.placeholder }),
+                    },
+                },
+                bindings: { value: 'value' },
+            };
             
             const VueInput = vueAdapter.createComponent(mockCore);
             
@@ -181,8 +191,16 @@ describe('Vue Adapter', () => {
                 disabled: false 
             });
             
-            // Override structure for checkbox
-            mockCore.metadata.structure.elements.root = { type: 'input', role: 'checkbox' };
+            // Override anatomy for checkbox
+            mockCore.anatomy = {
+                parts: {
+                    root: {
+                        element: 'input',
+                        props: ({ state }) => ({ type: 'checkbox', checked: state.checked === true }),
+                    },
+                },
+                bindings: { checked: 'checked' },
+            };
             
             const VueCheckbox = vueAdapter.createComponent(mockCore);
             
@@ -265,6 +283,15 @@ describe('Vue Adapter', () => {
                 onKeyDown: (event: Event) => `keydown-${element}`
             }));
             
+            // Trigger part of the select anatomy
+            mockCore.anatomy = {
+                parts: {
+                    root: { element: 'div' },
+                    trigger: { element: 'button', text: ({ props }) => props.placeholder },
+                },
+                bindings: { value: 'value', options: 'options' },
+            };
+            
             const VueSelect = vueAdapter.createComponent(mockCore);
             
             const wrapper = mount(VueSelect, {
@@ -7,6 +7,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { mount } from '@vue/test-utils';
 import { defineComponent, ref, nextTick } from 'vue';
 import { connectToVue } from '../src/adapter';
+import type { ComponentAnatomy } from '@stellarix-ui/core';
 
 // Import actual StellarIX components for integration testing
 // Note: These imports might need to be adjusted based on the actual export structure
@@ -19,9 +20,81 @@ Checkbox = createMockComponent('Checkbox');
 Select = createMockComponent('Select');
 Dialog = createMockComponent('Dialog');
 
+// Render contracts of the mocked components, shaped like the ones the primitives publish
+function createMockAnatomy(name: string): ComponentAnatomy | undefined {
+    switch (name) {
+        case 'Button':
+            return {
+                parts: {
+                    root: {
+                        element: 'button',
+                        slot: true,
+                        props: ({ state, props }) => ({
+                            type: props.type || 'button',
+                            disabled: state.disabled || state.loading || undefined,
+                        }),
+                    },
+                },
+            };
+        case 'Input':
+            return {
+                parts: {
+                    root: {
+                        element: 'input',
+                        props: ({ state, props }) => ({
+                            type: props.type || 'text',
+                            value: state.value,
+                            placeholder: props.placeholder,
+                            disabled: state.disabled || undefined,
+                            required: state.required || undefined,
+                            'aria-invalid': state.error ? 'true' : undefined,
+                        }),
+                    },
+                },
+                bindings: { value: 'value' },
+            };
+        case 'Checkbox':
+            return {
+                parts: {
+                    root: {
+                        element: 'input',
+                        props: ({ state }) => ({
+                            type: 'checkbox',
+                            checked: state.checked === true,
+                            disabled: state.disabled || undefined,
+                            'aria-checked': state.checked === 'indeterminate' ? 'mixed' : String(state.checked === true),
+                        }),
+                    },
+                },
+                bindings: { checked: 'checked' },
+            };
+        case 'Select':
+            return {
+                parts: {
+                    root: { element: 'div' },
+                    trigger: {
+                        element: 'button',
+                        text: ({ state, props }) => props.placeholder ?? state.placeholder,
+                    },
+                    listbox: { element: 'ul', when: ({ state }) => state.open },
+                    option: {
+                        element: 'li',
+                        parent: 'listbox',
+                        items: ({ state }) => state.options || [],
+                        text: ({ item }) => item?.label,
+                    },
+                },
+                bindings: { value: 'value', options: 'options' },
+            };
+        default:
+            return undefined;
+    }
+}
+
 // Mock component factory for fallback
 function createMockComponent(name: string) {
     return {
+        anatomy: createMockAnatomy(name),
         metadata: {
             name,
             structure: {
@@ -0,0 +1,577 @@
+/**
+ * Web Components Adapter Implementation
+ * Turns any StellarIX component core into a native Custom Element
+ *
+ * Key Features:
+ * - One `<sx-*>` custom element per component, with a core per instance
+ *   when registered from a core factory
+ * - Shadow DOM rendered from the component anatomy
+ *   (each part exposes `part` and `data-part` for styling and testing)
+ * - Attribute/property reflection for primitive state fields
+ * - Logic events mirrored as DOM CustomEvents (`sx-change`, `sx-option-select`)
+ * - Keyed patching of the shadow DOM on every state update
+ */
+
+import { FORM_CONTROLS, FORM_PROPERTIES, getEventName, renderAnatomy } from '@stellarix-ui/core';
+import type {
+    AnatomyNode,
+    ComponentCore,
+    FrameworkAdapter,
+} from '@stellarix-ui/core';
+import type {
+    ComponentCoreFactory,
+    DefineCustomElementOptions,
+    StellarIXElement,
+    StellarIXElementConstructor,
+    WebComponentsAdapterConfig,
+} from './types';
+
+type ReflectedType = 'boolean' | 'number' | 'string';
+
+/**
+ * Attributes, handlers and listeners applied to a rendered part
+ */
+interface PartState {
+    attributes: Set<string>;
+    handlers: Record<string, (event: any) => void>;
+    listeners: Map<string, EventListener>;
+    children: Map<string, Node>;
+}
+
+/**
+ * Shadow DOM node to render: an anatomy element, a text or the slot
+ */
+type RenderItem =
+    | { kind: 'element'; key: string; node: AnatomyNode }
+    | { kind: 'text'; key: string; text: string }
+    | { kind: 'slot'; key: string };
+
+const DEFAULT_CONFIG: Required<WebComponentsAdapterConfig> = {
+    prefix: 'sx',
+    eventPrefix: 'sx-',
+    shadowMode: 'open',
+};
+
+/**
+ * Prop names that differ from their attribute names
+ */
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+    tabIndex: 'tabindex',
+    htmlFor: 'for',
+    className: 'class',
+    readOnly: 'readonly',
+};
+
+/**
+ * Style properties that take unitless numbers
+ */
+const UNITLESS_STYLES = ['flex', 'flexGrow', 'flexShrink', 'fontWeight', 'lineHeight', 'opacity', 'order', 'zIndex', 'zoom'];
+
+/**
+ * Converts camelCase or PascalCase to kebab-case
+ */
+export function toKebabCase(value: string): string {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .replace(/[\s_]+/g, '-')
+        .toLowerCase();
+}
+
+/**
+ * Derives the custom element tag name for a component core
+ */
+export function getTagName(
+    core: ComponentCore<any, any>,
+    prefix: string = DEFAULT_CONFIG.prefix
+): string {
+    return `${prefix}-${toKebabCase(core.metadata.name)}`;
+}
+
+/**
+ * Creates a Web Components adapter with the given configuration
+ */
+export function createWebComponentsAdapter(
+    config: WebComponentsAdapterConfig = {}
+): FrameworkAdapter<CustomElementConstructor> {
+    const resolvedConfig = { ...DEFAULT_CONFIG, ...config };
+
+    return {
+        name: 'web-components',
+        version: '1.0.0',
+
+        /**
+         * Creates a custom element class from the component core.
+         * Every instance renders this one core; register a core factory
+         * with connectToWebComponents to give each instance its own.
+         * The class is not registered; use connectToWebComponents for that.
+         */
+        createComponent<TState, TLogic extends Record<string, any> = Record<string, any>>(
+            core: ComponentCore<TState, TLogic>
+        ): CustomElementConstructor {
+            return createElementClass(core, resolvedConfig);
+        },
+    };
+}
+
+/**
+ * Default Web Components adapter for StellarIX UI
+ */
+export const webComponentsAdapter = createWebComponentsAdapter();
+
+/**
+ * Helper to connect a component to a registered custom element
+ * @param componentCore A core factory called once per element, or a single core shared by all elements
+ * @param options Tag name, registry and adapter configuration
+ * @returns The registered custom element constructor
+ */
+export function connectToWebComponents<TState>(
+    componentCore: ComponentCore<TState, any> | ComponentCoreFactory<TState>,
+    options: DefineCustomElementOptions = {}
+): StellarIXElementConstructor<TState> {
+    const { tagName, registry, ...config } = options;
+    const resolvedConfig = { ...DEFAULT_CONFIG, ...config };
+    const elementRegistry = registry ?? window.customElements;
+
+    const existing = tagName ? elementRegistry.get(tagName) : undefined;
+    if (existing) {
+        return existing as StellarIXElementConstructor<TState>;
+    }
+
+    const ElementClass = createElementClass(componentCore, resolvedConfig, tagName);
+    const registered = elementRegistry.get(ElementClass.tagName);
+    if (registered) {
+        return registered as StellarIXElementConstructor<TState>;
+    }
+
+    elementRegistry.define(ElementClass.tagName, ElementClass);
+    return ElementClass;
+}
+
+/**
+ * Destroys a core, if its component provides destroy
+ */
+function destroyCore(core: ComponentCore<any, any>): void {
+    // Some primitives (DatePicker) build their core without destroy
+    if (typeof core.destroy === 'function') {
+        core.destroy();
+    }
+}
+
+/**
+ * Collects the primitive state fields that are reflected as attributes
+ */
+function getReflectedFields(state: unknown): Map<string, { key: string; type: ReflectedType }> {
+    const fields = new Map<string, { key: string; type: ReflectedType }>();
+
+    if (!state || typeof state !== 'object') {
+        return fields;
+    }
+
+    Object.entries(state as Record<string, unknown>).forEach(([key, value]) => {
+        const type = typeof value;
+        if (type !== 'boolean' && type !== 'number' && type !== 'string') {
+            return;
+        }
+        // Never shadow native HTMLElement members such as `hidden` or `title`
+        if (key in HTMLElement.prototype) {
+            return;
+        }
+        fields.set(toKebabCase(key), { key, type: type as ReflectedType });
+    });
+
+    return fields;
+}
+
+/**
+ * Parses an attribute value into the type of the reflected state field
+ */
+function parseAttribute(value: string | null, type: ReflectedType): boolean | number | string {
+    switch (type) {
+        case 'boolean':
+            return value !== null && value !== 'false';
+        case 'number':
+            return value === null ? 0 : Number(value);
+        default:
+            return value ?? '';
+    }
+}
+
+/**
+ * Serializes a style object into a `style` attribute value
+ */
+function toStyleText(style: Record<string, any>): string {
+    return Object.entries(style)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([name, value]) => {
+            const cssValue = typeof value === 'number' && value !== 0 && !UNITLESS_STYLES.includes(name)
+                ? `${value}px`
+                : String(value);
+            return `${toKebabCase(name)}: ${cssValue}`;
+        })
+        .join('; ');
+}
+
+/**
+ * Converts a props object into attribute name/value pairs.
+ * Functions and objects other than `style` are skipped.
+ */
+function toAttributes(props: Record<string, any>): Map<string, string> {
+    const attributes = new Map<string, string>();
+
+    Object.entries(props).forEach(([key, value]) => {
+        if (key === 'style' && value && typeof value === 'object') {
+            const styleText = toStyleText(value);
+            if (styleText) {
+                attributes.set('style', styleText);
+            }
+            return;
+        }
+
+        if (value === undefined || value === null || typeof value === 'function' || typeof value === 'object') {
+            return;
+        }
+
+        const name = ATTRIBUTE_ALIASES[key] ?? key;
+
+        if (typeof value === 'boolean') {
+            if (name.startsWith('aria-')) {
+                attributes.set(name, String(value));
+            } else if (value) {
+                attributes.set(name, '');
+            }
+            return;
+        }
+
+        attributes.set(name, String(value));
+    });
+
+    return attributes;
+}
+
+/**
+ * Applies attributes to an element, touching only what changed
+ */
+function patchAttributes(
+    element: HTMLElement,
+    next: Map<string, string>,
+    previous: Set<string>
+): Set<string> {
+    previous.forEach(name => {
+        if (!next.has(name)) {
+            element.removeAttribute(name);
+        }
+    });
+
+    next.forEach((value, name) => {
+        if (element.getAttribute(name) !== value) {
+            element.setAttribute(name, value);
+        }
+    });
+
+    return new Set(next.keys());
+}
+
+/**
+ * Flattens anatomy nodes into the shadow DOM nodes to render.
+ * Wrapper-less groups render their content in place, so their keys
+ * prefix the keys of that content.
+ */
+function toRenderItems(nodes: AnatomyNode[], prefix = ''): RenderItem[] {
+    return nodes.flatMap(node => {
+        const key = `${prefix}${node.key}`;
+        return node.element === null
+            ? getContentItems(node, `${key}/`)
+            : [{ kind: 'element' as const, key, node }];
+    });
+}
+
+/**
+ * Shadow DOM nodes rendered inside an anatomy node
+ */
+function getContentItems(node: AnatomyNode, prefix = ''): RenderItem[] {
+    const items = toRenderItems(node.children, prefix);
+    if (node.text != null) {
+        items.push({ kind: 'text', key: `${prefix}#text`, text: String(node.text) });
+    } else if (node.slot) {
+        items.push({ kind: 'slot', key: `${prefix}#slot` });
+    }
+    return items;
+}
+
+/**
+ * Creates the custom element class bound to a component core,
+ * or to a core factory that creates the core of each element
+ */
+function createElementClass<TState>(
+    source: ComponentCore<TState, any> | ComponentCoreFactory<TState>,
+    config: Required<WebComponentsAdapterConfig>,
+    tagName?: string
+): StellarIXElementConstructor<TState> {
+    if (typeof HTMLElement === 'undefined') {
+        throw new Error('Web Components adapter requires a DOM environment');
+    }
+
+    const createCore = typeof source === 'function' ? source : null;
+
+    // Tag name, reflected fields and events come from a throwaway core of the factory
+    const template = createCore ? createCore() : source as ComponentCore<TState, any>;
+    const elementTagName = tagName ?? getTagName(template, config.prefix);
+    const reflectedFields = getReflectedFields(template.state.getState());
+    const supportedEvents = template.metadata.events?.supported ?? [];
+    if (createCore) {
+        destroyCore(template);
+    }
+
+    class StellarIXCustomElement extends HTMLElement implements StellarIXElement<TState> {
+        static readonly tagName = elementTagName;
+
+        static get observedAttributes(): string[] {
+            return [...reflectedFields.keys()];
+        }
+
+        private ownCore: ComponentCore<TState, any> | null = null;
+        private rendered = new Map<string, Node>();
+        private partStates = new Map<HTMLElement, PartState>();
+        private parts = new Map<string, HTMLElement>();
+        private readonly teardown: Array<() => void> = [];
+        private reflecting = false;
+
+        get core(): ComponentCore<TState, any> {
+            if (!createCore) {
+                return source as ComponentCore<TState, any>;
+            }
+            // Created on first use, which may be an attribute set before connecting
+            return this.ownCore ??= createCore();
+        }
+
+        get state(): TState {
+            return this.core.state.getState();
+        }
+
+        connectedCallback(): void {
+            const core = this.core;
+            this.teardown.push(
+                core.state.subscribe(() => this.update()),
+                ...supportedEvents.map(event =>
+                    core.logic.on(event, (payload: any) => {
+                        this.dispatchEvent(new CustomEvent(`${config.eventPrefix}${toKebabCase(event)}`, {
+                            detail: payload,
+                            bubbles: true,
+                            composed: true,
+                        }));
+                    })
+                )
+            );
+
+            this.update();
+        }
+
+        disconnectedCallback(): void {
+            this.teardown.splice(0).forEach(dispose => dispose());
+
+            // Detached parts keep no listeners; the next update adds them back
+            this.partStates.forEach((partState, element) => {
+                partState.listeners.forEach((listener, eventName) => {
+                    element.removeEventListener(eventName, listener);
+                });
+                partState.listeners.clear();
+            });
+
+            // An owned core is not reused; reconnecting creates a fresh one
+            if (this.ownCore) {
+                destroyCore(this.ownCore);
+                this.ownCore = null;
+            }
+        }
+
+        attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+            const field = reflectedFields.get(name);
+            if (this.reflecting || !field || oldValue === newValue) {
+                return;
+            }
+
+            const value = parseAttribute(newValue, field.type);
+            const current = (this.core.state.getState() as Record<string, unknown>)[field.key];
+            if (!Object.is(current, value)) {
+                this.core.state.setState(prev => ({ ...prev, [field.key]: value }));
+            }
+        }
+
+        getPart(partId: string): HTMLElement | null {
+            return this.parts.get(partId) ?? null;
+        }
+
+        dispatch(event: string, payload?: any): void {
+            this.core.logic.handleEvent(event, payload);
+        }
+
+        /**
+         * Re-renders the anatomy into the shadow DOM and reflects state onto the host
+         */
+        private update(): void {
+            const core = this.core;
+            const state = core.state.getState();
+            const shadow = this.shadowRoot ?? this.attachShadow({ mode: config.shadowMode });
+            const previousStates = this.partStates;
+
+            this.partStates = new Map();
+            this.parts = new Map();
+            this.rendered = this.renderItems(
+                shadow,
+                toRenderItems(renderAnatomy(core, state)),
+                this.rendered,
+                previousStates
+            );
+
+            this.reflectState(state as Record<string, any>);
+        }
+
+        /**
+         * Renders items into a parent, reusing the nodes of the previous render by key
+         */
+        private renderItems(
+            parent: Node,
+            items: RenderItem[],
+            previous: Map<string, Node>,
+            previousStates: Map<HTMLElement, PartState>
+        ): Map<string, Node> {
+            const next = new Map<string, Node>();
+
+            items.forEach((item, index) => {
+                const child = this.renderItem(item, previous.get(item.key), previousStates);
+
+                if (parent.childNodes[index] !== child) {
+                    parent.insertBefore(child, parent.childNodes[index] ?? null);
+                }
+                next.set(item.key, child);
+            });
+
+            while (parent.childNodes.length > items.length) {
+                parent.removeChild(parent.lastChild!);
+            }
+
+            return next;
+        }
+
+        /**
+         * Reuses or creates the node of an item
+         */
+        private renderItem(
+            item: RenderItem,
+            previous: Node | undefined,
+            previousStates: Map<HTMLElement, PartState>
+        ): Node {
+            if (item.kind === 'text') {
+                if (!(previous instanceof Text)) {
+                    return document.createTextNode(item.text);
+                }
+                if (previous.data !== item.text) {
+                    previous.data = item.text;
+                }
+                return previous;
+            }
+
+            if (item.kind === 'slot') {
+                return previous ?? document.createElement('slot');
+            }
+
+            const element = previous instanceof HTMLElement && previous.localName === item.node.element
+                ? previous
+                : document.createElement(item.node.element!);
+            this.patchPart(element, item.node, previousStates);
+            return element;
+        }
+
+        /**
+         * Patches the attributes, form properties, handlers and children of a part
+         */
+        private patchPart(
+            element: HTMLElement,
+            node: AnatomyNode,
+            previousStates: Map<HTMLElement, PartState>
+        ): void {
+            const partState: PartState = previousStates.get(element) ?? {
+                attributes: new Set(),
+                handlers: {},
+                listeners: new Map(),
+                children: new Map(),
+            };
+            this.partStates.set(element, partState);
+            if (!this.parts.has(node.part)) {
+                this.parts.set(node.part, element);
+            }
+
+            const isFormControl = FORM_CONTROLS.includes(element.localName);
+            const attributeProps = { ...node.props };
+            if (isFormControl) {
+                FORM_PROPERTIES.forEach(name => delete attributeProps[name]);
+            }
+
+            const attributes = toAttributes(attributeProps);
+            const partName = node.props['data-part'] ?? toKebabCase(node.part);
+            attributes.set('part', partName);
+            attributes.set('data-part', partName);
+            partState.attributes = patchAttributes(element, attributes, partState.attributes);
+
+            if (isFormControl) {
+                FORM_PROPERTIES.forEach(name => {
+                    const value = node.props[name];
+                    if (value !== undefined && (element as any)[name] !== value) {
+                        (element as any)[name] = value;
+                    }
+                });
+            }
+
+            // Listeners call the handlers of the latest render
+            partState.handlers = node.handlers;
+            Object.keys(node.handlers).forEach(handlerName => {
+                const eventName = getEventName(handlerName, element);
+                if (!partState.listeners.has(eventName)) {
+                    const listener = (event: Event) => partState.handlers[handlerName]?.(event);
+                    element.addEventListener(eventName, listener);
+                    partState.listeners.set(eventName, listener);
+                }
+            });
+
+            partState.children = this.renderItems(element, getContentItems(node), partState.children, previousStates);
+        }
+
+        private reflectState(state: Record<string, any>): void {
+            if (!state) {
+                return;
+            }
+
+            this.reflecting = true;
+            try {
+                reflectedFields.forEach(({ key, type }, attribute) => {
+                    const value = state[key];
+                    if (value === undefined || value === null) {
+                        this.removeAttribute(attribute);
+                    } else if (type === 'boolean') {
+                        this.toggleAttribute(attribute, Boolean(value));
+                    } else if (this.getAttribute(attribute) !== String(value)) {
+                        this.setAttribute(attribute, String(value));
+                    }
+                });
+            } finally {
+                this.reflecting = false;
+            }
+        }
+    }
+
+    // Property reflection: element.disabled = true updates component state
+    reflectedFields.forEach(({ key }) => {
+        Object.defineProperty(StellarIXCustomElement.prototype, key, {
+            configurable: true,
+            enumerable: true,
+            get(this: StellarIXCustomElement): unknown {
+                return (this.core.state.getState() as Record<string, unknown>)[key];
+            },
+            set(this: StellarIXCustomElement, value: unknown) {
+                this.core.state.setState(prev => ({ ...prev, [key]: value }));
+            },
+        });
+    });
+
+    return StellarIXCustomElement as unknown as StellarIXElementConstructor<TState>;
+}
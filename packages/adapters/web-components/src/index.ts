@@ -0,0 +1,10 @@
+/**
+ * StellarIX UI Web Components Adapter
+ * Adapts framework-agnostic components to native Custom Elements
+ */
+
+export * from './adapter';
+export * from './types';
+
+// Version
+export const VERSION = '0.0.1';
@@ -0,0 +1,96 @@
+/**
+ * Web Components Adapter Types
+ * Type definitions for the Custom Elements adapter
+ */
+
+import type { ComponentCore } from '@stellarix-ui/core';
+
+/**
+ * Creates the component core of a single custom element instance
+ */
+export type ComponentCoreFactory<TState = any> = () => ComponentCore<TState, any>;
+
+/**
+ * Web Components adapter configuration
+ */
+export interface WebComponentsAdapterConfig {
+    /**
+     * Prefix used for generated tag names (`sx` -> `<sx-button>`)
+     * @default 'sx'
+     */
+    prefix?: string;
+
+    /**
+     * Prefix used for the CustomEvents mirroring the component events map
+     * (`sx-` -> `sx-change`, `sx-option-select`)
+     * @default 'sx-'
+     */
+    eventPrefix?: string;
+
+    /**
+     * Shadow root mode
+     * @default 'open'
+     */
+    shadowMode?: ShadowRootMode;
+}
+
+/**
+ * Options for registering a component as a custom element
+ */
+export interface DefineCustomElementOptions extends WebComponentsAdapterConfig {
+    /**
+     * Explicit tag name, overrides the one derived from `metadata.name`
+     */
+    tagName?: string;
+
+    /**
+     * Custom element registry to define the element in
+     * @default window.customElements
+     */
+    registry?: CustomElementRegistry;
+}
+
+/**
+ * Instance API of a StellarIX custom element
+ */
+export interface StellarIXElement<TState = any> extends HTMLElement {
+    /**
+     * The component core this element renders.
+     * Elements registered with a core factory own their core and
+     * destroy it when they are disconnected.
+     */
+    readonly core: ComponentCore<TState, any>;
+
+    /**
+     * Current component state snapshot
+     */
+    readonly state: TState;
+
+    /**
+     * Returns the first shadow DOM element rendered for a part id
+     * of the component anatomy
+     */
+    getPart(partId: string): HTMLElement | null;
+
+    /**
+     * Dispatches a logic event, same as `core.logic.handleEvent`
+     */
+    dispatch(event: string, payload?: any): void;
+}
+
+/**
+ * Constructor of a StellarIX custom element
+ */
+export interface StellarIXElementConstructor<TState = any> extends CustomElementConstructor {
+    new (): StellarIXElement<TState>;
+
+    /**
+     * Tag name derived from the component metadata
+     */
+    readonly tagName: string;
+
+    /**
+     * Host attributes that are reflected to component state
+     */
+    readonly observedAttributes: string[];
+}
@@ -0,0 +1,365 @@
+/**
+ * Tests for Web Components adapter
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createButtonWithImplementation } from '@stellarix-ui/button';
+import { createSelect } from '@stellarix-ui/select';
+import { createAccordionWithImplementation } from '@stellarix-ui/accordion';
+import { createToggleWithImplementation } from '@stellarix-ui/toggle';
+import { createTable } from '@stellarix-ui/table';
+import {
+    webComponentsAdapter,
+    createWebComponentsAdapter,
+    connectToWebComponents,
+    getTagName,
+    toKebabCase,
+} from '../src/adapter';
+import type { StellarIXElement } from '../src/types';
+
+let tagCounter = 0;
+const uniqueTag = (base: string) => `${base}-${++tagCounter}`;
+
+const mount = <T extends HTMLElement>(tagName: string): T => {
+    const element = document.createElement(tagName) as T;
+    document.body.appendChild(element);
+    return element;
+};
+
+describe('Web Components Adapter', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('should have correct name and version', () => {
+        expect(webComponentsAdapter.name).toBe('web-components');
+        expect(webComponentsAdapter.version).toBe('1.0.0');
+    });
+
+    describe('tag names', () => {
+        it('derives sx-* tag names from metadata', () => {
+            const core = createButtonWithImplementation();
+            expect(getTagName(core)).toBe('sx-button');
+            expect(getTagName(core, 'acme')).toBe('acme-button');
+        });
+
+        it('converts names to kebab-case', () => {
+            expect(toKebabCase('NavigationMenu')).toBe('navigation-menu');
+            expect(toKebabCase('optionSelect')).toBe('option-select');
+        });
+    });
+
+    describe('createComponent', () => {
+        it('returns an unregistered custom element constructor', () => {
+            const core = createButtonWithImplementation();
+            const ButtonElement = webComponentsAdapter.createComponent(core);
+
+            expect(typeof ButtonElement).toBe('function');
+            expect(ButtonElement.prototype).toBeInstanceOf(HTMLElement);
+            expect(customElements.get('sx-button')).toBeUndefined();
+        });
+
+        it('works through core.connect', () => {
+            const core = createButtonWithImplementation();
+            const ButtonElement = core.connect(webComponentsAdapter);
+            expect(typeof ButtonElement).toBe('function');
+        });
+
+        it('observes attributes for primitive state fields', () => {
+            const core = createButtonWithImplementation();
+            const ButtonElement = webComponentsAdapter.createComponent(core) as any;
+
+            expect(ButtonElement.observedAttributes).toEqual(
+                expect.arrayContaining(['disabled', 'loading', 'variant', 'size'])
+            );
+        });
+    });
+
+    describe('connectToWebComponents', () => {
+        it('registers the element once', () => {
+            const core = createButtonWithImplementation();
+            const tagName = uniqueTag('sx-button');
+
+            const First = connectToWebComponents(core, { tagName });
+            const Second = connectToWebComponents(core, { tagName });
+
+            expect(customElements.get(tagName)).toBe(First);
+            expect(Second).toBe(First);
+        });
+
+        it('uses the configured prefix', () => {
+            const core = createSelect();
+            const Element = connectToWebComponents(core, { prefix: uniqueTag('acme') });
+            expect(Element.tagName).toMatch(/^acme-\d+-select$/);
+        });
+
+        it('derives the tag name from a core factory', () => {
+            const Element = connectToWebComponents(() => createSelect(), { prefix: uniqueTag('acme') });
+            expect(Element.tagName).toMatch(/^acme-\d+-select$/);
+            expect(customElements.get(Element.tagName)).toBe(Element);
+        });
+
+        it('gives each element its own core from a factory', () => {
+            const tagName = uniqueTag('sx-select');
+            connectToWebComponents(() => createSelect({ options: [{ value: 'a', label: 'A' }] }), { tagName });
+
+            const first = mount<StellarIXElement>(tagName);
+            const second = mount<StellarIXElement>(tagName);
+            const listener = vi.fn();
+            second.addEventListener('sx-option-select', listener);
+
+            expect(first.core).not.toBe(second.core);
+
+            first.dispatch('optionSelect', { option: { value: 'a', label: 'A' } });
+
+            expect(first.state.value).toBe('a');
+            expect(second.state.value).toBeNull();
+            expect(first.getPart('value')?.textContent).toBe('A');
+            expect(second.getPart('value')?.textContent).toBe('Select an option');
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('destroys the core of an element when it is disconnected', () => {
+            const tagName = uniqueTag('sx-button');
+            connectToWebComponents(() => createButtonWithImplementation(), { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const core = element.core;
+            const destroy = vi.spyOn(core, 'destroy');
+
+            element.remove();
+            expect(destroy).toHaveBeenCalledTimes(1);
+
+            document.body.appendChild(element);
+            expect(element.core).not.toBe(core);
+            expect(element.getPart('root')?.getAttribute('role')).toBe('button');
+        });
+    });
+
+    describe('rendering', () => {
+        it('renders shadow DOM parts from the component anatomy', () => {
+            const core = createButtonWithImplementation();
+            const tagName = uniqueTag('sx-button');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const root = element.shadowRoot!.querySelector('[data-part="root"]')!;
+
+            expect(root.localName).toBe('button');
+            expect(root.getAttribute('part')).toBe('root');
+            expect(root.getAttribute('role')).toBe('button');
+            expect(root.getAttribute('aria-disabled')).toBe('false');
+            expect(root.querySelector('slot')).not.toBeNull();
+            expect(element.getPart('root')).toBe(root);
+        });
+
+        it('renders nested parts and collection items from the anatomy', () => {
+            const core = createSelect({ options: [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }] });
+            const tagName = uniqueTag('sx-select');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const shadow = element.shadowRoot!;
+
+            expect(shadow.querySelector('[part="trigger"]')?.getAttribute('role')).toBe('combobox');
+            expect(shadow.querySelector('[part="trigger"] [part="value"]')?.textContent).toBe('Select an option');
+
+            core.state.setState(prev => ({ ...prev, open: true }));
+
+            expect(shadow.querySelector('[part="listbox"]')?.getAttribute('role')).toBe('listbox');
+            const options = shadow.querySelectorAll('[part="listbox"] [part="option"]');
+            expect(Array.from(options, option => option.textContent)).toEqual(['A', 'B']);
+            expect(options[0]!.getAttribute('role')).toBe('option');
+        });
+
+        it('keeps part elements across updates', () => {
+            const core = createSelect({ options: [{ value: 'a', label: 'A' }] });
+            const tagName = uniqueTag('sx-select');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const trigger = element.getPart('trigger');
+
+            core.state.setState(prev => ({ ...prev, open: true }));
+            core.selectOption('a');
+
+            expect(element.getPart('trigger')).toBe(trigger);
+            expect(element.getPart('value')?.textContent).toBe('A');
+        });
+
+        it('patches attributes when state changes', () => {
+            const core = createSelect({ options: [{ value: 'a', label: 'A' }] });
+            const tagName = uniqueTag('sx-select');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const trigger = element.getPart('trigger')!;
+            expect(trigger.getAttribute('aria-expanded')).toBe('false');
+            expect(element.getPart('listbox')).toBeNull();
+
+            core.state.setState(prev => ({ ...prev, open: true }));
+
+            expect(trigger.getAttribute('aria-expanded')).toBe('true');
+            expect(element.getPart('listbox')?.id).toBe(trigger.getAttribute('aria-controls'));
+
+            core.state.setState(prev => ({ ...prev, open: false }));
+
+            expect(trigger.getAttribute('aria-expanded')).toBe('false');
+            expect(element.shadowRoot!.querySelector('[part="listbox"]')).toBeNull();
+        });
+
+        it('renders the accordion triggers and panels of each item', () => {
+            const core = createAccordionWithImplementation({
+                items: [{ id: 'one', title: 'One', content: 'First' }, { id: 'two', title: 'Two', content: 'Second' }],
+            });
+            const tagName = uniqueTag('sx-accordion');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const shadow = element.shadowRoot!;
+            const triggers = shadow.querySelectorAll('[part="trigger"]');
+
+            expect(Array.from(triggers, trigger => trigger.textContent)).toEqual(['One', 'Two']);
+            expect(triggers[0]!.getAttribute('aria-expanded')).toBe('false');
+
+            triggers[0]!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+            expect(core.state.getState().expandedItems).toEqual(['one']);
+            expect(triggers[0]!.getAttribute('aria-expanded')).toBe('true');
+            expect(shadow.querySelectorAll('[part="panel"]')[0]!.hasAttribute('hidden')).toBe(false);
+        });
+
+        it('renders the toggle thumb in the switch', () => {
+            const core = createToggleWithImplementation();
+            const tagName = uniqueTag('sx-toggle');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const root = element.getPart('root')!;
+
+            expect(root.localName).toBe('button');
+            expect(root.getAttribute('role')).toBe('switch');
+            expect(root.querySelector('[part="thumb"]')).not.toBeNull();
+        });
+
+        it('renders the table header and data cells', () => {
+            const core = createTable({
+                columns: [{ id: 'name', header: 'Name', accessorKey: 'name' }],
+                data: [{ name: 'Ada' }, { name: 'Grace' }],
+            });
+            const tagName = uniqueTag('sx-table');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const shadow = element.shadowRoot!;
+
+            expect(shadow.querySelector('[part="th"]')?.textContent).toBe('Name');
+            expect(Array.from(shadow.querySelectorAll('[part="cell"]'), cell => cell.textContent)).toEqual(['Ada', 'Grace']);
+        });
+    });
+
+    describe('reflection', () => {
+        it('reflects host attributes into state', () => {
+            const core = createButtonWithImplementation();
+            const tagName = uniqueTag('sx-button');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            element.setAttribute('disabled', '');
+            expect(core.state.getState().disabled).toBe(true);
+
+            element.setAttribute('variant', 'primary');
+            expect(core.state.getState().variant).toBe('primary');
+
+            element.removeAttribute('disabled');
+            expect(core.state.getState().disabled).toBe(false);
+        });
+
+        it('reflects properties into state and state onto host attributes', () => {
+            const core = createButtonWithImplementation();
+            const tagName = uniqueTag('sx-button');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement & { loading: boolean; size: string }>(tagName);
+            element.loading = true;
+            expect(core.state.getState().loading).toBe(true);
+            expect(element.hasAttribute('loading')).toBe(true);
+
+            core.state.setState(prev => ({ ...prev, size: 'lg' }));
+            expect(element.size).toBe('lg');
+            expect(element.getAttribute('size')).toBe('lg');
+        });
+    });
+
+    describe('events', () => {
+        it('wires interaction handlers and mirrors logic events as CustomEvents', () => {
+            const onClick = vi.fn();
+            const core = createButtonWithImplementation({ onClick });
+            const tagName = uniqueTag('sx-button');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const listener = vi.fn();
+            element.addEventListener('sx-click', listener);
+
+            element.getPart('root')!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+            expect(onClick).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('uses kebab-case names and passes the payload as detail', () => {
+            const core = createSelect({ options: [{ value: 'a', label: 'A' }] });
+            const tagName = uniqueTag('sx-select');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const listener = vi.fn();
+            element.addEventListener('sx-option-select', listener);
+
+            const option = { value: 'a', label: 'A' };
+            element.dispatch('optionSelect', { option });
+
+            expect(core.state.getState().value).toBe('a');
+            expect(listener.mock.calls[0]![0].detail).toEqual({ option });
+        });
+
+        it('supports a custom event prefix', () => {
+            const core = createButtonWithImplementation();
+            const adapter = createWebComponentsAdapter({ eventPrefix: 'acme:' });
+            const tagName = uniqueTag('acme-button');
+            customElements.define(tagName, adapter.createComponent(core));
+
+            const element = mount<StellarIXElement>(tagName);
+            const listener = vi.fn();
+            element.addEventListener('acme:focus', listener);
+
+            element.getPart('root')!.dispatchEvent(new FocusEvent('focus'));
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(core.state.getState().focused).toBe(true);
+        });
+
+        it('removes listeners and subscriptions when disconnected', () => {
+            const onClick = vi.fn();
+            const core = createButtonWithImplementation({ onClick });
+            const tagName = uniqueTag('sx-button');
+            connectToWebComponents(core, { tagName });
+
+            const element = mount<StellarIXElement>(tagName);
+            const root = element.getPart('root')!;
+            const listener = vi.fn();
+            element.addEventListener('sx-click', listener);
+
+            element.remove();
+            root.dispatchEvent(new MouseEvent('click'));
+            core.logic.handleEvent('click', {});
+            core.state.setState(prev => ({ ...prev, variant: 'ghost' }));
+
+            expect(onClick).toHaveBeenCalledTimes(1);
+            expect(listener).not.toHaveBeenCalled();
+            expect(element.hasAttribute('variant')).toBe(true);
+            expect(element.getAttribute('variant')).toBe('default');
+        });
+    });
+});
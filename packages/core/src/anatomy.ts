@@ -0,0 +1,379 @@
+/**
+ * Component Anatomy
+ * Declarative render contract: the parts a component is made of, the native
+ * element props each part derives from state, and how DOM events reach the
+ * logic layer. Adapters render every component from this description.
+ */
+
+import type { ComponentCore } from './component.js';
+
+/**
+ * Elements that cannot have children
+ */
+const VOID_ELEMENTS = ['input', 'br', 'hr', 'img', 'area', 'base', 'col', 'embed', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+/**
+ * Values available to the part callbacks
+ */
+export interface AnatomyContext<TState = any> {
+    /**
+     * Current component state
+     */
+    state: TState;
+
+    /**
+     * Props the framework component was rendered with
+     */
+    props: Record<string, any>;
+
+    /**
+     * Item of the enclosing collection part
+     */
+    item?: any;
+
+    /**
+     * Position of that item in its collection
+     */
+    index?: number;
+
+    /**
+     * Context of the collection item one level up, for nested collections
+     */
+    parent?: AnatomyContext<TState>;
+
+    /**
+     * Dispatches an event through the logic layer
+     */
+    dispatch: (eventType: string, payload?: any) => void;
+
+    /**
+     * A11y props the logic layer declares for a part,
+     * e.g. to reference the id of another part
+     */
+    a11y: (partId: string) => Record<string, any>;
+}
+
+/**
+ * A part of the component: one element, or one element per item
+ */
+export interface AnatomyPart<TState = any> {
+    /**
+     * Element tag. `null` renders the children of the part without a wrapper.
+     */
+    element: string | null;
+
+    /**
+     * Part this part is rendered in. Parts without a parent are rendered in `root`.
+     */
+    parent?: string;
+
+    /**
+     * Renders the part only when this returns true
+     */
+    when?: (context: AnatomyContext<TState>) => boolean;
+
+    /**
+     * Renders the part once per item.
+     * The part and its children see the item through `context.item` and `context.index`.
+     */
+    items?: (context: AnatomyContext<TState>) => readonly any[];
+
+    /**
+     * Stable key of an item, defaults to `item.id`, `item.value` or the index
+     */
+    key?: (context: AnatomyContext<TState>) => string | number;
+
+    /**
+     * Argument passed to per-item a11y getters of the logic layer, defaults to `context.index`
+     */
+    a11yArgument?: (context: AnatomyContext<TState>) => any;
+
+    /**
+     * Native element props derived from state (`type`, `disabled`, `style`, `data-*`, ...).
+     * They are applied over the a11y props of the logic element with the same id.
+     * Functions named `on*` are added to the event handlers of the part.
+     */
+    props?: (context: AnatomyContext<TState>) => Record<string, any>;
+
+    /**
+     * Text content. Takes precedence over child parts and the slot.
+     */
+    text?: (context: AnatomyContext<TState>) => string | number | null | undefined;
+
+    /**
+     * Renders the children passed to the component in this part
+     */
+    slot?: boolean;
+
+    /**
+     * Fields assigned to the DOM event before the logic handlers of the part run,
+     * e.g. `{ optionIndex: context.index }` for collection handlers
+     */
+    event?: (context: AnatomyContext<TState>) => Record<string, any>;
+}
+
+/**
+ * Render contract of a component
+ */
+export interface ComponentAnatomy<TState = any> {
+    /**
+     * Parts keyed by id. Part ids double as logic element ids: each part gets the
+     * a11y props and interaction handlers the logic layer declares for its id.
+     * Parts render in declaration order; `root` is the outermost part.
+     */
+    parts: Record<string, AnatomyPart<TState>>;
+
+    /**
+     * Part that receives the props of the framework component
+     * (class, style, ref, attributes)
+     * @default 'root'
+     */
+    host?: string;
+
+    /**
+     * Component props that mirror a state field, keyed by prop name.
+     * Adapters push these props into state and report changes back
+     * through the framework's two-way binding (v-model, bind:, ...).
+     */
+    bindings?: Record<string, keyof TState & string>;
+}
+
+/**
+ * Framework-neutral element produced from an anatomy
+ */
+export interface AnatomyNode {
+    /**
+     * Id of the part the node was rendered from
+     */
+    part: string;
+
+    /**
+     * Element tag, `null` for a wrapper-less group of children
+     */
+    element: string | null;
+
+    /**
+     * Key, unique among siblings
+     */
+    key: string;
+
+    /**
+     * Whether the node receives the props of the framework component
+     */
+    host: boolean;
+
+    /**
+     * Attributes and DOM props: `data-part`, a11y props and native props
+     */
+    props: Record<string, any>;
+
+    /**
+     * Event handlers keyed by React-style prop name (`onClick`, `onKeyDown`)
+     */
+    handlers: Record<string, (event: any) => void>;
+
+    /**
+     * Text content
+     */
+    text?: string | number;
+
+    /**
+     * Whether the children passed to the component go here
+     */
+    slot: boolean;
+
+    /**
+     * Child nodes
+     */
+    children: AnatomyNode[];
+}
+
+/**
+ * Converts camelCase part ids to the kebab-case `data-part` value
+ */
+function toDataPart(partId: string): string {
+    return partId.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+/**
+ * Anatomy used for components that do not publish one:
+ * a single root element described by `metadata.structure`
+ */
+function createFallbackAnatomy(core: ComponentCore<any, any>): ComponentAnatomy {
+    const { structure, accessibility } = core.metadata;
+    const root = structure?.elements?.root;
+
+    return {
+        parts: {
+            root: {
+                element: root?.type || 'div',
+                slot: true,
+                props: () => ({ role: root?.role || accessibility?.role }),
+            },
+        },
+    };
+}
+
+/**
+ * Form controls whose `value`, `checked` and `indeterminate` are set as DOM properties
+ */
+export const FORM_CONTROLS = ['input', 'textarea', 'select'];
+
+/**
+ * Props set as DOM properties on form controls, since their attributes
+ * only hold the initial value once the user has edited the control
+ */
+export const FORM_PROPERTIES = ['value', 'checked', 'indeterminate'];
+
+/**
+ * Input types whose `onChange` fires on commit rather than on every input
+ */
+const CHECKABLE_TYPES = ['checkbox', 'radio', 'file'];
+
+/**
+ * Handler names whose DOM event is not the lowercased name
+ */
+const EVENT_ALIASES: Record<string, string> = {
+    onDoubleClick: 'dblclick',
+};
+
+/**
+ * Maps a React-style handler name to the DOM event it listens to
+ * @param handlerName Handler name, such as `onClick`
+ * @param element Element the handler is attached to
+ */
+export function getEventName(handlerName: string, element: Element): string {
+    // Like React, onChange of text controls fires on every input
+    if (
+        handlerName === 'onChange' &&
+        (element.localName === 'textarea' ||
+            (element.localName === 'input' && !CHECKABLE_TYPES.includes((element as HTMLInputElement).type)))
+    ) {
+        return 'input';
+    }
+    return EVENT_ALIASES[handlerName] ?? handlerName.replace(/^on/, '').toLowerCase();
+}
+
+/**
+ * Resolves the anatomy of a component core
+ */
+export function resolveAnatomy<TState>(core: ComponentCore<TState, any>): ComponentAnatomy<TState> {
+    return core.anatomy ?? createFallbackAnatomy(core);
+}
+
+/**
+ * Renders an anatomy into framework-neutral nodes
+ * @param core The component core
+ * @param state State to render
+ * @param props Props the framework component was rendered with
+ * @returns Root nodes; empty when the root part is hidden
+ */
+export function renderAnatomy<TState>(
+    core: ComponentCore<TState, any>,
+    state: TState,
+    props: Record<string, any> = {}
+): AnatomyNode[] {
+    const anatomy = resolveAnatomy(core);
+    const host = anatomy.host ?? 'root';
+    const { logic } = core;
+
+    const childrenOf = new Map<string, string[]>();
+    Object.entries(anatomy.parts).forEach(([partId, part]) => {
+        if (partId === 'root') {
+            return;
+        }
+        const parentId = part.parent ?? 'root';
+        childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), partId]);
+    });
+
+    const renderPart = (partId: string, context: AnatomyContext<TState>): AnatomyNode[] => {
+        const part = anatomy.parts[partId];
+        if (!part) {
+            return [];
+        }
+
+        const contexts: AnatomyContext<TState>[] = part.items
+            ? part.items(context).map((item, index) => ({
+                ...context,
+                item,
+                index,
+                ...(context.item !== undefined ? { parent: context } : {}),
+            }))
+            : [context];
+
+        return contexts
+            .filter(itemContext => !part.when || part.when(itemContext))
+            .map(itemContext => {
+                const a11y = logic.getA11yProps(partId) as unknown;
+                const a11yProps: Record<string, any> = typeof a11y === 'function'
+                    ? a11y(part.a11yArgument ? part.a11yArgument(itemContext) : itemContext.index)
+                    : a11y;
+
+                const nodeProps: Record<string, any> = partId === 'root' ? {} : { 'data-part': toDataPart(partId) };
+                const handlers: Record<string, (event: any) => void> = {};
+
+                Object.entries(a11yProps || {}).forEach(([name, value]) => {
+                    if (typeof value !== 'function' && value !== undefined) {
+                        nodeProps[name] = value;
+                    }
+                });
+
+                Object.entries(logic.getInteractionHandlers(partId)).forEach(([name, handler]) => {
+                    handlers[name] = (event: any) => {
+                        if (part.event && event && typeof event === 'object') {
+                            Object.assign(event, part.event(itemContext));
+                        }
+                        return handler(event);
+                    };
+                });
+
+                Object.entries(part.props ? part.props(itemContext) : {}).forEach(([name, value]) => {
+                    if (typeof value === 'function' && /^on[A-Z]/.test(name)) {
+                        const logicHandler = handlers[name];
+                        handlers[name] = logicHandler
+                            ? (event: any) => {
+                                value(event);
+                                logicHandler(event);
+                            }
+                            : value;
+                    } else if (value !== undefined) {
+                        nodeProps[name] = value;
+                    }
+                });
+
+                const isVoid = part.element !== null && VOID_ELEMENTS.includes(part.element);
+                const text = isVoid || !part.text ? undefined : part.text(itemContext);
+                const key = part.items
+                    ? String(part.key?.(itemContext) ?? itemContext.item?.id ?? itemContext.item?.value ?? itemContext.index)
+                    : partId;
+
+                const node: AnatomyNode = {
+                    part: partId,
+                    element: part.element,
+                    key: part.items ? `${partId}-${key}` : key,
+                    host: partId === host,
+                    props: nodeProps,
+                    handlers,
+                    slot: !isVoid && text == null && Boolean(part.slot),
+                    children: isVoid || text != null
+                        ? []
+                        : (childrenOf.get(partId) ?? []).flatMap(childId => renderPart(childId, itemContext)),
+                };
+
+                if (text != null) {
+                    node.text = text;
+                }
+                return node;
+            });
+    };
+
+    return renderPart('root', {
+        state,
+        props,
+        dispatch: (eventType, payload) => logic.handleEvent(eventType as any, payload),
+        a11y: partId => {
+            const a11y = logic.getA11yProps(partId) as unknown;
+            return typeof a11y === 'function' ? {} : (a11y as Record<string, any>) || {};
+        },
+    });
+}
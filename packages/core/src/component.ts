@@ -5,6 +5,8 @@
 
 import { createStore, type Store } from './state.js';
 import type { LogicLayer } from './logic.js';
+import type { SnapshotFormat } from './snapshot.js';
+import type { ComponentAnatomy } from './anatomy.js';
 
 /**
  * Component metadata for introspection and tooling
@@ -15,6 +17,10 @@ export interface ComponentMetadata {
   accessibility: A11yMetadata;
   events: EventMetadata;
   structure: ComponentStructure;
+  /**
+   * Snapshot format of the component state, for fields that are not JSON-safe
+   */
+  snapshot?: SnapshotFormat;
 }
 
 /**
@@ -80,6 +86,11 @@ export interface ComponentCore<TState, TLogic extends Record<string, any> = Reco
   state: Store<TState>;
   logic: LogicLayer<TState, TLogic>;
   metadata: ComponentMetadata;
+  /**
+   * Render contract shared by every adapter.
+   * Components without one render a single root element from `metadata.structure`.
+   */
+  anatomy?: ComponentAnatomy<TState>;
   connect: <TFrameworkComponent>(
     adapter: FrameworkAdapter<TFrameworkComponent>
   ) => TFrameworkComponent;
@@ -95,6 +106,7 @@ export interface ComponentFactoryConfig<TState, TLogic extends Record<string, an
   createInitialState: (options: TOptions) => TState;
   createLogic: (state: Store<TState>, options: TOptions) => LogicLayer<TState, TLogic>;
   metadata: Omit<ComponentMetadata, 'name' | 'version'>;
+  anatomy?: ComponentAnatomy<TState> | ((options: TOptions) => ComponentAnatomy<TState>);
   onDestroy?: () => void;
 }
 
@@ -127,6 +139,9 @@ export function createComponentFactory<
       ...config.metadata,
     };
 
+    // Resolve the render contract for these options
+    const anatomy = typeof config.anatomy === 'function' ? config.anatomy(options) : config.anatomy;
+
     // Track connections for cleanup
     const connections = new Set<() => void>();
 
@@ -134,6 +149,7 @@ export function createComponentFactory<
       state,
       logic,
       metadata,
+      ...(anatomy ? { anatomy } : {}),
 
       /**
        * Connect to any framework adapter
@@ -187,6 +203,45 @@ export function createComponentFactory<
 }
 
 
+/**
+ * Opt-in development check: warns once per event name when a component handles
+ * an event that is missing from `metadata.events.supported`.
+ * Does nothing in production.
+ * @param core The component core
+ * @returns Function that turns the check off
+ */
+export function warnOnUnknownEvents<TState, TLogic extends Record<string, any>>(
+  core: ComponentCore<TState, TLogic>
+): () => void {
+  if (process.env.NODE_ENV === 'production') {
+    return () => {};
+  }
+
+  const { logic, metadata } = core;
+  const handleEvent = logic.handleEvent;
+  const supported = metadata.events?.supported ?? [];
+  const warned = new Set<string>();
+
+  const checkedHandleEvent: typeof handleEvent = (event, payload) => {
+    const eventName = String(event);
+    if (!supported.includes(eventName) && !warned.has(eventName)) {
+      warned.add(eventName);
+      console.warn(
+        `[${metadata.name}] Unknown event "${eventName}". Supported events: ${supported.join(', ') || 'none'}.`
+      );
+    }
+    handleEvent(event, payload);
+  };
+
+  logic.handleEvent = checkedHandleEvent;
+
+  return () => {
+    if (logic.handleEvent === checkedHandleEvent) {
+      logic.handleEvent = handleEvent;
+    }
+  };
+}
+
 /**
  * Component builder for complex component construction
  */
@@ -226,6 +281,14 @@ export class ComponentBuilder<TState = any, TLogic extends Record<string, any> =
     return this;
   }
 
+  /**
+   * Set the render contract, optionally derived from the component options
+   */
+  withAnatomy(anatomy: ComponentAnatomy<TState> | ((options: TOptions) => ComponentAnatomy<TState>)): this {
+    this.config.anatomy = anatomy;
+    return this;
+  }
+
   /**
    * Set cleanup handler
    */
@@ -309,6 +372,7 @@ export function createPrimitive<TState, TLogic extends Record<string, any>, TOpt
     initialState: TOptions;
     logicConfig: TOptions;
     metadata: Omit<ComponentMetadata, 'name' | 'version'>;
+    anatomy?: ComponentAnatomy<TState>;
   }
 ): ComponentCore<TState, TLogic> {
   // Create a basic component core that will be enhanced later
@@ -320,6 +384,7 @@ export function createPrimitive<TState, TLogic extends Record<string, any>, TOpt
       version: '0.0.1',
       ...config.metadata
     },
+    ...(config.anatomy ? { anatomy: config.anatomy } : {}),
     connect: function<TFrameworkComponent>(
       adapter: FrameworkAdapter<TFrameworkComponent>
     ): TFrameworkComponent {
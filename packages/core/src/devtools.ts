@@ -0,0 +1,380 @@
+/**
+ * Devtools
+ * Records the events a component handles and the state they produce, with
+ * undo/redo/jump-to-state, and bridges the history to the Redux DevTools
+ * browser extension. Does nothing when `NODE_ENV` is `production`.
+ */
+
+import type { ComponentCore } from './component.js';
+import { createSnapshot, restoreSnapshot, SNAPSHOT_VERSION, type StateSnapshot } from './snapshot.js';
+
+/**
+ * Action type of the initial entry
+ */
+const INIT_ACTION = '@@INIT';
+
+/**
+ * Action type of state updates made outside `handleEvent`
+ */
+const SET_STATE_ACTION = '@@stellarix/setState';
+
+/**
+ * Changed state fields, keyed by field name
+ */
+export type StateDiff = Record<string, { prev: unknown; next: unknown }>;
+
+/**
+ * Recorded action, in the Redux action format
+ */
+export interface DevtoolsAction {
+    type: string;
+    payload?: unknown;
+}
+
+/**
+ * One step of a component's history
+ */
+export interface DevtoolsEntry<TState> {
+    /**
+     * Id the extension reports for the action in jump messages. Ids only
+     * grow, so they stay valid when older entries are trimmed.
+     */
+    id: number;
+
+    action: DevtoolsAction;
+
+    /**
+     * State after the action
+     */
+    state: TState;
+
+    /**
+     * Fields the action changed
+     */
+    diff: StateDiff;
+
+    timestamp: number;
+}
+
+/**
+ * Message the extension sends to a connection
+ */
+export interface DevtoolsMessage {
+    type: string;
+    payload?: any;
+    state?: string;
+}
+
+/**
+ * Connection to the Redux DevTools extension
+ * (`window.__REDUX_DEVTOOLS_EXTENSION__.connect()`)
+ */
+export interface DevtoolsConnection {
+    init: (state: unknown) => void;
+    send: (action: DevtoolsAction, state: unknown) => void;
+    subscribe: (listener: (message: DevtoolsMessage) => void) => (() => void) | void;
+    unsubscribe?: () => void;
+}
+
+/**
+ * Devtools options
+ */
+export interface DevtoolsOptions {
+    /**
+     * Instance id, together with `metadata.name` it keys the component
+     * @default A counter per component name
+     */
+    id?: string;
+
+    /**
+     * Number of entries kept in the history, the initial entry included
+     * @default 50
+     */
+    maxAge?: number;
+
+    /**
+     * Connection to report to. Defaults to the Redux DevTools extension when
+     * it is installed; pass `false` to only record in memory.
+     */
+    connection?: DevtoolsConnection | false;
+}
+
+/**
+ * Devtools of one component instance
+ */
+export interface ComponentDevtools<TState> {
+    /**
+     * `<metadata.name>:<id>`
+     */
+    key: string;
+
+    /**
+     * Recorded entries, oldest first; the first one holds the initial state
+     */
+    history: () => readonly DevtoolsEntry<TState>[];
+
+    /**
+     * Index of the entry the component currently shows
+     */
+    currentIndex: () => number;
+
+    canUndo: () => boolean;
+    canRedo: () => boolean;
+    undo: () => void;
+    redo: () => void;
+
+    /**
+     * Restores the state of an entry. Recording a new action drops the entries after it.
+     */
+    jumpTo: (index: number) => void;
+
+    /**
+     * Stops recording and restores the component's event handling
+     */
+    disconnect: () => void;
+}
+
+interface DevtoolsExtension {
+    connect: (options: { name: string; maxAge: number }) => DevtoolsConnection;
+}
+
+let registry: Map<string, ComponentDevtools<any>> | undefined;
+const instanceCounts: Record<string, number> = {};
+
+/**
+ * Fields whose value changed between two states
+ */
+function diffState<TState>(prevState: TState, nextState: TState): StateDiff {
+    const diff: StateDiff = {};
+    if (!prevState || !nextState || typeof prevState !== 'object' || typeof nextState !== 'object') {
+        if (!Object.is(prevState, nextState)) {
+            diff['*'] = { prev: prevState, next: nextState };
+        }
+        return diff;
+    }
+
+    new Set([...Object.keys(prevState), ...Object.keys(nextState)]).forEach(key => {
+        const prev = (prevState as Record<string, unknown>)[key];
+        const next = (nextState as Record<string, unknown>)[key];
+        if (!Object.is(prev, next)) {
+            diff[key] = { prev, next };
+        }
+    });
+    return diff;
+}
+
+/**
+ * Keeps DOM events out of the recorded payload; the extension only needs their type
+ */
+function toActionPayload(payload: unknown): unknown {
+    if (typeof Event !== 'undefined' && payload instanceof Event) {
+        return { event: payload.type };
+    }
+    return payload;
+}
+
+function findExtension(): DevtoolsExtension | undefined {
+    return typeof window !== 'undefined'
+        ? (window as unknown as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension }).__REDUX_DEVTOOLS_EXTENSION__
+        : undefined;
+}
+
+function createNoopDevtools<TState>(key: string): ComponentDevtools<TState> {
+    return {
+        key,
+        history: () => [],
+        currentIndex: () => -1,
+        canUndo: () => false,
+        canRedo: () => false,
+        undo: () => {},
+        redo: () => {},
+        jumpTo: () => {},
+        disconnect: () => {},
+    };
+}
+
+/**
+ * Records the events a component handles and the state changes they cause
+ * @param core The component core
+ * @param options Devtools options
+ * @returns Devtools of the component, also listed by getConnectedDevtools
+ */
+export function connectDevtools<TState>(
+    core: ComponentCore<TState, any>,
+    options: DevtoolsOptions = {}
+): ComponentDevtools<TState> {
+    const { name } = core.metadata;
+    const id = options.id ?? String((instanceCounts[name] = (instanceCounts[name] ?? 0) + 1));
+    const key = `${name}:${id}`;
+
+    if (process.env.NODE_ENV === 'production') {
+        return createNoopDevtools(key);
+    }
+
+    const { maxAge = 50 } = options;
+    const { state: store, logic } = core;
+    const originalHandleEvent = logic.handleEvent;
+    const originalDestroy = core.destroy;
+
+    let entries: DevtoolsEntry<TState>[] = [];
+    let index = 0;
+    let nextId = 0;
+    let depth = 0;
+    let traveling = false;
+    let recordedState = store.getState();
+
+    const extension = options.connection === undefined ? findExtension() : undefined;
+    const connection = options.connection || extension?.connect({ name: key, maxAge }) || null;
+
+    const serialize = (state: TState): StateSnapshot['state'] =>
+        createSnapshot(name, state, core.metadata.snapshot).state;
+
+    const reset = (state: TState) => {
+        // The extension numbers the actions it receives after init from 1
+        entries = [{ id: 0, action: { type: INIT_ACTION }, state, diff: {}, timestamp: Date.now() }];
+        index = 0;
+        nextId = 1;
+        recordedState = state;
+        connection?.init(serialize(state));
+    };
+
+    const record = (action: DevtoolsAction) => {
+        const state = store.getState();
+
+        // A new action after a jump starts a new branch. The extension keeps
+        // listing the dropped actions, so their ids are not reused.
+        if (index < entries.length - 1) {
+            entries = entries.slice(0, index + 1);
+        }
+
+        entries.push({ id: nextId++, action, state, diff: diffState(recordedState, state), timestamp: Date.now() });
+        // The oldest entry kept becomes the initial one
+        if (entries.length > maxAge) {
+            entries.splice(0, entries.length - maxAge);
+            entries[0] = { ...entries[0]!, action: { type: INIT_ACTION }, diff: {} };
+        }
+        index = entries.length - 1;
+        recordedState = state;
+
+        connection?.send(action, serialize(state));
+    };
+
+    const jumpTo = (target: number) => {
+        const entry = entries[target];
+        if (!entry) {
+            return;
+        }
+
+        traveling = true;
+        try {
+            store.setState(() => entry.state);
+        } finally {
+            traveling = false;
+        }
+        index = target;
+        recordedState = store.getState();
+    };
+
+    logic.handleEvent = (event, payload) => {
+        depth++;
+        try {
+            originalHandleEvent(event, payload);
+        } finally {
+            depth--;
+        }
+        if (depth === 0 && !traveling) {
+            record({ type: String(event), payload: toActionPayload(payload) });
+        }
+    };
+
+    // Every handled event is recorded, with an empty diff when it changed nothing;
+    // updates outside handleEvent are recorded only when they change the state
+    const unsubscribeStore = store.subscribe(() => {
+        if (depth === 0 && !traveling && !Object.is(store.getState(), recordedState)) {
+            record({ type: SET_STATE_ACTION });
+        }
+    });
+
+    const handleMessage = (message: DevtoolsMessage) => {
+        if (message.type === 'ACTION' && typeof message.payload === 'string') {
+            // Actions typed in the extension, e.g. {"type":"open"}
+            try {
+                const action = JSON.parse(message.payload) as DevtoolsAction;
+                logic.handleEvent(action.type, action.payload);
+            } catch {
+                console.warn(`[${key}] Devtools action is not valid JSON: ${message.payload}`);
+            }
+            return;
+        }
+
+        if (message.type !== 'DISPATCH' || !message.payload) {
+            return;
+        }
+
+        switch (message.payload.type) {
+            case 'JUMP_TO_STATE':
+            case 'JUMP_TO_ACTION': {
+                const target = entries.findIndex(entry => entry.id === message.payload.actionId);
+                if (target !== -1) {
+                    jumpTo(target);
+                } else if (message.state) {
+                    const snapshot: StateSnapshot = { v: SNAPSHOT_VERSION, component: name, state: JSON.parse(message.state) };
+                    traveling = true;
+                    try {
+                        store.setState(prev => ({ ...prev, ...restoreSnapshot(snapshot, core.metadata.snapshot) }));
+                    } finally {
+                        traveling = false;
+                    }
+                    recordedState = store.getState();
+                }
+                break;
+            }
+            case 'RESET':
+            case 'ROLLBACK':
+                jumpTo(0);
+                reset(store.getState());
+                break;
+            case 'COMMIT':
+                reset(store.getState());
+                break;
+        }
+    };
+
+    const unsubscribeConnection = connection?.subscribe(handleMessage);
+
+    const devtools: ComponentDevtools<TState> = {
+        key,
+        history: () => entries,
+        currentIndex: () => index,
+        canUndo: () => index > 0,
+        canRedo: () => index < entries.length - 1,
+        undo: () => jumpTo(index - 1),
+        redo: () => jumpTo(index + 1),
+        jumpTo,
+        disconnect: () => {
+            logic.handleEvent = originalHandleEvent;
+            core.destroy = originalDestroy;
+            unsubscribeStore();
+            unsubscribeConnection?.();
+            connection?.unsubscribe?.();
+            registry?.delete(key);
+        },
+    };
+
+    core.destroy = () => {
+        devtools.disconnect();
+        originalDestroy();
+    };
+
+    reset(recordedState);
+    (registry ??= new Map()).set(key, devtools);
+
+    return devtools;
+}
+
+/**
+ * Devtools of every connected component, keyed by `<metadata.name>:<id>`
+ */
+export function getConnectedDevtools(): ReadonlyMap<string, ComponentDevtools<any>> {
+    return registry ?? new Map();
+}
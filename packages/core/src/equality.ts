@@ -0,0 +1,78 @@
+/**
+ * Equality Helpers
+ * Comparators for store updates and selections
+ */
+
+/**
+ * Whether a value is an object whose own keys describe it completely
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Compares two values one level deep: arrays item by item, plain objects
+ * key by key, everything else with `Object.is`
+ * @param a First value
+ * @param b Second value
+ * @returns Whether the values are shallowly equal
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+    }
+
+    return false;
+}
+
+/**
+ * Compares two values structurally: arrays, plain objects, dates, maps
+ * and sets are compared by content, everything else with `Object.is`
+ * @param a First value
+ * @param b Second value
+ * @returns Whether the values are deeply equal
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+    }
+
+    if (a instanceof Map && b instanceof Map) {
+        return a.size === b.size
+            && Array.from(a).every(([key, value]) => b.has(key) && deepEqual(value, b.get(key)));
+    }
+
+    if (a instanceof Set && b instanceof Set) {
+        return a.size === b.size && Array.from(a).every(value => b.has(value));
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+    }
+
+    return false;
+}
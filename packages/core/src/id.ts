@@ -0,0 +1,92 @@
+/**
+ * ID Provider
+ * Deterministic IDs for ARIA relationships (`aria-controls`, `aria-labelledby`).
+ * Server and client create components in the same order, so counting per
+ * provider produces the same IDs on both sides and hydration matches.
+ */
+
+/**
+ * Source of component IDs
+ */
+export interface IdProvider {
+    /**
+     * Next ID for a prefix, e.g. `select-1`, or `r0-select-1` with a seed
+     */
+    createId: (prefix: string) => string;
+
+    /**
+     * Restarts the counter
+     */
+    reset: () => void;
+}
+
+/**
+ * ID provider options
+ */
+export interface IdProviderOptions {
+    /**
+     * Prepended to every ID, keeping the IDs of separate providers apart.
+     * Usually a framework ID (React `useId`, Vue `useId`, Solid `createUniqueId`)
+     * or an app name when several apps share a page.
+     * Characters that are not valid in a CSS identifier are dropped.
+     */
+    seed?: string;
+}
+
+/**
+ * Creates a provider with its own counter
+ * @param options Provider options
+ */
+export function createIdProvider(options: IdProviderOptions = {}): IdProvider {
+    const seed = (options.seed ?? '').replace(/[^\w-]/g, '');
+    let counter = 0;
+
+    return {
+        createId: prefix => `${seed ? `${seed}-` : ''}${prefix}-${++counter}`,
+        reset: () => {
+            counter = 0;
+        },
+    };
+}
+
+const defaultProvider = createIdProvider();
+let currentProvider = defaultProvider;
+
+/**
+ * Provider the IDs of components created now come from
+ */
+export function getIdProvider(): IdProvider {
+    return currentProvider;
+}
+
+/**
+ * Creates components with IDs from a scoped provider
+ * @param provider The provider to use while `fn` runs
+ * @param fn Creates the components
+ * @returns What `fn` returns
+ */
+export function withIdProvider<T>(provider: IdProvider, fn: () => T): T {
+    const previous = currentProvider;
+    currentProvider = provider;
+    try {
+        return fn();
+    } finally {
+        currentProvider = previous;
+    }
+}
+
+/**
+ * Restarts the counter of the default provider; call it before each server
+ * render that creates components outside a scoped provider
+ */
+export function resetIdCounter(): void {
+    defaultProvider.reset();
+}
+
+/**
+ * ID of a component instance, from the current provider
+ * @param componentName Component name, e.g. `file-upload`
+ */
+export function createComponentId(componentName: string): string {
+    return currentProvider.createId(componentName.toLowerCase());
+}
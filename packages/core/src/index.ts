@@ -8,6 +8,14 @@ export * from './state';
 export * from './logic';
 export * from './types';
 export * from './component';
+export * from './snapshot';
+export * from './anatomy';
+export * from './middleware';
+export * from './equality';
+export * from './devtools';
+export * from './positioning';
+export * from './virtualizer';
+export * from './id';
 
 // Version
 export const VERSION = '0.0.1'; 
\ No newline at end of file
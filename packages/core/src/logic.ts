@@ -11,6 +11,15 @@ import type { Store } from './state.js';
  */
 export interface LogicLayer<TState = any, TEvents extends Record<string, any> = Record<string, any>> {
   handleEvent(event: keyof TEvents | string, payload?: any): void;
+  /**
+   * Typed alternative to handleEvent
+   */
+  dispatch<K extends keyof TEvents>(event: K, payload: TEvents[K]): void;
+  /**
+   * Calls the listener after every handled event of that type.
+   * Events dispatched by interaction handlers carry the DOM event as payload.
+   */
+  on<K extends keyof TEvents>(event: K, listener: (payload: TEvents[K]) => void): () => void;
   getA11yProps(elementId: string): Record<string, any>;
   getInteractionHandlers(elementId: string): Record<string, Function>;
   initialize(): void;
@@ -89,6 +98,7 @@ export function createLogicLayer<
 ): LogicLayer<TState, TEvents> {
   let connectedStore: Store<TState> | null = null;
   let isInitialized = false;
+  const eventListeners = new Map<keyof TEvents | string, Set<(payload: any) => void>>();
 
   const {
     eventHandlers = {},
@@ -98,6 +108,18 @@ export function createLogicLayer<
     onCleanup,
   } = config;
 
+  /**
+   * Runs fn as one store batch, so the updates it makes notify subscribers once.
+   * Stores without `batch`, such as hand-written primitive stores, run it directly.
+   */
+  const batched = (store: Store<TState>, fn: () => void): void => {
+    if (store.batch) {
+      store.batch(fn);
+    } else {
+      fn();
+    }
+  };
+
   const handleEvent = (event: string, payload?: any): void => {
     if (!connectedStore) {
       console.warn(`Logic layer not connected. Event "${event}" ignored.`);
@@ -106,16 +128,35 @@ export function createLogicLayer<
 
     const handler = (eventHandlers as any)[event];
     if (handler) {
-      const currentState = connectedStore.getState();
-      const stateUpdate = handler(currentState, payload);
-
-      if (stateUpdate && typeof stateUpdate === 'object') {
-        connectedStore.setState(prev => ({
-          ...prev,
-          ...stateUpdate,
-        }));
-      }
+      const store = connectedStore;
+      batched(store, () => {
+        const currentState = store.getState();
+        const stateUpdate = handler(currentState, payload);
+
+        if (stateUpdate && typeof stateUpdate === 'object') {
+          store.setState(prev => ({
+            ...prev,
+            ...stateUpdate,
+          }));
+        }
+      });
     }
+
+    eventListeners.get(event)?.forEach(listener => listener(payload));
+  };
+
+  const dispatch = <K extends keyof TEvents>(event: K, payload: TEvents[K]): void => {
+    layer.handleEvent(event, payload);
+  };
+
+  const on = <K extends keyof TEvents>(event: K, listener: (payload: TEvents[K]) => void): (() => void) => {
+    const listeners = eventListeners.get(event) ?? new Set();
+    eventListeners.set(event, listeners);
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
   };
 
   const getA11yProps = (elementId: string): Record<string, any> => {
@@ -141,10 +182,16 @@ export function createLogicLayer<
     Object.entries(elementConfig).forEach(([eventName, eventHandler]) => {
       result[eventName] = (event: any) => {
         if (connectedStore) {
-          const eventType = eventHandler(connectedStore.getState(), event);
-          if (eventType) {
-            handleEvent(eventType, event);
-          }
+          const store = connectedStore;
+          // The interaction and the event it dispatches render once
+          batched(store, () => {
+            const eventType = eventHandler(store.getState(), event);
+            if (eventType) {
+              // Dispatch through the public layer so adapters that decorate
+              // handleEvent also observe interaction-triggered events
+              layer.handleEvent(eventType, event);
+            }
+          });
         }
       };
     });
@@ -185,14 +232,18 @@ export function createLogicLayer<
     connectedStore = stateStore;
   };
 
-  return {
+  const layer: LogicLayer<TState, TEvents> = {
     handleEvent,
+    dispatch,
+    on,
     getA11yProps,
     getInteractionHandlers,
     initialize,
     cleanup,
     connect,
   };
+
+  return layer;
 }
 
 /**
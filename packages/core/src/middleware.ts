@@ -0,0 +1,172 @@
+/**
+ * Store Middleware
+ * Composable hooks around store updates: intercept, veto or transform
+ * an update before it is applied, and observe the applied transition
+ */
+
+/**
+ * Middleware applied to a store created with `createStore(initial, { middleware })`.
+ * Middleware run in array order.
+ */
+export interface StoreMiddleware<T> {
+    /**
+     * Name used in warnings and logs
+     */
+    name: string;
+
+    /**
+     * Receives the initial state and returns the state the store starts with
+     */
+    onInit?: (state: T) => T;
+
+    /**
+     * Intercepts an update before it is applied.
+     * Call `next` with the state to pass on, as is or transformed;
+     * returning without calling it vetoes the update.
+     */
+    onSetState?: (nextState: T, prevState: T, next: (state: T) => void) => void;
+
+    /**
+     * Observes an applied update, before subscribers are notified
+     */
+    onStateChange?: (state: T, prevState: T) => void;
+}
+
+/**
+ * Logger middleware options
+ */
+export interface LoggerMiddlewareOptions {
+    /**
+     * Prefix of every log line, usually the component name
+     * @default 'Store'
+     */
+    label?: string;
+
+    /**
+     * Log function
+     * @default console.debug
+     */
+    log?: (...args: any[]) => void;
+}
+
+/**
+ * Logs every applied update with the keys that changed
+ */
+export function createLoggerMiddleware<T>(options: LoggerMiddlewareOptions = {}): StoreMiddleware<T> {
+    const { label = 'Store', log = (...args: any[]) => console.debug(...args) } = options;
+
+    return {
+        name: 'logger',
+        onStateChange: (state, prevState) => {
+            const changed = state && typeof state === 'object' && prevState && typeof prevState === 'object'
+                ? Object.keys(state).filter(key => !Object.is((state as any)[key], (prevState as any)[key]))
+                : [];
+
+            log(`[${label}] State updated:`, state, { prevState, changed });
+        },
+    };
+}
+
+/**
+ * Freezes a value and every object it contains
+ */
+function deepFreeze<T>(value: T): T {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+        Object.freeze(value);
+        Object.values(value).forEach(deepFreeze);
+    }
+    return value;
+}
+
+/**
+ * Deep-freezes every state in development, so code that mutates state
+ * instead of calling `setState` throws in strict mode.
+ * Does nothing when `NODE_ENV` is `production`.
+ */
+export function createFreezeMiddleware<T>(): StoreMiddleware<T> {
+    const enabled = process.env.NODE_ENV !== 'production';
+
+    return {
+        name: 'freeze',
+        onInit: state => (enabled ? deepFreeze(state) : state),
+        onSetState: (nextState, _prevState, next) => {
+            next(enabled ? deepFreeze(nextState) : nextState);
+        },
+    };
+}
+
+/**
+ * Validators keyed by state field.
+ * A validator returns `true` when the value is valid, or `false` / an error message.
+ */
+export type StateSchema<T> = {
+    [K in keyof T]?: (value: T[K], state: T) => boolean | string;
+};
+
+/**
+ * Validation middleware options
+ */
+export interface ValidationMiddlewareOptions<T> {
+    /**
+     * Prefix of warnings and errors, usually the component name
+     * @default 'Store'
+     */
+    label?: string;
+
+    /**
+     * What to do with an invalid update:
+     * - `reject`: drop it and warn
+     * - `warn`: apply it anyway and warn
+     * - `throw`: throw an error
+     * @default 'reject'
+     */
+    onInvalid?: 'reject' | 'warn' | 'throw';
+
+    /**
+     * Called with the errors of every invalid update
+     */
+    onError?: (errors: string[], nextState: T, prevState: T) => void;
+}
+
+/**
+ * Checks every update against a schema, e.g. to catch a slider value outside
+ * its bounds or a date picker range that ends before it starts
+ * @param schema Validators keyed by state field
+ * @param options Validation options
+ */
+export function createValidationMiddleware<T>(
+    schema: StateSchema<T>,
+    options: ValidationMiddlewareOptions<T> = {}
+): StoreMiddleware<T> {
+    const { label = 'Store', onInvalid = 'reject', onError } = options;
+
+    return {
+        name: 'validation',
+        onSetState: (nextState, prevState, next) => {
+            const errors = (Object.keys(schema) as Array<keyof T>).flatMap(key => {
+                const result = schema[key]!(nextState[key], nextState);
+                if (result === true) {
+                    return [];
+                }
+                return [typeof result === 'string' ? result : `Invalid value for "${String(key)}"`];
+            });
+
+            if (errors.length === 0) {
+                next(nextState);
+                return;
+            }
+
+            onError?.(errors, nextState, prevState);
+            const message = `[${label}] Invalid state update: ${errors.join('; ')}`;
+
+            if (onInvalid === 'throw') {
+                throw new Error(message);
+            }
+
+            console.warn(onInvalid === 'reject' ? `${message} (update rejected)` : message);
+            if (onInvalid === 'warn') {
+                next(nextState);
+            }
+        },
+    };
+}
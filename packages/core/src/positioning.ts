@@ -0,0 +1,706 @@
+/**
+ * Floating Positioning
+ * Places a floating element (popover, tooltip, menu, listbox) next to its
+ * reference element. The base placement is adjusted by middleware in array
+ * order: offset, flip, shift, size, arrow and hide. autoUpdate recomputes
+ * the position when an ancestor scrolls or an element resizes.
+ *
+ * Positions are computed from getBoundingClientRect, so they can be tested
+ * in jsdom by mocking the rects of the elements.
+ */
+
+export type Side = 'top' | 'right' | 'bottom' | 'left';
+export type Alignment = 'start' | 'end';
+export type Placement = Side | `${Side}-${Alignment}`;
+
+/**
+ * `fixed` positions relative to the viewport, `absolute` relative to the
+ * offset parent of the floating element
+ */
+export type PositionStrategy = 'absolute' | 'fixed';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Overflow of a rect past each edge of the boundary; positive values overflow
+ */
+export type SideOverflow = Record<Side, number>;
+
+/**
+ * Reference that is not an element, e.g. the mouse position or a text selection
+ */
+export interface VirtualElement {
+    getBoundingClientRect: () => { left: number; top: number; width: number; height: number };
+
+    /**
+     * Element whose scroll containers clip the reference
+     */
+    contextElement?: Element;
+}
+
+export type ReferenceElement = Element | VirtualElement;
+
+export interface ElementRects {
+    reference: Rect;
+    floating: Rect;
+}
+
+/**
+ * Data the built-in middleware produce, keyed by middleware name
+ */
+export interface MiddlewareData {
+    offset?: { x: number; y: number };
+    flip?: { index: number; overflows: Array<{ placement: Placement; overflow: number }> };
+    shift?: { x: number; y: number };
+    size?: { availableWidth: number; availableHeight: number };
+
+    /**
+     * Offset of the arrow along the floating element;
+     * `centerOffset` is how far it is from pointing at the reference center
+     */
+    arrow?: { x?: number; y?: number; centerOffset: number };
+
+    /**
+     * `referenceHidden`: the reference is scrolled out of view.
+     * `escaped`: the floating element is outside its boundary.
+     */
+    hide?: { referenceHidden: boolean; escaped: boolean };
+
+    [name: string]: unknown;
+}
+
+/**
+ * What a middleware sees. Coordinates are viewport coordinates of the
+ * floating element's top-left corner.
+ */
+export interface PositionState {
+    x: number;
+    y: number;
+    placement: Placement;
+    initialPlacement: Placement;
+    strategy: PositionStrategy;
+    rects: ElementRects;
+    elements: { reference: ReferenceElement; floating: HTMLElement };
+
+    /**
+     * Area the floating element has to stay in: the viewport, clipped by the
+     * scroll containers of the floating element
+     */
+    boundary: Rect;
+
+    middlewareData: MiddlewareData;
+}
+
+export interface PositionMiddlewareResult {
+    x?: number;
+    y?: number;
+
+    /**
+     * Replaces the data of this middleware in `middlewareData`
+     */
+    data?: Record<string, unknown>;
+
+    /**
+     * Starts the middleware over, from a new placement and/or with the
+     * elements measured again
+     */
+    reset?: { placement?: Placement; rects?: boolean };
+}
+
+export interface PositionMiddleware {
+    name: string;
+    fn: (state: PositionState) => PositionMiddlewareResult | void;
+}
+
+export interface ComputePositionOptions {
+    /**
+     * @default 'bottom'
+     */
+    placement?: Placement;
+
+    /**
+     * @default 'absolute'
+     */
+    strategy?: PositionStrategy;
+
+    /**
+     * Falsy entries are skipped, so middleware can be added conditionally
+     */
+    middleware?: Array<PositionMiddleware | false | null | undefined>;
+
+    /**
+     * Area to stay in, in viewport coordinates
+     * @default The viewport, clipped by the scroll containers of the floating element
+     */
+    boundary?: Rect;
+}
+
+export interface PositionResult {
+    /**
+     * Left and top of the floating element, in the coordinates of `strategy`
+     */
+    x: number;
+    y: number;
+
+    /**
+     * Placement after flipping
+     */
+    placement: Placement;
+    strategy: PositionStrategy;
+    middlewareData: MiddlewareData;
+}
+
+/**
+ * Guards against middleware that keep resetting each other
+ */
+const MAX_RESETS = 50;
+
+const OPPOSITE_SIDE: Record<Side, Side> = {
+    top: 'bottom',
+    bottom: 'top',
+    left: 'right',
+    right: 'left',
+};
+
+export function getSide(placement: Placement): Side {
+    return placement.split('-')[0] as Side;
+}
+
+export function getAlignment(placement: Placement): Alignment | undefined {
+    return placement.split('-')[1] as Alignment | undefined;
+}
+
+export function getOppositePlacement(placement: Placement): Placement {
+    const alignment = getAlignment(placement);
+    const side = OPPOSITE_SIDE[getSide(placement)];
+    return alignment ? `${side}-${alignment}` : side;
+}
+
+/**
+ * Whether the floating element sits above or below the reference,
+ * i.e. is aligned along the x axis
+ */
+function isVertical(side: Side): boolean {
+    return side === 'top' || side === 'bottom';
+}
+
+function toRect(rect: { left: number; top: number; width: number; height: number }): Rect {
+    return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+}
+
+function intersectRects(a: Rect, b: Rect): Rect {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+        height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+    };
+}
+
+function getViewportRect(): Rect {
+    const { clientWidth, clientHeight } = document.documentElement;
+    // jsdom reports a zero-sized document element
+    return { x: 0, y: 0, width: clientWidth || window.innerWidth, height: clientHeight || window.innerHeight };
+}
+
+function getContextElement(reference: ReferenceElement): Element | undefined {
+    return typeof Element !== 'undefined' && reference instanceof Element
+        ? reference
+        : (reference as VirtualElement).contextElement;
+}
+
+/**
+ * Ancestors that clip or scroll their content, nearest first, up to the body
+ */
+function getOverflowAncestors(element: Element): Element[] {
+    const ancestors: Element[] = [];
+    let parent = element.parentElement;
+    while (parent && parent !== document.body && parent !== document.documentElement) {
+        const { overflow, overflowX, overflowY } = getComputedStyle(parent);
+        if (/auto|scroll|hidden|clip/.test(`${overflow}${overflowX}${overflowY}`)) {
+            ancestors.push(parent);
+        }
+        parent = parent.parentElement;
+    }
+    return ancestors;
+}
+
+/**
+ * Visible area of an element's content: the viewport, clipped by every scroll container around it
+ */
+function getClippingRect(element: Element | undefined): Rect {
+    return (element ? getOverflowAncestors(element) : []).reduce((clip, ancestor) => {
+        const rect = ancestor.getBoundingClientRect();
+        return intersectRects(clip, {
+            x: rect.left + ancestor.clientLeft,
+            y: rect.top + ancestor.clientTop,
+            width: ancestor.clientWidth || rect.width,
+            height: ancestor.clientHeight || rect.height,
+        });
+    }, getViewportRect());
+}
+
+/**
+ * Viewport position of the origin `absolute` coordinates are relative to
+ */
+function getOffsetOrigin(floating: HTMLElement): { x: number; y: number } {
+    const parent = floating.offsetParent;
+    if (!parent || parent === document.body || parent === document.documentElement) {
+        return { x: -window.scrollX, y: -window.scrollY };
+    }
+    const rect = parent.getBoundingClientRect();
+    return {
+        x: rect.left + parent.clientLeft - parent.scrollLeft,
+        y: rect.top + parent.clientTop - parent.scrollTop,
+    };
+}
+
+/**
+ * Position of the floating element for a placement, before middleware
+ */
+function computeCoords({ reference, floating }: ElementRects, placement: Placement): { x: number; y: number } {
+    const side = getSide(placement);
+    const alignment = getAlignment(placement);
+    const centerX = reference.x + reference.width / 2 - floating.width / 2;
+    const centerY = reference.y + reference.height / 2 - floating.height / 2;
+
+    const coords = {
+        top: { x: centerX, y: reference.y - floating.height },
+        bottom: { x: centerX, y: reference.y + reference.height },
+        left: { x: reference.x - floating.width, y: centerY },
+        right: { x: reference.x + reference.width, y: centerY },
+    }[side];
+
+    if (alignment) {
+        const [axis, length] = isVertical(side) ? ['x', 'width'] as const : ['y', 'height'] as const;
+        const delta = reference[length] / 2 - floating[length] / 2;
+        coords[axis] += alignment === 'start' ? -delta : delta;
+    }
+    return coords;
+}
+
+/**
+ * How far the floating element, at the current coordinates, overflows each edge of the boundary
+ * @param state Middleware state
+ * @param padding Space to keep from the boundary
+ */
+export function detectOverflow(state: PositionState, padding = 0): SideOverflow {
+    const { x, y, rects: { floating }, boundary } = state;
+    return {
+        top: boundary.y + padding - y,
+        bottom: y + floating.height - (boundary.y + boundary.height - padding),
+        left: boundary.x + padding - x,
+        right: x + floating.width - (boundary.x + boundary.width - padding),
+    };
+}
+
+/**
+ * Computes where to place a floating element next to a reference
+ * @param reference Element or virtual element to anchor to
+ * @param floating The floating element
+ * @param options Placement, strategy and middleware
+ * @returns Coordinates to apply as `left`/`top`, and the final placement
+ */
+export function computePosition(
+    reference: ReferenceElement,
+    floating: HTMLElement,
+    options: ComputePositionOptions = {}
+): PositionResult {
+    const { placement: initialPlacement = 'bottom', strategy = 'absolute' } = options;
+    const middleware = (options.middleware ?? []).filter(Boolean) as PositionMiddleware[];
+    const elements = { reference, floating };
+    const boundary = options.boundary ?? getClippingRect(floating);
+
+    const measure = (): ElementRects => ({
+        reference: toRect(reference.getBoundingClientRect()),
+        floating: toRect(floating.getBoundingClientRect()),
+    });
+
+    let rects = measure();
+    let placement = initialPlacement;
+    let { x, y } = computeCoords(rects, placement);
+    let middlewareData: MiddlewareData = {};
+    let resets = 0;
+
+    for (let i = 0; i < middleware.length; i++) {
+        const { name, fn } = middleware[i]!;
+        const result = fn({ x, y, placement, initialPlacement, strategy, rects, elements, boundary, middlewareData }) || {};
+
+        x = result.x ?? x;
+        y = result.y ?? y;
+        if (result.data) {
+            middlewareData = { ...middlewareData, [name]: result.data };
+        }
+
+        if (result.reset && resets < MAX_RESETS) {
+            resets++;
+            placement = result.reset.placement ?? placement;
+            if (result.reset.rects) {
+                rects = measure();
+            }
+            ({ x, y } = computeCoords(rects, placement));
+            i = -1;
+        }
+    }
+
+    const origin = strategy === 'fixed' ? { x: 0, y: 0 } : getOffsetOrigin(floating);
+    return { x: x - origin.x, y: y - origin.y, placement, strategy, middlewareData };
+}
+
+export interface OffsetOptions {
+    /**
+     * Gap between the reference and the floating element
+     */
+    mainAxis?: number;
+
+    /**
+     * Shift along the alignment axis, towards the end of the reference
+     * for `start` and centered placements, towards its start for `end`
+     */
+    crossAxis?: number;
+}
+
+/**
+ * Moves the floating element away from the reference.
+ * Put it first, so the other middleware see the gap.
+ * @param value Gap in pixels, or main and cross axis offsets
+ */
+export function offset(value: number | OffsetOptions = 0): PositionMiddleware {
+    const { mainAxis = 0, crossAxis = 0 } = typeof value === 'number' ? { mainAxis: value } : value;
+
+    return {
+        name: 'offset',
+        fn: ({ x, y, placement }) => {
+            const side = getSide(placement);
+            const main = side === 'top' || side === 'left' ? -mainAxis : mainAxis;
+            const cross = getAlignment(placement) === 'end' ? -crossAxis : crossAxis;
+            const [dx, dy] = isVertical(side) ? [cross, main] : [main, cross];
+            return { x: x + dx, y: y + dy, data: { x: dx, y: dy } };
+        },
+    };
+}
+
+export interface FlipOptions {
+    /**
+     * Placements to try, in order, when the preferred one overflows
+     * @default The opposite placement
+     */
+    fallbackPlacements?: Placement[];
+
+    /**
+     * Space to keep from the boundary
+     * @default 0
+     */
+    padding?: number;
+}
+
+/**
+ * Moves the floating element to a fallback placement when it overflows the
+ * boundary on its side. When no placement fits, the one that overflows least wins.
+ */
+export function flip(options: FlipOptions = {}): PositionMiddleware {
+    const { padding = 0 } = options;
+
+    return {
+        name: 'flip',
+        fn: state => {
+            const { placement, initialPlacement, middlewareData } = state;
+            const overflow = detectOverflow(state, padding)[getSide(placement)];
+            if (overflow <= 0) {
+                return {};
+            }
+
+            const placements = [initialPlacement, ...(options.fallbackPlacements ?? [getOppositePlacement(initialPlacement)])];
+            const index = (middlewareData.flip?.index ?? 0) + 1;
+            const overflows = [...(middlewareData.flip?.overflows ?? []), { placement, overflow }];
+
+            const next = placements[index];
+            if (next) {
+                return { data: { index, overflows }, reset: { placement: next } };
+            }
+
+            const best = overflows.reduce((a, b) => (b.overflow < a.overflow ? b : a)).placement;
+            return best === placement
+                ? { data: { index, overflows } }
+                : { data: { index, overflows }, reset: { placement: best } };
+        },
+    };
+}
+
+export interface ShiftOptions {
+    /**
+     * Space to keep from the boundary
+     * @default 0
+     */
+    padding?: number;
+
+    /**
+     * Also shifts along the main axis, which lets the floating element cover the reference
+     * @default false
+     */
+    crossAxis?: boolean;
+}
+
+/**
+ * Slides the floating element along the reference to keep it inside the boundary
+ */
+export function shift(options: ShiftOptions = {}): PositionMiddleware {
+    const { padding = 0, crossAxis = false } = options;
+    const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+    return {
+        name: 'shift',
+        fn: ({ x, y, placement, rects: { floating }, boundary }) => {
+            const vertical = isVertical(getSide(placement));
+            const nextX = vertical || crossAxis
+                ? clamp(x, boundary.x + padding, boundary.x + boundary.width - padding - floating.width)
+                : x;
+            const nextY = !vertical || crossAxis
+                ? clamp(y, boundary.y + padding, boundary.y + boundary.height - padding - floating.height)
+                : y;
+            return { x: nextX, y: nextY, data: { x: nextX - x, y: nextY - y } };
+        },
+    };
+}
+
+export interface SizeOptions {
+    /**
+     * Space to keep from the boundary
+     * @default 0
+     */
+    padding?: number;
+
+    /**
+     * Applies the available space, e.g. as `maxHeight` of a listbox.
+     * The floating element is measured again when this changes its size.
+     */
+    apply?: (args: {
+        availableWidth: number;
+        availableHeight: number;
+        rects: ElementRects;
+        elements: PositionState['elements'];
+    }) => void;
+}
+
+/**
+ * Measures the space left between the reference and the boundary on the
+ * side of the floating element
+ */
+export function size(options: SizeOptions = {}): PositionMiddleware {
+    const { padding = 0, apply } = options;
+
+    return {
+        name: 'size',
+        fn: state => {
+            const { placement, rects, elements, boundary, middlewareData } = state;
+            const overflow = detectOverflow(state, padding);
+            const side = getSide(placement);
+            const { width, height } = rects.floating;
+
+            const data = {
+                availableWidth: Math.max(0, side === 'left' || side === 'right'
+                    ? width - overflow[side]
+                    : boundary.width - 2 * padding),
+                availableHeight: Math.max(0, isVertical(side)
+                    ? height - overflow[side]
+                    : boundary.height - 2 * padding),
+            };
+
+            if (!apply) {
+                return { data };
+            }
+
+            apply({ ...data, rects, elements });
+            const resized = elements.floating.getBoundingClientRect();
+            if (!middlewareData.size && (resized.width !== width || resized.height !== height)) {
+                return { data, reset: { rects: true } };
+            }
+            return { data };
+        },
+    };
+}
+
+export interface ArrowOptions {
+    /**
+     * The arrow element, inside the floating element. Nothing is computed while it is missing.
+     */
+    element: HTMLElement | null | undefined;
+
+    /**
+     * Space to keep between the arrow and the corners of the floating element
+     * @default 0
+     */
+    padding?: number;
+}
+
+/**
+ * Computes where the arrow goes along the floating element to point at the
+ * center of the reference. Put it after shift.
+ */
+export function arrow(options: ArrowOptions): PositionMiddleware {
+    const { element, padding = 0 } = options;
+
+    return {
+        name: 'arrow',
+        fn: ({ x, y, placement, rects: { reference, floating } }) => {
+            if (!element) {
+                return {};
+            }
+
+            const vertical = isVertical(getSide(placement));
+            const { width, height } = element.getBoundingClientRect();
+            const arrowLength = vertical ? width : height;
+            const center = vertical
+                ? reference.x + reference.width / 2 - x
+                : reference.y + reference.height / 2 - y;
+
+            const ideal = center - arrowLength / 2;
+            const max = (vertical ? floating.width : floating.height) - arrowLength - padding;
+            const position = Math.max(padding, Math.min(ideal, max));
+
+            return { data: { [vertical ? 'x' : 'y']: position, centerOffset: ideal - position } };
+        },
+    };
+}
+
+export interface HideOptions {
+    /**
+     * Distance from the edges at which an element already counts as hidden
+     * @default 0
+     */
+    padding?: number;
+}
+
+/**
+ * Reports whether the reference is scrolled out of view and whether the
+ * floating element escaped its boundary, so it can be hidden
+ */
+export function hide(options: HideOptions = {}): PositionMiddleware {
+    const { padding = 0 } = options;
+    const isOutside = (rect: Rect, clip: Rect) =>
+        rect.x + rect.width <= clip.x + padding
+        || rect.x >= clip.x + clip.width - padding
+        || rect.y + rect.height <= clip.y + padding
+        || rect.y >= clip.y + clip.height - padding;
+
+    return {
+        name: 'hide',
+        fn: ({ x, y, rects, elements, boundary }) => ({
+            data: {
+                referenceHidden: isOutside(rects.reference, getClippingRect(getContextElement(elements.reference))),
+                escaped: isOutside({ ...rects.floating, x, y }, boundary),
+            },
+        }),
+    };
+}
+
+export interface AutoUpdateOptions {
+    /**
+     * Update when the window or a scroll container around either element scrolls
+     * @default true
+     */
+    ancestorScroll?: boolean;
+
+    /**
+     * Update when the window resizes
+     * @default true
+     */
+    ancestorResize?: boolean;
+
+    /**
+     * Update when either element resizes (ResizeObserver, where available)
+     * @default true
+     */
+    elementResize?: boolean;
+}
+
+/**
+ * Calls `update` now and whenever the position may have changed
+ * @param reference The reference element
+ * @param floating The floating element
+ * @param update Computes and applies the position
+ * @param options What to listen to
+ * @returns Stops listening
+ */
+export function autoUpdate(
+    reference: ReferenceElement,
+    floating: HTMLElement,
+    update: () => void,
+    options: AutoUpdateOptions = {}
+): () => void {
+    if (typeof window === 'undefined') {
+        return () => {};
+    }
+
+    const { ancestorScroll = true, ancestorResize = true, elementResize = true } = options;
+    const referenceElement = getContextElement(reference);
+    const scrollTargets: Array<Element | Window> = ancestorScroll
+        ? [...new Set([...(referenceElement ? getOverflowAncestors(referenceElement) : []), ...getOverflowAncestors(floating)]), window]
+        : [];
+
+    scrollTargets.forEach(target => target.addEventListener('scroll', update, { passive: true }));
+    if (ancestorResize) {
+        window.addEventListener('resize', update);
+    }
+
+    let observer: ResizeObserver | null = null;
+    if (elementResize && typeof ResizeObserver !== 'undefined') {
+        observer = new ResizeObserver(() => update());
+        if (referenceElement) {
+            observer.observe(referenceElement);
+        }
+        observer.observe(floating);
+    }
+
+    update();
+
+    return () => {
+        scrollTargets.forEach(target => target.removeEventListener('scroll', update));
+        if (ancestorResize) {
+            window.removeEventListener('resize', update);
+        }
+        observer?.disconnect();
+    };
+}
+
+export interface AutoPositionOptions extends ComputePositionOptions, AutoUpdateOptions {
+    /**
+     * Called after every update, e.g. to store the placement or position the arrow
+     */
+    onPosition?: (result: PositionResult) => void;
+}
+
+/**
+ * Keeps a floating element next to its reference: on every update, sets its
+ * `position`, `left` and `top` styles and its `data-placement` attribute
+ * @returns Stops updating
+ */
+export function autoPosition(
+    reference: ReferenceElement,
+    floating: HTMLElement,
+    options: AutoPositionOptions = {}
+): () => void {
+    const { onPosition, ancestorScroll, ancestorResize, elementResize, ...positionOptions } = options;
+
+    return autoUpdate(reference, floating, () => {
+        const result = computePosition(reference, floating, positionOptions);
+        Object.assign(floating.style, {
+            position: result.strategy,
+            left: `${result.x}px`,
+            top: `${result.y}px`,
+        });
+        floating.setAttribute('data-placement', result.placement);
+        onPosition?.(result);
+    }, {
+        ...(ancestorScroll !== undefined ? { ancestorScroll } : {}),
+        ...(ancestorResize !== undefined ? { ancestorResize } : {}),
+        ...(elementResize !== undefined ? { elementResize } : {}),
+    });
+}
@@ -0,0 +1,224 @@
+/**
+ * State Snapshots
+ * Serializable snapshot format for component state, so state can cross
+ * boundaries such as SSR payloads and resumable framework containers
+ */
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * JSON-safe value stored in a snapshot
+ */
+export type SnapshotValue =
+    | null
+    | boolean
+    | number
+    | string
+    | SnapshotValue[]
+    | { [key: string]: SnapshotValue };
+
+/**
+ * Converts a state field to and from its snapshot representation
+ */
+export interface FieldCodec<T = any> {
+    serialize: (value: T) => SnapshotValue;
+    deserialize: (value: SnapshotValue) => T;
+}
+
+/**
+ * Snapshot format of a component state.
+ * Fields without a codec must already be JSON-safe; fields mapped to `false`
+ * are transient (DOM references, File handles, callbacks) and are never
+ * serialized - they come back from the component factory options instead.
+ */
+export type SnapshotFormat<TState = any> = {
+    [K in keyof TState]?: FieldCodec<TState[K]> | false;
+};
+
+/**
+ * Serialized component state
+ */
+export interface StateSnapshot {
+    /**
+     * Snapshot format version
+     */
+    v: number;
+
+    /**
+     * Component name from metadata, used to find the factory on restore
+     */
+    component: string;
+
+    /**
+     * Serialized state fields
+     */
+    state: Record<string, SnapshotValue>;
+}
+
+const date: FieldCodec<Date> = {
+    serialize: value => value.toISOString(),
+    deserialize: value => new Date(value as string),
+};
+
+/**
+ * Wraps a codec so null passes through unchanged
+ */
+function nullable<T>(codec: FieldCodec<T>): FieldCodec<T | null> {
+    return {
+        serialize: value => (value === null ? null : codec.serialize(value)),
+        deserialize: value => (value === null ? null : codec.deserialize(value)),
+    };
+}
+
+/**
+ * Applies a codec to every item of an array
+ */
+function arrayOf<T>(codec: FieldCodec<T>): FieldCodec<T[]> {
+    return {
+        serialize: value => value.map(item => codec.serialize(item)),
+        deserialize: value => (value as SnapshotValue[]).map(item => codec.deserialize(item)),
+    };
+}
+
+/**
+ * Applies codecs to some properties of an object, copying the others as is
+ */
+function shape<T extends object>(codecs: { [K in keyof T]?: FieldCodec<T[K]> }): FieldCodec<T> {
+    return {
+        serialize: value => {
+            const result: Record<string, SnapshotValue> = { ...(value as any) };
+            Object.entries(codecs).forEach(([key, codec]) => {
+                result[key] = (codec as FieldCodec).serialize((value as any)[key]);
+            });
+            return result;
+        },
+        deserialize: value => {
+            const result: Record<string, any> = { ...(value as Record<string, SnapshotValue>) };
+            Object.entries(codecs).forEach(([key, codec]) => {
+                result[key] = (codec as FieldCodec).deserialize(result[key]);
+            });
+            return result as T;
+        },
+    };
+}
+
+/**
+ * Serializes a Set as an array of its values
+ */
+function set<T>(): FieldCodec<Set<T>> {
+    return {
+        serialize: value => Array.from(value) as SnapshotValue[],
+        deserialize: value => new Set(value as T[]),
+    };
+}
+
+/**
+ * Building blocks for primitive snapshot formats
+ */
+export const snapshotCodecs = {
+    date,
+    nullableDate: nullable(date),
+    nullable,
+    arrayOf,
+    shape,
+    set,
+};
+
+/**
+ * Checks that a value survives JSON serialization unchanged
+ */
+function isSnapshotValue(value: unknown): value is SnapshotValue {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+        return true;
+    }
+
+    if (typeof value === 'number') {
+        return Number.isFinite(value);
+    }
+
+    if (Array.isArray(value)) {
+        return value.every(isSnapshotValue);
+    }
+
+    if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.values(value as object).every(item => item === undefined || isSnapshotValue(item));
+    }
+
+    return false;
+}
+
+/**
+ * Creates a serializable snapshot of a component state
+ * @param component Component name (metadata.name)
+ * @param state Current state
+ * @param format Snapshot format of the component state
+ * @returns JSON-safe snapshot
+ */
+export function createSnapshot<TState>(
+    component: string,
+    state: TState,
+    format: SnapshotFormat<TState> = {}
+): StateSnapshot {
+    const fields: Record<string, SnapshotValue> = {};
+
+    Object.entries(state as Record<string, unknown>).forEach(([key, value]) => {
+        const codec = (format as Record<string, FieldCodec | false | undefined>)[key];
+
+        if (codec === false || value === undefined || typeof value === 'function') {
+            return;
+        }
+
+        if (codec) {
+            fields[key] = codec.serialize(value);
+            return;
+        }
+
+        if (!isSnapshotValue(value)) {
+            console.warn(`[${component}] State field "${key}" is not serializable and was left out of the snapshot.`);
+            return;
+        }
+
+        fields[key] = value;
+    });
+
+    return {
+        v: SNAPSHOT_VERSION,
+        component,
+        state: fields,
+    };
+}
+
+/**
+ * Restores state fields from a snapshot.
+ * Transient fields are not part of the result, so merge it over a freshly
+ * created state: `setState(prev => ({ ...prev, ...restoreSnapshot(snapshot) }))`
+ * @param snapshot Snapshot created by createSnapshot
+ * @param format Snapshot format of the component state
+ * @returns Restored state fields
+ */
+export function restoreSnapshot<TState>(
+    snapshot: StateSnapshot,
+    format: SnapshotFormat<TState> = {}
+): Partial<TState> {
+    if (snapshot.v !== SNAPSHOT_VERSION) {
+        console.warn(`[${snapshot.component}] Snapshot version ${snapshot.v} is not supported. State was not restored.`);
+        return {};
+    }
+
+    const restored: Record<string, unknown> = {};
+
+    Object.entries(snapshot.state).forEach(([key, value]) => {
+        const codec = (format as Record<string, FieldCodec | false | undefined>)[key];
+
+        if (codec === false) {
+            return;
+        }
+
+        restored[key] = codec ? codec.deserialize(value) : value;
+    });
+
+    return restored as Partial<TState>;
+}
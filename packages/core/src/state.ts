@@ -3,29 +3,154 @@
  * Framework-agnostic reactive state management
  */
 
+import { shallowEqual } from './equality.js';
+import { createLoggerMiddleware, type StoreMiddleware } from './middleware.js';
+
 export interface Store<T> {
     getState: () => T;
     setState: (updater: T | ((prev: T) => T)) => void;
     subscribe: (listener: (state: T) => void) => () => void;
+    /**
+     * Runs fn as one update: subscribers are notified once, after it returns.
+     * Optional, so hand-written stores of primitives stay assignable.
+     */
+    batch?: (fn: () => void) => void;
+    select: <U>(selector: (state: T) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
+}
+
+/**
+ * Store created by `createStore`, which always supports `batch`
+ */
+export type BatchingStore<T> = Store<T> & { batch: (fn: () => void) => void };
+
+/**
+ * Subscription to a slice of a store
+ */
+export interface StoreSelection<U> {
+    /**
+     * Current value of the slice
+     */
+    get: () => U;
+
+    /**
+     * Calls the listener whenever the slice changes
+     */
+    subscribe: (listener: (value: U) => void) => () => void;
+
+    /**
+     * Removes every listener and detaches from the store
+     */
+    dispose: () => void;
+}
+
+/**
+ * Store configuration
+ */
+export interface StoreOptions<T> {
+    /**
+     * Middleware run around every update, in order
+     */
+    middleware?: StoreMiddleware<T>[];
+
+    /**
+     * Compares the current and next state; updates it reports as equal are dropped
+     * @default Object.is
+     */
+    equalityFn?: (a: T, b: T) => boolean;
+
+    /**
+     * When subscribers are notified: `sync` after every update, `microtask`
+     * once for all updates made before the next microtask
+     * @default 'sync'
+     */
+    scheduling?: 'sync' | 'microtask';
 }
 
 /**
  * Creates a reactive store with the given initial state
  * @param initialState The initial state
- * @returns A store object with methods to get, set, and subscribe to state
+ * @param options Store configuration
+ * @returns A store object with methods to get, set, batch, select, and subscribe to state
  */
-export function createStore<T>(initialState: T): Store<T> {
-    let state = initialState;
+export function createStore<T>(initialState: T, options: StoreOptions<T> = {}): BatchingStore<T> {
+    const { middleware = [], equalityFn = Object.is, scheduling = 'sync' } = options;
+    let state = middleware.reduce((current, { onInit }) => (onInit ? onInit(current) : current), initialState);
+    let notifiedState = state;
+    let batchDepth = 0;
+    let pending = false;
+    let flushScheduled = false;
     const listeners = new Set<(state: T) => void>();
 
     const getState = () => state;
 
+    const flush = () => {
+        pending = false;
+        // Updates that cancel each other out within a batch notify nobody
+        if (equalityFn(notifiedState, state)) {
+            return;
+        }
+        notifiedState = state;
+        listeners.forEach(listener => listener(state));
+    };
+
+    const schedule = () => {
+        if (batchDepth > 0) {
+            return;
+        }
+        if (scheduling === 'sync') {
+            flush();
+            return;
+        }
+        if (!flushScheduled) {
+            flushScheduled = true;
+            queueMicrotask(() => {
+                flushScheduled = false;
+                if (pending) {
+                    flush();
+                }
+            });
+        }
+    };
+
+    const commit = (nextState: T, prevState: T) => {
+        if (equalityFn(state, nextState)) {
+            return;
+        }
+        state = nextState;
+
+        middleware.forEach(({ onStateChange }) => onStateChange?.(state, prevState));
+        pending = true;
+        schedule();
+    };
+
     const setState = (updater: T | ((prev: T) => T)) => {
-        state = typeof updater === 'function'
+        const prevState = state;
+        const nextState = typeof updater === 'function'
             ? (updater as ((prev: T) => T))(state)
             : updater;
 
-        listeners.forEach(listener => listener(state));
+        // Each middleware passes the update on to the next one, the last one commits it
+        const run = (index: number, candidate: T): void => {
+            const current = middleware[index];
+            if (!current) {
+                commit(candidate, prevState);
+                return;
+            }
+            if (!current.onSetState) {
+                run(index + 1, candidate);
+                return;
+            }
+
+            let passed = false;
+            current.onSetState(candidate, prevState, forwarded => {
+                if (!passed) {
+                    passed = true;
+                    run(index + 1, forwarded);
+                }
+            });
+        };
+
+        run(0, nextState);
     };
 
     const subscribe = (listener: (state: T) => void) => {
@@ -35,10 +160,95 @@ export function createStore<T>(initialState: T): Store<T> {
         };
     };
 
+    const batch = (fn: () => void) => {
+        batchDepth++;
+        try {
+            fn();
+        } finally {
+            batchDepth--;
+            if (pending) {
+                schedule();
+            }
+        }
+    };
+
+    const select = <U>(selector: (state: T) => U, equalityFn?: (a: U, b: U) => boolean) =>
+        createSelection({ getState, subscribe }, selector, equalityFn);
+
     return {
         getState,
         setState,
         subscribe,
+        batch,
+        select,
+    };
+}
+
+/**
+ * Creates a subscription to a slice of a store.
+ * The selection only listens to the store while it has listeners of its own.
+ * @param store The source store
+ * @param selector A function to pick the slice from the state
+ * @param equalityFn Compares the previous and next slice
+ * @returns The selection
+ */
+export function createSelection<T, U>(
+    store: Pick<Store<T>, 'getState' | 'subscribe'>,
+    selector: (state: T) => U,
+    equalityFn: (a: U, b: U) => boolean = Object.is
+): StoreSelection<U> {
+    let source = store.getState();
+    let value = selector(source);
+    let notifiedValue = value;
+    let detach: (() => void) | null = null;
+    const listeners = new Set<(value: U) => void>();
+
+    // Keeps the previous reference while the slice is equal, so `get`
+    // can serve as a snapshot for external store hooks
+    const get = () => {
+        const state = store.getState();
+        if (state !== source) {
+            source = state;
+            const nextValue = selector(state);
+            if (!equalityFn(value, nextValue)) {
+                value = nextValue;
+            }
+        }
+        return value;
+    };
+
+    const handleChange = () => {
+        if (get() !== notifiedValue) {
+            notifiedValue = value;
+            listeners.forEach(listener => listener(value));
+        }
+    };
+
+    const dispose = () => {
+        listeners.clear();
+        detach?.();
+        detach = null;
+    };
+
+    const subscribe = (listener: (value: U) => void) => {
+        if (!detach) {
+            notifiedValue = get();
+            detach = store.subscribe(handleChange);
+        }
+        listeners.add(listener);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) {
+                dispose();
+            }
+        };
+    };
+
+    return {
+        get,
+        subscribe,
+        dispose,
     };
 }
 
@@ -46,62 +256,55 @@ export function createStore<T>(initialState: T): Store<T> {
  * Creates a derived store based on a selector function
  * @param store The source store
  * @param selector A function to derive values from the source store
- * @returns A store with the derived state
+ * @param equalityFn Compares the previous and next derived state; equal ones are not emitted
+ * @returns A store with the derived state, and `dispose` to detach it from the source store
  */
 export function createDerivedStore<T, U>(
     store: Store<T>,
-    selector: (state: T) => U
-): Store<U> {
-    const derivedStore = createStore<U>(selector(store.getState()));
+    selector: (state: T) => U,
+    equalityFn?: (a: U, b: U) => boolean
+): BatchingStore<U> & { dispose: () => void } {
+    const selection = store.select(selector, equalityFn);
+    const derivedStore = createStore<U>(selection.get(), equalityFn ? { equalityFn } : {});
 
-    store.subscribe(state => {
-        const newDerivedState = selector(state);
-        derivedStore.setState(newDerivedState);
+    selection.subscribe(value => {
+        derivedStore.setState(() => value);
     });
 
-    return derivedStore;
+    return {
+        ...derivedStore,
+        dispose: selection.dispose,
+    };
 }
 
 /**
- * Creates a component state store with debugging support
+ * Creates a component state store with debugging support.
+ * Component state is replaced by copies on every update, so updates are
+ * compared with `shallowEqual` unless `options.equalityFn` is set.
  * @param name Component name for debugging
  * @param initialState Initial state
+ * @param options Store configuration
  * @returns Enhanced store with derive method
  */
 export function createComponentState<T>(
     name: string,
-    initialState: T
-): Store<T> & { derive: <U>(selector: (state: T) => U) => { get: () => U; subscribe: (listener: (value: U) => void) => () => void } } {
-    const store = createStore(initialState);
+    initialState: T,
+    options: StoreOptions<T> = {}
+): BatchingStore<T> & { derive: <U>(selector: (state: T) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U> } {
+    const middleware = options.middleware ?? [];
     
     // Add debugging in development
-    if (process.env.NODE_ENV === 'development') {
-        store.subscribe((state) => {
-            console.debug(`[${name}] State updated:`, state);
-        });
-    }
+    const store = createStore(initialState, {
+        ...options,
+        equalityFn: options.equalityFn ?? shallowEqual,
+        middleware: process.env.NODE_ENV === 'development'
+            ? [...middleware, createLoggerMiddleware<T>({ label: name })]
+            : middleware,
+    });
     
     // Add derive method
-    const derive = <U>(selector: (state: T) => U) => {
-        let derivedValue = selector(store.getState());
-        const derivedListeners = new Set<(value: U) => void>();
-        
-        store.subscribe((newState) => {
-            const newValue = selector(newState);
-            if (!Object.is(newValue, derivedValue)) {
-                derivedValue = newValue;
-                derivedListeners.forEach(listener => listener(derivedValue));
-            }
-        });
-        
-        return {
-            get: () => derivedValue,
-            subscribe: (listener: (value: U) => void) => {
-                derivedListeners.add(listener);
-                return () => derivedListeners.delete(listener);
-            }
-        };
-    };
+    const derive = <U>(selector: (state: T) => U, equalityFn?: (a: U, b: U) => boolean) =>
+        store.select(selector, equalityFn);
     
     return {
         ...store,
@@ -0,0 +1,412 @@
+/**
+ * Virtualization
+ * Works out which items of a long list are in view, so components render
+ * only those items plus a few around them (the overscan). Items have a fixed
+ * size or an estimated size that is replaced by measuring rendered items.
+ *
+ * Offsets are kept along one axis: vertical for lists and table rows,
+ * horizontal for table columns.
+ */
+
+export type ScrollAlignment = 'start' | 'center' | 'end' | 'auto';
+
+/**
+ * Position of an item along the scroll axis
+ */
+export interface VirtualItem {
+    index: number;
+    start: number;
+    size: number;
+    end: number;
+}
+
+/**
+ * Items to render and the space the items around them take up
+ */
+export interface VirtualWindow {
+    /**
+     * First item to render
+     */
+    startIndex: number;
+
+    /**
+     * Item after the last one to render, as in `slice(startIndex, endIndex)`
+     */
+    endIndex: number;
+
+    /**
+     * Size of the items before the window, left as padding or a spacer
+     */
+    paddingStart: number;
+
+    /**
+     * Size of the items after the window
+     */
+    paddingEnd: number;
+
+    /**
+     * Size of every item
+     */
+    totalSize: number;
+}
+
+/**
+ * Virtualization settings components accept, e.g. as `virtualize: { itemSize: 32 }`
+ */
+export interface VirtualizeOptions {
+    /**
+     * Size of an item in pixels, or its estimate when `measure` is set
+     * @default 36
+     */
+    itemSize?: number | ((index: number) => number);
+
+    /**
+     * Items rendered on each side of the visible ones
+     * @default 3
+     */
+    overscan?: number;
+
+    /**
+     * Size of the scroll container until it can be measured
+     */
+    viewportSize?: number;
+
+    /**
+     * Measure rendered items, for items whose size varies
+     * @default false
+     */
+    measure?: boolean;
+}
+
+export interface VirtualizerOptions {
+    /**
+     * Number of items
+     */
+    count: number;
+
+    /**
+     * Size of an item in pixels, or its estimate until it is measured
+     */
+    itemSize: number | ((index: number) => number);
+
+    /**
+     * Items rendered on each side of the visible ones
+     * @default 3
+     */
+    overscan?: number;
+
+    /**
+     * Size of the scroll container until it is observed
+     * @default 0
+     */
+    viewportSize?: number;
+
+    /**
+     * Scroll along the x axis, e.g. for table columns
+     * @default false
+     */
+    horizontal?: boolean;
+
+    /**
+     * Scroll offset to start at
+     * @default 0
+     */
+    initialOffset?: number;
+}
+
+export interface Virtualizer {
+    /**
+     * Items to render for the current scroll offset
+     */
+    getWindow: () => VirtualWindow;
+
+    /**
+     * Positions of the items in the window
+     */
+    getVirtualItems: () => VirtualItem[];
+
+    getTotalSize: () => number;
+    getScrollOffset: () => number;
+
+    /**
+     * Scroll offset that brings an item into view; `auto` scrolls as little as possible
+     */
+    getOffsetForIndex: (index: number, align?: ScrollAlignment) => number;
+
+    /**
+     * Scrolls an item into view, scrolling the observed element too
+     */
+    scrollToIndex: (index: number, align?: ScrollAlignment) => void;
+
+    scrollToOffset: (offset: number) => void;
+    setCount: (count: number) => void;
+    setViewportSize: (size: number) => void;
+
+    /**
+     * Replaces the size of an item with its measured size
+     */
+    measure: (index: number, size: number) => void;
+
+    /**
+     * Measures rendered items that carry a `data-index` attribute. An item is
+     * as large as the distance to the next item, so headers and gaps between
+     * items count towards the item before them.
+     */
+    measureElements: (elements: Iterable<Element>) => void;
+
+    /**
+     * Follows the scroll offset and size of a scroll container
+     * @returns Stops following
+     */
+    observe: (element: HTMLElement) => () => void;
+
+    /**
+     * Called whenever the window changes
+     * @returns Unsubscribes
+     */
+    subscribe: (listener: (window: VirtualWindow) => void) => () => void;
+}
+
+/**
+ * Whether two windows render the same items with the same spacing
+ */
+export function isSameVirtualWindow(a: VirtualWindow | null, b: VirtualWindow | null): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    return a.startIndex === b.startIndex
+        && a.endIndex === b.endIndex
+        && a.paddingStart === b.paddingStart
+        && a.paddingEnd === b.paddingEnd
+        && a.totalSize === b.totalSize;
+}
+
+/**
+ * Creates a virtualizer for a list of `count` items
+ * @param options Item count, sizes and overscan
+ * @returns Virtualizer
+ */
+export function createVirtualizer(options: VirtualizerOptions): Virtualizer {
+    const { itemSize, overscan = 3, horizontal = false } = options;
+
+    let count = Math.max(0, options.count);
+    let viewportSize = options.viewportSize ?? 0;
+    let scrollOffset = options.initialOffset ?? 0;
+    let element: HTMLElement | null = null;
+    const measured = new Map<number, number>();
+    const listeners = new Set<(window: VirtualWindow) => void>();
+
+    // starts[i] is the offset of item i; starts[count] is the total size
+    let starts: number[] | null = null;
+
+    const getSize = (index: number) =>
+        measured.get(index) ?? (typeof itemSize === 'number' ? itemSize : itemSize(index));
+
+    const getStarts = (): number[] => {
+        if (!starts) {
+            starts = new Array<number>(count + 1);
+            starts[0] = 0;
+            for (let index = 0; index < count; index++) {
+                starts[index + 1] = starts[index]! + getSize(index);
+            }
+        }
+        return starts;
+    };
+
+    const getTotalSize = () => getStarts()[count]!;
+
+    const clampOffset = (offset: number) => Math.max(0, Math.min(offset, getTotalSize() - viewportSize));
+
+    /**
+     * Index of the item at an offset
+     */
+    const findIndexAt = (offset: number): number => {
+        const positions = getStarts();
+        let low = 0;
+        let high = count - 1;
+
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (positions[middle]! <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return low;
+    };
+
+    const getWindow = (): VirtualWindow => {
+        const positions = getStarts();
+        const totalSize = positions[count]!;
+
+        if (count === 0) {
+            return { startIndex: 0, endIndex: 0, paddingStart: 0, paddingEnd: 0, totalSize };
+        }
+
+        const offset = clampOffset(scrollOffset);
+        const firstVisible = findIndexAt(offset);
+        let endVisible = firstVisible + 1;
+        while (endVisible < count && positions[endVisible]! < offset + viewportSize) {
+            endVisible++;
+        }
+
+        const startIndex = Math.max(0, firstVisible - overscan);
+        const endIndex = Math.min(count, endVisible + overscan);
+
+        return {
+            startIndex,
+            endIndex,
+            paddingStart: positions[startIndex]!,
+            paddingEnd: totalSize - positions[endIndex]!,
+            totalSize,
+        };
+    };
+
+    let lastWindow: VirtualWindow | null = null;
+    const notify = () => {
+        const current = getWindow();
+        if (!isSameVirtualWindow(current, lastWindow)) {
+            lastWindow = current;
+            listeners.forEach(listener => listener(current));
+        }
+    };
+
+    const getOffsetForIndex = (index: number, align: ScrollAlignment = 'auto'): number => {
+        if (count === 0) {
+            return 0;
+        }
+
+        const positions = getStarts();
+        const target = Math.max(0, Math.min(index, count - 1));
+        const start = positions[target]!;
+        const end = positions[target + 1]!;
+
+        switch (align) {
+            case 'start':
+                return clampOffset(start);
+            case 'end':
+                return clampOffset(end - viewportSize);
+            case 'center':
+                return clampOffset(start - (viewportSize - (end - start)) / 2);
+            default:
+                if (start < scrollOffset) {
+                    return clampOffset(start);
+                }
+                if (end > scrollOffset + viewportSize) {
+                    return clampOffset(end - viewportSize);
+                }
+                return scrollOffset;
+        }
+    };
+
+    const scrollToOffset = (offset: number) => {
+        scrollOffset = Math.max(0, offset);
+        if (element) {
+            if (horizontal) {
+                element.scrollLeft = scrollOffset;
+            } else {
+                element.scrollTop = scrollOffset;
+            }
+        }
+        notify();
+    };
+
+    const measure = (index: number, size: number) => {
+        if (index < 0 || index >= count || size <= 0 || measured.get(index) === size) {
+            return;
+        }
+        measured.set(index, size);
+        starts = null;
+        notify();
+    };
+
+    return {
+        getWindow,
+        getVirtualItems: () => {
+            const { startIndex, endIndex } = getWindow();
+            const positions = getStarts();
+            const items: VirtualItem[] = [];
+            for (let index = startIndex; index < endIndex; index++) {
+                items.push({ index, start: positions[index]!, size: getSize(index), end: positions[index + 1]! });
+            }
+            return items;
+        },
+        getTotalSize,
+        getScrollOffset: () => scrollOffset,
+        getOffsetForIndex,
+        scrollToIndex: (index, align = 'auto') => {
+            scrollToOffset(getOffsetForIndex(index, align));
+        },
+        scrollToOffset,
+        setCount: (newCount) => {
+            if (newCount === count) {
+                return;
+            }
+            count = Math.max(0, newCount);
+            // Measurements belong to items that may have changed
+            measured.clear();
+            starts = null;
+            notify();
+        },
+        setViewportSize: (size) => {
+            if (size !== viewportSize) {
+                viewportSize = size;
+                notify();
+            }
+        },
+        measure,
+        measureElements: (elements) => {
+            const rendered = Array.from(elements)
+                .map(item => ({ item, index: Number(item.getAttribute('data-index')) }))
+                .filter(({ index }) => Number.isInteger(index))
+                .sort((a, b) => a.index - b.index);
+
+            rendered.forEach(({ item, index }, position) => {
+                const rect = item.getBoundingClientRect();
+                const next = rendered[position + 1];
+                const size = next && next.index === index + 1
+                    ? horizontal
+                        ? next.item.getBoundingClientRect().left - rect.left
+                        : next.item.getBoundingClientRect().top - rect.top
+                    : horizontal ? rect.width : rect.height;
+                measure(index, size);
+            });
+        },
+        observe: (target) => {
+            element = target;
+            const sync = () => {
+                scrollOffset = horizontal ? target.scrollLeft : target.scrollTop;
+                const size = horizontal ? target.clientWidth : target.clientHeight;
+                // Unlaid-out elements (and jsdom) report 0; keep the configured size
+                if (size > 0) {
+                    viewportSize = size;
+                }
+                notify();
+            };
+
+            target.addEventListener('scroll', sync, { passive: true });
+            let observer: ResizeObserver | null = null;
+            if (typeof ResizeObserver !== 'undefined') {
+                observer = new ResizeObserver(sync);
+                observer.observe(target);
+            }
+            sync();
+
+            return () => {
+                target.removeEventListener('scroll', sync);
+                observer?.disconnect();
+                if (element === target) {
+                    element = null;
+                }
+            };
+        },
+        subscribe: (listener) => {
+            lastWindow = lastWindow ?? getWindow();
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
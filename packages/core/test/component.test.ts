@@ -0,0 +1,115 @@
+/**
+ * Tests for the component checks
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createComponentFactory, warnOnUnknownEvents } from '../src/component.js';
+import { LogicLayerBuilder } from '../src/logic.js';
+
+interface CounterState {
+    count: number;
+}
+
+const createCounter = createComponentFactory<CounterState, { increment: undefined }>({
+    name: 'Counter',
+    createInitialState: () => ({ count: 0 }),
+    createLogic: () =>
+        new LogicLayerBuilder<CounterState, { increment: undefined }>()
+            .onEvent('increment', state => ({ count: state.count + 1 }))
+            .build(),
+    metadata: {
+        accessibility: { wcagLevel: 'AA', patterns: [] },
+        events: { supported: ['increment'], required: [], custom: {} },
+        structure: { elements: {} },
+    },
+});
+
+describe('warnOnUnknownEvents', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+    });
+
+    it('warns once per event missing from metadata.events.supported', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const core = createCounter();
+        warnOnUnknownEvents(core);
+
+        core.logic.handleEvent('incremnet');
+        core.logic.handleEvent('incremnet');
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn).toHaveBeenCalledWith('[Counter] Unknown event "incremnet". Supported events: increment.');
+    });
+
+    it('still handles every event', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const core = createCounter();
+        const listener = vi.fn();
+        warnOnUnknownEvents(core);
+        core.logic.on('other' as 'increment', listener);
+
+        core.logic.handleEvent('increment');
+        core.logic.handleEvent('other');
+
+        expect(core.state.getState().count).toBe(1);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not warn about supported events', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const core = createCounter();
+        warnOnUnknownEvents(core);
+
+        core.logic.dispatch('increment', undefined);
+
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('checks events dispatched through dispatch', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const core = createCounter();
+        warnOnUnknownEvents(core);
+
+        core.logic.dispatch('reset' as 'increment', undefined);
+
+        expect(warn).toHaveBeenCalledWith('[Counter] Unknown event "reset". Supported events: increment.');
+    });
+
+    it('restores handleEvent when turned off', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const core = createCounter();
+        const handleEvent = core.logic.handleEvent;
+        const stop = warnOnUnknownEvents(core);
+
+        stop();
+        core.logic.handleEvent('unknown');
+
+        expect(core.logic.handleEvent).toBe(handleEvent);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('keeps a handleEvent decorated after it when turned off', () => {
+        const core = createCounter();
+        const stop = warnOnUnknownEvents(core);
+        const decorated = vi.fn();
+        core.logic.handleEvent = decorated;
+
+        stop();
+
+        expect(core.logic.handleEvent).toBe(decorated);
+    });
+
+    it('does nothing in production', () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const core = createCounter();
+        const handleEvent = core.logic.handleEvent;
+        warnOnUnknownEvents(core);
+
+        core.logic.handleEvent('unknown');
+
+        expect(core.logic.handleEvent).toBe(handleEvent);
+        expect(warn).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for the devtools history
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createComponentFactory } from '../src/component.js';
+import { LogicLayerBuilder } from '../src/logic.js';
+import {
+    connectDevtools,
+    getConnectedDevtools,
+    type DevtoolsConnection,
+    type DevtoolsMessage,
+} from '../src/devtools.js';
+
+interface CounterState {
+    count: number;
+}
+
+interface CounterEvents {
+    increment: undefined;
+    set: number;
+}
+
+const createCounter = createComponentFactory<CounterState, CounterEvents>({
+    name: 'Counter',
+    createInitialState: () => ({ count: 0 }),
+    createLogic: () =>
+        new LogicLayerBuilder<CounterState, CounterEvents>()
+            .onEvent('increment', state => ({ count: state.count + 1 }))
+            .onEvent('set', (_state, count) => ({ count }))
+            .build(),
+    metadata: {
+        accessibility: { wcagLevel: 'AA', patterns: [] },
+        events: { supported: ['increment', 'set'], required: [], custom: {} },
+        structure: { elements: {} },
+    },
+});
+
+function createConnection() {
+    let listener: ((message: DevtoolsMessage) => void) | undefined;
+    const connection = {
+        init: vi.fn(),
+        send: vi.fn(),
+        subscribe: vi.fn((next: (message: DevtoolsMessage) => void) => {
+            listener = next;
+            return () => {
+                listener = undefined;
+            };
+        }),
+    } satisfies DevtoolsConnection;
+
+    return {
+        connection,
+        receive: (message: DevtoolsMessage) => listener?.(message),
+    };
+}
+
+describe('connectDevtools', () => {
+    afterEach(() => {
+        getConnectedDevtools().forEach(devtools => devtools.disconnect());
+    });
+
+    it('records handled events with the fields they changed', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false });
+
+        core.logic.handleEvent('increment');
+
+        const history = devtools.history();
+        expect(history.map(entry => entry.action)).toEqual([
+            { type: '@@INIT' },
+            { type: 'increment', payload: undefined },
+        ]);
+        expect(history[1]!.diff).toEqual({ count: { prev: 0, next: 1 } });
+        expect(devtools.currentIndex()).toBe(1);
+    });
+
+    it('records handled events that change nothing with an empty diff', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false });
+
+        core.logic.handleEvent('ping');
+
+        const history = devtools.history();
+        expect(history[1]!.action).toEqual({ type: 'ping', payload: undefined });
+        expect(history[1]!.diff).toEqual({});
+    });
+
+    it('records state updates made outside handleEvent', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false });
+
+        core.state.setState({ count: 5 });
+
+        expect(devtools.history()[1]!.action).toEqual({ type: '@@stellarix/setState' });
+    });
+
+    it('skips state updates outside handleEvent that change nothing', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false });
+
+        core.state.setState(state => state);
+
+        expect(devtools.history()).toHaveLength(1);
+    });
+
+    it('undoes and redoes without recording', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false });
+        core.logic.handleEvent('increment');
+        core.logic.handleEvent('increment');
+
+        devtools.undo();
+
+        expect(core.state.getState().count).toBe(1);
+        expect(devtools.canUndo()).toBe(true);
+        expect(devtools.canRedo()).toBe(true);
+
+        devtools.undo();
+
+        expect(core.state.getState().count).toBe(0);
+        expect(devtools.canUndo()).toBe(false);
+
+        devtools.redo();
+        devtools.redo();
+
+        expect(core.state.getState().count).toBe(2);
+        expect(devtools.canRedo()).toBe(false);
+        expect(devtools.history()).toHaveLength(3);
+    });
+
+    it('drops the undone entries when a new action is recorded, without reusing their ids', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false });
+        core.logic.handleEvent('increment');
+        core.logic.handleEvent('increment');
+
+        devtools.undo();
+        core.logic.handleEvent('set', 10);
+
+        expect(devtools.history().map(entry => entry.state.count)).toEqual([0, 1, 10]);
+        expect(devtools.history().map(entry => entry.id)).toEqual([0, 1, 3]);
+        expect(devtools.canRedo()).toBe(false);
+    });
+
+    it('keeps the newest maxAge entries, the oldest one becoming the initial entry', () => {
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection: false, maxAge: 3 });
+
+        for (let i = 0; i < 4; i++) {
+            core.logic.handleEvent('increment');
+        }
+
+        const history = devtools.history();
+        expect(history.map(entry => entry.state.count)).toEqual([2, 3, 4]);
+        expect(history.map(entry => entry.id)).toEqual([2, 3, 4]);
+        expect(history[0]!.action).toEqual({ type: '@@INIT' });
+        expect(history[0]!.diff).toEqual({});
+        expect(devtools.currentIndex()).toBe(2);
+    });
+
+    it('reports to the connection', () => {
+        const { connection } = createConnection();
+        const core = createCounter();
+        connectDevtools(core, { connection });
+
+        core.logic.handleEvent('set', 3);
+
+        expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+        expect(connection.send).toHaveBeenCalledWith({ type: 'set', payload: 3 }, { count: 3 });
+    });
+
+    it('jumps to the entry with the action id the extension sends, after trimming', () => {
+        const { connection, receive } = createConnection();
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection, maxAge: 3 });
+        for (let i = 0; i < 4; i++) {
+            core.logic.handleEvent('increment');
+        }
+
+        receive({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId: 3 } });
+
+        expect(core.state.getState().count).toBe(3);
+        expect(devtools.currentIndex()).toBe(1);
+    });
+
+    it('restores the state the extension sends for actions it no longer records', () => {
+        const { connection, receive } = createConnection();
+        const core = createCounter();
+        const devtools = connectDevtools(core, { connection, maxAge: 2 });
+        core.logic.handleEvent('increment');
+        core.logic.handleEvent('increment');
+
+        receive({
+            type: 'DISPATCH',
+            payload: { type: 'JUMP_TO_STATE', actionId: 0 },
+            state: JSON.stringify({ count: 0 }),
+        });
+
+        expect(core.state.getState().count).toBe(0);
+        expect(devtools.history()).toHaveLength(2);
+    });
+
+    it('handles actions typed in the extension', () => {
+        const { connection, receive } = createConnection();
+        const core = createCounter();
+        connectDevtools(core, { connection });
+
+        receive({ type: 'ACTION', payload: '{"type":"set","payload":7}' });
+
+        expect(core.state.getState().count).toBe(7);
+    });
+
+    it('restores handleEvent and leaves the registry on disconnect', () => {
+        const core = createCounter();
+        const handleEvent = core.logic.handleEvent;
+        const devtools = connectDevtools(core, { connection: false, id: 'main' });
+
+        expect(getConnectedDevtools().get('Counter:main')).toBe(devtools);
+
+        devtools.disconnect();
+        core.logic.handleEvent('increment');
+
+        expect(core.logic.handleEvent).toBe(handleEvent);
+        expect(getConnectedDevtools().has('Counter:main')).toBe(false);
+        expect(devtools.history()).toHaveLength(1);
+    });
+});
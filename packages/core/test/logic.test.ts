@@ -0,0 +1,135 @@
+/**
+ * Tests for the logic layer
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createStore } from '../src/state.js';
+import { LogicLayerBuilder } from '../src/logic.js';
+
+interface ToggleState {
+    on: boolean;
+    presses: number;
+}
+
+interface ToggleEvents {
+    toggle: undefined;
+    set: boolean;
+}
+
+function setup() {
+    const store = createStore<ToggleState>({ on: false, presses: 0 });
+    const logic = new LogicLayerBuilder<ToggleState, ToggleEvents>()
+        .onEvent('toggle', state => ({ on: !state.on, presses: state.presses + 1 }))
+        .onEvent('set', (_state, on) => ({ on }))
+        .withInteraction('button', 'onClick', () => 'toggle')
+        .build();
+    logic.connect(store);
+    logic.initialize();
+    return { store, logic };
+}
+
+describe('Logic layer', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('dispatch', () => {
+        it('runs the event handler like handleEvent', () => {
+            const { store, logic } = setup();
+
+            logic.dispatch('set', true);
+
+            expect(store.getState().on).toBe(true);
+        });
+
+        it('goes through a decorated handleEvent', () => {
+            const { logic } = setup();
+            const handleEvent = logic.handleEvent;
+            const decorated = vi.fn((event: string, payload?: any) => handleEvent(event, payload));
+            logic.handleEvent = decorated;
+
+            logic.dispatch('set', true);
+
+            expect(decorated).toHaveBeenCalledWith('set', true);
+        });
+
+        it('notifies subscribers once per event', () => {
+            const { store, logic } = setup();
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            logic.dispatch('toggle', undefined);
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith({ on: true, presses: 1 });
+        });
+
+        it('warns and ignores events before the layer is connected', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const logic = new LogicLayerBuilder<ToggleState, ToggleEvents>().build();
+
+            logic.dispatch('set', true);
+
+            expect(warn).toHaveBeenCalledWith('Logic layer not connected. Event "set" ignored.');
+        });
+    });
+
+    describe('on', () => {
+        it('calls the listener with the payload after the state is updated', () => {
+            const { store, logic } = setup();
+            const listener = vi.fn(() => store.getState().on);
+
+            logic.on('set', listener);
+            logic.dispatch('set', true);
+
+            expect(listener).toHaveBeenCalledWith(true);
+            expect(listener).toHaveReturnedWith(true);
+        });
+
+        it('only calls the listeners of the handled event', () => {
+            const { logic } = setup();
+            const onSet = vi.fn();
+            const onToggle = vi.fn();
+            logic.on('set', onSet);
+            logic.on('toggle', onToggle);
+
+            logic.dispatch('toggle', undefined);
+
+            expect(onToggle).toHaveBeenCalledTimes(1);
+            expect(onSet).not.toHaveBeenCalled();
+        });
+
+        it('calls listeners of events without a handler', () => {
+            const { store, logic } = setup();
+            const listener = vi.fn();
+            logic.on('focus' as keyof ToggleEvents, listener);
+
+            logic.handleEvent('focus', { source: 'keyboard' });
+
+            expect(listener).toHaveBeenCalledWith({ source: 'keyboard' });
+            expect(store.getState()).toEqual({ on: false, presses: 0 });
+        });
+
+        it('passes the DOM event of interaction handlers as payload', () => {
+            const { logic } = setup();
+            const listener = vi.fn();
+            logic.on('toggle', listener);
+            const event = { type: 'click' };
+
+            logic.getInteractionHandlers('button').onClick!(event);
+
+            expect(listener).toHaveBeenCalledWith(event);
+        });
+
+        it('stops calling the listener once unsubscribed', () => {
+            const { logic } = setup();
+            const listener = vi.fn();
+            const unsubscribe = logic.on('set', listener);
+
+            unsubscribe();
+            logic.dispatch('set', true);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,306 @@
+/**
+ * Tests for store middleware
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createStore } from '../src/state.js';
+import {
+    createLoggerMiddleware,
+    createFreezeMiddleware,
+    createValidationMiddleware,
+    type StoreMiddleware,
+} from '../src/middleware.js';
+
+interface CounterState {
+    count: number;
+    label: string;
+}
+
+const initialState: CounterState = { count: 0, label: 'counter' };
+
+describe('Store middleware', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+    });
+
+    describe('pipeline', () => {
+        it('transforms the initial state with onInit', () => {
+            const store = createStore(initialState, {
+                middleware: [{ name: 'init', onInit: state => ({ ...state, count: 10 }) }],
+            });
+
+            expect(store.getState().count).toBe(10);
+        });
+
+        it('vetoes an update when onSetState does not call next', () => {
+            const listener = vi.fn();
+            const onStateChange = vi.fn();
+            const store = createStore(initialState, {
+                middleware: [
+                    {
+                        name: 'veto',
+                        onSetState: (nextState, _prevState, next) => {
+                            if (nextState.count >= 0) {
+                                next(nextState);
+                            }
+                        },
+                        onStateChange,
+                    },
+                ],
+            });
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev, count: -1 }));
+
+            expect(store.getState().count).toBe(0);
+            expect(onStateChange).not.toHaveBeenCalled();
+            expect(listener).not.toHaveBeenCalled();
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+
+            expect(store.getState().count).toBe(1);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('applies the state a middleware passes to next', () => {
+            const store = createStore(initialState, {
+                middleware: [
+                    {
+                        name: 'clamp',
+                        onSetState: (nextState, _prevState, next) => {
+                            next({ ...nextState, count: Math.min(nextState.count, 5) });
+                        },
+                    },
+                ],
+            });
+
+            store.setState(prev => ({ ...prev, count: 8 }));
+
+            expect(store.getState().count).toBe(5);
+        });
+
+        it('runs middleware in array order, each one receiving the state of the previous one', () => {
+            const calls: string[] = [];
+            const track = (name: string, transform: (count: number) => number): StoreMiddleware<CounterState> => ({
+                name,
+                onInit: state => {
+                    calls.push(`${name}:init`);
+                    return state;
+                },
+                onSetState: (nextState, _prevState, next) => {
+                    calls.push(`${name}:set:${nextState.count}`);
+                    next({ ...nextState, count: transform(nextState.count) });
+                },
+                onStateChange: () => {
+                    calls.push(`${name}:change`);
+                },
+            });
+            const store = createStore(initialState, {
+                middleware: [track('double', count => count * 2), track('increment', count => count + 1)],
+            });
+
+            store.setState(prev => ({ ...prev, count: 3 }));
+
+            expect(store.getState().count).toBe(7);
+            expect(calls).toEqual([
+                'double:init',
+                'increment:init',
+                'double:set:3',
+                'increment:set:6',
+                'double:change',
+                'increment:change',
+            ]);
+        });
+
+        it('passes the previous state to onSetState and onStateChange', () => {
+            const onSetState = vi.fn((nextState: CounterState, _prevState: CounterState, next: (state: CounterState) => void) => next(nextState));
+            const onStateChange = vi.fn();
+            const store = createStore(initialState, {
+                middleware: [{ name: 'observer', onSetState, onStateChange }],
+            });
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+
+            expect(onSetState.mock.calls[0]![1]).toBe(initialState);
+            expect(onStateChange).toHaveBeenCalledWith(store.getState(), initialState);
+        });
+
+        it('ignores further next calls from the same middleware', () => {
+            const store = createStore(initialState, {
+                middleware: [
+                    {
+                        name: 'twice',
+                        onSetState: (nextState, _prevState, next) => {
+                            next(nextState);
+                            next({ ...nextState, count: 100 });
+                        },
+                    },
+                ],
+            });
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+
+            expect(store.getState().count).toBe(1);
+        });
+
+        it('does not call onStateChange for an update the store drops as equal', () => {
+            const onStateChange = vi.fn();
+            const store = createStore(initialState, {
+                middleware: [{ name: 'observer', onStateChange }],
+            });
+
+            store.setState(prev => prev);
+
+            expect(onStateChange).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createLoggerMiddleware', () => {
+        it('logs every applied update with the keys that changed', () => {
+            const log = vi.fn();
+            const store = createStore(initialState, {
+                middleware: [createLoggerMiddleware<CounterState>({ label: 'Counter', log })],
+            });
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+
+            expect(log).toHaveBeenCalledTimes(1);
+            expect(log).toHaveBeenCalledWith(
+                '[Counter] State updated:',
+                { count: 1, label: 'counter' },
+                { prevState: initialState, changed: ['count'] }
+            );
+        });
+
+        it('logs with console.debug and the default label', () => {
+            const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+            const store = createStore(initialState, {
+                middleware: [createLoggerMiddleware<CounterState>()],
+            });
+
+            store.setState(prev => ({ ...prev, label: 'renamed' }));
+
+            expect(debug).toHaveBeenCalledWith('[Store] State updated:', expect.anything(), expect.objectContaining({ changed: ['label'] }));
+        });
+
+        it('does not log vetoed updates', () => {
+            const log = vi.fn();
+            const store = createStore(initialState, {
+                middleware: [
+                    { name: 'veto', onSetState: () => {} },
+                    createLoggerMiddleware<CounterState>({ log }),
+                ],
+            });
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+
+            expect(log).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createFreezeMiddleware', () => {
+        it('deep-freezes the initial and every next state', () => {
+            const store = createStore({ nested: { items: [1, 2] } }, {
+                middleware: [createFreezeMiddleware()],
+            });
+
+            expect(Object.isFrozen(store.getState())).toBe(true);
+            expect(Object.isFrozen(store.getState().nested.items)).toBe(true);
+
+            store.setState(prev => ({ nested: { items: [...prev.nested.items, 3] } }));
+
+            expect(Object.isFrozen(store.getState().nested)).toBe(true);
+            expect(() => {
+                (store.getState().nested.items as number[]).push(4);
+            }).toThrow(TypeError);
+        });
+
+        it('does nothing in production', () => {
+            vi.stubEnv('NODE_ENV', 'production');
+            const store = createStore({ nested: { items: [1] } }, {
+                middleware: [createFreezeMiddleware()],
+            });
+
+            store.setState(prev => ({ nested: { items: [...prev.nested.items, 2] } }));
+
+            expect(Object.isFrozen(store.getState())).toBe(false);
+            expect(store.getState().nested.items).toEqual([1, 2]);
+        });
+    });
+
+    describe('createValidationMiddleware', () => {
+        const schema = {
+            count: (value: number) => value >= 0 || 'count must not be negative',
+            label: (value: string) => value.length > 0,
+        };
+
+        it('applies valid updates', () => {
+            const store = createStore(initialState, {
+                middleware: [createValidationMiddleware<CounterState>(schema)],
+            });
+
+            store.setState(prev => ({ ...prev, count: 2 }));
+
+            expect(store.getState().count).toBe(2);
+        });
+
+        it('rejects invalid updates and warns by default', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const onError = vi.fn();
+            const store = createStore(initialState, {
+                middleware: [createValidationMiddleware<CounterState>(schema, { label: 'Counter', onError })],
+            });
+
+            store.setState({ count: -1, label: '' });
+
+            expect(store.getState()).toBe(initialState);
+            expect(onError).toHaveBeenCalledWith(
+                ['count must not be negative', 'Invalid value for "label"'],
+                { count: -1, label: '' },
+                initialState
+            );
+            expect(warn).toHaveBeenCalledWith(
+                '[Counter] Invalid state update: count must not be negative; Invalid value for "label" (update rejected)'
+            );
+        });
+
+        it('applies invalid updates with a warning in warn mode', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const store = createStore(initialState, {
+                middleware: [createValidationMiddleware<CounterState>(schema, { onInvalid: 'warn' })],
+            });
+
+            store.setState(prev => ({ ...prev, count: -1 }));
+
+            expect(store.getState().count).toBe(-1);
+            expect(warn).toHaveBeenCalledWith('[Store] Invalid state update: count must not be negative');
+        });
+
+        it('throws on invalid updates in throw mode', () => {
+            const store = createStore(initialState, {
+                middleware: [createValidationMiddleware<CounterState>(schema, { onInvalid: 'throw' })],
+            });
+
+            expect(() => store.setState(prev => ({ ...prev, count: -1 }))).toThrow(
+                '[Store] Invalid state update: count must not be negative'
+            );
+            expect(store.getState()).toBe(initialState);
+        });
+
+        it('passes the whole next state to the validators', () => {
+            const store = createStore({ min: 0, max: 10 }, {
+                middleware: [
+                    createValidationMiddleware<{ min: number; max: number }>({
+                        max: (value, state) => value >= state.min || 'max must not be below min',
+                    }),
+                ],
+            });
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            store.setState(prev => ({ ...prev, min: 20 }));
+
+            expect(store.getState()).toEqual({ min: 0, max: 10 });
+        });
+    });
+});
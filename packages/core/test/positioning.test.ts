@@ -0,0 +1,372 @@
+/**
+ * Tests for floating positioning, with mocked element rects
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    arrow,
+    autoUpdate,
+    computePosition,
+    flip,
+    hide,
+    offset,
+    shift,
+    size,
+    type Rect,
+} from '../src/positioning.js';
+
+const boundary: Rect = { x: 0, y: 0, width: 500, height: 500 };
+
+function toDOMRect(rect: Rect): DOMRect {
+    return {
+        ...rect,
+        left: rect.x,
+        top: rect.y,
+        right: rect.x + rect.width,
+        bottom: rect.y + rect.height,
+        toJSON: () => rect,
+    };
+}
+
+function mockRect(element: Element, rect: Rect) {
+    vi.spyOn(element, 'getBoundingClientRect').mockImplementation(() => toDOMRect(rect));
+}
+
+function createElement(rect: Rect, parent: Element = document.body): HTMLElement {
+    const element = document.createElement('div');
+    parent.appendChild(element);
+    mockRect(element, rect);
+    return element;
+}
+
+function createScrollContainer(rect: Rect, parent: Element = document.body): HTMLElement {
+    const container = createElement(rect, parent);
+    container.style.overflow = 'auto';
+    return container;
+}
+
+describe('positioning', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        document.body.innerHTML = '';
+    });
+
+    describe('computePosition', () => {
+        it('places the floating element on the side of the placement', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            expect(computePosition(reference, floating, { strategy: 'fixed', boundary })).toMatchObject({
+                x: 110,
+                y: 120,
+                placement: 'bottom',
+            });
+            expect(computePosition(reference, floating, { strategy: 'fixed', boundary, placement: 'top-end' })).toMatchObject({
+                x: 120,
+                y: 60,
+            });
+        });
+
+        it('runs offset, flip and shift in order', () => {
+            const reference = createElement({ x: 0, y: 440, width: 40, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const result = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [offset(8), flip(), shift()],
+            });
+
+            expect(result.placement).toBe('top');
+            expect(result.x).toBe(0);
+            expect(result.y).toBe(392);
+            expect(result.middlewareData.shift).toEqual({ x: 20, y: 0 });
+        });
+    });
+
+    describe('size', () => {
+        it('reports the space left on the side of the floating element', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 300 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [size()],
+            });
+
+            expect(middlewareData.size).toEqual({ availableWidth: 500, availableHeight: 380 });
+        });
+
+        it('keeps the padding from the boundary', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 300 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [size({ padding: 10 })],
+            });
+
+            expect(middlewareData.size).toEqual({ availableWidth: 480, availableHeight: 370 });
+        });
+
+        it('measures the width left for left and right placements', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                placement: 'right',
+                middleware: [size()],
+            });
+
+            expect(middlewareData.size).toEqual({ availableWidth: 300, availableHeight: 500 });
+        });
+
+        it('never reports negative space', () => {
+            const reference = createElement({ x: 100, y: 490, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [size()],
+            });
+
+            expect(middlewareData.size!.availableHeight).toBe(0);
+        });
+
+        it('measures the floating element again once apply resized it', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = document.createElement('div');
+            document.body.appendChild(floating);
+            let floatingRect: Rect = { x: 0, y: 0, width: 80, height: 600 };
+            vi.spyOn(floating, 'getBoundingClientRect').mockImplementation(() => toDOMRect(floatingRect));
+            const apply = vi.fn(({ availableHeight }: { availableHeight: number }) => {
+                floatingRect = { ...floatingRect, height: Math.min(floatingRect.height, availableHeight) };
+            });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [size({ apply })],
+            });
+
+            expect(apply).toHaveBeenCalledTimes(2);
+            expect(apply.mock.calls[1]![0].rects.floating.height).toBe(380);
+            expect(middlewareData.size).toEqual({ availableWidth: 500, availableHeight: 380 });
+        });
+    });
+
+    describe('arrow', () => {
+        it('points at the center of the reference', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 200, height: 40 });
+            const arrowElement = createElement({ x: 0, y: 0, width: 10, height: 10 }, floating);
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [arrow({ element: arrowElement })],
+            });
+
+            expect(middlewareData.arrow).toEqual({ x: 95, centerOffset: 0 });
+        });
+
+        it('stays inside the padding when the floating element was shifted', () => {
+            const reference = createElement({ x: 0, y: 100, width: 20, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 200, height: 40 });
+            const arrowElement = createElement({ x: 0, y: 0, width: 10, height: 10 }, floating);
+
+            const { x, middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [shift(), arrow({ element: arrowElement, padding: 8 })],
+            });
+
+            expect(x).toBe(0);
+            expect(middlewareData.arrow).toEqual({ x: 8, centerOffset: -3 });
+        });
+
+        it('positions along the y axis for left and right placements', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 100 });
+            const arrowElement = createElement({ x: 0, y: 0, width: 10, height: 10 }, floating);
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                placement: 'right-start',
+                middleware: [arrow({ element: arrowElement })],
+            });
+
+            expect(middlewareData.arrow).toEqual({ y: 5, centerOffset: 0 });
+        });
+
+        it('computes nothing while the arrow element is missing', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [arrow({ element: null })],
+            });
+
+            expect(middlewareData.arrow).toBeUndefined();
+        });
+    });
+
+    describe('hide', () => {
+        it('reports nothing hidden when both elements are in view', () => {
+            const reference = createElement({ x: 100, y: 100, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [hide()],
+            });
+
+            expect(middlewareData.hide).toEqual({ referenceHidden: false, escaped: false });
+        });
+
+        it('reports a reference scrolled out of the viewport', () => {
+            const reference = createElement({ x: 100, y: -50, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [hide()],
+            });
+
+            expect(middlewareData.hide!.referenceHidden).toBe(true);
+        });
+
+        it('reports a reference scrolled out of its scroll container', () => {
+            const container = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const reference = createElement({ x: 50, y: 250, width: 100, height: 20 }, container);
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [hide()],
+            });
+
+            expect(middlewareData.hide!.referenceHidden).toBe(true);
+        });
+
+        it('uses the context element of a virtual reference', () => {
+            const container = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+            const reference = {
+                getBoundingClientRect: () => ({ left: 50, top: 250, width: 0, height: 0 }),
+                contextElement: createElement({ x: 0, y: 0, width: 10, height: 10 }, container),
+            };
+
+            const { middlewareData } = computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [hide()],
+            });
+
+            expect(middlewareData.hide!.referenceHidden).toBe(true);
+        });
+
+        it('reports a floating element that escaped its boundary, within the padding', () => {
+            const reference = createElement({ x: 100, y: 475, width: 100, height: 20 });
+            const floating = createElement({ x: 0, y: 0, width: 80, height: 40 });
+
+            const escaped = (padding: number) => computePosition(reference, floating, {
+                strategy: 'fixed',
+                boundary,
+                middleware: [hide({ padding })],
+            }).middlewareData.hide!.escaped;
+
+            expect(escaped(0)).toBe(false);
+            expect(escaped(10)).toBe(true);
+        });
+    });
+
+    describe('autoUpdate', () => {
+        it('updates right away and when a scroll container around either element scrolls', () => {
+            const referenceContainer = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const floatingContainer = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const reference = createElement({ x: 0, y: 0, width: 20, height: 20 }, referenceContainer);
+            const floating = createElement({ x: 0, y: 0, width: 20, height: 20 }, floatingContainer);
+            const update = vi.fn();
+
+            const stop = autoUpdate(reference, floating, update, { elementResize: false });
+            expect(update).toHaveBeenCalledTimes(1);
+
+            referenceContainer.dispatchEvent(new Event('scroll'));
+            floatingContainer.dispatchEvent(new Event('scroll'));
+            window.dispatchEvent(new Event('scroll'));
+            window.dispatchEvent(new Event('resize'));
+
+            expect(update).toHaveBeenCalledTimes(5);
+            stop();
+        });
+
+        it('ignores scrolling of ancestors that do not clip', () => {
+            const wrapper = createElement({ x: 0, y: 0, width: 200, height: 200 });
+            const reference = createElement({ x: 0, y: 0, width: 20, height: 20 }, wrapper);
+            const floating = createElement({ x: 0, y: 0, width: 20, height: 20 });
+            const update = vi.fn();
+
+            const stop = autoUpdate(reference, floating, update, { elementResize: false });
+            wrapper.dispatchEvent(new Event('scroll'));
+
+            expect(update).toHaveBeenCalledTimes(1);
+            stop();
+        });
+
+        it('listens to the scroll containers of the context element of a virtual reference', () => {
+            const container = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const reference = {
+                getBoundingClientRect: () => ({ left: 0, top: 0, width: 0, height: 0 }),
+                contextElement: createElement({ x: 0, y: 0, width: 10, height: 10 }, container),
+            };
+            const floating = createElement({ x: 0, y: 0, width: 20, height: 20 });
+            const update = vi.fn();
+
+            const stop = autoUpdate(reference, floating, update, { elementResize: false });
+            container.dispatchEvent(new Event('scroll'));
+
+            expect(update).toHaveBeenCalledTimes(2);
+            stop();
+        });
+
+        it('does not listen to scrolling with ancestorScroll off', () => {
+            const container = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const reference = createElement({ x: 0, y: 0, width: 20, height: 20 }, container);
+            const floating = createElement({ x: 0, y: 0, width: 20, height: 20 });
+            const update = vi.fn();
+
+            const stop = autoUpdate(reference, floating, update, { ancestorScroll: false, elementResize: false });
+            container.dispatchEvent(new Event('scroll'));
+            window.dispatchEvent(new Event('scroll'));
+
+            expect(update).toHaveBeenCalledTimes(1);
+            stop();
+        });
+
+        it('stops listening once stopped', () => {
+            const container = createScrollContainer({ x: 0, y: 0, width: 200, height: 200 });
+            const reference = createElement({ x: 0, y: 0, width: 20, height: 20 }, container);
+            const floating = createElement({ x: 0, y: 0, width: 20, height: 20 });
+            const update = vi.fn();
+
+            autoUpdate(reference, floating, update, { elementResize: false })();
+            container.dispatchEvent(new Event('scroll'));
+            window.dispatchEvent(new Event('scroll'));
+            window.dispatchEvent(new Event('resize'));
+
+            expect(update).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for the store
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createStore, createComponentState } from '../src/state.js';
+import { shallowEqual } from '../src/equality.js';
+
+interface CounterState {
+    count: number;
+    tags: string[];
+}
+
+const initialState: CounterState = { count: 0, tags: [] };
+
+describe('Store', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('dropping updates', () => {
+        it('drops updates that return the same state', () => {
+            const store = createStore(initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => prev);
+            store.setState(initialState);
+
+            expect(store.getState()).toBe(initialState);
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('compares with Object.is by default, so copies are applied', () => {
+            const store = createStore(initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev }));
+
+            expect(store.getState()).not.toBe(initialState);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('drops updates the equalityFn reports as equal', () => {
+            const store = createStore(initialState, { equalityFn: shallowEqual });
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev }));
+
+            expect(store.getState()).toBe(initialState);
+            expect(listener).not.toHaveBeenCalled();
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+
+            expect(store.getState().count).toBe(1);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('compares component state shallowly by default', () => {
+            const store = createComponentState('Counter', initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev }));
+
+            expect(store.getState()).toBe(initialState);
+            expect(listener).not.toHaveBeenCalled();
+
+            store.setState(prev => ({ ...prev, tags: [...prev.tags] }));
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('uses the equalityFn passed to component state', () => {
+            const store = createComponentState('Counter', initialState, { equalityFn: Object.is });
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev }));
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('batch', () => {
+        it('notifies subscribers once, after the batch', () => {
+            const store = createStore(initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.batch(() => {
+                store.setState(prev => ({ ...prev, count: 1 }));
+                store.setState(prev => ({ ...prev, count: 2 }));
+
+                expect(store.getState().count).toBe(2);
+                expect(listener).not.toHaveBeenCalled();
+            });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith({ count: 2, tags: [] });
+        });
+
+        it('notifies once for nested batches, when the outermost one ends', () => {
+            const store = createStore(initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.batch(() => {
+                store.batch(() => {
+                    store.setState(prev => ({ ...prev, count: 1 }));
+                });
+                expect(listener).not.toHaveBeenCalled();
+                store.setState(prev => ({ ...prev, count: 2 }));
+            });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('notifies nobody when the updates of a batch cancel each other out', () => {
+            const store = createStore(initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.batch(() => {
+                store.setState(prev => ({ ...prev, count: 1 }));
+                store.setState(initialState);
+            });
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('notifies for the updates made before a batch throws', () => {
+            const store = createStore(initialState);
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            expect(() => store.batch(() => {
+                store.setState(prev => ({ ...prev, count: 1 }));
+                throw new Error('failed');
+            })).toThrow('failed');
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('microtask scheduling', () => {
+        it('notifies once for all updates made before the next microtask', async () => {
+            const store = createStore(initialState, { scheduling: 'microtask' });
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+            store.setState(prev => ({ ...prev, count: 2 }));
+
+            expect(store.getState().count).toBe(2);
+            expect(listener).not.toHaveBeenCalled();
+
+            await Promise.resolve();
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith({ count: 2, tags: [] });
+        });
+
+        it('schedules a new notification for updates after a flush', async () => {
+            const store = createStore(initialState, { scheduling: 'microtask' });
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+            await Promise.resolve();
+            store.setState(prev => ({ ...prev, count: 2 }));
+            await Promise.resolve();
+
+            expect(listener.mock.calls.map(([state]) => state.count)).toEqual([1, 2]);
+        });
+
+        it('notifies nobody when the updates before the microtask cancel each other out', async () => {
+            const store = createStore(initialState, { scheduling: 'microtask' });
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.setState(prev => ({ ...prev, count: 1 }));
+            store.setState(initialState);
+            await Promise.resolve();
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('waits for the microtask after a batch ends', async () => {
+            const store = createStore(initialState, { scheduling: 'microtask' });
+            const listener = vi.fn();
+            store.subscribe(listener);
+
+            store.batch(() => {
+                store.setState(prev => ({ ...prev, count: 1 }));
+            });
+
+            expect(listener).not.toHaveBeenCalled();
+
+            await Promise.resolve();
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+});
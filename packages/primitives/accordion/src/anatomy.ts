@@ -0,0 +1,64 @@
+/**
+ * Accordion Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { AccordionState } from './types.js';
+
+/**
+ * One section per item: a trigger button and the panel it expands
+ */
+export const accordionAnatomy: ComponentAnatomy<AccordionState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: () => ({
+                style: { display: 'flex', flexDirection: 'column', gap: '8px' },
+            }),
+        },
+        item: {
+            element: 'div',
+            items: ({ state }) => state.items,
+            props: ({ state, item }) => ({
+                'data-state': state.expandedItems.includes(item.id) ? 'open' : 'closed',
+                'data-disabled': state.disabled || item.disabled || undefined,
+            }),
+        },
+        trigger: {
+            element: 'button',
+            parent: 'item',
+            a11yArgument: ({ item }) => item.id,
+            text: ({ item }) => item.title ?? item.id,
+            props: ({ state, item }) => ({
+                type: 'button',
+                id: `trigger-${item.id}`,
+                // Trigger handlers read the item id from the dataset
+                'data-item-id': item.id,
+                disabled: state.disabled || item.disabled || undefined,
+                style: {
+                    width: '100%',
+                    padding: '12px 16px',
+                    textAlign: 'left',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '4px',
+                    backgroundColor: state.expandedItems.includes(item.id) ? '#eff6ff' : '#f9fafb',
+                    cursor: state.disabled || item.disabled ? 'not-allowed' : 'pointer',
+                },
+            }),
+        },
+        panel: {
+            element: 'div',
+            parent: 'item',
+            a11yArgument: ({ item }) => item.id,
+            text: ({ item }) => item.content,
+            props: ({ state, item }) => ({
+                hidden: !state.expandedItems.includes(item.id) || undefined,
+                style: { padding: '12px 16px' },
+            }),
+        },
+    },
+    bindings: {
+        expandedItems: 'expandedItems',
+    },
+};
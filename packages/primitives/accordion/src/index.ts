@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createAccordionState } from './state.js';
 import { createAccordionLogic } from './logic.js';
+import { accordionAnatomy } from './anatomy.js';
 import type { AccordionOptions, AccordionState, AccordionEvents } from './types.js';
 
 /**
@@ -17,6 +18,7 @@ export function createAccordion(options: AccordionOptions = {}) {
     return createPrimitive<AccordionState, AccordionEvents, AccordionOptions>('Accordion', {
         initialState: options,
         logicConfig: options,
+        anatomy: accordionAnatomy,
         metadata: {
             accessibility: {
                 roles: ['region', 'button'],
@@ -48,6 +50,10 @@ export function createAccordionWithImplementation(options: AccordionOptions = {}
     core.state = createAccordionState(options);
     core.logic = createAccordionLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -62,6 +68,7 @@ export type {
 
 export type { AccordionStateStore } from './state.js';
 export type { AccordionLogic } from './logic.js';
+export { accordionAnatomy } from './anatomy.js';
 
 // Default export for convenience
 export default createAccordionWithImplementation;
\ No newline at end of file
@@ -68,8 +68,8 @@ describe('Accordion Logic', () => {
     });
     
     it('should not toggle disabled items', () => {
-        // First clear any previous state changes
         const listener = vi.fn();
+        stateStore.subscribe(listener);
         
         // Try to toggle disabled item
         logic.handleEvent('itemToggle', { 
@@ -77,14 +77,8 @@ describe('Accordion Logic', () => {
             expanded: true 
         });
         
-        // Subscribe after the event to check if state changed
-        stateStore.subscribe(listener);
-        stateStore.setState((prev) => ({ ...prev }));
-        
         // Item3 should still be collapsed
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
-            expandedItems: []
-        }));
+        expect(listener).not.toHaveBeenCalled();
         expect(mockOnItemToggle).not.toHaveBeenCalled();
     });
     
@@ -136,29 +130,21 @@ describe('Accordion Logic', () => {
             onItemToggle: mockOnItemToggle
         });
         
+        const listener = vi.fn();
+        state.subscribe(listener);
+        
         // Expand first item
         state.expandItem('item1');
         
         // Expand second item should collapse first
         state.expandItem('item2');
         
-        const listener = vi.fn();
-        state.subscribe(listener);
-        state.setState((prev) => ({ ...prev }));
-        
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
             expandedItems: ['item2']
         }));
     });
     
     it('should provide correct a11y props for root', () => {
-        const listener = vi.fn();
-        stateStore.subscribe(listener);
-        
-        // Get initial state from subscription
-        stateStore.setState((prev) => ({ ...prev }));
-        const currentState = listener.mock.calls[0][0];
-        
         const props = logic.getA11yProps('root');
         
         expect(props).toEqual({
@@ -169,11 +155,6 @@ describe('Accordion Logic', () => {
         // Update state and check again
         stateStore.setDisabled(true);
         
-        // Get updated state
-        listener.mockClear();
-        stateStore.setState((prev) => ({ ...prev }));
-        const disabledState = listener.mock.calls[0][0];
-        
         const updatedProps = logic.getA11yProps('root');
         expect(updatedProps).toEqual({
             role: 'region',
@@ -182,17 +163,9 @@ describe('Accordion Logic', () => {
     });
     
     it('should provide correct a11y props for trigger', () => {
-        const listener = vi.fn();
-        stateStore.subscribe(listener);
-        
         // Expand item1
         stateStore.expandItem('item1');
         
-        // Get current state
-        listener.mockClear();
-        stateStore.setState((prev) => ({ ...prev }));
-        const currentState = listener.mock.calls[0][0];
-        
         // The trigger a11y props returns a function that takes itemId
         const triggerPropsFunc = logic.getA11yProps('trigger');
         const triggerProps = triggerPropsFunc('item1');
@@ -2,9 +2,11 @@
  * Accordion State Tests
  * 
  * 🚨 CRITICAL: Testing Pattern Rules
- * ❌ NEVER use state.getState() for verification
+ * ❌ NEVER use state.getState() to verify updates
  * ✅ ALWAYS use subscription pattern: state.subscribe(listener)
  * ✅ ALWAYS verify via listener calls: expect(listener).toHaveBeenCalledWith()
+ * ✅ Read the initial state with state.getState(): updates that leave the
+ *    state shallowly equal notify nobody
  * 
  * This prevents infinite loops and ensures proper reactive testing
  */
@@ -16,15 +18,8 @@ import type { AccordionOptions } from './types';
 describe('Accordion State', () => {
     it('should create state with default values', () => {
         const state = createAccordionState({});
-        const listener = vi.fn();
-        
-        // Subscribe to verify initial state
-        state.subscribe(listener);
-        
-        // Trigger a state update to see the full state structure
-        state.setState((prev) => ({ ...prev }));
         
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             items: [],
             expandedItems: [],
             multiple: false,
@@ -44,13 +39,8 @@ describe('Accordion State', () => {
         };
         
         const state = createAccordionState(options);
-        const listener = vi.fn();
-        
-        // Subscribe and trigger update to verify state
-        state.subscribe(listener);
-        state.setState((prev) => ({ ...prev }));
         
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             items: [
                 { id: 'item1', expanded: true, disabled: false },
                 { id: 'item2', expanded: false, disabled: true }
@@ -280,19 +270,8 @@ describe('Accordion State', () => {
         // Try to expand disabled item
         state.expandItem('item1');
         
-        // Verify the state hasn't changed - do a dummy update to check
-        state.setState((prev) => ({ ...prev }));
-        
         // Should still be collapsed
-        expect(listener).toHaveBeenCalledWith({
-            items: [
-                { id: 'item1', expanded: false, disabled: true }
-            ],
-            expandedItems: [],
-            multiple: false,
-            focusedItem: null,
-            disabled: false
-        });
+        expect(listener).not.toHaveBeenCalled();
     });
     
     it('should support derived state for checking expansion', () => {
@@ -12,7 +12,7 @@ import type { AccordionState, AccordionOptions, AccordionItem } from './types.js
 export function createAccordionState(options: AccordionOptions) {
     // Initialize items from options
     const items: AccordionItem[] = options.items?.map(item => ({
-        id: item.id,
+        ...item,
         expanded: item.expanded || options.expandedItems?.includes(item.id) || false,
         disabled: item.disabled || false
     })) || [];
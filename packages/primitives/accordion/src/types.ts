@@ -21,6 +21,16 @@ export interface AccordionItem {
      * Whether this item is disabled
      */
     disabled?: boolean;
+    
+    /**
+     * Trigger text, the item id when omitted
+     */
+    title?: string;
+    
+    /**
+     * Panel content
+     */
+    content?: string;
 }
 
 /**
@@ -64,6 +74,8 @@ export interface AccordionOptions {
         id: string;
         expanded?: boolean;
         disabled?: boolean;
+        title?: string;
+        content?: string;
     }>;
     
     /**
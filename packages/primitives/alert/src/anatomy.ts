@@ -0,0 +1,62 @@
+/**
+ * Alert Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { AlertState } from './types';
+
+const variantIcons = {
+    info: 'ℹ️',
+    success: '✅',
+    warning: '⚠️',
+    error: '❌',
+};
+
+/**
+ * Icon, title and message, followed by the close button of dismissible alerts
+ */
+export const alertAnatomy: ComponentAnatomy<AlertState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: ({ state }) => ({
+                'data-variant': state.variant,
+                'data-state': state.dismissing ? 'dismissing' : undefined,
+                hidden: !state.visible || undefined,
+                style: { display: 'flex', alignItems: 'flex-start', gap: '12px' },
+            }),
+        },
+        icon: {
+            element: 'span',
+            when: ({ state }) => state.showIcon,
+            text: ({ state }) => variantIcons[state.variant],
+            props: () => ({ 'aria-hidden': 'true' }),
+        },
+        content: {
+            element: 'div',
+            props: () => ({ style: { flex: '1' } }),
+        },
+        title: {
+            element: 'h4',
+            parent: 'content',
+            when: ({ state }) => Boolean(state.title),
+            text: ({ state }) => state.title,
+        },
+        message: {
+            element: 'div',
+            parent: 'content',
+            // The children are the message when the state has none
+            text: ({ state }) => state.message || undefined,
+            slot: true,
+        },
+        closeButton: {
+            element: 'button',
+            when: ({ state }) => state.dismissible,
+            text: () => '×',
+        },
+    },
+    bindings: {
+        visible: 'visible',
+    },
+};
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createAlertState } from './state';
 import { createAlertLogic } from './logic';
+import { alertAnatomy } from './anatomy';
 import type { AlertOptions, AlertState, AlertEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createAlert(options: AlertOptions = {}) {
     return createPrimitive<AlertState, AlertEvents, AlertOptions>('Alert', {
         initialState: options,
         logicConfig: options,
+        anatomy: alertAnatomy,
         metadata: {
             accessibility: {
                 role: 'alert',
@@ -63,6 +65,10 @@ export function createAlertWithImplementation(options: AlertOptions = {}) {
     core.state = createAlertState(options);
     core.logic = createAlertLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -76,6 +82,7 @@ export type {
 } from './types';
 
 export type { AlertStateStore } from './state';
+export { alertAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createAlertWithImplementation;
\ No newline at end of file
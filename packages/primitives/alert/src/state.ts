@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { AlertState, AlertOptions, AlertVariant } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface AlertStateStore {
     getState: () => AlertState;
     setState: (updates: Partial<AlertState>) => void;
     subscribe: (listener: (state: AlertState) => void) => () => void;
+    select: <U>(selector: (state: AlertState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: AlertState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
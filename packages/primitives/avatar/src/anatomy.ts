@@ -0,0 +1,53 @@
+/**
+ * Avatar Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { AvatarState } from './types';
+
+const sizes = { xs: 24, sm: 32, md: 40, lg: 48, xl: 64 };
+
+/**
+ * Whether the image can be shown, i.e. it has a source that did not fail to load
+ */
+const showsImage = (state: AvatarState) => state.variant === 'image' && Boolean(state.src) && !state.error;
+
+/**
+ * The image, or the initials or icon standing in for it
+ */
+export const avatarAnatomy: ComponentAnatomy<AvatarState> = {
+    parts: {
+        root: {
+            element: 'span',
+            props: ({ state }) => ({
+                'data-variant': state.variant,
+                'data-state': state.loading ? 'loading' : state.error ? 'error' : undefined,
+                style: {
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    overflow: 'hidden',
+                    width: sizes[state.size] ?? sizes.md,
+                    height: sizes[state.size] ?? sizes.md,
+                    borderRadius: state.shape === 'square' ? '4px' : '50%',
+                    backgroundColor: '#e5e7eb',
+                },
+            }),
+        },
+        image: {
+            element: 'img',
+            when: ({ state }) => showsImage(state),
+            props: ({ state }) => ({
+                src: state.src,
+                style: { width: '100%', height: '100%', objectFit: 'cover' },
+            }),
+        },
+        fallback: {
+            element: 'span',
+            when: ({ state }) => !showsImage(state),
+            text: ({ state }) => state.initials || state.icon || '?',
+            props: () => ({ 'aria-hidden': 'true' }),
+        },
+    },
+};
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createAvatarState } from './state';
 import { createAvatarLogic } from './logic';
+import { avatarAnatomy } from './anatomy';
 import type { AvatarOptions, AvatarState, AvatarEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createAvatar(options: AvatarOptions = {}) {
     return createPrimitive<AvatarState, AvatarEvents, AvatarOptions>('Avatar', {
         initialState: options,
         logicConfig: options,
+        anatomy: avatarAnatomy,
         metadata: {
             accessibility: {
                 role: 'img',
@@ -59,6 +61,10 @@ export function createAvatarWithImplementation(options: AvatarOptions = {}) {
     core.state = createAvatarState(options);
     core.logic = createAvatarLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -74,6 +80,7 @@ export type {
 } from './types';
 
 export type { AvatarStateStore } from './state';
+export { avatarAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createAvatarWithImplementation;
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { AvatarState, AvatarOptions, AvatarVariant, AvatarSize, AvatarShape } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface AvatarStateStore {
     getState: () => AvatarState;
     setState: (updates: Partial<AvatarState>) => void;
     subscribe: (listener: (state: AvatarState) => void) => () => void;
+    select: <U>(selector: (state: AvatarState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: AvatarState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
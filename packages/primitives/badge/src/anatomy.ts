@@ -0,0 +1,56 @@
+/**
+ * Badge Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { BadgeState } from './types';
+
+/**
+ * Content shown by the badge: none for dots, capped at `max` for numbers
+ */
+function getDisplayContent(state: BadgeState): string | undefined {
+    if (state.type === 'dot') {
+        return undefined;
+    }
+    if (state.type === 'numeric' && typeof state.content === 'number' && state.max && state.content > state.max) {
+        return `${state.max}+`;
+    }
+    return String(state.content ?? '');
+}
+
+/**
+ * Whether the badge is shown, hiding zero and empty content unless asked otherwise
+ */
+function isShown(state: BadgeState): boolean {
+    if (!state.visible) {
+        return false;
+    }
+    if (state.content === 0 || state.content === '0') {
+        return state.showZero;
+    }
+    return state.content !== '' || state.type === 'dot';
+}
+
+/**
+ * A single element holding the badge content
+ */
+export const badgeAnatomy: ComponentAnatomy<BadgeState> = {
+    parts: {
+        root: {
+            element: 'span',
+            text: ({ state }) => getDisplayContent(state),
+            props: ({ state }) => ({
+                'data-variant': state.variant,
+                'data-type': state.type,
+                hidden: !isShown(state) || undefined,
+                style: state.type === 'dot'
+                    ? { display: 'inline-block', width: '8px', height: '8px', borderRadius: '50%' }
+                    : { display: 'inline-flex', alignItems: 'center', padding: '0 6px', borderRadius: '10px', fontSize: '12px' },
+            }),
+        },
+    },
+    bindings: {
+        content: 'content',
+    },
+};
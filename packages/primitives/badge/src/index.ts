@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createBadgeState } from './state';
 import { createBadgeLogic } from './logic';
+import { badgeAnatomy } from './anatomy';
 import type { BadgeOptions, BadgeState, BadgeEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createBadge(options: BadgeOptions = {}) {
     return createPrimitive<BadgeState, BadgeEvents, BadgeOptions>('Badge', {
         initialState: options,
         logicConfig: options,
+        anatomy: badgeAnatomy,
         metadata: {
             accessibility: {
                 role: 'status',
@@ -57,6 +59,10 @@ export function createBadgeWithImplementation(options: BadgeOptions = {}) {
     core.state = createBadgeState(options);
     core.logic = createBadgeLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -71,6 +77,7 @@ export type {
 } from './types';
 
 export type { BadgeStateStore } from './state';
+export { badgeAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createBadgeWithImplementation;
\ No newline at end of file
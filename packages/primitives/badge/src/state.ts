@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { BadgeState, BadgeOptions, BadgeVariant, BadgeType } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface BadgeStateStore {
     getState: () => BadgeState;
     setState: (updates: Partial<BadgeState>) => void;
     subscribe: (listener: (state: BadgeState) => void) => () => void;
+    select: <U>(selector: (state: BadgeState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: BadgeState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -0,0 +1,56 @@
+/**
+ * Breadcrumb Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { BreadcrumbState } from './types';
+import { getDisplayedItems, getItemA11yProps, getLinkA11yProps } from './logic';
+
+/**
+ * Ordered list of links, with a separator between consecutive items
+ */
+export const breadcrumbAnatomy: ComponentAnatomy<BreadcrumbState> = {
+    parts: {
+        root: {
+            element: 'nav',
+        },
+        list: {
+            element: 'ol',
+            props: () => ({
+                style: { display: 'flex', alignItems: 'center', listStyle: 'none', margin: '0', padding: '0' },
+            }),
+        },
+        item: {
+            element: 'li',
+            parent: 'list',
+            items: ({ state }) => getDisplayedItems(state),
+            key: ({ item, index }) => item.id === '...' ? `ellipsis-${index}` : item.id,
+            props: ({ state, index = 0 }) => ({
+                ...getItemA11yProps(state, index),
+                style: { display: 'flex', alignItems: 'center' },
+            }),
+        },
+        link: {
+            element: 'a',
+            parent: 'item',
+            text: ({ item }) => item.label,
+            // Link handlers read the item position from the event
+            event: ({ index }) => ({ index }),
+            props: ({ state, index = 0 }) => getLinkA11yProps(state, index),
+        },
+        separator: {
+            element: 'span',
+            parent: 'item',
+            when: ({ state, index = 0 }) => index < getDisplayedItems(state).length - 1,
+            text: ({ state }) => state.separator,
+            props: () => ({
+                'aria-hidden': 'true',
+                style: { margin: '0 8px' },
+            }),
+        },
+    },
+    bindings: {
+        items: 'items',
+    },
+};
@@ -5,6 +5,7 @@
 
 import { createBreadcrumbState } from './state';
 import { createBreadcrumbLogic } from './logic';
+import { breadcrumbAnatomy } from './anatomy';
 import type { BreadcrumbState, BreadcrumbEvents, BreadcrumbOptions } from './types';
 import type { ComponentCore } from '@stellarix-ui/core';
 
@@ -28,6 +29,7 @@ export function createBreadcrumb(
         state,
         logic,
         options, // Store options for adapter access
+        anatomy: breadcrumbAnatomy,
         metadata: {
             name: 'Breadcrumb',
             version: '1.0.0',
@@ -95,4 +97,5 @@ export type {
 
 // Re-export state and logic creators for advanced use cases
 export { createBreadcrumbState } from './state';
-export { createBreadcrumbLogic } from './logic';
\ No newline at end of file
+export { createBreadcrumbLogic } from './logic';
+export { breadcrumbAnatomy } from './anatomy';
\ No newline at end of file
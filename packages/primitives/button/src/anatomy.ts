@@ -0,0 +1,20 @@
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { ButtonState } from './types.js';
+
+/**
+ * Render contract of the button: a single native button
+ */
+export const buttonAnatomy: ComponentAnatomy<ButtonState> = {
+    parts: {
+        root: {
+            element: 'button',
+            slot: true,
+            props: ({ state, props }) => ({
+                role: 'button',
+                type: props.type || 'button',
+                // A loading button cannot be activated either
+                disabled: state.disabled || state.loading || undefined,
+            }),
+        },
+    },
+};
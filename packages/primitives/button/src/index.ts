@@ -1,12 +1,14 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createButtonState } from './state.js';
 import { createButtonLogic } from './logic.js';
+import { buttonAnatomy } from './anatomy.js';
 import type { ButtonOptions, ButtonState, ButtonEvents } from './types.js';
 
 export function createButton(options: ButtonOptions = {}) {
     return createPrimitive<ButtonState, ButtonEvents, ButtonOptions>('Button', {
         initialState: options,
         logicConfig: options,
+        anatomy: buttonAnatomy,
         metadata: {
             accessibility: {
                 role: 'button',
@@ -54,6 +56,7 @@ export const createButtonFactory = createButtonWithImplementation;
 // Re-export types
 export type { ButtonOptions, ButtonState, ButtonEvents, ButtonProps } from './types.js';
 export type { ButtonStateStore } from './state.js';
+export { buttonAnatomy } from './anatomy.js';
 
 // Default export for convenience
 export default createButtonWithImplementation;
\ No newline at end of file
@@ -7,8 +7,7 @@
  * ✅ Call state setters directly
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
-import { generateComponentId } from '@stellarix-ui/utils';
+import { LogicLayerBuilder, createComponentId } from '@stellarix-ui/core';
 import type { ButtonState, ButtonEvents, ButtonOptions } from './types.js';
 import type { ButtonStateStore } from './state.js';
 
@@ -16,7 +15,7 @@ export function createButtonLogic(
     state: ButtonStateStore,
     options: ButtonOptions = {}
 ) {
-    const componentId = generateComponentId('button');
+    const componentId = createComponentId('button');
     
     return new LogicLayerBuilder<ButtonState, ButtonEvents>()
         .onEvent('click', (_currentState, payload: any) => {
@@ -4,14 +4,8 @@ import { createButtonState } from './state.js';
 describe('Button State', () => {
     it('should create button state with default values', () => {
         const state = createButtonState({});
-        const listener = vi.fn();
-        
-        // Subscribe and trigger updates to verify state
-        state.subscribe(listener);
-        state.setPressed(false); // Trigger subscription
         
-        // Button state uses correct spread operator, so we get full state
-        const receivedState = listener.mock.calls[0][0];
+        const receivedState = state.getState();
         expect(receivedState.pressed).toBe(false);
         expect(receivedState.focused).toBe(false);
         expect(receivedState.disabled).toBe(false);
@@ -95,12 +89,7 @@ describe('Button State', () => {
             loading: false
         });
         
-        const listener = vi.fn();
-        state.subscribe(listener);
-        state.setDisabled(true); // Trigger subscription with same value
-        
-        // Button state uses correct spread operator, so we get full state
-        const receivedState = listener.mock.calls[0][0];
+        const receivedState = state.getState();
         expect(receivedState.variant).toBe('primary');
         expect(receivedState.size).toBe('lg');
         expect(receivedState.disabled).toBe(true);
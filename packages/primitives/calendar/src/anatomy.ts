@@ -0,0 +1,148 @@
+/**
+ * Calendar Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { comparePlainDates, getWeekdayNames, toPlainDate } from '@stellarix-ui/utils';
+import { getCalendarFormatters } from './logic';
+import type { CalendarDay, CalendarOptions, CalendarState } from './types';
+
+/**
+ * Splits the 42 days of the grid into weeks
+ */
+function getWeeks(days: CalendarDay[]): CalendarDay[][] {
+    const weeks: CalendarDay[][] = [];
+    for (let i = 0; i < days.length; i += 7) {
+        weeks.push(days.slice(i, i + 7));
+    }
+    return weeks;
+}
+
+/**
+ * Creates the calendar anatomy: a header to move between months, then the
+ * grid of days with a row of weekday names
+ * @param options Component options, for the locale, time zone and formatters
+ */
+export function createCalendarAnatomy(options: CalendarOptions = {}): ComponentAnatomy<CalendarState> {
+    const locale = options.locale || 'en-US';
+    const { formatDay, formatMonth } = getCalendarFormatters(options);
+    const isSameDay = (a: Date, b: Date) =>
+        comparePlainDates(toPlainDate(a, options.timeZone), toPlainDate(b, options.timeZone)) === 0;
+
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: () => ({
+                    style: { display: 'inline-block' },
+                }),
+            },
+            header: {
+                element: 'div',
+                props: () => ({
+                    style: { display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' },
+                }),
+            },
+            prevMonth: {
+                element: 'button',
+                parent: 'header',
+                text: () => '‹',
+                props: ({ state }) => ({
+                    type: 'button',
+                    'aria-label': 'Previous month',
+                    disabled: state.disabled || undefined,
+                }),
+            },
+            monthYearButton: {
+                element: 'button',
+                parent: 'header',
+                text: ({ state }) => formatMonth(state.displayMonth, state.displayYear),
+                props: ({ state }) => ({
+                    type: 'button',
+                    disabled: state.disabled || undefined,
+                }),
+            },
+            nextMonth: {
+                element: 'button',
+                parent: 'header',
+                text: () => '›',
+                props: ({ state }) => ({
+                    type: 'button',
+                    'aria-label': 'Next month',
+                    disabled: state.disabled || undefined,
+                }),
+            },
+            grid: {
+                element: 'table',
+                props: () => ({
+                    style: { borderCollapse: 'collapse' },
+                }),
+            },
+            head: {
+                element: 'thead',
+                parent: 'grid',
+            },
+            weekdays: {
+                element: 'tr',
+                parent: 'head',
+            },
+            weekday: {
+                element: 'th',
+                parent: 'weekdays',
+                items: () => getWeekdayNames(locale, 'short', options.firstDayOfWeek ?? 0),
+                text: ({ item }) => item,
+                props: () => ({ scope: 'col' }),
+            },
+            body: {
+                element: 'tbody',
+                parent: 'grid',
+            },
+            week: {
+                element: 'tr',
+                parent: 'body',
+                items: ({ state }) => getWeeks(state.days),
+            },
+            day: {
+                element: 'td',
+                parent: 'week',
+                items: ({ item }) => item,
+                key: ({ item }) => `${item.year}-${item.month}-${item.day}`,
+                text: ({ item }) => formatDay(item.date),
+                props: ({ state, item }) => {
+                    const day = item as CalendarDay;
+                    const isFocused = isSameDay(day.date, state.focusedDate);
+
+                    return {
+                        role: 'gridcell',
+                        // Day click handlers read the day of the displayed month from here
+                        'data-day': day.isOutsideMonth ? undefined : String(day.day),
+                        'data-today': day.isToday || undefined,
+                        'data-outside-month': day.isOutsideMonth || undefined,
+                        'aria-selected': day.isSelected ? 'true' : 'false',
+                        'aria-current': isFocused ? 'date' : undefined,
+                        'aria-disabled': day.isDisabled ? 'true' : undefined,
+                        'aria-label': day.date.toLocaleDateString(locale, {
+                            weekday: 'long',
+                            year: 'numeric',
+                            month: 'long',
+                            day: 'numeric',
+                            ...(options.timeZone ? { timeZone: options.timeZone } : {}),
+                            ...(options.calendar ? { calendar: options.calendar } : {})
+                        }),
+                        tabIndex: isFocused ? 0 : -1,
+                        style: {
+                            padding: '4px',
+                            textAlign: 'center',
+                            opacity: day.isOutsideMonth || day.isDisabled ? 0.4 : 1,
+                            cursor: day.isDisabled || day.isOutsideMonth ? 'default' : 'pointer',
+                        },
+                    };
+                },
+            },
+        },
+        bindings: {
+            value: 'selectedDate',
+        },
+    };
+}
@@ -3,8 +3,10 @@
  * Main entry point and public API
  */
 
-import { createCalendarState } from './state';
-import { createCalendarLogic } from './logic';
+import { createCalendarState, calendarSnapshotFormat } from './state';
+import { createCalendarLogic, getCalendarFormatters } from './logic';
+import { createCalendarAnatomy } from './anatomy';
+import { getWeekdayNames, type DateNameWidth } from '@stellarix-ui/utils';
 import type { CalendarOptions, CalendarState, CalendarEvents } from './types';
 import type { ComponentCore } from '@stellarix-ui/core';
 import type { CalendarStateStore } from './state';
@@ -23,6 +25,9 @@ export interface CalendarHelpers {
     isDateSelected: (date: Date) => boolean;
     isDateDisabled: (date: Date) => boolean;
     isDateToday: (date: Date) => boolean;
+    formatDay: (date: Date) => string;
+    formatMonth: (month: number, year: number) => string;
+    getWeekdayNames: (width?: DateNameWidth) => string[];
 }
 
 /**
@@ -35,6 +40,7 @@ export function createCalendar(
 ): ComponentCore<CalendarState, CalendarEvents> & CalendarHelpers {
     const state = createCalendarState(options);
     const logic = createCalendarLogic(state, options);
+    const { formatDay, formatMonth } = getCalendarFormatters(options);
     
     // Connect logic to state
     logic.connect(state);
@@ -51,14 +57,21 @@ export function createCalendar(
         isDateSelected: (date: Date) => state.isDateSelected(date),
         isDateDisabled: (date: Date) => state.isDateDisabled(date),
         isDateToday: (date: Date) => state.isDateToday(date),
+        formatDay,
+        formatMonth,
+        // Column headers, starting at the first day of the week
+        getWeekdayNames: (width: DateNameWidth = 'short') =>
+            getWeekdayNames(options.locale || 'en-US', width, options.firstDayOfWeek ?? 0),
     };
     
     return {
         state,
         logic,
+        anatomy: createCalendarAnatomy(options),
         metadata: {
             name: 'Calendar',
             version: '1.0.0',
+            snapshot: calendarSnapshotFormat,
             accessibility: {
                 role: 'application',
                 keyboardShortcuts: [
@@ -124,7 +137,8 @@ export function createCalendar(
                 logic,
                 metadata: {
                     name: 'Calendar',
-                    version: '1.0.0'
+                    version: '1.0.0',
+                    snapshot: calendarSnapshotFormat
                 }
             });
         },
@@ -145,6 +159,9 @@ export type {
 } from './types';
 
 export type { CalendarStateStore } from './state';
+export { calendarSnapshotFormat } from './state';
+export { getCalendarFormatters } from './logic';
+export { createCalendarAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createCalendar;
\ No newline at end of file
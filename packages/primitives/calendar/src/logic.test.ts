@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createCalendarLogic } from './logic';
+import { createCalendarLogic, getCalendarFormatters } from './logic';
 import { createCalendarState } from './state';
 import type { CalendarOptions } from './types';
 
@@ -119,6 +119,54 @@ describe('Calendar Logic', () => {
         });
     });
     
+    it('should label months in the locale', () => {
+        const options: CalendarOptions = { locale: 'fr-FR', value: new Date(2024, 5, 15) };
+        const store = createCalendarState(options);
+        const calendarLogic = createCalendarLogic(store, options);
+        calendarLogic.connect(store);
+        calendarLogic.initialize();
+        
+        expect(calendarLogic.getA11yProps('grid')['aria-label']).toBe('juin 2024');
+        expect(getCalendarFormatters(options).formatDay(new Date(2024, 5, 15))).toBe('15');
+    });
+    
+    it('should prefer custom month labels', () => {
+        const options: CalendarOptions = {
+            value: new Date(2024, 5, 15),
+            formatMonth: (month, year) => `${month + 1}/${year}`
+        };
+        const store = createCalendarState(options);
+        const calendarLogic = createCalendarLogic(store, options);
+        calendarLogic.connect(store);
+        calendarLogic.initialize();
+        
+        expect(calendarLogic.getA11yProps('root')['aria-label']).toBe('Calendar, 6/2024');
+    });
+    
+    it('should label months of the calendar system', () => {
+        const options: CalendarOptions = { calendar: 'hebrew', value: new Date(2024, 2, 11) };
+        const store = createCalendarState(options);
+        const calendarLogic = createCalendarLogic(store, options);
+        calendarLogic.connect(store);
+        calendarLogic.initialize();
+        
+        expect(calendarLogic.getA11yProps('grid')['aria-label']).toBe('Adar II 5784');
+    });
+    
+    it('should move focus by months of the calendar system', () => {
+        const options: CalendarOptions = { calendar: 'islamic-umalqura', value: new Date(2025, 2, 1) };
+        const store = createCalendarState(options);
+        const calendarLogic = createCalendarLogic(store, options);
+        calendarLogic.connect(store);
+        calendarLogic.initialize();
+        
+        // 1 Ramadan 1446 to 1 Shawwal 1446
+        calendarLogic.getInteractionHandlers('root').onKeyDown?.(new KeyboardEvent('keydown', { key: 'PageDown' }));
+        
+        expect(store.getCalendarDate(store.getState().focusedDate)).toEqual({ year: 1446, month: 10, day: 1 });
+        expect(store.getState()).toMatchObject({ displayMonth: 9, displayYear: 1446 });
+    });
+    
     it('should provide navigation interaction handlers', () => {
         const prevHandlers = logic.getInteractionHandlers('prevMonth');
         const nextHandlers = logic.getInteractionHandlers('nextMonth');
@@ -5,9 +5,51 @@
 
 import { LogicLayerBuilder } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
+import {
+    addCalendarMonths,
+    formatCalendarDate,
+    formatDayOfMonth,
+    formatMonthYear,
+    getCalendarSystem,
+    toPlainDate,
+    type CalendarDate,
+} from '@stellarix-ui/utils';
 import type { CalendarState, CalendarEvents, CalendarOptions } from './types';
 import type { CalendarStateStore } from './state';
 
+/**
+ * Day and month label formatters: the custom ones from the options, or
+ * ones writing the day and month the way the locale does, in the time
+ * zone and calendar system of the options when they are set
+ * @param options Component options
+ */
+export function getCalendarFormatters(options: CalendarOptions = {}) {
+    const locale = options.locale || 'en-US';
+    const { timeZone, calendar } = options;
+    
+    // Without a time zone or calendar system the host's days and the
+    // locale's own calendar are used
+    if (!timeZone && !calendar) {
+        return {
+            formatDay: options.formatDay ?? ((date: Date) => formatDayOfMonth(date, locale)),
+            formatMonth: options.formatMonth ?? ((month: number, year: number) => formatMonthYear(month, year, locale)),
+        };
+    }
+    
+    const calendarSystem = getCalendarSystem(calendar);
+    return {
+        formatDay: options.formatDay ?? ((date: Date) =>
+            formatCalendarDate(toPlainDate(date, timeZone), locale, { day: 'numeric' }, calendarSystem.identifier)),
+        formatMonth: options.formatMonth ?? ((month: number, year: number) =>
+            formatCalendarDate(
+                calendarSystem.toPlainDate({ year, month: month + 1, day: 1 }),
+                locale,
+                { month: 'long', year: 'numeric' },
+                calendarSystem.identifier
+            )),
+    };
+}
+
 /**
  * Creates the calendar component logic using proven LogicLayerBuilder pattern
  * @param state State store to connect to
@@ -18,12 +60,7 @@ export function createCalendarLogic(
     state: CalendarStateStore,
     options: CalendarOptions = {}
 ): LogicLayer<CalendarState, CalendarEvents> {
-    const monthNames = [
-        'January', 'February', 'March', 'April', 'May', 'June',
-        'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    
-    const dayAbbreviations = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+    const { formatMonth } = getCalendarFormatters(options);
     
     return new LogicLayerBuilder<CalendarState, CalendarEvents>()
         .onEvent('select', (currentState, payload: any) => {
@@ -61,23 +98,22 @@ export function createCalendarLogic(
         })
         .withA11y('root', (state) => ({
             role: 'application',
-            'aria-label': options['aria-label'] || `Calendar, ${monthNames[state.displayMonth]} ${state.displayYear}`,
+            'aria-label': options['aria-label'] || `Calendar, ${formatMonth(state.displayMonth, state.displayYear)}`,
             'aria-disabled': state.disabled ? 'true' : undefined,
             'aria-readonly': state.readOnly ? 'true' : undefined,
         }))
         .withA11y('grid', (state) => ({
             role: 'grid',
-            'aria-label': `${monthNames[state.displayMonth]} ${state.displayYear}`,
+            'aria-label': formatMonth(state.displayMonth, state.displayYear),
             'aria-readonly': state.readOnly ? 'true' : undefined,
         }))
-        .withA11y('day', (state, element: any) => {
+        .withA11y('day', (currentState, element: any) => {
             const day = element?.dataset?.day;
             if (!day) return {};
             
-            const date = new Date(state.displayYear, state.displayMonth, parseInt(day));
-            const isSelected = state.selectedDate && 
-                date.getTime() === state.selectedDate.getTime();
-            const isFocused = date.getTime() === state.focusedDate.getTime();
+            const date = state.getDate({ year: currentState.displayYear, month: currentState.displayMonth + 1, day: parseInt(day) });
+            const isSelected = state.isDateSelected(date);
+            const isFocused = isSameCalendarDate(state.getCalendarDate(date), state.getCalendarDate(currentState.focusedDate));
             
             return {
                 role: 'gridcell',
@@ -87,7 +123,9 @@ export function createCalendarLogic(
                     weekday: 'long',
                     year: 'numeric',
                     month: 'long',
-                    day: 'numeric'
+                    day: 'numeric',
+                    ...(options.timeZone ? { timeZone: options.timeZone } : {}),
+                    ...(options.calendar ? { calendar: options.calendar } : {})
                 }),
                 tabIndex: isFocused ? 0 : -1,
             };
@@ -102,7 +140,7 @@ export function createCalendarLogic(
             const day = target.dataset?.day;
             if (!day) return null;
             
-            const date = new Date(currentState.displayYear, currentState.displayMonth, parseInt(day));
+            const date = state.getDate({ year: currentState.displayYear, month: currentState.displayMonth + 1, day: parseInt(day) });
             
             if (state.isDateDisabled(date)) {
                 event.preventDefault();
@@ -115,41 +153,42 @@ export function createCalendarLogic(
         .withInteraction('root', 'onKeyDown', (currentState, event: KeyboardEvent) => {
             if (currentState.disabled) return null;
             
-            const focusedDate = new Date(currentState.focusedDate);
+            const calendar = getCalendarSystem(options.calendar);
+            const current = state.getCalendarDate(currentState.focusedDate);
+            let focusedDate = currentState.focusedDate;
             let handled = true;
             
             switch (event.key) {
                 case 'ArrowLeft':
-                    focusedDate.setDate(focusedDate.getDate() - 1);
+                    focusedDate = state.addDays(focusedDate, -1);
                     break;
                 case 'ArrowRight':
-                    focusedDate.setDate(focusedDate.getDate() + 1);
+                    focusedDate = state.addDays(focusedDate, 1);
                     break;
                 case 'ArrowUp':
-                    focusedDate.setDate(focusedDate.getDate() - 7);
+                    focusedDate = state.addDays(focusedDate, -7);
                     break;
                 case 'ArrowDown':
-                    focusedDate.setDate(focusedDate.getDate() + 7);
+                    focusedDate = state.addDays(focusedDate, 7);
                     break;
                 case 'Home':
-                    focusedDate.setDate(1);
+                    focusedDate = state.getDate({ ...current, day: 1 });
                     break;
                 case 'End':
-                    const lastDay = new Date(focusedDate.getFullYear(), focusedDate.getMonth() + 1, 0).getDate();
-                    focusedDate.setDate(lastDay);
+                    focusedDate = state.getDate({ ...current, day: calendar.getDaysInMonth(current.year, current.month) });
                     break;
                 case 'PageUp':
                     if (event.shiftKey) {
-                        focusedDate.setFullYear(focusedDate.getFullYear() - 1);
+                        focusedDate = state.getDate({ ...current, year: current.year - 1 });
                     } else {
-                        focusedDate.setMonth(focusedDate.getMonth() - 1);
+                        focusedDate = state.getDate(addCalendarMonths(calendar, current, -1));
                     }
                     break;
                 case 'PageDown':
                     if (event.shiftKey) {
-                        focusedDate.setFullYear(focusedDate.getFullYear() + 1);
+                        focusedDate = state.getDate({ ...current, year: current.year + 1 });
                     } else {
-                        focusedDate.setMonth(focusedDate.getMonth() + 1);
+                        focusedDate = state.getDate(addCalendarMonths(calendar, current, 1));
                     }
                     break;
                 case 'Enter':
@@ -167,9 +206,10 @@ export function createCalendarLogic(
                 event.preventDefault();
                 state.setFocusedDate(focusedDate);
                 
-                if (focusedDate.getMonth() !== currentState.displayMonth || 
-                    focusedDate.getFullYear() !== currentState.displayYear) {
-                    state.setDisplayMonth(focusedDate.getMonth(), focusedDate.getFullYear());
+                const focused = state.getCalendarDate(focusedDate);
+                if (focused.month - 1 !== currentState.displayMonth || 
+                    focused.year !== currentState.displayYear) {
+                    state.setDisplayMonth(focused.month - 1, focused.year);
                 }
             }
             
@@ -202,4 +242,11 @@ export function createCalendarLogic(
             return 'viewModeChange';
         })
         .build();
+}
+
+/**
+ * Whether two calendar dates are the same day
+ */
+function isSameCalendarDate(a: CalendarDate, b: CalendarDate): boolean {
+    return a.year === b.year && a.month === b.month && a.day === b.day;
 }
\ No newline at end of file
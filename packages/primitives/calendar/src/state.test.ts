@@ -2,19 +2,16 @@
  * Calendar State Tests
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fromPlainDate } from '@stellarix-ui/utils';
 import { createCalendarState } from './state';
 import type { CalendarOptions } from './types';
 
 describe('Calendar State', () => {
     it('should create state with default values', () => {
         const state = createCalendarState();
-        const listener = vi.fn();
-        
-        state.subscribe(listener);
-        state.setDisabled(false);
         
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        expect(state.getState()).toEqual(expect.objectContaining({
             selectedDate: null,
             viewMode: 'days',
             disabled: false,
@@ -124,4 +121,93 @@ describe('Calendar State', () => {
         expect(state.isDateToday(today)).toBe(true);
         expect(state.isDateToday(tomorrow)).toBe(false);
     });
+});
+
+describe('Calendar State in time zones and calendar systems', () => {
+    const hostTimeZone = process.env.TZ;
+    
+    // Pin the host to a zone west of UTC, so days of zones east of it differ
+    beforeAll(() => {
+        process.env.TZ = 'America/Los_Angeles';
+    });
+    
+    afterAll(() => {
+        if (hostTimeZone === undefined) delete process.env.TZ;
+        else process.env.TZ = hostTimeZone;
+    });
+    
+    it('should generate days of the time zone', () => {
+        // Evening of March 9 in Los Angeles is March 10 in Tokyo
+        const value = new Date('2024-03-10T04:00:00Z');
+        const state = createCalendarState({ value, timeZone: 'Asia/Tokyo' });
+        const selected = state.getState().days.find(day => day.isSelected);
+        
+        expect(selected?.day).toBe(10);
+        expect(selected?.date.toISOString()).toBe('2024-03-09T15:00:00.000Z');
+        expect(state.isDateSelected(new Date('2024-03-10T14:00:00Z'))).toBe(true);
+    });
+    
+    it('should start days at midnight across daylight saving changes', () => {
+        const state = createCalendarState({ value: new Date('2024-03-10T12:00:00Z'), timeZone: 'America/New_York' });
+        const days = state.getState().days.filter(day => !day.isOutsideMonth);
+        
+        expect(days[9].date.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+        expect(days[10].date.toISOString()).toBe('2024-03-11T04:00:00.000Z');
+    });
+    
+    it('should move times skipped by a daylight saving change forward by the gap', () => {
+        // Clocks in Berlin go forward from 02:00 to 03:00 on March 31
+        const date = fromPlainDate({ year: 2024, month: 3, day: 31 }, 'Europe/Berlin', 2, 30);
+        
+        expect(date.toISOString()).toBe('2024-03-31T01:30:00.000Z');
+    });
+    
+    it('should resolve times repeated by a daylight saving change to the earlier one', () => {
+        // Clocks in Berlin go back from 03:00 to 02:00 on October 27
+        const date = fromPlainDate({ year: 2024, month: 10, day: 27 }, 'Europe/Berlin', 2, 30);
+        
+        expect(date.toISOString()).toBe('2024-10-27T00:30:00.000Z');
+    });
+    
+    it('should check min and max dates by day of the time zone', () => {
+        const state = createCalendarState({
+            timeZone: 'Asia/Tokyo',
+            minDate: new Date('2024-03-09T16:00:00Z'), // March 10, 01:00 in Tokyo
+            maxDate: new Date('2024-03-20T14:00:00Z'), // March 20, 23:00 in Tokyo
+        });
+        
+        expect(state.isDateDisabled(new Date('2024-03-09T15:00:00Z'))).toBe(false);
+        expect(state.isDateDisabled(new Date('2024-03-09T14:59:00Z'))).toBe(true);
+        expect(state.isDateDisabled(new Date('2024-03-20T15:00:00Z'))).toBe(true);
+    });
+    
+    it('should show months and years of the calendar system', () => {
+        // 1 Tishri 5786
+        const state = createCalendarState({ value: new Date(2025, 8, 23), calendar: 'hebrew' });
+        const { displayMonth, displayYear, days } = state.getState();
+        
+        expect(displayMonth).toBe(0);
+        expect(displayYear).toBe(5786);
+        expect(days.find(day => !day.isOutsideMonth)?.date).toEqual(new Date(2025, 8, 23));
+        expect(days.filter(day => !day.isOutsideMonth)).toHaveLength(30);
+    });
+    
+    it('should page through the months of a leap year', () => {
+        // Shevat 5784, a leap year with Adar I and Adar II
+        const state = createCalendarState({ value: new Date(2024, 0, 20), calendar: 'hebrew' });
+        
+        state.setDisplayMonth(12, 5784);
+        state.nextMonth();
+        expect(state.getState()).toMatchObject({ displayMonth: 0, displayYear: 5785 });
+        
+        state.previousMonth();
+        expect(state.getState()).toMatchObject({ displayMonth: 12, displayYear: 5784 });
+    });
+    
+    it('should offset years of the Buddhist calendar', () => {
+        const state = createCalendarState({ value: new Date(2024, 5, 15), calendar: 'buddhist' });
+        
+        expect(state.getState()).toMatchObject({ displayMonth: 5, displayYear: 2567 });
+        expect(state.getCalendarDate(new Date(2024, 1, 29))).toEqual({ year: 2567, month: 2, day: 29 });
+    });
 });
\ No newline at end of file
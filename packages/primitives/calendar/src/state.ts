@@ -3,9 +3,28 @@
  * Manages calendar date selection and navigation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, snapshotCodecs, type SnapshotFormat, type StoreSelection } from '@stellarix-ui/core';
+import {
+    addDays,
+    comparePlainDates,
+    fromPlainDate,
+    getCalendarSystem,
+    getDayOfWeek,
+    toPlainDate,
+    type CalendarDate,
+    type PlainDate,
+} from '@stellarix-ui/utils';
 import type { CalendarState, CalendarOptions, CalendarDay } from './types';
 
+/**
+ * Snapshot format of the calendar state
+ */
+export const calendarSnapshotFormat: SnapshotFormat<CalendarState> = {
+    selectedDate: snapshotCodecs.nullableDate,
+    focusedDate: snapshotCodecs.date,
+    days: snapshotCodecs.arrayOf(snapshotCodecs.shape<CalendarDay>({ date: snapshotCodecs.date })),
+};
+
 /**
  * Extended state store with component-specific methods
  */
@@ -14,6 +33,7 @@ export interface CalendarStateStore {
     getState: () => CalendarState;
     setState: (updater: (prev: CalendarState) => CalendarState) => void;
     subscribe: (listener: (state: CalendarState) => void) => () => void;
+    select: <U>(selector: (state: CalendarState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: CalendarState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -40,6 +60,11 @@ export interface CalendarStateStore {
     isDateDisabled: (date: Date) => boolean;
     isDateToday: (date: Date) => boolean;
     getDaysInMonth: () => CalendarDay[];
+    
+    // Calendar system and time zone conversions
+    getCalendarDate: (date: Date) => CalendarDate;
+    getDate: (calendarDate: CalendarDate) => Date;
+    addDays: (date: Date, days: number) => Date;
 }
 
 /**
@@ -48,100 +73,71 @@ export interface CalendarStateStore {
  * @returns Extended state store
  */
 export function createCalendarState(options: CalendarOptions = {}): CalendarStateStore {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const { timeZone } = options;
+    const calendar = getCalendarSystem(options.calendar);
     
-    const initialDate = options.value || today;
+    const today = toPlainDate(new Date(), timeZone);
+    const minDay = options.minDate ? toPlainDate(options.minDate, timeZone) : null;
+    const maxDay = options.maxDate ? toPlainDate(options.maxDate, timeZone) : null;
     
     // Helper functions
-    const getDaysInMonth = (month: number, year: number): number => {
-        return new Date(year, month + 1, 0).getDate();
-    };
+    const getCalendarDate = (date: Date): CalendarDate => calendar.fromPlainDate(toPlainDate(date, timeZone));
+    
+    const getDate = (calendarDate: CalendarDate): Date => fromPlainDate(calendar.toPlainDate(calendarDate), timeZone);
+    
+    const isSameDay = (a: Date, b: Date): boolean =>
+        comparePlainDates(toPlainDate(a, timeZone), toPlainDate(b, timeZone)) === 0;
     
-    const getFirstDayOfMonth = (month: number, year: number): number => {
-        return new Date(year, month, 1).getDay();
+    const isDateDisabledHelper = (date: Date): boolean => {
+        const day = toPlainDate(date, timeZone);
+        if (minDay && comparePlainDates(day, minDay) < 0) return true;
+        if (maxDay && comparePlainDates(day, maxDay) > 0) return true;
+        if (options.isDateDisabled) return options.isDateDisabled(date);
+        return false;
     };
     
-    const generateDays = (month: number, year: number, selectedDate: Date | null, focusedDate: Date): CalendarDay[] => {
+    const generateDays = (month: number, year: number, selectedDate: Date | null): CalendarDay[] => {
         const days: CalendarDay[] = [];
-        const firstDay = getFirstDayOfMonth(month, year);
-        const daysInMonth = getDaysInMonth(month, year);
-        const daysInPrevMonth = getDaysInMonth(month - 1, year);
-        
-        // Previous month days
-        const startDay = (firstDay - (options.firstDayOfWeek ?? 0) + 7) % 7;
-        for (let i = startDay - 1; i >= 0; i--) {
-            const day = daysInPrevMonth - i;
-            const date = new Date(year, month - 1, day);
-            date.setHours(0, 0, 0, 0);
-            days.push({
-                date,
-                day,
-                month: month - 1,
-                year,
-                isToday: date.getTime() === today.getTime(),
-                isSelected: selectedDate ? date.getTime() === selectedDate.getTime() : false,
-                isDisabled: isDateDisabledHelper(date, options),
-                isOutsideMonth: true,
-                isWeekend: date.getDay() === 0 || date.getDay() === 6
-            });
-        }
+        const firstDay = calendar.toPlainDate({ year, month: month + 1, day: 1 });
+        const selectedDay = selectedDate ? toPlainDate(selectedDate, timeZone) : null;
         
-        // Current month days
-        for (let day = 1; day <= daysInMonth; day++) {
-            const date = new Date(year, month, day);
-            date.setHours(0, 0, 0, 0);
+        // Start on the first day of the week, with days of the previous month,
+        // and fill the grid with days of the next month
+        const startDay = (getDayOfWeek(firstDay) - (options.firstDayOfWeek ?? 0) + 7) % 7;
+        for (let i = 0; i < 42; i++) { // 6 weeks * 7 days
+            const plainDate: PlainDate = addDays(firstDay, i - startDay);
+            const calendarDate = calendar.fromPlainDate(plainDate);
+            const date = fromPlainDate(plainDate, timeZone);
+            const dayOfWeek = getDayOfWeek(plainDate);
             days.push({
                 date,
-                day,
-                month,
-                year,
-                isToday: date.getTime() === today.getTime(),
-                isSelected: selectedDate ? date.getTime() === selectedDate.getTime() : false,
-                isDisabled: isDateDisabledHelper(date, options),
-                isOutsideMonth: false,
-                isWeekend: date.getDay() === 0 || date.getDay() === 6
-            });
-        }
-        
-        // Next month days to fill the grid
-        const remainingDays = 42 - days.length; // 6 weeks * 7 days
-        for (let day = 1; day <= remainingDays; day++) {
-            const date = new Date(year, month + 1, day);
-            date.setHours(0, 0, 0, 0);
-            days.push({
-                date,
-                day,
-                month: month + 1,
-                year,
-                isToday: date.getTime() === today.getTime(),
-                isSelected: selectedDate ? date.getTime() === selectedDate.getTime() : false,
-                isDisabled: isDateDisabledHelper(date, options),
-                isOutsideMonth: true,
-                isWeekend: date.getDay() === 0 || date.getDay() === 6
+                day: calendarDate.day,
+                month: calendarDate.month - 1,
+                year: calendarDate.year,
+                isToday: comparePlainDates(plainDate, today) === 0,
+                isSelected: selectedDay ? comparePlainDates(plainDate, selectedDay) === 0 : false,
+                isDisabled: isDateDisabledHelper(date),
+                isOutsideMonth: calendarDate.month !== month + 1 || calendarDate.year !== year,
+                isWeekend: dayOfWeek === 0 || dayOfWeek === 6
             });
         }
         
         return days;
     };
     
-    const isDateDisabledHelper = (date: Date, options: CalendarOptions): boolean => {
-        if (options.minDate && date < options.minDate) return true;
-        if (options.maxDate && date > options.maxDate) return true;
-        if (options.isDateDisabled) return options.isDateDisabled(date);
-        return false;
-    };
+    const initialDate = options.value || fromPlainDate(today, timeZone);
+    const initialCalendarDate = getCalendarDate(initialDate);
     
     // Define initial state
     const initialState: CalendarState = {
         selectedDate: options.value || null,
         focusedDate: initialDate,
-        displayMonth: initialDate.getMonth(),
-        displayYear: initialDate.getFullYear(),
+        displayMonth: initialCalendarDate.month - 1,
+        displayYear: initialCalendarDate.year,
         viewMode: 'days',
         disabled: options.disabled ?? false,
         readOnly: options.readOnly ?? false,
-        days: generateDays(initialDate.getMonth(), initialDate.getFullYear(), options.value || null, initialDate)
+        days: generateDays(initialCalendarDate.month - 1, initialCalendarDate.year, options.value || null)
     };
     
     // Create the core state store
@@ -156,7 +152,7 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
                 const newState = { 
                     ...prev, 
                     selectedDate: date,
-                    days: generateDays(prev.displayMonth, prev.displayYear, date, prev.focusedDate)
+                    days: generateDays(prev.displayMonth, prev.displayYear, date)
                 };
                 
                 if (options.onChange && date !== prev.selectedDate) {
@@ -177,7 +173,7 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
                     ...prev,
                     displayMonth: month,
                     displayYear: year,
-                    days: generateDays(month, year, prev.selectedDate, prev.focusedDate)
+                    days: generateDays(month, year, prev.selectedDate)
                 };
                 
                 if (options.onMonthChange && (month !== prev.displayMonth || year !== prev.displayYear)) {
@@ -201,12 +197,12 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
         },
         
         goToToday: () => {
-            extendedStore.setDisplayMonth(today.getMonth(), today.getFullYear());
-            extendedStore.setFocusedDate(today);
+            extendedStore.goToDate(fromPlainDate(today, timeZone));
         },
         
         goToDate: (date: Date) => {
-            extendedStore.setDisplayMonth(date.getMonth(), date.getFullYear());
+            const calendarDate = getCalendarDate(date);
+            extendedStore.setDisplayMonth(calendarDate.month - 1, calendarDate.year);
             extendedStore.setFocusedDate(date);
         },
         
@@ -215,7 +211,7 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
             let newMonth = state.displayMonth + 1;
             let newYear = state.displayYear;
             
-            if (newMonth > 11) {
+            if (newMonth >= calendar.getMonthsInYear(newYear)) {
                 newMonth = 0;
                 newYear++;
             }
@@ -229,8 +225,8 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
             let newYear = state.displayYear;
             
             if (newMonth < 0) {
-                newMonth = 11;
                 newYear--;
+                newMonth = calendar.getMonthsInYear(newYear) - 1;
             }
             
             extendedStore.setDisplayMonth(newMonth, newYear);
@@ -240,7 +236,8 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
             const state = store.getState();
             const newYear = state.displayYear + 1;
             
-            extendedStore.setDisplayMonth(state.displayMonth, newYear);
+            // Years of some calendars have fewer months, e.g. Hebrew common years
+            extendedStore.setDisplayMonth(Math.min(state.displayMonth, calendar.getMonthsInYear(newYear) - 1), newYear);
             
             if (options.onYearChange) {
                 options.onYearChange(newYear);
@@ -251,7 +248,7 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
             const state = store.getState();
             const newYear = state.displayYear - 1;
             
-            extendedStore.setDisplayMonth(state.displayMonth, newYear);
+            extendedStore.setDisplayMonth(Math.min(state.displayMonth, calendar.getMonthsInYear(newYear) - 1), newYear);
             
             if (options.onYearChange) {
                 options.onYearChange(newYear);
@@ -261,21 +258,27 @@ export function createCalendarState(options: CalendarOptions = {}): CalendarStat
         isDateSelected: (date: Date) => {
             const state = store.getState();
             if (!state.selectedDate) return false;
-            return date.getTime() === state.selectedDate.getTime();
+            return isSameDay(date, state.selectedDate);
         },
         
         isDateDisabled: (date: Date) => {
-            return isDateDisabledHelper(date, options);
+            return isDateDisabledHelper(date);
         },
         
         isDateToday: (date: Date) => {
-            return date.getTime() === today.getTime();
+            return comparePlainDates(toPlainDate(date, timeZone), today) === 0;
         },
         
         getDaysInMonth: () => {
             const state = store.getState();
             return state.days;
-        }
+        },
+        
+        getCalendarDate,
+        
+        getDate,
+        
+        addDays: (date: Date, days: number) => fromPlainDate(addDays(toPlainDate(date, timeZone), days), timeZone)
     };
     
     return extendedStore;
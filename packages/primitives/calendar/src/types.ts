@@ -3,14 +3,32 @@
  * Define all TypeScript interfaces for the component
  */
 
+import type { CalendarIdentifier } from '@stellarix-ui/utils';
+
 /**
  * Day information
  */
 export interface CalendarDay {
+    /**
+     * Start of the day in the calendar's time zone
+     */
     date: Date;
+    
+    /**
+     * Day of the month in the calendar system
+     */
     day: number;
+    
+    /**
+     * Month in the calendar system, 0 for the first month of the year
+     */
     month: number;
+    
+    /**
+     * Year in the calendar system
+     */
     year: number;
+    
     isToday: boolean;
     isSelected: boolean;
     isDisabled: boolean;
@@ -34,12 +52,12 @@ export interface CalendarState {
     focusedDate: Date;
     
     /**
-     * Currently displayed month
+     * Currently displayed month, 0 for the first month of the calendar year
      */
     displayMonth: number;
     
     /**
-     * Currently displayed year
+     * Currently displayed year of the calendar system
      */
     displayYear: number;
     
@@ -96,6 +114,19 @@ export interface CalendarOptions {
      */
     locale?: string;
     
+    /**
+     * IANA time zone the days are in, e.g. 'America/New_York'. Days start
+     * at midnight of this zone, and dates are compared by their day in it.
+     * @default the time zone of the host
+     */
+    timeZone?: string;
+    
+    /**
+     * Calendar system of the months and years shown
+     * @default 'gregory'
+     */
+    calendar?: CalendarIdentifier;
+    
     /**
      * Whether to show week numbers
      * @default false
@@ -136,11 +167,14 @@ export interface CalendarOptions {
     
     /**
      * Custom function to format day labels
+     * @default the day of the month in the locale's digits
      */
     formatDay?: (date: Date) => string;
     
     /**
-     * Custom function to format month labels
+     * Custom function to format month labels; the month counts from 0 in
+     * the calendar system
+     * @default the month and year as the locale writes them, e.g. 'November 2025' or '2025年11月'
      */
     formatMonth?: (month: number, year: number) => string;
 }
@@ -0,0 +1,67 @@
+/**
+ * Card Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { CardState } from './types';
+
+const paddings = { none: '0', sm: '8px', md: '16px', lg: '24px', xl: '32px' };
+
+/**
+ * Media, header, content and footer sections. The header, footer and media
+ * come from the props of the same name, the content from the children.
+ */
+export const cardAnatomy: ComponentAnatomy<CardState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: ({ state }) => ({
+                'data-variant': state.variant,
+                'data-state': state.selected ? 'selected' : undefined,
+                'data-disabled': state.disabled || undefined,
+                style: {
+                    display: 'flex',
+                    flexDirection: 'column',
+                    overflow: 'hidden',
+                    borderRadius: '8px',
+                    border: state.variant === 'outlined' ? '1px solid #e5e7eb' : 'none',
+                    boxShadow: state.variant === 'elevated' ? '0 1px 3px rgba(0, 0, 0, 0.12)' : 'none',
+                    backgroundColor: state.variant === 'filled' ? '#f9fafb' : 'white',
+                    cursor: state.interactive && !state.disabled ? 'pointer' : 'default',
+                },
+            }),
+        },
+        media: {
+            element: 'div',
+            when: ({ state, props }) => state.hasMedia || props.media != null,
+            text: ({ props }) => props.media,
+        },
+        header: {
+            element: 'div',
+            when: ({ state, props }) => state.hasHeader || props.header != null,
+            text: ({ props }) => props.header,
+            props: ({ state }) => ({
+                style: { padding: paddings[state.padding] ?? paddings.md, fontWeight: '600' },
+            }),
+        },
+        content: {
+            element: 'div',
+            slot: true,
+            props: ({ state }) => ({
+                style: { padding: paddings[state.padding] ?? paddings.md },
+            }),
+        },
+        footer: {
+            element: 'div',
+            when: ({ state, props }) => state.hasFooter || props.footer != null,
+            text: ({ props }) => props.footer,
+            props: ({ state }) => ({
+                style: { padding: paddings[state.padding] ?? paddings.md },
+            }),
+        },
+    },
+    bindings: {
+        selected: 'selected',
+    },
+};
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createCardState } from './state';
 import { createCardLogic } from './logic';
+import { cardAnatomy } from './anatomy';
 import type { CardOptions, CardState, CardEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createCard(options: CardOptions = {}) {
     return createPrimitive<CardState, CardEvents, CardOptions>('Card', {
         initialState: options,
         logicConfig: options,
+        anatomy: cardAnatomy,
         metadata: {
             accessibility: {
                 role: 'article',
@@ -74,6 +76,10 @@ export function createCardWithImplementation(options: CardOptions = {}) {
     core.state = createCardState(options);
     core.logic = createCardLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -88,6 +94,7 @@ export type {
 } from './types';
 
 export type { CardStateStore } from './state';
+export { cardAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createCardWithImplementation;
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { CardState, CardOptions, CardVariant, CardPadding } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface CardStateStore {
     getState: () => CardState;
     setState: (updates: Partial<CardState>) => void;
     subscribe: (listener: (state: CardState) => void) => () => void;
+    select: <U>(selector: (state: CardState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: CardState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
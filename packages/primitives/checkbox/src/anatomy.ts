@@ -0,0 +1,37 @@
+/**
+ * Checkbox Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { CheckboxOptions, CheckboxState } from './types';
+
+/**
+ * Creates the render contract of a checkbox
+ * @param options Component options; name, id and value become form attributes
+ * @returns Checkbox anatomy
+ */
+export function createCheckboxAnatomy(options: CheckboxOptions = {}): ComponentAnatomy<CheckboxState> {
+    return {
+        parts: {
+            root: {
+                element: 'input',
+                props: ({ state, props }) => ({
+                    role: 'checkbox',
+                    type: 'checkbox',
+                    checked: state.checked === true,
+                    // DOM-only property, there is no indeterminate attribute
+                    indeterminate: state.checked === 'indeterminate' || undefined,
+                    disabled: state.disabled || undefined,
+                    required: state.required || undefined,
+                    name: props.name ?? options.name,
+                    id: props.id ?? options.id,
+                    value: props.value ?? options.value,
+                }),
+            },
+        },
+        bindings: {
+            checked: 'checked',
+        },
+    };
+}
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createCheckboxState } from './state';
 import { createCheckboxLogic } from './logic';
+import { createCheckboxAnatomy } from './anatomy';
 import type { CheckboxOptions, CheckboxState, CheckboxEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createCheckbox(options: CheckboxOptions = {}) {
     return createPrimitive<CheckboxState, CheckboxEvents, CheckboxOptions>('Checkbox', {
         initialState: options,
         logicConfig: options,
+        anatomy: createCheckboxAnatomy(options),
         metadata: {
             accessibility: {
                 role: 'checkbox',
@@ -54,6 +56,10 @@ export function createCheckboxWithImplementation(options: CheckboxOptions = {})
     core.state = createCheckboxState(options);
     core.logic = createCheckboxLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     // Store options for adapter access
     (core as any).options = options;
     
@@ -73,6 +79,7 @@ export type {
 } from './types';
 
 export type { CheckboxStateStore } from './state';
+export { createCheckboxAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createCheckboxWithImplementation;
\ No newline at end of file
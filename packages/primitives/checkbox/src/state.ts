@@ -13,7 +13,7 @@
  * - ALWAYS use function updater with spread operator
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { CheckboxState, CheckboxOptions, CheckboxCheckedState } from './types';
 
 /**
@@ -24,6 +24,7 @@ export interface CheckboxStateStore {
     getState: () => CheckboxState;
     setState: (updates: Partial<CheckboxState>) => void;
     subscribe: (listener: (state: CheckboxState) => void) => () => void;
+    select: <U>(selector: (state: CheckboxState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: CheckboxState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -0,0 +1,197 @@
+/**
+ * Combobox Component Stories
+ * Showcase of filtering, inline autocomplete, async loading and creatable options
+ */
+
+import React, { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react';
+import { createComboboxWithImplementation } from './src/index';
+import { reactAdapter } from '@stellarix-ui/react';
+import type { ComboboxOption } from './src/types';
+
+// Sample data for stories
+const fruitOptions: ComboboxOption[] = [
+  { value: 'apple', label: 'Apple' },
+  { value: 'apricot', label: 'Apricot' },
+  { value: 'banana', label: 'Banana' },
+  { value: 'blueberry', label: 'Blueberry' },
+  { value: 'cherry', label: 'Cherry' },
+  { value: 'grape', label: 'Grape' },
+  { value: 'mango', label: 'Mango' },
+  { value: 'orange', label: 'Orange' },
+  { value: 'pineapple', label: 'Pineapple' },
+  { value: 'strawberry', label: 'Strawberry' },
+];
+
+const countries = [
+  'Argentina', 'Australia', 'Austria', 'Belgium', 'Brazil', 'Canada', 'Chile', 'China',
+  'Denmark', 'Egypt', 'Finland', 'France', 'Germany', 'Greece', 'India', 'Ireland',
+  'Italy', 'Japan', 'Kenya', 'Mexico', 'Netherlands', 'Norway', 'Poland', 'Portugal',
+  'Spain', 'Sweden', 'Switzerland', 'United Kingdom', 'United States', 'Vietnam',
+];
+
+/**
+ * Fake server search: waits, honours the abort signal and sometimes fails
+ */
+function searchCountries(query: string, signal: AbortSignal): Promise<ComboboxOption[]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (query.toLowerCase() === 'error') {
+        reject(new Error('The country service is unavailable'));
+        return;
+      }
+      resolve(countries
+        .filter(country => country.toLowerCase().includes(query.toLowerCase()))
+        .map(country => ({ value: country.toLowerCase().replace(/\s+/g, '-'), label: country })));
+    }, 600);
+
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+}
+
+// Create the React combobox components
+const combobox = createComboboxWithImplementation({ options: fruitOptions });
+const Combobox = combobox.connect(reactAdapter);
+
+const InlineCombobox = createComboboxWithImplementation({
+  options: fruitOptions,
+  autocomplete: 'both',
+}).connect(reactAdapter);
+
+const AsyncCombobox = createComboboxWithImplementation({
+  loadOptions: searchCountries,
+  debounce: 300,
+  minQueryLength: 1,
+  placeholder: 'Search countries...',
+}).connect(reactAdapter);
+
+const meta: Meta<typeof Combobox> = {
+  title: 'Primitives/Combobox',
+  component: Combobox,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+A text input with a listbox of suggestions, following the ARIA 1.2 combobox pattern.
+
+## Features
+- ✅ Filtering of static options as you type
+- ✅ Inline autocomplete of the first match
+- ✅ Debounced async loading with cancellation of stale requests
+- ✅ Loading, error and empty states
+- ✅ Creating options from the typed text
+- ✅ Custom values
+
+## Accessibility
+- Focus stays in the input; the highlighted option is referenced through aria-activedescendant
+- Arrow keys move through the options, Enter selects, Escape closes and then clears
+- The number of results is announced to screen readers
+        `,
+      },
+    },
+  },
+  argTypes: {
+    options: {
+      control: 'object',
+      description: 'Options to filter',
+    },
+    value: {
+      control: 'text',
+      description: 'Currently selected value',
+    },
+    disabled: {
+      control: 'boolean',
+      description: 'Whether the combobox is disabled',
+    },
+    onChange: { action: 'changed' },
+  },
+  args: {
+    options: fruitOptions,
+    'aria-label': 'Fruit',
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Basic Examples
+export const Default: Story = {};
+
+export const WithValue: Story = {
+  args: {
+    value: 'cherry',
+  },
+};
+
+export const Disabled: Story = {
+  args: {
+    disabled: true,
+    value: 'mango',
+  },
+};
+
+// Inline autocomplete: typing "pi" completes to "Pineapple"
+export const InlineAutocomplete: Story = {
+  render: (args) => <InlineCombobox {...args} aria-label="Fruit" />,
+};
+
+// Async loading
+export const AsyncOptions: Story = {
+  render: () => {
+    const [value, setValue] = useState<string | null>(null);
+
+    return (
+      <div>
+        <AsyncCombobox
+          aria-label="Country"
+          onChange={(val: string | null) => setValue(val)}
+        />
+        <p style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: '#6b7280' }}>
+          Selected: {value ?? 'none'} (type "error" to see a failed load)
+        </p>
+      </div>
+    );
+  },
+};
+
+// Creatable options
+export const Creatable: Story = {
+  render: () => {
+    const [created, setCreated] = useState<string[]>([]);
+    const [TagCombobox] = useState(() => createComboboxWithImplementation({
+      options: fruitOptions,
+      creatable: true,
+      createOptionLabel: query => `Add "${query}"`,
+      onCreate: query => {
+        setCreated(previous => [...previous, query]);
+        return { value: query.toLowerCase(), label: query };
+      },
+    }).connect(reactAdapter));
+
+    return (
+      <div>
+        <TagCombobox aria-label="Fruit" />
+        <p style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: '#6b7280' }}>
+          Created: {created.join(', ') || 'none'}
+        </p>
+      </div>
+    );
+  },
+};
+
+// Free text
+export const CustomValue: Story = {
+  render: () => {
+    const [FreeCombobox] = useState(() => createComboboxWithImplementation({
+      options: fruitOptions,
+      allowCustomValue: true,
+      placeholder: 'Any fruit, listed or not',
+    }).connect(reactAdapter));
+
+    return <FreeCombobox aria-label="Fruit" />;
+  },
+};
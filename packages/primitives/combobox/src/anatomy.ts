@@ -0,0 +1,148 @@
+/**
+ * Combobox Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { ComboboxOptions, ComboboxState } from './types';
+
+/**
+ * Creates the render contract of a combobox: a text input with a button
+ * showing the options, and a listbox of options with loading, error and
+ * empty messages and an option creating the typed text
+ * @param options Component options
+ * @returns Combobox anatomy
+ */
+export function createComboboxAnatomy(options: ComboboxOptions = {}): ComponentAnatomy<ComboboxState> {
+    const createOptionLabel = options.createOptionLabel ?? ((query: string) => `Create "${query}"`);
+
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: () => ({
+                    style: { position: 'relative', display: 'inline-flex', alignItems: 'center' },
+                }),
+            },
+            input: {
+                element: 'input',
+                props: ({ state, props }) => ({
+                    type: 'text',
+                    value: state.inputValue,
+                    placeholder: state.placeholder || undefined,
+                    disabled: state.disabled || undefined,
+                    readOnly: state.readonly || undefined,
+                    'aria-label': props['aria-label'],
+                    'aria-labelledby': props['aria-labelledby'],
+                    'aria-describedby': props['aria-describedby'],
+                    className: `${props.className || ''} combobox-input`,
+                    style: {
+                        padding: '8px 32px 8px 12px',
+                        border: '1px solid #ccc',
+                        borderRadius: '4px',
+                        backgroundColor: state.disabled ? '#f5f5f5' : 'white',
+                        minWidth: '200px',
+                    },
+                }),
+            },
+            trigger: {
+                element: 'button',
+                text: () => '▼',
+                props: ({ state }) => ({
+                    type: 'button',
+                    disabled: state.disabled || state.readonly || undefined,
+                    style: {
+                        position: 'absolute',
+                        right: '4px',
+                        background: 'none',
+                        border: 'none',
+                        cursor: state.disabled ? 'not-allowed' : 'pointer',
+                        transform: state.open ? 'rotate(180deg)' : 'rotate(0deg)',
+                        transition: 'transform 0.2s',
+                    },
+                }),
+            },
+            listbox: {
+                element: 'ul',
+                when: ({ state }) => state.open,
+                props: () => ({
+                    style: {
+                        position: 'absolute',
+                        top: '100%',
+                        left: 0,
+                        right: 0,
+                        backgroundColor: 'white',
+                        border: '1px solid #ccc',
+                        borderRadius: '0 0 4px 4px',
+                        maxHeight: '200px',
+                        overflowY: 'auto',
+                        listStyle: 'none',
+                        margin: 0,
+                        padding: 0,
+                        zIndex: 1000,
+                    },
+                }),
+            },
+            option: {
+                element: 'li',
+                parent: 'listbox',
+                items: ({ state }) => state.filteredOptions,
+                key: ({ item }) => item.value,
+                text: ({ item }) => item.label,
+                // Option handlers read the option position from the event
+                event: ({ index }) => ({ optionIndex: index }),
+                props: ({ state, item, index = 0 }) => ({
+                    style: {
+                        padding: '8px 12px',
+                        cursor: item.disabled ? 'not-allowed' : 'pointer',
+                        backgroundColor: index === state.highlightedIndex
+                            ? '#f0f0f0'
+                            : item.value === state.value ? '#e6f3ff' : 'white',
+                        color: item.disabled ? '#999' : 'black',
+                    },
+                }),
+            },
+            createOption: {
+                element: 'li',
+                parent: 'listbox',
+                when: ({ state }) => state.canCreate,
+                text: ({ state }) => createOptionLabel(state.query.trim()),
+                props: ({ state }) => ({
+                    style: {
+                        padding: '8px 12px',
+                        cursor: 'pointer',
+                        fontStyle: 'italic',
+                        backgroundColor: state.highlightedIndex === state.filteredOptions.length ? '#f0f0f0' : 'white',
+                    },
+                }),
+            },
+            // Messages are in the listbox but not options; results are announced separately
+            loading: {
+                element: 'li',
+                parent: 'listbox',
+                when: ({ state }) => state.loading,
+                text: () => options.loadingMessage ?? 'Loading...',
+                props: () => ({ role: 'presentation', style: { padding: '8px 12px', color: '#666' } }),
+            },
+            error: {
+                element: 'li',
+                parent: 'listbox',
+                when: ({ state }) => !state.loading && state.error !== null,
+                text: ({ state }) => state.error,
+                props: () => ({ role: 'presentation', style: { padding: '8px 12px', color: '#c00' } }),
+            },
+            empty: {
+                element: 'li',
+                parent: 'listbox',
+                when: ({ state }) => !state.loading && state.error === null
+                    && state.filteredOptions.length === 0 && !state.canCreate,
+                text: () => options.emptyMessage ?? 'No results',
+                props: () => ({ role: 'presentation', style: { padding: '8px 12px', color: '#666' } }),
+            },
+        },
+        bindings: {
+            value: 'value',
+            options: 'options',
+        },
+    };
+}
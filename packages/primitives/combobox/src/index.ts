@@ -0,0 +1,148 @@
+/**
+ * Combobox Component
+ * Text input with a listbox of suggestions, loaded asynchronously or filtered from static options
+ */
+
+import { createComboboxState } from './state';
+import { createComboboxLogic } from './logic';
+import { createComboboxAnatomy } from './anatomy';
+import type { ComponentCore } from '@stellarix-ui/core';
+import type {
+    ComboboxState,
+    ComboboxEvents,
+    ComboboxOptions,
+    ComboboxHelpers
+} from './types';
+
+/**
+ * Creates a combobox component with helper methods
+ * @param options Configuration options for the combobox
+ * @returns Component instance with helper methods
+ */
+export function createCombobox(
+    options: ComboboxOptions = {}
+): ComponentCore<ComboboxState, ComboboxEvents> & ComboboxHelpers {
+    // Create state store
+    const state = createComboboxState(options);
+
+    // Create logic layer
+    const logic = createComboboxLogic(state, options);
+
+    // Connect logic to state
+    logic.connect(state);
+    logic.initialize();
+
+    // Helper methods
+    const helpers: ComboboxHelpers = {
+        /**
+         * Open the listbox
+         */
+        open(): void {
+            logic.handleEvent('open', null);
+        },
+
+        /**
+         * Close the listbox
+         */
+        close(): void {
+            logic.handleEvent('close', null);
+        },
+
+        /**
+         * Type text into the input
+         */
+        setInputValue(value: string): void {
+            logic.handleEvent('inputChange', { value });
+        },
+
+        /**
+         * Select an option
+         */
+        selectOption(value: string): void {
+            const option = state.getState().options.find(opt => opt.value === value);
+
+            if (option) {
+                logic.handleEvent('optionSelect', { option });
+            }
+        },
+
+        /**
+         * Clear the selection
+         */
+        clear(): void {
+            state.clearSelection();
+            if (options.onChange) {
+                options.onChange(null, null);
+            }
+        },
+
+        /**
+         * Get the currently selected option
+         */
+        getSelectedOption() {
+            return state.getState().selectedOption;
+        }
+    };
+
+    // Create component core
+    const component: ComponentCore<ComboboxState, ComboboxEvents> & ComboboxHelpers = {
+        state,
+        logic,
+        metadata: {
+            name: 'Combobox',
+            version: '0.0.1',
+            accessibility: {
+                role: 'combobox',
+                wcagLevel: 'AA',
+                patterns: ['combobox', 'listbox', 'option'],
+                keyboardShortcuts: ['ArrowDown', 'ArrowUp', 'Alt+ArrowDown', 'Enter', 'Escape', 'Tab'],
+                ariaAttributes: ['aria-expanded', 'aria-controls', 'aria-autocomplete', 'aria-activedescendant', 'aria-busy', 'aria-disabled', 'aria-readonly'],
+            },
+            events: {
+                supported: ['inputChange', 'change', 'open', 'close', 'focus', 'blur', 'optionSelect', 'create', 'navigate'],
+                required: [],
+                custom: {},
+            },
+            structure: {
+                elements: {
+                    root: { type: 'div', optional: false },
+                    input: { type: 'input', role: 'combobox', optional: false },
+                    trigger: { type: 'button', optional: true },
+                    listbox: { type: 'ul', role: 'listbox', optional: false },
+                    option: { type: 'li', role: 'option', optional: false },
+                    createOption: { type: 'li', role: 'option', optional: true },
+                },
+            },
+        },
+        anatomy: createComboboxAnatomy(options),
+        connect: function <TFrameworkComponent>(adapter: any): TFrameworkComponent {
+            return adapter.createComponent(this);
+        },
+        destroy: () => {
+            logic.cleanup();
+        },
+        ...helpers
+    };
+
+    return component;
+}
+
+// Test aliases for factory functions
+export const createComboboxWithImplementation = createCombobox;
+export const createComboboxFactory = createCombobox;
+
+// Re-export types
+export type {
+    ComboboxState,
+    ComboboxEvents,
+    ComboboxOptions,
+    ComboboxOption,
+    ComboboxAutocomplete,
+    ComboboxProps,
+    ComboboxHelpers
+} from './types';
+
+// Re-export state and logic creators for advanced use cases
+export { createComboboxState } from './state';
+export { createComboboxLogic } from './logic';
+export { createComboboxAnatomy } from './anatomy';
@@ -0,0 +1,470 @@
+/**
+ * Combobox Logic Tests
+ * Tests for the combobox component logic layer
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAnnouncer } from '@stellarix-ui/utils';
+import { createComboboxState } from './state.js';
+import { createComboboxLogic } from './logic.js';
+import type { ComboboxOption, ComboboxOptions } from './types.js';
+
+describe('Combobox Logic', () => {
+    const mockOptions: ComboboxOption[] = [
+        { value: 'apple', label: 'Apple' },
+        { value: 'apricot', label: 'Apricot' },
+        { value: 'banana', label: 'Banana' },
+        { value: 'cherry', label: 'Cherry', disabled: true }
+    ];
+
+    const setup = (options: ComboboxOptions = {}) => {
+        const state = createComboboxState({ options: mockOptions, ...options });
+        const logic = createComboboxLogic(state, options);
+        logic.connect(state);
+        logic.initialize();
+        return { state, logic };
+    };
+
+    const keyDown = (logic: ReturnType<typeof createComboboxLogic>, key: string, init: Record<string, any> = {}) => {
+        logic.getInteractionHandlers('input').onKeyDown({ key, preventDefault: vi.fn(), ...init });
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+        getAnnouncer().destroy();
+    });
+
+    describe('Filtering', () => {
+        it('should filter static options by the typed text', () => {
+            const onInputChange = vi.fn();
+            const onOpen = vi.fn();
+            const { state, logic } = setup({ onInputChange, onOpen });
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+
+            const current = state.getState();
+            expect(current.open).toBe(true);
+            expect(current.query).toBe('ap');
+            expect(current.filteredOptions.map(option => option.value)).toEqual(['apple', 'apricot']);
+            expect(current.highlightedIndex).toBe(0);
+            expect(onInputChange).toHaveBeenCalledWith('ap');
+            expect(onOpen).toHaveBeenCalledTimes(1);
+        });
+
+        it('should read the value from an input event', () => {
+            const { state, logic } = setup();
+            const input = document.createElement('input');
+            input.value = 'ban';
+
+            logic.getInteractionHandlers('input').onInput({ target: input });
+
+            expect(state.getState().filteredOptions.map(option => option.value)).toEqual(['banana']);
+        });
+
+        it('should use a custom filter', () => {
+            const { state, logic } = setup({
+                filter: (option, query) => option.value.endsWith(query)
+            });
+
+            logic.handleEvent('inputChange', { value: 'a' });
+
+            expect(state.getState().filteredOptions.map(option => option.value)).toEqual(['banana']);
+        });
+
+        it('should show every option without list autocomplete', () => {
+            const { state, logic } = setup({ autocomplete: 'none' });
+
+            logic.handleEvent('inputChange', { value: 'zzz' });
+
+            expect(state.getState().filteredOptions).toHaveLength(4);
+        });
+
+        it('should not react to typing when disabled', () => {
+            const { state, logic } = setup({ disabled: true });
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+
+            expect(state.getState().open).toBe(false);
+            expect(state.getState().inputValue).toBe('');
+        });
+
+        it('should announce the number of results', () => {
+            vi.useFakeTimers();
+            const { logic } = setup();
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+            vi.advanceTimersByTime(200);
+
+            expect(document.querySelector('[data-stellarix-announcer="polite"]')?.textContent)
+                .toBe('2 results available');
+        });
+    });
+
+    describe('Inline Autocomplete', () => {
+        it('should complete the first match and select the completed text', () => {
+            const { state, logic } = setup({ autocomplete: 'both' });
+            const input = document.createElement('input');
+            input.value = 'apr';
+
+            logic.getInteractionHandlers('input').onInput({ target: input, inputType: 'insertText' });
+
+            expect(state.getState().inputValue).toBe('apricot');
+            expect(state.getState().query).toBe('apr');
+            expect(input.value).toBe('apricot');
+            expect(input.selectionStart).toBe(3);
+            expect(input.selectionEnd).toBe(7);
+        });
+
+        it('should not complete while deleting', () => {
+            const { state, logic } = setup({ autocomplete: 'both' });
+
+            logic.handleEvent('inputChange', { target: { value: 'apr' }, inputType: 'deleteContentBackward' } as any);
+
+            expect(state.getState().inputValue).toBe('apr');
+        });
+
+        it('should select the completed option on blur', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ autocomplete: 'both', onChange });
+
+            logic.handleEvent('inputChange', { value: 'ban' });
+            logic.handleEvent('blur', null as any);
+
+            expect(state.getState().value).toBe('banana');
+            expect(onChange).toHaveBeenCalledWith('banana', mockOptions[2]);
+        });
+    });
+
+    describe('Keyboard Interaction', () => {
+        it('should open on ArrowDown and move the highlight', () => {
+            const { state, logic } = setup();
+
+            keyDown(logic, 'ArrowDown');
+            expect(state.getState().open).toBe(true);
+            expect(state.getState().highlightedIndex).toBe(0);
+
+            keyDown(logic, 'ArrowDown');
+            expect(state.getState().highlightedIndex).toBe(1);
+
+            keyDown(logic, 'ArrowUp');
+            keyDown(logic, 'ArrowUp');
+            expect(state.getState().highlightedIndex).toBe(3);
+        });
+
+        it('should open on ArrowUp with the last option highlighted', () => {
+            const { state, logic } = setup();
+
+            keyDown(logic, 'ArrowUp');
+
+            expect(state.getState().open).toBe(true);
+            expect(state.getState().highlightedIndex).toBe(3);
+        });
+
+        it('should select the highlighted option on Enter', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ onChange });
+            const preventDefault = vi.fn();
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+            keyDown(logic, 'ArrowDown');
+            keyDown(logic, 'Enter', { preventDefault });
+
+            const current = state.getState();
+            expect(current.value).toBe('apricot');
+            expect(current.inputValue).toBe('Apricot');
+            expect(current.open).toBe(false);
+            expect(onChange).toHaveBeenCalledWith('apricot', mockOptions[1]);
+            expect(preventDefault).toHaveBeenCalled();
+        });
+
+        it('should close on Escape, then clear on a second Escape', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ value: 'banana', onChange });
+
+            keyDown(logic, 'ArrowDown');
+            keyDown(logic, 'Escape');
+            expect(state.getState().open).toBe(false);
+            expect(state.getState().value).toBe('banana');
+
+            keyDown(logic, 'Escape');
+            expect(state.getState().value).toBeNull();
+            expect(state.getState().inputValue).toBe('');
+            expect(onChange).toHaveBeenCalledWith(null, null);
+        });
+
+        it('should drop an inline completion on Escape', () => {
+            const { state, logic } = setup({ autocomplete: 'both' });
+
+            logic.handleEvent('inputChange', { value: 'ban' });
+            keyDown(logic, 'Escape');
+
+            expect(state.getState().inputValue).toBe('ban');
+        });
+    });
+
+    describe('Committing Text', () => {
+        it('should revert unmatched text to the selected option on blur', () => {
+            const { state, logic } = setup({ value: 'apple' });
+
+            logic.handleEvent('inputChange', { value: 'xyz' });
+            logic.handleEvent('blur', null as any);
+
+            expect(state.getState().inputValue).toBe('Apple');
+            expect(state.getState().value).toBe('apple');
+            expect(state.getState().open).toBe(false);
+        });
+
+        it('should keep unmatched text as a custom value', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ allowCustomValue: true, onChange });
+
+            logic.handleEvent('inputChange', { value: 'Mango' });
+            keyDown(logic, 'Escape');
+            keyDown(logic, 'Enter');
+
+            expect(state.getState().value).toBe('Mango');
+            expect(state.getState().selectedOption).toBeNull();
+            expect(onChange).toHaveBeenCalledWith('Mango', null);
+        });
+
+        it('should clear the selection when the text is erased', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ value: 'apple', onChange });
+
+            logic.handleEvent('inputChange', { value: '' });
+            logic.handleEvent('blur', null as any);
+
+            expect(state.getState().value).toBeNull();
+            expect(onChange).toHaveBeenCalledWith(null, null);
+        });
+    });
+
+    describe('Creatable', () => {
+        it('should offer to create text that matches no label', () => {
+            const { state, logic } = setup({ creatable: true });
+
+            logic.handleEvent('inputChange', { value: 'Mango' });
+            expect(state.getState().canCreate).toBe(true);
+            expect(state.getState().highlightedIndex).toBe(0);
+
+            logic.handleEvent('inputChange', { value: 'apple' });
+            expect(state.getState().canCreate).toBe(false);
+        });
+
+        it('should create and select the option on Enter', () => {
+            const onChange = vi.fn();
+            const onCreate = vi.fn((query: string) => ({ value: query.toLowerCase(), label: query }));
+            const { state, logic } = setup({ creatable: true, onCreate, onChange });
+
+            logic.handleEvent('inputChange', { value: 'Mango ' });
+            keyDown(logic, 'Enter');
+
+            const created = { value: 'mango', label: 'Mango' };
+            expect(onCreate).toHaveBeenCalledWith('Mango');
+            expect(state.getState().options).toContainEqual(created);
+            expect(state.getState().value).toBe('mango');
+            expect(onChange).toHaveBeenCalledWith('mango', created);
+        });
+
+        it('should reference the create option as the active descendant', () => {
+            const { logic } = setup({ creatable: true });
+
+            logic.handleEvent('inputChange', { value: 'Mango' });
+
+            const inputProps = logic.getA11yProps('input');
+            const createProps = logic.getA11yProps('createOption');
+            expect(inputProps['aria-activedescendant']).toBe(createProps.id);
+            expect(createProps.role).toBe('option');
+        });
+    });
+
+    describe('Async Loading', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        it('should load options once typing pauses', async () => {
+            const loadOptions = vi.fn(async (query: string) =>
+                mockOptions.filter(option => option.label.toLowerCase().startsWith(query)));
+            const { state, logic } = setup({ options: [], loadOptions, debounce: 200 });
+
+            logic.handleEvent('inputChange', { value: 'a' });
+            logic.handleEvent('inputChange', { value: 'ap' });
+            logic.handleEvent('inputChange', { value: 'apr' });
+            expect(loadOptions).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(200);
+            expect(loadOptions).toHaveBeenCalledTimes(1);
+            expect(loadOptions).toHaveBeenCalledWith('apr', expect.any(AbortSignal));
+            expect(state.getState().loading).toBe(true);
+            expect(logic.getA11yProps('input')['aria-busy']).toBe(true);
+
+            await vi.runAllTimersAsync();
+
+            const current = state.getState();
+            expect(current.loading).toBe(false);
+            expect(current.filteredOptions.map(option => option.value)).toEqual(['apricot']);
+            expect(current.highlightedIndex).toBe(0);
+        });
+
+        it('should abort a pending request when the query changes', async () => {
+            const signals: AbortSignal[] = [];
+            const resolvers: Array<(options: ComboboxOption[]) => void> = [];
+            const loadOptions = vi.fn((_query: string, signal: AbortSignal) => {
+                signals.push(signal);
+                return new Promise<ComboboxOption[]>(resolve => resolvers.push(resolve));
+            });
+            const { state, logic } = setup({ options: [], loadOptions, debounce: 100 });
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+            vi.advanceTimersByTime(100);
+            logic.handleEvent('inputChange', { value: 'ban' });
+            vi.advanceTimersByTime(100);
+
+            expect(signals[0]!.aborted).toBe(true);
+            expect(signals[1]!.aborted).toBe(false);
+
+            // The stale response arrives last and is ignored
+            resolvers[1]!([mockOptions[2]!]);
+            resolvers[0]!([mockOptions[0]!]);
+            await vi.runAllTimersAsync();
+
+            expect(state.getState().filteredOptions).toEqual([mockOptions[2]]);
+        });
+
+        it('should not load queries shorter than minQueryLength', () => {
+            const loadOptions = vi.fn(async () => mockOptions);
+            const { state, logic } = setup({ options: [], loadOptions, minQueryLength: 2 });
+
+            logic.handleEvent('inputChange', { value: 'a' });
+            vi.runAllTimers();
+
+            expect(loadOptions).not.toHaveBeenCalled();
+            expect(state.getState().filteredOptions).toEqual([]);
+        });
+
+        it('should report load errors', async () => {
+            const onLoadError = vi.fn();
+            const failure = new Error('Network down');
+            const { state, logic } = setup({
+                options: [],
+                loadOptions: () => Promise.reject(failure),
+                onLoadError
+            });
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+            await vi.runAllTimersAsync();
+
+            expect(state.getState().loading).toBe(false);
+            expect(state.getState().error).toBe('Network down');
+            expect(onLoadError).toHaveBeenCalledWith(failure);
+        });
+
+        it('should stop loading when the listbox closes mid-request', async () => {
+            let resolve: (options: ComboboxOption[]) => void = () => { };
+            const { state, logic } = setup({
+                options: [],
+                loadOptions: () => new Promise(done => { resolve = done; })
+            });
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+            vi.runAllTimers();
+            expect(state.getState().loading).toBe(true);
+
+            keyDown(logic, 'Escape');
+
+            expect(state.getState().open).toBe(false);
+            expect(state.getState().loading).toBe(false);
+            expect(logic.getA11yProps('input')['aria-busy']).toBeUndefined();
+
+            resolve([mockOptions[0]!]);
+            await vi.runAllTimersAsync();
+
+            expect(state.getState().loading).toBe(false);
+            expect(logic.getA11yProps('input')['aria-busy']).toBeUndefined();
+        });
+
+        it('should abort loading on cleanup', () => {
+            let signal: AbortSignal | undefined;
+            const { logic } = setup({
+                options: [],
+                loadOptions: (_query, requestSignal) => {
+                    signal = requestSignal;
+                    return new Promise(() => { });
+                }
+            });
+
+            logic.handleEvent('inputChange', { value: 'ap' });
+            vi.runAllTimers();
+            logic.cleanup();
+
+            expect(signal?.aborted).toBe(true);
+        });
+    });
+
+    describe('Accessibility', () => {
+        it('should provide combobox props on the input', () => {
+            const { logic } = setup({ autocomplete: 'both' });
+
+            const inputProps = logic.getA11yProps('input');
+            const listboxProps = logic.getA11yProps('listbox');
+
+            expect(inputProps).toEqual(expect.objectContaining({
+                role: 'combobox',
+                'aria-expanded': false,
+                'aria-controls': listboxProps.id,
+                'aria-autocomplete': 'both',
+                'aria-activedescendant': undefined,
+                autoComplete: 'off'
+            }));
+            expect(listboxProps['aria-labelledby']).toBe(inputProps.id);
+        });
+
+        it('should reference the highlighted option', () => {
+            const { logic } = setup();
+
+            keyDown(logic, 'ArrowDown');
+            keyDown(logic, 'ArrowDown');
+
+            const optionProps = logic.getA11yProps('option')(1);
+            expect(logic.getA11yProps('input')['aria-activedescendant']).toBe(optionProps.id);
+            expect(optionProps.role).toBe('option');
+        });
+
+        it('should mark the selected and disabled options', () => {
+            const { logic } = setup({ value: 'apple' });
+
+            const option = logic.getA11yProps('option');
+            expect(option(0)['aria-selected']).toBe(true);
+            expect(option(3)['aria-disabled']).toBe(true);
+        });
+    });
+
+    describe('Pointer Interaction', () => {
+        it('should select a clicked option without blurring the input', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ onChange });
+            const handlers = logic.getInteractionHandlers('option');
+            const preventDefault = vi.fn();
+
+            logic.handleEvent('open', null);
+            handlers.onMouseDown({ optionIndex: 2, preventDefault });
+            handlers.onClick({ optionIndex: 2, preventDefault: vi.fn() });
+
+            expect(preventDefault).toHaveBeenCalled();
+            expect(state.getState().value).toBe('banana');
+            expect(onChange).toHaveBeenCalledWith('banana', mockOptions[2]);
+        });
+
+        it('should toggle the listbox from the trigger', () => {
+            const { state, logic } = setup();
+            const trigger = logic.getInteractionHandlers('trigger');
+
+            trigger.onClick({ preventDefault: vi.fn() });
+            expect(state.getState().open).toBe(true);
+
+            trigger.onClick({ preventDefault: vi.fn() });
+            expect(state.getState().open).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,545 @@
+/**
+ * Combobox Component Logic
+ * Follows the ARIA 1.2 combobox pattern: focus stays in the input and the
+ * highlighted option is referenced through aria-activedescendant
+ */
+
+import { LogicLayerBuilder, createComponentId } from '@stellarix-ui/core';
+import { announce } from '@stellarix-ui/utils';
+import type { ComboboxState, ComboboxEvents, ComboboxOptions, ComboboxOption } from './types.js';
+import type { ComboboxStateStore } from './state.js';
+
+/**
+ * Default filter: the label contains the query, ignoring case
+ */
+function matchesLabel(option: ComboboxOption, query: string): boolean {
+    return option.label.toLowerCase().includes(query.toLowerCase());
+}
+
+/**
+ * Creates the logic layer for the combobox component
+ */
+export function createComboboxLogic(
+    state: ComboboxStateStore,
+    options: ComboboxOptions = {}
+) {
+    const componentId = createComponentId('combobox');
+    const inputId = `${componentId}-input`;
+    const listboxId = `${componentId}-listbox`;
+    const createOptionId = `${componentId}-create`;
+
+    const autocomplete = options.autocomplete ?? 'list';
+    const filter = options.filter ?? matchesLabel;
+    const debounce = options.debounce ?? 300;
+    const minQueryLength = options.minQueryLength ?? 0;
+
+    // Input the text is typed in, to select an inline completion
+    let inputElement: HTMLInputElement | null = null;
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    let controller: AbortController | null = null;
+    // Query the current options were loaded for
+    let loadedQuery: string | null = null;
+
+    const announceResults = (count: number) => {
+        if (options.resultsAnnouncement === false) return;
+
+        announce(options.resultsAnnouncement
+            ? options.resultsAnnouncement(count)
+            : count === 0 ? 'No results' : count === 1 ? '1 result available' : `${count} results available`);
+    };
+
+    const canCreate = (query: string, candidates: ComboboxOption[]) => {
+        const text = query.trim().toLowerCase();
+        return Boolean(options.creatable && text && !candidates.some(option => option.label.toLowerCase() === text));
+    };
+
+    /**
+     * Completes the query with the first option starting with it, and selects
+     * the completed part so typing on replaces it
+     */
+    const completeInline = (query: string, candidates: ComboboxOption[]) => {
+        const lowerQuery = query.toLowerCase();
+        const match = query
+            ? candidates.find(option => !option.disabled && option.label.toLowerCase().startsWith(lowerQuery))
+            : undefined;
+        if (!match) return;
+
+        const completion = query + match.label.slice(query.length);
+        state.setInputValue(completion, query);
+        if (inputElement) {
+            inputElement.value = completion;
+            inputElement.setSelectionRange(query.length, completion.length);
+        }
+    };
+
+    /**
+     * Shows the options for a query
+     * @param filtered Whether the candidates already match the query, as loaded ones do
+     * @param complete Whether to complete the query inline
+     */
+    const showOptions = (query: string, candidates: ComboboxOption[], filtered: boolean, complete: boolean) => {
+        const shown = filtered || autocomplete === 'none' || !query
+            ? candidates
+            : candidates.filter(option => filter(option, query));
+
+        state.setFilteredOptions(shown, canCreate(query, candidates));
+        if (complete && autocomplete === 'both') {
+            completeInline(query, shown);
+        }
+        announceResults(shown.length);
+    };
+
+    const cancelLoad = () => {
+        if (debounceTimer) {
+            clearTimeout(debounceTimer);
+            debounceTimer = null;
+        }
+        if (controller) {
+            // The aborted request's handlers return early, so it is no longer loading
+            controller.abort();
+            controller = null;
+            state.setLoading(false);
+        }
+    };
+
+    /**
+     * Loads the options for a query once typing pauses; a newer query aborts the request
+     */
+    const loadOptions = (query: string, complete: boolean) => {
+        const loader = options.loadOptions!;
+        cancelLoad();
+
+        if (query.length < minQueryLength) {
+            loadedQuery = null;
+            state.setLoading(false);
+            state.setFilteredOptions([], false);
+            return;
+        }
+
+        debounceTimer = setTimeout(() => {
+            debounceTimer = null;
+            const request = new AbortController();
+            controller = request;
+            state.setLoading(true);
+            state.setError(null);
+
+            loader(query, request.signal).then(
+                loaded => {
+                    if (request.signal.aborted) return;
+                    controller = null;
+                    loadedQuery = query;
+                    state.setOptions(loaded);
+                    state.setLoading(false);
+                    showOptions(query, loaded, true, complete);
+                },
+                (error: unknown) => {
+                    if (request.signal.aborted) return;
+                    controller = null;
+                    state.setLoading(false);
+                    state.setError(error instanceof Error ? error.message : 'Failed to load options');
+                    if (options.onLoadError) {
+                        options.onLoadError(error);
+                    }
+                }
+            );
+        }, debounce);
+    };
+
+    /**
+     * Filters or loads the options for the typed text
+     */
+    const updateOptions = (query: string, currentState: ComboboxState, complete: boolean) => {
+        if (!options.loadOptions) {
+            showOptions(query, currentState.options, false, complete);
+        } else if (query === loadedQuery) {
+            showOptions(query, currentState.options, true, complete);
+        } else {
+            loadOptions(query, complete);
+        }
+    };
+
+    const openListbox = (currentState: ComboboxState) => {
+        if (currentState.disabled || currentState.readonly || currentState.open) return false;
+
+        state.setOpen(true);
+        updateOptions(currentState.query, currentState, false);
+
+        if (options.onOpen) {
+            options.onOpen();
+        }
+        return true;
+    };
+
+    const closeListbox = () => {
+        cancelLoad();
+        state.setOpen(false);
+        state.setHighlightedIndex(-1);
+
+        if (options.onClose) {
+            options.onClose();
+        }
+    };
+
+    const selectOption = (option: ComboboxOption) => {
+        if (option.disabled) return;
+
+        cancelLoad();
+        state.selectOption(option);
+
+        if (options.onChange) {
+            options.onChange(option.value, option);
+        }
+    };
+
+    const createOption = (query: string, currentState: ComboboxState) => {
+        const text = query.trim();
+        if (!text) return;
+
+        const created = (options.onCreate && options.onCreate(text)) || { value: text, label: text };
+        state.setOptions([...currentState.options, created]);
+        selectOption(created);
+    };
+
+    const selectHighlighted = (currentState: ComboboxState) => {
+        const { highlightedIndex, filteredOptions } = currentState;
+        if (highlightedIndex >= 0 && highlightedIndex < filteredOptions.length) {
+            selectOption(filteredOptions[highlightedIndex]!);
+        } else if (highlightedIndex === filteredOptions.length && currentState.canCreate) {
+            createOption(currentState.query, currentState);
+        }
+    };
+
+    /**
+     * Settles the typed text: selects the option with that label, keeps it
+     * as a custom value, or reverts to the selected option
+     */
+    const commitInput = (currentState: ComboboxState) => {
+        const text = currentState.inputValue.trim();
+
+        if (!text) {
+            if (currentState.value !== null) {
+                state.clearSelection();
+                if (options.onChange) {
+                    options.onChange(null, null);
+                }
+            }
+            return;
+        }
+
+        const exact = currentState.options.find(option =>
+            !option.disabled && option.label.toLowerCase() === text.toLowerCase());
+        if (exact) {
+            if (exact.value !== currentState.value) {
+                selectOption(exact);
+            } else {
+                state.setInputValue(exact.label, '');
+            }
+        } else if (options.allowCustomValue) {
+            if (text !== currentState.value) {
+                state.selectCustomValue(text);
+                if (options.onChange) {
+                    options.onChange(text, null);
+                }
+            }
+        } else {
+            state.setInputValue(currentState.selectedOption?.label ?? '', '');
+        }
+    };
+
+    const logic = new LogicLayerBuilder<ComboboxState, ComboboxEvents>()
+        .onEvent('inputChange', (currentState, payload: any) => {
+            if (currentState.disabled || currentState.readonly) return null;
+
+            // The payload is the input event when typed, or { value }
+            const target = payload?.target;
+            if (target && 'value' in target) {
+                inputElement = target as HTMLInputElement;
+            }
+            const value = String(payload && 'value' in payload ? payload.value : target?.value ?? '');
+            const inputType: string = payload?.inputType ?? payload?.nativeEvent?.inputType ?? '';
+
+            state.setInputValue(value);
+            if (!currentState.open) {
+                state.setOpen(true);
+                if (options.onOpen) {
+                    options.onOpen();
+                }
+            }
+            // Completing while deleting would put back what was just deleted
+            updateOptions(value, currentState, !inputType.startsWith('delete'));
+
+            if (options.onInputChange) {
+                options.onInputChange(value);
+            }
+
+            return null;
+        })
+
+        .onEvent('change', (_currentState, payload) => {
+            const value = payload && 'value' in payload ? payload.value : payload;
+            const option = payload && 'option' in payload ? payload.option : null;
+
+            state.setValue(value);
+            if (options.onChange) {
+                options.onChange(value, option);
+            }
+
+            return null;
+        })
+
+        .onEvent('open', (currentState) => {
+            openListbox(currentState);
+            return null;
+        })
+
+        .onEvent('close', (currentState) => {
+            if (currentState.open) {
+                closeListbox();
+            }
+            return null;
+        })
+
+        .onEvent('focus', (_currentState, payload) => {
+            const event = payload && 'event' in payload ? payload.event : payload;
+
+            state.setFocused(true);
+
+            if (options.onFocus && event) {
+                options.onFocus(event);
+            }
+
+            return null;
+        })
+
+        .onEvent('blur', (currentState, payload) => {
+            const event = payload && 'event' in payload ? payload.event : payload;
+
+            state.setFocused(false);
+            commitInput(currentState);
+            if (currentState.open) {
+                closeListbox();
+            }
+
+            if (options.onBlur && event) {
+                options.onBlur(event);
+            }
+
+            return null;
+        })
+
+        .onEvent('optionSelect', (_currentState, payload) => {
+            const option = payload && 'option' in payload ? payload.option : payload;
+
+            if (option) {
+                selectOption(option);
+            }
+
+            return null;
+        })
+
+        .onEvent('create', (currentState, payload) => {
+            const query = payload && 'query' in payload ? payload.query : currentState.query;
+
+            if (currentState.canCreate || options.creatable) {
+                createOption(query, currentState);
+            }
+
+            return null;
+        })
+
+        .onEvent('navigate', (_currentState, payload) => {
+            const direction = payload && 'direction' in payload ? payload.direction : payload;
+
+            switch (direction) {
+                case 'up':
+                    state.navigateUp();
+                    break;
+                case 'down':
+                    state.navigateDown();
+                    break;
+                case 'first':
+                    state.navigateToFirst();
+                    break;
+                case 'last':
+                    state.navigateToLast();
+                    break;
+            }
+
+            return null;
+        })
+
+        .withA11y('input', (state) => ({
+            role: 'combobox',
+            id: inputId,
+            'aria-expanded': state.open,
+            'aria-controls': listboxId,
+            'aria-autocomplete': autocomplete,
+            'aria-activedescendant': state.open && state.highlightedIndex >= 0
+                ? state.highlightedIndex < state.filteredOptions.length
+                    ? `${componentId}-option-${state.highlightedIndex}`
+                    : createOptionId
+                : undefined,
+            'aria-busy': state.loading || undefined,
+            'aria-disabled': state.disabled,
+            'aria-readonly': state.readonly,
+            autoComplete: 'off'
+        }))
+
+        .withA11y('trigger', (state) => ({
+            'aria-label': 'Show options',
+            'aria-controls': listboxId,
+            'aria-expanded': state.open,
+            tabIndex: -1
+        }))
+
+        .withA11y('listbox', () => ({
+            role: 'listbox',
+            id: listboxId,
+            'aria-labelledby': inputId
+        }))
+
+        .withA11y('option', (state) => (index: number) => ({
+            role: 'option',
+            id: `${componentId}-option-${index}`,
+            'aria-selected': state.filteredOptions[index]?.value === state.value,
+            'aria-disabled': state.filteredOptions[index]?.disabled || false
+        }))
+
+        .withA11y('createOption', () => ({
+            role: 'option',
+            id: createOptionId,
+            'aria-selected': false
+        }))
+
+        .withInteraction('input', 'onInput', () => 'inputChange')
+
+        .withInteraction('input', 'onKeyDown', (currentState, event) => {
+            if (currentState.disabled || currentState.readonly) return null;
+
+            switch (event.key) {
+                case 'ArrowDown':
+                    event.preventDefault();
+                    if (!currentState.open) {
+                        openListbox(currentState);
+                        return 'open';
+                    }
+                    state.navigateDown();
+                    return 'navigate';
+
+                case 'ArrowUp':
+                    event.preventDefault();
+                    if (!currentState.open) {
+                        if (openListbox(currentState)) {
+                            state.navigateToLast();
+                        }
+                        return 'open';
+                    }
+                    state.navigateUp();
+                    return 'navigate';
+
+                case 'Enter':
+                    if (currentState.open && currentState.highlightedIndex >= 0) {
+                        event.preventDefault();
+                        selectHighlighted(currentState);
+                        return null;
+                    }
+                    // Without a highlighted option Enter settles the text and submits the form
+                    commitInput(currentState);
+                    if (currentState.open) {
+                        closeListbox();
+                    }
+                    return null;
+
+                case 'Escape':
+                    if (currentState.open) {
+                        event.preventDefault();
+                        // Drop the inline completion
+                        state.setInputValue(currentState.query ? currentState.query : currentState.inputValue, currentState.query);
+                        closeListbox();
+                        return null;
+                    }
+                    if (currentState.inputValue) {
+                        event.preventDefault();
+                        state.clearSelection();
+                        if (currentState.value !== null && options.onChange) {
+                            options.onChange(null, null);
+                        }
+                    }
+                    return null;
+
+                case 'Tab':
+                    if (currentState.open) {
+                        closeListbox();
+                    }
+                    return null;
+            }
+
+            return null;
+        })
+
+        .withInteraction('input', 'onFocus', () => 'focus')
+
+        .withInteraction('input', 'onBlur', () => 'blur')
+
+        .withInteraction('trigger', 'onMouseDown', (_currentState, event) => {
+            // Keep focus in the input
+            event.preventDefault();
+            return null;
+        })
+
+        .withInteraction('trigger', 'onClick', (currentState) => {
+            if (currentState.open) {
+                closeListbox();
+                return null;
+            }
+            openListbox(currentState);
+            inputElement?.focus();
+            return null;
+        })
+
+        .withInteraction('option', 'onMouseDown', (_currentState, event) => {
+            // Keep focus in the input, so the click does not blur it first
+            event.preventDefault();
+            return null;
+        })
+
+        .withInteraction('option', 'onClick', (currentState, event) => {
+            const optionIndex = (event as any).optionIndex ?? 0;
+            const option = currentState.filteredOptions[optionIndex];
+            if (option) {
+                selectOption(option);
+            }
+            return null;
+        })
+
+        .withInteraction('option', 'onMouseEnter', (currentState, event) => {
+            const optionIndex = (event as any).optionIndex ?? 0;
+            if (currentState.filteredOptions[optionIndex] && !currentState.filteredOptions[optionIndex].disabled) {
+                state.setHighlightedIndex(optionIndex);
+            }
+            return null;
+        })
+
+        .withInteraction('createOption', 'onMouseDown', (_currentState, event) => {
+            event.preventDefault();
+            return null;
+        })
+
+        .withInteraction('createOption', 'onClick', () => 'create')
+
+        .withInteraction('createOption', 'onMouseEnter', (currentState) => {
+            state.setHighlightedIndex(currentState.filteredOptions.length);
+            return null;
+        })
+
+        .build();
+
+    // Abort pending loads on unmount
+    const originalCleanup = logic.cleanup;
+    logic.cleanup = (): void => {
+        cancelLoad();
+        originalCleanup();
+    };
+
+    return logic;
+}
@@ -0,0 +1,148 @@
+/**
+ * Combobox State Tests
+ * Tests for the combobox component state management
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createComboboxState } from './state.js';
+import type { ComboboxOption } from './types.js';
+
+describe('Combobox State', () => {
+    const mockOptions: ComboboxOption[] = [
+        { value: 'apple', label: 'Apple' },
+        { value: 'banana', label: 'Banana', disabled: true },
+        { value: 'cherry', label: 'Cherry' }
+    ];
+
+    describe('Initialization', () => {
+        it('should create state with default values', () => {
+            const state = createComboboxState();
+
+            expect(state.getState()).toEqual({
+                inputValue: '',
+                query: '',
+                value: null,
+                selectedOption: null,
+                open: false,
+                focused: false,
+                disabled: false,
+                readonly: false,
+                placeholder: '',
+                options: [],
+                filteredOptions: [],
+                highlightedIndex: -1,
+                canCreate: false,
+                loading: false,
+                error: null
+            });
+        });
+
+        it('should show the label of the initial value', () => {
+            const state = createComboboxState({ value: 'cherry', options: mockOptions });
+
+            expect(state.getState().inputValue).toBe('Cherry');
+            expect(state.getState().selectedOption).toEqual(mockOptions[2]);
+        });
+    });
+
+    describe('Filtered Options', () => {
+        it('should highlight the first enabled option', () => {
+            const state = createComboboxState({ options: mockOptions });
+
+            state.setFilteredOptions([mockOptions[1]!, mockOptions[2]!]);
+
+            expect(state.getState().highlightedIndex).toBe(1);
+        });
+
+        it('should highlight the create option when nothing matches', () => {
+            const state = createComboboxState({ options: mockOptions });
+
+            state.setFilteredOptions([], true);
+
+            expect(state.getState().highlightedIndex).toBe(0);
+            expect(state.isEmpty.get()).toBe(false);
+        });
+
+        it('should be empty without options or create option', () => {
+            const state = createComboboxState({ options: mockOptions });
+
+            state.setFilteredOptions([]);
+
+            expect(state.getState().highlightedIndex).toBe(-1);
+            expect(state.isEmpty.get()).toBe(true);
+        });
+    });
+
+    describe('Navigation', () => {
+        it('should wrap around, including the create option', () => {
+            const state = createComboboxState({ options: mockOptions });
+            state.setFilteredOptions(mockOptions, true);
+
+            state.navigateToLast();
+            expect(state.getState().highlightedIndex).toBe(3);
+
+            state.navigateDown();
+            expect(state.getState().highlightedIndex).toBe(0);
+
+            state.navigateUp();
+            expect(state.getState().highlightedIndex).toBe(3);
+        });
+
+        it('should expose the highlighted option', () => {
+            const state = createComboboxState({ options: mockOptions });
+            state.setFilteredOptions(mockOptions, true);
+
+            state.navigateToFirst();
+            expect(state.highlightedOption.get()).toEqual(mockOptions[0]);
+
+            state.navigateToLast();
+            expect(state.highlightedOption.get()).toBeNull();
+        });
+    });
+
+    describe('Selection', () => {
+        it('should select an option and show its label', () => {
+            const state = createComboboxState({ options: mockOptions });
+            state.setOpen(true);
+            state.setInputValue('Che');
+
+            state.selectOption(mockOptions[2]!);
+
+            expect(state.getState()).toEqual(expect.objectContaining({
+                value: 'cherry',
+                inputValue: 'Cherry',
+                query: '',
+                open: false,
+                highlightedIndex: -1
+            }));
+            expect(state.hasValue.get()).toBe(true);
+        });
+
+        it('should keep a custom value', () => {
+            const state = createComboboxState({ value: 'apple', options: mockOptions });
+
+            state.selectCustomValue('Mango');
+
+            expect(state.getState().value).toBe('Mango');
+            expect(state.getState().selectedOption).toBeNull();
+        });
+
+        it('should keep the selected option when the options change', () => {
+            const state = createComboboxState({ value: 'apple', options: mockOptions });
+
+            state.setOptions([]);
+            state.setValue('apple');
+
+            expect(state.getState().selectedOption).toEqual(mockOptions[0]);
+        });
+
+        it('should clear the selection', () => {
+            const state = createComboboxState({ value: 'apple', options: mockOptions });
+
+            state.clearSelection();
+
+            expect(state.getState().value).toBeNull();
+            expect(state.getState().inputValue).toBe('');
+        });
+    });
+});
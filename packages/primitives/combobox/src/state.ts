@@ -0,0 +1,188 @@
+/**
+ * Combobox Component State Management
+ * Manages the state for the combobox component
+ */
+
+import { createComponentState } from '@stellarix-ui/core';
+import type { ComboboxState, ComboboxOptions, ComboboxOption } from './types.js';
+
+/**
+ * Creates a combobox state store
+ */
+export function createComboboxState(options: ComboboxOptions = {}) {
+    const staticOptions = options.options || [];
+    const selectedOption = staticOptions.find(option => option.value === options.value) || null;
+
+    const initialState: ComboboxState = {
+        inputValue: selectedOption?.label || '',
+        query: '',
+        value: options.value ?? null,
+        selectedOption,
+        open: false,
+        focused: false,
+        disabled: options.disabled || false,
+        readonly: options.readonly || false,
+        placeholder: options.placeholder || '',
+        options: staticOptions,
+        filteredOptions: staticOptions,
+        highlightedIndex: -1,
+        canCreate: false,
+        loading: false,
+        error: null
+    };
+
+    const store = createComponentState('Combobox', initialState);
+
+    // Options plus the create option
+    const getItemCount = (state: ComboboxState) => state.filteredOptions.length + (state.canCreate ? 1 : 0);
+
+    // Extended API for combobox-specific state management
+    return {
+        ...store,
+
+        setInputValue: (inputValue: string, query: string = inputValue) => {
+            store.setState((prev) => ({ ...prev, inputValue, query }));
+        },
+
+        setValue: (value: string | null) => {
+            store.setState((prev) => ({
+                ...prev,
+                value,
+                selectedOption: value === null
+                    ? null
+                    : prev.options.find(option => option.value === value) || prev.selectedOption
+            }));
+        },
+
+        setOpen: (open: boolean) => {
+            store.setState((prev) => ({ ...prev, open }));
+        },
+
+        setFocused: (focused: boolean) => {
+            store.setState((prev) => ({ ...prev, focused }));
+        },
+
+        setDisabled: (disabled: boolean) => {
+            store.setState((prev) => ({ ...prev, disabled }));
+        },
+
+        setReadonly: (readonly: boolean) => {
+            store.setState((prev) => ({ ...prev, readonly }));
+        },
+
+        setOptions: (options: ComboboxOption[]) => {
+            store.setState((prev) => ({ ...prev, options }));
+        },
+
+        /**
+         * Sets the shown options, highlighting the first enabled one
+         */
+        setFilteredOptions: (filteredOptions: ComboboxOption[], canCreate: boolean = false) => {
+            store.setState((prev) => {
+                const firstEnabled = filteredOptions.findIndex(option => !option.disabled);
+                return {
+                    ...prev,
+                    filteredOptions,
+                    canCreate,
+                    highlightedIndex: firstEnabled >= 0 ? firstEnabled : canCreate ? filteredOptions.length : -1
+                };
+            });
+        },
+
+        setHighlightedIndex: (highlightedIndex: number) => {
+            store.setState((prev) => ({ ...prev, highlightedIndex }));
+        },
+
+        setLoading: (loading: boolean) => {
+            store.setState((prev) => ({ ...prev, loading }));
+        },
+
+        setError: (error: string | null) => {
+            store.setState((prev) => ({ ...prev, error }));
+        },
+
+        // Navigation methods, wrapping around
+        navigateUp: () => {
+            store.setState((prev) => {
+                const count = getItemCount(prev);
+                if (count === 0) return prev;
+
+                const highlightedIndex = prev.highlightedIndex > 0 ? prev.highlightedIndex - 1 : count - 1;
+                return { ...prev, highlightedIndex };
+            });
+        },
+
+        navigateDown: () => {
+            store.setState((prev) => {
+                const count = getItemCount(prev);
+                if (count === 0) return prev;
+
+                const highlightedIndex = prev.highlightedIndex < count - 1 ? prev.highlightedIndex + 1 : 0;
+                return { ...prev, highlightedIndex };
+            });
+        },
+
+        navigateToFirst: () => {
+            store.setState((prev) => getItemCount(prev) > 0 ? { ...prev, highlightedIndex: 0 } : prev);
+        },
+
+        navigateToLast: () => {
+            store.setState((prev) => {
+                const count = getItemCount(prev);
+                return count > 0 ? { ...prev, highlightedIndex: count - 1 } : prev;
+            });
+        },
+
+        // Selection methods
+        selectOption: (option: ComboboxOption) => {
+            store.setState((prev) => ({
+                ...prev,
+                value: option.value,
+                selectedOption: option,
+                inputValue: option.label,
+                query: '',
+                open: false,
+                highlightedIndex: -1,
+                canCreate: false
+            }));
+        },
+
+        /**
+         * Keeps the typed text as the value
+         */
+        selectCustomValue: (value: string) => {
+            store.setState((prev) => ({
+                ...prev,
+                value,
+                selectedOption: null,
+                inputValue: value,
+                query: '',
+                open: false,
+                highlightedIndex: -1,
+                canCreate: false
+            }));
+        },
+
+        clearSelection: () => {
+            store.setState((prev) => ({
+                ...prev,
+                value: null,
+                selectedOption: null,
+                inputValue: '',
+                query: ''
+            }));
+        },
+
+        // Computed properties
+        isInteractive: store.derive(state => !state.disabled && !state.readonly),
+        hasValue: store.derive(state => state.value !== null),
+        isEmpty: store.derive(state => !state.loading && getItemCount(state) === 0),
+        highlightedOption: store.derive(state =>
+            state.highlightedIndex >= 0 && state.highlightedIndex < state.filteredOptions.length
+                ? state.filteredOptions[state.highlightedIndex]
+                : null
+        )
+    };
+}
+
+export type ComboboxStateStore = ReturnType<typeof createComboboxState>;
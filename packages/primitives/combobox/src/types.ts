@@ -0,0 +1,384 @@
+/**
+ * Combobox Component Types
+ * Define all TypeScript interfaces for the combobox component
+ */
+
+/**
+ * Combobox option interface
+ */
+export interface ComboboxOption {
+    value: string;
+    label: string;
+    disabled?: boolean;
+}
+
+/**
+ * How typing in the input suggests options, as in `aria-autocomplete`
+ * - `list`: the listbox shows the options matching the text
+ * - `both`: as `list`, and the input completes the first match inline
+ * - `none`: the listbox shows every option
+ */
+export type ComboboxAutocomplete = 'list' | 'both' | 'none';
+
+/**
+ * Combobox component state
+ * Represents the internal state of the component
+ */
+export interface ComboboxState {
+    /**
+     * Text shown in the input, including an inline completion
+     */
+    inputValue: string;
+
+    /**
+     * Text the user typed, which options are filtered and loaded by
+     */
+    query: string;
+
+    /**
+     * Currently selected value
+     */
+    value: string | null;
+
+    /**
+     * Currently selected option; kept when loaded options no longer contain it
+     */
+    selectedOption: ComboboxOption | null;
+
+    /**
+     * Whether the listbox is open
+     */
+    open: boolean;
+
+    /**
+     * Whether the input has focus
+     */
+    focused: boolean;
+
+    /**
+     * Whether the component is disabled
+     */
+    disabled: boolean;
+
+    /**
+     * Whether the component is readonly
+     */
+    readonly: boolean;
+
+    /**
+     * Placeholder text of the input
+     */
+    placeholder: string;
+
+    /**
+     * Known options: the static ones, or the last loaded ones
+     */
+    options: ComboboxOption[];
+
+    /**
+     * Options shown in the listbox
+     */
+    filteredOptions: ComboboxOption[];
+
+    /**
+     * Index of the highlighted option. `filteredOptions.length` is the create option.
+     */
+    highlightedIndex: number;
+
+    /**
+     * Whether the listbox ends with an option creating the query
+     */
+    canCreate: boolean;
+
+    /**
+     * Whether options are loading
+     */
+    loading: boolean;
+
+    /**
+     * Message of the last failed load
+     */
+    error: string | null;
+}
+
+/**
+ * Combobox component options
+ * Configuration passed when creating the component
+ */
+export interface ComboboxOptions {
+    /**
+     * Initial selected value
+     * @default null
+     */
+    value?: string | null;
+
+    /**
+     * Static options; ignored for filtering when `loadOptions` is set
+     * @default []
+     */
+    options?: ComboboxOption[];
+
+    /**
+     * Loads the options for a query. Called `debounce` ms after typing stops;
+     * the signal aborts when a newer query starts loading.
+     */
+    loadOptions?: (query: string, signal: AbortSignal) => Promise<ComboboxOption[]>;
+
+    /**
+     * Milliseconds to wait after typing before loading options
+     * @default 300
+     */
+    debounce?: number;
+
+    /**
+     * Shortest query options are loaded for
+     * @default 0
+     */
+    minQueryLength?: number;
+
+    /**
+     * Whether options matching the query are shown, and completed inline
+     * @default 'list'
+     */
+    autocomplete?: ComboboxAutocomplete;
+
+    /**
+     * Whether an option matches the query, for static options
+     * @default Case-insensitive label match
+     */
+    filter?: (option: ComboboxOption, query: string) => boolean;
+
+    /**
+     * Whether the listbox offers to create an option from the query
+     * when no option has that label
+     * @default false
+     */
+    creatable?: boolean;
+
+    /**
+     * Label of the create option
+     * @default 'Create "<query>"'
+     */
+    createOptionLabel?: (query: string) => string;
+
+    /**
+     * Builds the created option; it is added to the options and selected
+     * @default An option with the query as value and label
+     */
+    onCreate?: (query: string) => ComboboxOption | void;
+
+    /**
+     * Whether text that matches no option is kept as the value
+     * on Enter and blur. Otherwise the input reverts to the selected option.
+     * @default false
+     */
+    allowCustomValue?: boolean;
+
+    /**
+     * Placeholder text
+     * @default ''
+     */
+    placeholder?: string;
+
+    /**
+     * Whether the component is disabled
+     * @default false
+     */
+    disabled?: boolean;
+
+    /**
+     * Whether the component is readonly
+     * @default false
+     */
+    readonly?: boolean;
+
+    /**
+     * Text shown while options load
+     * @default 'Loading...'
+     */
+    loadingMessage?: string;
+
+    /**
+     * Text shown when no option matches
+     * @default 'No results'
+     */
+    emptyMessage?: string;
+
+    /**
+     * Message announced to screen readers when the shown options change; `false` turns it off
+     * @default '<count> results available', or 'No results'
+     */
+    resultsAnnouncement?: ((count: number) => string) | false;
+
+    /**
+     * Callback when selected value changes; `option` is null for custom values
+     */
+    onChange?: (value: string | null, option: ComboboxOption | null) => void;
+
+    /**
+     * Callback when the input text changes
+     */
+    onInputChange?: (inputValue: string) => void;
+
+    /**
+     * Callback when loading options fails
+     */
+    onLoadError?: (error: unknown) => void;
+
+    /**
+     * Callback when component receives focus
+     */
+    onFocus?: (event: FocusEvent) => void;
+
+    /**
+     * Callback when component loses focus
+     */
+    onBlur?: (event: FocusEvent) => void;
+
+    /**
+     * Callback when listbox opens
+     */
+    onOpen?: () => void;
+
+    /**
+     * Callback when listbox closes
+     */
+    onClose?: () => void;
+}
+
+/**
+ * Combobox component events
+ * Events that can be triggered by the component
+ */
+export interface ComboboxEvents {
+    /**
+     * Fired when the input text changes
+     */
+    inputChange: {
+        value: string;
+    };
+
+    /**
+     * Fired when the selected value changes
+     */
+    change: {
+        value: string | null;
+        option: ComboboxOption | null;
+    };
+
+    /**
+     * Fired when listbox opens
+     */
+    open: null;
+
+    /**
+     * Fired when listbox closes
+     */
+    close: null;
+
+    /**
+     * Fired when component receives focus
+     */
+    focus: {
+        event: FocusEvent;
+    };
+
+    /**
+     * Fired when component loses focus
+     */
+    blur: {
+        event: FocusEvent;
+    };
+
+    /**
+     * Fired when an option is selected
+     */
+    optionSelect: {
+        option: ComboboxOption;
+    };
+
+    /**
+     * Fired when an option is created from the query
+     */
+    create: {
+        query: string;
+    };
+
+    /**
+     * Fired on keyboard navigation
+     */
+    navigate: {
+        direction: 'up' | 'down' | 'first' | 'last';
+    };
+}
+
+/**
+ * Helper methods returned by createCombobox
+ */
+export interface ComboboxHelpers {
+    /**
+     * Open the listbox
+     */
+    open: () => void;
+
+    /**
+     * Close the listbox
+     */
+    close: () => void;
+
+    /**
+     * Type text into the input, filtering or loading options
+     */
+    setInputValue: (value: string) => void;
+
+    /**
+     * Select an option by value
+     */
+    selectOption: (value: string) => void;
+
+    /**
+     * Clear the selection and the input
+     */
+    clear: () => void;
+
+    /**
+     * Get the currently selected option
+     */
+    getSelectedOption: () => ComboboxOption | null;
+}
+
+/**
+ * Combobox component props
+ * Props that can be passed to the component
+ */
+export interface ComboboxProps extends ComboboxOptions {
+    /**
+     * Additional CSS class
+     */
+    className?: string;
+
+    /**
+     * Component ID
+     */
+    id?: string;
+
+    /**
+     * ARIA label
+     */
+    'aria-label'?: string;
+
+    /**
+     * ARIA labelledby
+     */
+    'aria-labelledby'?: string;
+
+    /**
+     * ARIA describedby
+     */
+    'aria-describedby'?: string;
+
+    /**
+     * Test ID for testing
+     */
+    'data-testid'?: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * Container Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { getContainerStyles } from './state';
+import type { ContainerOptions, ContainerState } from './types';
+
+/**
+ * Creates the container anatomy: a single element sized by the state
+ * @param options Component options, for centering
+ */
+export function createContainerAnatomy(options: ContainerOptions = {}): ComponentAnatomy<ContainerState> {
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                slot: true,
+                props: ({ state }) => ({
+                    'data-size': state.size,
+                    'data-variant': state.variant,
+                    style: getContainerStyles(state, options.center !== false),
+                }),
+            },
+        },
+    };
+}
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createContainerState } from './state';
 import { createContainerLogic } from './logic';
+import { createContainerAnatomy } from './anatomy';
 import type { ContainerOptions, ContainerState, ContainerEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createContainer(options: ContainerOptions = {}) {
     return createPrimitive<ContainerState, ContainerEvents, ContainerOptions>('Container', {
         initialState: options,
         logicConfig: options,
+        anatomy: createContainerAnatomy(options),
         metadata: {
             accessibility: {
                 keyboardShortcuts: [],
@@ -52,6 +54,10 @@ export function createContainerWithImplementation(options: ContainerOptions = {}
     core.state = createContainerState(options);
     core.logic = createContainerLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -66,6 +72,8 @@ export type {
 } from './types';
 
 export type { ContainerStateStore } from './state';
+export { getContainerStyles } from './state';
+export { createContainerAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createContainerWithImplementation;
\ No newline at end of file
@@ -9,13 +9,9 @@ import type { ContainerOptions } from './types';
 describe('Container State', () => {
     it('should create state with default values', () => {
         const state = createContainerState();
-        const listener = vi.fn();
-        
-        state.subscribe(listener);
-        state.setSize('md'); // Trigger subscription with default value
         
         // Expect full state object
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             size: 'md',
             variant: 'default',
             maxWidth: undefined,
@@ -32,13 +28,9 @@ describe('Container State', () => {
         };
         
         const state = createContainerState(options);
-        const listener = vi.fn();
-        
-        state.subscribe(listener);
-        state.setSize('lg'); // Trigger subscription with initial value
         
         // Expect full state object with custom options
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             size: 'lg',
             variant: 'fluid',
             maxWidth: '1400px',
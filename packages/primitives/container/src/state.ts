@@ -13,7 +13,7 @@
  * - ALWAYS use function updater with spread operator
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { ContainerState, ContainerOptions, ContainerSize } from './types';
 
 /**
@@ -27,6 +27,51 @@ const SIZE_PRESETS: Record<ContainerSize, string> = {
     full: '100%',
 };
 
+/**
+ * Max width of a container: the custom one, or the preset of its size
+ */
+export function getContainerMaxWidth(state: ContainerState): string {
+    // Custom maxWidth overrides size preset
+    if (state.maxWidth) {
+        return state.maxWidth;
+    }
+    
+    // Fluid variant has no max-width
+    if (state.variant === 'fluid') {
+        return '100%';
+    }
+    
+    // Use size preset
+    return SIZE_PRESETS[state.size];
+}
+
+/**
+ * Inline styles of a container
+ * @param state Container state
+ * @param center Whether to center the container, true by default
+ */
+export function getContainerStyles(state: ContainerState, center = true): Record<string, any> {
+    const styles: Record<string, any> = {
+        maxWidth: getContainerMaxWidth(state),
+        padding: state.padding,
+        width: '100%',
+    };
+    
+    // Center the container by default
+    if (center && state.variant !== 'fluid') {
+        styles.marginLeft = 'auto';
+        styles.marginRight = 'auto';
+    }
+    
+    // Responsive variant adds responsive padding
+    if (state.variant === 'responsive') {
+        styles.paddingLeft = 'clamp(1rem, 5vw, 3rem)';
+        styles.paddingRight = 'clamp(1rem, 5vw, 3rem)';
+    }
+    
+    return styles;
+}
+
 /**
  * Extended state store with component-specific methods
  */
@@ -35,6 +80,7 @@ export interface ContainerStateStore {
     getState: () => ContainerState;
     setState: (updater: ContainerState | ((prev: ContainerState) => ContainerState)) => void;
     subscribe: (listener: (state: ContainerState) => void) => () => void;
+    select: <U>(selector: (state: ContainerState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: ContainerState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -90,48 +136,9 @@ export function createContainerState(options: ContainerOptions = {}): ContainerS
         },
         
         // Computed properties
-        getComputedMaxWidth: () => {
-            const state = store.getState();
-            
-            // Custom maxWidth overrides size preset
-            if (state.maxWidth) {
-                return state.maxWidth;
-            }
-            
-            // Fluid variant has no max-width
-            if (state.variant === 'fluid') {
-                return '100%';
-            }
-            
-            // Use size preset
-            return SIZE_PRESETS[state.size];
-        },
+        getComputedMaxWidth: () => getContainerMaxWidth(store.getState()),
         
-        getComputedStyles: () => {
-            const state = store.getState();
-            const maxWidth = extendedStore.getComputedMaxWidth();
-            const center = options.center !== false; // Default true
-            
-            const styles: Record<string, any> = {
-                maxWidth,
-                padding: state.padding,
-                width: '100%',
-            };
-            
-            // Center the container by default
-            if (center && state.variant !== 'fluid') {
-                styles.marginLeft = 'auto';
-                styles.marginRight = 'auto';
-            }
-            
-            // Responsive variant adds responsive padding
-            if (state.variant === 'responsive') {
-                styles.paddingLeft = 'clamp(1rem, 5vw, 3rem)';
-                styles.paddingRight = 'clamp(1rem, 5vw, 3rem)';
-            }
-            
-            return styles;
-        },
+        getComputedStyles: () => getContainerStyles(store.getState(), options.center !== false),
     };
     
     return extendedStore;
@@ -0,0 +1,164 @@
+/**
+ * DateField Component Stories
+ * Showcase of locales, time segments, ranges and use with a date picker
+ */
+
+import React, { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react';
+import { createDateFieldWithImplementation } from './src/index';
+import { createDatePickerWithImplementation } from '../date-picker/src/index';
+import { reactAdapter } from '@stellarix-ui/react';
+import type { DateFieldOptions } from './src/types';
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '4px',
+  fontSize: '0.875rem',
+  fontWeight: 500,
+};
+
+/**
+ * Creates a date field once per story render, with its React component
+ */
+function useDateField(options: DateFieldOptions) {
+  const [field] = useState(() => {
+    const core = createDateFieldWithImplementation(options);
+    return { core, Component: core.connect(reactAdapter) as React.ComponentType<any> };
+  });
+
+  return { DateField: field.Component, field: field.core };
+}
+
+const meta: Meta = {
+  title: 'Primitives/DateField',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+A date field made of segments, each stepped with the arrow keys or filled by typing.
+
+## Features
+- ✅ Spinbutton per segment
+- ✅ Segment order and clock of the locale
+- ✅ Type-to-fill with auto-advance
+- ✅ Earliest and latest dates, as with the DatePicker
+
+## Accessibility
+- Segments are spinbuttons named in the locale
+- Separators are hidden from assistive technology
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Empty field reporting its date
+export const Basic: Story = {
+  render: () => {
+    const [value, setValue] = useState<Date | null>(null);
+    const { DateField } = useDateField({ 'aria-labelledby': 'basic-label', onChange: setValue });
+
+    return (
+      <div>
+        <span id="basic-label" style={labelStyle}>Date of birth</span>
+        <DateField />
+        <p>Date: {value ? value.toDateString() : 'incomplete'}</p>
+      </div>
+    );
+  },
+};
+
+// The same date in the segment order of several locales
+export const Locales: Story = {
+  render: () => {
+    const value = new Date(2025, 10, 22, 14, 30);
+    const fields = [
+      useDateField({ value, locale: 'en-US', includeTime: true, 'aria-label': 'en-US' }),
+      useDateField({ value, locale: 'de-DE', includeTime: true, 'aria-label': 'de-DE' }),
+      useDateField({ value, locale: 'ja-JP', includeTime: true, 'aria-label': 'ja-JP' }),
+    ];
+
+    return (
+      <div style={{ display: 'grid', gap: '12px' }}>
+        {fields.map(({ DateField, field }) => (
+          <div key={field.state.getState().locale}>
+            <span style={labelStyle}>{field.state.getState().locale}</span>
+            <DateField />
+          </div>
+        ))}
+      </div>
+    );
+  },
+};
+
+// Date and time on the 12 hour clock
+export const WithTime: Story = {
+  render: () => {
+    const { DateField } = useDateField({ includeTime: true, hourCycle: 12, 'aria-label': 'Meeting start' });
+
+    return (
+      <div>
+        <span style={labelStyle}>Meeting start</span>
+        <DateField />
+        <p>Type "a" or "p" in the last segment to set the day period.</p>
+      </div>
+    );
+  },
+};
+
+// Dates outside the range are clamped
+export const MinMax: Story = {
+  render: () => {
+    const [value, setValue] = useState<Date | null>(new Date(2025, 5, 15));
+    const { DateField } = useDateField({
+      value,
+      minDate: new Date(2025, 0, 1),
+      maxDate: new Date(2025, 11, 31),
+      'aria-label': 'Date in 2025',
+      onChange: setValue,
+    });
+
+    return (
+      <div>
+        <span style={labelStyle}>Date in 2025</span>
+        <DateField />
+        <p>Date: {value ? value.toDateString() : 'incomplete'}</p>
+      </div>
+    );
+  },
+};
+
+// A field kept in sync with a date picker sharing its range
+export const WithDatePicker: Story = {
+  render: () => {
+    const range = { minDate: new Date(2025, 0, 1), maxDate: new Date(2025, 11, 31) };
+    const [components] = useState(() => {
+      const picker = createDatePickerWithImplementation({
+        ...range,
+        onChange: value => field.logic.handleEvent('change', { value }),
+      });
+      const field = createDateFieldWithImplementation({
+        ...range,
+        'aria-label': 'Departure',
+        onChange: value => picker.logic.handleEvent('change', { value }),
+      });
+
+      return {
+        DateField: field.connect(reactAdapter) as React.ComponentType<any>,
+        DatePicker: picker.connect(reactAdapter) as React.ComponentType<any>,
+      };
+    });
+
+    return (
+      <div style={{ display: 'grid', gap: '12px' }}>
+        <span style={labelStyle}>Departure</span>
+        <components.DateField />
+        <components.DatePicker />
+      </div>
+    );
+  },
+};
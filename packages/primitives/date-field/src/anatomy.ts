@@ -0,0 +1,57 @@
+/**
+ * DateField Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { getDateSegments } from './segments';
+import type { DateFieldState, DateSegment } from './types';
+
+export const dateFieldAnatomy: ComponentAnatomy<DateFieldState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: ({ state }) => ({
+                'data-disabled': state.disabled || undefined,
+                'data-readonly': state.readonly || undefined,
+                style: {
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    padding: '6px 8px',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    backgroundColor: state.disabled ? '#f3f4f6' : 'white',
+                    fontVariantNumeric: 'tabular-nums',
+                    whiteSpace: 'pre',
+                },
+            }),
+        },
+        segment: {
+            element: 'span',
+            items: ({ state }) => getDateSegments(state),
+            // Literal text repeats, e.g. the two slashes of 11/22/2025
+            key: ({ item, index }) => `${item.type}-${index}`,
+            a11yArgument: ({ item }) => item.type,
+            // Segment handlers read the segment type from the event
+            event: ({ item }) => ({ segmentType: item.type }),
+            text: ({ item }) => item.text,
+            props: ({ item }) => {
+                const segment = item as DateSegment;
+                const editable = segment.type !== 'literal';
+
+                return {
+                    'data-type': segment.type,
+                    'data-placeholder': segment.placeholder || undefined,
+                    inputMode: editable && segment.type !== 'dayPeriod' ? 'numeric' : undefined,
+                    style: {
+                        padding: editable ? '0 2px' : undefined,
+                        borderRadius: '2px',
+                        color: segment.placeholder ? '#9ca3af' : undefined,
+                        caretColor: 'transparent',
+                        outlineOffset: '1px',
+                    },
+                };
+            },
+        },
+    },
+};
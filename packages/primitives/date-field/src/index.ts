@@ -0,0 +1,99 @@
+/**
+ * DateField Component
+ * Framework-agnostic segmented date field, usable on its own or as the
+ * text input of a date picker
+ */
+
+import { createPrimitive } from '@stellarix-ui/core';
+import { createDateFieldState, dateFieldSnapshotFormat } from './state';
+import { createDateFieldLogic } from './logic';
+import { dateFieldAnatomy } from './anatomy';
+import type { DateFieldOptions, DateFieldState, DateFieldEvents } from './types';
+
+/**
+ * Creates a date field component instance
+ * @param options Configuration options
+ * @returns Date field component instance
+ */
+export function createDateField(options: DateFieldOptions = {}) {
+    return createPrimitive<DateFieldState, DateFieldEvents, DateFieldOptions>('DateField', {
+        initialState: options,
+        logicConfig: options,
+        anatomy: dateFieldAnatomy,
+        metadata: {
+            snapshot: dateFieldSnapshotFormat,
+            accessibility: {
+                role: 'group',
+                keyboardShortcuts: [
+                    'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight',
+                    'PageUp', 'PageDown', 'Home', 'End', 'Backspace', 'Delete'
+                ],
+                ariaAttributes: [
+                    'aria-label', 'aria-labelledby', 'aria-describedby',
+                    'aria-valuenow', 'aria-valuemin', 'aria-valuemax', 'aria-valuetext',
+                    'aria-disabled', 'aria-readonly'
+                ],
+                wcagLevel: 'AA',
+                patterns: ['spinbutton']
+            },
+            events: {
+                supported: ['change', 'segment-change', 'segment-focus'],
+                required: [],
+                custom: {}
+            },
+            structure: {
+                elements: {
+                    'root': {
+                        type: 'div',
+                        role: 'group',
+                        optional: false
+                    },
+                    'segment': {
+                        type: 'span',
+                        role: 'spinbutton',
+                        optional: false
+                    }
+                }
+            }
+        }
+    });
+}
+
+// Create the component factory with proper state and logic
+export function createDateFieldWithImplementation(options: DateFieldOptions = {}) {
+    const core = createDateField(options);
+
+    // Attach the actual implementation
+    core.state = createDateFieldState(options);
+    core.logic = createDateFieldLogic(core.state as any, options);
+
+    // Connect and initialize the logic layer
+    core.logic.connect(core.state as any);
+    core.logic.initialize();
+
+    return core;
+}
+
+// Test alias for factory function
+export const createDateFieldFactory = createDateFieldWithImplementation;
+
+// Re-export types
+export type {
+    DateFieldState,
+    DateFieldOptions,
+    DateFieldEvents,
+    DateFieldProps,
+    DateSegment,
+    DateSegmentType,
+    DateSegmentValues
+} from './types';
+
+// Re-export component factory
+export { createDateFieldState, dateFieldSnapshotFormat } from './state';
+export { createDateFieldLogic, clampDate } from './logic';
+export { getDateSegments, getSegmentLayout, getEditableSegments, getLocaleHourCycle } from './segments';
+export { dateFieldAnatomy } from './anatomy';
+export type { DateFieldStore } from './state';
+
+// Default export for convenience
+export default createDateFieldWithImplementation;
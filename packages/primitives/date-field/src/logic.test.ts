@@ -0,0 +1,201 @@
+/**
+ * DateField Logic Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createDateFieldState } from './state';
+import { createDateFieldLogic } from './logic';
+import type { DateFieldOptions, DateSegmentType } from './types';
+
+describe('createDateFieldLogic', () => {
+    const setup = (options: DateFieldOptions = {}) => {
+        const state = createDateFieldState(options);
+        const logic = createDateFieldLogic(state, options);
+        logic.connect(state);
+        logic.initialize();
+        return { state, logic };
+    };
+
+    /**
+     * Focusable segment elements of a field, in order
+     */
+    const createSegments = (types: DateSegmentType[]) => {
+        const group = document.createElement('div');
+        document.body.appendChild(group);
+        return Object.fromEntries(types.map(type => {
+            const element = document.createElement('span');
+            element.setAttribute('role', 'spinbutton');
+            element.tabIndex = 0;
+            group.appendChild(element);
+            return [type, element];
+        })) as Record<DateSegmentType, HTMLElement>;
+    };
+
+    const press = (logic: ReturnType<typeof createDateFieldLogic>, segmentType: DateSegmentType, key: string, currentTarget: HTMLElement | null = null) => {
+        const event = { key, segmentType, currentTarget, preventDefault: vi.fn() };
+        logic.getInteractionHandlers('segment').onKeyDown(event);
+        return event;
+    };
+
+    describe('Accessibility', () => {
+        it('should expose segments as spinbuttons', () => {
+            const { logic } = setup({ value: new Date(2025, 10, 22), 'aria-labelledby': 'label' });
+
+            const props = logic.getA11yProps('segment')('month');
+
+            expect(props).toMatchObject({
+                role: 'spinbutton',
+                'aria-label': 'month',
+                'aria-valuenow': 11,
+                'aria-valuemin': 1,
+                'aria-valuemax': 12,
+                'aria-valuetext': 'November',
+                tabIndex: 0,
+            });
+            expect(props['aria-labelledby']).toBe(`label ${props.id}`);
+            expect(logic.getA11yProps('segment')('literal')).toEqual({ 'aria-hidden': 'true' });
+            expect(logic.getA11yProps('root').role).toBe('group');
+        });
+
+        it('should bound the year by the earliest and latest dates', () => {
+            const { logic } = setup({ minDate: new Date(2020, 0, 1), maxDate: new Date(2030, 11, 31) });
+
+            expect(logic.getA11yProps('segment')('year')).toMatchObject({ 'aria-valuemin': 2020, 'aria-valuemax': 2030, 'aria-valuetext': 'Empty' });
+        });
+    });
+
+    describe('Arrow Keys', () => {
+        it('should step a segment and wrap around its range', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ value: new Date(2025, 11, 31), onChange });
+
+            press(logic, 'month', 'ArrowUp');
+
+            expect(state.getState().segments.month).toBe(1);
+            expect(onChange).toHaveBeenCalledWith(new Date(2025, 0, 31));
+        });
+
+        it('should start an empty segment from today', () => {
+            const { state, logic } = setup();
+
+            press(logic, 'year', 'ArrowDown');
+
+            expect(state.getState().segments.year).toBe(new Date().getFullYear());
+            expect(state.getState().value).toBeNull();
+        });
+
+        it('should jump with PageUp, Home and End', () => {
+            const { state, logic } = setup({ value: new Date(2025, 10, 22) });
+
+            press(logic, 'day', 'PageUp');
+            expect(state.getState().segments.day).toBe(29);
+
+            press(logic, 'day', 'End');
+            expect(state.getState().segments.day).toBe(30);
+
+            press(logic, 'day', 'Home');
+            expect(state.getState().segments.day).toBe(1);
+        });
+
+        it('should move focus between segments', () => {
+            const { logic } = setup();
+            const segments = createSegments(['month', 'day', 'year']);
+
+            press(logic, 'day', 'ArrowRight', segments.day);
+            expect(document.activeElement).toBe(segments.year);
+
+            press(logic, 'day', 'ArrowLeft', segments.day);
+            expect(document.activeElement).toBe(segments.month);
+        });
+    });
+
+    describe('Typing', () => {
+        it('should fill segments and move on once no digit fits', () => {
+            const onChange = vi.fn();
+            const { logic } = setup({ onChange });
+            const segments = createSegments(['month', 'day', 'year']);
+
+            press(logic, 'month', '1', segments.month);
+            expect(document.activeElement).not.toBe(segments.day);
+            press(logic, 'month', '1', segments.month);
+            expect(document.activeElement).toBe(segments.day);
+
+            press(logic, 'day', '5', segments.day);
+            expect(document.activeElement).toBe(segments.year);
+
+            '2025'.split('').forEach(digit => press(logic, 'year', digit, segments.year));
+
+            expect(onChange).toHaveBeenCalledWith(new Date(2025, 10, 5));
+        });
+
+        it('should read two typed year digits as a two-digit year', () => {
+            const { state, logic } = setup({ value: new Date(2025, 10, 22) });
+            logic.handleEvent('segmentFocus', { segment: 'year' });
+
+            press(logic, 'year', '3');
+            press(logic, 'year', '0');
+            logic.getInteractionHandlers('segment').onBlur({ segmentType: 'year' });
+
+            expect(state.getState().value).toEqual(new Date(2030, 10, 22));
+        });
+
+        it('should set the day period from a letter', () => {
+            const { state, logic } = setup({ value: new Date(2025, 10, 22, 9, 30), includeTime: true, hourCycle: 12 });
+
+            press(logic, 'dayPeriod', 'p');
+
+            expect(state.getState().value).toEqual(new Date(2025, 10, 22, 21, 30));
+        });
+
+        it('should clear a segment with Backspace', () => {
+            const onChange = vi.fn();
+            const { state, logic } = setup({ value: new Date(2025, 10, 22), onChange });
+
+            press(logic, 'day', 'Backspace');
+
+            expect(state.getState().segments.day).toBeNull();
+            expect(onChange).toHaveBeenCalledWith(null);
+        });
+
+        it('should not edit a readonly field', () => {
+            const { state, logic } = setup({ value: new Date(2025, 10, 22), readonly: true });
+
+            press(logic, 'day', 'ArrowUp');
+            press(logic, 'day', '1');
+
+            expect(state.getState().segments.day).toBe(22);
+        });
+    });
+
+    describe('Clamping', () => {
+        it('should clamp a complete date to the earliest and latest dates', () => {
+            const { state, logic } = setup({ value: new Date(2025, 10, 22), minDate: new Date(2025, 10, 10, 15), maxDate: new Date(2025, 11, 24) });
+
+            press(logic, 'month', 'ArrowUp');
+            expect(state.getState().value).toEqual(new Date(2025, 11, 22));
+
+            press(logic, 'day', 'PageUp');
+            expect(state.getState().value).toEqual(new Date(2025, 11, 24));
+
+            logic.handleEvent('change', { value: new Date(2025, 0, 1) });
+            expect(state.getState().value).toEqual(new Date(2025, 10, 10));
+        });
+
+        it('should keep the day within its month', () => {
+            const { state, logic } = setup({ value: new Date(2025, 0, 31) });
+
+            press(logic, 'month', 'ArrowUp');
+
+            expect(state.getState().value).toEqual(new Date(2025, 1, 28));
+        });
+
+        it('should only report actual changes', () => {
+            const onChange = vi.fn();
+            const { logic } = setup({ value: new Date(2025, 10, 22), onChange });
+
+            logic.handleEvent('change', { value: new Date(2025, 10, 22) });
+
+            expect(onChange).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,354 @@
+/**
+ * DateField Component Logic
+ * Each segment is a spinbutton: arrow keys step it, digits fill it and
+ * move on to the next segment once no further digit fits, and a complete
+ * date is clamped to the earliest and latest dates of the field.
+ */
+
+import { LogicLayerBuilder, createComponentId } from '@stellarix-ui/core';
+import { getDayPeriodNames, getMonthNames, resolveTwoDigitYear } from '@stellarix-ui/utils';
+import { getSegmentRange, getSegmentValues, getSegmentsDate } from './segments';
+import type { DateFieldStore } from './state';
+import type { DateFieldState, DateFieldEvents, DateFieldOptions, DateSegmentType } from './types';
+
+/**
+ * Steps of PageUp and PageDown
+ */
+const PAGE_STEPS: Record<DateSegmentType, number> = {
+    year: 5,
+    month: 3,
+    day: 7,
+    hour: 2,
+    minute: 15,
+    dayPeriod: 1,
+};
+
+/**
+ * Keys that move on to the next segment, as typed between segments
+ */
+const SEPARATOR_KEYS = ['/', '-', '.', ',', ':', ' '];
+
+/**
+ * Start of the day of a date
+ */
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Keeps a date within the earliest and latest dates of the field. Without
+ * time segments only the day counts, so a minimum of 10:00 still accepts
+ * its day.
+ */
+export function clampDate(date: Date, { minDate, maxDate, includeTime }: DateFieldState): Date {
+    const day = (value: Date) => includeTime ? value : startOfDay(value);
+
+    if (minDate && day(date) < day(minDate)) {
+        return new Date(day(minDate));
+    }
+    if (maxDate && day(date) > day(maxDate)) {
+        return new Date(day(maxDate));
+    }
+    return date;
+}
+
+/**
+ * Name of a segment in a locale, e.g. "month" or "Monat"
+ */
+function getSegmentLabel(type: DateSegmentType, locale: string): string {
+    try {
+        return new Intl.DisplayNames(locale, { type: 'dateTimeField' }).of(type) ?? type;
+    } catch {
+        return type;
+    }
+}
+
+/**
+ * Moves focus to the segment before or after a segment element
+ */
+function focusSibling(element: HTMLElement | null, offset: 1 | -1) {
+    const segments = Array.from(element?.parentElement?.querySelectorAll<HTMLElement>('[role="spinbutton"]') ?? []);
+    const index = element ? segments.indexOf(element) : -1;
+    if (index !== -1) {
+        segments[index + offset]?.focus();
+    }
+}
+
+/**
+ * Creates the logic layer for the date field component
+ */
+export function createDateFieldLogic(
+    state: DateFieldStore,
+    options: DateFieldOptions = {}
+) {
+    const fieldId = options.id ?? createComponentId('date-field');
+    const segmentId = (type: DateSegmentType) => `${fieldId}-${type}`;
+
+    /**
+     * Updates the date from the segments. A complete date is clamped and
+     * fills the segments again, normalizing a day past the end of its month.
+     */
+    const commit = () => {
+        const currentState = state.getState();
+        const previous = currentState.value;
+        const date = getSegmentsDate(currentState);
+
+        if (date) {
+            state.setValue(clampDate(date, currentState));
+        } else {
+            state.setSegmentsDate(null);
+        }
+
+        const value = state.getState().value;
+        if (options.onChange && previous?.getTime() !== value?.getTime()) {
+            options.onChange(value);
+        }
+    };
+
+    /**
+     * Ends typing into the focused segment. One or two typed year digits
+     * are read as a two-digit year.
+     */
+    const finishTyping = () => {
+        const { focusedSegment, typedText } = state.getState();
+        if (focusedSegment === 'year' && typedText.length > 0 && typedText.length <= 2) {
+            state.setSegment('year', resolveTwoDigitYear(Number(typedText), options.twoDigitYearPivot));
+        } else if (typedText) {
+            state.setTypedText('');
+        }
+        commit();
+    };
+
+    const setSegment = (type: DateSegmentType, value: number | null) => {
+        state.setSegment(type, value);
+        commit();
+    };
+
+    /**
+     * Steps a segment, wrapping around its range except for the year.
+     * An empty segment starts from the current date.
+     */
+    const stepSegment = (type: DateSegmentType, delta: number) => {
+        const currentState = state.getState();
+        const { min, max } = getSegmentRange(type, currentState);
+        const value = currentState.segments[type];
+
+        if (value === null) {
+            setSegment(type, getSegmentValues(new Date(), currentState.hourCycle)[type]);
+        } else if (type === 'year') {
+            setSegment(type, Math.min(Math.max(value + delta, min), max));
+        } else {
+            const size = max - min + 1;
+            setSegment(type, min + ((((value - min + delta) % size) + size) % size));
+        }
+    };
+
+    /**
+     * Adds a typed digit to a segment. A digit that does not fit after the
+     * ones typed so far starts over, and focus moves on once no further
+     * digit fits.
+     * @returns Whether focus should move to the next segment
+     */
+    const typeDigit = (type: DateSegmentType, digit: string): boolean => {
+        const currentState = state.getState();
+        const { min, max } = getSegmentRange(type, currentState);
+        // Years are clamped once complete, so any four digits can be typed
+        const limit = type === 'year' ? 9999 : max;
+        const maxLength = String(limit).length;
+
+        let text = currentState.typedText + digit;
+        if (text.length > maxLength || Number(text) > limit) {
+            text = digit;
+        }
+
+        const value = Number(text);
+        state.setSegment(type, type === 'year' || value >= min ? value : null, text);
+
+        return text.length >= maxLength || value * 10 > limit;
+    };
+
+    /**
+     * Sets the day period from a typed letter, e.g. "a" or "p"
+     */
+    const typeDayPeriod = (key: string, locale: string): boolean => {
+        const index = getDayPeriodNames(locale).findIndex(name => name.toLowerCase().startsWith(key.toLowerCase()));
+        if (index === -1) {
+            return false;
+        }
+        setSegment('dayPeriod', index);
+        return true;
+    };
+
+    const logic = new LogicLayerBuilder<DateFieldState, DateFieldEvents>()
+        .onEvent('change', (currentState, payload: any) => {
+            const value: Date | null = payload?.value ?? null;
+            const previous = currentState.value;
+            // Without time segments the date is the start of its day, as a segment commit makes it
+            const date = value && !currentState.includeTime ? startOfDay(value) : value;
+            state.setValue(date ? clampDate(date, currentState) : null);
+
+            const next = state.getState().value;
+            if (options.onChange && previous?.getTime() !== next?.getTime()) {
+                options.onChange(next);
+            }
+            return null;
+        })
+
+        .onEvent('segmentChange', (currentState, payload: any) => {
+            if (!payload?.segment || currentState.disabled || currentState.readonly) {
+                return null;
+            }
+
+            const { min, max } = getSegmentRange(payload.segment, currentState);
+            const value = payload.value === null ? null : Math.min(Math.max(payload.value, min), max);
+            setSegment(payload.segment, value);
+            return null;
+        })
+
+        // Focus events of segments carry the segment type of their element
+        .onEvent('segmentFocus', (_currentState, payload: any) => {
+            state.setFocusedSegment(payload?.segment ?? payload?.segmentType ?? null);
+            return null;
+        })
+
+        .withA11y('root', (currentState) => ({
+            role: 'group',
+            id: fieldId,
+            'aria-label': options['aria-label'],
+            'aria-labelledby': options['aria-labelledby'],
+            'aria-describedby': options['aria-describedby'],
+            'aria-disabled': currentState.disabled ? 'true' : undefined,
+        }))
+
+        // Literal text is read as part of the values, so only spinbuttons are exposed
+        .withA11y('segment', (currentState) => (type: DateSegmentType | 'literal') => {
+            if (type === 'literal') {
+                return { 'aria-hidden': 'true' };
+            }
+
+            const value = currentState.segments[type];
+            const { min, max } = getSegmentRange(type, currentState);
+            let valueText: string | undefined;
+            if (value === null) {
+                valueText = 'Empty';
+            } else if (type === 'month') {
+                valueText = getMonthNames(currentState.locale)[value - 1];
+            } else if (type === 'dayPeriod') {
+                valueText = getDayPeriodNames(currentState.locale)[value];
+            }
+
+            return {
+                role: 'spinbutton',
+                id: segmentId(type),
+                'aria-label': getSegmentLabel(type, currentState.locale),
+                // Read as the field label followed by the segment name
+                'aria-labelledby': options['aria-labelledby'] ? `${options['aria-labelledby']} ${segmentId(type)}` : undefined,
+                'aria-describedby': options['aria-describedby'],
+                'aria-valuenow': value ?? undefined,
+                'aria-valuemin': min,
+                'aria-valuemax': max,
+                'aria-valuetext': valueText,
+                'aria-disabled': currentState.disabled ? 'true' : undefined,
+                'aria-readonly': currentState.readonly ? 'true' : undefined,
+                tabIndex: currentState.disabled ? -1 : 0,
+            };
+        })
+
+        .withInteraction('segment', 'onFocus', (_currentState, event: FocusEvent & { segmentType?: DateSegmentType | 'literal' }) => {
+            if (!event.segmentType || event.segmentType === 'literal') {
+                return null;
+            }
+            return 'segmentFocus';
+        })
+
+        .withInteraction('segment', 'onBlur', (currentState, event: FocusEvent & { segmentType?: DateSegmentType | 'literal' }) => {
+            if (currentState.focusedSegment && currentState.focusedSegment === event.segmentType) {
+                finishTyping();
+                state.setFocusedSegment(null);
+            }
+            return null;
+        })
+
+        .withInteraction('segment', 'onKeyDown', (currentState, event: KeyboardEvent & { segmentType?: DateSegmentType | 'literal' }) => {
+            const type = event.segmentType;
+            if (!type || type === 'literal' || currentState.disabled || event.ctrlKey || event.metaKey || event.altKey) {
+                return null;
+            }
+
+            const element = event.currentTarget as HTMLElement | null;
+            const editable = !currentState.readonly;
+            const moveNext = () => {
+                finishTyping();
+                focusSibling(element, 1);
+            };
+
+            switch (event.key) {
+                case 'ArrowLeft':
+                    event.preventDefault();
+                    finishTyping();
+                    focusSibling(element, -1);
+                    return null;
+                case 'ArrowRight':
+                    event.preventDefault();
+                    moveNext();
+                    return null;
+            }
+
+            if (!editable) {
+                return null;
+            }
+
+            const { min, max } = getSegmentRange(type, currentState);
+            switch (event.key) {
+                case 'ArrowUp':
+                case 'ArrowDown':
+                case 'PageUp':
+                case 'PageDown': {
+                    event.preventDefault();
+                    const step = event.key.startsWith('Page') ? PAGE_STEPS[type] : 1;
+                    state.setTypedText('');
+                    stepSegment(type, event.key === 'ArrowUp' || event.key === 'PageUp' ? step : -step);
+                    return null;
+                }
+                case 'Home':
+                    event.preventDefault();
+                    setSegment(type, min);
+                    return null;
+                case 'End':
+                    event.preventDefault();
+                    setSegment(type, max);
+                    return null;
+                case 'Backspace':
+                case 'Delete': {
+                    event.preventDefault();
+                    const text = currentState.typedText.slice(0, -1);
+                    state.setSegment(type, text ? Number(text) : null, text);
+                    commit();
+                    return null;
+                }
+            }
+
+            if (/^\d$/.test(event.key) && type !== 'dayPeriod') {
+                event.preventDefault();
+                if (typeDigit(type, event.key)) {
+                    moveNext();
+                }
+            } else if (type === 'dayPeriod' && /^\p{L}$/u.test(event.key)) {
+                event.preventDefault();
+                if (typeDayPeriod(event.key, currentState.locale)) {
+                    focusSibling(element, 1);
+                }
+            } else if (SEPARATOR_KEYS.includes(event.key)) {
+                // Typing the separator after a segment moves on, as "3/" would
+                event.preventDefault();
+                if (currentState.segments[type] !== null) {
+                    moveNext();
+                }
+            }
+            return null;
+        })
+
+        .build();
+
+    return logic;
+}
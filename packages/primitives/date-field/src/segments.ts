@@ -0,0 +1,217 @@
+/**
+ * DateField Segments
+ * Segment order of a locale, segment ranges, and conversions between
+ * segment values and dates
+ */
+
+import { getDayPeriodNames } from '@stellarix-ui/utils';
+import type { DateFieldState, DateSegment, DateSegmentType, DateSegmentValues } from './types';
+
+/**
+ * Segment of a layout: an editable segment, or literal text between two
+ */
+interface LayoutSegment {
+    type: DateSegmentType | 'literal';
+    text: string;
+}
+
+const SEGMENT_TYPES: readonly string[] = ['year', 'month', 'day', 'hour', 'minute', 'dayPeriod'];
+
+const layoutCache = new Map<string, LayoutSegment[]>();
+
+/**
+ * Empty segment values
+ */
+export const EMPTY_SEGMENTS: DateSegmentValues = {
+    year: null,
+    month: null,
+    day: null,
+    hour: null,
+    minute: null,
+    dayPeriod: null,
+};
+
+/**
+ * Days in a month, 1 for January
+ */
+export function getDaysInMonth(year: number, month: number): number {
+    const date = new Date(Date.UTC(2000, 0, 1));
+    date.setUTCFullYear(year, month, 0);
+    return date.getUTCDate();
+}
+
+/**
+ * Clock a locale writes times with
+ * @param locale Locale to look up
+ */
+export function getLocaleHourCycle(locale: string): 12 | 24 {
+    const hourCycle = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hourCycle;
+    return hourCycle === 'h11' || hourCycle === 'h12' ? 12 : 24;
+}
+
+/**
+ * Segments in the order a locale writes a date, e.g. month, day and year
+ * for en-US and day, month and year for de-DE
+ * @param locale Locale of the order
+ * @param includeTime Whether to add hour and minute segments
+ * @param hourCycle Clock of the hour segment; the 12 hour clock adds a day period segment
+ */
+export function getSegmentLayout(locale: string, includeTime: boolean, hourCycle: 12 | 24): LayoutSegment[] {
+    const key = `${locale}|${includeTime}|${hourCycle}`;
+    const cached = layoutCache.get(key);
+    if (cached) {
+        return cached;
+    }
+
+    const formatter = new Intl.DateTimeFormat(locale, {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        ...(includeTime ? { hour: '2-digit', minute: '2-digit', hourCycle: hourCycle === 12 ? 'h12' : 'h23' } as const : {}),
+        timeZone: 'UTC',
+    });
+
+    const layout: LayoutSegment[] = [];
+    formatter.formatToParts(new Date(Date.UTC(2001, 10, 22, 13, 5))).forEach(part => {
+        if (SEGMENT_TYPES.includes(part.type)) {
+            layout.push({ type: part.type as DateSegmentType, text: '' });
+            return;
+        }
+
+        // Literal text, with no-break spaces made plain; parts such as an era are left out
+        const text = part.type === 'literal' ? part.value.replace(/[\u00a0\u202f]/g, ' ') : '';
+        const last = layout[layout.length - 1];
+        if (!text) {
+            return;
+        }
+        if (last?.type === 'literal') {
+            last.text += text;
+        } else {
+            layout.push({ type: 'literal', text });
+        }
+    });
+
+    layoutCache.set(key, layout);
+    return layout;
+}
+
+/**
+ * Editable segments of a field, in the order they are shown
+ * @param state Field state
+ */
+export function getEditableSegments(state: DateFieldState): DateSegmentType[] {
+    return getSegmentLayout(state.locale, state.includeTime, state.hourCycle)
+        .filter(segment => segment.type !== 'literal')
+        .map(segment => segment.type as DateSegmentType);
+}
+
+/**
+ * Range of a segment. The day range follows the month and year, and the
+ * year range follows the earliest and latest dates of the field.
+ * @param type Segment type
+ * @param state Field state
+ */
+export function getSegmentRange(type: DateSegmentType, state: DateFieldState): { min: number; max: number } {
+    const { segments, hourCycle, minDate, maxDate } = state;
+
+    switch (type) {
+        case 'year':
+            return { min: minDate?.getFullYear() ?? 1, max: maxDate?.getFullYear() ?? 9999 };
+        case 'month':
+            return { min: 1, max: 12 };
+        case 'day':
+            return { min: 1, max: segments.month === null ? 31 : getDaysInMonth(segments.year ?? 2000, segments.month) };
+        case 'hour':
+            return hourCycle === 12 ? { min: 1, max: 12 } : { min: 0, max: 23 };
+        case 'minute':
+            return { min: 0, max: 59 };
+        case 'dayPeriod':
+            return { min: 0, max: 1 };
+    }
+}
+
+/**
+ * Segment values of a date
+ * @param date Date to split
+ * @param hourCycle Clock of the hour segment
+ */
+export function getSegmentValues(date: Date, hourCycle: 12 | 24): DateSegmentValues {
+    const hour = date.getHours();
+
+    return {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: hourCycle === 12 ? hour % 12 || 12 : hour,
+        minute: date.getMinutes(),
+        dayPeriod: hour < 12 ? 0 : 1,
+    };
+}
+
+/**
+ * Date the segments make up. A day past the end of its month becomes the
+ * last day of the month.
+ * @param state Field state
+ * @returns The date, or `null` while a shown segment is empty
+ */
+export function getSegmentsDate(state: DateFieldState): Date | null {
+    const { segments, includeTime, hourCycle } = state;
+    const { year, month, day } = segments;
+    if (year === null || month === null || day === null) {
+        return null;
+    }
+
+    let hour = 0;
+    let minute = 0;
+    if (includeTime) {
+        if (segments.hour === null || segments.minute === null || (hourCycle === 12 && segments.dayPeriod === null)) {
+            return null;
+        }
+        hour = hourCycle === 12 ? (segments.hour % 12) + (segments.dayPeriod! * 12) : segments.hour;
+        minute = segments.minute;
+    }
+
+    const date = new Date(2000, 0, 1, hour, minute);
+    date.setFullYear(year, month - 1, Math.min(day, getDaysInMonth(year, month)));
+    return date;
+}
+
+/**
+ * Text of a segment with a value
+ */
+function formatSegment(type: DateSegmentType, value: number, locale: string): string {
+    switch (type) {
+        case 'year':
+            return String(value).padStart(4, '0');
+        case 'dayPeriod':
+            return getDayPeriodNames(locale)[value]!;
+        default:
+            return String(value).padStart(2, '0');
+    }
+}
+
+/**
+ * Segments to render, with their text and range
+ * @param state Field state
+ */
+export function getDateSegments(state: DateFieldState): DateSegment[] {
+    return getSegmentLayout(state.locale, state.includeTime, state.hourCycle).map(({ type, text }) => {
+        if (type === 'literal') {
+            return { type, text, value: null, min: 0, max: 0, placeholder: false };
+        }
+
+        const value = state.segments[type];
+        const typing = state.focusedSegment === type && state.typedText !== '';
+        const placeholder = value === null && !typing;
+
+        return {
+            type,
+            text: typing
+                ? state.typedText
+                : value === null ? '–'.repeat(type === 'year' ? 4 : 2) : formatSegment(type, value, state.locale),
+            value,
+            ...getSegmentRange(type, state),
+            placeholder,
+        };
+    });
+}
@@ -0,0 +1,88 @@
+/**
+ * DateField State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSnapshot, restoreSnapshot } from '@stellarix-ui/core';
+import { createDateFieldState, dateFieldSnapshotFormat } from './state';
+import { getDateSegments, getSegmentLayout } from './segments';
+
+describe('createDateFieldState', () => {
+    it('should create state with default values', () => {
+        const state = createDateFieldState();
+
+        expect(state.getState()).toEqual({
+            value: null,
+            segments: { year: null, month: null, day: null, hour: null, minute: null, dayPeriod: null },
+            focusedSegment: null,
+            typedText: '',
+            includeTime: false,
+            hourCycle: 12,
+            locale: 'en-US',
+            minDate: null,
+            maxDate: null,
+            disabled: false,
+            readonly: false,
+        });
+    });
+
+    it('should fill the segments from the initial date', () => {
+        const state = createDateFieldState({ value: new Date(2025, 10, 22, 13, 5), includeTime: true });
+
+        expect(state.getState().segments).toEqual({ year: 2025, month: 11, day: 22, hour: 1, minute: 5, dayPeriod: 1 });
+    });
+
+    it('should use the clock of the locale', () => {
+        expect(createDateFieldState({ locale: 'de-DE' }).getState().hourCycle).toBe(24);
+        expect(createDateFieldState({ locale: 'de-DE', hourCycle: 12 }).getState().hourCycle).toBe(12);
+    });
+
+    it('should clear the segments with the date', () => {
+        const state = createDateFieldState({ value: new Date(2025, 10, 22) });
+
+        state.setValue(null);
+
+        expect(state.getState().value).toBeNull();
+        expect(state.getState().segments.year).toBeNull();
+    });
+
+    it('should leave focus and typing out of snapshots', () => {
+        const state = createDateFieldState({ value: new Date(2025, 10, 22) });
+        state.setFocusedSegment('day');
+        state.setTypedText('2');
+
+        const snapshot = createSnapshot('DateField', state.getState(), dateFieldSnapshotFormat);
+
+        expect(snapshot.state).not.toHaveProperty('focusedSegment');
+        expect(snapshot.state).not.toHaveProperty('typedText');
+        expect(restoreSnapshot(snapshot, dateFieldSnapshotFormat).value).toEqual(new Date(2025, 10, 22));
+    });
+});
+
+describe('date segments', () => {
+    const types = (locale: string, includeTime = false, hourCycle: 12 | 24 = 24) =>
+        getSegmentLayout(locale, includeTime, hourCycle).map(segment => segment.type === 'literal' ? segment.text : segment.type);
+
+    it('should order the segments as the locale writes dates', () => {
+        expect(types('en-US')).toEqual(['month', '/', 'day', '/', 'year']);
+        expect(types('de-DE')).toEqual(['day', '.', 'month', '.', 'year']);
+        expect(types('ja-JP')).toEqual(['year', '/', 'month', '/', 'day']);
+    });
+
+    it('should add time segments with a day period on the 12 hour clock', () => {
+        expect(types('en-US', true, 12)).toEqual(['month', '/', 'day', '/', 'year', ', ', 'hour', ':', 'minute', ' ', 'dayPeriod']);
+        expect(types('de-DE', true, 24)).toEqual(['day', '.', 'month', '.', 'year', ', ', 'hour', ':', 'minute']);
+    });
+
+    it('should render values, typed digits and placeholders', () => {
+        const state = createDateFieldState({ value: new Date(2025, 1, 3) });
+        state.setSegment('day', null);
+        state.setFocusedSegment('year');
+        state.setTypedText('20');
+
+        const segments = getDateSegments(state.getState());
+
+        expect(segments.map(segment => segment.text)).toEqual(['02', '/', '––', '/', '20']);
+        expect(segments[2]).toMatchObject({ type: 'day', placeholder: true, min: 1, max: 28 });
+    });
+});
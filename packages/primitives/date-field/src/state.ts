@@ -0,0 +1,103 @@
+/**
+ * DateField State Management
+ * Manages the segment values of the date field and the date they make up
+ */
+
+import { createStore, snapshotCodecs, type SnapshotFormat } from '@stellarix-ui/core';
+import { EMPTY_SEGMENTS, getLocaleHourCycle, getSegmentValues } from './segments';
+import type { DateFieldState, DateFieldOptions, DateSegmentType } from './types';
+
+/**
+ * Snapshot format of the date field state.
+ * Focus and typing only last while the user is in the field, so they stay
+ * on the client.
+ */
+export const dateFieldSnapshotFormat: SnapshotFormat<DateFieldState> = {
+    value: snapshotCodecs.nullableDate,
+    minDate: snapshotCodecs.nullableDate,
+    maxDate: snapshotCodecs.nullableDate,
+    focusedSegment: false,
+    typedText: false,
+};
+
+/**
+ * Segment values of a date, empty for an invalid date
+ */
+function toSegments(value: Date | null, hourCycle: 12 | 24) {
+    return value instanceof Date && !Number.isNaN(value.getTime()) ? getSegmentValues(value, hourCycle) : EMPTY_SEGMENTS;
+}
+
+/**
+ * Create date field state store
+ */
+export function createDateFieldState(options: DateFieldOptions = {}) {
+    const locale = options.locale ?? 'en-US';
+    const hourCycle = options.hourCycle ?? getLocaleHourCycle(locale);
+    const value = options.value ?? null;
+
+    const initialState: DateFieldState = {
+        value,
+        segments: toSegments(value, hourCycle),
+        focusedSegment: null,
+        typedText: '',
+        includeTime: options.includeTime ?? false,
+        hourCycle,
+        locale,
+        minDate: options.minDate ?? null,
+        maxDate: options.maxDate ?? null,
+        disabled: options.disabled ?? false,
+        readonly: options.readonly ?? false,
+    };
+
+    const store = createStore(initialState);
+
+    return {
+        ...store,
+        /**
+         * Sets the date, filling every segment, or clearing them for `null`
+         */
+        setValue: (value: Date | null) => {
+            store.setState((prev: DateFieldState) => ({
+                ...prev,
+                value,
+                segments: toSegments(value, prev.hourCycle),
+            }));
+        },
+        /**
+         * Sets one segment, with the digits typed into it so far
+         */
+        setSegment: (segment: DateSegmentType, value: number | null, typedText = '') => {
+            store.setState((prev: DateFieldState) => ({
+                ...prev,
+                segments: { ...prev.segments, [segment]: value },
+                typedText,
+            }));
+        },
+        /**
+         * Sets the date the segments make up, leaving the segments as they are
+         */
+        setSegmentsDate: (value: Date | null) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, value }));
+        },
+        setFocusedSegment: (focusedSegment: DateSegmentType | null) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, focusedSegment, typedText: '' }));
+        },
+        setTypedText: (typedText: string) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, typedText }));
+        },
+        setMinDate: (minDate: Date | null) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, minDate }));
+        },
+        setMaxDate: (maxDate: Date | null) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, maxDate }));
+        },
+        setDisabled: (disabled: boolean) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, disabled }));
+        },
+        setReadonly: (readonly: boolean) => {
+            store.setState((prev: DateFieldState) => ({ ...prev, readonly }));
+        },
+    };
+}
+
+export type DateFieldStore = ReturnType<typeof createDateFieldState>;
@@ -0,0 +1,246 @@
+/**
+ * DateField Component Types
+ * Define all TypeScript interfaces for the date field component
+ */
+
+/**
+ * Editable part of a date field
+ */
+export type DateSegmentType = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'dayPeriod';
+
+/**
+ * Values of the segments, `null` while a segment is empty.
+ * Hours are shown hours: from 1 to 12 on a 12 hour clock, with
+ * `dayPeriod` 0 for AM and 1 for PM.
+ */
+export type DateSegmentValues = Record<DateSegmentType, number | null>;
+
+/**
+ * A segment as rendered: an editable segment or the literal text between two
+ */
+export interface DateSegment {
+    /**
+     * Segment type, `literal` for separators such as `/` or `:`
+     */
+    type: DateSegmentType | 'literal';
+
+    /**
+     * Text shown: the value, the digits being typed, a placeholder or the literal text
+     */
+    text: string;
+
+    /**
+     * Value of an editable segment
+     */
+    value: number | null;
+
+    /**
+     * Smallest value of an editable segment
+     */
+    min: number;
+
+    /**
+     * Largest value of an editable segment
+     */
+    max: number;
+
+    /**
+     * Whether the segment shows a placeholder
+     */
+    placeholder: boolean;
+}
+
+/**
+ * Date field component state
+ * Represents the internal state of the component
+ */
+export interface DateFieldState {
+    /**
+     * Date the segments make up, `null` until every segment is filled
+     */
+    value: Date | null;
+
+    /**
+     * Values of the segments
+     */
+    segments: DateSegmentValues;
+
+    /**
+     * Segment that has focus
+     */
+    focusedSegment: DateSegmentType | null;
+
+    /**
+     * Digits typed into the focused segment since it got focus
+     */
+    typedText: string;
+
+    /**
+     * Whether the hour and minute segments are shown
+     */
+    includeTime: boolean;
+
+    /**
+     * Clock of the hour segment
+     */
+    hourCycle: 12 | 24;
+
+    /**
+     * Locale of the segment order, day periods and segment labels
+     */
+    locale: string;
+
+    /**
+     * Earliest date the field accepts
+     */
+    minDate: Date | null;
+
+    /**
+     * Latest date the field accepts
+     */
+    maxDate: Date | null;
+
+    /**
+     * Whether the field is disabled
+     */
+    disabled: boolean;
+
+    /**
+     * Whether the field is readonly
+     */
+    readonly: boolean;
+}
+
+/**
+ * Date field component options
+ * Configuration passed when creating the component. The value, range,
+ * locale and time options mean the same as the DatePicker ones, so a field
+ * can stand in for the text input of a date picker.
+ */
+export interface DateFieldOptions {
+    /**
+     * Initial date
+     * @default null
+     */
+    value?: Date | null;
+
+    /**
+     * Earliest date the field accepts; later dates are clamped to it.
+     * Without time segments only the day counts.
+     * @default null
+     */
+    minDate?: Date | null;
+
+    /**
+     * Latest date the field accepts; earlier dates are clamped to it.
+     * Without time segments only the day counts.
+     * @default null
+     */
+    maxDate?: Date | null;
+
+    /**
+     * Whether to show hour and minute segments
+     * @default false
+     */
+    includeTime?: boolean;
+
+    /**
+     * Clock of the hour segment; the 12 hour clock adds an AM/PM segment
+     * @default the locale's clock
+     */
+    hourCycle?: 12 | 24;
+
+    /**
+     * Locale of the segment order, day periods and segment labels
+     * @default 'en-US'
+     */
+    locale?: string;
+
+    /**
+     * How many years after the current year a typed two-digit year may
+     * reach; later ones fall in the previous century
+     * @default 50
+     */
+    twoDigitYearPivot?: number;
+
+    /**
+     * Whether the field is disabled
+     * @default false
+     */
+    disabled?: boolean;
+
+    /**
+     * Whether the field is readonly
+     * @default false
+     */
+    readonly?: boolean;
+
+    /**
+     * Component ID
+     */
+    id?: string;
+
+    /**
+     * ARIA label of the field
+     */
+    'aria-label'?: string;
+
+    /**
+     * ID of the element labelling the field
+     */
+    'aria-labelledby'?: string;
+
+    /**
+     * ID of the element describing the field
+     */
+    'aria-describedby'?: string;
+
+    /**
+     * Callback when the date changes, with `null` when a segment is cleared
+     */
+    onChange?: (value: Date | null) => void;
+}
+
+/**
+ * Date field component events
+ * Events that can be triggered by the component
+ */
+export interface DateFieldEvents {
+    /**
+     * Sets the date, filling every segment
+     */
+    change: {
+        value: Date | null;
+    };
+
+    /**
+     * Sets the value of one segment, `null` to clear it
+     */
+    segmentChange: {
+        segment: DateSegmentType;
+        value: number | null;
+    };
+
+    /**
+     * Fired when a segment receives focus
+     */
+    segmentFocus: {
+        segment: DateSegmentType;
+    };
+}
+
+/**
+ * Date field component props
+ * Props that can be passed to the component
+ */
+export interface DateFieldProps extends DateFieldOptions {
+    /**
+     * Additional CSS class
+     */
+    className?: string;
+
+    /**
+     * Test ID for testing
+     */
+    'data-testid'?: string;
+}
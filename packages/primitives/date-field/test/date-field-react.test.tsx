@@ -0,0 +1,61 @@
+/**
+ * DateField React Integration Test
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { createDateFieldWithImplementation } from '../src';
+import { reactAdapter } from '@stellarix-ui/react';
+
+describe('DateField React Integration', () => {
+    it('should render a spinbutton per segment in the order of the locale', () => {
+        const field = createDateFieldWithImplementation({ value: new Date(2025, 10, 22), locale: 'de-DE', 'aria-label': 'Geburtstag' });
+        const DateFieldComponent = field.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DateFieldComponent />);
+
+        expect(screen.getByRole('group', { name: 'Geburtstag' })).toHaveTextContent('22.11.2025');
+        expect(screen.getAllByRole('spinbutton').map(segment => segment.getAttribute('aria-valuenow'))).toEqual(['22', '11', '2025']);
+    });
+
+    it('should fill segments by typing and move focus along', () => {
+        const onChange = vi.fn();
+        const field = createDateFieldWithImplementation({ onChange });
+        const DateFieldComponent = field.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DateFieldComponent />);
+        const [month, day, year] = screen.getAllByRole('spinbutton') as [HTMLElement, HTMLElement, HTMLElement];
+
+        month.focus();
+        fireEvent.keyDown(month, { key: '3' });
+        expect(day).toHaveFocus();
+        expect(month).toHaveTextContent('03');
+
+        fireEvent.keyDown(day, { key: '1' });
+        fireEvent.keyDown(day, { key: '4' });
+        expect(year).toHaveFocus();
+
+        fireEvent.keyDown(year, { key: '2' });
+        fireEvent.keyDown(year, { key: '6' });
+        expect(year).toHaveTextContent('26');
+        fireEvent.blur(year);
+
+        expect(onChange).toHaveBeenCalledWith(new Date(2026, 2, 14));
+        expect(year).toHaveTextContent('2026');
+    });
+
+    it('should step the focused segment with the arrow keys', () => {
+        const field = createDateFieldWithImplementation({ value: new Date(2025, 10, 22, 23, 45), includeTime: true, hourCycle: 24 });
+        const DateFieldComponent = field.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DateFieldComponent />);
+        const hour = screen.getAllByRole('spinbutton')[3]!;
+
+        fireEvent.keyDown(hour, { key: 'ArrowUp' });
+
+        expect(hour).toHaveAttribute('aria-valuenow', '0');
+        expect(field.state.getState().value).toEqual(new Date(2025, 10, 22, 0, 45));
+    });
+});
@@ -5,8 +5,9 @@
 
 import React from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
-import { createDatePickerWithImplementation, generateCalendarGrid } from './index';
+import { createDatePickerWithImplementation, generateCalendarGrids, createLastDaysPreset, createThisMonthPreset, createThisQuarterPreset } from './index';
 import { reactAdapter } from '@stellarix/react';
+import { formatMonthYear, getWeekdayNames } from '@stellarix-ui/utils';
 import type { DatePickerOptions, CalendarCell } from './types';
 
 // Create a wrapper component that creates individual DatePicker instances
@@ -34,11 +35,9 @@ const DatePickerWrapper = React.forwardRef((props: DatePickerOptions, ref: any)
   }, [props.value, component]);
   
   // Render a simple date picker UI
-  const { displayValue, isDateDisabled, isDateInRange } = component.state;
-  const grid = generateCalendarGrid(state.viewDate, state.firstDayOfWeek, state.locale);
-  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                      'July', 'August', 'September', 'October', 'November', 'December'];
-  const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const { inputText, isDateSelectable, isDateInRange } = component.state;
+  const grids = generateCalendarGrids(state.viewDate, state.numberOfMonths, state.firstDayOfWeek, state.locale, state.timeZone, state.calendar);
+  const weekdayNames = getWeekdayNames(state.locale, 'short', state.firstDayOfWeek);
   
   const handlers = component.logic.getInteractionHandlers('input');
   const inputA11y = component.logic.getA11yProps('input');
@@ -51,8 +50,7 @@ const DatePickerWrapper = React.forwardRef((props: DatePickerOptions, ref: any)
         <input
           ref={ref}
           type="text"
-          value={displayValue.get()}
-          readOnly
+          value={inputText.get()}
           className={`border rounded px-3 py-2 w-64 ${state.disabled ? 'bg-gray-100' : 'bg-white'}`}
           placeholder={state.placeholder}
           {...inputA11y}
@@ -84,7 +82,7 @@ const DatePickerWrapper = React.forwardRef((props: DatePickerOptions, ref: any)
               className="font-semibold hover:bg-gray-100 px-2 py-1 rounded"
               {...component.logic.getInteractionHandlers('monthYearButton')}
             >
-              {monthNames[state.viewDate.getMonth()]} {state.viewDate.getFullYear()}
+              {formatMonthYear(state.viewDate.getMonth(), state.viewDate.getFullYear(), state.locale)}
             </button>
             <button
               className="p-1 hover:bg-gray-100 rounded"
@@ -94,63 +92,87 @@ const DatePickerWrapper = React.forwardRef((props: DatePickerOptions, ref: any)
             </button>
           </div>
           
-          <table className="w-full" {...gridA11y}>
-            <thead>
-              <tr>
-                {weekdayNames.map((day, i) => (
-                  <th key={i} className="text-xs text-gray-500 font-normal pb-2">
-                    {day}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody>
-              {grid.weeks.map((week, weekIndex) => (
-                <tr key={weekIndex}>
-                  {week.days.map((cell, dayIndex) => {
-                    const isDisabled = isDateDisabled.get()(cell.date);
-                    const isInRange = state.mode === 'range' && isDateInRange.get()(cell.date);
-                    const isSelected = state.mode === 'single' 
-                      ? state.value?.toDateString() === cell.date.toDateString()
-                      : (state.startDate?.toDateString() === cell.date.toDateString() ||
-                         state.endDate?.toDateString() === cell.date.toDateString());
+          <div className="flex gap-6">
+            {props.presets && state.mode === 'range' && (
+              <div className="flex flex-col gap-1 pr-4 border-r">
+                {props.presets.map(preset => {
+                  const presetA11y = component.logic.getA11yProps('preset');
+                  const presetProps = typeof presetA11y === 'function' ? presetA11y(preset) : presetA11y;
+                  
+                  return (
+                    <button
+                      key={preset.id}
+                      className="text-left text-sm px-2 py-1 rounded hover:bg-gray-100 aria-pressed:bg-blue-100"
+                      {...component.logic.getInteractionHandlers('preset')}
+                      {...presetProps}
+                    >
+                      {preset.label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            
+            {grids.map(grid => (
+              <table key={`${grid.year}-${grid.month}`} className="w-full" {...gridA11y}>
+                <thead>
+                  <tr>
+                    {weekdayNames.map((day, i) => (
+                      <th key={i} className="text-xs text-gray-500 font-normal pb-2">
+                        {day}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {grid.weeks.map((week, weekIndex) => (
+                    <tr key={weekIndex}>
+                      {week.days.map((cell, dayIndex) => {
+                        const isDisabled = !isDateSelectable.get()(cell.date);
+                        const isInRange = state.mode === 'range' && isDateInRange.get()(cell.date);
+                        const isSelected = state.mode === 'single' 
+                          ? state.value?.toDateString() === cell.date.toDateString()
+                          : (state.startDate?.toDateString() === cell.date.toDateString() ||
+                             state.endDate?.toDateString() === cell.date.toDateString());
                     
-                    const cellHandlers = component.logic.getInteractionHandlers('cell');
-                    const cellA11y = component.logic.getA11yProps('cell');
-                    const cellProps = typeof cellA11y === 'function' ? cellA11y({
-                      ...cell,
-                      isDisabled,
-                      isSelected,
-                      isInRange,
-                      isHighlighted: state.highlightedDate?.toDateString() === cell.date.toDateString()
-                    } as CalendarCell) : cellA11y;
+                        const cellHandlers = component.logic.getInteractionHandlers('cell');
+                        const cellA11y = component.logic.getA11yProps('cell');
+                        const cellProps = typeof cellA11y === 'function' ? cellA11y({
+                          ...cell,
+                          isDisabled,
+                          isSelected,
+                          isInRange,
+                          isHighlighted: state.highlightedDate?.toDateString() === cell.date.toDateString()
+                        } as CalendarCell) : cellA11y;
                     
-                    return (
-                      <td key={dayIndex} className="p-0">
-                        <button
-                          className={`
-                            w-8 h-8 rounded hover:bg-gray-100 
-                            ${cell.isOutsideMonth ? 'text-gray-300' : ''}
-                            ${cell.isToday ? 'font-bold' : ''}
-                            ${isSelected ? 'bg-blue-500 text-white hover:bg-blue-600' : ''}
-                            ${isInRange && !isSelected ? 'bg-blue-100' : ''}
-                            ${isDisabled ? 'text-gray-300 cursor-not-allowed' : ''}
-                          `}
-                          disabled={isDisabled}
-                          onClick={(e) => cellHandlers.onClick({ ...e, date: cell.date })}
-                          onMouseEnter={(e) => cellHandlers.onMouseEnter?.({ ...e, date: cell.date })}
-                          onMouseLeave={(e) => cellHandlers.onMouseLeave?.(e)}
-                          {...cellProps}
-                        >
-                          {cell.day}
-                        </button>
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
-            </tbody>
-          </table>
+                        return (
+                          <td key={dayIndex} className="p-0">
+                            <button
+                              className={`
+                                w-8 h-8 rounded hover:bg-gray-100 
+                                ${cell.isOutsideMonth ? 'text-gray-300' : ''}
+                                ${cell.isToday ? 'font-bold' : ''}
+                                ${isSelected ? 'bg-blue-500 text-white hover:bg-blue-600' : ''}
+                                ${isInRange && !isSelected ? 'bg-blue-100' : ''}
+                                ${isDisabled ? 'text-gray-300 cursor-not-allowed' : ''}
+                              `}
+                              disabled={isDisabled}
+                              onClick={(e) => cellHandlers.onClick({ ...e, date: cell.date })}
+                              onMouseEnter={(e) => cellHandlers.onMouseEnter?.({ ...e, date: cell.date })}
+                              onMouseLeave={(e) => cellHandlers.onMouseLeave?.(e)}
+                              {...cellProps}
+                            >
+                              {cell.day}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
           
           {state.includeTime && (
             <div className="mt-4 flex items-center gap-2 justify-center">
@@ -328,6 +350,39 @@ export const WithMinMaxDates: Story = {
   },
 };
 
+// Booking flows
+export const TwoMonthRange: Story = {
+  args: {
+    mode: 'range',
+    numberOfMonths: 2,
+    placeholder: 'Check-in - Check-out',
+  },
+};
+
+export const RangeWithPresets: Story = {
+  args: {
+    mode: 'range',
+    presets: [
+      createLastDaysPreset(7),
+      createLastDaysPreset(30),
+      createThisMonthPreset(),
+      createThisQuarterPreset(),
+    ],
+    placeholder: 'Pick a period',
+  },
+};
+
+export const RangeLengthLimits: Story = {
+  args: {
+    mode: 'range',
+    numberOfMonths: 2,
+    minRangeLength: 2,
+    maxRangeLength: 14,
+    isDateDisabled: (date) => date.getDate() === 15,
+    placeholder: '2 to 14 nights, not across the 15th',
+  },
+};
+
 export const WithDisabledDates: Story = {
   args: {
     disabledDates: [
@@ -362,6 +417,28 @@ export const FrenchLocale: Story = {
   },
 };
 
+export const GermanLocale: Story = {
+  args: {
+    locale: 'de-DE',
+    placeholder: 'TT.MM.JJJJ',
+  },
+};
+
+export const MonthNames: Story = {
+  args: {
+    dateFormat: 'MMM D, YYYY',
+    placeholder: 'Type e.g. Nov 22, 2025',
+  },
+};
+
+export const TwelveHourTime: Story = {
+  args: {
+    includeTime: true,
+    timeFormat: 'hh:mm A',
+    placeholder: 'MM/DD/YYYY hh:mm AM',
+  },
+};
+
 // Interactive examples
 export const Interactive: Story = {
   render: () => {
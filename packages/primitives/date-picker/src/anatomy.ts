@@ -0,0 +1,229 @@
+/**
+ * DatePicker Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { getWeekdayNames } from '@stellarix-ui/utils';
+import { generateCalendarGrids, isSameDay } from './logic.js';
+import type { DatePickerStateStore } from './state.js';
+import type { CalendarCell, DatePickerOptions, DatePickerState } from './types.js';
+
+/**
+ * Completes a grid cell with the selection of the state
+ */
+function toSelectionCell(cell: CalendarCell, state: DatePickerState, store: DatePickerStateStore): CalendarCell {
+    const isRangeStart = !!state.startDate && isSameDay(cell.date, state.startDate, state);
+    const isRangeEnd = !!state.endDate && isSameDay(cell.date, state.endDate, state);
+
+    return {
+        ...cell,
+        isSelected: state.mode === 'single'
+            ? !!state.value && isSameDay(cell.date, state.value, state)
+            : isRangeStart || isRangeEnd,
+        isRangeStart,
+        isRangeEnd,
+        isInRange: state.mode === 'range' && store.isDateInRange.get()(cell.date),
+        isDisabled: !store.isDateSelectable.get()(cell.date),
+        isHighlighted: !!state.highlightedDate && isSameDay(cell.date, state.highlightedDate, state),
+        isHovered: !!state.hoveredDate && isSameDay(cell.date, state.hoveredDate, state),
+    };
+}
+
+/**
+ * Creates the date picker anatomy: the input and its clear button, then the
+ * calendar dialog with the presets, one grid per shown month and the time inputs
+ * @param state State store, for the input text and the selectable dates
+ * @param options Component options, for the presets
+ */
+export function createDatePickerAnatomy(
+    state: DatePickerStateStore,
+    options: DatePickerOptions = {}
+): ComponentAnatomy<DatePickerState> {
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: () => ({
+                    style: { position: 'relative', display: 'inline-block' },
+                }),
+            },
+            input: {
+                element: 'input',
+                props: ({ state: current }) => ({
+                    type: 'text',
+                    value: state.inputText.get(),
+                    placeholder: current.placeholder,
+                    disabled: current.disabled || undefined,
+                    readOnly: current.readonly || undefined,
+                }),
+            },
+            clear: {
+                element: 'button',
+                when: ({ state: current }) => state.hasValue.get() && !current.disabled && !current.readonly,
+                text: () => '✕',
+                props: () => ({
+                    type: 'button',
+                    'aria-label': 'Clear',
+                }),
+            },
+            calendar: {
+                element: 'div',
+                when: ({ state: current }) => current.open,
+                props: () => ({
+                    style: {
+                        position: 'absolute',
+                        zIndex: 50,
+                        padding: '16px',
+                        backgroundColor: 'white',
+                        border: '1px solid #e5e7eb',
+                        borderRadius: '8px',
+                    },
+                }),
+            },
+            header: {
+                element: 'div',
+                parent: 'calendar',
+                props: () => ({
+                    style: { display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '16px' },
+                }),
+            },
+            prevMonth: {
+                element: 'button',
+                parent: 'header',
+                text: () => '‹',
+                props: () => ({ type: 'button', 'aria-label': 'Previous month' }),
+            },
+            monthYearButton: {
+                element: 'button',
+                parent: 'header',
+                text: ({ state: current }) => new Intl.DateTimeFormat(current.locale, {
+                    month: 'long',
+                    year: 'numeric',
+                    calendar: current.calendar,
+                    ...(current.timeZone ? { timeZone: current.timeZone } : {})
+                }).format(current.viewDate),
+                props: () => ({ type: 'button' }),
+            },
+            nextMonth: {
+                element: 'button',
+                parent: 'header',
+                text: () => '›',
+                props: () => ({ type: 'button', 'aria-label': 'Next month' }),
+            },
+            months: {
+                element: 'div',
+                parent: 'calendar',
+                props: () => ({
+                    style: { display: 'flex', gap: '24px' },
+                }),
+            },
+            presets: {
+                element: 'div',
+                parent: 'months',
+                when: ({ state: current }) => current.mode === 'range' && !!options.presets?.length,
+                props: () => ({
+                    style: { display: 'flex', flexDirection: 'column', gap: '4px' },
+                }),
+            },
+            preset: {
+                element: 'button',
+                parent: 'presets',
+                items: () => options.presets ?? [],
+                a11yArgument: ({ item }) => item,
+                text: ({ item }) => item.label,
+                // Preset handlers read the preset id from data-preset-id
+                props: () => ({ type: 'button' }),
+            },
+            grid: {
+                element: 'table',
+                parent: 'months',
+                items: ({ state: current }) => generateCalendarGrids(
+                    current.viewDate,
+                    current.numberOfMonths,
+                    current.firstDayOfWeek,
+                    current.locale,
+                    current.timeZone,
+                    current.calendar
+                ),
+                key: ({ item }) => `${item.year}-${item.month}`,
+            },
+            head: {
+                element: 'thead',
+                parent: 'grid',
+            },
+            weekdays: {
+                element: 'tr',
+                parent: 'head',
+            },
+            weekday: {
+                element: 'th',
+                parent: 'weekdays',
+                items: ({ state: current }) => getWeekdayNames(current.locale, 'short', current.firstDayOfWeek),
+                text: ({ item }) => item,
+                props: () => ({ scope: 'col' }),
+            },
+            body: {
+                element: 'tbody',
+                parent: 'grid',
+            },
+            week: {
+                element: 'tr',
+                parent: 'body',
+                items: ({ item }) => item.weeks,
+                key: ({ item }) => item.weekNumber,
+            },
+            day: {
+                element: 'td',
+                parent: 'week',
+                items: ({ item }) => item.days,
+                key: ({ item }) => item.date.getTime(),
+            },
+            cell: {
+                element: 'button',
+                parent: 'day',
+                a11yArgument: ({ state: current, item }) => toSelectionCell(item, current, state),
+                // Cell handlers read the date of the cell from the event
+                event: ({ item }) => ({ date: item.date }),
+                text: ({ item }) => item.day,
+                props: ({ state: current, item }) => {
+                    const cell = toSelectionCell(item, current, state);
+
+                    return {
+                        type: 'button',
+                        disabled: cell.isDisabled || undefined,
+                        'data-today': cell.isToday || undefined,
+                        'data-outside-month': cell.isOutsideMonth || undefined,
+                        'data-in-range': (cell.isInRange && !cell.isSelected) || undefined,
+                    };
+                },
+            },
+            time: {
+                element: 'div',
+                parent: 'calendar',
+                when: ({ state: current }) => current.includeTime,
+                props: () => ({
+                    style: { display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '8px', marginTop: '16px' },
+                }),
+            },
+            timeInput: {
+                element: 'input',
+                parent: 'time',
+                items: () => ['hour', 'minute'],
+                key: ({ item }) => item,
+                // The time input handler reads which input changed from the event
+                event: ({ item }) => ({ isHour: item === 'hour' }),
+                props: ({ state: current, item }) => ({
+                    type: 'number',
+                    min: 0,
+                    max: item === 'hour' ? 23 : 59,
+                    value: item === 'hour' ? current.hour : current.minute,
+                    'aria-label': item === 'hour' ? 'Hour' : 'Minute',
+                }),
+            },
+        },
+        bindings: {
+            value: 'value',
+        },
+    };
+}
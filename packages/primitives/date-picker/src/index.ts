@@ -3,8 +3,9 @@
  * Main entry point and public API
  */
 
-import { createDatePickerState } from './state.js';
+import { createDatePickerState, datePickerSnapshotFormat } from './state.js';
 import { createDatePickerLogic, generateCalendarGrid } from './logic.js';
+import { createDatePickerAnatomy } from './anatomy.js';
 import type { DatePickerOptions, DatePickerState, DatePickerEvents } from './types.js';
 import type { ComponentCore } from '@stellarix-ui/core';
 
@@ -24,9 +25,11 @@ export function createDatePicker(options: DatePickerOptions = {}): ComponentCore
     return {
         state,
         logic,
+        anatomy: createDatePickerAnatomy(state, options),
         metadata: {
             name: 'DatePicker',
             version: '1.0.0',
+            snapshot: datePickerSnapshotFormat,
             accessibility: {
                 role: 'combobox',
                 keyboardShortcuts: [
@@ -47,11 +50,12 @@ export function createDatePicker(options: DatePickerOptions = {}): ComponentCore
                 supported: [
                     'change', 'rangeChange', 'open', 'close',
                     'focus', 'blur', 'viewChange', 'monthChange',
-                    'dateSelect', 'navigate'
+                    'dateSelect', 'presetSelect', 'navigate'
                 ],
                 required: [],
                 custom: {
                     'dateSelect': { description: 'Fired when a date is selected' },
+                    'presetSelect': { description: 'Fired when a preset range is picked' },
                     'rangeChange': { description: 'Fired when date range changes' },
                     'navigate': { description: 'Fired on keyboard navigation' },
                     'viewChange': { description: 'Fired when calendar view changes' },
@@ -95,6 +99,11 @@ export function createDatePicker(options: DatePickerOptions = {}): ComponentCore
                         role: 'button',
                         optional: false
                     },
+                    'preset': {
+                        type: 'button',
+                        role: 'button',
+                        optional: true
+                    },
                     'clear': {
                         type: 'button',
                         role: 'button',
@@ -114,7 +123,8 @@ export function createDatePicker(options: DatePickerOptions = {}): ComponentCore
                 logic,
                 metadata: {
                     name: 'DatePicker',
-                    version: '1.0.0'
+                    version: '1.0.0',
+                    snapshot: datePickerSnapshotFormat
                 }
             });
         }
@@ -129,15 +139,28 @@ export type {
     DatePickerProps,
     DatePickerMode,
     DatePickerView,
+    DatePickerPageBehavior,
+    DateRange,
+    DateRangePreset,
+    DateRangePresetContext,
     CalendarCell,
     CalendarWeek,
     CalendarGrid
 } from './types.js';
 
 export type { DatePickerStateStore } from './state.js';
+export { datePickerSnapshotFormat } from './state.js';
+export { createDatePickerAnatomy } from './anatomy.js';
 
 // Export utilities
-export { generateCalendarGrid } from './logic.js';
+export { generateCalendarGrid, generateCalendarGrids, autoUpdateDatePickerPosition } from './logic.js';
+export {
+    createLastDaysPreset,
+    createThisWeekPreset,
+    createThisMonthPreset,
+    createThisQuarterPreset,
+    createThisYearPreset
+} from './presets.js';
 
 // Default export for convenience
 export default createDatePicker;
\ No newline at end of file
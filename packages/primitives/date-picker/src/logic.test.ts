@@ -2,8 +2,9 @@
  * DatePicker Logic Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createDatePickerLogic, generateCalendarGrid } from './logic.js';
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { createDatePickerLogic, generateCalendarGrid, generateCalendarGrids } from './logic.js';
+import { createLastDaysPreset, createThisQuarterPreset, createThisWeekPreset } from './presets.js';
 import { createDatePickerState } from './state.js';
 import type { DatePickerOptions } from './types.js';
 
@@ -366,9 +367,122 @@ describe('DatePicker Logic', () => {
         });
     });
     
+    describe('Typed Input', () => {
+        const type = (value: string) => logic.handleEvent('inputChange', { value });
+        
+        it('should select a typed date', () => {
+            type('01/15/2024');
+            
+            const state = stateStore.getState();
+            expect(state.inputStatus).toBe('valid');
+            expect(state.value).toEqual(new Date(2024, 0, 15));
+            expect(state.viewDate).toEqual(new Date(2024, 0, 15));
+            expect(mockOnChange).toHaveBeenCalledWith(new Date(2024, 0, 15));
+        });
+        
+        it('should accept text that can still become a date', () => {
+            type('2/2');
+            expect(stateStore.getState().inputStatus).toBe('partial');
+            
+            type('2/30');
+            expect(stateStore.getState().inputStatus).toBe('invalid');
+            expect(logic.getA11yProps('input')['aria-invalid']).toBe(true);
+            expect(stateStore.getState().value).toBeNull();
+        });
+        
+        it('should place two-digit years within the pivot', () => {
+            const currentYear = new Date().getFullYear();
+            const twoDigits = (year: number) => String(year % 100).padStart(2, '0');
+            
+            type(`1/2/${twoDigits(currentYear + 10)}`);
+            expect(stateStore.getState().value?.getFullYear()).toBe(currentYear + 10);
+            
+            type(`1/2/${twoDigits(currentYear + 60)}`);
+            expect(stateStore.getState().value?.getFullYear()).toBe(currentYear - 40);
+        });
+        
+        it('should reject typed dates that cannot be picked', () => {
+            const options: DatePickerOptions = { minDate: new Date(2024, 0, 10) };
+            const store = createDatePickerState(options);
+            const pickerLogic = createDatePickerLogic(store, options);
+            pickerLogic.connect(store);
+            pickerLogic.initialize();
+            
+            pickerLogic.handleEvent('inputChange', { value: '01/05/2024' });
+            
+            expect(store.getState().inputStatus).toBe('invalid');
+            expect(store.getState().value).toBeNull();
+        });
+        
+        it('should parse typed times with the time format', () => {
+            const options: DatePickerOptions = { includeTime: true, timeFormat: 'hh:mm A' };
+            const store = createDatePickerState(options);
+            const pickerLogic = createDatePickerLogic(store, options);
+            pickerLogic.connect(store);
+            pickerLogic.initialize();
+            
+            pickerLogic.handleEvent('inputChange', { value: '01/15/2024 2:30 pm' });
+            
+            expect(store.getState()).toEqual(expect.objectContaining({
+                value: new Date(2024, 0, 15),
+                hour: 14,
+                minute: 30
+            }));
+            expect(store.displayValue.get()).toBe('01/15/2024 02:30 PM');
+        });
+        
+        it('should select a typed range', () => {
+            const options: DatePickerOptions = { mode: 'range', onRangeChange: mockOnRangeChange };
+            const store = createDatePickerState(options);
+            const pickerLogic = createDatePickerLogic(store, options);
+            pickerLogic.connect(store);
+            pickerLogic.initialize();
+            
+            pickerLogic.handleEvent('inputChange', { value: '01/15/2024 - 01/2' });
+            expect(store.getState().inputStatus).toBe('partial');
+            
+            pickerLogic.handleEvent('inputChange', { value: '01/15/2024 - 01/20/2024' });
+            expect(store.getState().inputStatus).toBe('valid');
+            expect(mockOnRangeChange).toHaveBeenCalledWith(new Date(2024, 0, 15), new Date(2024, 0, 20));
+            
+            pickerLogic.handleEvent('inputChange', { value: '01/20/2024 - 01/15/2024' });
+            expect(store.getState().inputStatus).toBe('invalid');
+        });
+        
+        it('should settle typed text on blur', () => {
+            const handlers = logic.getInteractionHandlers('input');
+            
+            type('1/5/2024');
+            handlers.onBlur(new FocusEvent('blur'));
+            expect(stateStore.getState().inputValue).toBeNull();
+            expect(stateStore.inputText.get()).toBe('01/05/2024');
+            
+            type('1/5');
+            handlers.onBlur(new FocusEvent('blur'));
+            expect(stateStore.getState().inputStatus).toBe('invalid');
+            
+            type('');
+            handlers.onBlur(new FocusEvent('blur'));
+            expect(stateStore.getState().value).toBeNull();
+            expect(mockOnChange).toHaveBeenLastCalledWith(null);
+        });
+        
+        it('should settle typed text with Enter instead of opening the calendar', () => {
+            const handlers = logic.getInteractionHandlers('input');
+            
+            type('1/5/2024');
+            handlers.onKeyDown(new KeyboardEvent('keydown', { key: 'Enter' }));
+            
+            expect(stateStore.getState().inputValue).toBeNull();
+            expect(stateStore.getState().open).toBe(false);
+        });
+    });
+    
     describe('Time Input', () => {
         it('should handle time input changes', () => {
             const handlers = logic.getInteractionHandlers('timeInput');
+            const listener = vi.fn();
+            stateStore.subscribe(listener);
             
             const hourEvent = new Event('change');
             Object.defineProperty(hourEvent, 'target', {
@@ -380,9 +494,6 @@ describe('DatePicker Logic', () => {
             handlers.onChange(hourEvent);
             
             // Verify hour was set via subscription
-            const listener = vi.fn();
-            stateStore.subscribe(listener);
-            stateStore.setHour(14);
             expect(listener).toHaveBeenCalledWith(expect.objectContaining({
                 hour: 14
             }));
@@ -434,4 +545,164 @@ describe('Calendar Grid Generation', () => {
         const gridMonday = generateCalendarGrid(viewDate, 1, 'en-US');
         expect(gridMonday.weeks[0].days[0].date.getDay()).toBe(1);
     });
+});
+
+describe('DatePicker range views and presets', () => {
+    const createRangePicker = (options: DatePickerOptions) => {
+        const store = createDatePickerState({ mode: 'range', ...options });
+        const pickerLogic = createDatePickerLogic(store, { mode: 'range', ...options });
+        pickerLogic.connect(store);
+        pickerLogic.initialize();
+        return { store, pickerLogic };
+    };
+    
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 4, 15, 10, 30));
+    });
+    
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+    
+    it('should generate grids of the shown months', () => {
+        const grids = generateCalendarGrids(new Date(2024, 11, 20), 3, 0, 'en-US');
+        
+        expect(grids.map(grid => [grid.month, grid.year])).toEqual([[11, 2024], [0, 2025], [1, 2025]]);
+    });
+    
+    it('should label the grid with the span of the shown months', () => {
+        const { pickerLogic } = createRangePicker({ numberOfMonths: 2, viewDate: new Date(2024, 2, 1) });
+        
+        expect(pickerLogic.getA11yProps('grid')['aria-label']).toBe('Calendar for March\u2009–\u2009April 2024');
+    });
+    
+    it('should select a range with two clicks', () => {
+        const onRangeChange = vi.fn();
+        const { store, pickerLogic } = createRangePicker({ onRangeChange });
+        const handlers = pickerLogic.getInteractionHandlers('cell');
+        
+        handlers.onClick({ date: new Date(2024, 4, 10) });
+        expect(store.getState()).toMatchObject({ startDate: new Date(2024, 4, 10), endDate: null });
+        
+        handlers.onClick({ date: new Date(2024, 4, 12) });
+        expect(store.getState()).toMatchObject({ startDate: new Date(2024, 4, 10), endDate: new Date(2024, 4, 12) });
+    });
+    
+    it('should not pick range ends that are too far', () => {
+        const { store, pickerLogic } = createRangePicker({ maxRangeLength: 3 });
+        const handlers = pickerLogic.getInteractionHandlers('cell');
+        
+        handlers.onClick({ date: new Date(2024, 4, 10) });
+        handlers.onClick({ date: new Date(2024, 4, 20) });
+        
+        expect(store.getState()).toMatchObject({ startDate: new Date(2024, 4, 10), endDate: null });
+    });
+    
+    it('should reject typed ranges spanning disabled dates', () => {
+        const { store, pickerLogic } = createRangePicker({ disabledDates: [new Date(2024, 4, 12)] });
+        
+        pickerLogic.handleEvent('inputChange', { value: '05/10/2024 - 05/14/2024' });
+        
+        expect(store.getState().inputStatus).toBe('invalid');
+        expect(store.getState().endDate).toBeNull();
+    });
+    
+    it('should compute preset ranges from today', () => {
+        const context = { today: new Date(2024, 4, 15), timeZone: undefined, firstDayOfWeek: 1 };
+        
+        expect(createLastDaysPreset(7).getRange(context)).toEqual({ startDate: new Date(2024, 4, 9), endDate: new Date(2024, 4, 15) });
+        expect(createThisWeekPreset().getRange(context)).toEqual({ startDate: new Date(2024, 4, 13), endDate: new Date(2024, 4, 19) });
+        expect(createThisQuarterPreset().getRange(context)).toEqual({ startDate: new Date(2024, 3, 1), endDate: new Date(2024, 5, 30) });
+    });
+    
+    it('should select a preset range and close', () => {
+        const onRangeChange = vi.fn();
+        const preset = createLastDaysPreset(7);
+        const { store, pickerLogic } = createRangePicker({ presets: [preset], onRangeChange });
+        store.setOpen(true);
+        
+        const getPresetProps = () =>
+            (pickerLogic.getA11yProps('preset') as unknown as (preset: unknown) => Record<string, unknown>)(preset);
+        expect(getPresetProps()['aria-pressed']).toBe(false);
+        
+        pickerLogic.getInteractionHandlers('preset').onClick({ presetId: preset.id });
+        
+        expect(store.getState()).toMatchObject({ startDate: new Date(2024, 4, 9), endDate: new Date(2024, 4, 15), open: false });
+        expect(onRangeChange).not.toHaveBeenCalled();
+        
+        vi.runAllTimers();
+        expect(onRangeChange).toHaveBeenCalledWith(new Date(2024, 4, 9), new Date(2024, 4, 15));
+        expect(getPresetProps()['aria-pressed']).toBe(true);
+    });
+    
+    it('should disable presets that cannot be picked', () => {
+        const preset = createThisQuarterPreset();
+        const { store, pickerLogic } = createRangePicker({ presets: [preset], maxRangeLength: 31 });
+        
+        const presetA11y = pickerLogic.getA11yProps('preset') as unknown as (preset: unknown) => Record<string, unknown>;
+        expect(presetA11y(preset)['aria-disabled']).toBe(true);
+        
+        pickerLogic.handleEvent('presetSelect', { presetId: preset.id } as any);
+        expect(store.getState().startDate).toBeNull();
+    });
+});
+
+describe('DatePicker in time zones and calendar systems', () => {
+    const hostTimeZone = process.env.TZ;
+    
+    // Pin the host to a zone west of UTC, so days of zones east of it differ
+    beforeAll(() => {
+        process.env.TZ = 'America/Los_Angeles';
+    });
+    
+    afterAll(() => {
+        if (hostTimeZone === undefined) delete process.env.TZ;
+        else process.env.TZ = hostTimeZone;
+    });
+    
+    it('should select the start of a typed day in the time zone', () => {
+        const onChange = vi.fn();
+        const options: DatePickerOptions = { timeZone: 'Asia/Tokyo', onChange };
+        const store = createDatePickerState(options);
+        const pickerLogic = createDatePickerLogic(store, options);
+        pickerLogic.connect(store);
+        pickerLogic.initialize();
+        
+        pickerLogic.handleEvent('inputChange', { value: '03/10/2024' });
+        
+        expect(store.getState().value?.toISOString()).toBe('2024-03-09T15:00:00.000Z');
+        expect(onChange).toHaveBeenCalledWith(new Date('2024-03-09T15:00:00Z'));
+        expect(store.inputText.get()).toBe('03/10/2024');
+    });
+    
+    it('should generate days of the time zone', () => {
+        const grid = generateCalendarGrid(new Date('2024-03-10T04:00:00Z'), 0, 'en-US', 'Asia/Tokyo');
+        const days = grid.weeks.flatMap(week => week.days).filter(day => !day.isOutsideMonth);
+        
+        expect(grid.month).toBe(2);
+        expect(days).toHaveLength(31);
+        expect(days[9].date.toISOString()).toBe('2024-03-09T15:00:00.000Z');
+    });
+    
+    it('should generate months of the calendar system', () => {
+        // Tishri 5786 starts on a Tuesday
+        const grid = generateCalendarGrid(new Date(2025, 8, 23), 0, 'en-US', null, 'hebrew');
+        const days = grid.weeks.flatMap(week => week.days);
+        
+        expect(grid).toMatchObject({ month: 0, year: 5786 });
+        expect(days[2]).toMatchObject({ day: 1, month: 0, year: 5786, isOutsideMonth: false });
+        expect(days[2].date).toEqual(new Date(2025, 8, 23));
+        expect(days.filter(day => !day.isOutsideMonth)).toHaveLength(30);
+    });
+    
+    it('should label the grid in the calendar system', () => {
+        const options: DatePickerOptions = { calendar: 'buddhist', viewDate: new Date(2024, 5, 15) };
+        const store = createDatePickerState(options);
+        const pickerLogic = createDatePickerLogic(store, options);
+        pickerLogic.connect(store);
+        pickerLogic.initialize();
+        
+        expect(pickerLogic.getA11yProps('grid')['aria-label']).toBe('Calendar for June 2567 BE');
+    });
 });
\ No newline at end of file
@@ -3,10 +3,38 @@
  * Handles interactions and business logic for the date picker component
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
-import { generateComponentId } from '@stellarix-ui/utils';
-import type { DatePickerState, DatePickerEvents, DatePickerOptions, CalendarGrid, CalendarWeek, CalendarCell } from './types.js';
-import type { DatePickerStateStore } from './state.js';
+import { LogicLayerBuilder, autoPosition, flip, offset, shift, createComponentId } from '@stellarix-ui/core';
+import {
+    addCalendarMonths,
+    addDays,
+    comparePlainDates,
+    fromPlainDate,
+    getCalendarSystem,
+    getDayOfWeek,
+    parseDate,
+    toPlainDate,
+    type CalendarIdentifier,
+    type DateParseResult,
+    type DateParseStatus,
+    type PlainDate,
+} from '@stellarix-ui/utils';
+import type {
+    DatePickerState,
+    DatePickerEvents,
+    DatePickerOptions,
+    CalendarGrid,
+    CalendarWeek,
+    CalendarCell,
+    DateRange,
+    DateRangePreset,
+} from './types.js';
+import { getInputPattern, type DatePickerStateStore } from './state.js';
+
+/**
+ * Separator between typed range dates: a dash with spaces around it, so
+ * dashes inside dates like 2025-11-22 do not split them
+ */
+const TYPED_RANGE_SEPARATOR = /\s+[-\u2013]\s+/;
 
 /**
  * Creates the logic layer for the date picker component
@@ -15,13 +43,157 @@ export function createDatePickerLogic(
     state: DatePickerStateStore,
     options: DatePickerOptions = {}
 ) {
-    const componentId = generateComponentId('date-picker');
+    const componentId = createComponentId('date-picker');
     const calendarId = `${componentId}-calendar`;
     const inputId = `${componentId}-input`;
+    
+    const parseInput = (text: string, currentState: DatePickerState): DateParseResult => {
+        const result = parseDate(text, getInputPattern(currentState), {
+            locale: currentState.locale,
+            ...(options.twoDigitYearPivot !== undefined ? { twoDigitYearPivot: options.twoDigitYearPivot } : {})
+        });
+        // A typed date that cannot be picked is no better than a typo
+        if (result.date && state.isDateDisabled.get()(startOfTypedDay(result.date, currentState))) {
+            return { status: 'invalid', date: null };
+        }
+        return result;
+    };
+    
+    /**
+     * Selects a typed date, with its time when the time is included
+     */
+    const selectTypedDate = (date: Date) => {
+        const day = startOfTypedDay(date, state.getState());
+        const previous = state.getState().value;
+        state.batch(() => {
+            state.setValue(day);
+            state.setTime(date.getHours(), date.getMinutes());
+        });
+        if (options.onChange && previous?.getTime() !== day.getTime()) {
+            options.onChange(day);
+        }
+    };
+    
+    /**
+     * Applies typed text. A typed date is selected as soon as it is complete,
+     * while partial text waits for more typing.
+     */
+    const applyInput = (text: string) => {
+        const currentState = state.getState();
+        
+        if (currentState.mode === 'single') {
+            const result = parseInput(text, currentState);
+            state.setInputValue(text, result.status);
+            if (result.date) {
+                selectTypedDate(result.date);
+            }
+            return;
+        }
+        
+        const [startText = '', endText = '', ...rest] = text.split(TYPED_RANGE_SEPARATOR);
+        const start = parseInput(startText, currentState);
+        const end = parseInput(endText, currentState);
+        const reversed = start.date && end.date && end.date < start.date;
+        const notAllowed = start.date && end.date && !state.isRangeAllowed.get()(
+            startOfTypedDay(start.date, currentState),
+            startOfTypedDay(end.date, currentState)
+        );
+        
+        let status: DateParseStatus = 'partial';
+        if (rest.length > 0 || start.status === 'invalid' || end.status === 'invalid' || reversed || notAllowed) {
+            status = 'invalid';
+        } else if (start.status === 'empty' && end.status === 'empty') {
+            status = 'empty';
+        } else if (start.date && end.date) {
+            status = 'valid';
+        }
+        state.setInputValue(text, status);
+        
+        if (status === 'valid') {
+            const startDate = startOfTypedDay(start.date!, currentState);
+            const endDate = startOfTypedDay(end.date!, currentState);
+            const { startDate: previousStart, endDate: previousEnd } = currentState;
+            state.setDateRange(startDate, endDate);
+            if (options.onRangeChange &&
+                (previousStart?.getTime() !== startDate.getTime() || previousEnd?.getTime() !== endDate.getTime())) {
+                options.onRangeChange(startDate, endDate);
+            }
+        }
+    };
+    
+    /**
+     * Settles typed text when the input is left or Enter is pressed: a date
+     * shows formatted, cleared text clears the selection, and text that is
+     * not a date yet is flagged as invalid
+     */
+    const commitInput = () => {
+        const { inputValue, inputStatus, mode, value, startDate, endDate } = state.getState();
+        if (inputValue === null) {
+            return;
+        }
+        
+        if (inputStatus === 'valid') {
+            state.setInputValue(null);
+        } else if (inputStatus === 'empty') {
+            state.clearSelection();
+            if (mode === 'single' && value && options.onChange) {
+                options.onChange(null);
+            } else if (mode === 'range' && (startDate || endDate) && options.onRangeChange) {
+                options.onRangeChange(null, null);
+            }
+        } else {
+            state.setInputValue(inputValue, 'invalid');
+        }
+    };
+
+    /**
+     * Range of a preset from the options, computed from today
+     */
+    const getPresetRange = (presetId: string, currentState: DatePickerState): DateRange | null => {
+        const preset = options.presets?.find(candidate => candidate.id === presetId);
+        if (!preset) {
+            return null;
+        }
+        
+        const timeZone = currentState.timeZone ?? undefined;
+        return preset.getRange({
+            today: fromPlainDate(toPlainDate(new Date(), timeZone), timeZone),
+            timeZone,
+            firstDayOfWeek: currentState.firstDayOfWeek
+        });
+    };
+    
+    /**
+     * Selects the range of a preset, unless it is a range that cannot be picked
+     */
+    const applyPreset = (presetId: string) => {
+        const currentState = state.getState();
+        const range = getPresetRange(presetId, currentState);
+        if (currentState.mode !== 'range' || !range || !state.isRangeAllowed.get()(range.startDate, range.endDate)) {
+            return;
+        }
+        
+        const { startDate: previousStart, endDate: previousEnd } = currentState;
+        state.batch(() => {
+            state.setDateRange(range.startDate, range.endDate);
+            state.setInputValue(null);
+            if (!currentState.includeTime) {
+                state.setOpen(false);
+            }
+        });
+        if (options.onRangeChange &&
+            (previousStart?.getTime() !== range.startDate.getTime() || previousEnd?.getTime() !== range.endDate.getTime())) {
+            const { onRangeChange } = options;
+            // Report once the event's batch has notified subscribers of the new range
+            setTimeout(() => onRangeChange(range.startDate, range.endDate), 0);
+        }
+    };
 
     return new LogicLayerBuilder<DatePickerState, DatePickerEvents>()
         .onEvent('change', (currentState, payload) => {
             const value = payload && 'value' in payload ? payload.value : payload;
+            // Interactions dispatch their DOM event, which carries no value
+            if (value !== null && !(value instanceof Date)) return null;
             
             state.setValue(value);
             if (options.onChange) {
@@ -43,6 +215,16 @@ export function createDatePickerLogic(
             return null;
         })
         
+        .onEvent('inputChange', (currentState, payload: any) => {
+            if (currentState.disabled || currentState.readonly) return null;
+            
+            // The payload is the input event when typed, or { value }
+            const value = payload && 'value' in payload ? payload.value : payload?.target?.value;
+            applyInput(String(value ?? ''));
+            
+            return null;
+        })
+        
         .onEvent('open', (currentState, payload) => {
             if (currentState.disabled || currentState.readonly) return null;
             
@@ -115,6 +297,7 @@ export function createDatePickerLogic(
         
         .onEvent('dateSelect', (currentState, payload) => {
             const date = payload && 'date' in payload ? payload.date : payload;
+            if (!(date instanceof Date)) return null;
             
             state.selectDate(date);
             
@@ -128,6 +311,18 @@ export function createDatePickerLogic(
             return null;
         })
         
+        .onEvent('presetSelect', (currentState, payload: any) => {
+            if (currentState.disabled || currentState.readonly) return null;
+            
+            // The payload is { presetId }, or the click on an element with data-preset-id
+            const presetId = payload?.presetId ?? payload?.currentTarget?.dataset?.presetId;
+            if (presetId) {
+                applyPreset(presetId);
+            }
+            
+            return null;
+        })
+        
         .onEvent('navigate', (currentState, payload) => {
             const direction = payload && 'direction' in payload ? payload.direction : payload;
             
@@ -144,7 +339,7 @@ export function createDatePickerLogic(
             'aria-disabled': state.disabled,
             'aria-readonly': state.readonly,
             'aria-required': options.required,
-            'aria-invalid': options['aria-invalid'],
+            'aria-invalid': state.inputStatus === 'invalid' || options['aria-invalid'] || undefined,
             'aria-describedby': options['aria-describedby'],
             tabIndex: state.disabled ? -1 : 0,
             id: inputId
@@ -157,10 +352,39 @@ export function createDatePickerLogic(
             'aria-hidden': !state.open
         }))
         
-        .withA11y('grid', (state) => ({
-            role: 'grid',
-            'aria-label': `Calendar for ${state.viewDate.toLocaleString(state.locale, { month: 'long', year: 'numeric' })}`
-        }))
+        .withA11y('grid', (state) => {
+            const formatter = new Intl.DateTimeFormat(state.locale, {
+                month: 'long',
+                year: 'numeric',
+                calendar: state.calendar,
+                ...(state.timeZone ? { timeZone: state.timeZone } : {})
+            });
+            const months = getShownMonths(state.viewDate, state.numberOfMonths, state.timeZone, state.calendar);
+            
+            return {
+                role: 'grid',
+                // Several months are named by their span, e.g. 'March – April 2024'
+                'aria-label': `Calendar for ${months.length > 1
+                    ? formatter.formatRange(months[0]!, months[months.length - 1]!)
+                    : formatter.format(state.viewDate)}`
+            };
+        })
+        
+        .withA11y('preset', (currentState) => (preset: DateRangePreset) => {
+            const range = getPresetRange(preset.id, currentState);
+            const isActive = !!range && !!currentState.startDate && !!currentState.endDate &&
+                isSameDay(range.startDate, currentState.startDate, currentState) &&
+                isSameDay(range.endDate, currentState.endDate, currentState);
+            const isDisabled = currentState.disabled || currentState.readonly || !range ||
+                !state.isRangeAllowed.get()(range.startDate, range.endDate);
+            
+            return {
+                role: 'button',
+                'aria-pressed': isActive,
+                'aria-disabled': isDisabled || undefined,
+                'data-preset-id': preset.id
+            };
+        })
         
         .withA11y('cell', (state) => (cell: CalendarCell) => ({
             role: 'gridcell',
@@ -185,11 +409,22 @@ export function createDatePickerLogic(
             }
         })
         
+        .withInteraction('input', 'onInput', () => 'inputChange')
+        
         .withInteraction('input', 'onKeyDown', (currentState, event) => {
             if (currentState.disabled || currentState.readonly) {
                 return null;
             }
             
+            // Enter settles typed text, and Space is part of it
+            if (currentState.inputValue !== null && (event.key === 'Enter' || event.key === ' ')) {
+                if (event.key === 'Enter') {
+                    event.preventDefault();
+                    commitInput();
+                }
+                return null;
+            }
+            
             switch (event.key) {
                 case 'Enter':
                 case ' ':
@@ -197,7 +432,7 @@ export function createDatePickerLogic(
                     if (!currentState.open) {
                         state.setOpen(true);
                         return 'open';
-                    } else if (currentState.highlightedDate) {
+                    } else if (currentState.highlightedDate && state.isDateSelectable.get()(currentState.highlightedDate)) {
                         state.selectDate(currentState.highlightedDate);
                         
                         if (currentState.mode === 'single' && options.onChange) {
@@ -306,6 +541,8 @@ export function createDatePickerLogic(
         })
         
         .withInteraction('input', 'onBlur', (currentState, event) => {
+            commitInput();
+            
             // Small delay to allow date selection
             setTimeout(() => {
                 state.setFocused(false);
@@ -342,9 +579,7 @@ export function createDatePickerLogic(
             state.prevMonth();
             
             if (options.onMonthChange) {
-                const newViewDate = new Date(currentState.viewDate);
-                newViewDate.setMonth(newViewDate.getMonth() - 1);
-                options.onMonthChange(newViewDate);
+                options.onMonthChange(state.getState().viewDate);
             }
             
             return 'monthChange';
@@ -354,9 +589,7 @@ export function createDatePickerLogic(
             state.nextMonth();
             
             if (options.onMonthChange) {
-                const newViewDate = new Date(currentState.viewDate);
-                newViewDate.setMonth(newViewDate.getMonth() + 1);
-                options.onMonthChange(newViewDate);
+                options.onMonthChange(state.getState().viewDate);
             }
             
             return 'monthChange';
@@ -375,27 +608,31 @@ export function createDatePickerLogic(
             return 'viewChange';
         })
         
-        .withInteraction('cell', 'onClick', (currentState, event) => {
-            const date = (event as any).date;
-            const isDisabled = state.isDateDisabled.get();
-            if (!date || isDisabled(date)) {
+        .withInteraction('preset', 'onClick', (currentState, event) => {
+            if (currentState.disabled || currentState.readonly) {
+                event.preventDefault?.();
                 return null;
             }
             
-            state.selectDate(date);
-            
-            if (currentState.mode === 'single' && options.onChange) {
-                options.onChange(date);
+            return 'presetSelect';
+        })
+        
+        .withInteraction('cell', 'onClick', (currentState, event) => {
+            const date = (event as any).date;
+            const isSelectable = state.isDateSelectable.get();
+            if (!date || !isSelectable(date)) {
+                return null;
             }
             
+            // The dateSelect event selects the date of the click
             return 'dateSelect';
         })
         
         .withInteraction('cell', 'onMouseEnter', (currentState, event) => {
             if (currentState.mode === 'range' && currentState.startDate && !currentState.endDate) {
                 const date = (event as any).date;
-                const isDisabled = state.isDateDisabled.get();
-                if (date && !isDisabled(date)) {
+                const isSelectable = state.isDateSelectable.get();
+                if (date && isSelectable(date)) {
                     state.setHoveredDate(date);
                 }
             }
@@ -430,56 +667,77 @@ export function createDatePickerLogic(
         .build();
 }
 
+/**
+ * Keeps the calendar dropdown below the input, or above it when there is no
+ * room below, shifted to stay inside the viewport
+ * @param input The date input or its trigger
+ * @param calendar The calendar dropdown element
+ * @returns Stops updating
+ */
+export function autoUpdateDatePickerPosition(
+    input: HTMLElement,
+    calendar: HTMLElement
+): () => void {
+    return autoPosition(input, calendar, {
+        placement: 'bottom-start',
+        middleware: [offset(4), flip(), shift({ padding: 8 })],
+    });
+}
+
 /**
  * Generate calendar grid for display
+ * @param viewDate Date in the month to show
+ * @param firstDayOfWeek First day of week (0 = Sunday, 1 = Monday, etc.)
+ * @param locale Locale of the picker
+ * @param timeZone IANA time zone of the days, the host's when left out
+ * @param calendar Calendar system of the month
  */
 export function generateCalendarGrid(
     viewDate: Date,
     firstDayOfWeek: number,
-    locale: string
+    locale: string,
+    timeZone?: string | null,
+    calendar: CalendarIdentifier = 'gregory'
 ): CalendarGrid {
-    const year = viewDate.getFullYear();
-    const month = viewDate.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
+    const zone = timeZone ?? undefined;
+    const calendarSystem = getCalendarSystem(calendar);
+    const { year, month } = calendarSystem.fromPlainDate(toPlainDate(viewDate, zone));
+    const firstDay = calendarSystem.toPlainDate({ year, month, day: 1 });
+    const today = toPlainDate(new Date(), zone);
     
     // Calculate start date (may be from previous month)
-    const startDayOfWeek = firstDay.getDay();
-    const daysFromPrevMonth = (startDayOfWeek - firstDayOfWeek + 7) % 7;
-    const startDate = new Date(year, month, 1 - daysFromPrevMonth);
+    const daysFromPrevMonth = (getDayOfWeek(firstDay) - firstDayOfWeek + 7) % 7;
+    let currentDay = addDays(firstDay, -daysFromPrevMonth);
     
     const weeks: CalendarWeek[] = [];
-    let currentDate = new Date(startDate);
     let weekNumber = 1;
     
-    while (currentDate <= lastDay || currentDate.getDay() !== firstDayOfWeek) {
+    // Add weeks until one starts after the month
+    do {
         const days: CalendarCell[] = [];
         
         for (let i = 0; i < 7; i++) {
-            const date = new Date(currentDate);
-            const isToday = isDateToday(date);
-            const isOutsideMonth = date.getMonth() !== month;
-            const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+            const calendarDate = calendarSystem.fromPlainDate(currentDay);
+            const dayOfWeek = getDayOfWeek(currentDay);
             
             days.push({
-                date,
-                day: date.getDate(),
-                month: date.getMonth(),
-                year: date.getFullYear(),
-                isToday,
+                date: fromPlainDate(currentDay, zone),
+                day: calendarDate.day,
+                month: calendarDate.month - 1,
+                year: calendarDate.year,
+                isToday: comparePlainDates(currentDay, today) === 0,
                 isSelected: false, // Will be set by component
                 isRangeStart: false, // Will be set by component
                 isRangeEnd: false, // Will be set by component
                 isInRange: false, // Will be set by component
                 isDisabled: false, // Will be set by component
-                isOutsideMonth,
-                isWeekend,
+                isOutsideMonth: calendarDate.month !== month || calendarDate.year !== year,
+                isWeekend: dayOfWeek === 0 || dayOfWeek === 6,
                 isHighlighted: false, // Will be set by component
                 isHovered: false // Will be set by component
             });
             
-            currentDate.setDate(currentDate.getDate() + 1);
+            currentDay = addDays(currentDay, 1);
         }
         
         weeks.push({
@@ -488,21 +746,73 @@ export function generateCalendarGrid(
         });
         
         weekNumber++;
-    }
+    } while (isInMonth(currentDay, year, month, calendar));
     
     return {
-        month,
+        month: month - 1,
         year,
         weeks
     };
 }
 
 /**
- * Check if date is today
+ * Generate calendar grids of the months shown side by side
+ * @param viewDate Date in the first month to show
+ * @param numberOfMonths Number of months to show
+ * @param firstDayOfWeek First day of week (0 = Sunday, 1 = Monday, etc.)
+ * @param locale Locale of the picker
+ * @param timeZone IANA time zone of the days, the host's when left out
+ * @param calendar Calendar system of the months
+ */
+export function generateCalendarGrids(
+    viewDate: Date,
+    numberOfMonths: number,
+    firstDayOfWeek: number,
+    locale: string,
+    timeZone?: string | null,
+    calendar: CalendarIdentifier = 'gregory'
+): CalendarGrid[] {
+    return getShownMonths(viewDate, numberOfMonths, timeZone, calendar)
+        .map(month => generateCalendarGrid(month, firstDayOfWeek, locale, timeZone, calendar));
+}
+
+/**
+ * Start of the first day of each shown month
+ */
+function getShownMonths(
+    viewDate: Date,
+    numberOfMonths: number,
+    timeZone: string | null | undefined,
+    calendar: CalendarIdentifier
+): Date[] {
+    const zone = timeZone ?? undefined;
+    const calendarSystem = getCalendarSystem(calendar);
+    const first = { ...calendarSystem.fromPlainDate(toPlainDate(viewDate, zone)), day: 1 };
+    
+    return Array.from({ length: numberOfMonths }, (_, index) =>
+        fromPlainDate(calendarSystem.toPlainDate(addCalendarMonths(calendarSystem, first, index)), zone));
+}
+
+/**
+ * Whether a day falls in a month of a calendar system
+ */
+function isInMonth(day: PlainDate, year: number, month: number, calendar: CalendarIdentifier): boolean {
+    const calendarDate = getCalendarSystem(calendar).fromPlainDate(day);
+    return calendarDate.year === year && calendarDate.month === month;
+}
+
+/**
+ * Whether two dates fall on the same day in the time zone of the picker
+ */
+export function isSameDay(a: Date, b: Date, state: DatePickerState): boolean {
+    const timeZone = state.timeZone ?? undefined;
+    return comparePlainDates(toPlainDate(a, timeZone), toPlainDate(b, timeZone)) === 0;
+}
+
+/**
+ * Start of the day of a typed date, read from its wall-clock time in the
+ * time zone of the picker
  */
-function isDateToday(date: Date): boolean {
-    const today = new Date();
-    return date.getFullYear() === today.getFullYear() &&
-           date.getMonth() === today.getMonth() &&
-           date.getDate() === today.getDate();
+function startOfTypedDay(date: Date, state: DatePickerState): Date {
+    return fromPlainDate(toPlainDate(date), state.timeZone ?? undefined);
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+/**
+ * DatePicker Range Presets
+ * Factories for common preset ranges, computed from today in the picker's time zone
+ */
+
+import { addDays, fromPlainDate, getDayOfWeek, toPlainDate, type PlainDate } from '@stellarix-ui/utils';
+import type { DateRange, DateRangePreset, DateRangePresetContext } from './types.js';
+
+/**
+ * Range between two days, each starting at midnight of the time zone
+ */
+function toRange(start: PlainDate, end: PlainDate, context: DateRangePresetContext): DateRange {
+    return {
+        startDate: fromPlainDate(start, context.timeZone),
+        endDate: fromPlainDate(end, context.timeZone),
+    };
+}
+
+/**
+ * Last day of a month
+ * @param month Month, 1 for January
+ */
+function endOfMonth(year: number, month: number): PlainDate {
+    return addDays({ year, month: month + 1, day: 1 }, -1);
+}
+
+/**
+ * Range of a number of days ending today, e.g. "Last 7 days"
+ * @param days Days in the range, today included
+ * @param label Label of the preset
+ */
+export function createLastDaysPreset(days: number, label = `Last ${days} days`): DateRangePreset {
+    return {
+        id: `last-${days}-days`,
+        label,
+        getRange: (context) => {
+            const today = toPlainDate(context.today, context.timeZone);
+            return toRange(addDays(today, 1 - days), today, context);
+        },
+    };
+}
+
+/**
+ * Range of the current week, starting at the first day of the week
+ * @param label Label of the preset
+ */
+export function createThisWeekPreset(label = 'This week'): DateRangePreset {
+    return {
+        id: 'this-week',
+        label,
+        getRange: (context) => {
+            const today = toPlainDate(context.today, context.timeZone);
+            const start = addDays(today, -((getDayOfWeek(today) - context.firstDayOfWeek + 7) % 7));
+            return toRange(start, addDays(start, 6), context);
+        },
+    };
+}
+
+/**
+ * Range of the current month
+ * @param label Label of the preset
+ */
+export function createThisMonthPreset(label = 'This month'): DateRangePreset {
+    return {
+        id: 'this-month',
+        label,
+        getRange: (context) => {
+            const { year, month } = toPlainDate(context.today, context.timeZone);
+            return toRange({ year, month, day: 1 }, endOfMonth(year, month), context);
+        },
+    };
+}
+
+/**
+ * Range of the current quarter, e.g. April 1 to June 30
+ * @param label Label of the preset
+ */
+export function createThisQuarterPreset(label = 'This quarter'): DateRangePreset {
+    return {
+        id: 'this-quarter',
+        label,
+        getRange: (context) => {
+            const { year, month } = toPlainDate(context.today, context.timeZone);
+            const firstMonth = month - ((month - 1) % 3);
+            return toRange({ year, month: firstMonth, day: 1 }, endOfMonth(year, firstMonth + 2), context);
+        },
+    };
+}
+
+/**
+ * Range of the current year
+ * @param label Label of the preset
+ */
+export function createThisYearPreset(label = 'This year'): DateRangePreset {
+    return {
+        id: 'this-year',
+        label,
+        getRange: (context) => {
+            const { year } = toPlainDate(context.today, context.timeZone);
+            return toRange({ year, month: 1, day: 1 }, { year, month: 12, day: 31 }, context);
+        },
+    };
+}
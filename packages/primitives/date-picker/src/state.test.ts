@@ -2,8 +2,9 @@
  * DatePicker State Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createDatePickerState } from './state.js';
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { createSnapshot, restoreSnapshot } from '@stellarix-ui/core';
+import { createDatePickerState, datePickerSnapshotFormat } from './state.js';
 import type { DatePickerOptions } from './types.js';
 
 describe('DatePicker State', () => {
@@ -21,12 +22,8 @@ describe('DatePicker State', () => {
     describe('Initialization', () => {
         it('should create state with default values', () => {
             const state = createDatePickerState({});
-            const listener = vi.fn();
-            
-            state.subscribe(listener);
-            state.setValue(null); // Trigger to see current state
             
-            expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+            expect(state.getState()).toEqual(expect.objectContaining({
                 value: null,
                 startDate: null,
                 endDate: null,
@@ -53,12 +50,8 @@ describe('DatePicker State', () => {
             };
             
             const state = createDatePickerState(options);
-            const listener = vi.fn();
             
-            state.subscribe(listener);
-            state.setFocused(false); // Trigger to see current state
-            
-            expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+            expect(state.getState()).toEqual(expect.objectContaining({
                 value: testDate,
                 mode: 'range',
                 includeTime: true,
@@ -354,6 +347,36 @@ describe('DatePicker State', () => {
             expect(rangeState.displayValue.get()).toBe('01/15/2024 - 01/20/2024');
         });
         
+        it('should default to the date and time patterns of the locale', () => {
+            const state = createDatePickerState({ locale: 'de-DE', includeTime: true, value: new Date(2024, 0, 15) });
+            state.setTime(14, 5);
+            
+            expect(state.getState().dateFormat).toBe('DD.MM.YYYY');
+            expect(state.displayValue.get()).toBe('15.01.2024 14:05');
+            
+            const usState = createDatePickerState({ includeTime: true, value: new Date(2024, 0, 15) });
+            usState.setTime(14, 5);
+            expect(usState.displayValue.get()).toBe('01/15/2024 02:05 PM');
+        });
+        
+        it('should format month names in the locale', () => {
+            const state = createDatePickerState({ locale: 'fr-FR', dateFormat: 'D MMMM YYYY', value: new Date(2024, 0, 15) });
+            
+            expect(state.displayValue.get()).toBe('15 janvier 2024');
+        });
+        
+        it('should show typed text in the input until a date is picked', () => {
+            const state = createDatePickerState({ value: new Date(2024, 0, 15) });
+            expect(state.inputText.get()).toBe('01/15/2024');
+            
+            state.setInputValue('01/2', 'partial');
+            expect(state.inputText.get()).toBe('01/2');
+            
+            state.selectDate(new Date(2024, 0, 20));
+            expect(state.getState().inputValue).toBeNull();
+            expect(state.inputText.get()).toBe('01/20/2024');
+        });
+        
         it('should compute isDateDisabled', () => {
             const state = createDatePickerState({
                 minDate: new Date('2024-01-10'),
@@ -420,4 +443,173 @@ describe('DatePicker State', () => {
             }));
         });
     });
+
+    describe('Snapshot', () => {
+        it('should round-trip dates through a JSON snapshot', () => {
+            const state = createDatePickerState({ disabledDates: [testDate3] });
+            state.setValue(testDate);
+            state.setViewDate(testDate2);
+
+            const snapshot = JSON.parse(JSON.stringify(
+                createSnapshot('DatePicker', state.getState(), datePickerSnapshotFormat)
+            ));
+            const restored = restoreSnapshot(snapshot, datePickerSnapshotFormat);
+
+            expect(restored.value).toEqual(testDate);
+            expect(restored.viewDate).toEqual(testDate2);
+            expect(restored.disabledDates).toEqual([testDate3]);
+            expect(restored.mode).toBe('single');
+        });
+    });
+});
+
+describe('DatePicker State with several months and range constraints', () => {
+    it('should page all shown months together', () => {
+        const state = createDatePickerState({ numberOfMonths: 2, viewDate: new Date(2024, 0, 1) });
+        
+        state.nextMonth();
+        expect(state.getState().viewDate).toEqual(new Date(2024, 2, 1));
+        
+        state.prevMonth();
+        expect(state.getState().viewDate).toEqual(new Date(2024, 0, 1));
+    });
+    
+    it('should page by one month with the single page behavior', () => {
+        const state = createDatePickerState({ numberOfMonths: 3, pageBehavior: 'single', viewDate: new Date(2024, 0, 1) });
+        
+        state.nextMonth();
+        
+        expect(state.getState().viewDate).toEqual(new Date(2024, 1, 1));
+    });
+    
+    it('should keep the shown months when picking in a later one', () => {
+        const state = createDatePickerState({ mode: 'range', numberOfMonths: 2, viewDate: new Date(2024, 0, 1) });
+        
+        state.selectDate(new Date(2024, 1, 10));
+        expect(state.getState().viewDate).toEqual(new Date(2024, 0, 1));
+        
+        // A new range starting past the shown months shows its month first
+        state.selectDate(new Date(2024, 1, 12));
+        state.selectDate(new Date(2024, 2, 5));
+        expect(state.getState().viewDate).toEqual(new Date(2024, 2, 5));
+    });
+    
+    it('should move the shown months with the highlighted date', () => {
+        const state = createDatePickerState({ numberOfMonths: 2, viewDate: new Date(2024, 0, 1) });
+        state.setOpen(true);
+        
+        state.setHighlightedDate(new Date(2024, 1, 28));
+        state.navigateDate('down');
+        expect(state.getState().viewDate).toEqual(new Date(2024, 1, 6));
+        
+        state.navigateDate('pageUp');
+        state.navigateDate('pageUp');
+        expect(state.getState().viewDate).toEqual(new Date(2024, 0, 6));
+    });
+    
+    it('should check range lengths', () => {
+        const state = createDatePickerState({ mode: 'range', minRangeLength: 3, maxRangeLength: 7 });
+        const isRangeAllowed = state.isRangeAllowed.get();
+        
+        expect(isRangeAllowed(new Date(2024, 0, 10), new Date(2024, 0, 11))).toBe(false);
+        expect(isRangeAllowed(new Date(2024, 0, 10), new Date(2024, 0, 12))).toBe(true);
+        expect(isRangeAllowed(new Date(2024, 0, 16), new Date(2024, 0, 10))).toBe(true);
+        expect(isRangeAllowed(new Date(2024, 0, 10), new Date(2024, 0, 17))).toBe(false);
+    });
+    
+    it('should not allow ranges spanning disabled dates', () => {
+        const options: DatePickerOptions = { mode: 'range', disabledDates: [new Date(2024, 0, 15)] };
+        
+        expect(createDatePickerState(options).isRangeAllowed.get()(new Date(2024, 0, 10), new Date(2024, 0, 20))).toBe(false);
+        expect(createDatePickerState({ ...options, allowDisabledInRange: true })
+            .isRangeAllowed.get()(new Date(2024, 0, 10), new Date(2024, 0, 20))).toBe(true);
+    });
+    
+    it('should not allow ranges spanning days disabled by the custom function', () => {
+        // January 14, 2024 is a Sunday
+        const state = createDatePickerState({ mode: 'range', isDateDisabled: date => date.getDay() === 0 });
+        const isRangeAllowed = state.isRangeAllowed.get();
+        
+        expect(isRangeAllowed(new Date(2024, 0, 10), new Date(2024, 0, 13))).toBe(true);
+        expect(isRangeAllowed(new Date(2024, 0, 10), new Date(2024, 0, 16))).toBe(false);
+    });
+    
+    it('should only offer range ends that complete an allowed range', () => {
+        const state = createDatePickerState({ mode: 'range', maxRangeLength: 5, disabledDates: [new Date(2024, 0, 8)] });
+        const isSelectable = state.isDateSelectable.get();
+        
+        expect(isSelectable(new Date(2024, 0, 20))).toBe(true);
+        
+        state.selectDate(new Date(2024, 0, 10));
+        expect(isSelectable(new Date(2024, 0, 14))).toBe(true);
+        expect(isSelectable(new Date(2024, 0, 15))).toBe(false);
+        expect(isSelectable(new Date(2024, 0, 7))).toBe(false);
+    });
+    
+    it('should start a new range instead of completing one that is not allowed', () => {
+        const state = createDatePickerState({ mode: 'range', maxRangeLength: 5 });
+        
+        state.selectDate(new Date(2024, 0, 10));
+        state.selectDate(new Date(2024, 0, 20));
+        
+        expect(state.getState()).toMatchObject({ startDate: new Date(2024, 0, 20), endDate: null });
+    });
+});
+
+describe('DatePicker State in time zones and calendar systems', () => {
+    const hostTimeZone = process.env.TZ;
+    
+    // Pin the host to a zone west of UTC, so days of zones east of it differ
+    beforeAll(() => {
+        process.env.TZ = 'America/Los_Angeles';
+    });
+    
+    afterAll(() => {
+        if (hostTimeZone === undefined) delete process.env.TZ;
+        else process.env.TZ = hostTimeZone;
+    });
+    
+    it('should check disabled dates by day of the time zone', () => {
+        const state = createDatePickerState({
+            timeZone: 'Asia/Tokyo',
+            minDate: new Date('2024-03-09T16:00:00Z'), // March 10, 01:00 in Tokyo
+            disabledDates: [new Date('2024-03-15T12:00:00Z')] // March 15, 21:00 in Tokyo
+        });
+        const isDisabled = state.isDateDisabled.get();
+        
+        expect(isDisabled(new Date('2024-03-09T15:00:00Z'))).toBe(false);
+        expect(isDisabled(new Date('2024-03-09T14:59:00Z'))).toBe(true);
+        expect(isDisabled(new Date('2024-03-14T15:00:00Z'))).toBe(true);
+        expect(isDisabled(new Date('2024-03-15T15:00:00Z'))).toBe(false);
+    });
+    
+    it('should format the value in the time zone', () => {
+        const state = createDatePickerState({ timeZone: 'Asia/Tokyo', includeTime: true });
+        
+        state.setValue(new Date('2024-03-09T15:00:00Z'));
+        state.setTime(9, 30);
+        
+        expect(state.displayValue.get()).toBe('03/10/2024 09:30 AM');
+    });
+    
+    it('should navigate by days of the time zone across daylight saving changes', () => {
+        const state = createDatePickerState({ timeZone: 'America/New_York' });
+        
+        state.setOpen(true);
+        state.setHighlightedDate(new Date('2024-03-09T05:00:00Z'));
+        state.navigateDate('next');
+        state.navigateDate('next');
+        
+        expect(state.getState().highlightedDate?.toISOString()).toBe('2024-03-11T04:00:00.000Z');
+    });
+    
+    it('should page through months of the calendar system', () => {
+        // 1 Ramadan 1446
+        const state = createDatePickerState({ calendar: 'islamic-umalqura', viewDate: new Date(2025, 2, 1) });
+        
+        state.nextMonth();
+        
+        // 1 Shawwal 1446
+        expect(state.getState().viewDate).toEqual(new Date(2025, 2, 30));
+    });
 });
\ No newline at end of file
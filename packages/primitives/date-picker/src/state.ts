@@ -3,20 +3,52 @@
  * Manages the state for the date picker component
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, snapshotCodecs, type SnapshotFormat } from '@stellarix-ui/core';
+import {
+    addCalendarMonths,
+    addDays,
+    comparePlainDates,
+    differenceInDays,
+    formatDate,
+    fromPlainDate,
+    getCalendarSystem,
+    getDayOfWeek,
+    getLocaleDatePattern,
+    getLocaleTimePattern,
+    toPlainDate,
+    toZonedTime,
+    type DateParseStatus,
+    type PlainDate,
+} from '@stellarix-ui/utils';
 import type { DatePickerState, DatePickerOptions } from './types.js';
 
+/**
+ * Snapshot format of the date picker state
+ */
+export const datePickerSnapshotFormat: SnapshotFormat<DatePickerState> = {
+    value: snapshotCodecs.nullableDate,
+    startDate: snapshotCodecs.nullableDate,
+    endDate: snapshotCodecs.nullableDate,
+    hoveredDate: snapshotCodecs.nullableDate,
+    viewDate: snapshotCodecs.date,
+    minDate: snapshotCodecs.nullableDate,
+    maxDate: snapshotCodecs.nullableDate,
+    disabledDates: snapshotCodecs.arrayOf(snapshotCodecs.date),
+    highlightedDate: snapshotCodecs.nullableDate,
+};
+
 /**
  * Creates a date picker state store
  */
 export function createDatePickerState(options: DatePickerOptions) {
-    const now = new Date();
+    const locale = options.locale || 'en-US';
     const initialState: DatePickerState = {
         value: options.value || null,
         startDate: options.startDate || null,
         endDate: options.endDate || null,
         hoveredDate: null,
         viewDate: options.viewDate || options.value || options.startDate || new Date(),
+        numberOfMonths: Math.max(1, Math.floor(options.numberOfMonths || 1)),
         currentView: 'day',
         mode: options.mode || 'single',
         includeTime: options.includeTime || false,
@@ -29,14 +61,77 @@ export function createDatePickerState(options: DatePickerOptions) {
         minDate: options.minDate || null,
         maxDate: options.maxDate || null,
         disabledDates: options.disabledDates || [],
+        minRangeLength: options.minRangeLength || null,
+        maxRangeLength: options.maxRangeLength || null,
         firstDayOfWeek: options.firstDayOfWeek || 0,
         highlightedDate: null,
-        dateFormat: options.dateFormat || 'MM/DD/YYYY',
+        dateFormat: options.dateFormat || getLocaleDatePattern(locale),
+        timeFormat: options.timeFormat || getLocaleTimePattern(locale),
+        inputValue: null,
+        inputStatus: 'empty',
         placeholder: options.placeholder || 'Select date',
-        locale: options.locale || 'en-US'
+        locale,
+        timeZone: options.timeZone || null,
+        calendar: options.calendar || 'gregory'
     };
 
-    const store = createComponentState('DatePicker', initialState);
+    const store = createComponentState('DatePicker', initialState, {
+        ...(options.middleware ? { middleware: options.middleware } : {}),
+    });
+    
+    const isDateDisabled = (date: Date, currentState: DatePickerState): boolean => {
+        const day = toDay(date, currentState);
+        // Check min/max dates by their day in the time zone
+        if (currentState.minDate && comparePlainDates(day, toDay(currentState.minDate, currentState)) < 0) return true;
+        if (currentState.maxDate && comparePlainDates(day, toDay(currentState.maxDate, currentState)) > 0) return true;
+        
+        // Check disabled dates array
+        if (currentState.disabledDates.some(d => comparePlainDates(toDay(d, currentState), day) === 0)) return true;
+        
+        // Check custom disabled function
+        if (options.isDateDisabled) {
+            return options.isDateDisabled(date);
+        }
+        
+        return false;
+    };
+    
+    /**
+     * Whether a range between two dates, in either order, may be picked:
+     * its length is within bounds and none of its days are disabled
+     */
+    const isRangeAllowed = (startDate: Date, endDate: Date, currentState: DatePickerState): boolean => {
+        let start = toDay(startDate, currentState);
+        let end = toDay(endDate, currentState);
+        if (comparePlainDates(start, end) > 0) {
+            [start, end] = [end, start];
+        }
+        
+        const length = differenceInDays(start, end) + 1;
+        if (currentState.minRangeLength && length < currentState.minRangeLength) return false;
+        if (currentState.maxRangeLength && length > currentState.maxRangeLength) return false;
+        
+        if (isDateDisabled(fromDay(start, currentState), currentState) || isDateDisabled(fromDay(end, currentState), currentState)) {
+            return false;
+        }
+        if (!options.allowDisabledInRange) {
+            // Days between the ends are within the min and max dates when the ends are
+            const spansDisabledDate = currentState.disabledDates.some(date => {
+                const day = toDay(date, currentState);
+                return comparePlainDates(day, start) > 0 && comparePlainDates(day, end) < 0;
+            });
+            if (spansDisabledDate) return false;
+            
+            // Only the custom function needs every day in between
+            if (options.isDateDisabled) {
+                for (let day = addDays(start, 1); comparePlainDates(day, end) < 0; day = addDays(day, 1)) {
+                    if (options.isDateDisabled(fromDay(day, currentState))) return false;
+                }
+            }
+        }
+        
+        return true;
+    };
 
     // Extended API for date picker-specific state management
     return {
@@ -47,7 +142,7 @@ export function createDatePickerState(options: DatePickerOptions) {
             store.setState((prev) => ({ 
                 ...prev, 
                 value,
-                viewDate: value || prev.viewDate
+                viewDate: value instanceof Date ? revealDate(value, prev) : prev.viewDate
             }));
         },
         
@@ -56,7 +151,7 @@ export function createDatePickerState(options: DatePickerOptions) {
                 ...prev, 
                 startDate,
                 endDate,
-                viewDate: startDate || prev.viewDate
+                viewDate: startDate instanceof Date ? revealDate(startDate, prev) : prev.viewDate
             }));
         },
         
@@ -64,7 +159,7 @@ export function createDatePickerState(options: DatePickerOptions) {
             store.setState((prev) => ({ 
                 ...prev, 
                 startDate,
-                viewDate: startDate || prev.viewDate
+                viewDate: startDate instanceof Date ? revealDate(startDate, prev) : prev.viewDate
             }));
         },
         
@@ -85,72 +180,21 @@ export function createDatePickerState(options: DatePickerOptions) {
             store.setState((prev) => ({ ...prev, currentView }));
         },
         
+        // All shown months page together, by all of them or by one
         nextMonth: () => {
-            store.setState((prev) => {
-                const year = prev.viewDate.getFullYear();
-                const month = prev.viewDate.getMonth();
-                const day = prev.viewDate.getDate();
-                
-                // Create new date for next month
-                const newDate = new Date(year, month + 1, 1);
-                
-                // Preserve day if possible
-                const daysInNewMonth = new Date(year, month + 2, 0).getDate();
-                newDate.setDate(Math.min(day, daysInNewMonth));
-                
-                return { ...prev, viewDate: newDate };
-            });
+            store.setState((prev) => ({ ...prev, viewDate: moveMonths(prev.viewDate, getPageSize(prev, options.pageBehavior), prev) }));
         },
         
         prevMonth: () => {
-            store.setState((prev) => {
-                const year = prev.viewDate.getFullYear();
-                const month = prev.viewDate.getMonth();
-                const day = prev.viewDate.getDate();
-                
-                // Create new date for previous month
-                const newDate = new Date(year, month - 1, 1);
-                
-                // Preserve day if possible
-                const daysInNewMonth = new Date(year, month, 0).getDate();
-                newDate.setDate(Math.min(day, daysInNewMonth));
-                
-                return { ...prev, viewDate: newDate };
-            });
+            store.setState((prev) => ({ ...prev, viewDate: moveMonths(prev.viewDate, -getPageSize(prev, options.pageBehavior), prev) }));
         },
         
         nextYear: () => {
-            store.setState((prev) => {
-                const year = prev.viewDate.getFullYear();
-                const month = prev.viewDate.getMonth();
-                const day = prev.viewDate.getDate();
-                
-                // Create new date for next year
-                const newDate = new Date(year + 1, month, 1);
-                
-                // Preserve day if possible (handle leap year)
-                const daysInNewMonth = new Date(year + 1, month + 1, 0).getDate();
-                newDate.setDate(Math.min(day, daysInNewMonth));
-                
-                return { ...prev, viewDate: newDate };
-            });
+            store.setState((prev) => ({ ...prev, viewDate: moveYears(prev.viewDate, 1, prev) }));
         },
         
         prevYear: () => {
-            store.setState((prev) => {
-                const year = prev.viewDate.getFullYear();
-                const month = prev.viewDate.getMonth();
-                const day = prev.viewDate.getDate();
-                
-                // Create new date for previous year
-                const newDate = new Date(year - 1, month, 1);
-                
-                // Preserve day if possible (handle leap year)
-                const daysInNewMonth = new Date(year - 1, month + 1, 0).getDate();
-                newDate.setDate(Math.min(day, daysInNewMonth));
-                
-                return { ...prev, viewDate: newDate };
-            });
+            store.setState((prev) => ({ ...prev, viewDate: moveYears(prev.viewDate, -1, prev) }));
         },
         
         // Time management
@@ -187,6 +231,11 @@ export function createDatePickerState(options: DatePickerOptions) {
             store.setState((prev) => ({ ...prev, readonly }));
         },
         
+        // Typed input management
+        setInputValue: (inputValue: string | null, inputStatus: DateParseStatus = 'empty') => {
+            store.setState((prev) => ({ ...prev, inputValue, inputStatus }));
+        },
+        
         // Highlighted date management
         setHighlightedDate: (highlightedDate: Date | null) => {
             store.setState((prev) => ({ ...prev, highlightedDate }));
@@ -197,48 +246,46 @@ export function createDatePickerState(options: DatePickerOptions) {
             store.setState((prev) => {
                 if (!prev.highlightedDate) return prev;
                 
-                const newDate = new Date(prev.highlightedDate);
-                const dayOfWeek = newDate.getDay();
-                const daysInMonth = new Date(newDate.getFullYear(), newDate.getMonth() + 1, 0).getDate();
+                const day = toDay(prev.highlightedDate, prev);
+                // Days from the first day of the week
+                const weekOffset = (getDayOfWeek(day) - prev.firstDayOfWeek + 7) % 7;
+                let newDate = prev.highlightedDate;
                 
                 switch (direction) {
                     case 'prev':
-                        newDate.setDate(newDate.getDate() - 1);
+                        newDate = fromDay(addDays(day, -1), prev);
                         break;
                     case 'next':
-                        newDate.setDate(newDate.getDate() + 1);
+                        newDate = fromDay(addDays(day, 1), prev);
                         break;
                     case 'up':
-                        newDate.setDate(newDate.getDate() - 7);
+                        newDate = fromDay(addDays(day, -7), prev);
                         break;
                     case 'down':
-                        newDate.setDate(newDate.getDate() + 7);
+                        newDate = fromDay(addDays(day, 7), prev);
                         break;
                     case 'pageUp':
-                        newDate.setMonth(newDate.getMonth() - 1);
+                        newDate = moveMonths(prev.highlightedDate, -1, prev);
                         break;
                     case 'pageDown':
-                        newDate.setMonth(newDate.getMonth() + 1);
+                        newDate = moveMonths(prev.highlightedDate, 1, prev);
                         break;
                     case 'home':
-                        newDate.setDate(newDate.getDate() - dayOfWeek + prev.firstDayOfWeek);
-                        if (newDate.getDay() > dayOfWeek) {
-                            newDate.setDate(newDate.getDate() - 7);
-                        }
+                        newDate = fromDay(addDays(day, -weekOffset), prev);
                         break;
                     case 'end':
-                        newDate.setDate(newDate.getDate() + (6 - dayOfWeek) + prev.firstDayOfWeek);
-                        if (newDate.getDay() < dayOfWeek) {
-                            newDate.setDate(newDate.getDate() + 7);
-                        }
+                        newDate = fromDay(addDays(day, 6 - weekOffset), prev);
                         break;
                 }
                 
-                // Update view date if highlighted date moves to different month
+                // Update view date if highlighted date moves out of the shown months,
+                // showing its month first when moving back and last when moving on
+                const monthOffset = getMonthOffset(newDate, prev);
                 let newViewDate = prev.viewDate;
-                if (newDate.getMonth() !== prev.viewDate.getMonth() || 
-                    newDate.getFullYear() !== prev.viewDate.getFullYear()) {
-                    newViewDate = new Date(newDate);
+                if (monthOffset < 0) {
+                    newViewDate = newDate;
+                } else if (monthOffset >= prev.numberOfMonths) {
+                    newViewDate = moveMonths(newDate, 1 - prev.numberOfMonths, prev);
                 }
                 
                 return { 
@@ -251,23 +298,27 @@ export function createDatePickerState(options: DatePickerOptions) {
         
         // Selection methods
         selectDate: (date: Date) => {
-            store.setState((prev) => {
+            store.setState((current) => {
+                // A picked date replaces any typed text
+                const prev: DatePickerState = { ...current, inputValue: null, inputStatus: 'empty' };
+                
                 if (prev.mode === 'single') {
                     return { 
                         ...prev, 
                         value: date,
-                        viewDate: date,
+                        viewDate: revealDate(date, prev),
                         open: prev.includeTime ? true : (options.closeOnSelect !== false ? false : prev.open)
                     };
                 } else {
                     // Range mode
-                    if (!prev.startDate || (prev.startDate && prev.endDate)) {
+                    // A range that cannot be picked starts a new one instead
+                    if (!prev.startDate || (prev.startDate && prev.endDate) || !isRangeAllowed(prev.startDate, date, prev)) {
                         // Start new range
                         return { 
                             ...prev, 
                             startDate: date,
                             endDate: null,
-                            viewDate: date
+                            viewDate: revealDate(date, prev)
                         };
                     } else {
                         // Complete range
@@ -308,7 +359,9 @@ export function createDatePickerState(options: DatePickerOptions) {
                 value: null,
                 startDate: null,
                 endDate: null,
-                hoveredDate: null
+                hoveredDate: null,
+                inputValue: null,
+                inputStatus: 'empty'
             }));
         },
         
@@ -319,36 +372,27 @@ export function createDatePickerState(options: DatePickerOptions) {
             state.mode === 'single' ? state.value !== null : (state.startDate !== null || state.endDate !== null)
         ),
         
-        displayValue: store.derive(state => {
-            if (state.mode === 'single' && state.value) {
-                return formatDate(state.value, state.dateFormat, state.locale);
-            } else if (state.mode === 'range') {
-                if (state.startDate && state.endDate) {
-                    return `${formatDate(state.startDate, state.dateFormat, state.locale)} - ${formatDate(state.endDate, state.dateFormat, state.locale)}`;
-                } else if (state.startDate) {
-                    return formatDate(state.startDate, state.dateFormat, state.locale);
-                }
-            }
-            return '';
-        }),
+        displayValue: store.derive(formatDisplayValue),
+        
+        // Text shown in the input: the typed text while typing, the selected value otherwise
+        inputText: store.derive(state => state.inputValue ?? formatDisplayValue(state)),
         
         isDateDisabled: {
+            get: () => (date: Date) => isDateDisabled(date, store.getState())
+        },
+        
+        isRangeAllowed: {
+            get: () => (startDate: Date, endDate: Date) => isRangeAllowed(startDate, endDate, store.getState())
+        },
+        
+        // Whether a date can be picked now: while the end of a range is
+        // picked, only dates completing a range that may be picked can be
+        isDateSelectable: {
             get: () => (date: Date) => {
                 const currentState = store.getState();
-                // Check min/max dates
-                if (currentState.minDate && date < currentState.minDate) return true;
-                if (currentState.maxDate && date > currentState.maxDate) return true;
-                
-                // Check disabled dates array
-                const dateStr = date.toDateString();
-                if (currentState.disabledDates.some(d => d.toDateString() === dateStr)) return true;
-                
-                // Check custom disabled function
-                if (options.isDateDisabled) {
-                    return options.isDateDisabled(date);
-                }
-                
-                return false;
+                if (isDateDisabled(date, currentState)) return false;
+                if (currentState.mode !== 'range' || !currentState.startDate || currentState.endDate) return true;
+                return isRangeAllowed(currentState.startDate, date, currentState);
             }
         },
         
@@ -380,24 +424,117 @@ export function createDatePickerState(options: DatePickerOptions) {
 }
 
 /**
- * Format date according to format string
+ * Day of a date in the time zone of the picker
+ */
+function toDay(date: Date, state: DatePickerState): PlainDate {
+    return toPlainDate(date, state.timeZone ?? undefined);
+}
+
+/**
+ * Start of a day in the time zone of the picker
+ */
+function fromDay(day: PlainDate, state: DatePickerState): Date {
+    return fromPlainDate(day, state.timeZone ?? undefined);
+}
+
+/**
+ * Months from the view date's month to the month of a date in the
+ * picker's calendar system: 0 for the first shown month, negative for
+ * months before it
+ */
+function getMonthOffset(date: Date, state: DatePickerState): number {
+    const calendar = getCalendarSystem(state.calendar);
+    const target = calendar.fromPlainDate(toDay(date, state));
+    const view = calendar.fromPlainDate(toDay(state.viewDate, state));
+    
+    let offset = target.month - view.month;
+    for (let year = view.year; year < target.year; year++) {
+        offset += calendar.getMonthsInYear(year);
+    }
+    for (let year = target.year; year < view.year; year++) {
+        offset -= calendar.getMonthsInYear(year);
+    }
+    return offset;
+}
+
+/**
+ * View date showing a date: the current one when the date is in a shown
+ * month after the first, so picking there does not move the months
+ */
+function revealDate(date: Date, state: DatePickerState): Date {
+    const monthOffset = getMonthOffset(date, state);
+    return monthOffset > 0 && monthOffset < state.numberOfMonths ? state.viewDate : date;
+}
+
+/**
+ * Months the previous and next month buttons page by
+ */
+function getPageSize(state: DatePickerState, pageBehavior: DatePickerOptions['pageBehavior'] = 'visible'): number {
+    return pageBehavior === 'single' ? 1 : state.numberOfMonths;
+}
+
+/**
+ * Start of the day months after a date in the picker's calendar system,
+ * keeping the day within the month
+ */
+function moveMonths(date: Date, months: number, state: DatePickerState): Date {
+    const calendar = getCalendarSystem(state.calendar);
+    const calendarDate = calendar.fromPlainDate(toDay(date, state));
+    return fromDay(calendar.toPlainDate(addCalendarMonths(calendar, calendarDate, months)), state);
+}
+
+/**
+ * Start of the day years after a date in the picker's calendar system,
+ * keeping the month and day within the year
+ */
+function moveYears(date: Date, years: number, state: DatePickerState): Date {
+    const calendar = getCalendarSystem(state.calendar);
+    const calendarDate = calendar.fromPlainDate(toDay(date, state));
+    return fromDay(calendar.toPlainDate({ ...calendarDate, year: calendarDate.year + years }), state);
+}
+
+/**
+ * Separates the start and end dates of a range in the input
+ */
+export const RANGE_SEPARATOR = ' - ';
+
+/**
+ * Pattern of the input: the date, followed by the time when it is included
+ */
+export function getInputPattern(state: DatePickerState): string {
+    return state.includeTime ? `${state.dateFormat} ${state.timeFormat}` : state.dateFormat;
+}
+
+/**
+ * Formats a selected date for the input, with the selected time when it is included
  */
-function formatDate(date: Date, format: string, locale: string): string {
-    if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
+function formatValue(date: Date | null, state: DatePickerState): string {
+    if (!date) {
         return '';
     }
     
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    
-    return format
-        .replace('YYYY', String(year))
-        .replace('YY', String(year).slice(-2))
-        .replace('MM', month)
-        .replace('M', String(date.getMonth() + 1))
-        .replace('DD', day)
-        .replace('D', String(date.getDate()));
+    // Host-time formatting shows the wall-clock time of the time zone
+    const withTime = toZonedTime(date, state.timeZone ?? undefined);
+    if (state.includeTime) {
+        withTime.setHours(state.hour, state.minute, 0, 0);
+    }
+    return formatDate(withTime, getInputPattern(state), state.locale);
+}
+
+/**
+ * Formats the selected date or range for the input
+ */
+function formatDisplayValue(state: DatePickerState): string {
+    if (state.mode === 'single' && state.value) {
+        return formatValue(state.value, state);
+    } else if (state.mode === 'range') {
+        if (state.startDate && state.endDate) {
+            return `${formatValue(state.startDate, state)}${RANGE_SEPARATOR}${formatValue(state.endDate, state)}`;
+        } else if (state.startDate) {
+            return formatValue(state.startDate, state);
+        }
+    }
+    return '';
 }
 
 export type DatePickerStateStore = ReturnType<typeof createDatePickerState>;
\ No newline at end of file
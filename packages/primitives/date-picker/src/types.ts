@@ -3,6 +3,9 @@
  * Define all TypeScript interfaces for the date picker component
  */
 
+import type { StoreMiddleware } from '@stellarix-ui/core';
+import type { CalendarIdentifier, DateParseStatus } from '@stellarix-ui/utils';
+
 /**
  * Date picker selection mode
  */
@@ -13,13 +16,69 @@ export type DatePickerMode = 'single' | 'range';
  */
 export type DatePickerView = 'day' | 'month' | 'year';
 
+/**
+ * How far the previous and next month buttons page
+ * - `visible`: by all months shown, so the next page follows the last month
+ * - `single`: by one month
+ */
+export type DatePickerPageBehavior = 'visible' | 'single';
+
+/**
+ * Start and end of a date range
+ */
+export interface DateRange {
+    startDate: Date;
+    endDate: Date;
+}
+
+/**
+ * What a preset range is computed from
+ */
+export interface DateRangePresetContext {
+    /**
+     * Start of today in the picker's time zone
+     */
+    today: Date;
+    
+    /**
+     * IANA time zone of the picker, `undefined` for the time zone of the host
+     */
+    timeZone: string | undefined;
+    
+    /**
+     * First day of week (0 = Sunday, 1 = Monday, etc.)
+     */
+    firstDayOfWeek: number;
+}
+
+/**
+ * Range offered as a shortcut in range mode, e.g. "Last 7 days"
+ */
+export interface DateRangePreset {
+    /**
+     * Unique key of the preset
+     */
+    id: string;
+    
+    /**
+     * Label shown for the preset
+     */
+    label: string;
+    
+    /**
+     * Range of the preset, computed when it is picked
+     */
+    getRange: (context: DateRangePresetContext) => DateRange;
+}
+
 /**
  * Date picker component state
  * Represents the internal state of the component
  */
 export interface DatePickerState {
     /**
-     * Current selected date (single mode)
+     * Current selected date (single mode), the start of the day in the
+     * time zone when the date is picked or typed
      */
     value: Date | null;
     
@@ -39,10 +98,16 @@ export interface DatePickerState {
     hoveredDate: Date | null;
     
     /**
-     * Currently displayed month/year in calendar view
+     * Currently displayed month/year in calendar view, the first month
+     * when several are shown
      */
     viewDate: Date;
     
+    /**
+     * Number of months shown side by side
+     */
+    numberOfMonths: number;
+    
     /**
      * Current view type
      */
@@ -103,6 +168,16 @@ export interface DatePickerState {
      */
     disabledDates: Date[];
     
+    /**
+     * Fewest days a range may span, counting its start and end
+     */
+    minRangeLength: number | null;
+    
+    /**
+     * Most days a range may span, counting its start and end
+     */
+    maxRangeLength: number | null;
+    
     /**
      * First day of week (0 = Sunday, 1 = Monday, etc.)
      */
@@ -118,6 +193,21 @@ export interface DatePickerState {
      */
     dateFormat: string;
     
+    /**
+     * Time format string
+     */
+    timeFormat: string;
+    
+    /**
+     * Text typed into the input, `null` while it shows the selected value
+     */
+    inputValue: string | null;
+    
+    /**
+     * Whether the typed text is a date, part of one or neither
+     */
+    inputStatus: DateParseStatus;
+    
     /**
      * Placeholder text
      */
@@ -127,6 +217,16 @@ export interface DatePickerState {
      * Locale for month/day names
      */
     locale: string;
+    
+    /**
+     * IANA time zone of the days, `null` for the time zone of the host
+     */
+    timeZone: string | null;
+    
+    /**
+     * Calendar system of the months and years shown
+     */
+    calendar: CalendarIdentifier;
 }
 
 /**
@@ -164,6 +264,44 @@ export interface DatePickerOptions {
      */
     mode?: DatePickerMode;
     
+    /**
+     * Number of months shown side by side, starting at the view date
+     * @default 1
+     */
+    numberOfMonths?: number;
+    
+    /**
+     * How far the previous and next month buttons page when several
+     * months are shown
+     * @default 'visible'
+     */
+    pageBehavior?: DatePickerPageBehavior;
+    
+    /**
+     * Ranges offered as shortcuts in range mode, see `createLastDaysPreset`
+     * and the other preset factories
+     * @default []
+     */
+    presets?: DateRangePreset[];
+    
+    /**
+     * Fewest days a range may span, counting its start and end; shorter
+     * ranges cannot be picked
+     */
+    minRangeLength?: number;
+    
+    /**
+     * Most days a range may span, counting its start and end; longer
+     * ranges cannot be picked
+     */
+    maxRangeLength?: number;
+    
+    /**
+     * Whether a range may span disabled dates; its start and end never can
+     * @default false
+     */
+    allowDisabledInRange?: boolean;
+    
     /**
      * Whether to include time selection
      * @default false
@@ -212,17 +350,26 @@ export interface DatePickerOptions {
     firstDayOfWeek?: number;
     
     /**
-     * Date format string for display
-     * @default 'MM/DD/YYYY'
+     * Date format string for display and typing, see `formatDate` in
+     * `@stellarix-ui/utils` for the tokens
+     * @default the locale's pattern, e.g. 'MM/DD/YYYY' for en-US
      */
     dateFormat?: string;
     
     /**
-     * Time format string for display (when includeTime is true)
-     * @default 'HH:mm'
+     * Time format string for display and typing (when includeTime is true);
+     * `hh` hours with `A` use the 12 hour clock, `HH` hours the 24 hour clock
+     * @default the locale's pattern, e.g. 'hh:mm A' for en-US and 'HH:mm' for de-DE
      */
     timeFormat?: string;
     
+    /**
+     * How many years after the current year a typed two-digit year may
+     * reach; later ones fall in the previous century
+     * @default 50
+     */
+    twoDigitYearPivot?: number;
+    
     /**
      * Placeholder text
      * @default 'Select date'
@@ -235,6 +382,22 @@ export interface DatePickerOptions {
      */
     locale?: string;
     
+    /**
+     * IANA time zone the days are in, e.g. 'America/New_York'. Picked and
+     * typed dates select the start of their day in this zone, and dates
+     * are compared with `minDate`, `maxDate` and `disabledDates` by their
+     * day in it.
+     * @default the time zone of the host
+     */
+    timeZone?: string;
+    
+    /**
+     * Calendar system of the months and years shown; typed dates keep the
+     * Gregorian `dateFormat`
+     * @default 'gregory'
+     */
+    calendar?: CalendarIdentifier;
+    
     /**
      * Whether to show week numbers
      * @default false
@@ -286,6 +449,11 @@ export interface DatePickerOptions {
      * Callback when displayed month changes
      */
     onMonthChange?: (date: Date) => void;
+    
+    /**
+     * Store middleware, e.g. `createValidationMiddleware` to reject a range that ends before it starts
+     */
+    middleware?: StoreMiddleware<DatePickerState>[];
 }
 
 /**
@@ -311,6 +479,13 @@ export interface DatePickerEvents {
         formattedEndDate: string;
     };
     
+    /**
+     * Fired when text is typed into the input
+     */
+    inputChange: {
+        value: string;
+    };
+    
     /**
      * Fired when calendar opens
      */
@@ -361,6 +536,15 @@ export interface DatePickerEvents {
         isRangeEnd: boolean;
     };
     
+    /**
+     * Fired when a preset range is picked
+     */
+    presetSelect: {
+        presetId: string;
+        startDate: Date;
+        endDate: Date;
+    };
+    
     /**
      * Fired on keyboard navigation
      */
@@ -425,10 +609,26 @@ export interface DatePickerProps extends DatePickerOptions {
  * Calendar cell information
  */
 export interface CalendarCell {
+    /**
+     * Start of the day in the picker's time zone
+     */
     date: Date;
+    
+    /**
+     * Day of the month in the calendar system
+     */
     day: number;
+    
+    /**
+     * Month in the calendar system, 0 for the first month of the year
+     */
     month: number;
+    
+    /**
+     * Year in the calendar system
+     */
     year: number;
+    
     isToday: boolean;
     isSelected: boolean;
     isRangeStart: boolean;
@@ -0,0 +1,56 @@
+/**
+ * Dialog Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { DialogState } from './types';
+
+/**
+ * Render contract of the dialog: a fixed overlay holding the backdrop
+ * and the dialog surface. Nothing is rendered while the dialog is closed.
+ * The dialog surface receives the component props and children.
+ */
+export const dialogAnatomy: ComponentAnatomy<DialogState> = {
+    host: 'dialog',
+    parts: {
+        root: {
+            element: 'div',
+            when: ({ state }) => state.open,
+            props: () => ({
+                style: { position: 'fixed', inset: 0, zIndex: 9999 },
+            }),
+        },
+        backdrop: {
+            element: 'div',
+            props: ({ props }) => ({
+                role: 'presentation',
+                className: props.backdropClassName,
+                style: {
+                    position: 'absolute',
+                    inset: 0,
+                    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                    ...props.backdropStyle,
+                },
+            }),
+        },
+        dialog: {
+            element: 'div',
+            slot: true,
+            props: ({ state }) => ({
+                role: state.role || 'dialog',
+                style: {
+                    position: 'relative',
+                    backgroundColor: 'white',
+                    padding: '20px',
+                    maxWidth: '500px',
+                    margin: '50px auto',
+                    borderRadius: '8px',
+                },
+            }),
+        },
+    },
+    bindings: {
+        open: 'open',
+    },
+};
@@ -4,8 +4,9 @@
  */
 
 import { createPrimitive } from '@stellarix-ui/core';
-import { createDialogState } from './state';
+import { createDialogState, dialogSnapshotFormat } from './state';
 import { createDialogLogic } from './logic';
+import { dialogAnatomy } from './anatomy';
 import type { DialogOptions, DialogState, DialogEvents } from './types';
 
 /**
@@ -17,7 +18,9 @@ export function createDialog(options: DialogOptions = {}) {
     return createPrimitive<DialogState, DialogEvents, DialogOptions>('Dialog', {
         initialState: options,
         logicConfig: options,
+        anatomy: dialogAnatomy,
         metadata: {
+            snapshot: dialogSnapshotFormat,
             accessibility: {
                 role: 'dialog',
                 keyboardShortcuts: ['Escape'],
@@ -75,9 +78,10 @@ export type {
 } from './types';
 
 // Re-export component factory
-export { createDialogState } from './state';
+export { createDialogState, dialogSnapshotFormat } from './state';
 export { createDialogLogic } from './logic';
-export type { DialogStateStore } from './state';
+export { dialogAnatomy } from './anatomy';
+export type { DialogStore, DialogStore as DialogStateStore } from './state';
 
 // Default export for convenience
 export default createDialogWithImplementation; 
\ No newline at end of file
@@ -2,7 +2,7 @@
  * Dialog Logic Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createDialogState } from './state';
 import { createDialogLogic } from './logic';
 import type { DialogOptions } from './types';
@@ -30,6 +30,11 @@ describe('createDialogLogic', () => {
         logic.initialize();
     });
     
+    afterEach(() => {
+        // Releases focus scopes and scroll locks left by tests that do not close the dialog
+        logic.cleanup();
+    });
+    
     describe('state management', () => {
         it('should handle dialog opening through state change', () => {
             const mockFocusElement = document.createElement('button');
@@ -309,5 +314,106 @@ describe('createDialogLogic', () => {
             // Cleanup
             document.body.removeChild(dialogElement);
         });
+        
+        describe('with a rendered dialog', () => {
+            let trigger: HTMLButtonElement;
+            let outside: HTMLDivElement;
+            let dialogElement: HTMLDivElement;
+            let first: HTMLButtonElement;
+            let last: HTMLButtonElement;
+            
+            const openDialog = async () => {
+                logic.handleEvent('openChange', { open: true });
+                await new Promise(resolve => setTimeout(resolve, 10));
+            };
+            
+            const pressTab = (shiftKey = false) => {
+                const event = new KeyboardEvent('keydown', { key: 'Tab', shiftKey, bubbles: true, cancelable: true });
+                document.activeElement?.dispatchEvent(event);
+                return event;
+            };
+            
+            beforeEach(() => {
+                // Undo the activeElement mock of the state tests
+                delete (document as { activeElement?: Element }).activeElement;
+                
+                trigger = document.createElement('button');
+                outside = document.createElement('div');
+                outside.appendChild(trigger);
+                
+                dialogElement = document.createElement('div');
+                dialogElement.setAttribute('role', 'dialog');
+                dialogElement.setAttribute('data-state', 'open');
+                dialogElement.tabIndex = -1;
+                first = document.createElement('button');
+                last = document.createElement('button');
+                const disabled = document.createElement('button');
+                disabled.disabled = true;
+                dialogElement.append(first, last, disabled);
+                
+                document.body.append(outside, dialogElement);
+                trigger.focus();
+            });
+            
+            afterEach(() => {
+                outside.remove();
+                dialogElement.remove();
+            });
+            
+            it('should focus the first tabbable element and keep Tab inside', async () => {
+                await openDialog();
+                expect(document.activeElement).toBe(first);
+                
+                last.focus();
+                expect(pressTab().defaultPrevented).toBe(true);
+                expect(document.activeElement).toBe(first);
+                
+                expect(pressTab(true).defaultPrevented).toBe(true);
+                expect(document.activeElement).toBe(last);
+            });
+            
+            it('should include elements added while open', async () => {
+                await openDialog();
+                
+                const added = document.createElement('a');
+                added.href = '#';
+                dialogElement.appendChild(added);
+                
+                added.focus();
+                pressTab();
+                expect(document.activeElement).toBe(first);
+            });
+            
+            it('should make outside content inert while open', async () => {
+                await openDialog();
+                expect(outside.hasAttribute('inert')).toBe(true);
+                expect(outside.getAttribute('aria-hidden')).toBe('true');
+                
+                logic.handleEvent('openChange', { open: false });
+                expect(outside.hasAttribute('inert')).toBe(false);
+                expect(outside.hasAttribute('aria-hidden')).toBe(false);
+            });
+            
+            it('should restore focus to the trigger when closed with escape', async () => {
+                await openDialog();
+                
+                logic.handleEvent('escapeKeyDown', new KeyboardEvent('keydown', { key: 'Escape' }));
+                expect(document.activeElement).toBe(trigger);
+            });
+            
+            it('should lock scroll while open', async () => {
+                await openDialog();
+                expect(document.body.style.position).toBe('fixed');
+                
+                logic.handleEvent('openChange', { open: false });
+                expect(document.body.style.position).toBe('');
+            });
+            
+            it('should not lock scroll when preventScroll is disabled', async () => {
+                state.setPreventScroll(false);
+                await openDialog();
+                expect(document.body.style.position).toBe('');
+            });
+        });
     });
 });
\ No newline at end of file
@@ -21,50 +21,23 @@
 
 import { LogicLayerBuilder } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
+import { createFocusScope, lockScroll } from '@stellarix-ui/utils';
+import type { FocusScope } from '@stellarix-ui/utils';
 import type { DialogState, DialogEvents, DialogOptions } from './types';
 import type { DialogStore } from './state';
 
 /**
- * Focus management utilities
+ * Rendered dialog element. With nested dialogs the innermost one comes last in the document.
  */
-const focusableSelectors = [
-    'a[href]',
-    'button:not([disabled])',
-    'input:not([disabled])',
-    'select:not([disabled])',
-    'textarea:not([disabled])',
-    '[tabindex]:not([tabindex="-1"])',
-].join(', ');
+function findDialogElement(id: string | undefined): HTMLElement | null {
+    const byId = id ? document.getElementById(id) : null;
+    if (byId) {
+        return byId;
+    }
 
-function getFocusableElements(container: HTMLElement): HTMLElement[] {
-    return Array.from(container.querySelectorAll(focusableSelectors));
-}
-
-function trapFocus(container: HTMLElement) {
-    const focusableElements = getFocusableElements(container);
-    if (focusableElements.length === 0) return null;
-
-    const firstElement = focusableElements[0];
-    const lastElement = focusableElements[focusableElements.length - 1];
-
-    const handleTabKey = (event: KeyboardEvent) => {
-        if (event.key !== 'Tab') return;
-
-        if (event.shiftKey) {
-            if (document.activeElement === firstElement) {
-                event.preventDefault();
-                lastElement.focus();
-            }
-        } else {
-            if (document.activeElement === lastElement) {
-                event.preventDefault();
-                firstElement.focus();
-            }
-        }
-    };
-
-    container.addEventListener('keydown', handleTabKey);
-    return () => container.removeEventListener('keydown', handleTabKey);
+    const dialogs = Array.from(document.querySelectorAll<HTMLElement>('[role="dialog"], [role="alertdialog"]'));
+    const openDialogs = dialogs.filter(dialog => dialog.getAttribute('data-state') === 'open');
+    return openDialogs[openDialogs.length - 1] ?? dialogs[dialogs.length - 1] ?? null;
 }
 
 /**
@@ -77,10 +50,34 @@ export function createDialogLogic(
     state: DialogStore,
     options: DialogOptions = {}
 ): LogicLayer<DialogState, DialogEvents> {
-    let cleanupFocusTrap: (() => void) | null = null;
-    let scrollPosition = 0;
+    let focusScope: FocusScope | null = null;
+    let unlockScroll: (() => void) | null = null;
+    let openTimer: ReturnType<typeof setTimeout> | null = null;
+    // Escape and backdrop clicks close the store before openChange runs,
+    // so whether focus and scroll still need restoring is tracked here
+    let active = false;
+
+    const restore = (previousFocus: HTMLElement | null) => {
+        active = false;
+        if (openTimer) {
+            clearTimeout(openTimer);
+            openTimer = null;
+        }
+
+        // The scope restores focus itself; without one, focus goes back here
+        if (focusScope) {
+            focusScope.deactivate();
+            focusScope = null;
+        } else {
+            const finalFocus = typeof options.finalFocus === 'function' ? options.finalFocus() : options.finalFocus;
+            (finalFocus ?? previousFocus)?.focus();
+        }
+
+        unlockScroll?.();
+        unlockScroll = null;
+    };
 
-    return new LogicLayerBuilder<DialogState, DialogEvents>()
+    const logic = new LogicLayerBuilder<DialogState, DialogEvents>()
         // Handle open/close events
         .onEvent('openChange', (currentState, payload: any) => {
             const open = payload?.open ?? false;
@@ -88,54 +85,40 @@ export function createDialogLogic(
             if (open && !currentState.open) {
                 // Opening dialog
                 // Store current focus
-                state.setPreviousFocus(document.activeElement as HTMLElement);
+                const previousFocus = document.activeElement as HTMLElement | null;
+                state.setPreviousFocus(previousFocus);
+                active = true;
                 
-                // Store scroll position and prevent scroll if enabled
+                // Prevent scroll if enabled; nested dialogs share the lock
                 if (currentState.preventScroll) {
-                    scrollPosition = window.scrollY;
-                    document.body.style.position = 'fixed';
-                    document.body.style.top = `-${scrollPosition}px`;
-                    document.body.style.width = '100%';
+                    unlockScroll = lockScroll();
                 }
                 
                 // Set open state
                 state.setOpen(true);
                 
-                // Set up focus trap (will be done in a setTimeout in the actual implementation)
-                setTimeout(() => {
-                    const dialogElement = document.querySelector('[role="dialog"], [role="alertdialog"]') as HTMLElement;
+                // Scope focus once the adapter has rendered the dialog
+                openTimer = setTimeout(() => {
+                    openTimer = null;
+                    const dialogElement = findDialogElement(options.id);
                     if (dialogElement && currentState.focusTrap) {
-                        dialogElement.focus();
-                        if (cleanupFocusTrap) {
-                            cleanupFocusTrap();
-                        }
-                        cleanupFocusTrap = trapFocus(dialogElement);
+                        focusScope?.deactivate();
+                        focusScope = createFocusScope(dialogElement, {
+                            inertOutside: true,
+                            ...(options.initialFocus !== undefined ? { initialFocus: options.initialFocus } : {}),
+                            finalFocus: options.finalFocus ?? previousFocus,
+                        });
+                        focusScope.activate();
                     }
                 }, 0);
-            } else if (!open && currentState.open) {
+            } else if (!open && (currentState.open || active)) {
                 // Closing dialog
                 // Set closed state first
                 state.setOpen(false);
                 
-                // Restore focus
-                if (currentState.previousFocus) {
-                    currentState.previousFocus.focus();
-                    state.setPreviousFocus(null);
-                }
-                
-                // Restore scroll if it was prevented
-                if (currentState.preventScroll) {
-                    document.body.style.position = '';
-                    document.body.style.top = '';
-                    document.body.style.width = '';
-                    window.scrollTo(0, scrollPosition);
-                }
-                
-                // Cleanup focus trap
-                if (cleanupFocusTrap) {
-                    cleanupFocusTrap();
-                    cleanupFocusTrap = null;
-                }
+                // Restore focus and scroll, release the focus scope
+                restore(currentState.previousFocus);
+                state.setPreviousFocus(null);
             }
             
             // Call user callback
@@ -161,11 +144,10 @@ export function createDialogLogic(
                 options.onEscapeKeyDown(event);
             }
             
-            // Close the dialog by calling setOpen directly
-            state.setOpen(false);
+            // Close through openChange, which also restores focus and scroll
+            logic.handleEvent('openChange', { open: false });
             
-            // Trigger openChange event
-            return { type: 'openChange', payload: { open: false } };
+            return null;
         })
         
         // Handle backdrop click
@@ -180,11 +162,10 @@ export function createDialogLogic(
                 options.onBackdropClick(event);
             }
             
-            // Close the dialog by calling setOpen directly
-            state.setOpen(false);
+            // Close through openChange, which also restores focus and scroll
+            logic.handleEvent('openChange', { open: false });
             
-            // Trigger openChange event
-            return { type: 'openChange', payload: { open: false } };
+            return null;
         })
         
         // Dialog accessibility props
@@ -237,6 +218,17 @@ export function createDialogLogic(
         
         // Build the logic layer
         .build();
+
+    // Release focus, inert outside content and the scroll lock on unmount
+    const originalCleanup = logic.cleanup;
+    logic.cleanup = (): void => {
+        if (active) {
+            restore(null);
+        }
+        originalCleanup();
+    };
+
+    return logic;
 }
 
 // Cleanup function for when component unmounts
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { createDialogState } from './state';
+import { createSnapshot, restoreSnapshot } from '@stellarix-ui/core';
+import { createDialogState, dialogSnapshotFormat } from './state';
 import type { DialogState } from './types';
 
 describe('createDialogState', () => {
@@ -172,4 +173,15 @@ describe('createDialogState', () => {
         
         expect(listener).toHaveBeenCalledTimes(1); // Should not be called again
     });
+
+    it('should leave the previous focus out of snapshots', () => {
+        const state = createDialogState();
+        state.setPreviousFocus(document.createElement('button'));
+        state.setOpen(true);
+
+        const snapshot = createSnapshot('Dialog', state.getState(), dialogSnapshotFormat);
+
+        expect(snapshot.state).not.toHaveProperty('previousFocus');
+        expect(restoreSnapshot(snapshot, dialogSnapshotFormat).open).toBe(true);
+    });
 });
\ No newline at end of file
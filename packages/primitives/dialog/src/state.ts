@@ -3,9 +3,17 @@
  * Manages the dialog component state
  */
 
-import { createStore } from '@stellarix-ui/core';
+import { createStore, type SnapshotFormat } from '@stellarix-ui/core';
 import type { DialogState, DialogOptions } from './types';
 
+/**
+ * Snapshot format of the dialog state.
+ * The previously focused element is a DOM reference and stays on the client.
+ */
+export const dialogSnapshotFormat: SnapshotFormat<DialogState> = {
+    previousFocus: false,
+};
+
 /**
  * Default state values
  */
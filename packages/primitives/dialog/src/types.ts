@@ -3,6 +3,8 @@
  * Define all TypeScript interfaces for the component
  */
 
+import type { FocusTarget } from '@stellarix-ui/utils';
+
 /**
  * Dialog component state
  * Represents the internal state of the component
@@ -84,6 +86,18 @@ export interface DialogOptions {
      */
     preventScroll?: boolean;
     
+    /**
+     * Element focused when the dialog opens
+     * @default The first tabbable element, or the dialog
+     */
+    initialFocus?: FocusTarget;
+    
+    /**
+     * Element focused when the dialog closes
+     * @default The element focused before the dialog opened
+     */
+    finalFocus?: FocusTarget;
+    
     /**
      * Dialog role for accessibility
      * @default 'dialog'
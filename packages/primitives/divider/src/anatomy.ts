@@ -0,0 +1,62 @@
+/**
+ * Divider Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { DividerOptions, DividerState } from './types';
+
+/**
+ * Creates the divider anatomy: a line, or a label between two lines
+ * @param options Component options, for the label and the line style
+ */
+export function createDividerAnatomy(options: DividerOptions = {}): ComponentAnatomy<DividerState> {
+    const color = options.color ?? '#e5e7eb';
+    const thickness = options.thickness ?? '1px';
+    const spacing = options.spacing ?? '16px';
+
+    const border = (state: DividerState) => `${thickness} ${state.variant} ${color}`;
+    const line = (state: DividerState, grow: boolean) => ({
+        flex: grow ? '1' : `0 0 ${spacing}`,
+        borderTop: border(state),
+    });
+
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: ({ state }) => {
+                    const vertical = state.orientation === 'vertical';
+
+                    return {
+                        'data-orientation': state.orientation,
+                        style: state.hasLabel && !vertical
+                            ? { display: 'flex', alignItems: 'center', gap: '8px', margin: `${spacing} 0` }
+                            : vertical
+                                ? { display: 'inline-block', alignSelf: 'stretch', borderLeft: border(state), margin: `0 ${spacing}` }
+                                : { borderTop: border(state), margin: `${spacing} 0` },
+                    };
+                },
+            },
+            lineStart: {
+                element: 'span',
+                when: ({ state }) => state.hasLabel && state.orientation === 'horizontal',
+                props: ({ state }) => ({
+                    style: line(state, state.labelPosition !== 'start'),
+                }),
+            },
+            label: {
+                element: 'span',
+                when: ({ state }) => state.hasLabel && state.orientation === 'horizontal',
+                text: () => options.label,
+            },
+            lineEnd: {
+                element: 'span',
+                when: ({ state }) => state.hasLabel && state.orientation === 'horizontal',
+                props: ({ state }) => ({
+                    style: line(state, state.labelPosition !== 'end'),
+                }),
+            },
+        },
+    };
+}
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createDividerState } from './state';
 import { createDividerLogic } from './logic';
+import { createDividerAnatomy } from './anatomy';
 import type { DividerOptions, DividerState, DividerEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createDivider(options: DividerOptions = {}) {
     return createPrimitive<DividerState, DividerEvents, DividerOptions>('Divider', {
         initialState: options,
         logicConfig: options,
+        anatomy: createDividerAnatomy(options),
         metadata: {
             accessibility: {
                 role: 'separator',
@@ -59,6 +61,10 @@ export function createDividerWithImplementation(options: DividerOptions = {}) {
     core.state = createDividerState(options);
     core.logic = createDividerLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -74,6 +80,7 @@ export type {
 } from './types';
 
 export type { DividerStateStore } from './state';
+export { createDividerAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createDividerWithImplementation;
\ No newline at end of file
@@ -12,34 +12,19 @@ describe('Divider State', () => {
         const listener = vi.fn();
         
         state.subscribe(listener);
-        state.setOrientation('horizontal'); // Trigger subscription with default value
         
-        // State updates with full object
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             orientation: 'horizontal',
             variant: 'solid',
             labelPosition: 'center',
             hasLabel: false
         });
         
-        // Verify other defaults through individual updates
-        listener.mockClear();
+        // Setting the defaults changes nothing
+        state.setOrientation('horizontal');
         state.setVariant('solid');
-        expect(listener).toHaveBeenCalledWith({
-            orientation: 'horizontal',
-            variant: 'solid',
-            labelPosition: 'center',
-            hasLabel: false
-        });
-        
-        listener.mockClear();
         state.setLabelPosition('center');
-        expect(listener).toHaveBeenCalledWith({
-            orientation: 'horizontal',
-            variant: 'solid',
-            labelPosition: 'center',
-            hasLabel: false
-        });
+        expect(listener).not.toHaveBeenCalled();
     });
     
     it('should create state with initial options', () => {
@@ -54,34 +39,19 @@ describe('Divider State', () => {
         const listener = vi.fn();
         
         state.subscribe(listener);
-        state.setOrientation('vertical'); // Trigger subscription with initial value
         
-        // State updates with full object
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             orientation: 'vertical',
             variant: 'dashed',
             labelPosition: 'start',
             hasLabel: true
         });
         
-        // Verify other options through individual updates
-        listener.mockClear();
+        // Setting the initial options changes nothing
+        state.setOrientation('vertical');
         state.setVariant('dashed');
-        expect(listener).toHaveBeenCalledWith({
-            orientation: 'vertical',
-            variant: 'dashed',
-            labelPosition: 'start',
-            hasLabel: true
-        });
-        
-        listener.mockClear();
         state.setLabelPosition('start');
-        expect(listener).toHaveBeenCalledWith({
-            orientation: 'vertical',
-            variant: 'dashed',
-            labelPosition: 'start',
-            hasLabel: true
-        });
+        expect(listener).not.toHaveBeenCalled();
     });
     
     it('should update orientation', () => {
@@ -177,15 +147,9 @@ describe('Divider State', () => {
     
     it('should detect label from options', () => {
         const stateWithLabel = createDividerState({ label: 'OR' });
-        const listener1 = vi.fn();
-        stateWithLabel.subscribe(listener1);
-        stateWithLabel.updateLabel(true); // Trigger subscription
-        expect(listener1.mock.calls[0][0].hasLabel).toBe(true);
+        expect(stateWithLabel.getState().hasLabel).toBe(true);
         
         const stateWithoutLabel = createDividerState({});
-        const listener2 = vi.fn();
-        stateWithoutLabel.subscribe(listener2);
-        stateWithoutLabel.updateLabel(false); // Trigger subscription
-        expect(listener2.mock.calls[0][0].hasLabel).toBe(false);
+        expect(stateWithoutLabel.getState().hasLabel).toBe(false);
     });
 });
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { DividerState, DividerOptions, DividerOrientation, DividerVariant, DividerLabelPosition } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface DividerStateStore {
     getState: () => DividerState;
     setState: (updater: DividerState | ((prev: DividerState) => DividerState)) => void;
     subscribe: (listener: (state: DividerState) => void) => () => void;
+    select: <U>(selector: (state: DividerState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: DividerState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -0,0 +1,161 @@
+/**
+ * Drawer Component Stories
+ * Showcase of sides, snap points, non-modal panels and nested drawers
+ */
+
+import React, { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react';
+import { createDrawerWithImplementation } from './src/index';
+import { reactAdapter } from '@stellarix-ui/react';
+import type { DrawerOptions, DrawerSide } from './src/types';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  backgroundColor: 'white',
+  cursor: 'pointer',
+};
+
+/**
+ * Creates a drawer once per story render, with its React component
+ */
+function useDrawer(options: DrawerOptions) {
+  const [drawer] = useState(() => {
+    const core = createDrawerWithImplementation(options);
+    return { core, Component: core.connect(reactAdapter) as React.ComponentType<any> };
+  });
+
+  return {
+    Drawer: drawer.Component,
+    open: () => drawer.core.logic.handleEvent('openChange', { open: true }),
+    close: () => drawer.core.logic.handleEvent('openChange', { open: false }),
+  };
+}
+
+const meta: Meta = {
+  title: 'Primitives/Drawer',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+A panel sliding in from an edge of the viewport, built on the dialog logic.
+
+## Features
+- ✅ Left, right, top and bottom drawers
+- ✅ Snap points and drag to dismiss with velocity thresholds
+- ✅ Non-modal mode
+- ✅ Nested drawers
+
+## Accessibility
+- Modal drawers trap focus and restore it on close
+- Escape closes the innermost drawer
+- Dragging is never the only way to close
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// One drawer per side
+export const Sides: Story = {
+  render: () => {
+    const sides: DrawerSide[] = ['left', 'right', 'top', 'bottom'];
+    const [drawers] = useState(() => sides.map(side => {
+      const core = createDrawerWithImplementation({ side, ariaLabel: `${side} drawer` });
+      return {
+        side,
+        Drawer: core.connect(reactAdapter) as React.ComponentType<any>,
+        open: () => core.logic.handleEvent('openChange', { open: true }),
+        close: () => core.logic.handleEvent('openChange', { open: false }),
+      };
+    }));
+
+    return (
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {drawers.map(({ side, Drawer, open, close }) => (
+          <React.Fragment key={side}>
+            <button style={buttonStyle} onClick={open}>Open {side}</button>
+            <Drawer>
+              <h3 style={{ marginTop: 0 }}>Drawer from the {side}</h3>
+              <p>Drag it towards its edge, press Escape or click the backdrop to close it.</p>
+              <button style={buttonStyle} onClick={close}>Close</button>
+            </Drawer>
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  },
+};
+
+// Bottom sheet resting at snap points
+export const SnapPoints: Story = {
+  render: () => {
+    const [snapIndex, setSnapIndex] = useState(0);
+    const { Drawer, open } = useDrawer({
+      side: 'bottom',
+      snapPoints: ['160px', 0.5, 0.9],
+      ariaLabel: 'Directions',
+      onSnapChange: index => setSnapIndex(index),
+    });
+
+    return (
+      <div>
+        <button style={buttonStyle} onClick={open}>Show directions</button>
+        <Drawer>
+          <h3 style={{ marginTop: 0 }}>Directions</h3>
+          <p>Resting at snap point {snapIndex}. Drag or flick the sheet to move between snap points.</p>
+        </Drawer>
+      </div>
+    );
+  },
+};
+
+// Side panel that leaves the page interactive
+export const NonModal: Story = {
+  render: () => {
+    const [count, setCount] = useState(0);
+    const { Drawer, open, close } = useDrawer({ side: 'right', modal: false, dragToDismiss: false, ariaLabel: 'Details' });
+
+    return (
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button style={buttonStyle} onClick={open}>Show details</button>
+        <button style={buttonStyle} onClick={() => setCount(previous => previous + 1)}>
+          Page button clicked {count} times
+        </button>
+        <Drawer>
+          <h3 style={{ marginTop: 0 }}>Details</h3>
+          <p>The page behind stays usable.</p>
+          <button style={buttonStyle} onClick={close}>Close</button>
+        </Drawer>
+      </div>
+    );
+  },
+};
+
+// A drawer opened from another one
+export const Nested: Story = {
+  render: () => {
+    const outer = useDrawer({ side: 'bottom', snapPoints: [0.6], ariaLabel: 'Settings' });
+    const inner = useDrawer({ side: 'bottom', snapPoints: [0.4], ariaLabel: 'Language' });
+
+    return (
+      <div>
+        <button style={buttonStyle} onClick={outer.open}>Open settings</button>
+        <outer.Drawer>
+          <h3 style={{ marginTop: 0 }}>Settings</h3>
+          <button style={buttonStyle} onClick={inner.open}>Choose language</button>
+        </outer.Drawer>
+        <inner.Drawer>
+          <h3 style={{ marginTop: 0 }}>Language</h3>
+          <p>Escape closes this drawer only.</p>
+          <button style={buttonStyle} onClick={inner.close}>Done</button>
+        </inner.Drawer>
+      </div>
+    );
+  },
+};
@@ -0,0 +1,149 @@
+/**
+ * Drawer Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { DrawerSide, DrawerSnapPoint, DrawerState } from './types';
+
+const isVertical = (side: DrawerSide) => side === 'top' || side === 'bottom';
+
+/**
+ * CSS length of a snap point along the side of the drawer
+ */
+const toLength = (snapPoint: DrawerSnapPoint, side: DrawerSide) =>
+    typeof snapPoint === 'number'
+        ? `${snapPoint * 100}${isVertical(side) ? 'vh' : 'vw'}`
+        : snapPoint;
+
+/**
+ * Moves the drawer towards its edge: by the part of its full size hidden
+ * at the current snap point, plus the drag offset
+ */
+const getTransform = (state: DrawerState) => {
+    const { side, snapPoints, snapIndex, dragOffset, nested } = state;
+    const hidden = snapIndex === -1
+        ? '0px'
+        : `(${toLength(snapPoints[snapPoints.length - 1]!, side)} - ${toLength(snapPoints[snapIndex]!, side)})`;
+    const distance = `calc(${hidden} + ${dragOffset}px)`;
+    const translate = {
+        bottom: `translateY(${distance})`,
+        top: `translateY(calc(-1 * ${distance}))`,
+        right: `translateX(${distance})`,
+        left: `translateX(calc(-1 * ${distance}))`,
+    }[side];
+
+    // A drawer with another one open on top of it recedes
+    return nested ? `${translate} scale(0.95)` : translate;
+};
+
+const getPlacement = (side: DrawerSide) => {
+    switch (side) {
+        case 'top':
+            return { top: 0, left: 0, right: 0, borderRadius: '0 0 12px 12px' };
+        case 'bottom':
+            return { bottom: 0, left: 0, right: 0, borderRadius: '12px 12px 0 0' };
+        case 'left':
+            return { top: 0, bottom: 0, left: 0, borderRadius: '0 12px 12px 0' };
+        default:
+            return { top: 0, bottom: 0, right: 0, borderRadius: '12px 0 0 12px' };
+    }
+};
+
+/**
+ * Render contract of the drawer: a fixed overlay holding the backdrop of
+ * modal drawers and the drawer surface attached to an edge of the viewport.
+ * With snap points the surface takes the size of the largest one and is
+ * moved partly out of view for the smaller ones. Nothing is rendered while
+ * the drawer is closed. The drawer surface receives the component props and
+ * children, after the grab bar of top and bottom drawers.
+ */
+export const drawerAnatomy: ComponentAnatomy<DrawerState> = {
+    host: 'drawer',
+    parts: {
+        root: {
+            element: 'div',
+            when: ({ state }) => state.open,
+            props: ({ state }) => ({
+                style: {
+                    position: 'fixed',
+                    inset: 0,
+                    zIndex: 9999,
+                    // The page stays interactive around a non-modal drawer
+                    pointerEvents: state.modal ? undefined : 'none',
+                },
+            }),
+        },
+        backdrop: {
+            element: 'div',
+            when: ({ state }) => state.modal,
+            props: ({ props }) => ({
+                role: 'presentation',
+                className: props.backdropClassName,
+                style: {
+                    position: 'absolute',
+                    inset: 0,
+                    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                    ...props.backdropStyle,
+                },
+            }),
+        },
+        drawer: {
+            element: 'div',
+            slot: true,
+            props: ({ state }) => {
+                const vertical = isVertical(state.side);
+                const size = state.snapPoints.length > 0
+                    ? toLength(state.snapPoints[state.snapPoints.length - 1]!, state.side)
+                    : undefined;
+
+                return {
+                    role: state.role || 'dialog',
+                    'data-side': state.side,
+                    'data-snap-index': state.snapIndex === -1 ? undefined : state.snapIndex,
+                    'data-dragging': state.dragging || undefined,
+                    'data-nested': state.nested || undefined,
+                    style: {
+                        position: 'absolute',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        boxSizing: 'border-box',
+                        backgroundColor: 'white',
+                        padding: '20px',
+                        boxShadow: '0 0 24px rgba(0, 0, 0, 0.2)',
+                        pointerEvents: 'auto',
+                        touchAction: 'none',
+                        ...getPlacement(state.side),
+                        ...(vertical
+                            ? { height: size, maxHeight: '100vh' }
+                            : { width: size ?? '320px', maxWidth: '100vw' }),
+                        transform: getTransform(state),
+                        transition: state.dragging ? 'none' : 'transform 250ms ease',
+                    },
+                };
+            },
+        },
+        handle: {
+            element: 'div',
+            parent: 'drawer',
+            // Grab bar of sheets sliding in from the top or bottom
+            when: ({ state }) => isVertical(state.side),
+            props: ({ state }) => ({
+                style: {
+                    // At the inner edge, below the content of a top drawer
+                    order: state.side === 'top' ? 1 : undefined,
+                    alignSelf: 'center',
+                    flex: '0 0 auto',
+                    width: '40px',
+                    height: '4px',
+                    margin: state.side === 'top' ? '12px 0 -8px' : '-8px 0 12px',
+                    borderRadius: '2px',
+                    backgroundColor: '#d1d5db',
+                },
+            }),
+        },
+    },
+    bindings: {
+        open: 'open',
+    },
+};
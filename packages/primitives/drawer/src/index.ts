@@ -0,0 +1,102 @@
+/**
+ * Drawer Component
+ * Framework-agnostic drawer/sheet built on the dialog logic
+ */
+
+import { createPrimitive } from '@stellarix-ui/core';
+import { createDrawerState, drawerSnapshotFormat } from './state';
+import { createDrawerLogic } from './logic';
+import { drawerAnatomy } from './anatomy';
+import type { DrawerOptions, DrawerState, DrawerEvents } from './types';
+
+/**
+ * Creates a drawer component instance
+ * @param options Configuration options
+ * @returns Drawer component instance
+ */
+export function createDrawer(options: DrawerOptions = {}) {
+    return createPrimitive<DrawerState, DrawerEvents, DrawerOptions>('Drawer', {
+        initialState: options,
+        logicConfig: options,
+        anatomy: drawerAnatomy,
+        metadata: {
+            snapshot: drawerSnapshotFormat,
+            accessibility: {
+                role: 'dialog',
+                keyboardShortcuts: ['Escape'],
+                ariaAttributes: ['aria-modal', 'aria-labelledby', 'aria-describedby'],
+                wcagLevel: 'AA',
+                patterns: ['focus-trap']
+            },
+            events: {
+                supported: ['open', 'close', 'backdrop-click', 'snap-change'],
+                required: [],
+                custom: {}
+            },
+            structure: {
+                elements: {
+                    'root': {
+                        type: 'div',
+                        optional: false
+                    },
+                    'backdrop': {
+                        type: 'div',
+                        role: 'presentation',
+                        optional: true
+                    },
+                    'drawer': {
+                        type: 'div',
+                        role: 'dialog',
+                        optional: false
+                    },
+                    'handle': {
+                        type: 'div',
+                        optional: true
+                    }
+                }
+            }
+        }
+    });
+}
+
+// Create the component factory with proper state and logic
+export function createDrawerWithImplementation(options: DrawerOptions = {}) {
+    const core = createDrawer(options);
+
+    // Attach the actual implementation
+    core.state = createDrawerState(options);
+    core.logic = createDrawerLogic(core.state as any, options);
+
+    // Connect and initialize the logic layer
+    core.logic.connect(core.state as any);
+    core.logic.initialize();
+
+    // Release the focus trap and scroll lock of an open drawer
+    core.destroy = () => {
+        core.logic.cleanup();
+    };
+
+    return core;
+}
+
+// Test alias for factory function
+export const createDrawerFactory = createDrawerWithImplementation;
+
+// Re-export types
+export type {
+    DrawerState,
+    DrawerOptions,
+    DrawerEvents,
+    DrawerProps,
+    DrawerSide,
+    DrawerSnapPoint
+} from './types';
+
+// Re-export component factory
+export { createDrawerState, drawerSnapshotFormat } from './state';
+export { createDrawerLogic, getSnapPointSize } from './logic';
+export { drawerAnatomy } from './anatomy';
+export type { DrawerStore } from './state';
+
+// Default export for convenience
+export default createDrawerWithImplementation;
@@ -0,0 +1,423 @@
+/**
+ * Drawer Logic Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createDrawerState } from './state';
+import { createDrawerLogic } from './logic';
+import type { DrawerOptions } from './types';
+
+describe('createDrawerLogic', () => {
+    const instances: ReturnType<typeof createDrawerLogic>[] = [];
+
+    const setup = (options: DrawerOptions = {}) => {
+        const state = createDrawerState(options);
+        const logic = createDrawerLogic(state, options);
+        logic.connect(state);
+        logic.initialize();
+        instances.push(logic);
+        return { state, logic };
+    };
+
+    /**
+     * Drawer surface measuring 300 by 400 pixels
+     */
+    const createSurface = () => {
+        const element = document.createElement('div');
+        element.getBoundingClientRect = () => ({ width: 300, height: 400 } as DOMRect);
+        return element;
+    };
+
+    const pointer = (currentTarget: HTMLElement, init: Record<string, any> = {}) => ({
+        button: 0,
+        pointerId: 1,
+        clientX: 0,
+        clientY: 0,
+        target: currentTarget,
+        currentTarget,
+        ...init,
+    });
+
+    /**
+     * Drags the drawer surface from one pointer position to another over a duration
+     */
+    const drag = (logic: ReturnType<typeof createDrawerLogic>, from: Record<string, number>, to: Record<string, number>, duration = 1000) => {
+        const surface = createSurface();
+        const handlers = logic.getInteractionHandlers('drawer');
+        handlers.onPointerDown(pointer(surface, from));
+        vi.advanceTimersByTime(duration);
+        handlers.onPointerMove(pointer(surface, to));
+        handlers.onPointerUp(pointer(surface, to));
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        // Releases focus scopes and scroll locks left by tests that do not close the drawer
+        instances.splice(0).forEach(logic => logic.cleanup());
+        document.body.innerHTML = '';
+        vi.useRealTimers();
+    });
+
+    describe('dialog behavior', () => {
+        it('should open and close through openChange', () => {
+            const onOpenChange = vi.fn();
+            const { state, logic } = setup({ onOpenChange });
+
+            logic.handleEvent('openChange', { open: true });
+            expect(state.getState().open).toBe(true);
+
+            logic.handleEvent('openChange', { open: false });
+            expect(state.getState().open).toBe(false);
+            expect(onOpenChange.mock.calls).toEqual([[true], [false]]);
+        });
+
+        it('should open at the default snap point', () => {
+            const { state, logic } = setup({ snapPoints: ['200px', '400px'], defaultSnapIndex: 1 });
+            state.setSnapIndex(0);
+
+            logic.handleEvent('openChange', { open: true });
+
+            expect(state.getState().snapIndex).toBe(1);
+        });
+
+        it('should close on Escape', () => {
+            const onEscapeKeyDown = vi.fn();
+            const { state, logic } = setup({ onEscapeKeyDown });
+            logic.handleEvent('openChange', { open: true });
+
+            logic.getInteractionHandlers('drawer').onKeyDown(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+            expect(state.getState().open).toBe(false);
+            expect(onEscapeKeyDown).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stay open on Escape when closeOnEscape is disabled', () => {
+            const { state, logic } = setup({ closeOnEscape: false });
+            logic.handleEvent('openChange', { open: true });
+
+            logic.getInteractionHandlers('drawer').onKeyDown(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+            expect(state.getState().open).toBe(true);
+        });
+
+        it('should close on backdrop click', () => {
+            const onBackdropClick = vi.fn();
+            const { state, logic } = setup({ onBackdropClick });
+            logic.handleEvent('openChange', { open: true });
+            const backdrop = document.createElement('div');
+
+            logic.getInteractionHandlers('backdrop').onClick({ target: backdrop, currentTarget: backdrop });
+
+            expect(state.getState().open).toBe(false);
+            expect(onBackdropClick).toHaveBeenCalledTimes(1);
+        });
+
+        it('should trap focus in the drawer and restore it on close', () => {
+            const { logic } = setup();
+            const trigger = document.createElement('button');
+            const surface = document.createElement('div');
+            const input = document.createElement('input');
+            surface.id = logic.getA11yProps('drawer').id;
+            surface.setAttribute('role', 'dialog');
+            surface.append(input);
+            document.body.append(trigger, surface);
+            trigger.focus();
+
+            logic.handleEvent('openChange', { open: true });
+            vi.advanceTimersByTime(0);
+            expect(document.activeElement).toBe(input);
+
+            logic.handleEvent('openChange', { open: false });
+            expect(document.activeElement).toBe(trigger);
+        });
+
+        it('should lock scroll while a modal drawer is open', () => {
+            const { logic } = setup();
+
+            logic.handleEvent('openChange', { open: true });
+            expect(document.body.style.position).toBe('fixed');
+
+            logic.handleEvent('openChange', { open: false });
+            expect(document.body.style.position).toBe('');
+        });
+
+        it('should leave the page interactive when non-modal', () => {
+            const { logic } = setup({ modal: false });
+            const surface = document.createElement('div');
+            surface.id = logic.getA11yProps('drawer').id;
+            surface.append(document.createElement('input'));
+            document.body.append(surface);
+
+            logic.handleEvent('openChange', { open: true });
+            vi.advanceTimersByTime(0);
+
+            expect(document.body.style.position).toBe('');
+            expect(surface.contains(document.activeElement)).toBe(false);
+        });
+    });
+
+    describe('accessibility', () => {
+        it('should provide dialog props for a modal drawer', () => {
+            const { logic } = setup({ ariaLabel: 'Filters', id: 'filters' });
+            logic.handleEvent('openChange', { open: true });
+
+            expect(logic.getA11yProps('drawer')).toEqual(expect.objectContaining({
+                role: 'dialog',
+                id: 'filters',
+                'aria-modal': 'true',
+                'aria-label': 'Filters',
+                'data-state': 'open',
+            }));
+            expect(logic.getA11yProps('backdrop')['aria-hidden']).toBe('true');
+        });
+
+        it('should not mark a non-modal drawer as modal', () => {
+            const { logic } = setup({ modal: false });
+
+            expect(logic.getA11yProps('drawer')['aria-modal']).toBeUndefined();
+        });
+
+        it('should hide the handle from assistive technology', () => {
+            const { logic } = setup();
+
+            expect(logic.getA11yProps('handle')['aria-hidden']).toBe('true');
+        });
+    });
+
+    describe('drag to dismiss', () => {
+        it('should follow the pointer towards the edge', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+            const surface = createSurface();
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { clientY: 100 }));
+            expect(state.getState().dragging).toBe(true);
+
+            handlers.onPointerMove(pointer(surface, { clientY: 160 }));
+            expect(state.getState().dragOffset).toBe(60);
+
+            // Not past the open position without snap points
+            handlers.onPointerMove(pointer(surface, { clientY: 40 }));
+            expect(state.getState().dragOffset).toBe(0);
+        });
+
+        it('should close when dragged past the close threshold', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+
+            drag(logic, { clientY: 100 }, { clientY: 220 });
+
+            expect(state.getState().open).toBe(false);
+        });
+
+        it('should settle back when dragged short of the close threshold', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+
+            drag(logic, { clientY: 100 }, { clientY: 180 });
+
+            expect(state.getState()).toMatchObject({ open: true, dragOffset: 0, dragging: false });
+        });
+
+        it('should close on a flick', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+
+            drag(logic, { clientY: 100 }, { clientY: 140 }, 20);
+
+            expect(state.getState().open).toBe(false);
+        });
+
+        it('should close on a flick at the end of a slow drag', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+            const surface = createSurface();
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { clientY: 100 }));
+            vi.advanceTimersByTime(1000);
+            handlers.onPointerMove(pointer(surface, { clientY: 110 }));
+            vi.advanceTimersByTime(20);
+            handlers.onPointerMove(pointer(surface, { clientY: 150 }));
+            handlers.onPointerUp(pointer(surface, { clientY: 150 }));
+
+            expect(state.getState().open).toBe(false);
+        });
+
+        it('should not take a drag held still before the release for a flick', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+            const surface = createSurface();
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { clientY: 100 }));
+            vi.advanceTimersByTime(40);
+            handlers.onPointerMove(pointer(surface, { clientY: 180 }));
+            vi.advanceTimersByTime(70);
+            handlers.onPointerMove(pointer(surface, { clientY: 180 }));
+            handlers.onPointerUp(pointer(surface, { clientY: 180 }));
+
+            expect(state.getState()).toMatchObject({ open: true, dragOffset: 0 });
+        });
+
+        it('should drag towards the side of the drawer', () => {
+            const { state, logic } = setup({ side: 'left', open: true });
+
+            drag(logic, { clientX: 300 }, { clientX: 250 });
+            expect(state.getState().open).toBe(true);
+
+            drag(logic, { clientX: 300 }, { clientX: 200 });
+            expect(state.getState().open).toBe(false);
+        });
+
+        it('should use a custom close threshold', () => {
+            const { state, logic } = setup({ side: 'right', open: true, closeThreshold: 0.5 });
+
+            drag(logic, { clientX: 0 }, { clientX: 120 });
+
+            expect(state.getState().open).toBe(true);
+        });
+
+        it('should not close when dragToDismiss is disabled', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true, dragToDismiss: false });
+
+            drag(logic, { clientY: 100 }, { clientY: 400 }, 20);
+
+            expect(state.getState().open).toBe(true);
+        });
+
+        it('should not drag from controls in the drawer', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+            const surface = createSurface();
+            const button = document.createElement('button');
+            surface.append(button);
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { target: button, clientY: 100 }));
+            handlers.onPointerMove(pointer(surface, { clientY: 300 }));
+
+            expect(state.getState()).toMatchObject({ dragging: false, dragOffset: 0 });
+        });
+
+        it('should reset a cancelled drag', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true });
+            const surface = createSurface();
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { clientY: 100 }));
+            handlers.onPointerMove(pointer(surface, { clientY: 300 }));
+            handlers.onPointerCancel(pointer(surface));
+
+            expect(state.getState()).toMatchObject({ open: true, dragging: false, dragOffset: 0 });
+        });
+    });
+
+    describe('snap points', () => {
+        const snapPoints: DrawerOptions['snapPoints'] = ['200px', '400px', '600px'];
+
+        it('should come to rest at the nearest snap point', () => {
+            const onSnapChange = vi.fn();
+            const { state, logic } = setup({ side: 'bottom', open: true, snapPoints, defaultSnapIndex: 1, onSnapChange });
+
+            drag(logic, { clientY: 100 }, { clientY: 250 });
+
+            expect(state.getState()).toMatchObject({ open: true, snapIndex: 0 });
+            expect(onSnapChange).toHaveBeenCalledWith(0, '200px');
+        });
+
+        it('should drag open up to the largest snap point', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true, snapPoints, defaultSnapIndex: 1 });
+            const surface = createSurface();
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { clientY: 500 }));
+            handlers.onPointerMove(pointer(surface, { clientY: 100 }));
+            expect(state.getState().dragOffset).toBe(-200);
+
+            vi.advanceTimersByTime(1000);
+            handlers.onPointerUp(pointer(surface, { clientY: 100 }));
+            expect(state.getState().snapIndex).toBe(2);
+        });
+
+        it('should move one snap point on a flick', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true, snapPoints, defaultSnapIndex: 1 });
+
+            drag(logic, { clientY: 100 }, { clientY: 130 }, 20);
+            expect(state.getState().snapIndex).toBe(0);
+
+            drag(logic, { clientY: 100 }, { clientY: 70 }, 20);
+            expect(state.getState().snapIndex).toBe(1);
+        });
+
+        it('should close when dragged below the smallest snap point', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true, snapPoints });
+
+            drag(logic, { clientY: 100 }, { clientY: 160 });
+
+            expect(state.getState().open).toBe(false);
+        });
+
+        it('should move to a snap point through snapChange', () => {
+            const onSnapChange = vi.fn();
+            const { state, logic } = setup({ snapPoints, onSnapChange });
+
+            logic.handleEvent('snapChange', { index: 2 });
+
+            expect(state.getState().snapIndex).toBe(2);
+            expect(onSnapChange).toHaveBeenCalledWith(2, '600px');
+        });
+
+        it('should resolve fractional snap points against the viewport', () => {
+            const { state, logic } = setup({ side: 'bottom', open: true, snapPoints: [0.5, 1] });
+            const surface = createSurface();
+            const handlers = logic.getInteractionHandlers('drawer');
+
+            handlers.onPointerDown(pointer(surface, { clientY: 800 }));
+            handlers.onPointerMove(pointer(surface, { clientY: 0 }));
+
+            expect(state.getState().dragOffset).toBe(-window.innerHeight / 2);
+        });
+    });
+
+    describe('nested drawers', () => {
+        it('should mark a drawer with another one open on top of it', () => {
+            const outer = setup();
+            const inner = setup();
+
+            outer.logic.handleEvent('openChange', { open: true });
+            inner.logic.handleEvent('openChange', { open: true });
+            expect(outer.state.getState().nested).toBe(true);
+            expect(inner.state.getState().nested).toBe(false);
+
+            inner.logic.handleEvent('openChange', { open: false });
+            expect(outer.state.getState().nested).toBe(false);
+        });
+
+        it('should close only the innermost drawer on Escape', () => {
+            const outer = setup();
+            const inner = setup();
+            outer.logic.handleEvent('openChange', { open: true });
+            inner.logic.handleEvent('openChange', { open: true });
+
+            const event = new KeyboardEvent('keydown', { key: 'Escape' });
+            inner.logic.getInteractionHandlers('drawer').onKeyDown(event);
+            if (!event.cancelBubble) {
+                outer.logic.getInteractionHandlers('drawer').onKeyDown(event);
+            }
+
+            expect(inner.state.getState().open).toBe(false);
+            expect(outer.state.getState().open).toBe(true);
+        });
+
+        it('should share the scroll lock', () => {
+            const outer = setup();
+            const inner = setup();
+            outer.logic.handleEvent('openChange', { open: true });
+            inner.logic.handleEvent('openChange', { open: true });
+
+            inner.logic.handleEvent('openChange', { open: false });
+            expect(document.body.style.position).toBe('fixed');
+
+            outer.logic.handleEvent('openChange', { open: false });
+            expect(document.body.style.position).toBe('');
+        });
+    });
+});
@@ -0,0 +1,342 @@
+/**
+ * Drawer Logic
+ * Business logic for the drawer component. Opening, closing, the focus
+ * trap, Escape, backdrop clicks and scroll locking come from the dialog
+ * logic; the drawer adds snap points, the drag gesture and nesting.
+ */
+
+import { LogicLayerBuilder, createComponentId } from '@stellarix-ui/core';
+import type { LogicLayer } from '@stellarix-ui/core';
+import { createDialogLogic } from '@stellarix-ui/dialog';
+import type { DialogStore } from '@stellarix-ui/dialog';
+import type { DrawerState, DrawerEvents, DrawerOptions, DrawerSide, DrawerSnapPoint } from './types';
+import type { DrawerStore } from './state';
+
+/**
+ * Elements a drag does not start from, so they keep their clicks and text selection
+ */
+const NO_DRAG_SELECTOR = 'button, a[href], input, select, textarea, [contenteditable="true"], [data-no-drag]';
+
+/**
+ * Open drawers, innermost last
+ */
+const openDrawers: DrawerStore[] = [];
+
+/**
+ * Time span in ms of the pointer samples the release velocity is measured over
+ */
+const VELOCITY_WINDOW = 100;
+
+/**
+ * Drag offset at a point in time
+ */
+interface DragSample {
+    offset: number;
+    time: number;
+}
+
+/**
+ * Drag in progress
+ */
+interface DragGesture {
+    /**
+     * Pointer position along the drag axis when the drag started
+     */
+    start: number;
+    /**
+     * Latest drag offsets, the newest last. Only the samples of the velocity
+     * window and the newest one before it are kept.
+     */
+    samples: DragSample[];
+    /**
+     * Size of the drawer along the drag axis
+     */
+    size: number;
+    /**
+     * Size of the viewport along the drag axis, which fractional snap points are relative to
+     */
+    viewportSize: number;
+}
+
+/**
+ * Size of a snap point in pixels
+ * @param snapPoint Fraction of the viewport or pixel length
+ * @param viewportSize Size of the viewport along the side of the drawer
+ */
+export function getSnapPointSize(snapPoint: DrawerSnapPoint, viewportSize: number): number {
+    return typeof snapPoint === 'number' ? snapPoint * viewportSize : parseFloat(snapPoint);
+}
+
+const isVertical = (side: DrawerSide) => side === 'top' || side === 'bottom';
+
+/**
+ * Turns pointer movement into movement towards the edge the drawer is attached to
+ */
+const closingDirection = (side: DrawerSide) => (side === 'bottom' || side === 'right' ? 1 : -1);
+
+/**
+ * Samples still needed to measure the velocity at a time
+ */
+const trimSamples = (samples: DragSample[], time: number) => {
+    const firstRecent = samples.findIndex(sample => time - sample.time <= VELOCITY_WINDOW);
+    return firstRecent === -1 ? samples.slice(-1) : samples.slice(Math.max(0, firstRecent - 1));
+};
+
+/**
+ * Velocity towards the edge, in px/ms, at the release of a drag. It is measured
+ * over the latest samples, so a drag that slows down or stops before the
+ * release is not taken for a flick.
+ * @param samples Drag offsets during the gesture
+ * @param offset Drag offset at the release
+ * @param time Time of the release
+ */
+const getReleaseVelocity = (samples: DragSample[], offset: number, time: number) => {
+    const recent = samples.filter(sample => time - sample.time <= VELOCITY_WINDOW);
+    // Without two recent samples, the newest one before the window is the reference
+    const from = recent.length >= 2
+        ? recent[0]!
+        : [...samples].reverse().find(sample => time - sample.time > VELOCITY_WINDOW) ?? samples[0];
+    return from ? (offset - from.offset) / Math.max(1, time - from.time) : 0;
+};
+
+/**
+ * Creates the drawer component logic
+ * @param state State store to connect to
+ * @param options Component options
+ * @returns Logic layer for the component
+ */
+export function createDrawerLogic(
+    state: DrawerStore,
+    options: DrawerOptions = {}
+): LogicLayer<DrawerState, DrawerEvents> {
+    const drawerId = options.id ?? createComponentId('drawer');
+    const dragToDismiss = options.dragToDismiss ?? true;
+    const closeThreshold = options.closeThreshold ?? 0.25;
+    const velocityThreshold = options.velocityThreshold ?? 0.5;
+
+    // The drawer state is a dialog state with more fields
+    const dialogStore = state as unknown as DialogStore;
+    const dialog = createDialogLogic(dialogStore, { ...options, id: drawerId });
+    dialog.connect(dialogStore);
+
+    let drag: DragGesture | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let wasOpen = false;
+
+    // Drawers opened on top of this one mark it as nested
+    const syncStack = (current: DrawerState) => {
+        if (current.open === wasOpen) {
+            return;
+        }
+        wasOpen = current.open;
+
+        const index = openDrawers.indexOf(state);
+        if (current.open && index === -1) {
+            openDrawers[openDrawers.length - 1]?.setNested(true);
+            openDrawers.push(state);
+        } else if (!current.open && index !== -1) {
+            openDrawers.splice(index, 1);
+            if (index === openDrawers.length) {
+                openDrawers[openDrawers.length - 1]?.setNested(false);
+            }
+            drag = null;
+            if (current.nested || current.dragging || current.dragOffset !== 0) {
+                state.batch(() => {
+                    state.setNested(false);
+                    state.setDragging(false);
+                    state.setDragOffset(0);
+                });
+            }
+        }
+    };
+
+    const getPointerPosition = (side: DrawerSide, event: PointerEvent) =>
+        isVertical(side) ? event.clientY : event.clientX;
+
+    /**
+     * Where a released drag leaves the drawer: closed, or resting at a snap point
+     */
+    const getRelease = (currentState: DrawerState, gesture: DragGesture, velocity: number) => {
+        const { snapPoints, snapIndex, dragOffset } = currentState;
+        const sizes = snapPoints.map(snapPoint => getSnapPointSize(snapPoint, gesture.viewportSize));
+        const restingSize = snapIndex === -1 ? gesture.size : sizes[snapIndex]!;
+        const smallestSize = snapIndex === -1 ? gesture.size : sizes[0]!;
+        const visible = restingSize - dragOffset;
+
+        let index = snapIndex;
+        let close = false;
+        if (velocity >= velocityThreshold) {
+            // A flick towards the edge moves one snap point down, or closes from the smallest
+            if (snapIndex > 0) {
+                index = snapIndex - 1;
+            } else {
+                close = true;
+            }
+        } else if (velocity <= -velocityThreshold) {
+            index = Math.min(snapIndex + 1, snapPoints.length - 1);
+        } else if (visible < smallestSize * (1 - closeThreshold)) {
+            close = true;
+        } else if (sizes.length > 0) {
+            // Otherwise the drawer comes to rest at the nearest snap point
+            index = sizes.reduce((nearest, size, sizeIndex) =>
+                Math.abs(size - visible) < Math.abs(sizes[nearest]! - visible) ? sizeIndex : nearest, 0);
+        }
+
+        return { close: close && dragToDismiss, index };
+    };
+
+    const endDrag = () => {
+        drag = null;
+        state.batch(() => {
+            state.setDragging(false);
+            state.setDragOffset(0);
+        });
+    };
+
+    const logic = new LogicLayerBuilder<DrawerState, DrawerEvents>()
+        .onInitialize((store) => {
+            dialog.connect(dialogStore);
+            dialog.initialize();
+            syncStack(store.getState());
+            unsubscribe = store.subscribe(syncStack);
+        })
+
+        .onCleanup(() => {
+            unsubscribe?.();
+            unsubscribe = null;
+            drag = null;
+            wasOpen = false;
+            const index = openDrawers.indexOf(state);
+            if (index !== -1) {
+                openDrawers.splice(index, 1);
+            }
+            // Releases the focus scope and the scroll lock of an open drawer
+            dialog.cleanup();
+        })
+
+        // Open and close through the dialog logic; drawers open at their default snap point
+        .onEvent('openChange', (currentState, payload: any) => {
+            if (payload?.open && !currentState.open) {
+                state.setSnapIndex(options.defaultSnapIndex ?? 0);
+            }
+            dialog.handleEvent('openChange', payload);
+            return null;
+        })
+
+        .onEvent('escapeKeyDown', (_currentState, payload: any) => {
+            dialog.handleEvent('escapeKeyDown', payload);
+            return null;
+        })
+
+        .onEvent('backdropClick', (_currentState, payload: any) => {
+            dialog.handleEvent('backdropClick', payload);
+            return null;
+        })
+
+        .onEvent('snapChange', (currentState, payload: any) => {
+            const { snapPoints, snapIndex } = currentState;
+            const index = Math.min(Math.max(payload?.index ?? 0, 0), snapPoints.length - 1);
+            if (snapPoints.length === 0 || index === snapIndex) {
+                return null;
+            }
+
+            state.setSnapIndex(index);
+            if (options.onSnapChange) {
+                options.onSnapChange(index, snapPoints[index]!);
+            }
+            return null;
+        })
+
+        // Drawer accessibility props: the dialog ones, modal only when the drawer is
+        .withA11y('drawer', (currentState) => ({
+            ...dialog.getA11yProps('dialog'),
+            id: drawerId,
+            'aria-modal': currentState.modal ? 'true' : undefined,
+        }))
+
+        .withA11y('backdrop', () => dialog.getA11yProps('backdrop'))
+
+        .withA11y('handle', () => ({
+            'aria-hidden': 'true',
+        }))
+
+        .withInteraction('backdrop', 'onClick', (_currentState, event: MouseEvent) => {
+            dialog.getInteractionHandlers('backdrop').onClick?.(event);
+            return null;
+        })
+
+        .withInteraction('drawer', 'onKeyDown', (_currentState, event: KeyboardEvent) => {
+            dialog.getInteractionHandlers('dialog').onKeyDown?.(event);
+            return null;
+        })
+
+        .withInteraction('drawer', 'onPointerDown', (currentState, event: PointerEvent) => {
+            const fromControl = event.target instanceof Element && event.target.closest(NO_DRAG_SELECTOR);
+            if (!currentState.open || event.button !== 0 || fromControl) {
+                return null;
+            }
+
+            const element = event.currentTarget as HTMLElement | null;
+            const rect = element?.getBoundingClientRect();
+            const vertical = isVertical(currentState.side);
+            drag = {
+                start: getPointerPosition(currentState.side, event),
+                samples: [{ offset: 0, time: Date.now() }],
+                size: (vertical ? rect?.height : rect?.width) ?? 0,
+                viewportSize: vertical ? window.innerHeight : window.innerWidth,
+            };
+            // Keeps the pointer events coming when the pointer leaves the drawer
+            element?.setPointerCapture?.(event.pointerId);
+            state.setDragging(true);
+            return null;
+        })
+
+        .withInteraction('drawer', 'onPointerMove', (currentState, event: PointerEvent) => {
+            if (!drag) {
+                return null;
+            }
+
+            const { side, snapPoints, snapIndex } = currentState;
+            const sizes = snapPoints.map(snapPoint => getSnapPointSize(snapPoint, drag!.viewportSize));
+            const restingSize = snapIndex === -1 ? drag.size : sizes[snapIndex]!;
+            // Dragged open up to the largest snap point, and closed down to
+            // the smallest one when dragging does not dismiss
+            const min = sizes.length > 0 ? restingSize - Math.max(...sizes) : 0;
+            const max = dragToDismiss ? Infinity : (sizes.length > 0 ? restingSize - sizes[0]! : 0);
+            const offset = Math.min(Math.max((getPointerPosition(side, event) - drag.start) * closingDirection(side), min), max);
+            const now = Date.now();
+
+            drag.samples = trimSamples([...drag.samples, { offset, time: now }], now);
+            state.setDragOffset(offset);
+            return null;
+        })
+
+        .withInteraction('drawer', 'onPointerUp', (currentState) => {
+            if (!drag) {
+                return null;
+            }
+
+            const gesture = drag;
+            const velocity = getReleaseVelocity(gesture.samples, currentState.dragOffset, Date.now());
+            const release = getRelease(currentState, gesture, velocity);
+            endDrag();
+
+            if (release.close) {
+                logic.handleEvent('openChange', { open: false });
+            } else if (release.index !== currentState.snapIndex) {
+                logic.handleEvent('snapChange', { index: release.index });
+            }
+            return null;
+        })
+
+        .withInteraction('drawer', 'onPointerCancel', () => {
+            if (drag) {
+                endDrag();
+            }
+            return null;
+        })
+
+        .build();
+
+    return logic;
+}
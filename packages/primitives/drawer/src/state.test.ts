@@ -0,0 +1,106 @@
+/**
+ * Drawer State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSnapshot, restoreSnapshot } from '@stellarix-ui/core';
+import { createDrawerState, drawerSnapshotFormat } from './state';
+
+describe('createDrawerState', () => {
+    it('should create state with default values', () => {
+        const state = createDrawerState();
+
+        expect(state.getState()).toEqual({
+            open: false,
+            previousFocus: null,
+            loading: false,
+            closeOnBackdropClick: true,
+            closeOnEscape: true,
+            focusTrap: true,
+            preventScroll: true,
+            role: 'dialog',
+            side: 'right',
+            modal: true,
+            snapPoints: [],
+            snapIndex: -1,
+            dragOffset: 0,
+            dragging: false,
+            nested: false,
+        });
+    });
+
+    it('should accept dialog and drawer options', () => {
+        const state = createDrawerState({
+            open: true,
+            closeOnEscape: false,
+            role: 'alertdialog',
+            side: 'bottom',
+            snapPoints: [0.25, 0.5, 1],
+            defaultSnapIndex: 1,
+        });
+
+        expect(state.getState()).toMatchObject({
+            open: true,
+            closeOnEscape: false,
+            role: 'alertdialog',
+            side: 'bottom',
+            snapPoints: [0.25, 0.5, 1],
+            snapIndex: 1,
+        });
+    });
+
+    it('should not trap focus or lock scroll when non-modal', () => {
+        const state = createDrawerState({ modal: false, focusTrap: true, preventScroll: true });
+
+        expect(state.getState()).toMatchObject({
+            modal: false,
+            focusTrap: false,
+            preventScroll: false,
+        });
+    });
+
+    it('should keep the snap index within the snap points', () => {
+        const state = createDrawerState({ snapPoints: ['200px', '400px'], defaultSnapIndex: 5 });
+        expect(state.getState().snapIndex).toBe(1);
+
+        state.setSnapIndex(-3);
+        expect(state.getState().snapIndex).toBe(0);
+
+        state.setSnapIndex(1);
+        state.setSnapPoints(['200px']);
+        expect(state.getState().snapIndex).toBe(0);
+
+        state.setSnapPoints([]);
+        expect(state.getState().snapIndex).toBe(-1);
+    });
+
+    it('should update the drag and nesting state', () => {
+        const state = createDrawerState();
+
+        state.setDragging(true);
+        state.setDragOffset(40);
+        state.setNested(true);
+        state.setSide('left');
+
+        expect(state.getState()).toMatchObject({
+            dragging: true,
+            dragOffset: 40,
+            nested: true,
+            side: 'left',
+        });
+    });
+
+    it('should leave the focused element and the drag out of snapshots', () => {
+        const state = createDrawerState({ side: 'bottom' });
+        state.setPreviousFocus(document.createElement('button'));
+        state.setDragging(true);
+        state.setDragOffset(40);
+
+        const snapshot = createSnapshot('Drawer', state.getState(), drawerSnapshotFormat);
+
+        expect(snapshot.state).not.toHaveProperty('previousFocus');
+        expect(snapshot.state).not.toHaveProperty('dragOffset');
+        expect(snapshot.state).not.toHaveProperty('dragging');
+        expect(restoreSnapshot(snapshot, drawerSnapshotFormat).side).toBe('bottom');
+    });
+});
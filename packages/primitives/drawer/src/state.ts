@@ -0,0 +1,112 @@
+/**
+ * Drawer State Management
+ * Manages the drawer component state: the dialog state plus the side,
+ * snap point and drag gesture
+ */
+
+import { createStore, type SnapshotFormat } from '@stellarix-ui/core';
+import type { DrawerState, DrawerOptions, DrawerSide, DrawerSnapPoint } from './types';
+
+/**
+ * Snapshot format of the drawer state.
+ * The previously focused element is a DOM reference and a drag only lasts
+ * while the pointer is down, so they stay on the client.
+ */
+export const drawerSnapshotFormat: SnapshotFormat<DrawerState> = {
+    previousFocus: false,
+    dragOffset: false,
+    dragging: false,
+};
+
+/**
+ * Keeps a snap point index within the snap points, -1 without any
+ */
+function clampSnapIndex(index: number, snapPoints: DrawerSnapPoint[]): number {
+    return snapPoints.length === 0 ? -1 : Math.min(Math.max(index, 0), snapPoints.length - 1);
+}
+
+/**
+ * Create drawer state store
+ */
+export function createDrawerState(options: DrawerOptions = {}) {
+    const modal = options.modal ?? true;
+    const snapPoints = options.snapPoints ?? [];
+
+    const initialState: DrawerState = {
+        open: options.open ?? false,
+        previousFocus: null,
+        loading: false,
+        closeOnBackdropClick: options.closeOnBackdropClick ?? true,
+        closeOnEscape: options.closeOnEscape ?? true,
+        // Non-modal drawers leave the page interactive
+        focusTrap: modal && (options.focusTrap ?? true),
+        preventScroll: modal && (options.preventScroll ?? true),
+        role: options.role ?? 'dialog',
+        side: options.side ?? 'right',
+        modal,
+        snapPoints,
+        snapIndex: clampSnapIndex(options.defaultSnapIndex ?? 0, snapPoints),
+        dragOffset: 0,
+        dragging: false,
+        nested: false,
+    };
+
+    const store = createStore(initialState);
+
+    return {
+        ...store,
+        // Dialog state setters, used by the dialog logic the drawer is built on
+        setOpen: (open: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, open }));
+        },
+        setPreviousFocus: (element: HTMLElement | null) => {
+            store.setState((prev: DrawerState) => ({ ...prev, previousFocus: element }));
+        },
+        setLoading: (loading: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, loading }));
+        },
+        setCloseOnBackdropClick: (closeOnBackdropClick: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, closeOnBackdropClick }));
+        },
+        setCloseOnEscape: (closeOnEscape: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, closeOnEscape }));
+        },
+        setFocusTrap: (focusTrap: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, focusTrap }));
+        },
+        setPreventScroll: (preventScroll: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, preventScroll }));
+        },
+        setRole: (role: 'dialog' | 'alertdialog') => {
+            store.setState((prev: DrawerState) => ({ ...prev, role }));
+        },
+        // Drawer-specific state setters
+        setSide: (side: DrawerSide) => {
+            store.setState((prev: DrawerState) => ({ ...prev, side }));
+        },
+        setSnapPoints: (snapPoints: DrawerSnapPoint[]) => {
+            store.setState((prev: DrawerState) => ({
+                ...prev,
+                snapPoints,
+                snapIndex: clampSnapIndex(prev.snapIndex, snapPoints),
+            }));
+        },
+        setSnapIndex: (snapIndex: number) => {
+            store.setState((prev: DrawerState) => ({
+                ...prev,
+                snapIndex: clampSnapIndex(snapIndex, prev.snapPoints),
+            }));
+        },
+        setDragOffset: (dragOffset: number) => {
+            store.setState((prev: DrawerState) => ({ ...prev, dragOffset }));
+        },
+        setDragging: (dragging: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, dragging }));
+        },
+        setNested: (nested: boolean) => {
+            store.setState((prev: DrawerState) => ({ ...prev, nested }));
+        },
+    };
+}
+
+export type DrawerStore = ReturnType<typeof createDrawerState>;
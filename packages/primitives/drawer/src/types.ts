@@ -0,0 +1,144 @@
+/**
+ * Drawer Component Types
+ * Define all TypeScript interfaces for the drawer component
+ */
+
+import type { DialogState, DialogOptions, DialogEvents } from '@stellarix-ui/dialog';
+
+/**
+ * Edge of the viewport the drawer slides in from
+ */
+export type DrawerSide = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * Size the drawer can rest at: a fraction of the viewport between 0 and 1,
+ * or a pixel length such as `'320px'`
+ */
+export type DrawerSnapPoint = number | `${number}px`;
+
+/**
+ * Drawer component state
+ * Extends the dialog state with the side, snap point and drag gesture
+ */
+export interface DrawerState extends DialogState {
+    /**
+     * Edge of the viewport the drawer is attached to
+     */
+    side: DrawerSide;
+
+    /**
+     * Whether the drawer is modal: it traps focus, locks scroll and has a backdrop
+     */
+    modal: boolean;
+
+    /**
+     * Sizes the drawer can rest at, smallest first
+     */
+    snapPoints: DrawerSnapPoint[];
+
+    /**
+     * Index of the snap point the drawer rests at, -1 without snap points
+     */
+    snapIndex: number;
+
+    /**
+     * Distance the drawer is dragged towards closing, in pixels.
+     * Negative while dragged open towards a larger snap point.
+     */
+    dragOffset: number;
+
+    /**
+     * Whether the drawer is being dragged
+     */
+    dragging: boolean;
+
+    /**
+     * Whether a drawer opened after this one is open on top of it
+     */
+    nested: boolean;
+}
+
+/**
+ * Drawer component options
+ * Accepts every dialog option, with the same focus trap, Escape and backdrop semantics
+ */
+export interface DrawerOptions extends DialogOptions {
+    /**
+     * Edge of the viewport the drawer slides in from
+     * @default 'right'
+     */
+    side?: DrawerSide;
+
+    /**
+     * Whether the drawer is modal. Non-modal drawers leave the page
+     * interactive: no backdrop, focus trap or scroll lock.
+     * @default true
+     */
+    modal?: boolean;
+
+    /**
+     * Sizes the drawer can rest at, smallest first.
+     * Without snap points the drawer takes the size of its content.
+     */
+    snapPoints?: DrawerSnapPoint[];
+
+    /**
+     * Index of the snap point the drawer opens at
+     * @default 0
+     */
+    defaultSnapIndex?: number;
+
+    /**
+     * Whether dragging the drawer towards its edge closes it
+     * @default true
+     */
+    dragToDismiss?: boolean;
+
+    /**
+     * Fraction of the drawer, or of its smallest snap point, dragged
+     * out of view that closes it on release
+     * @default 0.25
+     */
+    closeThreshold?: number;
+
+    /**
+     * Release speed, in pixels per millisecond, that is a flick: it closes
+     * the drawer or moves it one snap point in the flick direction
+     * @default 0.5
+     */
+    velocityThreshold?: number;
+
+    /**
+     * Callback when the drawer comes to rest at another snap point
+     */
+    onSnapChange?: (index: number, snapPoint: DrawerSnapPoint) => void;
+}
+
+/**
+ * Drawer component events
+ * Events that can be triggered by the component
+ */
+export interface DrawerEvents extends DialogEvents {
+    /**
+     * Fired to move the drawer to another snap point
+     */
+    snapChange: {
+        index: number;
+    };
+}
+
+/**
+ * Drawer component props
+ * Props that can be passed to the component
+ */
+export interface DrawerProps extends DrawerOptions {
+    /**
+     * Drawer content
+     */
+    children?: any;
+
+    /**
+     * Test ID for testing
+     */
+    'data-testid'?: string;
+}
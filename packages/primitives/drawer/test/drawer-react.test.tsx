@@ -0,0 +1,80 @@
+/**
+ * Drawer React Integration Test
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { createDrawerWithImplementation } from '../src';
+import { reactAdapter } from '@stellarix-ui/react';
+
+describe('Drawer React Integration', () => {
+    it('should render an open drawer with its content', () => {
+        const drawer = createDrawerWithImplementation({ open: true, side: 'bottom', ariaLabel: 'Filters' });
+        const DrawerComponent = drawer.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(
+            <DrawerComponent>
+                <p>Drawer Content</p>
+            </DrawerComponent>
+        );
+
+        const element = screen.getByRole('dialog', { name: 'Filters' });
+        expect(element).toHaveAttribute('aria-modal', 'true');
+        expect(element).toHaveAttribute('data-side', 'bottom');
+        expect(screen.getByText('Drawer Content')).toBeInTheDocument();
+        expect(document.querySelector('[data-part="backdrop"]')).toBeInTheDocument();
+        expect(document.querySelector('[data-part="handle"]')).toBeInTheDocument();
+        drawer.destroy();
+    });
+
+    it('should render nothing while closed', () => {
+        const drawer = createDrawerWithImplementation();
+        const DrawerComponent = drawer.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DrawerComponent>Drawer Content</DrawerComponent>);
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('should render a non-modal drawer without a backdrop', () => {
+        const drawer = createDrawerWithImplementation({ open: true, modal: false });
+        const DrawerComponent = drawer.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DrawerComponent>Drawer Content</DrawerComponent>);
+
+        expect(screen.getByRole('dialog')).not.toHaveAttribute('aria-modal');
+        expect(document.querySelector('[data-part="backdrop"]')).not.toBeInTheDocument();
+        drawer.destroy();
+    });
+
+    it('should close on Escape', () => {
+        const onOpenChange = vi.fn();
+        const drawer = createDrawerWithImplementation({ onOpenChange });
+        const DrawerComponent = drawer.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DrawerComponent>Drawer Content</DrawerComponent>);
+        act(() => {
+            drawer.logic.handleEvent('openChange', { open: true });
+        });
+
+        fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(onOpenChange).toHaveBeenLastCalledWith(false);
+    });
+
+    it('should size the drawer to its largest snap point', () => {
+        const drawer = createDrawerWithImplementation({ open: true, side: 'bottom', snapPoints: ['200px', '500px'] });
+        const DrawerComponent = drawer.connect(reactAdapter) as React.ComponentType<any>;
+
+        render(<DrawerComponent>Drawer Content</DrawerComponent>);
+
+        const element = screen.getByRole('dialog');
+        expect(element).toHaveAttribute('data-snap-index', '0');
+        expect(element.style.height).toBe('500px');
+        expect(element.style.transform).toBe('translateY(calc((500px - 200px) + 0px))');
+        drawer.destroy();
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * FileUpload Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { FileUploadOptions, FileUploadState } from './types';
+
+/**
+ * Size of a file, in the largest unit that keeps it above 1
+ */
+function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Creates the file upload anatomy: the dropzone with its hidden file input,
+ * the status line, one item per file and the upload button
+ * @param options Component options, for the upload callback
+ */
+export function createFileUploadAnatomy(options: FileUploadOptions = {}): ComponentAnatomy<FileUploadState> {
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: () => ({
+                    style: { display: 'flex', flexDirection: 'column', gap: '8px' },
+                }),
+            },
+            dropzone: {
+                element: 'div',
+                props: ({ state }) => ({
+                    'data-state': state.dragActive ? 'active' : undefined,
+                    'data-disabled': state.disabled || undefined,
+                    style: {
+                        padding: '24px',
+                        textAlign: 'center',
+                        border: `2px dashed ${state.dragActive ? '#3b82f6' : '#d1d5db'}`,
+                        borderRadius: '8px',
+                        cursor: state.disabled ? 'not-allowed' : 'pointer',
+                    },
+                }),
+            },
+            input: {
+                element: 'input',
+                parent: 'dropzone',
+                props: () => ({
+                    style: { display: 'none' },
+                }),
+            },
+            prompt: {
+                element: 'span',
+                parent: 'dropzone',
+                // The children replace the default prompt
+                slot: true,
+                text: ({ props }) => props.children == null
+                    ? 'Drag files here or click to select'
+                    : undefined,
+            },
+            status: {
+                element: 'div',
+                text: ({ state }) => state.uploading
+                    ? 'Uploading…'
+                    : `${state.files.length} ${state.files.length === 1 ? 'file' : 'files'} selected`,
+            },
+            fileList: {
+                element: 'div',
+                when: ({ state }) => state.files.length > 0,
+            },
+            fileItem: {
+                element: 'div',
+                parent: 'fileList',
+                items: ({ state }) => state.files,
+                key: ({ item }) => item.name,
+                a11yArgument: ({ item }) => item.name,
+                props: ({ state, item }) => ({
+                    'data-state': state.errors[item.name] ? 'error' : undefined,
+                    style: { display: 'flex', alignItems: 'center', gap: '8px' },
+                }),
+            },
+            fileName: {
+                element: 'span',
+                parent: 'fileItem',
+                text: ({ item }) => `${item.name} (${formatFileSize(item.size)})`,
+            },
+            fileProgress: {
+                element: 'progress',
+                parent: 'fileItem',
+                when: ({ state, item }) => state.progress[item.name] !== undefined,
+                props: ({ state, item }) => ({
+                    max: 100,
+                    value: state.progress[item.name],
+                }),
+            },
+            fileError: {
+                element: 'span',
+                parent: 'fileItem',
+                when: ({ state, item }) => Boolean(state.errors[item.name]),
+                text: ({ state, item }) => state.errors[item.name],
+                props: () => ({ role: 'alert' }),
+            },
+            removeButton: {
+                element: 'button',
+                parent: 'fileItem',
+                text: () => '✕',
+                props: ({ item }) => ({
+                    type: 'button',
+                    'aria-label': `Remove ${item.name}`,
+                    // The remove handler reads the file name from here
+                    'data-file-name': item.name,
+                }),
+            },
+            uploadButton: {
+                element: 'button',
+                when: ({ state }) => Boolean(options.onUpload) && state.files.length > 0,
+                text: ({ state }) => state.uploading ? 'Uploading…' : 'Upload',
+                props: ({ state }) => ({
+                    type: 'button',
+                    disabled: state.disabled || state.uploading || undefined,
+                }),
+            },
+        },
+        bindings: {
+            files: 'files',
+        },
+    };
+}
@@ -4,8 +4,9 @@
  */
 
 import { createPrimitive } from '@stellarix-ui/core';
-import { createFileUploadState } from './state';
+import { createFileUploadState, fileUploadSnapshotFormat } from './state';
 import { createFileUploadLogic } from './logic';
+import { createFileUploadAnatomy } from './anatomy';
 import type { FileUploadOptions, FileUploadState, FileUploadEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createFileUpload(options: FileUploadOptions = {}) {
     const metadata = {
         name: 'FileUpload',
         version: '1.0.0',
+        snapshot: fileUploadSnapshotFormat,
         description: 'File upload component with drag and drop support',
         accessibility: {
             role: 'region',
@@ -85,21 +87,25 @@ export function createFileUpload(options: FileUploadOptions = {}) {
         }
     };
 
-    const state = createFileUploadState(options);
-    const logic = createFileUploadLogic(state, options);
-
-    return createPrimitive<FileUploadState, FileUploadEvents, FileUploadOptions>(
+    const core = createPrimitive<FileUploadState, FileUploadEvents, FileUploadOptions>(
         'FileUpload',
         {
-            initialState: state.getState(),
+            initialState: options,
             logicConfig: options,
+            anatomy: createFileUploadAnatomy(options),
             metadata
-        },
-        {
-            state,
-            logic
         }
     );
+
+    // Attach the actual implementation
+    core.state = createFileUploadState(options);
+    core.logic = createFileUploadLogic(core.state as any, options);
+
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+
+    return core;
 }
 
 // Re-export types
@@ -111,6 +117,8 @@ export type {
 } from './types';
 
 export type { FileUploadStateStore } from './state';
+export { fileUploadSnapshotFormat } from './state';
+export { createFileUploadAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createFileUpload;
\ No newline at end of file
@@ -3,9 +3,9 @@
  * Handles interactions and business logic for the file upload component
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
+import { LogicLayerBuilder, createComponentId } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
-import { generateComponentId } from '@stellarix-ui/utils';
+import { announce } from '@stellarix-ui/utils';
 import type { FileUploadState, FileUploadEvents, FileUploadOptions } from './types';
 import type { FileUploadStateStore } from './state';
 
@@ -16,10 +16,18 @@ export function createFileUploadLogic(
     state: FileUploadStateStore,
     options: FileUploadOptions = {}
 ): LogicLayer<FileUploadState, FileUploadEvents> {
-    const componentId = generateComponentId('file-upload');
+    const componentId = createComponentId('file-upload');
     const dropzoneId = `${componentId}-dropzone`;
     const inputId = `${componentId}-input`;
     const statusId = `${componentId}-status`;
+    
+    const announceUploaded = (files: File[]) => {
+        if (files.length === 0 || options.uploadAnnouncement === false) return;
+        
+        announce(options.uploadAnnouncement
+            ? options.uploadAnnouncement(files)
+            : files.length === 1 ? `${files[0]!.name} uploaded` : `${files.length} files uploaded`);
+    };
 
     return new LogicLayerBuilder<FileUploadState, FileUploadEvents>()
         .onEvent('change', (currentState, payload) => {
@@ -164,11 +172,12 @@ export function createFileUploadLogic(
                 state.setProgress(file.name, 100);
                 
                 const allComplete = currentState.files.every(
-                    f => (currentState.progress[f.name] || 0) === 100
+                    f => f === file || (currentState.progress[f.name] || 0) === 100
                 );
                 
                 if (allComplete) {
                     state.setUploading(false);
+                    announceUploaded(currentState.files.filter(f => !currentState.errors[f.name]));
                 }
             }
             
@@ -426,6 +435,7 @@ export function createFileUploadLogic(
             
             state.setUploading(true);
             
+            const uploaded: File[] = [];
             for (const file of currentState.files) {
                 if (currentState.errors[file.name]) {
                     continue;
@@ -437,6 +447,7 @@ export function createFileUploadLogic(
                     await options.onUpload(file);
                     
                     state.setProgress(file.name, 100);
+                    uploaded.push(file);
                 } catch (error) {
                     const message = error instanceof Error ? error.message : 'Upload failed';
                     state.setError(file.name, message);
@@ -448,6 +459,7 @@ export function createFileUploadLogic(
             }
             
             state.setUploading(false);
+            announceUploaded(uploaded);
             
             return 'uploadcomplete';
         })
@@ -3,9 +3,17 @@
  * Manages the state for the file upload component
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type SnapshotFormat } from '@stellarix-ui/core';
 import type { FileUploadState, FileUploadOptions } from './types';
 
+/**
+ * Snapshot format of the file upload state.
+ * File handles cannot be serialized; progress and errors are kept.
+ */
+export const fileUploadSnapshotFormat: SnapshotFormat<FileUploadState> = {
+    files: false,
+};
+
 /**
  * Creates a file upload state store
  */
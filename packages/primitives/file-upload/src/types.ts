@@ -139,6 +139,12 @@ export interface FileUploadOptions {
      * Callback for upload progress
      */
     onProgress?: (file: File, progress: number) => void;
+    
+    /**
+     * Message announced to screen readers when uploads finish; `false` turns it off
+     * @default '<name> uploaded', or '<count> files uploaded'
+     */
+    uploadAnnouncement?: ((files: File[]) => string) | false;
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Input Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { InputOptions, InputState } from './types';
+
+/**
+ * Creates the render contract of an input
+ * @param options Component options; constraint and form attributes are
+ *                read from them unless the rendered props override them
+ * @returns Input anatomy
+ */
+export function createInputAnatomy(options: InputOptions = {}): ComponentAnatomy<InputState> {
+    return {
+        parts: {
+            root: {
+                element: 'input',
+                props: ({ state, props }) => ({
+                    role: 'textbox',
+                    type: state.type,
+                    value: state.value,
+                    disabled: state.disabled || undefined,
+                    readOnly: state.readonly || undefined,
+                    required: state.required || undefined,
+                    placeholder: props.placeholder ?? options.placeholder,
+                    name: props.name ?? options.name,
+                    id: props.id ?? options.id,
+                    autoComplete: props.autoComplete ?? props.autocomplete ?? options.autocomplete,
+                    minLength: props.minLength ?? options.minLength,
+                    maxLength: props.maxLength ?? options.maxLength,
+                    min: props.min ?? options.min,
+                    max: props.max ?? options.max,
+                    step: props.step ?? options.step,
+                    pattern: props.pattern ?? options.pattern,
+                }),
+            },
+        },
+        bindings: {
+            value: 'value',
+        },
+    };
+}
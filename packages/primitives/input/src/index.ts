@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createInputState } from './state';
 import { createInputLogic } from './logic';
+import { createInputAnatomy } from './anatomy';
 import type { InputOptions, InputState, InputEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createInput(options: InputOptions = {}) {
     return createPrimitive<InputState, InputEvents, InputOptions>('Input', {
         initialState: options,
         logicConfig: options,
+        anatomy: createInputAnatomy(options),
         metadata: {
             accessibility: {
                 role: 'textbox',
@@ -80,6 +82,7 @@ export type {
 } from './types';
 
 export type { InputStateStore } from './state';
+export { createInputAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createInputWithImplementation;
\ No newline at end of file
@@ -9,13 +9,8 @@ import type { InputOptions } from './types';
 describe('Input State', () => {
     it('should create state with default values', () => {
         const state = createInputState();
-        const listener = vi.fn();
-        
-        state.subscribe(listener);
-        state.setValue(''); // Trigger subscription with default value
         
-        // State now returns the full state object
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             value: '',
             focused: false,
             disabled: false,
@@ -40,13 +35,8 @@ describe('Input State', () => {
         };
         
         const state = createInputState(options);
-        const listener = vi.fn();
-        
-        state.subscribe(listener);
-        state.setValue('test'); // Trigger subscription with initial value
         
-        // State now returns the full state object
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             value: 'test',
             focused: false,
             disabled: true,
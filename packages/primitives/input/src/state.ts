@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { InputState, InputOptions, InputType, InputSize } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface InputStateStore {
     getState: () => InputState;
     setState: (updater: InputState | ((prev: InputState) => InputState)) => void;
     subscribe: (listener: (state: InputState) => void) => () => void;
+    select: <U>(selector: (state: InputState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: InputState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -1,6 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/react';
 import React, { useState, useEffect } from 'react';
 import { createMenu } from './src/index';
+import { reactAdapter } from '@stellarix-ui/react';
 import { handleMenuItemClick, handleMenuItemMouseEnter, getMenuItemA11yProps } from './src/logic';
 import type { MenuItem } from './src/types';
 
@@ -324,10 +325,51 @@ const itemsWithDisabled: MenuItem[] = [
   { id: 'settings', label: 'Settings', icon: Icons.settings },
 ];
 
+// Grouped items, rendered through the menu anatomy with group headers
+const groupedItems: MenuItem[] = [
+  { id: 'cut', label: 'Cut', group: 'Clipboard' },
+  { id: 'copy', label: 'Copy', group: 'Clipboard' },
+  { id: 'paste', label: 'Paste', group: 'Clipboard' },
+  { id: 'zoom-in', label: 'Zoom In', group: 'View' },
+  { id: 'zoom-out', label: 'Zoom Out', group: 'View' },
+  { id: 'comment', label: 'Add Comment', group: 'Review' },
+  { id: 'settings', label: 'Settings', icon: Icons.settings },
+];
+
 export const Default: Story = {
   render: () => <MenuDemo items={basicItems} />,
 };
 
+// The Review group is disabled: its items are skipped by arrow keys and type-ahead
+export const Grouped: Story = {
+  render: () => {
+    const [GroupedMenu] = useState(() => createMenu({
+      id: 'grouped-menu',
+      items: groupedItems,
+      open: true,
+      disabledGroups: ['Review'],
+      onSelect: (item) => console.log('Selected:', item.label),
+    }).connect(reactAdapter) as React.ComponentType<any>);
+
+    return <GroupedMenu />;
+  },
+};
+
+// 5,000 items, of which only those in view render
+export const Virtualized: Story = {
+  render: () => {
+    const [VirtualizedMenu] = useState(() => createMenu({
+      id: 'virtualized-menu',
+      items: Array.from({ length: 5000 }, (_, i) => ({ id: `item-${i}`, label: `Item ${i + 1}` })),
+      open: true,
+      virtualize: { itemSize: 36, viewportSize: 300 },
+      onSelect: (item) => console.log('Selected:', item.label),
+    }).connect(reactAdapter) as React.ComponentType<any>);
+
+    return <VirtualizedMenu />;
+  },
+};
+
 export const WithIcons: Story = {
   render: () => <MenuDemo items={itemsWithIcons} />,
 };
@@ -0,0 +1,179 @@
+/**
+ * Menu Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { getRenderedGroups } from '@stellarix-ui/utils';
+import { getCurrentItems, getRenderedRange } from './logic';
+import { isItemDisabled } from './state';
+import type { MenuItem, MenuOptions, MenuState } from './types';
+
+const getItemStyle = (state: MenuState, item: MenuItem, index: number) => ({
+    padding: '8px 12px',
+    cursor: isItemDisabled(state, item) ? 'not-allowed' : 'pointer',
+    backgroundColor: index === state.activeIndex
+        ? '#f0f0f0'
+        : item.id === state.selectedId ? '#e6f3ff' : 'transparent',
+    color: isItemDisabled(state, item) ? '#999' : 'black',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+});
+
+/**
+ * Creates the render contract of a menu: a list with one item per entry of
+ * the current submenu level. Grouped items follow the ungrouped ones, in
+ * groups labelled by a header. When virtualized, only the items in the
+ * virtual window render and the list scrolls within its viewport size.
+ * @param options Component options
+ * @returns Menu anatomy
+ */
+export function createMenuAnatomy(options: MenuOptions = {}): ComponentAnatomy<MenuState> {
+    const virtualize = options.virtualize === true ? {} : options.virtualize || null;
+    const menuHeight = virtualize?.viewportSize ?? 300;
+    
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: () => ({
+                    'data-part': 'menu-container',
+                    style: { display: 'block' },
+                }),
+            },
+            menu: {
+                element: 'ul',
+                props: ({ state }) => ({
+                    style: {
+                        listStyle: 'none',
+                        margin: 0,
+                        padding: '4px 0',
+                        backgroundColor: 'white',
+                        border: '1px solid #e0e0e0',
+                        borderRadius: '6px',
+                        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                        minWidth: '200px',
+                        // The items outside the virtual window take up their space as padding
+                        ...(virtualize ? {
+                            maxHeight: `${menuHeight}px`,
+                            overflowY: 'auto',
+                        } : {}),
+                        ...(state.virtualWindow ? {
+                            paddingTop: `${4 + state.virtualWindow.paddingStart}px`,
+                            paddingBottom: `${4 + state.virtualWindow.paddingEnd}px`,
+                        } : {}),
+                    },
+                }),
+            },
+            menuItem: {
+                element: 'li',
+                parent: 'menu',
+                // Ungrouped items come first in the current items
+                items: ({ state }) => {
+                    const { startIndex, endIndex } = getRenderedRange(state);
+                    return getCurrentItems(state).slice(startIndex, endIndex).filter(item => item.group === undefined);
+                },
+                a11yArgument: ({ item }) => item.id,
+                // Item handlers read the item id from the event
+                event: ({ state, item, index = 0 }) => ({ itemIndex: getRenderedRange(state).startIndex + index, itemId: item.id }),
+                props: ({ state, item, index = 0 }) => ({
+                    'data-index': state.virtualWindow ? getRenderedRange(state).startIndex + index : undefined,
+                    style: getItemStyle(state, item, getRenderedRange(state).startIndex + index),
+                }),
+            },
+            menuItemLabel: {
+                element: 'span',
+                parent: 'menuItem',
+                text: ({ item }) => item.label,
+                props: () => ({
+                    style: { flex: '1 1 auto' },
+                }),
+            },
+            menuItemSubmenuIndicator: {
+                element: 'span',
+                parent: 'menuItem',
+                when: ({ item }) => Boolean(item.items),
+                text: () => '▶',
+                props: () => ({
+                    'aria-hidden': 'true',
+                    style: { flex: '0 0 auto' },
+                }),
+            },
+            menuGroup: {
+                element: 'li',
+                parent: 'menu',
+                items: ({ state }) => {
+                    const { startIndex, endIndex } = getRenderedRange(state);
+                    return getRenderedGroups(getCurrentItems(state), item => item.group, startIndex, endIndex);
+                },
+                key: ({ item }) => item.label,
+                a11yArgument: ({ item }) => item.index,
+            },
+            menuGroupLabel: {
+                element: 'div',
+                parent: 'menuGroup',
+                // A group continued from above the virtual window is labelled by aria-label
+                when: ({ item }) => !item.continued,
+                a11yArgument: ({ item }) => item.index,
+                text: ({ item }) => item.label,
+                props: () => ({
+                    style: {
+                        padding: '6px 12px',
+                        fontSize: '0.75em',
+                        fontWeight: 600,
+                        textTransform: 'uppercase',
+                        color: '#666',
+                    },
+                }),
+            },
+            menuGroupList: {
+                element: 'ul',
+                parent: 'menuGroup',
+                props: () => ({
+                    role: 'none',
+                    style: { listStyle: 'none', margin: 0, padding: 0 },
+                }),
+            },
+            menuGroupItem: {
+                element: 'li',
+                parent: 'menuGroupList',
+                items: ({ item }) => item.items,
+                a11yArgument: ({ item }) => item.id,
+                // Grouped items keep their position in the current items
+                event: ({ parent, item, index = 0 }) => ({ itemIndex: parent!.item.startIndex + index, itemId: item.id }),
+                props: ({ state, parent, item, index = 0 }) => ({
+                    'data-index': state.virtualWindow ? parent!.item.startIndex + index : undefined,
+                    style: getItemStyle(state, item, parent!.item.startIndex + index),
+                }),
+            },
+            menuGroupItemLabel: {
+                element: 'span',
+                parent: 'menuGroupItem',
+                text: ({ item }) => item.label,
+                props: () => ({
+                    style: { flex: '1 1 auto' },
+                }),
+            },
+            menuGroupItemSubmenuIndicator: {
+                element: 'span',
+                parent: 'menuGroupItem',
+                when: ({ item }) => Boolean(item.items),
+                text: () => '▶',
+                props: () => ({
+                    'aria-hidden': 'true',
+                    style: { flex: '0 0 auto' },
+                }),
+            },
+        },
+        bindings: {
+            open: 'open',
+            items: 'items',
+        },
+    };
+}
+
+/**
+ * Anatomy of a menu created without options
+ */
+export const menuAnatomy: ComponentAnatomy<MenuState> = createMenuAnatomy();
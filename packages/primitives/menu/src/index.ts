@@ -3,29 +3,26 @@
  * Framework-agnostic menu implementation
  */
 
-import { createMenuState } from './state';
+import { createMenuState, isItemDisabled } from './state';
 import { 
     createMenuLogic,
+    getCurrentGroups,
     handleMenuItemClick,
     handleMenuItemMouseEnter,
-    getMenuItemA11yProps
+    getMenuItemA11yProps,
+    autoUpdateMenuPosition
 } from './logic';
+import { createMenuAnatomy } from './anatomy';
 import type { MenuOptions, MenuState, MenuEvents } from './types';
 import type { MenuStateStore } from './state';
-import type { LogicLayer } from '@stellarix-ui/core';
+import type { ComponentCore } from '@stellarix-ui/core';
 
 /**
  * Menu component instance interface
  */
-export interface MenuComponent {
+export interface MenuComponent extends Omit<ComponentCore<MenuState, MenuEvents>, 'state'> {
     /** Component state store */
     state: MenuStateStore;
-    /** Component logic layer */
-    logic: LogicLayer<MenuState, MenuEvents>;
-    /** Connect to a framework adapter */
-    connect: <T>(adapter: any) => T;
-    /** Cleanup function */
-    destroy: () => void;
 }
 
 /**
@@ -47,9 +44,37 @@ export function createMenu(options: MenuOptions = {}): MenuComponent {
     return {
         state,
         logic,
-        connect: (adapter: any) => adapter.createComponent({ state, logic }),
+        metadata: {
+            name: 'Menu',
+            version: '0.0.1',
+            accessibility: {
+                role: 'menu',
+                wcagLevel: 'AA',
+                patterns: ['menu', 'menubar', 'group'],
+                keyboardShortcuts: ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'Enter', 'Space', 'Escape'],
+                ariaAttributes: ['aria-haspopup', 'aria-expanded', 'aria-controls', 'aria-labelledby', 'aria-disabled'],
+            },
+            events: {
+                supported: ['open', 'close', 'select', 'navigate', 'search', 'focus', 'blur'],
+                required: [],
+                custom: {},
+            },
+            structure: {
+                elements: {
+                    root: { type: 'div', optional: false },
+                    trigger: { type: 'button', role: 'button', optional: true },
+                    menu: { type: 'ul', role: 'menu', optional: false },
+                    menuItem: { type: 'li', role: 'menuitem', optional: false },
+                    menuGroup: { type: 'li', role: 'group', optional: true },
+                },
+            },
+        },
+        anatomy: createMenuAnatomy(options),
+        connect: function <TFrameworkComponent>(adapter: any): TFrameworkComponent {
+            return adapter.createComponent(this);
+        },
         destroy: () => {
-            // Cleanup handled by framework adapter
+            logic.cleanup();
         },
     };
 }
@@ -57,12 +82,16 @@ export function createMenu(options: MenuOptions = {}): MenuComponent {
 // Re-export types
 export type { MenuState, MenuOptions, MenuEvents, MenuItem } from './types';
 export type { MenuStateStore } from './state';
+export { createMenuAnatomy, menuAnatomy } from './anatomy';
 
 // Re-export helper functions
 export { 
     createMenuState,
     createMenuLogic,
+    getCurrentGroups,
+    isItemDisabled,
     handleMenuItemClick,
     handleMenuItemMouseEnter,
-    getMenuItemA11yProps
+    getMenuItemA11yProps,
+    autoUpdateMenuPosition
 };
\ No newline at end of file
@@ -450,4 +450,137 @@ describe('createMenuLogic', () => {
             expect(state.getState().activeIndex).toBe(-1);
         });
     });
-});
\ No newline at end of file
+    
+    describe('Groups', () => {
+        const items: MenuItem[] = [
+            { id: 'cut', label: 'Cut', group: 'Edit' },
+            { id: 'copy', label: 'Copy', group: 'Edit' },
+            { id: 'center', label: 'Center', group: 'View' }
+        ];
+        
+        it('should label each group by its header', () => {
+            state.setItems(items);
+            state.setGroupDisabled('View', true);
+            
+            const group = logic.getA11yProps('menuGroup') as any;
+            const groupLabel = logic.getA11yProps('menuGroupLabel') as any;
+            
+            expect(group(0)).toEqual({
+                role: 'group',
+                'aria-labelledby': 'test-menu-group-0',
+                'aria-disabled': undefined,
+            });
+            expect(groupLabel(0).id).toBe('test-menu-group-0');
+            expect(group(1)['aria-disabled']).toBe('true');
+            expect((logic.getA11yProps('menuGroupItem') as any)('center')['aria-disabled']).toBe('true');
+        });
+        
+        it('should type ahead across groups, skipping disabled groups', () => {
+            state.setItems(items);
+            const interactions = logic.getInteractionHandlers('menu');
+            
+            interactions.onKeyDown({ key: 'c', ctrlKey: false, metaKey: false } as any);
+            expect(state.getState().activeIndex).toBe(0);
+            
+            state.setGroupDisabled('Edit', true);
+            state.setSearchQuery('');
+            vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+            interactions.onKeyDown({ key: 'c', ctrlKey: false, metaKey: false } as any);
+            expect(state.getState().activeIndex).toBe(2);
+            vi.restoreAllMocks();
+        });
+        
+        it('should not select items of a disabled group', () => {
+            state.setItems(items);
+            state.setGroupDisabled('Edit', true);
+            
+            const interactions = logic.getInteractionHandlers('menuGroupItem');
+            interactions.onClick({ itemId: 'cut', preventDefault: vi.fn() } as any);
+            expect(options.onSelect).not.toHaveBeenCalled();
+            
+            interactions.onClick({ itemId: 'center', preventDefault: vi.fn() } as any);
+            expect(options.onSelect).toHaveBeenCalledWith(items[2]);
+        });
+    });
+    
+    describe('Virtualization', () => {
+        const manyItems: MenuItem[] = Array.from({ length: 500 }, (_, index) => ({
+            id: `item-${index}`,
+            label: `Item ${index}`,
+            group: index < 250 ? undefined : 'More',
+        }));
+        
+        const setupVirtual = () => {
+            const virtualOptions: MenuOptions = {
+                id: 'virtual-menu',
+                items: manyItems,
+                virtualize: { itemSize: 30, viewportSize: 300, overscan: 2 },
+            };
+            const virtualState = createMenuState(virtualOptions);
+            const virtualLogic = createMenuLogic(virtualState, virtualOptions);
+            virtualLogic.connect(virtualState);
+            virtualLogic.initialize();
+            return { state: virtualState, logic: virtualLogic };
+        };
+        
+        it('should render only the items in view', () => {
+            const { state } = setupVirtual();
+            
+            expect(state.getState().virtualWindow).toEqual({
+                startIndex: 0,
+                endIndex: 12,
+                paddingStart: 0,
+                paddingEnd: 488 * 30,
+                totalSize: 15000,
+            });
+        });
+        
+        it('should move the window with the active item', () => {
+            const { state, logic } = setupVirtual();
+            
+            logic.getInteractionHandlers('menu').onKeyDown({ key: 'End', preventDefault: vi.fn() } as any);
+            
+            expect(state.getState().activeIndex).toBe(499);
+            expect(state.getState().virtualWindow).toEqual(expect.objectContaining({
+                startIndex: 488,
+                endIndex: 500,
+                paddingEnd: 0,
+            }));
+        });
+        
+        it('should label a group whose header is above the window', () => {
+            const { state, logic } = setupVirtual();
+            
+            expect((logic.getA11yProps('menuGroup') as any)(0)['aria-labelledby']).toBe('virtual-menu-group-0');
+            
+            state.navigateToLast();
+            const group = (logic.getA11yProps('menuGroup') as any)(0);
+            
+            expect(group['aria-labelledby']).toBeUndefined();
+            expect(group['aria-label']).toBe('More');
+        });
+        
+        it('should give each item its position in the whole menu', () => {
+            const { state } = setupVirtual();
+            const props = getMenuItemA11yProps(state.getState(), 'item-300');
+            
+            expect(props['aria-setsize']).toBe(500);
+            expect(props['aria-posinset']).toBe(301);
+        });
+        
+        it('should follow the items of a submenu', () => {
+            const { state } = setupVirtual();
+            state.setItems([{ id: 'parent', label: 'Parent', items: manyItems.slice(0, 5) }]);
+            
+            expect(state.getState().virtualWindow?.totalSize).toBe(30);
+            
+            state.pushSubmenu('parent');
+            
+            expect(state.getState().virtualWindow).toEqual(expect.objectContaining({
+                startIndex: 0,
+                endIndex: 5,
+                totalSize: 150,
+            }));
+        });
+    });
+});
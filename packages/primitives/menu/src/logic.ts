@@ -19,10 +19,42 @@
  * that cause infinite loops and crash the application.
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
+import { LogicLayerBuilder, autoPosition, createComponentId, createVirtualizer, flip, offset, shift, size } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
+import { getItemGroups, orderByGroup } from '@stellarix-ui/utils';
 import type { MenuState, MenuEvents, MenuOptions, MenuItem } from './types';
-import type { MenuStateStore } from './state';
+import { isItemDisabled, type MenuStateStore } from './state';
+
+/**
+ * Get the items of the submenu currently shown, ungrouped items first
+ * and the items of each group adjacent
+ */
+export function getCurrentItems(state: MenuState): MenuItem[] {
+    let currentItems = state.items;
+    for (const submenuId of state.submenuStack) {
+        const item = currentItems.find(i => i.id === submenuId);
+        if (item?.items) {
+            currentItems = item.items;
+        }
+    }
+    return orderByGroup(currentItems, item => item.group);
+}
+
+/**
+ * Range of the current items to render: the virtual window, or every item
+ */
+export function getRenderedRange(state: MenuState): { startIndex: number; endIndex: number } {
+    return state.virtualWindow
+        ? { startIndex: state.virtualWindow.startIndex, endIndex: state.virtualWindow.endIndex }
+        : { startIndex: 0, endIndex: getCurrentItems(state).length };
+}
+
+/**
+ * Get the groups of the submenu currently shown
+ */
+export function getCurrentGroups(state: MenuState) {
+    return getItemGroups(getCurrentItems(state), item => item.group);
+}
 
 /**
  * Creates the menu component logic
@@ -37,6 +69,38 @@ export function createMenuLogic(
     // Type-ahead search timeout (default 500ms)
     const typeAheadTimeout = options.typeAheadTimeout ?? 500;
     const typeAheadEnabled = options.typeAhead !== false;
+    // Group headers need ids to label their groups, with or without options.id
+    const groupIdPrefix = `${options.id ?? createComponentId('menu')}-group`;
+    
+    // Renders only the items in view when virtualized
+    const virtualize = options.virtualize === true ? {} : options.virtualize || null;
+    const virtualizer = virtualize
+        ? createVirtualizer({
+            count: state.getCurrentItems().length,
+            itemSize: virtualize.itemSize ?? 36,
+            overscan: virtualize.overscan ?? 3,
+            viewportSize: virtualize.viewportSize ?? 300,
+        })
+        : null;
+    let observedMenu: HTMLElement | null = null;
+    let stopObserving: (() => void) | null = null;
+    const unsubscribers: Array<() => void> = [];
+    
+    // Helper to follow the scrolling of the menu list, which receives focus on open
+    const observeMenu = (menu: EventTarget | null) => {
+        if (!virtualizer || !(menu instanceof HTMLElement)) return;
+        
+        if (menu !== observedMenu) {
+            const offset = virtualizer.getScrollOffset();
+            stopObserving?.();
+            stopObserving = virtualizer.observe(menu);
+            observedMenu = menu;
+            virtualizer.scrollToOffset(offset);
+        }
+        if (virtualize?.measure) {
+            virtualizer.measureElements(menu.querySelectorAll('[data-index]'));
+        }
+    };
     
     // Helper to handle item selection
     const selectItem = (item: MenuItem) => {
@@ -75,14 +139,14 @@ export function createMenuLogic(
         
         state.setSearchQuery(query);
         
-        // Find matching item
+        // Find matching item, across groups
         const currentItems = state.getCurrentItems();
         const startIndex = currentState.activeIndex + 1;
         
         // Search from current position to end
         for (let i = startIndex; i < currentItems.length; i++) {
             const item = currentItems[i];
-            if (item && !item.disabled && 
+            if (item && !isItemDisabled(currentState, item) && 
                 item.label.toLowerCase().startsWith(query)) {
                 state.setActiveIndex(i);
                 return;
@@ -92,7 +156,7 @@ export function createMenuLogic(
         // Wrap around to beginning
         for (let i = 0; i < startIndex; i++) {
             const item = currentItems[i];
-            if (item && !item.disabled && 
+            if (item && !isItemDisabled(currentState, item) && 
                 item.label.toLowerCase().startsWith(query)) {
                 state.setActiveIndex(i);
                 return;
@@ -100,8 +164,72 @@ export function createMenuLogic(
         }
     };
     
+    // Grouped items render as their own part and share the item handlers
+    const handleItemClick = (currentState: MenuState, event: MouseEvent & { itemId?: string }) => {
+        event.preventDefault();
+        
+        const item = getCurrentItems(currentState).find(i => i.id === event.itemId);
+        if (!item || isItemDisabled(currentState, item)) {
+            return null;
+        }
+        
+        if (item.items) {
+            // Enter submenu
+            state.pushSubmenu(item.id);
+            state.navigateToFirst();
+            return null;
+        }
+        
+        selectItem(item);
+        return 'select';
+    };
+    
+    const handleItemMouseEnter = (currentState: MenuState, event: MouseEvent & { itemId?: string }) => {
+        const currentItems = getCurrentItems(currentState);
+        const itemIndex = currentItems.findIndex(i => i.id === event.itemId);
+        
+        if (itemIndex !== -1 && !isItemDisabled(currentState, currentItems[itemIndex]!)) {
+            state.setActiveIndex(itemIndex);
+        }
+        return null;
+    };
+    
     // Create logic layer using the builder
     return new LogicLayerBuilder<MenuState, MenuEvents>()
+        .onInitialize((store) => {
+            if (!virtualizer) return;
+            
+            // The window follows the items of the current submenu level and
+            // scrolls to the active item, so keyboard navigation moves it
+            let { items, submenuStack, activeIndex } = store.getState();
+            state.setVirtualWindow(virtualizer.getWindow());
+            unsubscribers.push(
+                virtualizer.subscribe(virtualWindow => state.setVirtualWindow(virtualWindow)),
+                store.subscribe((current) => {
+                    if (current.items !== items || current.submenuStack !== submenuStack) {
+                        const levelChanged = current.submenuStack !== submenuStack;
+                        items = current.items;
+                        submenuStack = current.submenuStack;
+                        virtualizer.setCount(getCurrentItems(current).length);
+                        if (levelChanged) {
+                            virtualizer.scrollToOffset(0);
+                        }
+                    }
+                    if (current.activeIndex !== activeIndex) {
+                        activeIndex = current.activeIndex;
+                        if (activeIndex >= 0) {
+                            virtualizer.scrollToIndex(activeIndex);
+                        }
+                    }
+                })
+            );
+        })
+        .onCleanup(() => {
+            unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+            stopObserving?.();
+            stopObserving = null;
+            observedMenu = null;
+        })
         .onEvent('open', () => {
             state.setOpen(true);
             if (options.onOpen) {
@@ -163,7 +291,26 @@ export function createMenuLogic(
             id: options.id ? `${options.id}-menu` : undefined,
             tabIndex: -1,
         }))
-        // Menu item - removed, will use helper function instead
+        // Menu item - takes the item id
+        .withA11y('menuItem', (state) => (itemId: string) => getMenuItemA11yProps(state, itemId))
+        .withA11y('menuGroupItem', (state) => (itemId: string) => getMenuItemA11yProps(state, itemId))
+        // Item group - takes the group index, labelled by its header
+        .withA11y('menuGroup', (state) => (index: number) => {
+            const group = getCurrentGroups(state)[index];
+            // The header of a group that starts above the virtual window is not rendered
+            const continued = Boolean(group && state.virtualWindow && group.startIndex < state.virtualWindow.startIndex);
+            
+            return {
+                role: 'group',
+                'aria-labelledby': continued ? undefined : `${groupIdPrefix}-${index}`,
+                'aria-label': continued ? group!.label : undefined,
+                'aria-disabled': group && state.disabledGroups.includes(group.label) ? 'true' : undefined,
+            };
+        })
+        .withA11y('menuGroupLabel', () => (index: number) => ({
+            id: `${groupIdPrefix}-${index}`,
+            role: 'presentation',
+        }))
         // Trigger interactions
         .withInteraction('trigger', 'onClick', (currentState, event: MouseEvent) => {
             event.preventDefault();
@@ -227,7 +374,7 @@ export function createMenuLogic(
                 case ' ': {
                     event.preventDefault();
                     const activeItem = state.getActiveItem();
-                    if (activeItem && !activeItem.disabled) {
+                    if (activeItem && !isItemDisabled(currentState, activeItem)) {
                         if (activeItem.items) {
                             // Enter submenu
                             state.pushSubmenu(activeItem.id);
@@ -243,7 +390,7 @@ export function createMenuLogic(
                 case 'ArrowRight': {
                     event.preventDefault();
                     const currentItem = state.getActiveItem();
-                    if (currentItem?.items && !currentItem.disabled) {
+                    if (currentItem?.items && !isItemDisabled(currentState, currentItem)) {
                         state.pushSubmenu(currentItem.id);
                         state.navigateToFirst();
                     }
@@ -273,9 +420,14 @@ export function createMenuLogic(
             }
             return null;
         })
-        .withInteraction('menu', 'onFocus', () => {
+        .withInteraction('menu', 'onFocus', (_currentState, event: FocusEvent) => {
+            observeMenu(event?.currentTarget ?? null);
             return 'focus';
         })
+        .withInteraction('menu', 'onScroll', (_currentState, event: Event) => {
+            observeMenu(event.currentTarget);
+            return null;
+        })
         .withInteraction('menu', 'onBlur', (_, event: FocusEvent) => {
             // Check if focus is still within menu
             const relatedTarget = event.relatedTarget as HTMLElement;
@@ -287,7 +439,11 @@ export function createMenuLogic(
             }
             return 'blur';
         })
-        // Remove item interactions - will use helper functions instead
+        // Menu item interactions, the adapter assigns the item id to the event
+        .withInteraction('menuItem', 'onClick', handleItemClick)
+        .withInteraction('menuItem', 'onMouseEnter', handleItemMouseEnter)
+        .withInteraction('menuGroupItem', 'onClick', handleItemClick)
+        .withInteraction('menuGroupItem', 'onMouseEnter', handleItemMouseEnter)
         .build();
 }
 
@@ -298,7 +454,7 @@ export function createMenuLogic(
 export function handleMenuItemClick(
     state: MenuStateStore,
     logic: LogicLayer<MenuState, MenuEvents>,
-    _currentState: MenuState,
+    currentState: MenuState,
     itemId: string,
     event: MouseEvent
 ): void {
@@ -307,7 +463,7 @@ export function handleMenuItemClick(
     const currentItems = state.getCurrentItems();
     const item = currentItems.find(i => i.id === itemId);
     
-    if (item && !item.disabled) {
+    if (item && !isItemDisabled(currentState, item)) {
         if (item.items) {
             // Enter submenu
             state.pushSubmenu(item.id);
@@ -329,14 +485,14 @@ export function handleMenuItemClick(
 export function handleMenuItemMouseEnter(
     state: MenuStateStore,
     _logic: LogicLayer<MenuState, MenuEvents>,
-    _currentState: MenuState,
+    currentState: MenuState,
     itemId: string
 ): void {
     const currentItems = state.getCurrentItems();
     const itemIndex = currentItems.findIndex(i => i.id === itemId);
     
     const item = currentItems[itemIndex];
-    if (itemIndex !== -1 && item && !item.disabled) {
+    if (itemIndex !== -1 && item && !isItemDisabled(currentState, item)) {
         state.setActiveIndex(itemIndex);
     }
 }
@@ -349,15 +505,7 @@ export function getMenuItemA11yProps(
     state: MenuState,
     itemId: string
 ): Record<string, any> {
-    // Use helper method to get current items based on submenu stack
-    let currentItems = state.items;
-    for (const submenuId of state.submenuStack) {
-        const item = currentItems.find(i => i.id === submenuId);
-        if (item?.items) {
-            currentItems = item.items;
-        }
-    }
-    
+    const currentItems = getCurrentItems(state);
     const itemIndex = currentItems.findIndex(item => item.id === itemId);
     const item = currentItems[itemIndex];
     
@@ -365,9 +513,44 @@ export function getMenuItemA11yProps(
     
     return {
         role: 'menuitem',
-        'aria-disabled': item.disabled ? 'true' : undefined,
+        'aria-disabled': isItemDisabled(state, item) ? 'true' : undefined,
         'aria-haspopup': item.items ? 'true' : undefined,
         'aria-expanded': item.items && state.submenuStack.includes(item.id) ? 'true' : undefined,
+        // Only part of the items is rendered when virtualized
+        'aria-setsize': state.virtualWindow ? currentItems.length : undefined,
+        'aria-posinset': state.virtualWindow ? itemIndex + 1 : undefined,
         tabIndex: state.activeIndex === itemIndex ? 0 : -1,
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Keeps a menu next to the element that opens it: below its trigger, or
+ * beside the parent item for a submenu. Flips to the other side when there
+ * is no room and limits the height to the space available.
+ * @param reference The trigger, or the item that opens the submenu
+ * @param menu The menu list element
+ * @param options `submenu` places the menu beside its reference
+ * @returns Stops updating
+ */
+export function autoUpdateMenuPosition(
+    reference: HTMLElement,
+    menu: HTMLElement,
+    options: { submenu?: boolean } = {}
+): () => void {
+    const { submenu = false } = options;
+    
+    return autoPosition(reference, menu, {
+        placement: submenu ? 'right-start' : 'bottom-start',
+        middleware: [
+            offset(submenu ? 0 : 4),
+            flip({ fallbackPlacements: [submenu ? 'left-start' : 'top-start'] }),
+            shift({ padding: 8 }),
+            size({
+                padding: 8,
+                apply: ({ availableHeight, elements }) => {
+                    elements.floating.style.maxHeight = `${availableHeight}px`;
+                },
+            }),
+        ],
+    });
+}
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { createMenuState } from './state';
+import { createMenuState, isItemDisabled } from './state';
 import type { MenuItem } from './types';
 
 describe('createMenuState', () => {
@@ -19,6 +19,7 @@ describe('createMenuState', () => {
         expect(initialState.focused).toBe(false);
         expect(initialState.selectedId).toBeUndefined();
         expect(initialState.submenuStack).toEqual([]);
+        expect(initialState.virtualWindow).toBeNull();
     });
     
     it('should create state with custom initial values', () => {
@@ -257,4 +258,35 @@ describe('createMenuState', () => {
         state.navigateToFirst();
         expect(listener).not.toHaveBeenCalled();
     });
+    
+    it('should list grouped items after ungrouped ones, group by group', () => {
+        const items: MenuItem[] = [
+            { id: 'cut', label: 'Cut', group: 'Edit' },
+            { id: 'zoom', label: 'Zoom', group: 'View' },
+            { id: 'copy', label: 'Copy', group: 'Edit' },
+            { id: 'help', label: 'Help' }
+        ];
+        
+        const state = createMenuState({ items });
+        
+        expect(state.getCurrentItems().map(item => item.id)).toEqual(['help', 'cut', 'copy', 'zoom']);
+    });
+    
+    it('should skip the items of disabled groups', () => {
+        const items: MenuItem[] = [
+            { id: 'cut', label: 'Cut', group: 'Edit' },
+            { id: 'copy', label: 'Copy', group: 'Edit' },
+            { id: 'zoom', label: 'Zoom', group: 'View' }
+        ];
+        
+        const state = createMenuState({ items, disabledGroups: ['Edit'] });
+        
+        state.navigateToFirst();
+        expect(state.getState().activeIndex).toBe(2);
+        
+        state.setGroupDisabled('Edit', false);
+        state.navigateDown();
+        expect(state.getState().activeIndex).toBe(0);
+        expect(isItemDisabled(state.getState(), items[0]!)).toBe(false);
+    });
 });
\ No newline at end of file
@@ -6,9 +6,17 @@
  * NEVER use setState({ field: value }) - it will lose other state fields!
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection, type VirtualWindow } from '@stellarix-ui/core';
+import { orderByGroup } from '@stellarix-ui/utils';
 import type { MenuState, MenuOptions, MenuItem } from './types';
 
+/**
+ * Whether an item is disabled, by itself or through its group
+ */
+export function isItemDisabled(state: Pick<MenuState, 'disabledGroups'>, item: MenuItem): boolean {
+    return Boolean(item.disabled) || (item.group !== undefined && state.disabledGroups.includes(item.group));
+}
+
 /**
  * Extended state store with component-specific methods
  */
@@ -17,6 +25,7 @@ export interface MenuStateStore {
     getState: () => MenuState;
     setState: (updater: (prev: MenuState) => MenuState) => void;
     subscribe: (listener: (state: MenuState) => void) => () => void;
+    select: <U>(selector: (state: MenuState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: MenuState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -29,6 +38,8 @@ export interface MenuStateStore {
     setSearchQuery: (query: string) => void;
     setFocused: (focused: boolean) => void;
     setSelectedId: (id?: string) => void;
+    setGroupDisabled: (group: string, disabled: boolean) => void;
+    setVirtualWindow: (virtualWindow: VirtualWindow | null) => void;
     pushSubmenu: (itemId: string) => void;
     popSubmenu: () => void;
     clearSubmenuStack: () => void;
@@ -61,17 +72,15 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
         focused: false,
         selectedId: options.selectedId,
         submenuStack: [],
+        disabledGroups: options.disabledGroups ?? [],
+        virtualWindow: null,
     };
     
     // Create the core state store
     const store = createComponentState('Menu', initialState);
     
-    // Helper to get current items based on submenu stack
+    // Helper to get current items based on submenu stack, in display order
     const getCurrentItemsHelper = (state: MenuState): MenuItem[] => {
-        if (state.submenuStack.length === 0) {
-            return state.items;
-        }
-        
         // Navigate through submenu stack
         let currentItems = state.items;
         for (const itemId of state.submenuStack) {
@@ -80,11 +89,11 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
                 currentItems = item.items;
             }
         }
-        return currentItems;
+        return orderByGroup(currentItems, item => item.group);
     };
     
     // Helper to find non-disabled items
-    const findEnabledIndex = (items: MenuItem[], startIndex: number, direction: 'forward' | 'backward'): number => {
+    const findEnabledIndex = (state: MenuState, items: MenuItem[], startIndex: number, direction: 'forward' | 'backward'): number => {
         const len = items.length;
         if (len === 0) return -1;
         
@@ -99,7 +108,7 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
             }
             
             const item = items[index];
-            if (item && !item.disabled) {
+            if (item && !isItemDisabled(state, item)) {
                 return index;
             }
             checked++;
@@ -146,6 +155,19 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
             store.setState((prev: any) => ({ ...prev, selectedId }));
         },
         
+        setGroupDisabled: (group: string, disabled: boolean) => {
+            store.setState((prev: any) => ({
+                ...prev,
+                disabledGroups: disabled
+                    ? [...prev.disabledGroups.filter((name: string) => name !== group), group]
+                    : prev.disabledGroups.filter((name: string) => name !== group)
+            }));
+        },
+        
+        setVirtualWindow: (virtualWindow: VirtualWindow | null) => {
+            store.setState((prev: any) => ({ ...prev, virtualWindow }));
+        },
+        
         pushSubmenu: (itemId: string) => {
             store.setState((prev: any) => ({ 
                 ...prev, 
@@ -177,6 +199,7 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
             if (currentItems.length === 0) return;
             
             const newIndex = findEnabledIndex(
+                state,
                 currentItems,
                 state.activeIndex === -1 ? currentItems.length : state.activeIndex,
                 'backward'
@@ -193,6 +216,7 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
             if (currentItems.length === 0) return;
             
             const newIndex = findEnabledIndex(
+                state,
                 currentItems,
                 state.activeIndex,
                 'forward'
@@ -211,7 +235,7 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
             // Find first enabled item
             for (let i = 0; i < currentItems.length; i++) {
                 const item = currentItems[i];
-                if (item && !item.disabled) {
+                if (item && !isItemDisabled(state, item)) {
                     store.setState((prev: any) => ({ ...prev, activeIndex: i }));
                     return;
                 }
@@ -226,7 +250,7 @@ export function createMenuState(options: MenuOptions = {}): MenuStateStore {
             // Find last enabled item
             for (let i = currentItems.length - 1; i >= 0; i--) {
                 const item = currentItems[i];
-                if (item && !item.disabled) {
+                if (item && !isItemDisabled(state, item)) {
                     store.setState((prev: any) => ({ ...prev, activeIndex: i }));
                     return;
                 }
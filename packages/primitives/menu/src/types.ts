@@ -3,6 +3,8 @@
  * Framework-agnostic type definitions
  */
 
+import type { VirtualizeOptions, VirtualWindow } from '@stellarix-ui/core';
+
 /**
  * Individual menu item configuration
  */
@@ -13,6 +15,8 @@ export interface MenuItem {
     label: string;
     /** Whether the item is disabled */
     disabled?: boolean;
+    /** Group the item is listed under, with the group name as its header */
+    group?: string;
     /** Optional icon component/element */
     icon?: any;
     /** Nested submenu items */
@@ -43,6 +47,10 @@ export interface MenuState {
     selectedId?: string;
     /** Stack of open submenu paths */
     submenuStack: string[];
+    /** Groups whose items are all disabled */
+    disabledGroups: string[];
+    /** Range of the current items rendered when virtualized, null otherwise */
+    virtualWindow: VirtualWindow | null;
 }
 
 /**
@@ -55,6 +63,8 @@ export interface MenuOptions {
     open?: boolean;
     /** Initial selected item ID */
     selectedId?: string;
+    /** Groups whose items are all disabled */
+    disabledGroups?: string[];
     /** Component ID for ARIA */
     id?: string;
     /** Callback when menu opens */
@@ -69,6 +79,8 @@ export interface MenuOptions {
     typeAhead?: boolean;
     /** Type-ahead timeout in ms */
     typeAheadTimeout?: number;
+    /** Render only the items in view; `true` uses 36px items in a 300px menu */
+    virtualize?: boolean | VirtualizeOptions;
 }
 
 /**
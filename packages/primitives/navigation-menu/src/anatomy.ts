@@ -0,0 +1,112 @@
+/**
+ * NavigationMenu Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { createMenuItemHandlers, getMenuItemA11yProps, getSubmenuA11yProps } from './logic';
+import type { NavigationMenuStateStore } from './state';
+import type { NavigationMenuItem, NavigationMenuOptions, NavigationMenuState } from './types';
+
+/**
+ * Creates the navigation menu anatomy: the mobile menu button, then the menu
+ * bar with one link per item and the submenu of expanded items
+ * @param state State store the item handlers update
+ * @param options Component options, for the item callbacks
+ */
+export function createNavigationMenuAnatomy(
+    state: NavigationMenuStateStore,
+    options: NavigationMenuOptions = {}
+): ComponentAnatomy<NavigationMenuState> {
+    // Item handlers keep their hover timers, so each item reuses its own
+    const handlersById = new Map<string, Record<string, (event: any) => void>>();
+    const getItemHandlers = (itemId: string) => {
+        let handlers = handlersById.get(itemId);
+        if (!handlers) {
+            handlers = createMenuItemHandlers(state, options, itemId) as Record<string, (event: any) => void>;
+            handlersById.set(itemId, handlers);
+        }
+        return handlers;
+    };
+
+    const hasChildren = (item: NavigationMenuItem) => Boolean(item.children?.length);
+
+    const linkProps = (current: NavigationMenuState, item: NavigationMenuItem) => ({
+        ...getMenuItemA11yProps(current, item.id, hasChildren(item)),
+        ...getItemHandlers(item.id),
+        'data-active': item.id === current.activeItemId || undefined,
+        style: {
+            display: 'block',
+            padding: '8px 12px',
+            textDecoration: 'none',
+            cursor: item.disabled || current.disabled ? 'not-allowed' : 'pointer',
+        },
+    });
+
+    return {
+        parts: {
+            root: {
+                element: 'nav',
+            },
+            mobileMenuButton: {
+                element: 'button',
+                when: ({ state: current }) => current.showMobileMenu,
+                text: () => '☰',
+                props: () => ({ type: 'button' }),
+            },
+            menuList: {
+                element: 'ul',
+                when: ({ state: current }) => !current.showMobileMenu || !current.collapsed,
+                props: ({ state: current }) => ({
+                    style: {
+                        display: 'flex',
+                        flexDirection: current.orientation === 'vertical' ? 'column' : 'row',
+                        listStyle: 'none',
+                        margin: '0',
+                        padding: '0',
+                    },
+                }),
+            },
+            menuItem: {
+                element: 'li',
+                parent: 'menuList',
+                items: ({ state: current }) => current.items,
+                props: () => ({
+                    role: 'none',
+                    style: { position: 'relative' },
+                }),
+            },
+            menuLink: {
+                element: 'a',
+                parent: 'menuItem',
+                text: ({ item }) => item.label,
+                props: ({ state: current, item }) => linkProps(current, item),
+            },
+            submenu: {
+                element: 'ul',
+                parent: 'menuItem',
+                when: ({ state: current, item }) => hasChildren(item) && current.expandedItemIds.includes(item.id),
+                props: ({ state: current, item }) => ({
+                    ...getSubmenuA11yProps(current, item.id),
+                    style: { listStyle: 'none', margin: '0', padding: '0 0 0 12px' },
+                }),
+            },
+            submenuItem: {
+                element: 'li',
+                parent: 'submenu',
+                items: ({ item }) => item.children ?? [],
+                props: () => ({ role: 'none' }),
+            },
+            submenuLink: {
+                element: 'a',
+                parent: 'submenuItem',
+                text: ({ item }) => item.label,
+                props: ({ state: current, item }) => linkProps(current, item),
+            },
+        },
+        bindings: {
+            activeItemId: 'activeItemId',
+            expandedItemIds: 'expandedItemIds',
+        },
+    };
+}
@@ -7,6 +7,7 @@ import type { ComponentCore } from '@stellarix-ui/core';
 import type { NavigationMenuState, NavigationMenuOptions, NavigationMenuEvents } from './types';
 import { createNavigationMenuState } from './state';
 import { createNavigationMenuLogic } from './logic';
+import { createNavigationMenuAnatomy } from './anatomy';
 
 // Re-export types
 export type {
@@ -21,6 +22,7 @@ export type {
 
 // Re-export helper functions for render usage
 export { getMenuItemA11yProps, getSubmenuA11yProps, createMenuItemHandlers } from './logic';
+export { createNavigationMenuAnatomy } from './anatomy';
 
 // Remove this interface as we'll use ComponentCore from @stellarix-ui/core
 
@@ -40,6 +42,7 @@ export function createNavigationMenu(options: NavigationMenuOptions = {}): Compo
     return {
         state,
         logic,
+        anatomy: createNavigationMenuAnatomy(state, options),
         metadata: {
             name: 'NavigationMenu',
             version: '1.0.0',
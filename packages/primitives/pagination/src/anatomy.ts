@@ -0,0 +1,111 @@
+/**
+ * Pagination Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { getPageNumbers } from './logic';
+import type { PaginationState } from './types';
+
+const buttonStyle = (active: boolean, disabled: boolean) => ({
+    minWidth: '32px',
+    padding: '4px 8px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '4px',
+    backgroundColor: active ? '#3b82f6' : 'white',
+    color: active ? 'white' : 'inherit',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+});
+
+/**
+ * First and previous buttons, one button per shown page with ellipses for
+ * the pages left out, next and last buttons, then the range of shown items
+ */
+export const paginationAnatomy: ComponentAnatomy<PaginationState> = {
+    parts: {
+        root: {
+            element: 'nav',
+            props: () => ({
+                style: { display: 'flex', alignItems: 'center', gap: '4px' },
+            }),
+        },
+        firstButton: {
+            element: 'button',
+            text: () => '«',
+            props: ({ state }) => ({
+                type: 'button',
+                disabled: state.currentPage === 1 || state.disabled || undefined,
+                style: buttonStyle(false, state.currentPage === 1 || state.disabled),
+            }),
+        },
+        previousButton: {
+            element: 'button',
+            text: () => '‹',
+            props: ({ state }) => ({
+                type: 'button',
+                disabled: state.currentPage === 1 || state.disabled || undefined,
+                style: buttonStyle(false, state.currentPage === 1 || state.disabled),
+            }),
+        },
+        page: {
+            element: 'span',
+            items: ({ state }) => getPageNumbers(state.currentPage, state.totalPages, state.siblingCount),
+            // Both ellipses have the same item, so their position tells them apart
+            key: ({ item, index }) => item === 'ellipsis' ? `ellipsis-${index}` : item,
+        },
+        pageButton: {
+            element: 'button',
+            parent: 'page',
+            when: ({ item }) => item !== 'ellipsis',
+            text: ({ item }) => item,
+            // The page button handler reads the page from the event
+            event: ({ item }) => ({ page: item }),
+            props: ({ state, item }) => ({
+                type: 'button',
+                'aria-label': `Go to page ${item}`,
+                'aria-current': item === state.currentPage ? 'page' : undefined,
+                disabled: state.disabled || undefined,
+                style: buttonStyle(item === state.currentPage, state.disabled),
+            }),
+        },
+        ellipsis: {
+            element: 'span',
+            parent: 'page',
+            when: ({ item }) => item === 'ellipsis',
+            text: () => '…',
+            props: () => ({ 'aria-hidden': 'true' }),
+        },
+        nextButton: {
+            element: 'button',
+            text: () => '›',
+            props: ({ state }) => ({
+                type: 'button',
+                disabled: state.currentPage === state.totalPages || state.disabled || undefined,
+                style: buttonStyle(false, state.currentPage === state.totalPages || state.disabled),
+            }),
+        },
+        lastButton: {
+            element: 'button',
+            text: () => '»',
+            props: ({ state }) => ({
+                type: 'button',
+                disabled: state.currentPage === state.totalPages || state.disabled || undefined,
+                style: buttonStyle(false, state.currentPage === state.totalPages || state.disabled),
+            }),
+        },
+        pageInfo: {
+            element: 'span',
+            text: ({ state }) => {
+                const startIndex = state.totalItems === 0 ? 0 : (state.currentPage - 1) * state.itemsPerPage + 1;
+                const endIndex = Math.min(state.currentPage * state.itemsPerPage, state.totalItems);
+                return `${startIndex}–${endIndex} of ${state.totalItems}`;
+            },
+            props: () => ({
+                style: { marginLeft: '8px' },
+            }),
+        },
+    },
+    bindings: {
+        currentPage: 'currentPage',
+    },
+};
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createPaginationState } from './state';
 import { createPaginationLogic } from './logic';
+import { paginationAnatomy } from './anatomy';
 import type { PaginationOptions, PaginationState, PaginationEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createPagination(options: PaginationOptions = {}) {
     return createPrimitive<PaginationState, PaginationEvents, PaginationOptions>('Pagination', {
         initialState: options,
         logicConfig: options,
+        anatomy: paginationAnatomy,
         metadata: {
             accessibility: {
                 role: 'navigation',
@@ -88,6 +90,10 @@ export function createPaginationWithImplementation(options: PaginationOptions =
     core.state = createPaginationState(options);
     core.logic = createPaginationLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -104,6 +110,7 @@ export type { PaginationStateStore } from './state';
 
 // Re-export helper function
 export { getPageNumbers } from './logic';
+export { paginationAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createPaginationWithImplementation;
\ No newline at end of file
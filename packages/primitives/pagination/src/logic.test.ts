@@ -14,6 +14,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createPaginationLogic, getPageNumbers } from './logic';
 import { createPaginationState } from './state';
 import type { PaginationOptions } from './types';
+import { getAnnouncer } from '@stellarix-ui/utils';
 
 describe('Pagination Logic', () => {
     let stateStore: ReturnType<typeof createPaginationState>;
@@ -143,6 +144,22 @@ describe('Pagination Logic', () => {
         );
     });
     
+    it('should announce page changes to screen readers', () => {
+        vi.useFakeTimers();
+        // Start from a fresh shared announcer, created under fake timers
+        getAnnouncer().destroy();
+        
+        logic.handleEvent('pageChange', { page: 3 });
+        vi.advanceTimersByTime(200);
+        
+        const region = document.querySelector('[data-stellarix-announcer="polite"]');
+        expect(region?.getAttribute('aria-live')).toBe('polite');
+        expect(region?.textContent).toBe('Page 3 of 10');
+        
+        getAnnouncer().destroy();
+        vi.useRealTimers();
+    });
+    
     it('should provide correct a11y props for navigation', () => {
         const props = logic.getA11yProps('root');
         
@@ -28,6 +28,7 @@
 
 import { LogicLayerBuilder } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
+import { announce } from '@stellarix-ui/utils';
 import type { PaginationState, PaginationEvents, PaginationOptions, PageInfo } from './types';
 import type { PaginationStateStore } from './state';
 
@@ -92,6 +93,13 @@ export function createPaginationLogic(
     state: PaginationStateStore,
     options: PaginationOptions = {}
 ): LogicLayer<PaginationState, PaginationEvents> {
+    const announcePage = (page: number, currentState: PaginationState) => {
+        if (page !== currentState.currentPage && options.pageAnnouncement !== false) {
+            const format = options.pageAnnouncement ?? ((current: number, total: number) => `Page ${current} of ${total}`);
+            announce(format(page, currentState.totalPages));
+        }
+    };
+    
     return new LogicLayerBuilder<PaginationState, PaginationEvents>()
         .onEvent('pageChange', (currentState, payload: any) => {
             // Extract page from payload
@@ -107,6 +115,7 @@ export function createPaginationLogic(
             
             // Update state
             state.setCurrentPage(newPage);
+            announcePage(newPage, currentState);
             
             // Call user callback if provided
             if (options.onPageChange) {
@@ -157,6 +166,7 @@ export function createPaginationLogic(
             
             // Update state
             state.setCurrentPage(targetPage);
+            announcePage(targetPage, currentState);
             
             // Call user callback if provided
             if (options.onPageChange) {
@@ -236,7 +246,7 @@ export function createPaginationLogic(
             state.goToLast();
             return 'navigate';
         })
-        .withInteraction('pageButton', 'onClick', (currentState, event: MouseEvent, page?: number) => {
+        .withInteraction('pageButton', 'onClick', (currentState, event: MouseEvent & { page?: number }, page = event.page) => {
             if (currentState.disabled || !page || page === currentState.currentPage) {
                 event.preventDefault();
                 return null;
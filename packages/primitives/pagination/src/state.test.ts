@@ -2,9 +2,11 @@
  * Pagination State Tests
  * 
  * 🚨 CRITICAL: Testing Pattern Rules
- * ❌ NEVER use state.getState() for verification
+ * ❌ NEVER use state.getState() to verify updates
  * ✅ ALWAYS use subscription pattern: state.subscribe(listener)
  * ✅ ALWAYS verify via listener calls: expect(listener).toHaveBeenCalledWith()
+ * ✅ Read the initial state with state.getState(): updates that leave the
+ *    state shallowly equal notify nobody
  * 
  * This prevents infinite loops and ensures proper reactive testing
  */
@@ -16,16 +18,8 @@ import type { PaginationOptions } from './types';
 describe('Pagination State', () => {
     it('should create state with default values', () => {
         const state = createPaginationState();
-        const listener = vi.fn();
-        
-        // Subscribe to verify initial state
-        state.subscribe(listener);
-        
-        // Trigger an update to see the full state
-        state.setCurrentPage(1); // Same as default
         
-        // Verify the state update contains expected values
-        expect(listener).toHaveBeenCalledWith(
+        expect(state.getState()).toEqual(
             expect.objectContaining({
                 currentPage: 1,
                 totalItems: 0,
@@ -47,13 +41,8 @@ describe('Pagination State', () => {
         };
         
         const state = createPaginationState(options);
-        const listener = vi.fn();
-        
-        // Subscribe and trigger update to verify state
-        state.subscribe(listener);
-        state.setCurrentPage(3); // Same as initial
         
-        expect(listener).toHaveBeenCalledWith(
+        expect(state.getState()).toEqual(
             expect.objectContaining({
                 currentPage: 3,
                 totalItems: 100,
@@ -201,9 +190,7 @@ describe('Pagination State', () => {
         state.goToFirst();
         listener.mockClear();
         state.goToPrevious();
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ currentPage: 1 }) // Should stay at 1
-        );
+        expect(listener).not.toHaveBeenCalled(); // Should stay at 1
     });
     
     it('should compute canGoPrevious correctly', () => {
@@ -258,12 +245,8 @@ describe('Pagination State', () => {
     
     it('should handle edge case with zero items', () => {
         const state = createPaginationState({ totalItems: 0, itemsPerPage: 10 });
-        const listener = vi.fn();
         
-        state.subscribe(listener);
-        state.setCurrentPage(1);
-        
-        expect(listener).toHaveBeenCalledWith(
+        expect(state.getState()).toEqual(
             expect.objectContaining({
                 currentPage: 1,
                 totalPages: 1, // Should be 1 even with 0 items
@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { PaginationState, PaginationOptions } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface PaginationStateStore {
     getState: () => PaginationState;
     setState: (updater: ((prev: PaginationState) => PaginationState) | Partial<PaginationState>) => void;
     subscribe: (listener: (state: PaginationState) => void) => () => void;
+    select: <U>(selector: (state: PaginationState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: PaginationState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
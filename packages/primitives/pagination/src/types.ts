@@ -79,6 +79,12 @@ export interface PaginationOptions {
      */
     onPageChange?: (page: number) => void;
     
+    /**
+     * Message announced to screen readers when the page changes; `false` turns it off
+     * @default 'Page <page> of <totalPages>'
+     */
+    pageAnnouncement?: ((page: number, totalPages: number) => string) | false;
+    
     /**
      * Callback when items per page changes
      */
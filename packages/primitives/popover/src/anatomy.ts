@@ -0,0 +1,41 @@
+/**
+ * Popover Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { PopoverState } from './types';
+
+/**
+ * Floating content panel, rendered while the popover is open.
+ * The trigger stays with the consumer, wired through the `trigger` logic element.
+ */
+export const popoverAnatomy: ComponentAnatomy<PopoverState> = {
+    parts: {
+        root: {
+            element: null,
+        },
+        content: {
+            element: 'div',
+            when: ({ state }) => state.open,
+            slot: true,
+            props: () => ({
+                'data-part': 'popover',
+                style: {
+                    position: 'absolute',
+                    backgroundColor: 'white',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '6px',
+                    padding: '12px',
+                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                    zIndex: 1000,
+                    maxWidth: '300px',
+                },
+            }),
+        },
+    },
+    host: 'content',
+    bindings: {
+        open: 'open',
+    },
+};
@@ -4,8 +4,9 @@
  */
 
 import type { ComponentCore } from '@stellarix-ui/core';
-import { createPopoverState } from './state';
+import { createPopoverState, popoverSnapshotFormat } from './state';
 import { createPopoverLogic } from './logic';
+import { popoverAnatomy } from './anatomy';
 import type { PopoverState, PopoverOptions, PopoverEvents } from './types';
 
 // Re-export types
@@ -18,8 +19,9 @@ export type {
     PopoverPosition 
 } from './types';
 
-export { createPopoverState } from './state';
-export { createPopoverLogic } from './logic';
+export { createPopoverState, popoverSnapshotFormat } from './state';
+export { createPopoverLogic, updatePopoverPosition, autoUpdatePopoverPosition } from './logic';
+export { popoverAnatomy } from './anatomy';
 
 /**
  * Creates a popover component
@@ -46,6 +48,7 @@ export function createPopover(options: PopoverOptions = {}): ComponentCore<Popov
         metadata: {
             name: 'popover',
             version: '0.1.0',
+            snapshot: popoverSnapshotFormat,
             accessibility: {
                 role: 'dialog',
                 wcagLevel: 'AA',
@@ -78,6 +81,7 @@ export function createPopover(options: PopoverOptions = {}): ComponentCore<Popov
                 }
             }
         },
+        anatomy: popoverAnatomy,
         connect: function<TFrameworkComponent>(
             adapter: any
         ): TFrameworkComponent {
@@ -4,7 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createPopoverState } from './state';
-import { createPopoverLogic } from './logic';
+import { createPopoverLogic, updatePopoverPosition } from './logic';
 
 // Mock event constructors
 const mockMouseEvent = (options: Partial<MouseEvent> = {}): MouseEvent => {
@@ -34,6 +34,18 @@ const mockFocusEvent = (type: string = 'focus'): FocusEvent => {
     });
 };
 
+// Mock the rect an element reports; jsdom lays nothing out
+const mockRect = (element: HTMLElement, rect: { left: number; top: number; width: number; height: number }) => {
+    element.getBoundingClientRect = () => ({
+        ...rect,
+        x: rect.left,
+        y: rect.top,
+        right: rect.left + rect.width,
+        bottom: rect.top + rect.height,
+        toJSON: () => rect
+    });
+};
+
 describe('createPopoverLogic', () => {
     let documentClickListeners: Array<(e: MouseEvent) => void> = [];
     let documentKeydownListeners: Array<(e: KeyboardEvent) => void> = [];
@@ -456,4 +468,144 @@ describe('createPopoverLogic', () => {
             expect(document.removeEventListener).toHaveBeenCalledWith('keydown', expect.any(Function));
         });
     });
-});
\ No newline at end of file
+});
+
+describe('updatePopoverPosition', () => {
+    // jsdom viewport is 1024x768
+    const setup = (placement: 'bottom' | 'auto' = 'bottom') => {
+        const trigger = document.createElement('button');
+        const content = document.createElement('div');
+        mockRect(trigger, { left: 100, top: 100, width: 80, height: 30 });
+        mockRect(content, { left: 0, top: 0, width: 120, height: 60 });
+        
+        const state = createPopoverState({ open: true, placement });
+        state.setTriggerElement(trigger);
+        state.setContentElement(content);
+        return { state, trigger, content };
+    };
+    
+    it('should place the content below the trigger, offset and centered', () => {
+        const { state, content } = setup();
+        
+        updatePopoverPosition(state);
+        
+        expect(content.style.position).toBe('fixed');
+        expect(content.style.top).toBe('138px');
+        expect(content.style.left).toBe('80px');
+        expect(content.getAttribute('data-placement')).toBe('bottom');
+    });
+    
+    it('should flip above the trigger when there is no room below, and back', () => {
+        const { state, trigger, content } = setup();
+        mockRect(trigger, { left: 100, top: 700, width: 80, height: 30 });
+        
+        updatePopoverPosition(state);
+        
+        expect(content.style.top).toBe('632px');
+        expect(state.getState().placement).toBe('top');
+        
+        mockRect(trigger, { left: 100, top: 100, width: 80, height: 30 });
+        updatePopoverPosition(state);
+        
+        expect(content.style.top).toBe('138px');
+        expect(state.getState().placement).toBe('bottom');
+    });
+    
+    it('should resolve auto placement and keep it requested', () => {
+        const { state, trigger } = setup('auto');
+        
+        updatePopoverPosition(state);
+        expect(state.getState().placement).toBe('bottom');
+        
+        mockRect(trigger, { left: 100, top: 700, width: 80, height: 30 });
+        updatePopoverPosition(state);
+        expect(state.getState().placement).toBe('top');
+    });
+    
+    it('should shift the content inside the viewport', () => {
+        const { state, trigger, content } = setup();
+        mockRect(trigger, { left: 0, top: 100, width: 20, height: 30 });
+        
+        updatePopoverPosition(state);
+        
+        expect(content.style.left).toBe('0px');
+    });
+    
+    it('should point the arrow at the trigger center', () => {
+        const { state } = setup();
+        const arrowElement = document.createElement('span');
+        mockRect(arrowElement, { left: 0, top: 0, width: 10, height: 5 });
+        
+        updatePopoverPosition(state, 8, arrowElement);
+        
+        expect(arrowElement.style.left).toBe('55px');
+    });
+    
+    it('should hide the content while the trigger is scrolled out of view', () => {
+        const { state, trigger, content } = setup();
+        mockRect(trigger, { left: 100, top: -100, width: 80, height: 30 });
+        
+        updatePopoverPosition(state);
+        
+        expect(content.style.visibility).toBe('hidden');
+    });
+});
+
+describe('popover focus management', () => {
+    const setup = (options: Parameters<typeof createPopoverLogic>[1] = {}) => {
+        const trigger = document.createElement('button');
+        const content = document.createElement('div');
+        const input = document.createElement('input');
+        content.tabIndex = -1;
+        content.appendChild(input);
+        mockRect(trigger, { left: 100, top: 100, width: 80, height: 30 });
+        mockRect(content, { left: 0, top: 0, width: 120, height: 60 });
+        document.body.append(trigger, content);
+        trigger.focus();
+        
+        const state = createPopoverState();
+        state.setTriggerElement(trigger);
+        state.setContentElement(content);
+        const logic = createPopoverLogic(state, options);
+        logic.connect(state);
+        logic.initialize();
+        
+        const cleanup = () => {
+            logic.cleanup();
+            trigger.remove();
+            content.remove();
+        };
+        return { state, logic, trigger, content, input, cleanup };
+    };
+    
+    it('should move focus into the content and back to the trigger on escape', () => {
+        const { logic, trigger, input, cleanup } = setup();
+        
+        logic.getInteractionHandlers('trigger').onClick(mockMouseEvent());
+        expect(document.activeElement).toBe(input);
+        
+        logic.handleEvent('escape');
+        expect(document.activeElement).toBe(trigger);
+        cleanup();
+    });
+    
+    it('should keep focus on the trigger when initialFocus is false', () => {
+        const { logic, trigger, cleanup } = setup({ initialFocus: false });
+        
+        logic.getInteractionHandlers('trigger').onClick(mockMouseEvent());
+        expect(document.activeElement).toBe(trigger);
+        cleanup();
+    });
+    
+    it('should keep Tab inside the content when trapFocus is set', () => {
+        const { logic, input, cleanup } = setup({ trapFocus: true });
+        
+        logic.getInteractionHandlers('trigger').onClick(mockMouseEvent());
+        const event = new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, cancelable: true });
+        input.dispatchEvent(event);
+        
+        expect(event.defaultPrevented).toBe(true);
+        expect(document.activeElement).toBe(input);
+        cleanup();
+    });
+});
@@ -19,11 +19,38 @@
  * that cause infinite loops and crash the application.
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
-import type { LogicLayer } from '@stellarix-ui/core';
+import {
+    LogicLayerBuilder,
+    arrow,
+    autoUpdate,
+    computePosition,
+    flip,
+    getOppositePlacement,
+    hide,
+    offset as offsetMiddleware,
+    shift,
+} from '@stellarix-ui/core';
+import type { LogicLayer, Placement, Side } from '@stellarix-ui/core';
+import { createFocusScope } from '@stellarix-ui/utils';
+import type { FocusScope } from '@stellarix-ui/utils';
 import type { PopoverState, PopoverEvents, PopoverOptions, PopoverPlacement, PopoverPosition } from './types';
 import type { PopoverStateStore } from './state';
 
+/**
+ * Placement to try first and the ones to fall back to. `auto` tries below,
+ * above, right and left of the trigger; `auto-start`/`auto-end` below and above.
+ */
+function resolvePlacement(placement: PopoverPlacement): { placement: Placement; fallbackPlacements: Placement[] } {
+    if (!placement.startsWith('auto')) {
+        return { placement: placement as Placement, fallbackPlacements: [getOppositePlacement(placement as Placement)] };
+    }
+
+    const alignment = placement.split('-')[1];
+    const sides: Side[] = alignment ? ['bottom', 'top'] : ['bottom', 'top', 'right', 'left'];
+    const [first, ...fallbackPlacements] = sides.map(side => (alignment ? `${side}-${alignment}` : side) as Placement);
+    return { placement: first!, fallbackPlacements };
+}
+
 /**
  * Calculate popover position based on trigger element and placement
  */
@@ -31,119 +58,36 @@ function calculatePosition(
     triggerElement: HTMLElement,
     contentElement: HTMLElement,
     placement: PopoverPlacement,
-    offset: number = 8
+    offset: number = 8,
+    arrowElement: HTMLElement | null = null
 ): PopoverPosition {
-    const triggerRect = triggerElement.getBoundingClientRect();
-    const contentRect = contentElement.getBoundingClientRect();
-    const viewport = {
-        width: window.innerWidth,
-        height: window.innerHeight
+    const resolved = resolvePlacement(placement);
+    const { x, y, placement: actualPlacement, middlewareData } = computePosition(triggerElement, contentElement, {
+        placement: resolved.placement,
+        strategy: 'fixed',
+        middleware: [
+            offsetMiddleware(offset),
+            flip({ fallbackPlacements: resolved.fallbackPlacements }),
+            shift(),
+            arrow({ element: arrowElement }),
+            hide(),
+        ],
+    });
+
+    return {
+        top: y,
+        left: x,
+        actualPlacement,
+        ...(middlewareData.arrow ? { arrow: { x: middlewareData.arrow.x, y: middlewareData.arrow.y } } : {}),
+        referenceHidden: middlewareData.hide?.referenceHidden ?? false,
     };
-    
-    let top = 0;
-    let left = 0;
-    let actualPlacement = placement;
-    
-    // Handle auto placement
-    if (placement.startsWith('auto')) {
-        // Determine best placement based on available space
-        const spaceTop = triggerRect.top;
-        const spaceBottom = viewport.height - triggerRect.bottom;
-        const spaceLeft = triggerRect.left;
-        const spaceRight = viewport.width - triggerRect.right;
-        
-        if (placement === 'auto') {
-            if (spaceBottom >= contentRect.height + offset) {
-                actualPlacement = 'bottom';
-            } else if (spaceTop >= contentRect.height + offset) {
-                actualPlacement = 'top';
-            } else if (spaceRight >= contentRect.width + offset) {
-                actualPlacement = 'right';
-            } else if (spaceLeft >= contentRect.width + offset) {
-                actualPlacement = 'left';
-            } else {
-                actualPlacement = 'bottom'; // fallback
-            }
-        } else if (placement === 'auto-start') {
-            if (spaceBottom >= contentRect.height + offset) {
-                actualPlacement = 'bottom-start';
-            } else if (spaceTop >= contentRect.height + offset) {
-                actualPlacement = 'top-start';
-            } else {
-                actualPlacement = 'bottom-start'; // fallback
-            }
-        } else if (placement === 'auto-end') {
-            if (spaceBottom >= contentRect.height + offset) {
-                actualPlacement = 'bottom-end';
-            } else if (spaceTop >= contentRect.height + offset) {
-                actualPlacement = 'top-end';
-            } else {
-                actualPlacement = 'bottom-end'; // fallback
-            }
-        }
-    }
-    
-    // Calculate position based on placement
-    const placementToUse = actualPlacement || placement;
-    
-    switch (placementToUse) {
-        case 'top':
-            top = triggerRect.top - contentRect.height - offset;
-            left = triggerRect.left + (triggerRect.width - contentRect.width) / 2;
-            break;
-        case 'top-start':
-            top = triggerRect.top - contentRect.height - offset;
-            left = triggerRect.left;
-            break;
-        case 'top-end':
-            top = triggerRect.top - contentRect.height - offset;
-            left = triggerRect.right - contentRect.width;
-            break;
-        case 'bottom':
-            top = triggerRect.bottom + offset;
-            left = triggerRect.left + (triggerRect.width - contentRect.width) / 2;
-            break;
-        case 'bottom-start':
-            top = triggerRect.bottom + offset;
-            left = triggerRect.left;
-            break;
-        case 'bottom-end':
-            top = triggerRect.bottom + offset;
-            left = triggerRect.right - contentRect.width;
-            break;
-        case 'left':
-            top = triggerRect.top + (triggerRect.height - contentRect.height) / 2;
-            left = triggerRect.left - contentRect.width - offset;
-            break;
-        case 'left-start':
-            top = triggerRect.top;
-            left = triggerRect.left - contentRect.width - offset;
-            break;
-        case 'left-end':
-            top = triggerRect.bottom - contentRect.height;
-            left = triggerRect.left - contentRect.width - offset;
-            break;
-        case 'right':
-            top = triggerRect.top + (triggerRect.height - contentRect.height) / 2;
-            left = triggerRect.right + offset;
-            break;
-        case 'right-start':
-            top = triggerRect.top;
-            left = triggerRect.right + offset;
-            break;
-        case 'right-end':
-            top = triggerRect.bottom - contentRect.height;
-            left = triggerRect.right + offset;
-            break;
-    }
-    
-    // Adjust position to keep within viewport
-    top = Math.max(0, Math.min(top, viewport.height - contentRect.height));
-    left = Math.max(0, Math.min(left, viewport.width - contentRect.width));
-    
-    return { top, left, actualPlacement: placementToUse };
 }
 
+/**
+ * Placement the consumer asked for, kept while `placement` holds the one it flipped to
+ */
+const requestedPlacements = new WeakMap<PopoverStateStore, { requested: PopoverPlacement; applied: PopoverPlacement }>();
+
 /**
  * Creates the popover component logic
  * @param state State store to connect to
@@ -154,7 +98,6 @@ export function createPopoverLogic(
     state: PopoverStateStore,
     options: PopoverOptions = {}
 ): LogicLayer<PopoverState, PopoverEvents> {
-    const offset = options.offset ?? 8;
     const closeOnClickOutside = options.closeOnClickOutside ?? true;
     const closeOnEscape = options.closeOnEscape ?? true;
     
@@ -162,6 +105,20 @@ export function createPopoverLogic(
     let documentClickHandler: ((e: MouseEvent) => void) | null = null;
     let documentKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
     
+    // Stops repositioning the content, set while open
+    let stopAutoUpdate: (() => void) | null = null;
+    const stopPositioning = () => {
+        stopAutoUpdate?.();
+        stopAutoUpdate = null;
+    };
+    
+    // Moves focus into the content while open and back to the trigger on close
+    let focusScope: FocusScope | null = null;
+    const releaseFocus = () => {
+        focusScope?.deactivate();
+        focusScope = null;
+    };
+    
     // Create the logic layer using the builder
     const logic = new LogicLayerBuilder<PopoverState, PopoverEvents>()
         .onEvent('openChange', (currentState, payload: any) => {
@@ -179,18 +136,20 @@ export function createPopoverLogic(
                 options.onOpenChange(open);
             }
             
-            // Update position if opening
+            // Keep the content next to the trigger while open
+            stopPositioning();
+            if (!open) {
+                releaseFocus();
+            }
             if (open && currentState.triggerElement && currentState.contentElement) {
-                const position = calculatePosition(
-                    currentState.triggerElement,
-                    currentState.contentElement,
-                    currentState.placement,
-                    offset
-                );
-                
-                // Update placement if it changed
-                if (position.actualPlacement !== currentState.placement) {
-                    state.setPlacement(position.actualPlacement);
+                stopAutoUpdate = autoUpdatePopoverPosition(state, options);
+                if (!focusScope) {
+                    focusScope = createFocusScope(currentState.contentElement, {
+                        trapped: options.trapFocus ?? false,
+                        ...(options.initialFocus !== undefined ? { initialFocus: options.initialFocus } : {}),
+                        finalFocus: options.finalFocus ?? currentState.triggerElement,
+                    });
+                    focusScope.activate();
                 }
             }
             
@@ -217,6 +176,8 @@ export function createPopoverLogic(
         .onEvent('escape', (currentState) => {
             if (closeOnEscape && currentState.open) {
                 state.setOpen(false);
+                stopPositioning();
+                releaseFocus();
                 // Call the callback directly since we're handling the event
                 if (options.onOpenChange) {
                     options.onOpenChange(false);
@@ -227,6 +188,8 @@ export function createPopoverLogic(
         .onEvent('outsideClick', (currentState) => {
             if (closeOnClickOutside && currentState.open) {
                 state.setOpen(false);
+                stopPositioning();
+                releaseFocus();
                 // Call the callback directly since we're handling the event
                 if (options.onOpenChange) {
                     options.onOpenChange(false);
@@ -350,6 +313,8 @@ export function createPopoverLogic(
     const originalCleanup = logic.cleanup;
     logic.cleanup = (): void => {
         originalCleanup();
+        stopPositioning();
+        releaseFocus();
         if (cleanupFn) {
             cleanupFn();
         }
@@ -364,30 +329,71 @@ export function createPopoverLogic(
  */
 export function updatePopoverPosition(
     state: PopoverStateStore,
-    offset: number = 8
+    offset: number = 8,
+    arrowElement: HTMLElement | null = null
 ): void {
     const currentState = state.getState();
     if (!currentState.open || !currentState.triggerElement || !currentState.contentElement) {
         return;
     }
     
+    // Start from the requested placement, so the popover can flip back
+    const entry = requestedPlacements.get(state);
+    const requested = entry && entry.applied === currentState.placement ? entry.requested : currentState.placement;
+    
     const position = calculatePosition(
         currentState.triggerElement,
         currentState.contentElement,
-        currentState.placement,
-        offset
+        requested,
+        offset,
+        arrowElement
     );
     
-    // Apply position to content element
+    // Apply position to content element, hidden while the trigger is scrolled out of view
     Object.assign(currentState.contentElement.style, {
         position: 'fixed',
         top: `${position.top}px`,
         left: `${position.left}px`,
-        zIndex: '1000'
+        zIndex: '1000',
+        visibility: position.referenceHidden ? 'hidden' : ''
     });
+    currentState.contentElement.setAttribute('data-placement', position.actualPlacement);
+    
+    if (arrowElement && position.arrow) {
+        Object.assign(arrowElement.style, {
+            left: position.arrow.x !== undefined ? `${position.arrow.x}px` : '',
+            top: position.arrow.y !== undefined ? `${position.arrow.y}px` : ''
+        });
+    }
     
     // Update placement if it changed
     if (position.actualPlacement !== currentState.placement) {
+        requestedPlacements.set(state, { requested, applied: position.actualPlacement });
         state.setPlacement(position.actualPlacement);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Keeps the popover content next to its trigger while the page scrolls or
+ * either element resizes. The popover logic starts it when the popover opens.
+ * @returns Stops updating
+ */
+export function autoUpdatePopoverPosition(
+    state: PopoverStateStore,
+    options: Pick<PopoverOptions, 'offset' | 'onPlacementChange'> & { arrowElement?: HTMLElement | null } = {}
+): () => void {
+    const { triggerElement, contentElement } = state.getState();
+    if (!triggerElement || !contentElement) {
+        return () => {};
+    }
+    
+    return autoUpdate(triggerElement, contentElement, () => {
+        const previousPlacement = state.getState().placement;
+        updatePopoverPosition(state, options.offset ?? 8, options.arrowElement ?? null);
+        
+        const placement = state.getState().placement;
+        if (placement !== previousPlacement && options.onPlacementChange) {
+            options.onPlacementChange(placement);
+        }
+    });
+}
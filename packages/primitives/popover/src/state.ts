@@ -6,9 +6,18 @@
  * store.setState((prev: any) => ({ ...prev, field: value }))
  */
 
-import { createStore } from '@stellarix-ui/core';
+import { createStore, type SnapshotFormat, type StoreSelection } from '@stellarix-ui/core';
 import type { PopoverState, PopoverOptions, PopoverPlacement } from './types';
 
+/**
+ * Snapshot format of the popover state.
+ * Trigger and content elements are DOM references and stay on the client.
+ */
+export const popoverSnapshotFormat: SnapshotFormat<PopoverState> = {
+    triggerElement: false,
+    contentElement: false,
+};
+
 /**
  * Default state values
  */
@@ -28,6 +37,7 @@ export interface PopoverStateStore {
     getState: () => PopoverState;
     setState: (updater: PopoverState | ((prev: PopoverState) => PopoverState)) => void;
     subscribe: (listener: (state: PopoverState) => void) => () => void;
+    select: <U>(selector: (state: PopoverState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     
     // Convenience methods for updating state
     setOpen: (open: boolean) => void;
@@ -3,6 +3,8 @@
  * Define all TypeScript interfaces for the component
  */
 
+import type { FocusTarget } from '@stellarix-ui/utils';
+
 /**
  * Popover placement options
  */
@@ -100,6 +102,24 @@ export interface PopoverOptions {
      */
     closeOnEscape?: boolean;
     
+    /**
+     * Whether Tab stays inside the content while open
+     * @default false
+     */
+    trapFocus?: boolean;
+    
+    /**
+     * Element focused when the popover opens; `false` keeps focus on the trigger
+     * @default The first tabbable element, or the content
+     */
+    initialFocus?: FocusTarget | false;
+    
+    /**
+     * Element focused when the popover closes, unless focus already moved elsewhere
+     * @default The trigger element
+     */
+    finalFocus?: FocusTarget;
+    
     /**
      * ID attribute for the popover
      */
@@ -194,4 +214,17 @@ export interface PopoverPosition {
     top: number;
     left: number;
     actualPlacement: PopoverPlacement;
+    
+    /**
+     * Offset of the arrow inside the content, when an arrow element is given
+     */
+    arrow?: {
+        x?: number | undefined;
+        y?: number | undefined;
+    };
+    
+    /**
+     * Whether the trigger is scrolled out of view
+     */
+    referenceHidden: boolean;
 }
\ No newline at end of file
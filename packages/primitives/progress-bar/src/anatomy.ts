@@ -0,0 +1,67 @@
+/**
+ * ProgressBar Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { ProgressBarState } from './types';
+
+const variantColors = {
+    default: '#3b82f6',
+    success: '#22c55e',
+    warning: '#f59e0b',
+    error: '#ef4444',
+    info: '#06b6d4',
+};
+
+/**
+ * Percentage of the max the value reaches, between 0 and 100
+ */
+const getPercentage = (state: ProgressBarState) =>
+    state.max > 0 ? Math.min(100, Math.max(0, Math.round((state.value / state.max) * 100))) : 0;
+
+/**
+ * A track with the indicator filling it, and the optional label.
+ * The `formatLabel` prop formats the label.
+ */
+export const progressBarAnatomy: ComponentAnatomy<ProgressBarState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: ({ state }) => ({
+                'data-variant': state.variant,
+                'data-state': state.isIndeterminate ? 'indeterminate' : getPercentage(state) === 100 ? 'complete' : 'loading',
+                style: { display: 'flex', alignItems: 'center', gap: '8px', opacity: state.disabled ? 0.5 : 1 },
+            }),
+        },
+        track: {
+            element: 'div',
+            props: () => ({
+                style: { flex: '1', height: '8px', overflow: 'hidden', borderRadius: '4px', backgroundColor: '#e5e7eb' },
+            }),
+        },
+        indicator: {
+            element: 'div',
+            parent: 'track',
+            props: ({ state }) => ({
+                style: {
+                    width: state.isIndeterminate ? '30%' : `${getPercentage(state)}%`,
+                    height: '100%',
+                    backgroundColor: variantColors[state.variant] ?? variantColors.default,
+                    transition: 'width 0.2s ease',
+                },
+            }),
+        },
+        label: {
+            element: 'span',
+            when: ({ state }) => state.showLabel && !state.isIndeterminate,
+            text: ({ state, props }) => props.formatLabel
+                ? props.formatLabel(state.value, getPercentage(state))
+                : `${getPercentage(state)}%`,
+            props: () => ({ 'aria-hidden': 'true' }),
+        },
+    },
+    bindings: {
+        value: 'value',
+    },
+};
@@ -5,6 +5,7 @@
 
 import { createProgressBarState } from './state';
 import { createProgressBarLogic } from './logic';
+import { progressBarAnatomy } from './anatomy';
 import type { ProgressBarOptions, ProgressBarState, ProgressBarEvents } from './types';
 import type { ComponentCore } from '@stellarix-ui/core';
 import type { ProgressBarStateStore } from './state';
@@ -50,6 +51,7 @@ export function createProgressBar(
     return {
         state,
         logic,
+        anatomy: progressBarAnatomy,
         metadata: {
             name: 'ProgressBar',
             version: '1.0.0',
@@ -123,6 +125,7 @@ export type {
 } from './types';
 
 export type { ProgressBarStateStore } from './state';
+export { progressBarAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createProgressBar;
\ No newline at end of file
@@ -9,12 +9,8 @@ import type { ProgressBarOptions } from './types';
 describe('ProgressBar State', () => {
     it('should create state with default values', () => {
         const state = createProgressBarState();
-        const listener = vi.fn();
-        
-        state.subscribe(listener);
-        state.setValue(0);
         
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        expect(state.getState()).toEqual(expect.objectContaining({
             value: 0,
             max: 100,
             variant: 'default',
@@ -35,12 +31,8 @@ describe('ProgressBar State', () => {
         };
         
         const state = createProgressBarState(options);
-        const listener = vi.fn();
         
-        state.subscribe(listener);
-        state.setValue(50);
-        
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        expect(state.getState()).toEqual(expect.objectContaining({
             value: 50,
             max: 200,
             variant: 'success',
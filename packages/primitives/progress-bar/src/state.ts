@@ -3,7 +3,7 @@
  * Manages progress value, variant, and display state
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { ProgressBarState, ProgressBarOptions } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface ProgressBarStateStore {
     getState: () => ProgressBarState;
     setState: (updater: (prev: ProgressBarState) => ProgressBarState) => void;
     subscribe: (listener: (state: ProgressBarState) => void) => () => void;
+    select: <U>(selector: (state: ProgressBarState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: ProgressBarState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -0,0 +1,34 @@
+/**
+ * Radio Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { RadioOptions, RadioState } from './types';
+
+/**
+ * Creates the render contract of a radio
+ * @param options Component options; the id becomes a form attribute
+ * @returns Radio anatomy
+ */
+export function createRadioAnatomy(options: Partial<RadioOptions> = {}): ComponentAnatomy<RadioState> {
+    return {
+        parts: {
+            root: {
+                element: 'input',
+                props: ({ state, props }) => ({
+                    type: 'radio',
+                    checked: state.checked,
+                    disabled: state.disabled || undefined,
+                    required: state.required || undefined,
+                    name: props.name ?? state.name,
+                    id: props.id ?? options.id,
+                    value: props.value ?? state.value,
+                }),
+            },
+        },
+        bindings: {
+            checked: 'checked',
+        },
+    };
+}
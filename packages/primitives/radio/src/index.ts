@@ -15,18 +15,21 @@ export type {
 export { createRadioState } from './state';
 export type { RadioStateStore } from './state';
 export { createRadioLogic } from './logic';
+export { createRadioAnatomy } from './anatomy';
 
 // Export the main factory function
+import { createPrimitive } from '@stellarix-ui/core';
 import { createRadioState } from './state';
 import { createRadioLogic } from './logic';
+import { createRadioAnatomy } from './anatomy';
 import type { RadioOptions, RadioState, RadioEvents } from './types';
 import type { RadioStateStore } from './state';
-import type { LogicLayer } from '@stellarix-ui/core';
+import type { ComponentCore, LogicLayer } from '@stellarix-ui/core';
 
 /**
  * Component core interface for Radio
  */
-export interface RadioCore {
+export interface RadioCore extends ComponentCore<RadioState, RadioEvents> {
     state: RadioStateStore;
     logic: LogicLayer<RadioState, RadioEvents>;
     options: RadioOptions;
@@ -38,13 +41,47 @@ export interface RadioCore {
  * @returns Component core ready for framework adapter connection
  */
 export function createRadio(options: RadioOptions): RadioCore {
+    const core = createPrimitive<RadioState, RadioEvents, RadioOptions>('Radio', {
+        initialState: options,
+        logicConfig: options,
+        anatomy: createRadioAnatomy(options),
+        metadata: {
+            accessibility: {
+                role: 'radio',
+                keyboardShortcuts: ['Space'],
+                ariaAttributes: ['aria-checked', 'aria-disabled', 'aria-required', 'aria-invalid', 'aria-describedby'],
+                wcagLevel: 'AA',
+                patterns: ['radio']
+            },
+            events: {
+                supported: ['change', 'focus', 'blur', 'keydown'],
+                required: [],
+                custom: {}
+            },
+            structure: {
+                elements: {
+                    'root': {
+                        type: 'input',
+                        role: 'radio',
+                        optional: false
+                    }
+                }
+            }
+        }
+    });
+    
     // Create state store
     const state = createRadioState(options);
     
     // Create logic layer
     const logic = createRadioLogic(state, options);
     
+    // Connect and initialize the logic
+    logic.connect(state);
+    logic.initialize();
+    
     return {
+        ...core,
         state,
         logic,
         options,
@@ -18,10 +18,8 @@ describe('Radio State', () => {
         const listener = vi.fn();
         
         state.subscribe(listener);
-        state.setChecked(false); // Trigger subscription
         
-        // Radio state has the same issue as checkbox - only partial updates
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             checked: false,
             disabled: false,
             focused: false,
@@ -32,32 +30,11 @@ describe('Radio State', () => {
             value: 'test-value'
         });
         
-        // Verify other properties through individual updates
-        listener.mockClear();
+        // Setting the defaults changes nothing
+        state.setChecked(false);
         state.setDisabled(false);
-        expect(listener).toHaveBeenCalledWith({
-            checked: false,
-            disabled: false,
-            focused: false,
-            required: false,
-            error: false,
-            errorMessage: undefined,
-            name: 'test-group',
-            value: 'test-value'
-        });
-        
-        listener.mockClear();
         state.setRequired(false);
-        expect(listener).toHaveBeenCalledWith({
-            checked: false,
-            disabled: false,
-            focused: false,
-            required: false,
-            error: false,
-            errorMessage: undefined,
-            name: 'test-group',
-            value: 'test-value'
-        });
+        expect(listener).not.toHaveBeenCalled();
     });
 
     it('should create initial state with custom options', () => {
@@ -73,9 +50,8 @@ describe('Radio State', () => {
         const listener = vi.fn();
         
         state.subscribe(listener);
-        state.setChecked(true); // Trigger subscription
         
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             checked: true,
             disabled: true,
             focused: false,
@@ -86,32 +62,11 @@ describe('Radio State', () => {
             value: 'custom-value'
         });
         
-        // Verify other properties through individual updates
-        listener.mockClear();
+        // Setting the initial options changes nothing
+        state.setChecked(true);
         state.setDisabled(true);
-        expect(listener).toHaveBeenCalledWith({
-            checked: true,
-            disabled: true,
-            focused: false,
-            required: true,
-            error: false,
-            errorMessage: undefined,
-            name: 'custom-group',
-            value: 'custom-value'
-        });
-        
-        listener.mockClear();
         state.setRequired(true);
-        expect(listener).toHaveBeenCalledWith({
-            checked: true,
-            disabled: true,
-            focused: false,
-            required: true,
-            error: false,
-            errorMessage: undefined,
-            name: 'custom-group',
-            value: 'custom-value'
-        });
+        expect(listener).not.toHaveBeenCalled();
     });
 
     it('should update checked state', () => {
@@ -632,17 +587,11 @@ describe('Radio Integration', () => {
         
         const state = createRadioState(options);
         const logic = createRadioLogic(state, options);
-        const listener = vi.fn();
         
         expect(state).toBeDefined();
         expect(logic).toBeDefined();
         
-        // Verify state through subscription
-        state.subscribe(listener);
-        state.setChecked(true); // Trigger subscription
-        
-        // Radio state has the same issue - only partial updates
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             checked: true,
             disabled: false,
             focused: false,
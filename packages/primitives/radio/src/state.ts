@@ -13,7 +13,7 @@
  * - ALWAYS use function updater with spread operator
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { RadioState, RadioOptions } from './types';
 
 /**
@@ -24,6 +24,7 @@ export interface RadioStateStore {
     getState: () => RadioState;
     setState: (updates: Partial<RadioState>) => void;
     subscribe: (listener: (state: RadioState) => void) => () => void;
+    select: <U>(selector: (state: RadioState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: RadioState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -13,6 +13,23 @@ import type { SelectOption } from './src/types';
 const select = createSelectWithImplementation();
 const Select = select.connect(reactAdapter);
 
+// Multiple mode is chosen when the select is created
+const MultipleSelect = createSelectWithImplementation({
+  multiple: true,
+  clearable: true,
+  maxSelections: 5,
+}).connect(reactAdapter);
+
+// Groups are disabled when the select is created, or later with setGroupDisabled
+const GroupDisabledSelect = createSelectWithImplementation({
+  disabledGroups: ['Exotic Fruits'],
+}).connect(reactAdapter);
+
+// Virtualization is chosen when the select is created
+const VirtualizedSelect = createSelectWithImplementation({
+  virtualize: { itemSize: 36, viewportSize: 200, overscan: 5 },
+}).connect(reactAdapter);
+
 // Sample data for stories
 const basicOptions: SelectOption[] = [
   { value: 'apple', label: 'Apple' },
@@ -185,20 +202,18 @@ export const Searchable: Story = {
   },
 };
 
-// Multi-Select
+// Multi-Select: options toggle and the dropdown stays open; Shift+Arrow selects
+// a range, Ctrl+A selects everything, and tags remove single options
 export const MultiSelect: Story = {
   args: {
-    multiple: true,
-    searchable: true,
-    clearable: true,
-    placeholder: 'Select multiple fruits...',
+    placeholder: 'Select up to 5 fruits...',
   },
   render: (args) => {
     const [values, setValues] = useState<string[]>([]);
     
     return (
       <div>
-        <Select 
+        <MultipleSelect 
           {...args}
           value={values}
           onChange={(val) => {
@@ -245,6 +260,15 @@ export const Grouped: Story = {
   },
 };
 
+// A disabled group: its options are shown but cannot be highlighted by typing or selected
+export const DisabledGroup: Story = {
+  args: {
+    options: groupedOptions,
+    placeholder: 'Exotic fruits are out of season...',
+  },
+  render: (args) => <GroupDisabledSelect {...args} />,
+};
+
 // State Variations
 export const Disabled: Story = {
   args: {
@@ -559,6 +583,22 @@ export const ManyOptions: Story = {
   },
 };
 
+// Only the options in view render; arrow keys scroll the highlighted option into view
+export const Virtualized: Story = {
+  render: (args) => (
+    <VirtualizedSelect
+      {...args}
+      options={Array.from({ length: 10000 }, (_, i) => ({
+        value: `option-${i}`,
+        label: `Option ${i + 1}`,
+        group: i < 5000 ? 'First half' : 'Second half',
+      }))}
+      searchable
+      placeholder="Select from 10,000 options..."
+    />
+  ),
+};
+
 export const LongLabels: Story = {
   args: {
     options: [
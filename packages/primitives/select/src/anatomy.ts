@@ -0,0 +1,274 @@
+/**
+ * Select Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { AnatomyContext, ComponentAnatomy } from '@stellarix-ui/core';
+import { getRenderedGroups } from '@stellarix-ui/utils';
+import type { SelectOption, SelectOptions, SelectState } from './types';
+import { getRenderedRange, getSelectedValues, isOptionDisabled } from './state';
+
+/**
+ * Creates the render contract of a select: a trigger button showing the
+ * selected label (or a search box while open), and a listbox of options.
+ * Grouped options render in labelled groups after the ungrouped ones.
+ * When virtualized, only the options in the virtual window render, with
+ * padding standing in for the others.
+ * In multiple mode the trigger shows a removable tag per selected option.
+ * @param options Component options; `searchable` and `clearable` can also be passed as props
+ * @returns Select anatomy
+ */
+export function createSelectAnatomy(options: SelectOptions = {}): ComponentAnatomy<SelectState> {
+    const isSearchable = ({ props }: AnatomyContext<SelectState>) => Boolean(props.searchable || options.searchable);
+    const isClearable = ({ props }: AnatomyContext<SelectState>) => Boolean(props.clearable || options.clearable);
+
+    const getSelectedLabel = (state: SelectState) =>
+        getSelectedValues(state)
+            .map(value => state.options.find(option => option.value === value)?.label)
+            .filter(Boolean)
+            .join(', ') || undefined;
+    const listboxHeight = typeof options.virtualize === 'object' ? options.virtualize.viewportSize ?? 200 : 200;
+    const showsTags = (state: SelectState) => state.multiple && getSelectedValues(state).length > 0;
+    const getOptionStyle = (state: SelectState, option: SelectOption, index: number) => ({
+        padding: '8px 12px',
+        cursor: isOptionDisabled(state, option) ? 'not-allowed' : 'pointer',
+        backgroundColor: index === state.highlightedIndex
+            ? '#f0f0f0'
+            : getSelectedValues(state).includes(option.value) ? '#e6f3ff' : 'white',
+        color: isOptionDisabled(state, option) ? '#999' : 'black',
+        borderBottom: index < state.filteredOptions.length - 1 ? '1px solid #f0f0f0' : 'none',
+    });
+
+    return {
+        parts: {
+            root: {
+                element: 'div',
+                props: () => ({
+                    style: { position: 'relative', display: 'inline-block' },
+                }),
+            },
+            trigger: {
+                element: 'button',
+                props: ({ state, props, a11y }) => {
+                    const selectedLabel = getSelectedLabel(state);
+
+                    return {
+                        type: 'button',
+                        'aria-controls': a11y('listbox').id,
+                        'aria-label': props['aria-label']
+                            || (selectedLabel ? `Selected: ${selectedLabel}` : state.placeholder || 'Select an option'),
+                        'aria-labelledby': props['aria-labelledby'],
+                        'aria-describedby': props['aria-describedby'],
+                        disabled: state.disabled || undefined,
+                        className: `${props.className || ''} select-trigger`,
+                        style: {
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'space-between',
+                            padding: '8px 12px',
+                            border: '1px solid #ccc',
+                            borderRadius: '4px',
+                            backgroundColor: state.disabled ? '#f5f5f5' : 'white',
+                            cursor: state.disabled ? 'not-allowed' : 'pointer',
+                            minWidth: '200px',
+                        },
+                    };
+                },
+            },
+            search: {
+                element: 'input',
+                parent: 'trigger',
+                when: context => isSearchable(context) && context.state.open,
+                props: ({ state, dispatch }) => ({
+                    type: 'search',
+                    role: 'searchbox',
+                    placeholder: getSelectedLabel(state) || state.placeholder || 'Search options...',
+                    value: state.searchQuery || '',
+                    onChange: (event: any) => dispatch('search', { query: event.target.value }),
+                    style: {
+                        border: 'none',
+                        outline: 'none',
+                        background: 'transparent',
+                        flex: 1,
+                        minWidth: 0,
+                    },
+                }),
+            },
+            value: {
+                element: 'span',
+                parent: 'trigger',
+                when: context => !(isSearchable(context) && context.state.open) && !showsTags(context.state),
+                text: ({ state }) => getSelectedLabel(state) || state.placeholder || 'Select an option',
+            },
+            tag: {
+                element: 'span',
+                parent: 'trigger',
+                items: ({ state }) => state.multiple
+                    ? getSelectedValues(state).map(value =>
+                        state.options.find(option => option.value === value) ?? { value, label: value })
+                    : [],
+                key: ({ item }) => item.value,
+                props: () => ({
+                    style: {
+                        display: 'inline-flex',
+                        alignItems: 'center',
+                        gap: '4px',
+                        padding: '0 6px',
+                        marginRight: '4px',
+                        borderRadius: '4px',
+                        backgroundColor: '#e6f3ff',
+                    },
+                }),
+            },
+            tagLabel: {
+                element: 'span',
+                parent: 'tag',
+                text: ({ item }) => item.label,
+            },
+            tagRemove: {
+                element: 'span',
+                parent: 'tag',
+                text: () => '×',
+                // The remove handler reads the tag value from the event
+                event: ({ item }) => ({ tagValue: item.value }),
+                props: ({ item }) => ({
+                    role: 'button',
+                    tabIndex: -1,
+                    'aria-label': `Remove ${item.label}`,
+                    style: { cursor: 'pointer' },
+                }),
+            },
+            clear: {
+                element: 'span',
+                parent: 'trigger',
+                when: context => isClearable(context) && getSelectedValues(context.state).length > 0,
+                text: () => '×',
+                props: () => ({
+                    role: 'button',
+                    tabIndex: 0,
+                    'aria-label': 'Clear selection',
+                    style: {
+                        background: 'none',
+                        border: 'none',
+                        padding: '2px',
+                        cursor: 'pointer',
+                        marginLeft: '8px',
+                        display: 'inline-block',
+                    },
+                }),
+            },
+            arrow: {
+                element: 'span',
+                parent: 'trigger',
+                text: () => '▼',
+                props: ({ state }) => ({
+                    'aria-hidden': 'true',
+                    style: {
+                        marginLeft: '8px',
+                        transform: state.open ? 'rotate(180deg)' : 'rotate(0deg)',
+                        transition: 'transform 0.2s',
+                    },
+                }),
+            },
+            listbox: {
+                element: 'ul',
+                when: ({ state }) => state.open && state.filteredOptions.length > 0,
+                props: ({ state }) => ({
+                    style: {
+                        position: 'absolute',
+                        top: '100%',
+                        left: 0,
+                        right: 0,
+                        backgroundColor: 'white',
+                        border: '1px solid #ccc',
+                        borderTop: 'none',
+                        borderRadius: '0 0 4px 4px',
+                        maxHeight: `${listboxHeight}px`,
+                        overflowY: 'auto',
+                        listStyle: 'none',
+                        margin: 0,
+                        padding: 0,
+                        zIndex: 1000,
+                        // The options outside the virtual window take up their space as padding
+                        ...(state.virtualWindow ? {
+                            paddingTop: `${state.virtualWindow.paddingStart}px`,
+                            paddingBottom: `${state.virtualWindow.paddingEnd}px`,
+                        } : {}),
+                    },
+                }),
+            },
+            option: {
+                element: 'li',
+                parent: 'listbox',
+                // Ungrouped options come first in filteredOptions
+                items: ({ state }) => {
+                    const { startIndex, endIndex } = getRenderedRange(state);
+                    return state.filteredOptions.slice(startIndex, endIndex).filter(option => option.group === undefined);
+                },
+                key: ({ item }) => item.value,
+                text: ({ item }) => item.label,
+                a11yArgument: ({ state, index = 0 }) => getRenderedRange(state).startIndex + index,
+                // Option handlers read the option position from the event
+                event: ({ state, index = 0 }) => ({ optionIndex: getRenderedRange(state).startIndex + index }),
+                props: ({ state, item, index = 0 }) => ({
+                    'data-index': state.virtualWindow ? getRenderedRange(state).startIndex + index : undefined,
+                    style: getOptionStyle(state, item, getRenderedRange(state).startIndex + index),
+                }),
+            },
+            group: {
+                element: 'li',
+                parent: 'listbox',
+                items: ({ state }) => {
+                    const { startIndex, endIndex } = getRenderedRange(state);
+                    return getRenderedGroups(state.filteredOptions, option => option.group, startIndex, endIndex);
+                },
+                key: ({ item }) => item.label,
+                a11yArgument: ({ item }) => item.index,
+            },
+            groupLabel: {
+                element: 'div',
+                parent: 'group',
+                // A group continued from above the virtual window is labelled by aria-label
+                when: ({ item }) => !item.continued,
+                a11yArgument: ({ item }) => item.index,
+                text: ({ item }) => item.label,
+                props: () => ({
+                    role: 'presentation',
+                    style: {
+                        padding: '6px 12px',
+                        fontSize: '0.75em',
+                        fontWeight: 600,
+                        textTransform: 'uppercase',
+                        color: '#666',
+                    },
+                }),
+            },
+            groupList: {
+                element: 'ul',
+                parent: 'group',
+                props: () => ({
+                    role: 'none',
+                    style: { listStyle: 'none', margin: 0, padding: 0 },
+                }),
+            },
+            groupOption: {
+                element: 'li',
+                parent: 'groupList',
+                items: ({ item }) => item.items,
+                key: ({ item }) => item.value,
+                text: ({ item }) => item.label,
+                // Grouped options keep their position in filteredOptions
+                a11yArgument: ({ parent, index = 0 }) => parent!.item.startIndex + index,
+                event: ({ parent, index = 0 }) => ({ optionIndex: parent!.item.startIndex + index }),
+                props: ({ state, parent, item, index = 0 }) => ({
+                    'data-index': state.virtualWindow ? parent!.item.startIndex + index : undefined,
+                    style: getOptionStyle(state, item, parent!.item.startIndex + index),
+                }),
+            },
+        },
+        bindings: {
+            value: 'value',
+            options: 'options',
+        },
+    };
+}
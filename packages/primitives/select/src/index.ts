@@ -3,8 +3,9 @@
  * Ultra-generic dropdown select component with search and keyboard navigation
  */
 
-import { createSelectState } from './state';
+import { createSelectState, getSelectedValues, isOptionDisabled } from './state';
 import { createSelectLogic } from './logic';
+import { createSelectAnatomy } from './anatomy';
 import type { ComponentCore } from '@stellarix-ui/core';
 import type { 
     SelectState, 
@@ -55,28 +56,47 @@ export function createSelect(
         },
         
         /**
-         * Select an option
+         * Select an option; toggles it in multiple mode
          */
         selectOption(value: string): void {
             const currentState = state.getState();
             const option = currentState.options.find(opt => opt.value === value);
             
-            if (option && !option.disabled) {
+            if (!option) return;
+            
+            if (options.multiple) {
+                logic.handleEvent('optionSelect', { option });
+            } else if (!isOptionDisabled(currentState, option)) {
                 state.setValue(value);
-                if (options.onChange) {
-                    options.onChange(value, option);
-                }
+                options.onChange?.(value, option);
             }
         },
         
+        /**
+         * Remove an option from the selection
+         */
+        removeOption(value: string): void {
+            logic.handleEvent('optionRemove', { value });
+        },
+        
+        /**
+         * Select every enabled option
+         */
+        selectAll(): void {
+            logic.handleEvent('selectAll', null);
+        },
+        
         /**
          * Clear the selection
          */
         clear(): void {
-            state.clearSelection();
-            if (options.onChange) {
-                options.onChange(null, null);
+            if (options.multiple) {
+                logic.handleEvent('clearAll', null);
+                return;
             }
+            
+            state.clearSelection();
+            options.onChange?.(null, null);
         },
         
         /**
@@ -102,15 +122,21 @@ export function createSelect(
          * Get the currently selected option
          */
         getSelectedOption() {
-            const currentState = state.getState();
-            return currentState.options.find(opt => opt.value === currentState.value) || null;
+            return state.selectedOption.get();
+        },
+        
+        /**
+         * Get every selected option
+         */
+        getSelectedOptions() {
+            return state.selectedOptions.get();
         },
         
         /**
          * Check if an option is selected
          */
         isOptionSelected(value: string): boolean {
-            return state.getState().value === value;
+            return getSelectedValues(state.getState()).includes(value);
         },
         
         /**
@@ -119,6 +145,13 @@ export function createSelect(
         getFilteredOptions() {
             const currentState = state.getState();
             return currentState.filteredOptions || currentState.options;
+        },
+        
+        /**
+         * Disable or enable every option of a group
+         */
+        setGroupDisabled(group: string, disabled: boolean): void {
+            state.setGroupDisabled(group, disabled);
         }
     };
     
@@ -132,12 +165,12 @@ export function createSelect(
             accessibility: {
                 role: 'combobox',
                 wcagLevel: 'AA',
-                patterns: ['combobox', 'listbox', 'option'],
-                keyboardShortcuts: ['Enter', 'Space', 'ArrowDown', 'ArrowUp', 'Home', 'End', 'Escape', 'Tab'],
-                ariaAttributes: ['aria-expanded', 'aria-haspopup', 'aria-controls', 'aria-activedescendant', 'aria-disabled', 'aria-readonly'],
+                patterns: ['combobox', 'listbox', 'option', 'group'],
+                keyboardShortcuts: ['Enter', 'Space', 'ArrowDown', 'ArrowUp', 'Home', 'End', 'Escape', 'Tab', 'Shift+ArrowDown', 'Shift+ArrowUp', 'Ctrl+A'],
+                ariaAttributes: ['aria-expanded', 'aria-haspopup', 'aria-controls', 'aria-activedescendant', 'aria-disabled', 'aria-readonly', 'aria-multiselectable', 'aria-labelledby'],
             },
             events: {
-                supported: ['change', 'open', 'close', 'focus', 'blur', 'search', 'optionSelect', 'navigate'],
+                supported: ['change', 'open', 'close', 'focus', 'blur', 'search', 'optionSelect', 'optionRemove', 'selectAll', 'clearAll', 'navigate'],
                 required: [],
                 custom: {},
             },
@@ -147,10 +180,13 @@ export function createSelect(
                     trigger: { type: 'button', role: 'button', optional: false },
                     listbox: { type: 'ul', role: 'listbox', optional: false },
                     option: { type: 'li', role: 'option', optional: false },
+                    group: { type: 'li', role: 'group', optional: true },
                     clear: { type: 'button', role: 'button', optional: true },
+                    tag: { type: 'span', optional: true },
                 },
             },
         },
+        anatomy: createSelectAnatomy(options),
         connect: function <TFrameworkComponent>(adapter: any): TFrameworkComponent {
             return adapter.createComponent(this);
         },
@@ -170,13 +206,18 @@ export const createSelectFactory = createSelect;
 // Re-export types
 export type {
     SelectState,
+    SingleSelectState,
+    MultipleSelectState,
     SelectEvents,
     SelectOptions,
+    SingleSelectOptions,
+    MultipleSelectOptions,
     SelectOption,
     SelectProps,
     SelectHelpers
 } from './types';
 
 // Re-export state and logic creators for advanced use cases
-export { createSelectState } from './state';
-export { createSelectLogic } from './logic';
\ No newline at end of file
+export { createSelectState, getSelectedValues, isOptionDisabled } from './state';
+export { createSelectLogic, autoUpdateSelectPosition } from './logic';
+export { createSelectAnatomy } from './anatomy';
\ No newline at end of file
@@ -5,7 +5,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createSelectState } from './state.js';
-import { createSelectLogic } from './logic.js';
+import { createSelectLogic, autoUpdateSelectPosition } from './logic.js';
 import type { SelectOption } from './types.js';
 
 describe('Select Logic', () => {
@@ -494,6 +494,30 @@ describe('Select Logic', () => {
             expect(listener).not.toHaveBeenCalled();
         });
 
+        it('should not select an option when the click carries no index', () => {
+            const interactions = logic.getInteractionHandlers('option');
+            
+            const listener = vi.fn();
+            state.subscribe(listener);
+            listener.mockClear();
+
+            interactions.onClick({});
+            interactions.onMouseEnter({});
+
+            expect(options.onChange).not.toHaveBeenCalled();
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('should read the option index from data-index', () => {
+            const interactions = logic.getInteractionHandlers('option');
+            const option = document.createElement('li');
+            option.dataset.index = '1';
+
+            interactions.onClick({ currentTarget: option });
+
+            expect(options.onChange).toHaveBeenCalledWith('banana', mockOptions[1]);
+        });
+
         it('should handle option mouse enter', () => {
             const interactions = logic.getInteractionHandlers('option');
             const mockEvent = { optionIndex: 1 };
@@ -602,4 +626,313 @@ describe('Select Logic', () => {
             expect(options.onBlur).toHaveBeenCalledWith(mockEvent);
         });
     });
-});
\ No newline at end of file
+
+    describe('Multiple Selection', () => {
+        const setupMultiple = (extra: Record<string, any> = {}) => {
+            const multipleOptions = { multiple: true, onChange: vi.fn(), ...extra };
+            const multipleState = createSelectState({ options: mockOptions, ...multipleOptions });
+            const multipleLogic = createSelectLogic(multipleState, multipleOptions);
+            multipleLogic.connect(multipleState);
+            multipleLogic.initialize();
+            multipleState.setOpen(true);
+            return { state: multipleState, logic: multipleLogic, onChange: multipleOptions.onChange };
+        };
+
+        const keyDown = (target: ReturnType<typeof createSelectLogic>, key: string, init: Record<string, any> = {}) => {
+            target.getInteractionHandlers('trigger').onKeyDown({ key, preventDefault: vi.fn(), ...init });
+        };
+
+        it('should toggle clicked options and stay open', () => {
+            const { state, logic, onChange } = setupMultiple();
+            const interactions = logic.getInteractionHandlers('option');
+
+            interactions.onClick({ optionIndex: 0 });
+            interactions.onClick({ optionIndex: 3 });
+
+            expect(state.getState().value).toEqual(['apple', 'date']);
+            expect(state.getState().open).toBe(true);
+            expect(onChange).toHaveBeenLastCalledWith(['apple', 'date'], [mockOptions[0], mockOptions[3]]);
+
+            interactions.onClick({ optionIndex: 0 });
+            expect(onChange).toHaveBeenLastCalledWith(['date'], [mockOptions[3]]);
+        });
+
+        it('should toggle the highlighted option with Enter and Space', () => {
+            const { state, logic } = setupMultiple();
+            state.setHighlightedIndex(1);
+
+            keyDown(logic, 'Enter');
+            expect(state.getState().value).toEqual(['banana']);
+
+            keyDown(logic, ' ');
+            expect(state.getState().value).toEqual([]);
+            expect(state.getState().open).toBe(true);
+        });
+
+        it('should extend the selection with Shift+Arrow keys', () => {
+            const { state, logic } = setupMultiple();
+            state.setHighlightedIndex(0);
+            keyDown(logic, 'Enter');
+
+            keyDown(logic, 'ArrowDown', { shiftKey: true });
+            expect(state.getState().value).toEqual(['apple', 'banana']);
+
+            // The disabled cherry is skipped
+            keyDown(logic, 'ArrowDown', { shiftKey: true });
+            keyDown(logic, 'ArrowDown', { shiftKey: true });
+            expect(state.getState().value).toEqual(['apple', 'banana', 'date']);
+        });
+
+        it('should select a range with Shift+click', () => {
+            const { state, logic } = setupMultiple();
+            const interactions = logic.getInteractionHandlers('option');
+
+            interactions.onClick({ optionIndex: 3 });
+            interactions.onClick({ optionIndex: 0, shiftKey: true });
+
+            expect(state.getState().value).toEqual(['date', 'apple', 'banana']);
+        });
+
+        it('should select all with Ctrl+A, then clear all', () => {
+            const { state, logic, onChange } = setupMultiple();
+            const preventDefault = vi.fn();
+
+            keyDown(logic, 'a', { ctrlKey: true, preventDefault });
+            expect(state.getState().value).toEqual(['apple', 'banana', 'date']);
+            expect(preventDefault).toHaveBeenCalled();
+
+            keyDown(logic, 'a', { metaKey: true });
+            expect(state.getState().value).toEqual([]);
+            expect(onChange).toHaveBeenLastCalledWith([], []);
+        });
+
+        it('should respect maxSelections', () => {
+            const { state, logic } = setupMultiple({ maxSelections: 2 });
+            const interactions = logic.getInteractionHandlers('option');
+
+            interactions.onClick({ optionIndex: 0 });
+            interactions.onClick({ optionIndex: 1 });
+            interactions.onClick({ optionIndex: 3 });
+            expect(state.getState().value).toEqual(['apple', 'banana']);
+
+            const option = logic.getA11yProps('option');
+            expect(option(3)['aria-disabled']).toBe(true);
+            expect(option(0)['aria-disabled']).toBe(false);
+
+            logic.handleEvent('selectAll', null);
+            expect(state.getState().value).toEqual(['apple', 'banana']);
+        });
+
+        it('should remove a tag without toggling the dropdown', () => {
+            const { state, logic, onChange } = setupMultiple({ value: ['apple', 'banana'] });
+            const stopPropagation = vi.fn();
+
+            logic.getInteractionHandlers('tagRemove').onClick({ tagValue: 'apple', stopPropagation });
+
+            expect(stopPropagation).toHaveBeenCalled();
+            expect(state.getState().value).toEqual(['banana']);
+            expect(onChange).toHaveBeenCalledWith(['banana'], [mockOptions[1]]);
+        });
+
+        it('should handle optionRemove, selectAll and clearAll events', () => {
+            const { state, logic } = setupMultiple();
+
+            logic.handleEvent('selectAll', null);
+            expect(state.getState().value).toEqual(['apple', 'banana', 'date']);
+
+            logic.handleEvent('optionRemove', { value: 'banana' });
+            expect(state.getState().value).toEqual(['apple', 'date']);
+
+            logic.handleEvent('clearAll', null);
+            expect(state.getState().value).toEqual([]);
+        });
+
+        it('should mark the listbox multiselectable and every selected option', () => {
+            const { logic } = setupMultiple({ value: ['apple', 'date'] });
+
+            expect(logic.getA11yProps('listbox')['aria-multiselectable']).toBe(true);
+            const option = logic.getA11yProps('option');
+            expect(option(0)['aria-selected']).toBe(true);
+            expect(option(1)['aria-selected']).toBe(false);
+            expect(option(3)['aria-selected']).toBe(true);
+        });
+
+        it('should not mark a single select multiselectable', () => {
+            expect(logic.getA11yProps('listbox')['aria-multiselectable']).toBeUndefined();
+        });
+    });
+
+    describe('Groups', () => {
+        const groupedOptions: SelectOption[] = [
+            { value: 'apple', label: 'Apple', group: 'Fruits' },
+            { value: 'banana', label: 'Banana', group: 'Fruits' },
+            { value: 'beet', label: 'Beet', group: 'Vegetables' },
+            { value: 'broccoli', label: 'Broccoli', group: 'Vegetables' }
+        ];
+
+        const setupGroups = (extra: Record<string, any> = {}) => {
+            const groupOptions = { onChange: vi.fn(), ...extra };
+            const groupState = createSelectState({ options: groupedOptions, ...groupOptions });
+            const groupLogic = createSelectLogic(groupState, groupOptions);
+            groupLogic.connect(groupState);
+            groupLogic.initialize();
+            groupState.setOpen(true);
+            return { state: groupState, logic: groupLogic, onChange: groupOptions.onChange };
+        };
+
+        const type = (target: ReturnType<typeof createSelectLogic>, key: string) => {
+            target.getInteractionHandlers('trigger').onKeyDown({ key, preventDefault: vi.fn() });
+        };
+
+        it('should label each group by its header', () => {
+            const { logic } = setupGroups({ disabledGroups: ['Vegetables'] });
+
+            const group = logic.getA11yProps('group');
+            const groupLabel = logic.getA11yProps('groupLabel');
+            expect(group(1)).toEqual({
+                role: 'group',
+                'aria-labelledby': groupLabel(1).id,
+                'aria-disabled': true
+            });
+            expect(group(0)['aria-disabled']).toBeUndefined();
+        });
+
+        it('should give grouped options the props of their position in the list', () => {
+            const { logic } = setupGroups({ disabledGroups: ['Vegetables'] });
+
+            const groupOption = logic.getA11yProps('groupOption');
+            expect(groupOption(1)).toEqual(logic.getA11yProps('option')(1));
+            expect(groupOption(2)['aria-disabled']).toBe(true);
+        });
+
+        it('should not select options of a disabled group', () => {
+            const { state, logic, onChange } = setupGroups({ disabledGroups: ['Vegetables'] });
+
+            logic.getInteractionHandlers('groupOption').onClick({ optionIndex: 2 });
+            expect(onChange).not.toHaveBeenCalled();
+
+            state.setHighlightedIndex(3);
+            type(logic, 'Enter');
+            expect(state.getState().value).toBeNull();
+
+            logic.getInteractionHandlers('groupOption').onClick({ optionIndex: 1 });
+            expect(onChange).toHaveBeenCalledWith('banana', groupedOptions[1]);
+        });
+
+        it('should highlight options by typing, across groups', () => {
+            const { state, logic } = setupGroups();
+            state.setHighlightedIndex(0);
+
+            type(logic, 'b');
+            expect(state.getState().highlightedIndex).toBe(1);
+
+            type(logic, 'b');
+            expect(state.getState().highlightedIndex).toBe(2);
+
+            type(logic, 'b');
+            expect(state.getState().highlightedIndex).toBe(3);
+        });
+
+        it('should skip disabled groups when typing', () => {
+            const { state, logic } = setupGroups({ disabledGroups: ['Fruits'] });
+            state.setHighlightedIndex(-1);
+
+            type(logic, 'b');
+            expect(state.getState().highlightedIndex).toBe(2);
+        });
+    });
+
+    describe('Virtualization', () => {
+        const manyOptions: SelectOption[] = Array.from({ length: 1000 }, (_, index) => ({
+            value: `option-${index}`,
+            label: `Option ${index}`
+        }));
+
+        const setupVirtual = () => {
+            const virtualOptions = { virtualize: { itemSize: 20, viewportSize: 200, overscan: 2 } };
+            const virtualState = createSelectState({ options: manyOptions, ...virtualOptions });
+            const virtualLogic = createSelectLogic(virtualState, virtualOptions);
+            virtualLogic.connect(virtualState);
+            virtualLogic.initialize();
+            return { state: virtualState, logic: virtualLogic };
+        };
+
+        it('should render only the options in view', () => {
+            const { state } = setupVirtual();
+
+            expect(state.getState().virtualWindow).toEqual({
+                startIndex: 0,
+                endIndex: 12,
+                paddingStart: 0,
+                paddingEnd: 988 * 20,
+                totalSize: 20000
+            });
+        });
+
+        it('should move the window with the highlighted option', () => {
+            const { state, logic } = setupVirtual();
+            const keyDown = logic.getInteractionHandlers('trigger').onKeyDown;
+
+            keyDown({ key: 'ArrowDown', preventDefault: vi.fn() });
+            keyDown({ key: 'End', preventDefault: vi.fn() });
+
+            expect(state.getState().highlightedIndex).toBe(999);
+            expect(state.getState().virtualWindow).toEqual(expect.objectContaining({
+                startIndex: 988,
+                endIndex: 1000,
+                paddingEnd: 0
+            }));
+        });
+
+        it('should follow the number of filtered options', () => {
+            const { state } = setupVirtual();
+
+            state.setSearchQuery('Option 99');
+
+            expect(state.getState().virtualWindow).toEqual(expect.objectContaining({
+                endIndex: state.getState().filteredOptions.length,
+                totalSize: state.getState().filteredOptions.length * 20
+            }));
+        });
+
+        it('should give each option its position in the whole list', () => {
+            const { logic } = setupVirtual();
+            const option = logic.getA11yProps('option');
+
+            expect(option(500)['aria-setsize']).toBe(1000);
+            expect(option(500)['aria-posinset']).toBe(501);
+        });
+
+        it('should not set positions when every option renders', () => {
+            const option = logic.getA11yProps('option');
+
+            expect(option(0)['aria-setsize']).toBeUndefined();
+            expect(state.getState().virtualWindow).toBeNull();
+        });
+
+    });
+});
+
+describe('autoUpdateSelectPosition', () => {
+    it('should open the listbox above the trigger when there is no room below', () => {
+        const trigger = document.createElement('button');
+        const listbox = document.createElement('ul');
+        trigger.getBoundingClientRect = () => ({
+            x: 100, y: 600, left: 100, top: 600, right: 250, bottom: 636, width: 150, height: 36,
+            toJSON: () => ({})
+        });
+        // The listbox is 300px tall until its max height applies
+        listbox.getBoundingClientRect = () => {
+            const height = parseFloat(listbox.style.maxHeight) || 300;
+            return { x: 0, y: 0, left: 0, top: 0, right: 150, bottom: height, width: 150, height, toJSON: () => ({}) };
+        };
+        
+        const stop = autoUpdateSelectPosition(trigger, listbox);
+        stop();
+        
+        expect(listbox.getAttribute('data-placement')).toBe('top-start');
+        expect(listbox.style.maxHeight).toBe('200px');
+        expect(listbox.style.minWidth).toBe('150px');
+        expect(listbox.style.top).toBe('400px');
+    });
+});
@@ -3,10 +3,34 @@
  * Handles interactions and business logic for the select component
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
-import { generateComponentId } from '@stellarix-ui/utils';
-import type { SelectState, SelectEvents, SelectOptions } from './types.js';
-import type { SelectStateStore } from './state.js';
+import { LogicLayerBuilder, autoPosition, flip, size, createComponentId, createVirtualizer } from '@stellarix-ui/core';
+import { findTypeaheadIndex, getItemGroups } from '@stellarix-ui/utils';
+import type { SelectState, SelectEvents, SelectOptions, SelectOption } from './types.js';
+import { getSelectedValues, isOptionDisabled, type SelectStateStore } from './state.js';
+
+/**
+ * Event of an option handler; the option parts of the anatomy assign `optionIndex`
+ */
+type OptionEvent = MouseEvent & { optionIndex?: number };
+
+/**
+ * Event of a tag remove handler; the tagRemove part assigns `tagValue`
+ */
+type TagEvent = MouseEvent & { tagValue?: string };
+
+/**
+ * Position in filteredOptions of the option an event belongs to: the index
+ * assigned by the option part, or the `data-index` of the option element.
+ * Null when the event carries neither.
+ */
+function getOptionIndex(event: OptionEvent): number | null {
+    if (typeof event.optionIndex === 'number') {
+        return event.optionIndex;
+    }
+    
+    const dataIndex = (event.currentTarget as HTMLElement | null)?.dataset?.index;
+    return dataIndex ? Number(dataIndex) : null;
+}
 
 /**
  * Creates the logic layer for the select component
@@ -15,18 +39,252 @@ export function createSelectLogic(
     state: SelectStateStore,
     options: SelectOptions = {}
 ) {
-    const componentId = generateComponentId('select');
+    const componentId = createComponentId('select');
     const listboxId = `${componentId}-listbox`;
     const triggerId = `${componentId}-trigger`;
+    const maxSelections = options.maxSelections ?? Infinity;
+    // Option Shift selections extend from, in multiple mode
+    let anchorIndex = -1;
+    // Characters typed in quick succession, to highlight an option by its label
+    let typeahead = '';
+    let typeaheadTime = 0;
+    
+    // Renders only the options in view when virtualized
+    const virtualize = options.virtualize === true ? {} : options.virtualize || null;
+    const virtualizer = virtualize
+        ? createVirtualizer({
+            count: state.getState().filteredOptions.length,
+            itemSize: virtualize.itemSize ?? 36,
+            overscan: virtualize.overscan ?? 3,
+            viewportSize: virtualize.viewportSize ?? 200
+        })
+        : null;
+    let observedListbox: HTMLElement | null = null;
+    let stopObserving: (() => void) | null = null;
+    let syncFrame = 0;
+    const unsubscribers: Array<() => void> = [];
+
+    /**
+     * Follows the scrolling of a listbox. A listbox rendered at scroll offset 0
+     * is scrolled to the offset of the virtualizer instead.
+     */
+    const observeListbox = (listbox: HTMLElement, keepOffset: boolean) => {
+        if (!virtualizer || listbox === observedListbox) return;
+
+        const offset = virtualizer.getScrollOffset();
+        stopObserving?.();
+        stopObserving = virtualizer.observe(listbox);
+        observedListbox = listbox;
+        if (keepOffset) {
+            virtualizer.scrollToOffset(offset);
+        }
+    };
+
+    /**
+     * Once the listbox has rendered, follows it and measures its options
+     */
+    const scheduleVirtualSync = () => {
+        if (!virtualizer || syncFrame || typeof document === 'undefined' || typeof requestAnimationFrame === 'undefined') return;
+
+        syncFrame = requestAnimationFrame(() => {
+            syncFrame = 0;
+            const listbox = document.getElementById(listboxId);
+            if (!listbox) return;
+
+            observeListbox(listbox, true);
+            if (virtualize?.measure) {
+                virtualizer.measureElements(listbox.querySelectorAll('[data-index]'));
+            }
+        });
+    };
+
+    /**
+     * Reports the selection to onChange: the value and option in single mode,
+     * every selected value and option in multiple mode
+     */
+    const reportChange = () => {
+        if (options.multiple) {
+            options.onChange?.(getSelectedValues(state.getState()), state.selectedOptions.get());
+        } else {
+            options.onChange?.(getSelectedValues(state.getState())[0] ?? null, state.selectedOption.get());
+        }
+    };
+
+    /**
+     * Reports the selection to onChange when it differs from `before`
+     */
+    const notifyChange = (before: SelectState) => {
+        if (state.getState().value !== before.value) {
+            reportChange();
+        }
+    };
+
+    const toggleOption = (option: SelectOption, index: number) => {
+        const before = state.getState();
+        if (isOptionDisabled(before, option)) return;
+
+        state.toggleOption(option, maxSelections);
+        anchorIndex = index;
+        notifyChange(before);
+    };
+
+    /**
+     * Selects the enabled options between the anchor and an index
+     */
+    const selectRange = (index: number) => {
+        const before = state.getState();
+        const from = anchorIndex >= 0 ? anchorIndex : index;
+        const values = before.filteredOptions
+            .slice(Math.min(from, index), Math.max(from, index) + 1)
+            .filter(option => !isOptionDisabled(before, option))
+            .map(option => option.value);
+
+        state.addValues(values, maxSelections);
+        notifyChange(before);
+    };
+
+    const selectAll = () => {
+        const before = state.getState();
+        state.addValues(
+            before.filteredOptions.filter(option => !isOptionDisabled(before, option)).map(option => option.value),
+            maxSelections
+        );
+        notifyChange(before);
+    };
+
+    const clearAll = () => {
+        const before = state.getState();
+        state.clearSelection();
+        notifyChange(before);
+    };
+
+    /**
+     * Highlights the next option whose label starts with the typed characters,
+     * across groups
+     */
+    const handleTypeahead = (char: string, currentState: SelectState) => {
+        const now = Date.now();
+        typeahead = now - typeaheadTime < 500 ? typeahead + char : char;
+        typeaheadTime = now;
+        
+        const index = findTypeaheadIndex(
+            currentState.filteredOptions,
+            typeahead,
+            currentState.highlightedIndex,
+            option => option.label,
+            option => isOptionDisabled(currentState, option)
+        );
+        if (index !== -1) {
+            state.setHighlightedIndex(index);
+        }
+    };
+
+    /**
+     * Whether an option cannot be added because maxSelections options are selected
+     */
+    const isAtLimit = (currentState: SelectState, option: SelectOption | undefined) => {
+        const values = getSelectedValues(currentState);
+        return currentState.multiple && Boolean(option) && values.length >= maxSelections && !values.includes(option!.value);
+    };
+
+    // Options inside groups render as their own part and share the option logic
+    const getOptionA11y = (state: SelectState) => (index: number) => ({
+        role: 'option',
+        id: `${componentId}-option-${index}`,
+        // Only part of the options is rendered when virtualized
+        'aria-setsize': state.virtualWindow ? state.filteredOptions.length : undefined,
+        'aria-posinset': state.virtualWindow ? index + 1 : undefined,
+        'aria-selected': state.filteredOptions[index]
+            ? getSelectedValues(state).includes(state.filteredOptions[index].value)
+            : false,
+        'aria-disabled': Boolean(state.filteredOptions[index] && isOptionDisabled(state, state.filteredOptions[index]))
+            || isAtLimit(state, state.filteredOptions[index])
+    });
+
+    const handleOptionClick = (currentState: SelectState, event: OptionEvent) => {
+        const optionIndex = getOptionIndex(event);
+        if (optionIndex !== null && currentState.filteredOptions[optionIndex] && !isOptionDisabled(currentState, currentState.filteredOptions[optionIndex])) {
+            const option = currentState.filteredOptions[optionIndex];
+            
+            // Multiple mode toggles, or selects a range with Shift, and stays open
+            if (currentState.multiple) {
+                state.setHighlightedIndex(optionIndex);
+                if (event.shiftKey) {
+                    selectRange(optionIndex);
+                } else {
+                    toggleOption(option, optionIndex);
+                }
+                return null;
+            }
+            
+            state.selectOption(option);
+            reportChange();
+            
+            return null;
+        }
+        
+        return null;
+    };
+
+    const handleOptionMouseEnter = (currentState: SelectState, event: OptionEvent) => {
+        const optionIndex = getOptionIndex(event);
+        if (optionIndex !== null && currentState.filteredOptions[optionIndex] && !isOptionDisabled(currentState, currentState.filteredOptions[optionIndex])) {
+            state.setHighlightedIndex(optionIndex);
+        }
+        
+        return null;
+    };
 
     return new LogicLayerBuilder<SelectState, SelectEvents>()
+        .onInitialize((store) => {
+            if (!virtualizer) return;
+            
+            // The rendered window follows the scroll offset, and the highlighted
+            // option is scrolled into view so keyboard navigation moves the window
+            let { filteredOptions, highlightedIndex } = store.getState();
+            state.setVirtualWindow(virtualizer.getWindow());
+            unsubscribers.push(
+                virtualizer.subscribe(virtualWindow => state.setVirtualWindow(virtualWindow)),
+                store.subscribe((current) => {
+                    if (current.filteredOptions !== filteredOptions) {
+                        filteredOptions = current.filteredOptions;
+                        virtualizer.setCount(filteredOptions.length);
+                    }
+                    if (current.highlightedIndex !== highlightedIndex) {
+                        highlightedIndex = current.highlightedIndex;
+                        if (highlightedIndex >= 0) {
+                            virtualizer.scrollToIndex(highlightedIndex);
+                        }
+                    }
+                    if (current.open) {
+                        scheduleVirtualSync();
+                    }
+                })
+            );
+        })
+        
+        .onCleanup(() => {
+            unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+            stopObserving?.();
+            stopObserving = null;
+            observedListbox = null;
+            if (syncFrame && typeof cancelAnimationFrame !== 'undefined') {
+                cancelAnimationFrame(syncFrame);
+                syncFrame = 0;
+            }
+        })
+        
         .onEvent('change', (currentState, payload) => {
             const value = payload && 'value' in payload ? payload.value : payload;
             const option = payload && 'option' in payload ? payload.option : null;
             
+            // onChange gets the option passed with the change, if any
             state.setValue(value);
-            if (options.onChange) {
-                options.onChange(value, option);
+            const values = getSelectedValues(state.getState());
+            if (options.multiple) {
+                options.onChange?.(values, Array.isArray(option) ? option : []);
+            } else {
+                options.onChange?.(values[0] ?? null, Array.isArray(option) ? option[0] ?? null : option);
             }
             
             return null;
@@ -36,7 +294,7 @@ export function createSelectLogic(
             if (currentState.disabled || currentState.readonly) return null;
             
             state.setOpen(true);
-            state.setHighlightedIndex(0);
+            state.navigateToFirst();
             
             if (options.onOpen) {
                 options.onOpen();
@@ -82,7 +340,9 @@ export function createSelectLogic(
         })
         
         .onEvent('search', (currentState, payload) => {
-            const query = payload && 'query' in payload ? payload.query : payload;
+            const query = typeof payload === 'string'
+                ? payload
+                : payload && 'query' in payload ? payload.query : currentState.searchQuery;
             
             state.setSearchQuery(query || '');
             
@@ -96,12 +356,42 @@ export function createSelectLogic(
         .onEvent('optionSelect', (currentState, payload) => {
             const option = payload && 'option' in payload ? payload.option : payload;
             
-            if (option && !option.disabled) {
-                state.selectOption(option);
-                
-                if (options.onChange) {
-                    options.onChange(option.value, option);
+            if (option && !isOptionDisabled(currentState, option)) {
+                if (currentState.multiple) {
+                    toggleOption(option, currentState.filteredOptions.findIndex(opt => opt.value === option.value));
+                    return null;
                 }
+                
+                state.selectOption(option);
+                reportChange();
+            }
+            
+            return null;
+        })
+        
+        .onEvent('optionRemove', (currentState, payload) => {
+            const value = payload && typeof payload === 'object' && 'value' in payload ? payload.value : payload;
+            
+            if (typeof value === 'string' && !currentState.disabled && !currentState.readonly) {
+                const before = state.getState();
+                state.removeValue(value);
+                notifyChange(before);
+            }
+            
+            return null;
+        })
+        
+        .onEvent('selectAll', (currentState) => {
+            if (currentState.multiple && !currentState.disabled && !currentState.readonly) {
+                selectAll();
+            }
+            
+            return null;
+        })
+        
+        .onEvent('clearAll', (currentState) => {
+            if (!currentState.disabled && !currentState.readonly) {
+                clearAll();
             }
             
             return null;
@@ -146,14 +436,28 @@ export function createSelectLogic(
             role: 'listbox',
             id: listboxId,
             'aria-labelledby': triggerId,
+            'aria-multiselectable': state.multiple || undefined,
             'aria-hidden': !state.open
         }))
         
-        .withA11y('option', (state) => (index: number) => ({
-            role: 'option',
-            id: `${componentId}-option-${index}`,
-            'aria-selected': state.filteredOptions[index]?.value === state.value,
-            'aria-disabled': state.filteredOptions[index]?.disabled || false
+        .withA11y('option', getOptionA11y)
+        .withA11y('groupOption', getOptionA11y)
+        
+        .withA11y('group', (state) => (index: number) => {
+            const group = getItemGroups(state.filteredOptions, option => option.group)[index];
+            // The header of a group that starts above the virtual window is not rendered
+            const continued = Boolean(group && state.virtualWindow && group.startIndex < state.virtualWindow.startIndex);
+            
+            return {
+                role: 'group',
+                'aria-labelledby': continued ? undefined : `${componentId}-group-${index}`,
+                'aria-label': continued ? group!.label : undefined,
+                'aria-disabled': group ? state.disabledGroups.includes(group.label) || undefined : undefined
+            };
+        })
+        
+        .withA11y('groupLabel', () => (index: number) => ({
+            id: `${componentId}-group-${index}`
         }))
         
         .withInteraction('trigger', 'onClick', (currentState, event) => {
@@ -167,7 +471,7 @@ export function createSelectLogic(
                 return 'close';
             } else {
                 state.setOpen(true);
-                state.setHighlightedIndex(0);
+                state.navigateToFirst();
                 return 'open';
             }
         })
@@ -178,18 +482,40 @@ export function createSelectLogic(
                 return null;
             }
             
+            // Ctrl+A selects every option, or clears them when all are selected
+            if (currentState.multiple && currentState.open
+                && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'a') {
+                event.preventDefault();
+                const enabled = currentState.filteredOptions.filter(option => !isOptionDisabled(currentState, option));
+                const values = getSelectedValues(currentState);
+                if (enabled.length > 0 && enabled.every(option => values.includes(option.value))) {
+                    clearAll();
+                } else {
+                    selectAll();
+                }
+                return null;
+            }
+            
             switch (event.key) {
                 case 'Enter':
                 case ' ':
                     event.preventDefault();
                     if (!currentState.open) {
                         state.setOpen(true);
-                        state.setHighlightedIndex(0);
+                        state.navigateToFirst();
                         return 'open';
+                    } else if (currentState.multiple) {
+                        const index = currentState.highlightedIndex;
+                        const option = currentState.filteredOptions[index];
+                        if (event.shiftKey) {
+                            selectRange(index);
+                        } else if (option) {
+                            toggleOption(option, index);
+                        }
+                        return null;
                     } else {
-                        const option = state.selectHighlighted();
-                        if (option && options.onChange) {
-                            options.onChange(option.value, option);
+                        if (state.selectHighlighted()) {
+                            reportChange();
                         }
                         return null;
                     }
@@ -198,10 +524,14 @@ export function createSelectLogic(
                     event.preventDefault();
                     if (!currentState.open) {
                         state.setOpen(true);
-                        state.setHighlightedIndex(0);
+                        state.navigateToFirst();
                         return 'open';
                     } else {
                         state.navigateDown();
+                        // Shift+Arrow extends the selection to the next option
+                        if (currentState.multiple && event.shiftKey) {
+                            selectRange(state.getState().highlightedIndex);
+                        }
                         return 'navigate';
                     }
                     
@@ -209,10 +539,13 @@ export function createSelectLogic(
                     event.preventDefault();
                     if (!currentState.open) {
                         state.setOpen(true);
-                        state.setHighlightedIndex(currentState.filteredOptions.length - 1);
+                        state.navigateToLast();
                         return 'open';
                     } else {
                         state.navigateUp();
+                        if (currentState.multiple && event.shiftKey) {
+                            selectRange(state.getState().highlightedIndex);
+                        }
                         return 'navigate';
                     }
                     
@@ -264,6 +597,15 @@ export function createSelectLogic(
                         
                         return 'search';
                     }
+                    
+                    // Otherwise typing highlights the next option starting with the typed text
+                    if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+                        if (!currentState.open) {
+                            state.setOpen(true);
+                        }
+                        handleTypeahead(event.key, currentState);
+                        return 'navigate';
+                    }
                     break;
             }
             
@@ -294,47 +636,79 @@ export function createSelectLogic(
             return 'blur';
         })
         
-        .withInteraction('option', 'onClick', (currentState, event) => {
-            // Index should be passed via event.currentTarget.dataset or similar
-            const optionIndex = (event as any).optionIndex ?? 0;
-            if (currentState.filteredOptions[optionIndex] && !currentState.filteredOptions[optionIndex].disabled) {
-                const option = currentState.filteredOptions[optionIndex];
-                state.selectOption(option);
-                
-                if (options.onChange) {
-                    options.onChange(option.value, option);
-                }
-                
-                return null;
+        .withInteraction('listbox', 'onScroll', (_currentState, event) => {
+            if (event.currentTarget instanceof HTMLElement) {
+                observeListbox(event.currentTarget, false);
             }
-            
             return null;
         })
         
-        .withInteraction('option', 'onMouseEnter', (currentState, event) => {
-            // Index should be passed via event.currentTarget.dataset or similar  
-            const optionIndex = (event as any).optionIndex ?? 0;
-            if (currentState.filteredOptions[optionIndex] && !currentState.filteredOptions[optionIndex]?.disabled) {
-                state.setHighlightedIndex(optionIndex);
-            }
-            
-            return null;
-        })
+        .withInteraction('option', 'onClick', handleOptionClick)
+        .withInteraction('option', 'onMouseEnter', handleOptionMouseEnter)
+        .withInteraction('groupOption', 'onClick', handleOptionClick)
+        .withInteraction('groupOption', 'onMouseEnter', handleOptionMouseEnter)
         
         .withInteraction('clear', 'onClick', (currentState, event) => {
             if (options.clearable && !currentState.disabled && !currentState.readonly) {
                 event.stopPropagation();
-                state.clearSelection();
                 
-                if (options.onChange) {
-                    options.onChange(null, null);
+                if (currentState.multiple) {
+                    clearAll();
+                    return null;
                 }
                 
+                state.clearSelection();
+                reportChange();
+                
                 return null;
             }
             
             return null;
         })
         
+        .withInteraction('tagRemove', 'onClick', (currentState, event: TagEvent) => {
+            // The tag sits in the trigger: removing it must not toggle the dropdown
+            event.stopPropagation();
+            const value = event.tagValue;
+            
+            if (typeof value === 'string' && !currentState.disabled && !currentState.readonly) {
+                const before = state.getState();
+                state.removeValue(value);
+                notifyChange(before);
+            }
+            
+            return null;
+        })
+        
         .build();
-}
\ No newline at end of file
+}
+
+/**
+ * Keeps the listbox below the trigger, or above it when there is no room
+ * below, at least as wide as the trigger and no taller than the space left
+ * @param trigger The select trigger
+ * @param listbox The listbox element
+ * @param maxHeight Height the listbox never exceeds
+ * @returns Stops updating
+ */
+export function autoUpdateSelectPosition(
+    trigger: HTMLElement,
+    listbox: HTMLElement,
+    maxHeight: number = 200
+): () => void {
+    return autoPosition(trigger, listbox, {
+        placement: 'bottom-start',
+        middleware: [
+            flip(),
+            size({
+                padding: 8,
+                apply: ({ availableHeight, rects, elements }) => {
+                    Object.assign(elements.floating.style, {
+                        maxHeight: `${Math.min(availableHeight, maxHeight)}px`,
+                        minWidth: `${rects.reference.width}px`,
+                    });
+                },
+            }),
+        ],
+    });
+}
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { createSelectState } from './state.js';
+import { createSelectState, isOptionDisabled } from './state.js';
 import type { SelectOption } from './types.js';
 
 describe('Select State', () => {
@@ -21,15 +21,18 @@ describe('Select State', () => {
             
             expect(state.getState()).toEqual({
                 value: null,
+                multiple: false,
                 open: false,
                 focused: false,
                 disabled: false,
                 readonly: false,
                 placeholder: 'Select an option',
                 options: [],
+                disabledGroups: [],
                 highlightedIndex: -1,
                 searchQuery: '',
-                filteredOptions: []
+                filteredOptions: [],
+                virtualWindow: null
             });
         });
 
@@ -426,4 +429,102 @@ describe('Select State', () => {
             expect(state.highlightedOption.get()).toEqual(mockOptions[1]);
         });
     });
+
+    describe('Multiple Selection', () => {
+        it('should start with an array value', () => {
+            expect(createSelectState({ multiple: true }).getState().value).toEqual([]);
+            expect(createSelectState({ multiple: true, value: ['apple'] }).getState().value).toEqual(['apple']);
+        });
+
+        it('should keep the value shape of each mode', () => {
+            const single = createSelectState({ options: mockOptions });
+            single.setValue(['apple', 'banana']);
+            expect(single.getState().value).toBe('apple');
+
+            const multiple = createSelectState({ multiple: true, options: mockOptions });
+            multiple.setValue('apple');
+            expect(multiple.getState().value).toEqual(['apple']);
+            multiple.setValue(null);
+            expect(multiple.getState().value).toEqual([]);
+        });
+
+        it('should toggle options without closing', () => {
+            const state = createSelectState({ multiple: true, options: mockOptions });
+            state.setOpen(true);
+
+            state.toggleOption(mockOptions[0]!);
+            state.toggleOption(mockOptions[2]!);
+            expect(state.getState().value).toEqual(['apple', 'cherry']);
+            expect(state.getState().open).toBe(true);
+
+            state.toggleOption(mockOptions[0]!);
+            expect(state.getState().value).toEqual(['cherry']);
+        });
+
+        it('should not add options beyond maxSelections', () => {
+            const state = createSelectState({ multiple: true, options: mockOptions });
+
+            state.toggleOption(mockOptions[0]!, 1);
+            state.toggleOption(mockOptions[1]!, 1);
+            expect(state.getState().value).toEqual(['apple']);
+
+            state.addValues(['banana', 'cherry', 'date'], 3);
+            expect(state.getState().value).toEqual(['apple', 'banana', 'cherry']);
+        });
+
+        it('should remove values and clear to an empty array', () => {
+            const state = createSelectState({ multiple: true, value: ['apple', 'banana'], options: mockOptions });
+
+            state.removeValue('apple');
+            expect(state.getState().value).toEqual(['banana']);
+
+            state.clearSelection();
+            expect(state.getState().value).toEqual([]);
+            expect(state.hasValue.get()).toBe(false);
+        });
+
+        it('should compute the selected options and display value', () => {
+            const state = createSelectState({ multiple: true, value: ['date', 'apple'], options: mockOptions });
+
+            expect(state.selectedOptions.get()).toEqual([mockOptions[3], mockOptions[0]]);
+            expect(state.selectedOption.get()).toEqual(mockOptions[3]);
+            expect(state.displayValue.get()).toBe('Date, Apple');
+        });
+    });
+
+    describe('Groups', () => {
+        const groupedOptions: SelectOption[] = [
+            { value: 'apple', label: 'Apple', group: 'Fruits' },
+            { value: 'carrot', label: 'Carrot', group: 'Vegetables' },
+            { value: 'banana', label: 'Banana', group: 'Fruits' },
+            { value: 'other', label: 'Other' }
+        ];
+
+        it('should list ungrouped options first and keep group options adjacent', () => {
+            const state = createSelectState({ options: groupedOptions });
+
+            expect(state.getState().options.map(option => option.value))
+                .toEqual(['other', 'apple', 'banana', 'carrot']);
+            expect(state.getState().filteredOptions).toEqual(state.getState().options);
+        });
+
+        it('should disable every option of a disabled group', () => {
+            const state = createSelectState({ options: groupedOptions, disabledGroups: ['Fruits'] });
+
+            expect(isOptionDisabled(state.getState(), groupedOptions[0]!)).toBe(true);
+            expect(isOptionDisabled(state.getState(), groupedOptions[1]!)).toBe(false);
+
+            state.setGroupDisabled('Fruits', false);
+            state.setGroupDisabled('Vegetables', true);
+            expect(state.getState().disabledGroups).toEqual(['Vegetables']);
+        });
+
+        it('should not select the highlighted option of a disabled group', () => {
+            const state = createSelectState({ options: groupedOptions, disabledGroups: ['Fruits'] });
+            state.setHighlightedIndex(1);
+
+            expect(state.selectHighlighted()).toBeNull();
+            expect(state.getState().value).toBeNull();
+        });
+    });
 });
\ No newline at end of file
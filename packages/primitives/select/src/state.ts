@@ -3,25 +3,77 @@
  * Manages the state for the select component
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type VirtualWindow } from '@stellarix-ui/core';
+import { orderByGroup } from '@stellarix-ui/utils';
 import type { SelectState, SelectOptions, SelectOption } from './types.js';
 
+/**
+ * Selected values as an array, in single and multiple mode
+ */
+export function getSelectedValues(state: Pick<SelectState, 'value'>): string[] {
+    if (Array.isArray(state.value)) {
+        return state.value;
+    }
+    return state.value ? [state.value] : [];
+}
+
+/**
+ * State with a new selection, as one value or null in single mode
+ * and as an array in multiple mode
+ */
+function withValue(state: SelectState, value: string | string[] | null): SelectState {
+    const values = getSelectedValues({ value });
+    return state.multiple
+        ? { ...state, value: values }
+        : { ...state, value: values[0] ?? null };
+}
+
+/**
+ * Whether an option is disabled, by itself or through its group
+ */
+export function isOptionDisabled(state: Pick<SelectState, 'disabledGroups'>, option: SelectOption): boolean {
+    return Boolean(option.disabled) || (option.group !== undefined && state.disabledGroups.includes(option.group));
+}
+
+/**
+ * Range of filteredOptions to render: the virtual window, or every option
+ */
+export function getRenderedRange(state: Pick<SelectState, 'filteredOptions' | 'virtualWindow'>): { startIndex: number; endIndex: number } {
+    return state.virtualWindow
+        ? { startIndex: state.virtualWindow.startIndex, endIndex: state.virtualWindow.endIndex }
+        : { startIndex: 0, endIndex: state.filteredOptions.length };
+}
+
+/**
+ * Options with the options of each group adjacent, as they are listed
+ */
+function orderOptions(options: SelectOption[]): SelectOption[] {
+    return orderByGroup(options, option => option.group);
+}
+
 /**
  * Creates a select state store
  */
 export function createSelectState(options: SelectOptions) {
-    const initialState: SelectState = {
-        value: options.value || null,
+    const shared = {
         open: false,
         focused: false,
         disabled: options.disabled || false,
         readonly: options.readonly || false,
         placeholder: options.placeholder || 'Select an option',
-        options: options.options || [],
+        options: orderOptions(options.options || []),
+        disabledGroups: options.disabledGroups || [],
         highlightedIndex: -1,
         searchQuery: '',
-        filteredOptions: options.options || []
+        filteredOptions: orderOptions(options.options || []),
+        virtualWindow: null
     };
+    const initialState = withValue(
+        options.multiple
+            ? { ...shared, multiple: true, value: [] }
+            : { ...shared, multiple: false, value: null },
+        options.value || null
+    );
 
     const store = createComponentState('Select', initialState);
 
@@ -30,8 +82,8 @@ export function createSelectState(options: SelectOptions) {
         ...store,
         
         // Select-specific state methods
-        setValue: (value: string | null) => {
-            store.setState((prev) => ({ ...prev, value }));
+        setValue: (value: string | string[] | null) => {
+            store.setState((prev) => withValue(prev, value));
         },
         
         setOpen: (open: boolean) => {
@@ -51,13 +103,27 @@ export function createSelectState(options: SelectOptions) {
         },
         
         setOptions: (options: SelectOption[]) => {
+            const ordered = orderOptions(options);
             store.setState((prev) => ({ 
                 ...prev, 
-                options,
-                filteredOptions: options 
+                options: ordered,
+                filteredOptions: ordered 
+            }));
+        },
+        
+        setGroupDisabled: (group: string, disabled: boolean) => {
+            store.setState((prev) => ({
+                ...prev,
+                disabledGroups: disabled
+                    ? [...prev.disabledGroups.filter(name => name !== group), group]
+                    : prev.disabledGroups.filter(name => name !== group)
             }));
         },
         
+        setVirtualWindow: (virtualWindow: VirtualWindow | null) => {
+            store.setState((prev) => ({ ...prev, virtualWindow }));
+        },
+        
         setHighlightedIndex: (highlightedIndex: number) => {
             store.setState((prev) => ({ ...prev, highlightedIndex }));
         },
@@ -130,8 +196,7 @@ export function createSelectState(options: SelectOptions) {
         // Selection methods
         selectOption: (option: SelectOption) => {
             store.setState((prev) => ({ 
-                ...prev, 
-                value: option.value,
+                ...withValue(prev, option.value),
                 open: false,
                 highlightedIndex: -1,
                 searchQuery: '',
@@ -144,11 +209,11 @@ export function createSelectState(options: SelectOptions) {
             
             store.setState((prev) => {
                 if (prev.highlightedIndex >= 0 && 
-                    prev.highlightedIndex < prev.filteredOptions.length) {
+                    prev.highlightedIndex < prev.filteredOptions.length &&
+                    !isOptionDisabled(prev, prev.filteredOptions[prev.highlightedIndex]!)) {
                     selectedOption = prev.filteredOptions[prev.highlightedIndex];
                     return { 
-                        ...prev, 
-                        value: selectedOption.value,
+                        ...withValue(prev, selectedOption.value),
                         open: false,
                         highlightedIndex: -1,
                         searchQuery: '',
@@ -162,19 +227,70 @@ export function createSelectState(options: SelectOptions) {
         },
         
         clearSelection: () => {
-            store.setState((prev) => ({ ...prev, value: null }));
+            store.setState((prev) => withValue(prev, null));
+        },
+        
+        // Multiple selection methods
+        
+        /**
+         * Adds or removes an option, keeping the dropdown open.
+         * Adding does nothing once maxSelections options are selected.
+         */
+        toggleOption: (option: SelectOption, maxSelections: number = Infinity) => {
+            store.setState((prev) => {
+                const values = getSelectedValues(prev);
+                if (values.includes(option.value)) {
+                    return withValue(prev, values.filter(value => value !== option.value));
+                }
+                if (values.length >= maxSelections) {
+                    return prev;
+                }
+                return withValue(prev, [...values, option.value]);
+            });
+        },
+        
+        /**
+         * Adds values to the selection, in order, up to maxSelections
+         */
+        addValues: (values: string[], maxSelections: number = Infinity) => {
+            store.setState((prev) => {
+                const selected = getSelectedValues(prev);
+                const added = values
+                    .filter((value, index) => !selected.includes(value) && values.indexOf(value) === index)
+                    .slice(0, Math.max(0, maxSelections - selected.length));
+                
+                return added.length > 0 ? withValue(prev, [...selected, ...added]) : prev;
+            });
+        },
+        
+        removeValue: (value: string) => {
+            store.setState((prev) => {
+                const values = getSelectedValues(prev);
+                if (!values.includes(value)) return prev;
+                
+                return withValue(prev, values.filter(selected => selected !== value));
+            });
         },
         
         // Computed properties
         isInteractive: store.derive(state => !state.disabled && !state.readonly),
-        selectedOption: store.derive(state => 
-            state.value ? state.options.find(opt => opt.value === state.value) || null : null
+        selectedOption: store.derive(state => {
+            const [value] = getSelectedValues(state);
+            return value ? state.options.find(opt => opt.value === value) || null : null;
+        }),
+        selectedOptions: store.derive(state =>
+            getSelectedValues(state)
+                .map(value => state.options.find(opt => opt.value === value))
+                .filter((option): option is SelectOption => option !== undefined)
         ),
-        hasValue: store.derive(state => state.value !== null),
+        hasValue: store.derive(state => getSelectedValues(state).length > 0),
         displayValue: store.derive(state => {
-            if (state.value) {
-                const option = state.options.find(opt => opt.value === state.value);
-                return option ? option.label : '';
+            const values = getSelectedValues(state);
+            if (values.length > 0) {
+                return values
+                    .map(value => state.options.find(opt => opt.value === value)?.label)
+                    .filter(Boolean)
+                    .join(', ');
             }
             return state.searchQuery || '';
         }),
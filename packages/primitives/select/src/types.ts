@@ -3,6 +3,8 @@
  * Define all TypeScript interfaces for the select component
  */
 
+import type { VirtualizeOptions, VirtualWindow } from '@stellarix-ui/core';
+
 /**
  * Select option interface
  */
@@ -10,19 +12,16 @@ export interface SelectOption {
     value: string;
     label: string;
     disabled?: boolean;
+    /**
+     * Group the option is listed under; options of a group are listed together
+     */
     group?: string;
 }
 
 /**
- * Select component state
- * Represents the internal state of the component
+ * State shared by single and multiple selects
  */
-export interface SelectState {
-    /**
-     * Currently selected value
-     */
-    value: string | null;
-    
+interface SelectStateBase {
     /**
      * Whether the dropdown is open
      */
@@ -49,10 +48,15 @@ export interface SelectState {
     placeholder: string;
     
     /**
-     * Available options
+     * Available options, with the options of each group adjacent
      */
     options: SelectOption[];
     
+    /**
+     * Groups whose options are all disabled
+     */
+    disabledGroups: string[];
+    
     /**
      * Index of currently highlighted option
      */
@@ -67,19 +71,53 @@ export interface SelectState {
      * Filtered options based on search
      */
     filteredOptions: SelectOption[];
+    
+    /**
+     * Range of filteredOptions rendered when virtualized, null otherwise
+     */
+    virtualWindow: VirtualWindow | null;
 }
 
 /**
- * Select component options
- * Configuration passed when creating the component
+ * State of a select with one selected option
  */
-export interface SelectOptions {
+export interface SingleSelectState extends SelectStateBase {
     /**
-     * Initial selected value
-     * @default null
+     * Currently selected value
      */
-    value?: string | null;
+    value: string | null;
+    
+    /**
+     * Whether several options can be selected
+     */
+    multiple: false;
+}
+
+/**
+ * State of a select with several selected options
+ */
+export interface MultipleSelectState extends SelectStateBase {
+    /**
+     * Selected values, in selection order
+     */
+    value: string[];
     
+    /**
+     * Whether several options can be selected
+     */
+    multiple: true;
+}
+
+/**
+ * Select component state
+ * Represents the internal state of the component; `multiple` tells the modes apart
+ */
+export type SelectState = SingleSelectState | MultipleSelectState;
+
+/**
+ * Options shared by single and multiple selects
+ */
+interface SelectOptionsBase {
     /**
      * Available options to select from
      * @default []
@@ -104,6 +142,12 @@ export interface SelectOptions {
      */
     readonly?: boolean;
     
+    /**
+     * Groups whose options are all disabled
+     * @default []
+     */
+    disabledGroups?: string[];
+    
     /**
      * Whether the select is searchable
      * @default false
@@ -117,15 +161,17 @@ export interface SelectOptions {
     clearable?: boolean;
     
     /**
-     * Whether multiple selections are allowed
-     * @default false
+     * Most options selectable in multiple mode; further options are disabled
+     * @default Infinity
      */
-    multiple?: boolean;
+    maxSelections?: number;
     
     /**
-     * Callback when selected value changes
+     * Render only the options in view, for long option lists.
+     * `true` uses 36px options in a 200px listbox.
+     * @default false
      */
-    onChange?: (value: string | null, option: SelectOption | null) => void;
+    virtualize?: boolean | VirtualizeOptions;
     
     /**
      * Callback when component receives focus
@@ -153,6 +199,56 @@ export interface SelectOptions {
     onClose?: () => void;
 }
 
+/**
+ * Options of a select with one selected option
+ */
+export interface SingleSelectOptions extends SelectOptionsBase {
+    /**
+     * Initial selected value
+     * @default null
+     */
+    value?: string | null;
+    
+    /**
+     * Whether multiple selections are allowed
+     * @default false
+     */
+    multiple?: false;
+    
+    /**
+     * Callback when selected value changes
+     */
+    onChange?: (value: string | null, option: SelectOption | null) => void;
+}
+
+/**
+ * Options of a select with several selected options
+ */
+export interface MultipleSelectOptions extends SelectOptionsBase {
+    /**
+     * Initial selected values
+     * @default []
+     */
+    value?: string[];
+    
+    /**
+     * Whether multiple selections are allowed. Selecting an option toggles it
+     * and keeps the dropdown open; `value` is an array.
+     */
+    multiple: true;
+    
+    /**
+     * Callback when the selection changes, with every selected value and option
+     */
+    onChange?: (value: string[], option: SelectOption[]) => void;
+}
+
+/**
+ * Select component options
+ * Configuration passed when creating the component; `multiple` tells the modes apart
+ */
+export type SelectOptions = SingleSelectOptions | MultipleSelectOptions;
+
 /**
  * Select component events
  * Events that can be triggered by the component
@@ -161,10 +257,9 @@ export interface SelectEvents {
     /**
      * Fired when the selected value changes
      */
-    change: {
-        value: string | null;
-        option: SelectOption | null;
-    };
+    change:
+        | { value: string | null; option: SelectOption | null }
+        | { value: string[]; option: SelectOption[] };
     
     /**
      * Fired when dropdown opens
@@ -204,6 +299,23 @@ export interface SelectEvents {
         option: SelectOption;
     };
     
+    /**
+     * Fired when a selected option is removed, e.g. from its tag
+     */
+    optionRemove: {
+        value: string;
+    };
+    
+    /**
+     * Fired when every enabled option is selected (multiple mode)
+     */
+    selectAll: null;
+    
+    /**
+     * Fired when the whole selection is cleared
+     */
+    clearAll: null;
+    
     /**
      * Fired on keyboard navigation
      */
@@ -233,10 +345,20 @@ export interface SelectHelpers {
     toggle: () => void;
     
     /**
-     * Select an option
+     * Select an option; toggles it in multiple mode
      */
     selectOption: (value: string) => void;
     
+    /**
+     * Remove an option from the selection
+     */
+    removeOption: (value: string) => void;
+    
+    /**
+     * Select every enabled option, up to maxSelections (multiple mode)
+     */
+    selectAll: () => void;
+    
     /**
      * Clear the selection
      */
@@ -253,10 +375,15 @@ export interface SelectHelpers {
     navigateToOption: (index: number) => void;
     
     /**
-     * Get the currently selected option
+     * Get the currently selected option; the first one in multiple mode
      */
     getSelectedOption: () => SelectOption | null;
     
+    /**
+     * Get every selected option, in selection order
+     */
+    getSelectedOptions: () => SelectOption[];
+    
     /**
      * Check if an option is selected
      */
@@ -266,13 +393,18 @@ export interface SelectHelpers {
      * Get filtered options based on search
      */
     getFilteredOptions: () => SelectOption[];
+    
+    /**
+     * Disable or enable every option of a group
+     */
+    setGroupDisabled: (group: string, disabled: boolean) => void;
 }
 
 /**
  * Select component props
  * Props that can be passed to the component
  */
-export interface SelectProps extends SelectOptions {
+export type SelectProps = SelectOptions & {
     /**
      * Additional CSS class
      */
@@ -302,4 +434,4 @@ export interface SelectProps extends SelectOptions {
      * Test ID for testing
      */
     'data-testid'?: string;
-}
\ No newline at end of file
+};
\ No newline at end of file
@@ -475,4 +475,32 @@ describe('Select React Integration', () => {
             expect(onChange).toHaveBeenCalledWith(null, null);
         });
     });
+    
+    it('should render labelled option groups', async () => {
+        const onChange = vi.fn();
+        const select = createSelect({ 
+            options: [
+                { value: 'apple', label: 'Apple', group: 'Fruits' },
+                { value: 'carrot', label: 'Carrot', group: 'Vegetables' },
+                { value: 'other', label: 'Other' }
+            ],
+            disabledGroups: ['Vegetables'],
+            onChange
+        });
+        const SelectComponent = select.connect(reactAdapter);
+        
+        render(<SelectComponent />);
+        fireEvent.click(screen.getByRole('combobox'));
+        
+        const fruits = await screen.findByRole('group', { name: 'Fruits' });
+        expect(fruits).toContainElement(screen.getByRole('option', { name: 'Apple' }));
+        expect(screen.getByRole('group', { name: 'Vegetables' })).toHaveAttribute('aria-disabled', 'true');
+        expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['Other', 'Apple', 'Carrot']);
+        
+        fireEvent.click(screen.getByRole('option', { name: 'Carrot' }));
+        expect(onChange).not.toHaveBeenCalled();
+        
+        fireEvent.click(screen.getByRole('option', { name: 'Apple' }));
+        expect(onChange).toHaveBeenCalledWith('apple', expect.objectContaining({ value: 'apple' }));
+    });
 });
\ No newline at end of file
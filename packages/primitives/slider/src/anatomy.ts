@@ -0,0 +1,122 @@
+/**
+ * Slider Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { SliderState } from './types';
+
+/**
+ * Position of a value along the track, in percent
+ */
+const toPercent = (state: SliderState, value: number) =>
+    state.max > state.min ? ((value - state.min) / (state.max - state.min)) * 100 : 0;
+
+/**
+ * Start and end of the filled range, in percent
+ */
+const getRange = (state: SliderState): [number, number] => Array.isArray(state.value)
+    ? [toPercent(state, state.value[0]), toPercent(state, state.value[1])]
+    : [0, toPercent(state, state.value)];
+
+/**
+ * Style placing a thumb at a value
+ */
+const thumbStyle = (state: SliderState, value: number) => {
+    const offset = `${toPercent(state, value)}%`;
+
+    return {
+        position: 'absolute',
+        ...(state.orientation === 'vertical'
+            ? { bottom: offset, left: '50%', transform: 'translate(-50%, 50%)' }
+            : { left: offset, top: '50%', transform: 'translate(-50%, -50%)' }),
+        width: '16px',
+        height: '16px',
+        borderRadius: '50%',
+        backgroundColor: 'white',
+        border: '2px solid #3b82f6',
+        cursor: state.disabled ? 'not-allowed' : 'grab',
+    };
+};
+
+/**
+ * A track with the filled range and one thumb, or two thumbs for a range.
+ * The `aria-label`, `aria-label-min` and `aria-label-max` props name the thumbs.
+ */
+export const sliderAnatomy: ComponentAnatomy<SliderState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: ({ state }) => ({
+                'data-orientation': state.orientation,
+                'data-disabled': state.disabled || undefined,
+                style: {
+                    position: 'relative',
+                    display: 'flex',
+                    alignItems: 'center',
+                    ...(state.orientation === 'vertical' ? { height: '200px', width: '20px' } : { width: '100%', height: '20px' }),
+                },
+            }),
+        },
+        track: {
+            element: 'div',
+            props: ({ state }) => ({
+                style: {
+                    position: 'relative',
+                    borderRadius: '2px',
+                    backgroundColor: '#e5e7eb',
+                    ...(state.orientation === 'vertical' ? { width: '4px', height: '100%' } : { width: '100%', height: '4px' }),
+                },
+            }),
+        },
+        range: {
+            element: 'div',
+            parent: 'track',
+            props: ({ state }) => {
+                const [start, end] = getRange(state);
+
+                return {
+                    style: {
+                        position: 'absolute',
+                        backgroundColor: '#3b82f6',
+                        ...(state.orientation === 'vertical'
+                            ? { bottom: `${start}%`, height: `${end - start}%`, width: '100%' }
+                            : { left: `${start}%`, width: `${end - start}%`, height: '100%' }),
+                    },
+                };
+            },
+        },
+        thumb: {
+            element: 'div',
+            parent: 'track',
+            when: ({ state }) => !Array.isArray(state.value),
+            props: ({ state, props }) => ({
+                'aria-label': props['aria-label'],
+                style: thumbStyle(state, state.value as number),
+            }),
+        },
+        thumbMin: {
+            element: 'div',
+            parent: 'track',
+            when: ({ state }) => Array.isArray(state.value),
+            props: ({ state, props }) => ({
+                'aria-label': props['aria-label-min'] ?? 'Minimum',
+                'data-thumb-index': '0',
+                style: thumbStyle(state, (state.value as [number, number])[0]),
+            }),
+        },
+        thumbMax: {
+            element: 'div',
+            parent: 'track',
+            when: ({ state }) => Array.isArray(state.value),
+            props: ({ state, props }) => ({
+                'aria-label': props['aria-label-max'] ?? 'Maximum',
+                'data-thumb-index': '1',
+                style: thumbStyle(state, (state.value as [number, number])[1]),
+            }),
+        },
+    },
+    bindings: {
+        value: 'value',
+    },
+};
@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createSliderState } from './state';
 import { createSliderLogic } from './logic';
+import { sliderAnatomy } from './anatomy';
 import type { SliderOptions, SliderState, SliderEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createSlider(options: SliderOptions = {}) {
     return createPrimitive<SliderState, SliderEvents, SliderOptions>('Slider', {
         initialState: options,
         logicConfig: options,
+        anatomy: sliderAnatomy,
         metadata: {
             accessibility: {
                 role: 'slider',
@@ -78,6 +80,10 @@ export function createSliderWithImplementation(options: SliderOptions = {}) {
     core.state = createSliderState(options);
     core.logic = createSliderLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -90,6 +96,7 @@ export type {
 } from './types';
 
 export type { SliderStateStore } from './state';
+export { sliderAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createSliderWithImplementation;
\ No newline at end of file
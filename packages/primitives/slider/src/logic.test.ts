@@ -230,22 +230,22 @@ describe('Slider Logic', () => {
         
         expect(listener).toHaveBeenCalled();
         
-        // Test Home key
+        // Test End key
         listener.mockClear();
-        const homeEvent = new KeyboardEvent('keydown', { key: 'Home' });
-        handlers.onKeyDown(homeEvent);
+        const endEvent = new KeyboardEvent('keydown', { key: 'End' });
+        handlers.onKeyDown(endEvent);
         
         expect(listener).toHaveBeenCalledWith(expect.objectContaining({
-            value: 0
+            value: 100
         }));
         
-        // Test End key
+        // Test Home key
         listener.mockClear();
-        const endEvent = new KeyboardEvent('keydown', { key: 'End' });
-        handlers.onKeyDown(endEvent);
+        const homeEvent = new KeyboardEvent('keydown', { key: 'Home' });
+        handlers.onKeyDown(homeEvent);
         
         expect(listener).toHaveBeenCalledWith(expect.objectContaining({
-            value: 100
+            value: 0
         }));
     });
     
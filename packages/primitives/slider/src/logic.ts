@@ -28,6 +28,7 @@
 
 import { LogicLayerBuilder } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
+import { announce } from '@stellarix-ui/utils';
 import type { SliderState, SliderEvents, SliderOptions } from './types';
 import type { SliderStateStore } from './state';
 
@@ -115,6 +116,14 @@ export function createSliderLogic(
             if (options.onDragEnd) {
                 options.onDragEnd();
             }
+            
+            // Announce the committed value; keyboard changes are read from aria-valuenow
+            if (options.valueAnnouncement !== false) {
+                const value = currentState.value;
+                announce(options.valueAnnouncement
+                    ? options.valueAnnouncement(value)
+                    : Array.isArray(value) ? `${value[0]} to ${value[1]}` : String(value));
+            }
             return null;
         })
         .onEvent('focus', (currentState, payload: any) => {
@@ -2,9 +2,11 @@
  * Slider State Tests
  * 
  * 🚨 CRITICAL: Testing Pattern Rules
- * ❌ NEVER use state.getState() for verification
+ * ❌ NEVER use state.getState() to verify updates
  * ✅ ALWAYS use subscription pattern: state.subscribe(listener)
  * ✅ ALWAYS verify via listener calls: expect(listener).toHaveBeenCalledWith()
+ * ✅ Read the initial state with state.getState(): updates that leave the
+ *    state shallowly equal notify nobody
  * 
  * This prevents infinite loops and ensures proper reactive testing
  */
@@ -16,16 +18,9 @@ import type { SliderOptions } from './types';
 describe('Slider State', () => {
     it('should create state with default values for single slider', () => {
         const state = createSliderState();
-        const listener = vi.fn();
-        
-        // Subscribe to verify initial state
-        state.subscribe(listener);
-        
-        // Trigger a dummy update to verify current state
-        state.setValue(0); // Same as default
         
         // Initial state should be single slider with value 0
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        expect(state.getState()).toEqual(expect.objectContaining({
             value: 0
         }));
     });
@@ -57,13 +52,8 @@ describe('Slider State', () => {
         };
         
         const state = createSliderState(options);
-        const listener = vi.fn();
         
-        // Subscribe and trigger update to verify state
-        state.subscribe(listener);
-        state.setValue(50); // Same as initial
-        
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        expect(state.getState()).toEqual(expect.objectContaining({
             value: 50
         }));
     });
@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { SliderState, SliderOptions } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface SliderStateStore {
     getState: () => SliderState;
     setState: (updater: ((prev: SliderState) => SliderState) | Partial<SliderState>) => void;
     subscribe: (listener: (state: SliderState) => void) => () => void;
+    select: <U>(selector: (state: SliderState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: SliderState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -66,7 +67,9 @@ export function createSliderState(options: SliderOptions = {}): SliderStateStore
     };
     
     // Create the core state store
-    const store = createComponentState('Slider', initialState);
+    const store = createComponentState('Slider', initialState, {
+        ...(options.middleware ? { middleware: options.middleware } : {}),
+    });
     
     // Helper to clamp value within bounds
     const clampValue = (value: number, min: number, max: number): number => {
@@ -3,6 +3,8 @@
  * Define all TypeScript interfaces for the component
  */
 
+import type { StoreMiddleware } from '@stellarix-ui/core';
+
 /**
  * Slider component state
  * Represents the internal state of the component
@@ -110,6 +112,17 @@ export interface SliderOptions {
      * Callback when dragging ends
      */
     onDragEnd?: () => void;
+    
+    /**
+     * Message announced to screen readers when a drag ends; `false` turns it off
+     * @default The value, or '<start> to <end>' for a range
+     */
+    valueAnnouncement?: ((value: number | [number, number]) => string) | false;
+    
+    /**
+     * Store middleware, e.g. `createValidationMiddleware` to keep the value within bounds
+     */
+    middleware?: StoreMiddleware<SliderState>[];
 }
 
 /**
@@ -0,0 +1,50 @@
+/**
+ * Spinner Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { SpinnerState } from './types';
+
+const sizes = { xs: 12, sm: 16, md: 24, lg: 32, xl: 48 };
+
+/**
+ * The spinning ring, with its label for screen readers only.
+ * The spin keyframes come from the stylesheet; the state sets their duration.
+ */
+export const spinnerAnatomy: ComponentAnatomy<SpinnerState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: ({ state }) => ({
+                'aria-label': state.label,
+                'aria-busy': state.spinning ? 'true' : undefined,
+                'data-state': state.spinning ? 'spinning' : 'stopped',
+                hidden: !state.spinning || undefined,
+                style: {
+                    display: 'inline-block',
+                    width: sizes[state.size] ?? sizes.md,
+                    height: sizes[state.size] ?? sizes.md,
+                    borderRadius: '50%',
+                    border: '2px solid #e5e7eb',
+                    borderTopColor: state.color ?? 'currentColor',
+                    animationDuration: `${state.speed}ms`,
+                },
+            }),
+        },
+        label: {
+            element: 'span',
+            text: ({ state }) => state.label,
+            props: () => ({
+                style: {
+                    position: 'absolute',
+                    width: 1,
+                    height: 1,
+                    overflow: 'hidden',
+                    clip: 'rect(0, 0, 0, 0)',
+                    whiteSpace: 'nowrap',
+                },
+            }),
+        },
+    },
+};
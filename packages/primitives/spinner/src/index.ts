@@ -1,12 +1,14 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createSpinnerState } from './state.js';
 import { createSpinnerLogic } from './logic.js';
+import { spinnerAnatomy } from './anatomy.js';
 import type { SpinnerOptions, SpinnerState, SpinnerEvents } from './types.js';
 
 export function createSpinner(options: SpinnerOptions = {}) {
     return createPrimitive<SpinnerState, SpinnerEvents, SpinnerOptions>('Spinner', {
         initialState: options,
         logicConfig: options,
+        anatomy: spinnerAnatomy,
         metadata: {
             accessibility: {
                 role: 'status',
@@ -41,12 +43,17 @@ export function createSpinnerWithImplementation(options: SpinnerOptions = {}) {
     core.state = createSpinnerState(options);
     core.logic = createSpinnerLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
 // Re-export types
 export type { SpinnerOptions, SpinnerState, SpinnerEvents, SpinnerProps, SpinnerSize } from './types.js';
 export type { SpinnerStateStore } from './state.js';
+export { spinnerAnatomy } from './anatomy.js';
 
 // Default export for convenience
 export default createSpinnerWithImplementation;
\ No newline at end of file
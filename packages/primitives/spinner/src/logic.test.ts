@@ -2,102 +2,76 @@
  * Spinner Logic Tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { createSpinnerState } from './state';
 import { createSpinnerLogic } from './logic';
+import { createSpinnerWithImplementation } from './index';
 
 describe('createSpinnerLogic', () => {
-    it('should create logic layer with correct component type', () => {
-        const state = createSpinnerState();
-        const logic = createSpinnerLogic(state);
+    function setup(options = {}) {
+        const state = createSpinnerState(options);
+        const logic = createSpinnerLogic(state, options);
+        logic.connect(state as any);
+        logic.initialize();
+        return { state, logic };
+    }
+    
+    it('should provide accessibility props from state', () => {
+        const { logic } = setup({ label: 'Processing data...' });
         
-        expect(logic.componentType).toBe('Spinner');
+        expect(logic.getA11yProps('root')).toEqual({
+            role: 'status',
+            'aria-live': 'polite',
+            'aria-busy': 'true',
+            'aria-label': 'Processing data...',
+        });
     });
     
-    it('should provide static accessibility props', () => {
-        const state = createSpinnerState({ label: 'Processing data...' });
-        const logic = createSpinnerLogic(state);
+    it('should follow state changes in accessibility props', () => {
+        const { state, logic } = setup();
         
-        const a11yProps = logic.getA11yProps('root');
+        state.stop();
+        state.setLabel('Done');
         
-        expect(a11yProps.role).toBe('status');
-        expect(a11yProps['aria-live']).toBe('polite');
-        // Dynamic props should be read directly from state by the component
+        const a11yProps = logic.getA11yProps('root');
         expect(a11yProps['aria-busy']).toBeUndefined();
-        expect(a11yProps['aria-label']).toBeUndefined();
+        expect(a11yProps['aria-label']).toBe('Done');
     });
     
-    it('should provide static interaction handlers', () => {
-        const state = createSpinnerState();
-        const logic = createSpinnerLogic(state);
+    it('should have no interaction handlers', () => {
+        const { logic } = setup();
         
-        const handlers = logic.getInteractionHandlers('root');
-        
-        expect(handlers.role).toBe('status');
-        // Dynamic props should be read directly from state by the component
-        expect(handlers['aria-busy']).toBeUndefined();
-        expect(handlers['aria-label']).toBeUndefined();
+        expect(logic.getInteractionHandlers('root')).toEqual({});
     });
     
-    it('should handle initialization and cleanup', () => {
+    it('should return empty props before it is connected', () => {
         const state = createSpinnerState();
         const logic = createSpinnerLogic(state);
         
-        // Initialize
-        const cleanup = logic.initialize();
-        expect(typeof cleanup).toBe('function');
-        
-        // Should not initialize twice
-        const cleanup2 = logic.initialize();
-        expect(cleanup2()).toBeUndefined();
-        
-        // Cleanup
-        cleanup();
+        expect(logic.getA11yProps('root')).toEqual({});
     });
     
-    it('should handle connect and disconnect', () => {
-        const state = createSpinnerState();
-        const logic = createSpinnerLogic(state);
-        
-        // Connect
-        logic.connect(state);
+    it('should come connected from createSpinnerWithImplementation', () => {
+        const core = createSpinnerWithImplementation({ label: 'Saving' });
         
-        // Disconnect
-        logic.disconnect();
-        
-        // Should not throw
-        expect(() => logic.getA11yProps('root')).not.toThrow();
+        expect(core.logic.getA11yProps('root')['aria-label']).toBe('Saving');
     });
     
-    it('should handle non-existent events gracefully', () => {
-        const state = createSpinnerState();
-        const logic = createSpinnerLogic(state);
+    it('should return empty props after cleanup', () => {
+        const { logic } = setup();
         
-        // Spinner has no events, this should not throw
-        expect(() => logic.handleEvent('nonexistent' as any, {})).not.toThrow();
-    });
-    
-    it('should provide element metadata', () => {
-        const state = createSpinnerState();
-        const logic = createSpinnerLogic(state);
+        logic.cleanup();
         
-        const metadata = logic.getElementMetadata();
-        
-        expect(metadata.root).toEqual({
-            type: 'div',
-            role: 'status',
-            optional: false,
-        });
+        expect(logic.getA11yProps('root')).toEqual({});
     });
     
-    it('should provide event metadata', () => {
-        const state = createSpinnerState();
-        const logic = createSpinnerLogic(state);
-        
-        const eventMetadata = logic.getEventMetadata();
+    it('should ignore events without changing state', () => {
+        const { state, logic } = setup();
+        const listener = vi.fn();
+        state.subscribe(listener);
         
-        expect(eventMetadata.supported).toEqual([]);
-        expect(eventMetadata.required).toEqual([]);
-        expect(eventMetadata.custom).toEqual({});
+        // Spinner has no events, this should not throw
+        expect(() => logic.handleEvent('nonexistent', {})).not.toThrow();
+        expect(listener).not.toHaveBeenCalled();
     });
 });
\ No newline at end of file
@@ -11,10 +11,9 @@ describe('createSpinnerState', () => {
         const listener = vi.fn();
         
         state.subscribe(listener);
-        state.start(); // Trigger subscription (spinning defaults to true)
         
         // Expect full state object
-        expect(listener).toHaveBeenCalledWith({
+        expect(state.getState()).toEqual({
             spinning: true,
             size: 'md',
             color: undefined,
@@ -166,9 +165,9 @@ describe('createSpinnerState', () => {
             notifiedState = newState;
         });
         
-        state.start();
-        expect(notifiedState).toBeDefined();
-        expect(notifiedState.spinning).toBe(true);
+        state.stop();
+        expect(notifiedState).not.toBeNull();
+        expect(notifiedState.spinning).toBe(false);
         
         state.setSize('lg');
         expect(notifiedState.size).toBe('lg');
@@ -13,7 +13,7 @@
  * - ALWAYS use function updater with spread operator
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { SpinnerState, SpinnerOptions, SpinnerSize } from './types';
 
 /**
@@ -24,6 +24,7 @@ export interface SpinnerStateStore {
     getState: () => SpinnerState;
     setState: (updates: Partial<SpinnerState>) => void;
     subscribe: (listener: (state: SpinnerState) => void) => () => void;
+    select: <U>(selector: (state: SpinnerState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: SpinnerState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
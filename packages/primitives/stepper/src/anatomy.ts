@@ -0,0 +1,114 @@
+/**
+ * Stepper Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { getStepStatus } from './logic';
+import type { StepperState } from './types';
+
+/**
+ * Ordered list of steps, each with a numbered button, a label and its error message
+ */
+export const stepperAnatomy: ComponentAnatomy<StepperState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: () => ({
+                'data-part': 'stepper',
+                'data-testid': 'stepper-root',
+                style: { display: 'block' },
+            }),
+        },
+        list: {
+            element: 'ol',
+            props: ({ state }) => ({
+                'data-part': 'step-list',
+                style: {
+                    listStyle: 'none',
+                    display: 'flex',
+                    flexDirection: state.orientation === 'vertical' ? 'column' : 'row',
+                    gap: '20px',
+                    margin: 0,
+                    padding: 0,
+                },
+            }),
+        },
+        step: {
+            element: 'li',
+            parent: 'list',
+            items: ({ state }) => state.steps,
+            props: ({ state }) => ({
+                style: {
+                    display: state.orientation === 'vertical' ? 'block' : 'inline-block',
+                    marginRight: state.orientation === 'horizontal' ? '20px' : '0',
+                    marginBottom: state.orientation === 'vertical' ? '20px' : '0',
+                },
+            }),
+        },
+        stepButton: {
+            element: 'button',
+            parent: 'step',
+            text: ({ state, index = 0 }) => getStepStatus(state, index) === 'completed' ? '✓' : String(index + 1),
+            // Step button handlers read the step position from the event
+            event: ({ index }) => ({ index }),
+            props: ({ state, item, index = 0 }) => {
+                const status = getStepStatus(state, index);
+                const isDisabled = state.disabled || item.disabled;
+
+                return {
+                    type: 'button',
+                    'data-testid': `step-${index}`,
+                    disabled: isDisabled || undefined,
+                    style: {
+                        padding: '10px',
+                        borderRadius: '50%',
+                        width: '40px',
+                        height: '40px',
+                        border: status === 'active' ? '2px solid #007acc' : '1px solid #ccc',
+                        backgroundColor: status === 'completed' ? '#28a745' : status === 'error' ? '#dc3545' : 'white',
+                        color: status === 'completed' || status === 'error' ? 'white' : '#333',
+                        cursor: isDisabled ? 'not-allowed' : 'pointer',
+                    },
+                };
+            },
+        },
+        stepLabel: {
+            element: 'span',
+            parent: 'step',
+            text: ({ item, index = 0 }) => item.label || `Step ${index + 1}`,
+            props: ({ state, index = 0 }) => {
+                const status = getStepStatus(state, index);
+
+                return {
+                    style: {
+                        marginLeft: '10px',
+                        fontWeight: status === 'active' ? 'bold' : 'normal',
+                        color: status === 'error' ? '#dc3545' : status === 'active' ? '#007acc' : '#333',
+                    },
+                };
+            },
+        },
+        stepError: {
+            element: 'span',
+            parent: 'step',
+            when: ({ item }) => Boolean(item.error && item.errorMessage),
+            text: ({ item }) => item.errorMessage,
+            props: ({ index }) => ({
+                'data-testid': `error-${index}`,
+                style: {
+                    display: 'block',
+                    color: '#dc3545',
+                    fontSize: '12px',
+                    marginTop: '5px',
+                },
+            }),
+        },
+    },
+    bindings: {
+        activeStep: 'activeStep',
+        // Older name of the binding, kept for existing templates
+        value: 'activeStep',
+        steps: 'steps',
+    },
+};
@@ -3,8 +3,9 @@
  * Ultra-generic stepper implementation that can be adapted to any framework
  */
 
-import { createStepperState } from './state';
+import { createStepperState, stepperSnapshotFormat } from './state';
 import { createStepperLogic } from './logic';
+import { stepperAnatomy } from './anatomy';
 import type { ComponentCore } from '@stellarix-ui/core';
 import type { 
     StepperState, 
@@ -260,6 +261,7 @@ export function createStepper(
         metadata: {
             name: 'Stepper',
             version: '0.0.1',
+            snapshot: stepperSnapshotFormat,
             accessibility: {
                 role: 'group',
                 wcagLevel: 'AA',
@@ -281,6 +283,7 @@ export function createStepper(
                 },
             },
         },
+        anatomy: stepperAnatomy,
         connect: function <TFrameworkComponent>(adapter: any): TFrameworkComponent {
             return adapter.createComponent(this);
         },
@@ -306,5 +309,6 @@ export type {
 } from './types';
 
 // Re-export state and logic creators for advanced use cases
-export { createStepperState } from './state';
-export { createStepperLogic } from './logic';
\ No newline at end of file
+export { createStepperState, stepperSnapshotFormat } from './state';
+export { createStepperLogic } from './logic';
+export { stepperAnatomy } from './anatomy';
\ No newline at end of file
@@ -27,7 +27,7 @@ import type { StepperStateStore } from './state';
 /**
  * Get the status of a step
  */
-function getStepStatus(state: StepperState, index: number): StepStatus {
+export function getStepStatus(state: StepperState, index: number): StepStatus {
     const step = state.steps[index];
     
     if (step?.error) {
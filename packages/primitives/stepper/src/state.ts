@@ -15,9 +15,16 @@
  * Partial objects cause the state to lose all other fields.
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, snapshotCodecs, type SnapshotFormat } from '@stellarix-ui/core';
 import type { StepperState, StepperOptions, StepperStep } from './types';
 
+/**
+ * Snapshot format of the stepper state
+ */
+export const stepperSnapshotFormat: SnapshotFormat<StepperState> = {
+    completedSteps: snapshotCodecs.set<number>(),
+};
+
 /**
  * Default stepper state
  */
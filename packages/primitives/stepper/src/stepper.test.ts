@@ -4,7 +4,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createStepper } from './index';
+import { createSnapshot, restoreSnapshot } from '@stellarix-ui/core';
+import { createStepper, stepperSnapshotFormat } from './index';
 import type { StepperStep, StepperOptions } from './types';
 
 describe('Stepper Component', () => {
@@ -422,4 +423,19 @@ describe('Stepper Component', () => {
       expect(buttonProps['aria-disabled']).toBe('true');
     });
   });
+
+  describe('Snapshot', () => {
+    it('should round-trip completed steps through a JSON snapshot', () => {
+      const stepper = createStepper({ steps: mockSteps });
+      stepper.state.setCompletedSteps([0, 2]);
+
+      const snapshot = JSON.parse(JSON.stringify(
+        createSnapshot('Stepper', stepper.state.getState(), stepperSnapshotFormat)
+      ));
+      const restored = restoreSnapshot(snapshot, stepperSnapshotFormat);
+
+      expect(restored.completedSteps).toEqual(new Set([0, 2]));
+      expect(restored.steps).toEqual(mockSteps);
+    });
+  });
 });
\ No newline at end of file
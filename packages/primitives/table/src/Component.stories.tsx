@@ -7,7 +7,7 @@ import React from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { createTable } from './index';
 import { reactAdapter } from '@stellarix/react';
-import type { ColumnDef, TableOptions } from './types';
+import type { ColumnDef, TableOptions, TableRow } from './types';
 
 interface Person {
   id: number;
@@ -235,6 +235,139 @@ const TableWrapper = React.forwardRef((props: TableOptions<Person>, ref: any) =>
 
 TableWrapper.displayName = 'Table';
 
+// Wrapper rendering the row model, with filters, grouping and group rows
+const DataGridWrapper = (props: TableOptions<Person>) => {
+  const [table] = React.useState(() => createTable(props));
+  
+  const [state, setState] = React.useState(table.state.getState());
+  React.useEffect(() => {
+    return table.state.subscribe(setState);
+  }, [table]);
+  
+  const { tableUtils } = require('./logic');
+  const rows: TableRow<Person>[] = table.state.getRowModel();
+  const visibleColumns: ColumnDef<Person>[] = tableUtils.getVisibleColumns(state.columns, state.columnVisibility);
+  const departments = Array.from(table.state.getFacetedUniqueValues('department') as Map<string, number>);
+  const departmentFilter: string[] = state.columnFilters.find(filter => filter.id === 'department')?.value ?? [];
+  
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="search"
+          placeholder="Search..."
+          value={state.globalFilter}
+          onChange={table.logic.getInteractionHandlers('globalFilter').onChange}
+          className="border rounded px-2 py-1"
+          {...table.logic.getA11yProps('globalFilter')}
+        />
+        <input
+          type="number"
+          placeholder="Age"
+          data-column-id="age"
+          value={state.columnFilters.find(filter => filter.id === 'age')?.value ?? ''}
+          onChange={table.logic.getInteractionHandlers('filter').onChange}
+          className="border rounded px-2 py-1 w-24"
+          {...table.logic.getA11yProps('filter')('age')}
+        />
+        {departments.map(([department, count]) => (
+          <label key={department} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={departmentFilter.includes(department)}
+              onChange={() => table.state.setColumnFilter(
+                'department',
+                departmentFilter.includes(department)
+                  ? departmentFilter.filter(value => value !== department)
+                  : [...departmentFilter, department]
+              )}
+            />
+            {department} ({count})
+          </label>
+        ))}
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={state.grouping.includes('department')}
+            onChange={() => table.state.toggleGrouping('department')}
+          />
+          Group by department
+        </label>
+      </div>
+      
+      <table className="w-full border-collapse" {...table.logic.getA11yProps('table')}>
+        <thead>
+          <tr>
+            {visibleColumns.map(column => (
+              <th key={column.id} className="border p-2 bg-gray-100" {...table.logic.getA11yProps('th')(column.id)}>
+                {typeof column.header === 'function' ? column.header() : column.header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr
+              key={row.id}
+              className={row.isGroup ? 'bg-gray-50 font-semibold' : 'border-b'}
+              {...table.logic.getA11yProps('row')(rowIndex, row)}
+            >
+              {visibleColumns.map((column, colIndex) => {
+                const cellProps = table.logic.getA11yProps('cell')(colIndex);
+                
+                if (row.isGroup) {
+                  return (
+                    <td key={column.id} className="border p-2" {...cellProps}>
+                      {column.id === row.groupingColumnId ? (
+                        <button
+                          data-row-id={row.id}
+                          onClick={table.logic.getInteractionHandlers('expander').onClick}
+                          {...table.logic.getA11yProps('expander')(row.id)}
+                        >
+                          {state.expanded[row.id] ? '▾' : '▸'} {String(row.groupingValue)} ({row.leafRows.length})
+                        </button>
+                      ) : column.id in row.aggregates ? (
+                        column.cell ? column.cell({ row: row.leafRows[0]!, value: row.aggregates[column.id] }) : String(row.aggregates[column.id])
+                      ) : null}
+                    </td>
+                  );
+                }
+                
+                const value = tableUtils.getCellValue(row.original, column);
+                return (
+                  <td key={column.id} className="border p-2" style={colIndex === 0 ? { paddingLeft: `${row.depth + 0.5}rem` } : undefined} {...cellProps}>
+                    {column.cell ? column.cell({ row: row.original!, value }) : String(value)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => table.state.previousPage()}
+          disabled={!table.state.canPreviousPage()}
+          className="px-3 py-1 border rounded disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <span>
+          Page {state.pagination.pageIndex + 1} of {Math.max(1, table.state.getTotalPages())}
+        </span>
+        <button
+          onClick={() => table.state.nextPage()}
+          disabled={!table.state.canNextPage()}
+          className="px-3 py-1 border rounded disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const meta: Meta<typeof TableWrapper> = {
   title: 'Primitives/Table',
   component: TableWrapper,
@@ -384,6 +517,32 @@ export const FullFeatured: Story = {
   },
 };
 
+// Filters, faceted department counts and department groups with aggregated salaries
+export const GroupingAndFilters: Story = {
+  render: () => (
+    <DataGridWrapper
+      columns={defaultColumns.map(column => {
+        switch (column.id) {
+          case 'age':
+            return { ...column, filterType: 'number' as const, aggregationFn: 'avg' as const, cell: ({ value }) => Math.round(value) };
+          case 'department':
+            return { ...column, filterType: 'enum' as const };
+          case 'salary':
+            return { ...column, aggregationFn: 'sum' as const };
+          case 'id':
+            return { ...column, aggregationFn: 'count' as const };
+          default:
+            return column;
+        }
+      })}
+      data={sampleData}
+      grouping={['department']}
+      expanded={{ 'department:Engineering': true }}
+      pagination={{ pageIndex: 0, pageSize: 20 }}
+    />
+  ),
+};
+
 // Accessibility showcase
 export const AccessibilityShowcase: Story = {
   render: () => (
@@ -0,0 +1,208 @@
+/**
+ * Table Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import { tableUtils } from './logic';
+import { defaultRowModelStages, getCellValue, getRowModel } from './row-model';
+import type { ColumnDef, TableOptions, TableRow, TableState } from './types';
+
+function getVisibleColumns<TData>(state: TableState<TData>): ColumnDef<TData>[] {
+    return tableUtils.getWindowedItems(
+        state.columns.filter(col => state.columnVisibility[col.id] !== false),
+        state.columnWindow
+    );
+}
+
+function getHeaderText(state: TableState, column: ColumnDef): string {
+    const header = typeof column.header === 'function' ? column.header() : column.header;
+    const sort = state.sorting.find(s => s.id === column.id);
+    return sort ? `${header} ${sort.desc ? '↓' : '↑'}` : String(header);
+}
+
+function getCellText(row: TableRow, column: ColumnDef): any {
+    if (row.isGroup) {
+        return row.aggregates[column.id] ?? '';
+    }
+    const value = getCellValue(row.original, column);
+    return column.cell ? column.cell({ row: row.original, value }) : String(value ?? '');
+}
+
+/**
+ * Header and data rows, with selection checkboxes when rows are selectable
+ * and an expander on the grouping cell of group rows. Only the rows and
+ * columns inside the virtual windows render, with spacer rows keeping the
+ * scroll height of the rest.
+ */
+export function createTableAnatomy<TData = any>(
+    options: Partial<TableOptions<TData>> = {}
+): ComponentAnatomy<TableState<TData>> {
+    const stages = options.rowModelStages || defaultRowModelStages;
+    const isGroupingCell = (row: TableRow<TData>, column: ColumnDef<TData>) =>
+        row.isGroup && row.groupingColumnId === column.id;
+
+    return {
+        host: 'table',
+        parts: {
+            root: {
+                element: null,
+            },
+            scrollContainer: {
+                element: 'div',
+                parent: 'root',
+                props: ({ state }) => ({
+                    style: state.rowWindow || state.columnWindow
+                        ? { overflow: 'auto', height: '100%' }
+                        : undefined,
+                }),
+            },
+            table: {
+                element: 'table',
+                parent: 'scrollContainer',
+                props: () => ({
+                    style: { width: '100%', borderCollapse: 'collapse' },
+                }),
+            },
+            thead: {
+                element: 'thead',
+                parent: 'table',
+            },
+            tr: {
+                element: 'tr',
+                parent: 'thead',
+            },
+            selectHeader: {
+                element: 'th',
+                parent: 'tr',
+                when: ({ state }) => state.selectionMode !== 'none',
+                props: () => ({ style: { width: '40px' } }),
+            },
+            selectAll: {
+                element: 'input',
+                parent: 'selectHeader',
+                when: ({ state }) => state.selectionMode === 'multiple',
+                props: ({ a11y }) => ({
+                    type: 'checkbox',
+                    checked: a11y('selectAll')['aria-checked'] === true,
+                }),
+            },
+            th: {
+                element: 'th',
+                parent: 'tr',
+                items: ({ state }) => getVisibleColumns(state),
+                key: ({ item }) => item.id,
+                a11yArgument: ({ item }) => item.id,
+                text: ({ state, item }) => getHeaderText(state, item),
+                props: ({ item }) => ({
+                    'data-column-id': item.id,
+                    style: {
+                        width: item.size ? `${item.size}px` : undefined,
+                        textAlign: 'left',
+                        cursor: item.enableSorting !== false ? 'pointer' : undefined,
+                    },
+                }),
+            },
+            tbody: {
+                element: 'tbody',
+                parent: 'table',
+            },
+            spacerStart: {
+                element: 'tr',
+                parent: 'tbody',
+                when: ({ state }) => !!state.rowWindow && state.rowWindow.paddingStart > 0,
+                props: ({ state }) => ({
+                    'aria-hidden': true,
+                    style: { height: `${state.rowWindow!.paddingStart}px` },
+                }),
+            },
+            row: {
+                element: 'tr',
+                parent: 'tbody',
+                items: ({ state }) => tableUtils.getWindowedItems(getRowModel(state, stages), state.rowWindow),
+                key: ({ item }) => item.id,
+                // Virtualized rows give their index in the whole row model
+                a11yArgument: ({ state, index }) => (state.rowWindow?.startIndex ?? 0) + index!,
+                props: ({ state, item }) => ({
+                    // The row handlers look the row up in the data by its index
+                    'data-row-index': item.index,
+                    'data-row-id': item.id,
+                    'aria-level': state.grouping.length ? item.depth + 1 : undefined,
+                    'aria-expanded': item.isGroup ? !!state.expanded[item.id] : undefined,
+                    'aria-selected': state.selectionMode !== 'none' ? !!state.selection[item.id] : undefined,
+                }),
+            },
+            selectCell: {
+                element: 'td',
+                parent: 'row',
+                when: ({ state }) => state.selectionMode !== 'none',
+            },
+            checkbox: {
+                element: 'input',
+                parent: 'selectCell',
+                when: ({ item }) => !item.isGroup,
+                a11yArgument: ({ item }) => item.id,
+                props: ({ state, item }) => ({
+                    type: 'checkbox',
+                    checked: !!state.selection[item.id],
+                    'data-row-id': item.id,
+                    // The row toggles the selection on click as well
+                    onClick: (event: MouseEvent) => event.stopPropagation(),
+                }),
+            },
+            cell: {
+                element: 'td',
+                parent: 'row',
+                items: ({ state }) => getVisibleColumns(state),
+                key: ({ item }) => item.id,
+                a11yArgument: ({ state, index }) => (state.columnWindow?.startIndex ?? 0) + index!,
+                // The grouping cell of a group row holds the expander instead
+                text: ({ item, parent }) =>
+                    isGroupingCell(parent!.item, item) ? undefined : getCellText(parent!.item, item),
+                props: ({ state, item, index, parent }) => ({
+                    'data-row-index': parent!.item.index,
+                    'data-column-id': item.id,
+                    'data-focused': state.focusedCell?.row === parent!.item.index &&
+                        state.focusedCell?.col === (state.columnWindow?.startIndex ?? 0) + index! || undefined,
+                    style: {
+                        paddingLeft: isGroupingCell(parent!.item, item) ? `${parent!.item.depth * 16}px` : undefined,
+                    },
+                }),
+            },
+            expander: {
+                element: 'button',
+                parent: 'cell',
+                when: ({ item, parent }) => isGroupingCell(parent!.item, item),
+                a11yArgument: ({ parent }) => parent!.item.id,
+                text: ({ state, parent }) => state.expanded[parent!.item.id] ? '▾' : '▸',
+                props: ({ parent }) => ({
+                    type: 'button',
+                    'data-row-id': parent!.item.id,
+                }),
+            },
+            groupValue: {
+                element: 'span',
+                parent: 'cell',
+                when: ({ item, parent }) => isGroupingCell(parent!.item, item),
+                text: ({ parent }) => {
+                    const row: TableRow<TData> = parent!.item;
+                    return `${String(row.groupingValue ?? '')} (${row.leafRows.length})`;
+                },
+            },
+            spacerEnd: {
+                element: 'tr',
+                parent: 'tbody',
+                when: ({ state }) => !!state.rowWindow && state.rowWindow.paddingEnd > 0,
+                props: ({ state }) => ({
+                    'aria-hidden': true,
+                    style: { height: `${state.rowWindow!.paddingEnd}px` },
+                }),
+            },
+        },
+        bindings: {
+            sorting: 'sorting',
+            selection: 'selection',
+            expanded: 'expanded',
+        },
+    };
+}
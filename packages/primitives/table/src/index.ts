@@ -3,8 +3,9 @@
  * Main entry point and public API
  */
 
-import { createTableState } from './state';
+import { createTableState, tableSnapshotFormat } from './state';
 import { createTableLogic, tableUtils } from './logic';
+import { createTableAnatomy } from './anatomy';
 import type { TableOptions, TableState, TableEvents } from './types';
 import type { ComponentCore } from '@stellarix-ui/core';
 
@@ -24,21 +25,27 @@ export function createTable<TData = any>(options: TableOptions<TData> = { column
     return {
         state,
         logic,
+        anatomy: createTableAnatomy(options),
         metadata: {
             name: 'Table',
             version: '1.0.0',
+            snapshot: tableSnapshotFormat,
             accessibility: {
                 role: 'table',
                 keyboardShortcuts: ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Space', 'Enter'],
-                ariaAttributes: ['aria-label', 'aria-rowcount', 'aria-colcount', 'aria-sort', 'aria-checked', 'aria-busy'],
+                ariaAttributes: ['aria-label', 'aria-rowcount', 'aria-colcount', 'aria-sort', 'aria-checked', 'aria-busy', 'aria-expanded', 'aria-level'],
                 wcagLevel: 'AA',
-                patterns: ['table', 'grid']
+                patterns: ['table', 'grid', 'treegrid']
             },
             events: {
-                supported: ['sortingChange', 'selectionChange', 'columnVisibilityChange', 'paginationChange', 'rowClick', 'cellClick', 'focusedCellChange'],
+                supported: ['sortingChange', 'columnFiltersChange', 'globalFilterChange', 'groupingChange', 'expandedChange', 'selectionChange', 'columnVisibilityChange', 'paginationChange', 'rowClick', 'cellClick', 'focusedCellChange'],
                 required: [],
                 custom: {
                     sortingChange: { description: 'Fired when sorting state changes' },
+                    columnFiltersChange: { description: 'Fired when column filters change' },
+                    globalFilterChange: { description: 'Fired when the global filter changes' },
+                    groupingChange: { description: 'Fired when grouping changes' },
+                    expandedChange: { description: 'Fired when group rows expand or collapse' },
                     selectionChange: { description: 'Fired when selection state changes' },
                     columnVisibilityChange: { description: 'Fired when column visibility changes' },
                     paginationChange: { description: 'Fired when pagination state changes' },
@@ -88,7 +95,8 @@ export function createTable<TData = any>(options: TableOptions<TData> = { column
                 logic,
                 metadata: {
                     name: 'Table',
-                    version: '1.0.0'
+                    version: '1.0.0',
+                    snapshot: tableSnapshotFormat
                 }
             });
         }
@@ -103,6 +111,13 @@ export type {
     TableProps,
     ColumnDef,
     SortingState,
+    ColumnFilter,
+    FilterType,
+    FilterFn,
+    AggregationType,
+    AggregationFn,
+    TableRow,
+    RowModelStage,
     PaginationState,
     CellPosition,
     SelectionMode,
@@ -112,9 +127,19 @@ export type {
 } from './types';
 
 export type { TableStateStore } from './state';
+export { tableSnapshotFormat } from './state';
+export { createTableAnatomy } from './anatomy';
 
 // Export utilities
 export { tableUtils };
+export {
+    filterRows,
+    sortRows,
+    groupRows,
+    expandRows,
+    paginateRows,
+    defaultRowModelStages
+} from './row-model';
 
 // Default export for convenience
 export default createTable;
\ No newline at end of file
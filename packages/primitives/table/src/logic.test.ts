@@ -12,8 +12,10 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createTableLogic, tableUtils } from './logic';
+import { groupRows } from './row-model';
 import { createTableState } from './state';
 import type { TableOptions, ColumnDef } from './types';
+import { getAnnouncer } from '@stellarix-ui/utils';
 
 interface TestData {
     id: number;
@@ -74,6 +76,23 @@ describe('Table Logic', () => {
         expect(mockOnSortingChange).toHaveBeenCalledWith([{ id: 'name', desc: false }]);
     });
     
+    it('should announce the primary sort column', () => {
+        vi.useFakeTimers();
+        // Start from a fresh shared announcer, created under fake timers
+        getAnnouncer().destroy();
+        
+        logic.handleEvent('sortingChange', { 
+            sorting: [{ id: 'age', desc: true }, { id: 'name', desc: false }]
+        });
+        vi.advanceTimersByTime(200);
+        
+        const region = document.querySelector('[data-stellarix-announcer="polite"]');
+        expect(region?.textContent).toBe('Sorted by Age descending');
+        
+        getAnnouncer().destroy();
+        vi.useRealTimers();
+    });
+    
     it('should handle selectionChange events', () => {
         logic.handleEvent('selectionChange', { 
             selection: { '1': true, '2': false }
@@ -285,6 +304,101 @@ describe('Table Logic', () => {
     });
 });
 
+describe('Table Virtualization', () => {
+    const manyRows: TestData[] = Array.from({ length: 1000 }, (_, index) => ({
+        id: index,
+        name: `Person ${index}`,
+        age: 20 + (index % 50),
+        email: `person${index}@example.com`
+    }));
+    
+    const setupVirtual = (extra: Partial<TableOptions<TestData>> = {}) => {
+        const options: TableOptions<TestData> = {
+            columns: testColumns,
+            data: manyRows,
+            virtualize: { itemSize: 40, viewportSize: 400, overscan: 2 },
+            ...extra
+        };
+        const stateStore = createTableState(options);
+        const logic = createTableLogic(stateStore, options);
+        const listener = vi.fn();
+        stateStore.subscribe(listener);
+        logic.connect(stateStore);
+        logic.initialize();
+        return { stateStore, logic, listener, latest: () => listener.mock.calls[listener.mock.calls.length - 1]![0] };
+    };
+    
+    it('should render only the rows in view', () => {
+        const { latest } = setupVirtual();
+        
+        expect(latest().rowWindow).toEqual({
+            startIndex: 0,
+            endIndex: 12,
+            paddingStart: 0,
+            paddingEnd: 988 * 40,
+            totalSize: 40000
+        });
+        expect(latest().columnWindow).toBeNull();
+    });
+    
+    it('should move the window with the focused cell', () => {
+        const { stateStore, logic, latest } = setupVirtual();
+        stateStore.setFocusedCell({ row: 10, col: 0 });
+        
+        const handlers = logic.getInteractionHandlers('table');
+        for (let step = 0; step < 5; step++) {
+            handlers.onKeyDown({ key: 'ArrowDown', preventDefault: vi.fn() } as any);
+        }
+        
+        expect(latest().focusedCell).toEqual({ row: 15, col: 0 });
+        expect(latest().rowWindow).toEqual(expect.objectContaining({
+            startIndex: 4,
+            endIndex: 18,
+            paddingStart: 160
+        }));
+    });
+    
+    it('should follow the number of rows', () => {
+        const { stateStore, latest } = setupVirtual();
+        stateStore.setData(manyRows.slice(0, 5));
+        
+        expect(latest().rowWindow).toEqual(expect.objectContaining({
+            endIndex: 5,
+            paddingEnd: 0,
+            totalSize: 200
+        }));
+    });
+    
+    it('should virtualize columns by their size', () => {
+        const { stateStore, latest } = setupVirtual({
+            columns: testColumns.map(column => ({ ...column, size: 200 })),
+            virtualize: false,
+            virtualizeColumns: { viewportSize: 300, overscan: 0 }
+        });
+        
+        expect(latest().rowWindow).toBeNull();
+        expect(latest().columnWindow).toEqual(expect.objectContaining({ startIndex: 0, endIndex: 2, totalSize: 800 }));
+        
+        stateStore.setFocusedCell({ row: 0, col: 3 });
+        
+        expect(latest().columnWindow).toEqual(expect.objectContaining({ startIndex: 2, endIndex: 4, paddingStart: 400 }));
+    });
+    
+    it('should give rows and cells their position', () => {
+        const { logic } = setupVirtual({ virtualizeColumns: true });
+        
+        expect((logic.getA11yProps('row') as any)(499)['aria-rowindex']).toBe(501);
+        expect((logic.getA11yProps('cell') as any)(2)['aria-colindex']).toBe(3);
+        expect(logic.getA11yProps('scrollContainer').id).toMatch(/-scroll$/);
+    });
+    
+    it('should not give positions when every row renders', () => {
+        const { logic } = setupVirtual({ virtualize: false });
+        
+        expect((logic.getA11yProps('row') as any)(0)['aria-rowindex']).toBeUndefined();
+    });
+});
+
 describe('Table Utils', () => {
     it('should sort data correctly', () => {
         const sorted = tableUtils.getSortedData(
@@ -350,4 +464,365 @@ describe('Table Utils', () => {
         expect(visible[0].id).toBe('id');
         expect(visible[1].id).toBe('age');
     });
+    
+    it('should window rows', () => {
+        const window = { startIndex: 1, endIndex: 3, paddingStart: 40, paddingEnd: 0, totalSize: 120 };
+        
+        expect(tableUtils.getWindowedItems(testData, window).map(row => row.id)).toEqual([2, 3]);
+        expect(tableUtils.getWindowedItems(testData, null)).toBe(testData);
+    });
+});
+
+describe('Table Filtering and Grouping', () => {
+    interface Employee {
+        name: string;
+        department: string;
+        level: string;
+        salary: number;
+    }
+    
+    const employeeColumns: ColumnDef<Employee>[] = [
+        { id: 'name', header: 'Name', accessorKey: 'name' },
+        { id: 'department', header: 'Department', accessorKey: 'department', filterType: 'enum' },
+        { id: 'level', header: 'Level', accessorKey: 'level', enableGlobalFilter: false },
+        { id: 'salary', header: 'Salary', accessorKey: 'salary', filterType: 'number', aggregationFn: 'sum' },
+        { id: 'count', header: 'Count', accessorKey: 'salary', aggregationFn: 'count' }
+    ];
+    
+    const employees: Employee[] = [
+        { name: 'Ann', department: 'Sales', level: 'Senior', salary: 100 },
+        { name: 'Ben', department: 'Engineering', level: 'Junior', salary: 80 },
+        { name: 'Cid', department: 'Sales', level: 'Junior', salary: 60 },
+        { name: 'Dee', department: 'Engineering', level: 'Senior', salary: 120 },
+        { name: 'Eve', department: 'Sales', level: 'Senior', salary: 90 }
+    ];
+    
+    const setup = (extra: Partial<TableOptions<Employee>> = {}) => {
+        const options: TableOptions<Employee> = {
+            columns: employeeColumns,
+            data: employees,
+            ...extra
+        };
+        const stateStore = createTableState(options);
+        const logic = createTableLogic(stateStore, options);
+        logic.connect(stateStore);
+        logic.initialize();
+        return { stateStore, logic };
+    };
+    
+    it('should filter a column from its input', () => {
+        const onColumnFiltersChange = vi.fn();
+        const { logic } = setup({ onColumnFiltersChange });
+        
+        logic.getInteractionHandlers('filter').onChange({
+            currentTarget: { dataset: { columnId: 'salary' }, value: '80' }
+        } as any);
+        expect(onColumnFiltersChange).toHaveBeenCalledTimes(1);
+        expect(onColumnFiltersChange).toHaveBeenLastCalledWith([{ id: 'salary', value: 80 }]);
+        
+        logic.getInteractionHandlers('filter').onChange({
+            currentTarget: { dataset: { columnId: 'salary' }, value: '' }
+        } as any);
+        expect(onColumnFiltersChange).toHaveBeenLastCalledWith([]);
+    });
+    
+    it('should set the global filter from its input', () => {
+        const onGlobalFilterChange = vi.fn();
+        const { logic } = setup({ onGlobalFilterChange });
+        
+        logic.getInteractionHandlers('globalFilter').onChange({
+            currentTarget: { value: 'sales' }
+        } as any);
+        
+        expect(onGlobalFilterChange).toHaveBeenCalledTimes(1);
+        expect(onGlobalFilterChange).toHaveBeenCalledWith('sales');
+    });
+    
+    it('should handle filter and grouping events', () => {
+        const onColumnFiltersChange = vi.fn();
+        const onGroupingChange = vi.fn();
+        const onExpandedChange = vi.fn();
+        const { logic } = setup({ onColumnFiltersChange, onGroupingChange, onExpandedChange });
+        
+        logic.handleEvent('columnFiltersChange', { columnFilters: [{ id: 'name', value: 'e' }] });
+        logic.handleEvent('groupingChange', { grouping: ['department'] });
+        logic.handleEvent('expandedChange', { expanded: { 'department:string:Sales': true } });
+        
+        expect(onColumnFiltersChange).toHaveBeenCalledWith([{ id: 'name', value: 'e' }]);
+        expect(onGroupingChange).toHaveBeenCalledWith(['department']);
+        expect(onExpandedChange).toHaveBeenCalledWith({ 'department:string:Sales': true });
+    });
+    
+    it('should expand group rows from their expander', () => {
+        const onExpandedChange = vi.fn();
+        const { logic } = setup({ grouping: ['department'], onExpandedChange });
+        const mockEvent = {
+            currentTarget: { dataset: { rowId: 'department:string:Sales' } },
+            stopPropagation: vi.fn()
+        } as any;
+        
+        logic.getInteractionHandlers('expander').onClick(mockEvent);
+        
+        expect(mockEvent.stopPropagation).toHaveBeenCalled();
+        expect(onExpandedChange).toHaveBeenCalledTimes(1);
+        expect(onExpandedChange).toHaveBeenCalledWith({ 'department:string:Sales': true });
+        expect((logic.getA11yProps('expander') as any)('department:string:Sales')).toEqual({
+            role: 'button',
+            'aria-expanded': true,
+            'aria-label': 'Collapse group',
+            tabIndex: 0
+        });
+    });
+    
+    it('should expand group rows with Enter and Space on their expander', () => {
+        const onExpandedChange = vi.fn();
+        const { logic } = setup({ grouping: ['department'], onExpandedChange });
+        const keyDown = (key: string) => {
+            const event = {
+                key,
+                currentTarget: { dataset: { rowId: 'department:string:Sales' } },
+                preventDefault: vi.fn(),
+                stopPropagation: vi.fn()
+            } as any;
+            logic.getInteractionHandlers('expander').onKeyDown!(event);
+            return event;
+        };
+        
+        const enter = keyDown('Enter');
+        expect(enter.preventDefault).toHaveBeenCalled();
+        expect(enter.stopPropagation).toHaveBeenCalled();
+        expect(onExpandedChange).toHaveBeenLastCalledWith({ 'department:string:Sales': true });
+        
+        keyDown(' ');
+        expect(onExpandedChange).toHaveBeenLastCalledWith({ 'department:string:Sales': false });
+        
+        const tab = keyDown('Tab');
+        expect(tab.preventDefault).not.toHaveBeenCalled();
+        expect(onExpandedChange).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should select all rows passing the filters', () => {
+        const onSelectionChange = vi.fn();
+        const { logic } = setup({
+            selectionMode: 'multiple',
+            columnFilters: [{ id: 'department', value: ['Engineering'] }],
+            selection: { '0': true },
+            onSelectionChange
+        });
+        
+        expect(logic.getA11yProps('selectAll')['aria-checked']).toBe(false);
+        
+        logic.getInteractionHandlers('selectAll').onChange!({} as any);
+        
+        // Ann's row, filtered out, stays selected
+        expect(onSelectionChange).toHaveBeenLastCalledWith({ '0': true, '1': true, '3': true });
+        expect(logic.getA11yProps('selectAll')['aria-checked']).toBe(true);
+        
+        logic.getInteractionHandlers('selectAll').onChange!({} as any);
+        
+        expect(onSelectionChange).toHaveBeenLastCalledWith({ '0': true, '1': false, '3': false });
+    });
+    
+    it('should give grouped rows their level and expanded state', () => {
+        const { stateStore, logic } = setup({
+            grouping: ['department'],
+            expanded: { 'department:string:Sales': true }
+        });
+        const [sales, salesRow] = stateStore.getRowModel();
+        
+        expect(logic.getA11yProps('table')).toMatchObject({ role: 'treegrid', 'aria-rowcount': 5 });
+        expect((logic.getA11yProps('row') as any)(0, sales)).toMatchObject({
+            'aria-level': 1,
+            'aria-expanded': true
+        });
+        expect((logic.getA11yProps('row') as any)(1, salesRow)).toMatchObject({
+            'aria-level': 2,
+            'aria-expanded': undefined
+        });
+        expect((logic.getA11yProps('cell') as any)(0).role).toBe('gridcell');
+    });
+    
+    it('should keep table roles without grouping', () => {
+        const { logic } = setup({ columnFilters: [{ id: 'department', value: ['Sales'] }] });
+        
+        expect(logic.getA11yProps('table')).toMatchObject({ role: 'table', 'aria-rowcount': 3 });
+        expect((logic.getA11yProps('row') as any)(0, undefined)).toMatchObject({
+            'aria-level': undefined,
+            'aria-expanded': undefined
+        });
+        expect(logic.getA11yProps('td')).toEqual({ role: 'cell' });
+    });
+    
+    it('should label filter inputs', () => {
+        const { logic } = setup();
+        
+        expect((logic.getA11yProps('filter') as any)('salary')).toEqual({ 'aria-label': 'Filter Salary' });
+        expect(logic.getA11yProps('globalFilter')).toEqual({ role: 'searchbox', 'aria-label': 'Search table' });
+    });
+    
+    it('should virtualize the filtered rows', () => {
+        const { stateStore } = setup({ virtualize: { itemSize: 40, viewportSize: 400, overscan: 0 } });
+        const listener = vi.fn();
+        stateStore.subscribe(listener);
+        
+        stateStore.setGlobalFilter('engineering');
+        
+        expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+            rowWindow: expect.objectContaining({ endIndex: 2, totalSize: 80 })
+        }));
+    });
+});
+
+describe('Table Row Model', () => {
+    interface Sale {
+        region: string;
+        product: string;
+        units: number;
+    }
+    
+    const saleColumns: ColumnDef<Sale>[] = [
+        { id: 'region', header: 'Region', accessorKey: 'region' },
+        { id: 'product', header: 'Product', accessorKey: 'product', filterType: 'enum' },
+        { id: 'units', header: 'Units', accessorKey: 'units', filterType: 'range', aggregationFn: 'avg' },
+        {
+            id: 'spread',
+            header: 'Spread',
+            accessorKey: 'units',
+            aggregationFn: (values) => Math.max(...values) - Math.min(...values)
+        }
+    ];
+    
+    const sales: Sale[] = [
+        { region: 'North', product: 'Tea', units: 10 },
+        { region: 'South', product: 'Coffee', units: 30 },
+        { region: 'North', product: 'Coffee', units: 20 },
+        { region: 'South', product: 'Tea', units: 5 },
+        { region: 'North', product: 'Tea', units: 40 }
+    ];
+    
+    const getState = (extra: Partial<TableOptions<Sale>> = {}) =>
+        createTableState<Sale>({ columns: saleColumns, data: sales, ...extra }).getState();
+    
+    it('should filter by text, number, range and enum', () => {
+        const ids = (extra: Partial<TableOptions<Sale>>) =>
+            tableUtils.getRowModel(getState(extra)).map(row => row.id);
+        
+        expect(ids({ columnFilters: [{ id: 'region', value: 'nor' }] })).toEqual(['0', '2', '4']);
+        expect(ids({ columnFilters: [{ id: 'units', value: [10, 30] }] })).toEqual(['0', '1', '2']);
+        expect(ids({ columnFilters: [{ id: 'units', value: [null, 10] }] })).toEqual(['0', '3']);
+        expect(ids({ columnFilters: [{ id: 'product', value: ['Coffee'] }] })).toEqual(['1', '2']);
+        expect(ids({ columnFilters: [{ id: 'product', value: 'Coffee' }] })).toEqual(['1', '2']);
+        expect(ids({
+            columns: saleColumns.map(col => col.id === 'units' ? { ...col, filterType: 'number' as const } : col),
+            columnFilters: [{ id: 'units', value: 20 }]
+        })).toEqual(['2']);
+        expect(ids({ columnFilters: [{ id: 'region', value: 'north' }, { id: 'product', value: ['Tea'] }] }))
+            .toEqual(['0', '4']);
+    });
+    
+    it('should filter with custom filters and the global filter', () => {
+        const columns = saleColumns.map(col => col.id === 'units'
+            ? { ...col, filterType: (value: number, minimum: number) => value >= minimum }
+            : col
+        );
+        
+        expect(tableUtils.getRowModel(getState({
+            columns,
+            columnFilters: [{ id: 'units', value: 25 }]
+        })).map(row => row.id)).toEqual(['1', '4']);
+        expect(tableUtils.getRowModel(getState({ globalFilter: 'COFF' })).map(row => row.id)).toEqual(['1', '2']);
+    });
+    
+    it('should group rows with aggregates', () => {
+        const rows = tableUtils.getRowModel(getState({ grouping: ['region'] }));
+        
+        expect(rows.map(row => row.id)).toEqual(['region:string:North', 'region:string:South']);
+        expect(rows[0]).toMatchObject({
+            isGroup: true,
+            depth: 0,
+            index: -1,
+            original: null,
+            groupingColumnId: 'region',
+            groupingValue: 'North',
+            aggregates: { units: 70 / 3, spread: 30 }
+        });
+        expect(rows[0]!.leafRows).toEqual([sales[0], sales[2], sales[4]]);
+        expect(rows[1]!.aggregates).toEqual({ units: 17.5, spread: 25 });
+    });
+    
+    it('should keep groups of values that read the same apart', () => {
+        const state = createTableState<{ code: any }>({
+            columns: [{ id: 'code', header: 'Code', accessorKey: 'code' }],
+            data: [{ code: 1 }, { code: '1' }, { code: null }, { code: 'null' }],
+            grouping: ['code']
+        }).getState();
+        
+        expect(tableUtils.getRowModel(state).map(row => row.id)).toEqual([
+            'code:number:1',
+            'code:string:1',
+            'code:object:null',
+            'code:string:null'
+        ]);
+    });
+    
+    it('should aggregate sums, counts and extremes', () => {
+        const columns: ColumnDef<Sale>[] = [
+            { id: 'region', header: 'Region', accessorKey: 'region' },
+            { id: 'sum', header: 'Sum', accessorKey: 'units', aggregationFn: 'sum' },
+            { id: 'count', header: 'Count', accessorKey: 'units', aggregationFn: 'count' },
+            { id: 'min', header: 'Min', accessorKey: 'units', aggregationFn: 'min' },
+            { id: 'max', header: 'Max', accessorKey: 'units', aggregationFn: 'max' }
+        ];
+        const [north] = tableUtils.getRowModel(getState({ columns, grouping: ['region'] }));
+        
+        expect(north!.aggregates).toEqual({ sum: 70, count: 3, min: 10, max: 40 });
+    });
+    
+    it('should nest groups and list the rows of expanded groups', () => {
+        const rows = tableUtils.getRowModel(getState({
+            grouping: ['region', 'product'],
+            expanded: { 'region:string:North': true, 'region:string:North>product:string:Tea': true },
+            sorting: [{ id: 'units', desc: true }]
+        }));
+        
+        expect(rows.map(row => [row.id, row.depth])).toEqual([
+            ['region:string:North', 0],
+            ['region:string:North>product:string:Tea', 1],
+            ['4', 2],
+            ['0', 2],
+            ['region:string:North>product:string:Coffee', 1],
+            ['region:string:South', 0]
+        ]);
+        expect(rows[1]!.aggregates.units).toBe(25);
+    });
+    
+    it('should paginate the expanded rows', () => {
+        const rows = tableUtils.getRowModel(getState({
+            grouping: ['region'],
+            expanded: { 'region:string:North': true },
+            pagination: { pageIndex: 1, pageSize: 3 }
+        }));
+        
+        expect(rows.map(row => row.id)).toEqual(['4', 'region:string:South']);
+    });
+    
+    it('should run custom stages', () => {
+        const rows = tableUtils.getRowModel(getState({ grouping: ['region'] }), [groupRows]);
+        
+        expect(rows).toHaveLength(2);
+        expect(rows[0]!.subRows.map(row => row.id)).toEqual(['0', '2', '4']);
+    });
+    
+    it('should count unique values among the other filters', () => {
+        const state = getState({
+            columnFilters: [
+                { id: 'product', value: ['Tea'] },
+                { id: 'units', value: [null, 20] }
+            ]
+        });
+        
+        expect(tableUtils.getFacetedUniqueValues(state, 'product')).toEqual(new Map([['Tea', 2], ['Coffee', 1]]));
+        expect(tableUtils.getFacetedUniqueValues(state, 'region')).toEqual(new Map([['North', 1], ['South', 1]]));
+        expect(tableUtils.getFacetedUniqueValues(state, 'missing')).toEqual(new Map());
+    });
 });
\ No newline at end of file
@@ -3,50 +3,31 @@
  * Handles interactions and business logic for the table component
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
-import { generateComponentId } from '@stellarix-ui/utils';
-import type { LogicLayer } from '@stellarix-ui/core';
-import type { TableState, TableEvents, TableOptions, ColumnDef } from './types';
+import { LogicLayerBuilder, createComponentId, createVirtualizer } from '@stellarix-ui/core';
+import type { LogicLayer, VirtualWindow } from '@stellarix-ui/core';
+import { announce } from '@stellarix-ui/utils';
+import type { TableState, TableEvents, TableOptions, ColumnDef, SortingState, TableRow } from './types';
 import type { TableStateStore } from './state';
+import {
+    defaultRowModelStages,
+    getCellValue,
+    getFacetedUniqueValues,
+    getFilteredRows,
+    getRowCount,
+    getRowModel,
+    sortComparator
+} from './row-model';
 
 /**
- * Utility to get cell value from row data
+ * Default sort announcement, naming the primary sort column
  */
-function getCellValue<TData>(
-    row: TData,
-    column: ColumnDef<TData>
-): any {
-    if (column.accessorFn) {
-        return column.accessorFn(row);
-    }
-    if (column.accessorKey && typeof row === 'object' && row !== null) {
-        return (row as any)[column.accessorKey];
-    }
-    return undefined;
-}
-
-/**
- * Sort comparator function
- */
-function sortComparator<TData>(
-    a: TData,
-    b: TData,
-    columnId: string,
-    columns: ColumnDef<TData>[],
-    desc: boolean
-): number {
-    const column = columns.find(col => col.id === columnId);
-    if (!column) return 0;
+function describeSorting<TData>(sorting: SortingState[], columns: ColumnDef<TData>[]): string {
+    const [primary] = sorting;
+    if (!primary) return 'Sorting removed';
     
-    const aValue = getCellValue(a, column);
-    const bValue = getCellValue(b, column);
-    
-    if (aValue === bValue) return 0;
-    if (aValue === null || aValue === undefined) return 1;
-    if (bValue === null || bValue === undefined) return -1;
-    
-    const result = aValue < bValue ? -1 : 1;
-    return desc ? -result : result;
+    const column = columns.find(col => col.id === primary.id);
+    const name = typeof column?.header === 'string' ? column.header : primary.id;
+    return `Sorted by ${name} ${primary.desc ? 'descending' : 'ascending'}`;
 }
 
 /**
@@ -56,22 +37,167 @@ export function createTableLogic<TData = any>(
     state: TableStateStore<TData>,
     options: TableOptions<TData> = { columns: [], data: [] }
 ): LogicLayer<TableState<TData>, TableEvents<TData>> {
-    const componentId = generateComponentId('table');
+    const componentId = createComponentId('table');
+    const stages = options.rowModelStages || defaultRowModelStages;
+    const scrollContainerId = `${componentId}-scroll`;
+    const getVisibleColumns = (currentState: TableState<TData>) =>
+        currentState.columns.filter(col => currentState.columnVisibility[col.id] !== false);
+    
+    // Rows and columns render only the part in view when virtualized
+    const rowOptions = options.virtualize === true ? {} : options.virtualize || null;
+    const columnOptions = options.virtualizeColumns === true ? {} : options.virtualizeColumns || null;
+    const rowVirtualizer = rowOptions
+        ? createVirtualizer({
+            count: getRowCount(state.getState(), stages),
+            itemSize: rowOptions.itemSize ?? 40,
+            overscan: rowOptions.overscan ?? 3,
+            viewportSize: rowOptions.viewportSize ?? 400
+        })
+        : null;
+    const columnVirtualizer = columnOptions
+        ? createVirtualizer({
+            count: getVisibleColumns(state.getState()).length,
+            itemSize: columnOptions.itemSize
+                ?? ((index: number) => getVisibleColumns(state.getState())[index]?.size ?? 150),
+            overscan: columnOptions.overscan ?? 1,
+            viewportSize: columnOptions.viewportSize ?? 800,
+            horizontal: true
+        })
+        : null;
+    let scrollContainer: HTMLElement | null = null;
+    let stopObserving: Array<() => void> = [];
+    const unsubscribers: Array<() => void> = [];
+    
+    /**
+     * Follows the scrolling of the element around the table, found by the id
+     * of its 'scrollContainer' props when it has not scrolled yet
+     */
+    const observeScrollContainer = (element?: EventTarget | null) => {
+        const container = element ?? (typeof document !== 'undefined' ? document.getElementById(scrollContainerId) : null);
+        if (!(container instanceof HTMLElement) || container === scrollContainer) return;
+        
+        stopObserving.forEach(stop => stop());
+        stopObserving = [];
+        scrollContainer = container;
+        [rowVirtualizer, columnVirtualizer].forEach(virtualizer => {
+            if (virtualizer) {
+                const offset = virtualizer.getScrollOffset();
+                stopObserving.push(virtualizer.observe(container));
+                if (!element) {
+                    virtualizer.scrollToOffset(offset);
+                }
+            }
+        });
+        
+        if (rowOptions?.measure) {
+            rowVirtualizer!.measureElements(container.querySelectorAll('tbody [data-index]'));
+        }
+        if (columnOptions?.measure) {
+            columnVirtualizer!.measureElements(container.querySelectorAll('thead [data-index]'));
+        }
+    };
     
     return new LogicLayerBuilder<TableState<TData>, TableEvents<TData>>()
+        .onInitialize((store) => {
+            if (!rowVirtualizer && !columnVirtualizer) return;
+            
+            // The windows follow the rows and visible columns, and the focused
+            // cell is scrolled into view so arrow keys move the windows
+            let { data, columnFilters, globalFilter, grouping, expanded, columns, columnVisibility, focusedCell } = store.getState();
+            if (rowVirtualizer) {
+                state.setRowWindow(rowVirtualizer.getWindow());
+                unsubscribers.push(rowVirtualizer.subscribe(rowWindow => state.setRowWindow(rowWindow)));
+            }
+            if (columnVirtualizer) {
+                state.setColumnWindow(columnVirtualizer.getWindow());
+                unsubscribers.push(columnVirtualizer.subscribe(columnWindow => state.setColumnWindow(columnWindow)));
+            }
+            
+            unsubscribers.push(store.subscribe((current) => {
+                if (
+                    current.data !== data ||
+                    current.columnFilters !== columnFilters ||
+                    current.globalFilter !== globalFilter ||
+                    current.grouping !== grouping ||
+                    current.expanded !== expanded
+                ) {
+                    ({ data, columnFilters, globalFilter, grouping, expanded } = current);
+                    rowVirtualizer?.setCount(getRowCount(current, stages));
+                }
+                if (current.columns !== columns || current.columnVisibility !== columnVisibility) {
+                    columns = current.columns;
+                    columnVisibility = current.columnVisibility;
+                    columnVirtualizer?.setCount(getVisibleColumns(current).length);
+                }
+                if (current.focusedCell !== focusedCell) {
+                    focusedCell = current.focusedCell;
+                    if (focusedCell) {
+                        observeScrollContainer();
+                        rowVirtualizer?.scrollToIndex(focusedCell.row);
+                        columnVirtualizer?.scrollToIndex(focusedCell.col);
+                    }
+                }
+            }));
+        })
+        
+        .onCleanup(() => {
+            unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+            stopObserving.forEach(stop => stop());
+            stopObserving = [];
+            scrollContainer = null;
+        })
+        
         .onEvent('sortingChange', (currentState, payload) => {
-            const sorting = payload && 'sorting' in payload ? payload.sorting : [];
+            const sorting = payload && 'sorting' in payload ? payload.sorting : currentState.sorting;
             state.setSorting(sorting);
             
             if (options.onSortingChange) {
                 options.onSortingChange(sorting);
             }
             
+            if (options.sortAnnouncement !== false) {
+                announce((options.sortAnnouncement ?? describeSorting)(sorting, currentState.columns));
+            }
+            
+            return null;
+        })
+        
+        // Interactions update the state before their event, which then
+        // carries the DOM event instead of a payload
+        .onEvent('columnFiltersChange', (_currentState, payload) => {
+            if (payload && 'columnFilters' in payload) {
+                state.setColumnFilters(payload.columnFilters);
+            }
+            
+            return null;
+        })
+        
+        .onEvent('globalFilterChange', (_currentState, payload) => {
+            if (payload && 'globalFilter' in payload) {
+                state.setGlobalFilter(payload.globalFilter);
+            }
+            
+            return null;
+        })
+        
+        .onEvent('groupingChange', (_currentState, payload) => {
+            if (payload && 'grouping' in payload) {
+                state.setGrouping(payload.grouping);
+            }
+            
+            return null;
+        })
+        
+        .onEvent('expandedChange', (_currentState, payload) => {
+            if (payload && 'expanded' in payload) {
+                state.setExpanded(payload.expanded);
+            }
+            
             return null;
         })
         
         .onEvent('selectionChange', (currentState, payload) => {
-            const selection = payload && 'selection' in payload ? payload.selection : {};
+            const selection = payload && 'selection' in payload ? payload.selection : currentState.selection;
             state.setSelection(selection);
             
             if (options.onSelectionChange) {
@@ -82,7 +208,7 @@ export function createTableLogic<TData = any>(
         })
         
         .onEvent('columnVisibilityChange', (currentState, payload) => {
-            const visibility = payload && 'visibility' in payload ? payload.visibility : {};
+            const visibility = payload && 'visibility' in payload ? payload.visibility : currentState.columnVisibility;
             state.setColumnVisibility(visibility);
             
             if (options.onColumnVisibilityChange) {
@@ -127,16 +253,17 @@ export function createTableLogic<TData = any>(
         })
         
         .onEvent('focusedCellChange', (currentState, payload) => {
-            const cell = payload && 'cell' in payload ? payload.cell : null;
+            const cell = payload && 'cell' in payload ? payload.cell : currentState.focusedCell;
             state.setFocusedCell(cell);
             
             return null;
         })
         
+        // Grouped rows nest, which tables cannot convey but tree grids can
         .withA11y('table', (state) => ({
-            role: 'table',
+            role: state.grouping.length ? 'treegrid' : 'table',
             'aria-label': 'Data table',
-            'aria-rowcount': state.data.length,
+            'aria-rowcount': getRowCount(state, stages),
             'aria-colcount': state.columns.filter(col => 
                 state.columnVisibility[col.id] !== false
             ).length,
@@ -169,7 +296,27 @@ export function createTableLogic<TData = any>(
         })
         
         .withA11y('td', (state) => ({
-            role: 'cell'
+            role: state.grouping.length ? 'gridcell' : 'cell'
+        }))
+        
+        // Element that scrolls the table when virtualized
+        .withA11y('scrollContainer', () => ({
+            id: scrollContainerId
+        }))
+        
+        // Virtualized rows and cells give their position, as only part of them
+        // render, and grouped rows their level and whether they are expanded
+        .withA11y('row', (state) => (rowIndex: number, row?: TableRow<TData>) => ({
+            role: 'row',
+            // The header row is row 1
+            'aria-rowindex': state.rowWindow ? rowIndex + 2 : undefined,
+            'aria-level': state.grouping.length && row ? row.depth + 1 : undefined,
+            'aria-expanded': row?.isGroup ? !!state.expanded[row.id] : undefined
+        }))
+        
+        .withA11y('cell', (state) => (colIndex: number) => ({
+            role: state.grouping.length ? 'gridcell' : 'cell',
+            'aria-colindex': state.columnWindow ? colIndex + 1 : undefined
         }))
         
         .withA11y('checkbox', (state) => (rowId: string) => ({
@@ -179,10 +326,35 @@ export function createTableLogic<TData = any>(
             tabIndex: 0
         }))
         
+        // Button expanding a group row
+        .withA11y('expander', (state) => (rowId: string) => {
+            const expanded = !!state.expanded[rowId];
+            
+            return {
+                role: 'button',
+                'aria-expanded': expanded,
+                'aria-label': expanded ? 'Collapse group' : 'Expand group',
+                tabIndex: 0
+            };
+        })
+        
+        .withA11y('filter', (state) => (columnId: string) => {
+            const column = state.columns.find(col => col.id === columnId);
+            const name = typeof column?.header === 'string' ? column.header : columnId;
+            
+            return {
+                'aria-label': `Filter ${name}`
+            };
+        })
+        
+        .withA11y('globalFilter', () => ({
+            role: 'searchbox',
+            'aria-label': 'Search table'
+        }))
+        
         .withA11y('selectAll', (state) => {
-            const allRowIds = state.data.map((row, index) => 
-                state.getRowId(row, index)
-            );
+            // Select all acts on the rows passing the filters
+            const allRowIds = getFilteredRows(state).map(row => row.id);
             const selectedCount = allRowIds.filter(id => state.selection[id]).length;
             const allSelected = selectedCount === allRowIds.length && allRowIds.length > 0;
             const indeterminate = selectedCount > 0 && selectedCount < allRowIds.length;
@@ -271,6 +443,53 @@ export function createTableLogic<TData = any>(
             return 'cellClick';
         })
         
+        .withInteraction('expander', 'onClick', (_currentState, event) => {
+            event.stopPropagation();
+            
+            const rowId = (event.currentTarget as HTMLElement).dataset.rowId;
+            if (!rowId) return null;
+            
+            state.toggleExpanded(rowId);
+            
+            return 'expandedChange';
+        })
+        
+        .withInteraction('expander', 'onKeyDown', (_currentState, event) => {
+            if (event.key !== 'Enter' && event.key !== ' ') return null;
+            
+            // Keep the table's Enter and Space keys, and the button's own click, from acting as well
+            event.preventDefault();
+            event.stopPropagation();
+            
+            const rowId = (event.currentTarget as HTMLElement).dataset.rowId;
+            if (!rowId) return null;
+            
+            state.toggleExpanded(rowId);
+            
+            return 'expandedChange';
+        })
+        
+        // Text inputs filter text and number columns; other filters set the filter value directly
+        .withInteraction('filter', 'onChange', (currentState, event) => {
+            const input = event.currentTarget as HTMLInputElement;
+            const columnId = input.dataset.columnId;
+            const column = currentState.columns.find(col => col.id === columnId);
+            if (!column) return null;
+            
+            const value = column.filterType === 'number' && input.value !== ''
+                ? Number(input.value)
+                : input.value;
+            state.setColumnFilter(column.id, value);
+            
+            return 'columnFiltersChange';
+        })
+        
+        .withInteraction('globalFilter', 'onChange', (_currentState, event) => {
+            state.setGlobalFilter((event.currentTarget as HTMLInputElement).value);
+            
+            return 'globalFilterChange';
+        })
+        
         .withInteraction('checkbox', 'onChange', (currentState, event) => {
             const rowId = (event.currentTarget as HTMLInputElement).dataset.rowId;
             if (!rowId) return null;
@@ -286,6 +505,11 @@ export function createTableLogic<TData = any>(
             return 'selectionChange';
         })
         
+        .withInteraction('scrollContainer', 'onScroll', (_currentState, event) => {
+            observeScrollContainer(event.currentTarget);
+            return null;
+        })
+        
         .withInteraction('table', 'onKeyDown', (currentState, event) => {
             if (!currentState.focusedCell) return null;
             
@@ -378,5 +602,18 @@ export const tableUtils = {
         visibility: Record<string, boolean>
     ): ColumnDef<TData>[] {
         return columns.filter(col => visibility[col.id] !== false);
-    }
+    },
+    
+    getWindowedItems<T>(
+        items: T[],
+        window: VirtualWindow | null
+    ): T[] {
+        return window ? items.slice(window.startIndex, window.endIndex) : items;
+    },
+    
+    getCellValue,
+    
+    getRowModel,
+    
+    getFacetedUniqueValues
 };
\ No newline at end of file
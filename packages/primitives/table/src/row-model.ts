@@ -0,0 +1,295 @@
+/**
+ * Table Row Model
+ * Pipeline stages turning the table data into the rendered rows
+ */
+
+import type {
+    AggregationFn,
+    AggregationType,
+    ColumnDef,
+    FilterFn,
+    FilterType,
+    RowModelStage,
+    TableRow,
+    TableState
+} from './types';
+
+/**
+ * Utility to get cell value from row data
+ */
+export function getCellValue<TData>(
+    row: TData,
+    column: ColumnDef<TData>
+): any {
+    if (column.accessorFn) {
+        return column.accessorFn(row);
+    }
+    if (column.accessorKey && typeof row === 'object' && row !== null) {
+        return (row as any)[column.accessorKey];
+    }
+    return undefined;
+}
+
+/**
+ * Sort comparator function
+ */
+export function sortComparator<TData>(
+    a: TData,
+    b: TData,
+    columnId: string,
+    columns: ColumnDef<TData>[],
+    desc: boolean
+): number {
+    const column = columns.find(col => col.id === columnId);
+    if (!column) return 0;
+    
+    const aValue = getCellValue(a, column);
+    const bValue = getCellValue(b, column);
+    
+    if (aValue === bValue) return 0;
+    if (aValue === null || aValue === undefined) return 1;
+    if (bValue === null || bValue === undefined) return -1;
+    
+    const result = aValue < bValue ? -1 : 1;
+    return desc ? -result : result;
+}
+
+/**
+ * Whether a filter value filters nothing, so the filter can be removed
+ */
+export function isEmptyFilterValue(value: any): boolean {
+    if (value === null || value === undefined || value === '') return true;
+    if (Array.isArray(value)) {
+        return value.length === 0 || value.every(bound => bound === null || bound === undefined);
+    }
+    return false;
+}
+
+/**
+ * Numbers among values, skipping empty and non-numeric ones
+ */
+function toNumbers(values: any[]): number[] {
+    return values
+        .filter(value => value !== null && value !== undefined && value !== '')
+        .map(Number)
+        .filter(value => !Number.isNaN(value));
+}
+
+const filterFns: Record<FilterType, FilterFn> = {
+    text: (value, filterValue) =>
+        value !== null && value !== undefined &&
+        String(value).toLowerCase().includes(String(filterValue).toLowerCase()),
+    number: (value, filterValue) =>
+        toNumbers([value])[0] === Number(filterValue),
+    range: (value, [min, max]) => {
+        const [number] = toNumbers([value]);
+        return number !== undefined &&
+            (min === null || min === undefined || number >= min) &&
+            (max === null || max === undefined || number <= max);
+    },
+    // A single value filters like an array of it
+    enum: (value, filterValue) => (Array.isArray(filterValue) ? filterValue : [filterValue]).includes(value)
+};
+
+const aggregationFns: Record<AggregationType, AggregationFn> = {
+    sum: (values) => toNumbers(values).reduce((sum, value) => sum + value, 0),
+    avg: (values) => {
+        const numbers = toNumbers(values);
+        return numbers.length ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+    },
+    count: (_values, rows) => rows.length,
+    min: (values) => toNumbers(values).reduce<number | null>((min, value) => min === null || value < min ? value : min, null),
+    max: (values) => toNumbers(values).reduce<number | null>((max, value) => max === null || value > max ? value : max, null)
+};
+
+/**
+ * Rows of the data, before any stage
+ */
+function getCoreRows<TData>(state: TableState<TData>): TableRow<TData>[] {
+    return state.data.map((row, index) => ({
+        id: state.getRowId(row, index),
+        original: row,
+        index,
+        depth: 0,
+        isGroup: false,
+        subRows: [],
+        leafRows: [row],
+        aggregates: {}
+    }));
+}
+
+/**
+ * Keeps the data rows passing the column filters and the global filter
+ */
+export function filterRows<TData>(rows: TableRow<TData>[], state: TableState<TData>): TableRow<TData>[] {
+    const filters = state.columnFilters.flatMap(filter => {
+        const column = state.columns.find(col => col.id === filter.id);
+        if (!column) return [];
+        
+        const { filterType = 'text' } = column;
+        const filterFn = typeof filterType === 'function' ? filterType : filterFns[filterType];
+        return [{ column, filterFn, value: filter.value }];
+    });
+    const searchedColumns = state.globalFilter
+        ? state.columns.filter(col => col.enableGlobalFilter !== false)
+        : [];
+    if (!filters.length && !state.globalFilter) return rows;
+    
+    return rows.filter(({ original }) => {
+        const row = original as TData;
+        return filters.every(({ column, filterFn, value }) => filterFn(getCellValue(row, column), value, row))
+            && (!state.globalFilter || searchedColumns.some(column =>
+                filterFns.text(getCellValue(row, column), state.globalFilter, row)
+            ));
+    });
+}
+
+/**
+ * Data rows passing the filters, across all pages
+ */
+export function getFilteredRows<TData>(state: TableState<TData>): TableRow<TData>[] {
+    return filterRows(getCoreRows(state), state);
+}
+
+/**
+ * Sorts the data rows by the sorting state
+ */
+export function sortRows<TData>(rows: TableRow<TData>[], state: TableState<TData>): TableRow<TData>[] {
+    if (!state.sorting.length) return rows;
+    
+    return [...rows].sort((a, b) => {
+        for (const sort of state.sorting) {
+            const result = sortComparator(a.original as TData, b.original as TData, sort.id, state.columns, sort.desc);
+            if (result !== 0) return result;
+        }
+        return 0;
+    });
+}
+
+/**
+ * Groups the data rows by the grouping columns, in the order their values
+ * first appear, and aggregates the columns with an aggregation
+ */
+export function groupRows<TData>(rows: TableRow<TData>[], state: TableState<TData>): TableRow<TData>[] {
+    const groupingColumns = state.grouping.flatMap(columnId => {
+        const column = state.columns.find(col => col.id === columnId);
+        return column ? [column] : [];
+    });
+    if (!groupingColumns.length) return rows;
+    
+    const aggregatedColumns = state.columns.filter(col => col.aggregationFn);
+    const aggregate = (leafRows: TData[]) => {
+        const aggregates: Record<string, any> = {};
+        aggregatedColumns.forEach(column => {
+            const aggregationFn = typeof column.aggregationFn === 'function'
+                ? column.aggregationFn
+                : aggregationFns[column.aggregationFn!];
+            aggregates[column.id] = aggregationFn(leafRows.map(row => getCellValue(row, column)), leafRows);
+        });
+        return aggregates;
+    };
+    
+    const group = (groupedRows: TableRow<TData>[], depth: number, parentId: string): TableRow<TData>[] => {
+        if (depth === groupingColumns.length) {
+            return groupedRows.map(row => ({ ...row, depth }));
+        }
+        
+        const column = groupingColumns[depth]!;
+        const groups = new Map<any, TableRow<TData>[]>();
+        groupedRows.forEach(row => {
+            const value = getCellValue(row.original as TData, column);
+            const rowsOfValue = groups.get(value);
+            if (rowsOfValue) {
+                rowsOfValue.push(row);
+            } else {
+                groups.set(value, [row]);
+            }
+        });
+        
+        return Array.from(groups, ([value, rowsOfValue]) => {
+            // The type keeps apart values that read the same, such as 1 and '1'
+            const id = `${parentId}${column.id}:${typeof value}:${String(value)}`;
+            const leafRows = rowsOfValue.flatMap(row => row.leafRows);
+            return {
+                id,
+                original: null,
+                index: -1,
+                depth,
+                isGroup: true,
+                groupingColumnId: column.id,
+                groupingValue: value,
+                subRows: group(rowsOfValue, depth + 1, `${id}>`),
+                leafRows,
+                aggregates: aggregate(leafRows)
+            };
+        });
+    };
+    
+    return group(rows, 0, '');
+}
+
+/**
+ * Lists the rows of expanded groups after their group row
+ */
+export function expandRows<TData>(rows: TableRow<TData>[], state: TableState<TData>): TableRow<TData>[] {
+    if (!state.grouping.length) return rows;
+    
+    const expand = (groupRows: TableRow<TData>[]): TableRow<TData>[] =>
+        groupRows.flatMap(row =>
+            row.isGroup && state.expanded[row.id] ? [row, ...expand(row.subRows)] : [row]
+        );
+    return expand(rows);
+}
+
+/**
+ * Keeps the rows of the current page
+ */
+export function paginateRows<TData>(rows: TableRow<TData>[], state: TableState<TData>): TableRow<TData>[] {
+    const start = state.pagination.pageIndex * state.pagination.pageSize;
+    return rows.slice(start, start + state.pagination.pageSize);
+}
+
+/**
+ * Stages of the row model, in order
+ */
+export const defaultRowModelStages: RowModelStage[] = [filterRows, sortRows, groupRows, expandRows, paginateRows];
+
+/**
+ * Runs the data through the row model stages
+ */
+export function getRowModel<TData>(
+    state: TableState<TData>,
+    stages: RowModelStage<TData>[] = defaultRowModelStages
+): TableRow<TData>[] {
+    return stages.reduce((rows, stage) => stage(rows, state), getCoreRows(state));
+}
+
+/**
+ * Number of rows across all pages
+ */
+export function getRowCount<TData>(
+    state: TableState<TData>,
+    stages: RowModelStage<TData>[] = defaultRowModelStages
+): number {
+    return getRowModel(state, stages.filter(stage => stage !== paginateRows)).length;
+}
+
+/**
+ * Counts the rows of each value of a column, among the rows passing the
+ * global filter and the filters of the other columns
+ */
+export function getFacetedUniqueValues<TData>(state: TableState<TData>, columnId: string): Map<any, number> {
+    const counts = new Map<any, number>();
+    const column = state.columns.find(col => col.id === columnId);
+    if (!column) return counts;
+    
+    const rows = filterRows(getCoreRows(state), {
+        ...state,
+        columnFilters: state.columnFilters.filter(filter => filter.id !== columnId)
+    });
+    rows.forEach(({ original }) => {
+        const value = getCellValue(original as TData, column);
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+    return counts;
+}
\ No newline at end of file
@@ -55,12 +55,11 @@ describe('Table State', () => {
             pagination: { pageIndex: 1, pageSize: 20 }
         });
         
-        const listener = vi.fn();
-        state.subscribe(listener);
-        
-        state.setData(testData);
-        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
-            data: testData
+        expect(state.getState()).toEqual(expect.objectContaining({
+            data: testData,
+            selectionMode: 'multiple',
+            enableMultiSort: true,
+            pagination: { pageIndex: 1, pageSize: 20 }
         }));
     });
     
@@ -388,4 +387,125 @@ describe('Table State', () => {
         expect(listener).toHaveBeenCalledWith(2);
         expect(selectedCount.get()).toBe(2);
     });
+});
+
+describe('Table State filtering and grouping', () => {
+    it('should set and remove column filters', () => {
+        const onColumnFiltersChange = vi.fn();
+        const state = createTableState<TestData>({
+            columns: testColumns,
+            data: testData,
+            onColumnFiltersChange
+        });
+        
+        state.setColumnFilter('name', 'jo');
+        expect(onColumnFiltersChange).toHaveBeenLastCalledWith([{ id: 'name', value: 'jo' }]);
+        
+        state.setColumnFilter('age', [30, null]);
+        expect(onColumnFiltersChange).toHaveBeenLastCalledWith([
+            { id: 'name', value: 'jo' },
+            { id: 'age', value: [30, null] }
+        ]);
+        
+        state.setColumnFilter('name', '');
+        expect(onColumnFiltersChange).toHaveBeenLastCalledWith([{ id: 'age', value: [30, null] }]);
+        
+        state.clearColumnFilters();
+        expect(onColumnFiltersChange).toHaveBeenLastCalledWith([]);
+    });
+    
+    it('should go back to the first page when filtering', () => {
+        const state = createTableState<TestData>({
+            columns: testColumns,
+            data: testData,
+            pagination: { pageIndex: 1, pageSize: 2 }
+        });
+        const listener = vi.fn();
+        
+        state.subscribe(listener);
+        state.setGlobalFilter('example');
+        
+        expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+            globalFilter: 'example',
+            pagination: { pageIndex: 0, pageSize: 2 }
+        }));
+    });
+    
+    it('should count pages of the filtered rows', () => {
+        const state = createTableState<TestData>({
+            columns: testColumns,
+            data: testData,
+            pagination: { pageIndex: 0, pageSize: 2 }
+        });
+        
+        expect(state.getTotalPages()).toBe(2);
+        expect(state.canNextPage()).toBe(true);
+        
+        state.setColumnFilter('name', 'jo');
+        expect(state.getRowCount()).toBe(2);
+        expect(state.getTotalPages()).toBe(1);
+        expect(state.canNextPage()).toBe(false);
+    });
+    
+    it('should toggle grouping by groupable columns', () => {
+        const onGroupingChange = vi.fn();
+        const state = createTableState<TestData>({
+            columns: [...testColumns, { id: 'status', header: 'Status', enableGrouping: false }],
+            data: testData,
+            onGroupingChange
+        });
+        
+        state.toggleGrouping('age');
+        expect(onGroupingChange).toHaveBeenLastCalledWith(['age']);
+        
+        state.toggleGrouping('name');
+        expect(onGroupingChange).toHaveBeenLastCalledWith(['age', 'name']);
+        
+        state.toggleGrouping('age');
+        expect(onGroupingChange).toHaveBeenLastCalledWith(['name']);
+        
+        onGroupingChange.mockClear();
+        state.toggleGrouping('status');
+        expect(onGroupingChange).not.toHaveBeenCalled();
+    });
+    
+    it('should toggle expanded group rows', () => {
+        const onExpandedChange = vi.fn();
+        const state = createTableState<TestData>({
+            columns: testColumns,
+            data: testData,
+            grouping: ['age'],
+            onExpandedChange
+        });
+        
+        state.toggleExpanded('age:30');
+        expect(onExpandedChange).toHaveBeenLastCalledWith({ 'age:30': true });
+        
+        state.toggleExpanded('age:30');
+        expect(onExpandedChange).toHaveBeenLastCalledWith({ 'age:30': false });
+    });
+    
+    it('should run the configured row model stages', () => {
+        const state = createTableState<TestData>({
+            columns: testColumns,
+            data: testData,
+            rowModelStages: [(rows) => rows.filter(row => row.index !== 1)]
+        });
+        
+        expect(state.getRowModel().map(row => row.id)).toEqual(['0', '2']);
+        expect(state.getRowCount()).toBe(2);
+    });
+    
+    it('should count the values of a column among the other filters', () => {
+        const state = createTableState<TestData>({
+            columns: testColumns,
+            data: [...testData, { id: 4, name: 'Jim Beam', age: 30, email: 'jim@example.org' }],
+            columnFilters: [
+                { id: 'age', value: 30 },
+                { id: 'email', value: '.com' }
+            ]
+        });
+        
+        expect(Array.from(state.getFacetedUniqueValues('age'))).toEqual([[30, 1], [25, 1], [35, 1]]);
+    });
 });
\ No newline at end of file
@@ -3,15 +3,37 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type SnapshotFormat, type StoreSelection, type VirtualWindow } from '@stellarix-ui/core';
 import type { 
     TableState, 
     TableOptions, 
     SortingState, 
     PaginationState,
     CellPosition,
-    ColumnDef
+    ColumnDef,
+    ColumnFilter,
+    TableRow
 } from './types';
+import {
+    defaultRowModelStages,
+    getFacetedUniqueValues,
+    getFilteredRows,
+    getRowCount,
+    getRowModel,
+    isEmptyFilterValue
+} from './row-model';
+
+/**
+ * Snapshot format of the table state.
+ * Column definitions hold accessor and render functions, so they
+ * come back from the table options instead of the snapshot. Virtual
+ * windows follow the scroll position of the rendered table.
+ */
+export const tableSnapshotFormat: SnapshotFormat<TableState> = {
+    columns: false,
+    rowWindow: false,
+    columnWindow: false,
+};
 
 /**
  * Extended state store with component-specific methods
@@ -20,6 +42,7 @@ export interface TableStateStore<TData = any> {
     getState: () => TableState<TData>;
     setState: (updater: (prev: TableState<TData>) => TableState<TData>) => void;
     subscribe: (listener: (state: TableState<TData>) => void) => () => void;
+    select: <U>(selector: (state: TableState<TData>) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: TableState<TData>) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
@@ -29,6 +52,16 @@ export interface TableStateStore<TData = any> {
     toggleSort: (columnId: string, multi?: boolean) => void;
     clearSorting: () => void;
     
+    setColumnFilters: (columnFilters: ColumnFilter[]) => void;
+    setColumnFilter: (columnId: string, value: any) => void;
+    clearColumnFilters: () => void;
+    setGlobalFilter: (globalFilter: string) => void;
+    
+    setGrouping: (grouping: string[]) => void;
+    toggleGrouping: (columnId: string) => void;
+    setExpanded: (expanded: Record<string, boolean>) => void;
+    toggleExpanded: (rowId: string) => void;
+    
     setSelection: (selection: Record<string, boolean>) => void;
     toggleRowSelection: (rowId: string) => void;
     toggleAllRowsSelection: () => void;
@@ -47,12 +80,18 @@ export interface TableStateStore<TData = any> {
     setFocusedCell: (cell: CellPosition | null) => void;
     moveFocus: (direction: 'up' | 'down' | 'left' | 'right') => void;
     
+    setRowWindow: (rowWindow: VirtualWindow | null) => void;
+    setColumnWindow: (columnWindow: VirtualWindow | null) => void;
+    
     setData: (data: TData[]) => void;
     setColumns: (columns: ColumnDef<TData>[]) => void;
     setLoading: (loading: boolean) => void;
     
     getSelectedRowIds: () => string[];
     getSelectedRows: () => TData[];
+    getRowModel: () => TableRow<TData>[];
+    getRowCount: () => number;
+    getFacetedUniqueValues: (columnId: string) => Map<any, number>;
     getTotalPages: () => number;
     canNextPage: () => boolean;
     canPreviousPage: () => boolean;
@@ -75,6 +114,10 @@ export function createTableState<TData = any>(
         columns: options.columns || [],
         data: options.data || [],
         sorting: options.sorting || [],
+        columnFilters: options.columnFilters || [],
+        globalFilter: options.globalFilter ?? '',
+        grouping: options.grouping || [],
+        expanded: options.expanded || {},
         selection: options.selection || {},
         columnVisibility: options.columnVisibility || {},
         pagination: options.pagination || { pageIndex: 0, pageSize: 10 },
@@ -83,8 +126,11 @@ export function createTableState<TData = any>(
         enableMultiSort: options.enableMultiSort ?? false,
         loading: options.loading ?? false,
         getRowId: options.getRowId || defaultGetRowId,
+        rowWindow: null,
+        columnWindow: null,
     };
     
+    const stages = options.rowModelStages || defaultRowModelStages;
     const store = createComponentState('Table', initialState);
     
     const extendedStore: TableStateStore<TData> = {
@@ -137,6 +183,77 @@ export function createTableState<TData = any>(
             store.setState((prev) => ({ ...prev, sorting: [] }));
         },
         
+        // Filtering and grouping change the rows, so they go back to the first page
+        setColumnFilters: (columnFilters: ColumnFilter[]) => {
+            store.setState((prev) => ({
+                ...prev,
+                columnFilters,
+                pagination: { ...prev.pagination, pageIndex: 0 }
+            }));
+            if (options.onColumnFiltersChange) {
+                options.onColumnFiltersChange(columnFilters);
+            }
+        },
+        
+        setColumnFilter: (columnId: string, value: any) => {
+            const columnFilters = store.getState().columnFilters.filter(filter => filter.id !== columnId);
+            if (!isEmptyFilterValue(value)) {
+                columnFilters.push({ id: columnId, value });
+            }
+            extendedStore.setColumnFilters(columnFilters);
+        },
+        
+        clearColumnFilters: () => {
+            extendedStore.setColumnFilters([]);
+        },
+        
+        setGlobalFilter: (globalFilter: string) => {
+            store.setState((prev) => ({
+                ...prev,
+                globalFilter,
+                pagination: { ...prev.pagination, pageIndex: 0 }
+            }));
+            if (options.onGlobalFilterChange) {
+                options.onGlobalFilterChange(globalFilter);
+            }
+        },
+        
+        setGrouping: (grouping: string[]) => {
+            store.setState((prev) => ({
+                ...prev,
+                grouping,
+                pagination: { ...prev.pagination, pageIndex: 0 }
+            }));
+            if (options.onGroupingChange) {
+                options.onGroupingChange(grouping);
+            }
+        },
+        
+        toggleGrouping: (columnId: string) => {
+            const { grouping, columns } = store.getState();
+            if (grouping.includes(columnId)) {
+                extendedStore.setGrouping(grouping.filter(id => id !== columnId));
+                return;
+            }
+            
+            const column = columns.find(col => col.id === columnId);
+            if (column && column.enableGrouping !== false) {
+                extendedStore.setGrouping([...grouping, columnId]);
+            }
+        },
+        
+        setExpanded: (expanded: Record<string, boolean>) => {
+            store.setState((prev) => ({ ...prev, expanded }));
+            if (options.onExpandedChange) {
+                options.onExpandedChange(expanded);
+            }
+        },
+        
+        toggleExpanded: (rowId: string) => {
+            const { expanded } = store.getState();
+            extendedStore.setExpanded({ ...expanded, [rowId]: !expanded[rowId] });
+        },
+        
         setSelection: (selection: Record<string, boolean>) => {
             store.setState((prev) => ({ ...prev, selection }));
             if (options.onSelectionChange) {
@@ -167,12 +284,11 @@ export function createTableState<TData = any>(
         toggleAllRowsSelection: () => {
             let newSelection: Record<string, boolean> = {};
             store.setState((prev) => {
-                const allRowIds = prev.data.map((row, index) => 
-                    prev.getRowId(row, index)
-                );
+                // Only the rows passing the filters; rows filtered out keep their selection
+                const allRowIds = getFilteredRows(prev).map(row => row.id);
                 const allSelected = allRowIds.every(id => prev.selection[id]);
                 
-                newSelection = {};
+                newSelection = { ...prev.selection };
                 allRowIds.forEach(id => {
                     newSelection[id] = !allSelected;
                 });
@@ -288,6 +404,14 @@ export function createTableState<TData = any>(
             });
         },
         
+        setRowWindow: (rowWindow: VirtualWindow | null) => {
+            store.setState((prev) => ({ ...prev, rowWindow }));
+        },
+        
+        setColumnWindow: (columnWindow: VirtualWindow | null) => {
+            store.setState((prev) => ({ ...prev, columnWindow }));
+        },
+        
         setData: (data: TData[]) => {
             store.setState((prev) => ({ ...prev, data }));
         },
@@ -316,14 +440,26 @@ export function createTableState<TData = any>(
             );
         },
         
+        getRowModel: () => {
+            return getRowModel(store.getState(), stages);
+        },
+        
+        getRowCount: () => {
+            return getRowCount(store.getState(), stages);
+        },
+        
+        getFacetedUniqueValues: (columnId: string) => {
+            return getFacetedUniqueValues(store.getState(), columnId);
+        },
+        
         getTotalPages: () => {
             const currentState = store.getState();
-            return Math.ceil(currentState.data.length / currentState.pagination.pageSize);
+            return Math.ceil(getRowCount(currentState, stages) / currentState.pagination.pageSize);
         },
         
         canNextPage: () => {
             const currentState = store.getState();
-            const totalPages = Math.ceil(currentState.data.length / currentState.pagination.pageSize);
+            const totalPages = Math.ceil(getRowCount(currentState, stages) / currentState.pagination.pageSize);
             return currentState.pagination.pageIndex < totalPages - 1;
         },
         
@@ -3,6 +3,8 @@
  * Define all TypeScript interfaces for the table component
  */
 
+import type { VirtualizeOptions, VirtualWindow } from '@stellarix-ui/core';
+
 /**
  * Sort direction
  */
@@ -13,6 +15,29 @@ export type SortDirection = 'asc' | 'desc';
  */
 export type SelectionMode = 'none' | 'single' | 'multiple';
 
+/**
+ * Built-in column filters: `text` matches values containing the filter text,
+ * `number` equal numbers, `range` numbers within `[min, max]` (either bound
+ * may be null) and `enum` values among the filter's array, or equal to the
+ * filter value when it is not an array
+ */
+export type FilterType = 'text' | 'number' | 'range' | 'enum';
+
+/**
+ * Custom column filter, true when the row passes
+ */
+export type FilterFn<TData = any> = (value: any, filterValue: any, row: TData) => boolean;
+
+/**
+ * Built-in aggregations of a column's values in a group
+ */
+export type AggregationType = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/**
+ * Custom aggregation of a column's values in a group
+ */
+export type AggregationFn<TData = any> = (values: any[], rows: TData[]) => any;
+
 /**
  * Column definition
  */
@@ -50,6 +75,29 @@ export interface ColumnDef<TData = any> {
      */
     enableHiding?: boolean;
     
+    /**
+     * How the column filter matches values
+     * @default 'text'
+     */
+    filterType?: FilterType | FilterFn<TData>;
+    
+    /**
+     * Whether the global filter searches the column
+     * @default true
+     */
+    enableGlobalFilter?: boolean;
+    
+    /**
+     * Whether rows can be grouped by the column
+     * @default true
+     */
+    enableGrouping?: boolean;
+    
+    /**
+     * Value of the column on group rows
+     */
+    aggregationFn?: AggregationType | AggregationFn<TData>;
+    
     /**
      * Column width
      */
@@ -70,6 +118,14 @@ export interface SortingState {
     desc: boolean;
 }
 
+/**
+ * Filter of a column
+ */
+export interface ColumnFilter {
+    id: string;
+    value: any;
+}
+
 /**
  * Pagination state
  */
@@ -105,6 +161,26 @@ export interface TableState<TData = any> {
      */
     sorting: SortingState[];
     
+    /**
+     * Active column filters
+     */
+    columnFilters: ColumnFilter[];
+    
+    /**
+     * Text searched in every column, '' for none
+     */
+    globalFilter: string;
+    
+    /**
+     * Column IDs rows are grouped by, outermost first
+     */
+    grouping: string[];
+    
+    /**
+     * Expanded group rows (rowId -> boolean)
+     */
+    expanded: Record<string, boolean>;
+    
     /**
      * Row selection state (rowId -> boolean)
      */
@@ -144,6 +220,16 @@ export interface TableState<TData = any> {
      * Row ID getter function
      */
     getRowId: (row: TData, index: number) => string;
+    
+    /**
+     * Range of data rendered when rows are virtualized, null otherwise
+     */
+    rowWindow: VirtualWindow | null;
+    
+    /**
+     * Range of visible columns rendered when columns are virtualized, null otherwise
+     */
+    columnWindow: VirtualWindow | null;
 }
 
 /**
@@ -165,6 +251,32 @@ export interface TableOptions<TData = any> {
      */
     sorting?: SortingState[];
     
+    /**
+     * Initial column filters
+     */
+    columnFilters?: ColumnFilter[];
+    
+    /**
+     * Initial global filter
+     */
+    globalFilter?: string;
+    
+    /**
+     * Initial grouping
+     */
+    grouping?: string[];
+    
+    /**
+     * Initially expanded group rows
+     */
+    expanded?: Record<string, boolean>;
+    
+    /**
+     * Stages turning the data into the rendered rows
+     * @default [filterRows, sortRows, groupRows, expandRows, paginateRows]
+     */
+    rowModelStages?: RowModelStage<TData>[];
+    
     /**
      * Initial selection state
      */
@@ -204,11 +316,51 @@ export interface TableOptions<TData = any> {
      */
     getRowId?: (row: TData, index: number) => string;
     
+    /**
+     * Render only the rows in view, for large data sets.
+     * `true` uses 40px rows in a 400px high scroll container.
+     * @default false
+     */
+    virtualize?: boolean | VirtualizeOptions;
+    
+    /**
+     * Render only the columns in view. Columns are as wide as their `size`,
+     * or 150px, in an 800px wide scroll container unless configured.
+     * @default false
+     */
+    virtualizeColumns?: boolean | VirtualizeOptions;
+    
     /**
      * Callback when sorting changes
      */
     onSortingChange?: (sorting: SortingState[]) => void;
     
+    /**
+     * Message announced to screen readers when sorting changes; `false` turns it off
+     * @default 'Sorted by <header> ascending', or 'Sorting removed'
+     */
+    sortAnnouncement?: ((sorting: SortingState[], columns: ColumnDef<TData>[]) => string) | false;
+    
+    /**
+     * Callback when column filters change
+     */
+    onColumnFiltersChange?: (columnFilters: ColumnFilter[]) => void;
+    
+    /**
+     * Callback when the global filter changes
+     */
+    onGlobalFilterChange?: (globalFilter: string) => void;
+    
+    /**
+     * Callback when grouping changes
+     */
+    onGroupingChange?: (grouping: string[]) => void;
+    
+    /**
+     * Callback when group rows expand or collapse
+     */
+    onExpandedChange?: (expanded: Record<string, boolean>) => void;
+    
     /**
      * Callback when selection changes
      */
@@ -246,6 +398,34 @@ export interface TableEvents<TData = any> {
         sorting: SortingState[];
     };
     
+    /**
+     * Fired when column filters change
+     */
+    columnFiltersChange: {
+        columnFilters: ColumnFilter[];
+    };
+    
+    /**
+     * Fired when the global filter changes
+     */
+    globalFilterChange: {
+        globalFilter: string;
+    };
+    
+    /**
+     * Fired when grouping changes
+     */
+    groupingChange: {
+        grouping: string[];
+    };
+    
+    /**
+     * Fired when group rows expand or collapse
+     */
+    expandedChange: {
+        expanded: Record<string, boolean>;
+    };
+    
     /**
      * Fired when selection changes
      */
@@ -321,6 +501,66 @@ export interface ProcessedRow<TData = any> {
     }>;
 }
 
+/**
+ * Row of the row model: a data row, or a group row when grouping
+ */
+export interface TableRow<TData = any> {
+    /**
+     * Row ID, or the grouping path for group rows, e.g. `department:string:Sales`
+     */
+    id: string;
+    
+    /**
+     * Data of the row, null for group rows
+     */
+    original: TData | null;
+    
+    /**
+     * Index of the row in the data, -1 for group rows
+     */
+    index: number;
+    
+    /**
+     * Nesting level, 0 for rows outside any group
+     */
+    depth: number;
+    
+    /**
+     * Whether the row groups other rows
+     */
+    isGroup: boolean;
+    
+    /**
+     * Column the group row groups by
+     */
+    groupingColumnId?: string;
+    
+    /**
+     * Value shared by the rows of the group
+     */
+    groupingValue?: any;
+    
+    /**
+     * Rows of the group, nested groups included
+     */
+    subRows: TableRow<TData>[];
+    
+    /**
+     * Data the row stands for: its own, or that of every row in the group
+     */
+    leafRows: TData[];
+    
+    /**
+     * Aggregated column values of the group (columnId -> value)
+     */
+    aggregates: Record<string, any>;
+}
+
+/**
+ * Stage of the row model pipeline, turning the rows of the previous stage into new rows
+ */
+export type RowModelStage<TData = any> = (rows: TableRow<TData>[], state: TableState<TData>) => TableRow<TData>[];
+
 /**
  * Table utilities for data processing
  */
@@ -340,6 +580,26 @@ export interface TableUtils<TData = any> {
      */
     getVisibleColumns(columns: ColumnDef<TData>[], visibility: Record<string, boolean>): ColumnDef<TData>[];
     
+    /**
+     * Get the rows or columns in a virtual window, or all of them without one
+     */
+    getWindowedItems<T>(items: T[], window: VirtualWindow | null): T[];
+    
+    /**
+     * Get a cell value of a row
+     */
+    getCellValue(row: TData, column: ColumnDef<TData>): any;
+    
+    /**
+     * Run the data through the row model stages
+     */
+    getRowModel(state: TableState<TData>, stages?: RowModelStage<TData>[]): TableRow<TData>[];
+    
+    /**
+     * Count the rows of each value of a column, among rows passing the other filters
+     */
+    getFacetedUniqueValues(state: TableState<TData>, columnId: string): Map<any, number>;
+    
     /**
      * Process rows for rendering
      */
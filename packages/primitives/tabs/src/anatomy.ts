@@ -0,0 +1,81 @@
+/**
+ * Tabs Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { TabsState } from './types';
+
+/**
+ * Tab list with one button per tab, followed by the panel of the active tab
+ */
+export const tabsAnatomy: ComponentAnatomy<TabsState> = {
+    parts: {
+        root: {
+            element: 'div',
+            props: () => ({
+                'data-part': 'tabs',
+                style: { display: 'block' },
+            }),
+        },
+        tablist: {
+            element: 'div',
+            props: ({ state }) => ({
+                'data-part': 'tab-list',
+                style: {
+                    display: 'flex',
+                    flexDirection: state.orientation === 'vertical' ? 'column' : 'row',
+                    borderBottom: '1px solid #e0e0e0',
+                    backgroundColor: '#f9f9f9',
+                },
+            }),
+        },
+        tab: {
+            element: 'button',
+            parent: 'tablist',
+            items: ({ state }) => state.tabs,
+            text: ({ item, index = 0 }) => item.label || `Tab ${index + 1}`,
+            // Tab handlers read the tab position from the event
+            event: ({ item, index }) => ({ tabIndex: index, tabId: item.id }),
+            props: ({ state, item }) => {
+                const isSelected = item.id === state.activeTab;
+
+                return {
+                    type: 'button',
+                    disabled: item.disabled || state.disabled || undefined,
+                    style: {
+                        padding: '12px 16px',
+                        border: 'none',
+                        backgroundColor: isSelected ? 'white' : 'transparent',
+                        color: isSelected ? '#007acc' : '#666',
+                        borderBottom: isSelected ? '2px solid #007acc' : '2px solid transparent',
+                        cursor: item.disabled ? 'not-allowed' : 'pointer',
+                        fontWeight: isSelected ? '600' : 'normal',
+                    },
+                };
+            },
+        },
+        tabPanel: {
+            element: 'div',
+            items: ({ state }) => state.tabs,
+            when: ({ state, item }) => item.id === state.activeTab,
+            a11yArgument: ({ item }) => item.id,
+            text: ({ item }) => item.content,
+            slot: true,
+            props: () => ({
+                style: {
+                    padding: '16px',
+                    backgroundColor: 'white',
+                    border: '1px solid #e0e0e0',
+                    borderTop: 'none',
+                },
+            }),
+        },
+    },
+    bindings: {
+        activeTab: 'activeTab',
+        // Older name of the binding, kept for existing templates
+        value: 'activeTab',
+        tabs: 'tabs',
+    },
+};
@@ -11,6 +11,7 @@ import {
     getTabA11yProps,
     getTabPanelA11yProps
 } from './logic';
+import { tabsAnatomy } from './anatomy';
 
 export { createTabsState } from './state';
 export { 
@@ -20,6 +21,7 @@ export {
     getTabA11yProps,
     getTabPanelA11yProps
 } from './logic';
+export { tabsAnatomy } from './anatomy';
 export type {
     Tab,
     TabsOrientation,
@@ -65,6 +67,7 @@ export function createTabs(options: import('./types').TabsOptions = {}) {
                 }
             }
         },
+        anatomy: tabsAnatomy,
         connect: (adapter: any) => adapter.createComponent(this),
         destroy: () => logic.cleanup()
     };
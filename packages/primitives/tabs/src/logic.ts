@@ -96,6 +96,20 @@ export function createTabsLogic(
         .withA11y('tabPanel', (state) => (tabId: string) => {
             return getTabPanelA11yProps(state, tabId);
         })
+        // Tab click, the adapter assigns the tab position to the event
+        .withInteraction('tab', 'onClick', (currentState, event: MouseEvent & { tabIndex?: number }) => {
+            const tabIndex = event.tabIndex ?? -1;
+            const tab = currentState.tabs[tabIndex];
+            
+            if (currentState.disabled || !tab || tab.disabled) {
+                event.preventDefault();
+                return null;
+            }
+            
+            state.setActiveTab(tab.id);
+            state.setFocusedIndex(tabIndex);
+            return 'change';
+        })
         // Root element interaction handlers
         .withInteraction('root', 'onClick', (currentState, event: MouseEvent) => {
             // This will be used for delegation pattern in framework adapters
@@ -16,7 +16,7 @@
  * Partial objects cause the state to lose all other fields.
  */
 
-import { createStore } from '@stellarix-ui/core';
+import { createStore, type StoreSelection } from '@stellarix-ui/core';
 import type { TabsState, TabsOptions, Tab } from './types';
 
 /**
@@ -42,6 +42,7 @@ export interface TabsStateStore {
     getState: () => TabsState;
     setState: (updater: (state: TabsState) => TabsState) => void;
     subscribe: (listener: (state: TabsState) => void) => () => void;
+    select: <U>(selector: (state: TabsState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     
     // Convenience methods for common state updates
     setActiveTab: (tabId: string | null) => void;
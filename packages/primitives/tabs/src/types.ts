@@ -26,6 +26,11 @@ export interface Tab {
      * Icon to display (framework adapter will handle rendering)
      */
     icon?: any;
+    
+    /**
+     * Panel content. The children of the component are rendered when omitted.
+     */
+    content?: string;
 }
 
 /**
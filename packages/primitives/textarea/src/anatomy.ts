@@ -0,0 +1,35 @@
+/**
+ * Textarea Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { TextareaOptions, TextareaState } from './types';
+
+/**
+ * Creates the render contract of a textarea
+ * @param options Component options; the resize handle and form attributes
+ *                are read from them unless the rendered props override them
+ * @returns Textarea anatomy
+ */
+export function createTextareaAnatomy(options: TextareaOptions = {}): ComponentAnatomy<TextareaState> {
+    return {
+        parts: {
+            root: {
+                element: 'textarea',
+                props: ({ state, props }) => ({
+                    value: state.value,
+                    name: props.name,
+                    id: props.id,
+                    style: {
+                        // Autogrowing textareas size themselves through their rows
+                        resize: options.variant === 'autogrow' ? 'none' : options.resize ?? 'vertical',
+                    },
+                }),
+            },
+        },
+        bindings: {
+            value: 'value',
+        },
+    };
+}
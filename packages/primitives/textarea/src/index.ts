@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createTextareaState } from './state';
 import { createTextareaLogic } from './logic';
+import { createTextareaAnatomy } from './anatomy';
 import type { TextareaOptions, TextareaState, TextareaEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createTextarea(options: TextareaOptions = {}) {
     return createPrimitive<TextareaState, TextareaEvents, TextareaOptions>('Textarea', {
         initialState: options,
         logicConfig: options,
+        anatomy: createTextareaAnatomy(options),
         metadata: {
             accessibility: {
                 role: 'textbox',
@@ -54,6 +56,10 @@ export function createTextareaWithImplementation(options: TextareaOptions = {})
     core.state = createTextareaState(options);
     core.logic = createTextareaLogic(core.state as any, options);
     
+    // Connect and initialize the logic
+    core.logic.connect(core.state);
+    core.logic.initialize();
+    
     return core;
 }
 
@@ -68,6 +74,7 @@ export type {
 } from './types';
 
 export type { TextareaStateStore } from './state';
+export { createTextareaAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createTextareaWithImplementation;
\ No newline at end of file
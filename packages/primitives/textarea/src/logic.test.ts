@@ -123,9 +123,7 @@ describe('Textarea Logic', () => {
         );
         
         // Verify rows were updated
-        listener.mockClear();
-        stateStore.setRows(3);
-        expect(listener).toHaveBeenCalledWith(
+        expect(listener).toHaveBeenLastCalledWith(
             expect.objectContaining({ rows: 3 })
         );
     });
@@ -2,9 +2,11 @@
  * Textarea State Tests
  * 
  * 🚨 CRITICAL: Testing Pattern Rules
- * ❌ NEVER use state.getState() for verification
+ * ❌ NEVER use state.getState() to verify updates
  * ✅ ALWAYS use subscription pattern: state.subscribe(listener)
  * ✅ ALWAYS verify via listener calls: expect(listener).toHaveBeenCalledWith()
+ * ✅ Read the initial state with state.getState(): updates that leave the
+ *    state shallowly equal notify nobody
  * 
  * This prevents infinite loops and ensures proper reactive testing
  */
@@ -18,47 +20,26 @@ describe('Textarea State', () => {
         const state = createTextareaState();
         const listener = vi.fn();
         
-        // Subscribe to verify initial state
-        state.subscribe(listener);
-        
-        // Trigger a dummy update to verify current state
-        state.setValue(''); // Same as default
-        
-        // Verify default value
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ value: '' })
+        expect(state.getState()).toEqual(
+            expect.objectContaining({
+                value: '',
+                focused: false,
+                disabled: false,
+                readonly: false,
+                error: false,
+                rows: 4,
+            })
         );
         
-        // Verify other defaults through individual updates
-        listener.mockClear();
+        // Setting the current values changes nothing
+        state.subscribe(listener);
+        state.setValue('');
         state.setFocused(false);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ focused: false })
-        );
-        
-        listener.mockClear();
         state.setDisabled(false);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ disabled: false })
-        );
-        
-        listener.mockClear();
         state.setReadonly(false);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ readonly: false })
-        );
-        
-        listener.mockClear();
         state.setError(false);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ error: false })
-        );
-        
-        listener.mockClear();
         state.setRows(4);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ rows: 4 })
-        );
+        expect(listener).not.toHaveBeenCalled();
     });
     
     it('should create state with initial options', () => {
@@ -75,38 +56,26 @@ describe('Textarea State', () => {
         const state = createTextareaState(options);
         const listener = vi.fn();
         
-        // Subscribe and trigger update to verify state
-        state.subscribe(listener);
-        state.setValue('Initial text'); // Same as initial
-        
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ value: 'Initial text' })
+        expect(state.getState()).toEqual(
+            expect.objectContaining({
+                value: 'Initial text',
+                disabled: true,
+                readonly: true,
+                error: true,
+                rows: 6,
+                minRows: 3,
+                maxRows: 12,
+            })
         );
         
-        // Verify other options through individual updates
-        listener.mockClear();
+        // Setting the current values changes nothing
+        state.subscribe(listener);
+        state.setValue('Initial text');
         state.setDisabled(true);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ disabled: true })
-        );
-        
-        listener.mockClear();
         state.setReadonly(true);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ readonly: true })
-        );
-        
-        listener.mockClear();
         state.setError(true);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ error: true })
-        );
-        
-        listener.mockClear();
         state.setRows(6);
-        expect(listener).toHaveBeenCalledWith(
-            expect.objectContaining({ rows: 6 })
-        );
+        expect(listener).not.toHaveBeenCalled();
     });
     
     it('should update value', () => {
@@ -3,7 +3,7 @@
  * Ultra-generic state implementation for multi-line text input
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { TextareaState, TextareaOptions } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface TextareaStateStore {
     getState: () => TextareaState;
     setState: (updates: Partial<TextareaState>) => void;
     subscribe: (listener: (state: TextareaState) => void) => () => void;
+    select: <U>(selector: (state: TextareaState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: TextareaState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
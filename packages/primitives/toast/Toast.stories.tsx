@@ -0,0 +1,177 @@
+/**
+ * Toast Component Stories
+ * Showcase of toast types, the queue, promise toasts, actions and placements
+ */
+
+import React, { useRef, useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react';
+import { createToastWithImplementation, createToaster, toast } from './src/index';
+import { reactAdapter } from '@stellarix-ui/react';
+import type { ToastPlacement } from './src/types';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  backgroundColor: 'white',
+  cursor: 'pointer',
+};
+
+/**
+ * Fake request that takes a moment and sometimes fails
+ */
+function saveDocument(fail: boolean): Promise<{ name: string }> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (fail) {
+        reject(new Error('The server is unavailable'));
+        return;
+      }
+      resolve({ name: 'Quarterly report' });
+    }, 1500);
+  });
+}
+
+// Region rendering the shared toaster
+const ToastRegion = createToastWithImplementation().connect(reactAdapter);
+
+const meta: Meta<typeof ToastRegion> = {
+  title: 'Primitives/Toast',
+  component: ToastRegion,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+Brief notifications stacked in a corner of the viewport. Toasts are shown through \`toast()\` from anywhere,
+and a region renders them.
+
+## Features
+- ✅ Success, error, warning, info and loading toasts
+- ✅ Stack limit with a priority queue for the rest
+- ✅ Promise toasts that settle into success or error
+- ✅ Action buttons and swipe to dismiss
+- ✅ Timers pause on hover and focus
+
+## Accessibility
+- The region is a landmark reached with F6
+- Escape dismisses the focused toast, then returns focus to where it was
+- Toasts are announced to screen readers, errors assertively
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Toast types
+export const Default: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+      <button style={buttonStyle} onClick={() => toast('Event created')}>Default</button>
+      <button style={buttonStyle} onClick={() => toast.success('Saved', { description: 'All changes are saved' })}>Success</button>
+      <button style={buttonStyle} onClick={() => toast.error('Upload failed', { description: 'The file is too large' })}>Error</button>
+      <button style={buttonStyle} onClick={() => toast.warning('Storage almost full')}>Warning</button>
+      <button style={buttonStyle} onClick={() => toast.info('A new version is available')}>Info</button>
+      <ToastRegion />
+    </div>
+  ),
+};
+
+// Toasts beyond the stack limit wait in the queue, high priority ones first
+export const Queue: Story = {
+  render: () => {
+    const [QueueRegion] = useState(() => createToastWithImplementation({
+      toaster: createToaster({ maxVisible: 2, duration: 3000 }),
+    }));
+    const [Region] = useState(() => QueueRegion.connect(reactAdapter));
+    const count = useRef(0);
+
+    return (
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button style={buttonStyle} onClick={() => QueueRegion.toaster.show({ title: `Notification ${++count.current}` })}>
+          Show
+        </button>
+        <button style={buttonStyle} onClick={() => QueueRegion.toaster.show({ title: 'Connection lost', type: 'error', priority: 'high' })}>
+          Show high priority
+        </button>
+        <Region />
+      </div>
+    );
+  },
+};
+
+// Loading toast settling with a promise
+export const PromiseToast: Story = {
+  render: () => {
+    const save = (fail: boolean) => toast.promise(saveDocument(fail), {
+      loading: 'Saving...',
+      success: document => `Saved ${document.name}`,
+      error: error => `Could not save: ${(error as Error).message}`,
+    }).catch(() => undefined);
+
+    return (
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button style={buttonStyle} onClick={() => save(false)}>Save</button>
+        <button style={buttonStyle} onClick={() => save(true)}>Save and fail</button>
+        <ToastRegion />
+      </div>
+    );
+  },
+};
+
+// Action button
+export const WithAction: Story = {
+  render: () => {
+    const [restored, setRestored] = useState(0);
+
+    return (
+      <div>
+        <button
+          style={buttonStyle}
+          onClick={() => toast('Message deleted', {
+            duration: 8000,
+            action: { label: 'Undo', onClick: () => setRestored(previous => previous + 1) },
+          })}
+        >
+          Delete message
+        </button>
+        <p style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: '#6b7280' }}>
+          Restored: {restored}
+        </p>
+        <ToastRegion />
+      </div>
+    );
+  },
+};
+
+// Placements, each with its own toaster
+export const Placements: Story = {
+  render: () => {
+    const placements: ToastPlacement[] = ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'];
+    const [regions] = useState(() => placements.map(placement => {
+      const region = createToastWithImplementation({
+        toaster: createToaster({ announcement: false }),
+        placement,
+        label: `Notifications ${placement}`,
+        swipeDirection: placement.endsWith('left') ? 'left' : 'right',
+      });
+      return { placement, region, Region: region.connect(reactAdapter) };
+    }));
+
+    return (
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        {regions.map(({ placement, region, Region }) => (
+          <React.Fragment key={placement}>
+            <button style={buttonStyle} onClick={() => region.toaster.show({ title: `Shown ${placement}` })}>
+              {placement}
+            </button>
+            <Region />
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  },
+};
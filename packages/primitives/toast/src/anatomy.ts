@@ -0,0 +1,181 @@
+/**
+ * Toast Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { ToastOptions, ToastPlacement, ToastState, ToastSwipeDirection, ToastType } from './types';
+
+const TYPE_COLORS: Record<ToastType, string> = {
+    default: '#6b7280',
+    success: '#16a34a',
+    error: '#dc2626',
+    warning: '#d97706',
+    info: '#2563eb',
+    loading: '#6b7280',
+};
+
+const getPlacementStyle = (placement: ToastPlacement) => {
+    const [vertical, horizontal] = placement.split('-') as ['top' | 'bottom', 'left' | 'center' | 'right'];
+
+    return {
+        [vertical]: '16px',
+        ...(horizontal === 'center'
+            ? { left: '50%', transform: 'translateX(-50%)' }
+            : { [horizontal]: '16px' }),
+    };
+};
+
+const getSwipeTransform = (direction: ToastSwipeDirection, offset: number) => {
+    switch (direction) {
+        case 'left':
+            return `translateX(${-offset}px)`;
+        case 'up':
+            return `translateY(${-offset}px)`;
+        case 'down':
+            return `translateY(${offset}px)`;
+        default:
+            return `translateX(${offset}px)`;
+    }
+};
+
+/**
+ * Creates the render contract of a toast region: a landmark fixed to a
+ * corner of the viewport with a list of the toasts on screen, each with a
+ * title, an optional description and action, and a close button
+ * @param options Component options
+ * @returns Toast anatomy
+ */
+export function createToastAnatomy(options: ToastOptions = {}): ComponentAnatomy<ToastState> {
+    const placement = options.placement ?? 'bottom-right';
+    const swipeDirection = options.swipeDirection ?? 'right';
+    const swipeThreshold = options.swipeThreshold ?? 50;
+
+    return {
+        parts: {
+            root: {
+                element: 'section',
+                props: () => ({
+                    'data-placement': placement,
+                    style: {
+                        position: 'fixed',
+                        zIndex: 9999,
+                        width: '360px',
+                        maxWidth: 'calc(100vw - 32px)',
+                        outline: 'none',
+                        ...getPlacementStyle(placement),
+                    },
+                }),
+            },
+            list: {
+                element: 'ol',
+                props: () => ({
+                    style: {
+                        listStyle: 'none',
+                        margin: 0,
+                        padding: 0,
+                        display: 'flex',
+                        // The newest toast is nearest the edge of the viewport
+                        flexDirection: placement.startsWith('top') ? 'column-reverse' : 'column',
+                        gap: '8px',
+                    },
+                }),
+            },
+            toast: {
+                element: 'li',
+                parent: 'list',
+                items: ({ state }) => state.toasts,
+                a11yArgument: ({ item }) => item.id,
+                // Toast handlers read the toast id from the event
+                event: ({ item }) => ({ toastId: item.id }),
+                props: ({ state, item }) => {
+                    const swiping = state.swipe !== null && state.swipe.id === item.id;
+                    const offset = swiping ? state.swipe!.offset : 0;
+
+                    return {
+                        'data-type': item.type,
+                        'data-swiping': swiping || undefined,
+                        style: {
+                            display: 'flex',
+                            alignItems: 'flex-start',
+                            gap: '12px',
+                            padding: '12px 16px',
+                            backgroundColor: 'white',
+                            border: '1px solid #e5e7eb',
+                            borderLeft: `4px solid ${TYPE_COLORS[item.type as ToastType]}`,
+                            borderRadius: '6px',
+                            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+                            transform: offset ? getSwipeTransform(swipeDirection, offset) : undefined,
+                            opacity: offset ? Math.max(0.2, 1 - offset / (swipeThreshold * 3)) : 1,
+                            transition: offset ? 'none' : 'transform 150ms ease, opacity 150ms ease',
+                            touchAction: swipeDirection === 'left' || swipeDirection === 'right' ? 'pan-y' : 'pan-x',
+                        },
+                    };
+                },
+            },
+            content: {
+                element: 'div',
+                parent: 'toast',
+                props: () => ({
+                    style: { flex: '1 1 auto', minWidth: 0 },
+                }),
+            },
+            title: {
+                element: 'div',
+                parent: 'content',
+                a11yArgument: ({ item }) => item.id,
+                text: ({ item }) => item.title,
+                props: () => ({
+                    style: { fontWeight: 600, fontSize: '0.875rem' },
+                }),
+            },
+            description: {
+                element: 'div',
+                parent: 'content',
+                when: ({ item }) => Boolean(item.description),
+                a11yArgument: ({ item }) => item.id,
+                text: ({ item }) => item.description,
+                props: () => ({
+                    style: { marginTop: '4px', fontSize: '0.875rem', color: '#4b5563' },
+                }),
+            },
+            action: {
+                element: 'button',
+                parent: 'toast',
+                when: ({ item }) => Boolean(item.action),
+                text: ({ item }) => item.action.label,
+                event: ({ item }) => ({ toastId: item.id }),
+                props: () => ({
+                    type: 'button',
+                    style: {
+                        flex: '0 0 auto',
+                        padding: '4px 8px',
+                        border: '1px solid #d1d5db',
+                        borderRadius: '4px',
+                        backgroundColor: 'white',
+                        cursor: 'pointer',
+                    },
+                }),
+            },
+            close: {
+                element: 'button',
+                parent: 'toast',
+                when: ({ item }) => item.dismissible,
+                text: () => '×',
+                event: ({ item }) => ({ toastId: item.id }),
+                props: () => ({
+                    type: 'button',
+                    style: {
+                        flex: '0 0 auto',
+                        border: 'none',
+                        background: 'none',
+                        fontSize: '1.25rem',
+                        lineHeight: 1,
+                        cursor: 'pointer',
+                        color: '#6b7280',
+                    },
+                }),
+            },
+        },
+    };
+}
@@ -0,0 +1,108 @@
+/**
+ * Toast Component
+ * Notification queue with a region landmark that renders it
+ */
+
+import { createToastLogic } from './logic';
+import { createToastAnatomy } from './anatomy';
+import { getToaster, type Toaster } from './toaster';
+import type { ComponentCore } from '@stellarix-ui/core';
+import type { ToastState, ToastEvents, ToastOptions } from './types';
+
+/**
+ * Toast region instance
+ */
+export interface ToastComponent extends ComponentCore<ToastState, ToastEvents> {
+    /**
+     * Toaster the region renders
+     */
+    toaster: Toaster;
+}
+
+/**
+ * Creates a toast region, rendering the toasts of a toaster.
+ * Toasts are shown through the toaster, e.g. `toast.success('Saved')`
+ * for the shared one.
+ * @param options Configuration options for the region
+ * @returns Component instance with its toaster
+ */
+export function createToast(options: ToastOptions = {}): ToastComponent {
+    const toaster = options.toaster ?? getToaster();
+
+    // Regions share the state store of their toaster
+    const state = toaster.state;
+    const logic = createToastLogic(toaster, options);
+
+    // Connect logic to state
+    logic.connect(state);
+    logic.initialize();
+
+    return {
+        state,
+        logic,
+        toaster,
+        metadata: {
+            name: 'Toast',
+            version: '0.0.1',
+            accessibility: {
+                role: 'region',
+                wcagLevel: 'AA',
+                patterns: ['region', 'status'],
+                keyboardShortcuts: [...(options.hotkey ?? ['F6']), 'Escape'],
+                ariaAttributes: ['aria-label', 'aria-live', 'aria-atomic', 'aria-labelledby', 'aria-describedby', 'aria-busy'],
+            },
+            events: {
+                supported: ['dismiss', 'action', 'pause', 'resume', 'swipe'],
+                required: [],
+                custom: {},
+            },
+            structure: {
+                elements: {
+                    root: { type: 'section', role: 'region', optional: false },
+                    list: { type: 'ol', optional: false },
+                    toast: { type: 'li', role: 'status', optional: true },
+                    action: { type: 'button', optional: true },
+                    close: { type: 'button', optional: true },
+                },
+            },
+        },
+        anatomy: createToastAnatomy(options),
+        connect: function <TFrameworkComponent>(adapter: any): TFrameworkComponent {
+            return adapter.createComponent(this);
+        },
+        destroy: () => {
+            logic.cleanup();
+        },
+    };
+}
+
+// Test aliases for factory functions
+export const createToastWithImplementation = createToast;
+export const createToastFactory = createToast;
+
+// Re-export types
+export type {
+    ToastState,
+    ToastEvents,
+    ToastOptions,
+    ToastProps,
+    ToastInput,
+    ToastItem,
+    ToastAction,
+    ToastType,
+    ToastPriority,
+    ToastPlacement,
+    ToastSwipe,
+    ToastSwipeDirection,
+    ToastPauseReason,
+    ToastPromiseMessages,
+    ToasterOptions
+} from './types';
+export type { Toaster, ToastFunction } from './toaster';
+export type { ToastStateStore } from './state';
+
+// Re-export the toaster, state and logic creators
+export { toast, createToaster, getToaster } from './toaster';
+export { createToastState } from './state';
+export { createToastLogic } from './logic';
+export { createToastAnatomy } from './anatomy';
@@ -0,0 +1,326 @@
+/**
+ * Toast Logic Tests
+ * Tests for the toast region logic layer
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAnnouncer } from '@stellarix-ui/utils';
+import { createToaster } from './toaster.js';
+import { createToastLogic } from './logic.js';
+import type { ToastOptions } from './types.js';
+
+describe('Toast Logic', () => {
+    const setup = (options: ToastOptions = {}) => {
+        const toaster = createToaster({ announcement: false });
+        const logic = createToastLogic(toaster, options);
+        logic.connect(toaster.state);
+        logic.initialize();
+        return { toaster, state: toaster.state, logic };
+    };
+
+    const pointer = (toastId: string, init: Record<string, any> = {}) => ({
+        toastId,
+        button: 0,
+        pointerId: 1,
+        clientX: 0,
+        clientY: 0,
+        target: null,
+        currentTarget: null,
+        ...init
+    });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = '';
+        vi.useRealTimers();
+        getAnnouncer().destroy();
+    });
+
+    describe('Accessibility', () => {
+        it('should label the region with its hotkey', () => {
+            const { logic } = setup({ label: 'Alerts', hotkey: ['altKey', 'KeyT'] });
+
+            expect(logic.getA11yProps('root')).toEqual(expect.objectContaining({
+                role: 'region',
+                'aria-label': 'Alerts (altKey+KeyT)',
+                tabIndex: -1
+            }));
+        });
+
+        it('should link toasts to their title and description', () => {
+            const { toaster, logic } = setup();
+            const id = toaster.show({ title: 'Saved', description: 'All changes are saved' });
+
+            const toastProps = logic.getA11yProps('toast')(id);
+            const titleProps = logic.getA11yProps('title')(id);
+            const descriptionProps = logic.getA11yProps('description')(id);
+
+            expect(toastProps).toEqual(expect.objectContaining({
+                role: 'status',
+                'aria-live': 'off',
+                'aria-atomic': 'true',
+                tabIndex: 0
+            }));
+            expect(toastProps['aria-labelledby']).toBe(titleProps.id);
+            expect(toastProps['aria-describedby']).toBe(descriptionProps.id);
+        });
+
+        it('should mark loading toasts as busy', () => {
+            const { toaster, logic } = setup();
+            const id = toaster.show({ title: 'Saving', type: 'loading' });
+
+            expect(logic.getA11yProps('toast')(id)['aria-busy']).toBe(true);
+            expect(logic.getA11yProps('toast')(id)['aria-describedby']).toBeUndefined();
+        });
+
+        it('should label the close button', () => {
+            const { logic } = setup({ closeLabel: 'Close' });
+
+            expect(logic.getA11yProps('close')['aria-label']).toBe('Close');
+        });
+    });
+
+    describe('Hotkey', () => {
+        it('should move focus to the region and back on Escape', () => {
+            const { logic } = setup();
+            const button = document.createElement('button');
+            const region = document.createElement('section');
+            region.id = logic.getA11yProps('root').id;
+            region.tabIndex = -1;
+            document.body.append(button, region);
+            button.focus();
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'F6', code: 'F6' }));
+            expect(document.activeElement).toBe(region);
+
+            logic.getInteractionHandlers('root').onKeyDown({ key: 'Escape', defaultPrevented: false, preventDefault: vi.fn() });
+            expect(document.activeElement).toBe(button);
+        });
+
+        it('should require every key of the hotkey', () => {
+            const { logic } = setup({ hotkey: ['altKey', 'KeyT'] });
+            const region = document.createElement('section');
+            region.id = logic.getA11yProps('root').id;
+            region.tabIndex = -1;
+            document.body.append(region);
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 't', code: 'KeyT' }));
+            expect(document.activeElement).not.toBe(region);
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 't', code: 'KeyT', altKey: true }));
+            expect(document.activeElement).toBe(region);
+        });
+
+        it('should stop listening on cleanup', () => {
+            const { logic } = setup();
+            const region = document.createElement('section');
+            region.id = logic.getA11yProps('root').id;
+            region.tabIndex = -1;
+            document.body.append(region);
+
+            logic.cleanup();
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'F6', code: 'F6' }));
+
+            expect(document.activeElement).not.toBe(region);
+        });
+    });
+
+    describe('Pausing', () => {
+        it('should pause the timers while the region is hovered', () => {
+            const { toaster, state, logic } = setup();
+            toaster.show({ title: 'Saved', duration: 1000 });
+            const handlers = logic.getInteractionHandlers('root');
+
+            handlers.onMouseEnter({});
+            vi.advanceTimersByTime(2000);
+            expect(state.getState().toasts).toHaveLength(1);
+
+            handlers.onMouseLeave({});
+            vi.advanceTimersByTime(1000);
+            expect(state.getState().toasts).toHaveLength(0);
+        });
+
+        it('should stay paused while focus moves within the region', () => {
+            const { state, logic } = setup();
+            const region = document.createElement('section');
+            const inside = document.createElement('button');
+            region.append(inside);
+            const handlers = logic.getInteractionHandlers('root');
+
+            handlers.onFocus({});
+            handlers.onBlur({ currentTarget: region, relatedTarget: inside });
+            expect(state.getState().paused).toBe(true);
+
+            handlers.onBlur({ currentTarget: region, relatedTarget: null });
+            expect(state.getState().paused).toBe(false);
+        });
+
+        it('should pause and resume through events', () => {
+            const { state, logic } = setup();
+
+            logic.handleEvent('pause', { reason: 'manual' });
+            expect(state.getState().paused).toBe(true);
+
+            logic.handleEvent('resume', { reason: 'manual' });
+            expect(state.getState().paused).toBe(false);
+        });
+    });
+
+    describe('Dismissing', () => {
+        it('should dismiss a toast with its close button', () => {
+            const onDismiss = vi.fn();
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saved', onDismiss });
+
+            logic.getInteractionHandlers('close').onClick({ toastId: id });
+
+            expect(state.getState().toasts).toEqual([]);
+            expect(onDismiss).toHaveBeenCalledTimes(1);
+        });
+
+        it('should dismiss a focused toast on Escape', () => {
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saved' });
+            const element = document.createElement('li');
+
+            logic.getInteractionHandlers('toast').onKeyDown({
+                key: 'Escape',
+                toastId: id,
+                target: element,
+                currentTarget: element,
+                preventDefault: vi.fn()
+            });
+
+            expect(state.getState().toasts).toEqual([]);
+        });
+
+        it('should keep toasts that are not dismissible', () => {
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saving', dismissible: false });
+            const element = document.createElement('li');
+
+            logic.getInteractionHandlers('toast').onKeyDown({
+                key: 'Escape',
+                toastId: id,
+                target: element,
+                currentTarget: element,
+                preventDefault: vi.fn()
+            });
+
+            expect(state.getState().toasts).toHaveLength(1);
+        });
+
+        it('should run the action and dismiss the toast', () => {
+            const onClick = vi.fn();
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Message deleted', action: { label: 'Undo', onClick } });
+
+            logic.getInteractionHandlers('action').onClick({ toastId: id });
+
+            expect(onClick).toHaveBeenCalledTimes(1);
+            expect(state.getState().toasts).toEqual([]);
+        });
+
+        it('should dismiss and run actions through events', () => {
+            const onClick = vi.fn();
+            const { toaster, state, logic } = setup();
+            const first = toaster.show({ title: 'Saved' });
+            const second = toaster.show({ title: 'Deleted', action: { label: 'Undo', onClick } });
+
+            logic.handleEvent('dismiss', { id: first });
+            logic.handleEvent('action', { id: second });
+
+            expect(onClick).toHaveBeenCalledTimes(1);
+            expect(state.getState().toasts).toEqual([]);
+        });
+    });
+
+    describe('Swipe', () => {
+        it('should dismiss a toast swiped past the threshold', () => {
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saved' });
+            const handlers = logic.getInteractionHandlers('toast');
+
+            handlers.onPointerDown(pointer(id, { clientX: 10 }));
+            expect(state.getState().paused).toBe(true);
+
+            handlers.onPointerMove(pointer(id, { clientX: 40 }));
+            expect(state.getState().swipe).toEqual({ id, offset: 30 });
+
+            handlers.onPointerMove(pointer(id, { clientX: 70 }));
+            handlers.onPointerUp(pointer(id, { clientX: 70 }));
+
+            expect(state.getState().toasts).toEqual([]);
+            expect(state.getState().swipe).toBeNull();
+            expect(state.getState().paused).toBe(false);
+        });
+
+        it('should keep a toast swiped short of the threshold', () => {
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saved' });
+            const handlers = logic.getInteractionHandlers('toast');
+
+            handlers.onPointerDown(pointer(id));
+            handlers.onPointerMove(pointer(id, { clientX: 30 }));
+            handlers.onPointerUp(pointer(id, { clientX: 30 }));
+
+            expect(state.getState().toasts).toHaveLength(1);
+            expect(state.getState().swipe).toBeNull();
+        });
+
+        it('should not move the toast against the swipe direction', () => {
+            const { toaster, state, logic } = setup({ swipeDirection: 'left' });
+            const id = toaster.show({ title: 'Saved' });
+            const handlers = logic.getInteractionHandlers('toast');
+
+            handlers.onPointerDown(pointer(id));
+            handlers.onPointerMove(pointer(id, { clientX: 80 }));
+            expect(state.getState().swipe).toEqual({ id, offset: 0 });
+
+            handlers.onPointerMove(pointer(id, { clientX: -60 }));
+            handlers.onPointerUp(pointer(id, { clientX: -60 }));
+            expect(state.getState().toasts).toEqual([]);
+        });
+
+        it('should use a custom threshold', () => {
+            const { toaster, state, logic } = setup({ swipeDirection: 'down', swipeThreshold: 100 });
+            const id = toaster.show({ title: 'Saved' });
+            const handlers = logic.getInteractionHandlers('toast');
+
+            handlers.onPointerDown(pointer(id));
+            handlers.onPointerMove(pointer(id, { clientY: 80 }));
+            handlers.onPointerUp(pointer(id, { clientY: 80 }));
+
+            expect(state.getState().toasts).toHaveLength(1);
+        });
+
+        it('should not swipe from a button in the toast', () => {
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saved' });
+            const handlers = logic.getInteractionHandlers('toast');
+
+            handlers.onPointerDown(pointer(id, { target: document.createElement('button') }));
+            handlers.onPointerMove(pointer(id, { clientX: 80 }));
+
+            expect(state.getState().swipe).toBeNull();
+            expect(state.getState().paused).toBe(false);
+        });
+
+        it('should reset a cancelled swipe', () => {
+            const { toaster, state, logic } = setup();
+            const id = toaster.show({ title: 'Saved' });
+            const handlers = logic.getInteractionHandlers('toast');
+
+            handlers.onPointerDown(pointer(id));
+            handlers.onPointerMove(pointer(id, { clientX: 80 }));
+            handlers.onPointerCancel(pointer(id));
+
+            expect(state.getState().toasts).toHaveLength(1);
+            expect(state.getState().swipe).toBeNull();
+            expect(state.getState().paused).toBe(false);
+        });
+    });
+});
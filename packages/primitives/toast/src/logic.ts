@@ -0,0 +1,254 @@
+/**
+ * Toast Component Logic
+ * The region is a landmark reached with a hotkey. Hovering or focusing it
+ * pauses the timers, and toasts are dismissed with their close button, a
+ * swipe, or Escape.
+ */
+
+import { LogicLayerBuilder, createComponentId } from '@stellarix-ui/core';
+import { addGlobalEventListener, focusElement, getElementById } from '@stellarix-ui/utils';
+import type { ToastState, ToastEvents, ToastOptions, ToastSwipeDirection } from './types.js';
+import { findToast } from './state.js';
+import type { Toaster } from './toaster.js';
+
+/**
+ * Distance a pointer moved in the swipe direction
+ */
+function getSwipeDistance(direction: ToastSwipeDirection, deltaX: number, deltaY: number): number {
+    switch (direction) {
+        case 'left':
+            return -deltaX;
+        case 'up':
+            return -deltaY;
+        case 'down':
+            return deltaY;
+        default:
+            return deltaX;
+    }
+}
+
+/**
+ * Creates the logic layer for the toast region
+ */
+export function createToastLogic(
+    toaster: Toaster,
+    options: ToastOptions = {}
+) {
+    const componentId = createComponentId('toast-region');
+    const regionId = `${componentId}-region`;
+    const hotkey = options.hotkey ?? ['F6'];
+    const label = options.label ?? 'Notifications';
+    const swipeDirection = options.swipeDirection ?? 'right';
+    const swipeThreshold = options.swipeThreshold ?? 50;
+
+    // Where the pointer went down on the swiped toast
+    let swipeStart: { id: string; x: number; y: number } | null = null;
+    // Element focused before the hotkey moved focus to the region
+    let returnFocus: HTMLElement | null = null;
+    let removeHotkey: (() => void) | null = null;
+
+    const getToastId = (event: Event & { toastId?: string }) => event.toastId ?? '';
+
+    const runAction = (currentState: ToastState, id: string) => {
+        const toast = findToast(currentState, id);
+        if (toast?.action) {
+            toast.action.onClick();
+            toaster.dismiss(toast.id);
+        }
+    };
+
+    const endSwipe = () => {
+        swipeStart = null;
+        toaster.state.setSwipe(null);
+        toaster.resume('swipe');
+    };
+
+    return new LogicLayerBuilder<ToastState, ToastEvents>()
+        .onInitialize(() => {
+            // Hotkey moving focus to the region, wherever focus is
+            removeHotkey = addGlobalEventListener('keydown', (event) => {
+                const pressed = hotkey.length > 0
+                    && hotkey.every(key => (event as unknown as Record<string, unknown>)[key] === true || event.code === key || event.key === key);
+                const region = getElementById(regionId);
+                if (!pressed || !region) return;
+
+                event.preventDefault();
+                const active = document.activeElement;
+                if (active instanceof HTMLElement && !region.contains(active)) {
+                    returnFocus = active;
+                }
+                focusElement(region);
+            });
+        })
+
+        .onCleanup(() => {
+            removeHotkey?.();
+            removeHotkey = null;
+            returnFocus = null;
+            swipeStart = null;
+        })
+
+        .onEvent('dismiss', (_currentState, payload) => {
+            if (payload?.id) {
+                toaster.dismiss(payload.id);
+            }
+            return null;
+        })
+
+        .onEvent('action', (currentState, payload) => {
+            if (payload?.id) {
+                runAction(currentState, payload.id);
+            }
+            return null;
+        })
+
+        .onEvent('pause', (_currentState, payload) => {
+            toaster.pause(payload?.reason);
+            return null;
+        })
+
+        .onEvent('resume', (_currentState, payload) => {
+            toaster.resume(payload?.reason);
+            return null;
+        })
+
+        .onEvent('swipe', (_currentState, payload) => {
+            toaster.state.setSwipe(payload);
+            return null;
+        })
+
+        .withA11y('root', () => ({
+            role: 'region',
+            id: regionId,
+            // Names the hotkey, as in "Notifications (F6)"
+            'aria-label': `${label} (${hotkey.join('+')})`,
+            tabIndex: -1
+        }))
+
+        .withA11y('toast', (state) => (id: string) => {
+            const toast = findToast(state, id);
+
+            return {
+                // Toasts are announced through the live region announcer,
+                // so the toast itself is not live
+                role: 'status',
+                'aria-live': 'off',
+                'aria-atomic': 'true',
+                'aria-labelledby': `${componentId}-${id}-title`,
+                'aria-describedby': toast?.description ? `${componentId}-${id}-description` : undefined,
+                'aria-busy': toast?.type === 'loading' || undefined,
+                tabIndex: 0
+            };
+        })
+
+        .withA11y('title', () => (id: string) => ({
+            id: `${componentId}-${id}-title`
+        }))
+
+        .withA11y('description', () => (id: string) => ({
+            id: `${componentId}-${id}-description`
+        }))
+
+        .withA11y('close', () => ({
+            'aria-label': options.closeLabel ?? 'Dismiss notification'
+        }))
+
+        .withInteraction('root', 'onMouseEnter', () => {
+            toaster.pause('hover');
+            return null;
+        })
+
+        .withInteraction('root', 'onMouseLeave', () => {
+            toaster.resume('hover');
+            return null;
+        })
+
+        .withInteraction('root', 'onFocus', () => {
+            toaster.pause('focus');
+            return null;
+        })
+
+        .withInteraction('root', 'onBlur', (_currentState, event: FocusEvent) => {
+            const region = event.currentTarget as HTMLElement | null;
+            if (!region?.contains(event.relatedTarget as Node | null)) {
+                toaster.resume('focus');
+            }
+            return null;
+        })
+
+        .withInteraction('root', 'onKeyDown', (_currentState, event: KeyboardEvent) => {
+            // Escape that did not dismiss a toast leaves the region
+            if (event.key === 'Escape' && !event.defaultPrevented && returnFocus) {
+                event.preventDefault();
+                focusElement(returnFocus);
+                returnFocus = null;
+            }
+            return null;
+        })
+
+        .withInteraction('toast', 'onKeyDown', (currentState, event: KeyboardEvent & { toastId?: string }) => {
+            const toast = findToast(currentState, getToastId(event));
+            if (event.key !== 'Escape' || event.target !== event.currentTarget || !toast?.dismissible) {
+                return null;
+            }
+
+            event.preventDefault();
+            toaster.dismiss(toast.id);
+            // Focus moves on to the region rather than the page
+            focusElement(getElementById(regionId));
+            return null;
+        })
+
+        .withInteraction('toast', 'onPointerDown', (currentState, event: PointerEvent & { toastId?: string }) => {
+            const toast = findToast(currentState, getToastId(event));
+            // Buttons in the toast keep their clicks
+            const onButton = event.target instanceof Element && event.target.closest('button');
+            if (!toast?.dismissible || event.button !== 0 || onButton) return null;
+
+            swipeStart = { id: toast.id, x: event.clientX, y: event.clientY };
+            // Keeps the pointer events coming when the pointer leaves the toast
+            (event.currentTarget as Element | null)?.setPointerCapture?.(event.pointerId);
+            toaster.pause('swipe');
+            return null;
+        })
+
+        .withInteraction('toast', 'onPointerMove', (_currentState, event: PointerEvent & { toastId?: string }) => {
+            if (!swipeStart || swipeStart.id !== getToastId(event)) return null;
+
+            const distance = getSwipeDistance(swipeDirection, event.clientX - swipeStart.x, event.clientY - swipeStart.y);
+            // Moving against the swipe direction does not move the toast
+            toaster.state.setSwipe({ id: swipeStart.id, offset: Math.max(0, distance) });
+            return null;
+        })
+
+        .withInteraction('toast', 'onPointerUp', (currentState) => {
+            if (!swipeStart) return null;
+
+            const id = swipeStart.id;
+            const swiped = currentState.swipe?.id === id && currentState.swipe.offset >= swipeThreshold;
+            endSwipe();
+            if (swiped) {
+                toaster.dismiss(id);
+            }
+            return null;
+        })
+
+        .withInteraction('toast', 'onPointerCancel', () => {
+            if (swipeStart) {
+                endSwipe();
+            }
+            return null;
+        })
+
+        .withInteraction('close', 'onClick', (_currentState, event: MouseEvent & { toastId?: string }) => {
+            toaster.dismiss(getToastId(event));
+            return null;
+        })
+
+        .withInteraction('action', 'onClick', (currentState, event: MouseEvent & { toastId?: string }) => {
+            runAction(currentState, getToastId(event));
+            return null;
+        })
+
+        .build();
+}
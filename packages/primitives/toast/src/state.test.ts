@@ -0,0 +1,162 @@
+/**
+ * Toast State Tests
+ * Tests for the toast queue state management
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createToastState, findToast } from './state.js';
+import type { ToastItem } from './types.js';
+
+describe('Toast State', () => {
+    const createItem = (id: string, changes: Partial<ToastItem> = {}): ToastItem => ({
+        id,
+        title: `Toast ${id}`,
+        type: 'default',
+        priority: 'normal',
+        duration: 5000,
+        dismissible: true,
+        createdAt: 0,
+        ...changes
+    });
+
+    const ids = (toasts: ToastItem[]) => toasts.map(toast => toast.id);
+
+    describe('Initialization', () => {
+        it('should create state with default values', () => {
+            const state = createToastState();
+
+            expect(state.getState()).toEqual({
+                toasts: [],
+                queue: [],
+                maxVisible: 3,
+                paused: false,
+                swipe: null
+            });
+            expect(state.hasToasts.get()).toBe(false);
+        });
+
+        it('should keep at least one toast on screen', () => {
+            const state = createToastState({ maxVisible: 0 });
+
+            expect(state.getState().maxVisible).toBe(1);
+        });
+    });
+
+    describe('Queue', () => {
+        it('should queue toasts beyond the stack limit', () => {
+            const state = createToastState({ maxVisible: 2 });
+
+            ['a', 'b', 'c'].forEach(id => state.addToast(createItem(id)));
+
+            expect(ids(state.getState().toasts)).toEqual(['a', 'b']);
+            expect(ids(state.getState().queue)).toEqual(['c']);
+            expect(state.hasToasts.get()).toBe(true);
+        });
+
+        it('should queue toasts after those of the same or a higher priority', () => {
+            const state = createToastState({ maxVisible: 1 });
+
+            state.addToast(createItem('shown'));
+            state.addToast(createItem('low', { priority: 'low' }));
+            state.addToast(createItem('normal'));
+            state.addToast(createItem('high', { priority: 'high' }));
+            state.addToast(createItem('urgent', { priority: 'high' }));
+
+            expect(ids(state.getState().queue)).toEqual(['high', 'urgent', 'normal', 'low']);
+        });
+
+        it('should show the next queued toast when one is removed', () => {
+            const state = createToastState({ maxVisible: 2 });
+            ['a', 'b', 'c', 'd'].forEach(id => state.addToast(createItem(id)));
+
+            state.removeToast('a');
+
+            expect(ids(state.getState().toasts)).toEqual(['b', 'c']);
+            expect(ids(state.getState().queue)).toEqual(['d']);
+        });
+
+        it('should remove queued toasts', () => {
+            const state = createToastState({ maxVisible: 1 });
+            ['a', 'b', 'c'].forEach(id => state.addToast(createItem(id)));
+
+            state.removeToast('b');
+
+            expect(ids(state.getState().toasts)).toEqual(['a']);
+            expect(ids(state.getState().queue)).toEqual(['c']);
+        });
+
+        it('should update shown and queued toasts', () => {
+            const state = createToastState({ maxVisible: 1 });
+            ['a', 'b'].forEach(id => state.addToast(createItem(id)));
+
+            state.updateToast('a', { title: 'Saved' });
+            state.updateToast('b', { type: 'error' });
+
+            expect(findToast(state.getState(), 'a')?.title).toBe('Saved');
+            expect(findToast(state.getState(), 'b')?.type).toBe('error');
+        });
+
+        it('should clear shown and queued toasts', () => {
+            const state = createToastState({ maxVisible: 1 });
+            ['a', 'b'].forEach(id => state.addToast(createItem(id)));
+            state.setSwipe({ id: 'a', offset: 20 });
+
+            state.clearToasts();
+
+            expect(state.getState().toasts).toEqual([]);
+            expect(state.getState().queue).toEqual([]);
+            expect(state.getState().swipe).toBeNull();
+        });
+    });
+
+    describe('Stack Limit', () => {
+        it('should show queued toasts when the limit grows', () => {
+            const state = createToastState({ maxVisible: 1 });
+            ['a', 'b', 'c'].forEach(id => state.addToast(createItem(id)));
+
+            state.setMaxVisible(3);
+
+            expect(ids(state.getState().toasts)).toEqual(['a', 'b', 'c']);
+            expect(state.getState().queue).toEqual([]);
+        });
+
+        it('should move toasts beyond a smaller limit to the front of the queue', () => {
+            const state = createToastState({ maxVisible: 3 });
+            ['a', 'b', 'c', 'd'].forEach(id => state.addToast(createItem(id)));
+
+            state.setMaxVisible(1);
+
+            expect(ids(state.getState().toasts)).toEqual(['a']);
+            expect(ids(state.getState().queue)).toEqual(['b', 'c', 'd']);
+        });
+    });
+
+    describe('Swipe', () => {
+        it('should track the swiped toast', () => {
+            const state = createToastState();
+            state.addToast(createItem('a'));
+
+            state.setSwipe({ id: 'a', offset: 30 });
+
+            expect(state.getState().swipe).toEqual({ id: 'a', offset: 30 });
+        });
+
+        it('should stop tracking a removed toast', () => {
+            const state = createToastState();
+            state.addToast(createItem('a'));
+            state.setSwipe({ id: 'a', offset: 30 });
+
+            state.removeToast('a');
+
+            expect(state.getState().swipe).toBeNull();
+        });
+    });
+
+    it('should track the paused state', () => {
+        const state = createToastState();
+
+        state.setPaused(true);
+
+        expect(state.getState().paused).toBe(true);
+    });
+});
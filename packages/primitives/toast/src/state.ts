@@ -0,0 +1,126 @@
+/**
+ * Toast Component State Management
+ * Manages the queue of toasts shared by the toaster and its regions
+ */
+
+import { createComponentState } from '@stellarix-ui/core';
+import type { ToastState, ToastItem, ToastPriority, ToastSwipe } from './types.js';
+
+const PRIORITY_RANK: Record<ToastPriority, number> = {
+    high: 0,
+    normal: 1,
+    low: 2
+};
+
+/**
+ * Adds a toast to the queue after the toasts of the same or a higher priority
+ */
+function enqueue(queue: ToastItem[], toast: ToastItem): ToastItem[] {
+    const index = queue.findIndex(queued => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[toast.priority]);
+    return index === -1
+        ? [...queue, toast]
+        : [...queue.slice(0, index), toast, ...queue.slice(index)];
+}
+
+/**
+ * Moves queued toasts on screen while there is room
+ */
+function fillStack(state: ToastState): ToastState {
+    const room = Math.max(0, state.maxVisible - state.toasts.length);
+    if (room === 0 || state.queue.length === 0) {
+        return state;
+    }
+
+    return {
+        ...state,
+        toasts: [...state.toasts, ...state.queue.slice(0, room)],
+        queue: state.queue.slice(room)
+    };
+}
+
+/**
+ * Finds a shown or queued toast
+ */
+export function findToast(state: Pick<ToastState, 'toasts' | 'queue'>, id: string): ToastItem | undefined {
+    return state.toasts.find(toast => toast.id === id) ?? state.queue.find(toast => toast.id === id);
+}
+
+/**
+ * Creates a toast state store
+ */
+export function createToastState(options: { maxVisible?: number } = {}) {
+    const initialState: ToastState = {
+        toasts: [],
+        queue: [],
+        maxVisible: Math.max(1, options.maxVisible ?? 3),
+        paused: false,
+        swipe: null
+    };
+
+    const store = createComponentState('Toast', initialState);
+
+    // Extended API for toast-specific state management
+    return {
+        ...store,
+
+        /**
+         * Shows a toast when the stack has room, and queues it otherwise
+         */
+        addToast: (toast: ToastItem) => {
+            store.setState((prev) => prev.toasts.length < prev.maxVisible
+                ? { ...prev, toasts: [...prev.toasts, toast] }
+                : { ...prev, queue: enqueue(prev.queue, toast) });
+        },
+
+        updateToast: (id: string, changes: Partial<ToastItem>) => {
+            const apply = (toast: ToastItem) => toast.id === id ? { ...toast, ...changes, id } : toast;
+            store.setState((prev) => ({
+                ...prev,
+                toasts: prev.toasts.map(apply),
+                queue: prev.queue.map(apply)
+            }));
+        },
+
+        /**
+         * Removes a toast, showing the next queued one in its place
+         */
+        removeToast: (id: string) => {
+            store.setState((prev) => fillStack({
+                ...prev,
+                toasts: prev.toasts.filter(toast => toast.id !== id),
+                queue: prev.queue.filter(toast => toast.id !== id),
+                swipe: prev.swipe?.id === id ? null : prev.swipe
+            }));
+        },
+
+        clearToasts: () => {
+            store.setState((prev) => ({ ...prev, toasts: [], queue: [], swipe: null }));
+        },
+
+        setMaxVisible: (maxVisible: number) => {
+            store.setState((prev) => {
+                const max = Math.max(1, maxVisible);
+                // Toasts beyond the new limit go back to the front of the queue
+                return fillStack({
+                    ...prev,
+                    maxVisible: max,
+                    toasts: prev.toasts.slice(0, max),
+                    queue: [...prev.toasts.slice(max), ...prev.queue]
+                });
+            });
+        },
+
+        setPaused: (paused: boolean) => {
+            store.setState((prev) => ({ ...prev, paused }));
+        },
+
+        setSwipe: (swipe: ToastSwipe | null) => {
+            store.setState((prev) => ({ ...prev, swipe }));
+        },
+
+        // Computed properties
+        hasToasts: store.derive(state => state.toasts.length > 0)
+    };
+}
+
+export type ToastStateStore = ReturnType<typeof createToastState>;
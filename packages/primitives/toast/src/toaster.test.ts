@@ -0,0 +1,260 @@
+/**
+ * Toaster Tests
+ * Tests for the toast queue timers, promises and announcements
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAnnouncer } from '@stellarix-ui/utils';
+import { createToaster, getToaster, toast } from './toaster.js';
+
+describe('Toaster', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        getToaster().clear();
+        vi.useRealTimers();
+        getAnnouncer().destroy();
+    });
+
+    const titles = (toaster: ReturnType<typeof createToaster>) =>
+        toaster.state.getState().toasts.map(item => item.title);
+
+    describe('Showing Toasts', () => {
+        it('should show a toast with default values', () => {
+            const toaster = createToaster({ announcement: false });
+
+            const id = toaster.show({ title: 'Saved' });
+
+            expect(toaster.state.getState().toasts).toEqual([
+                expect.objectContaining({
+                    id,
+                    title: 'Saved',
+                    type: 'default',
+                    priority: 'normal',
+                    duration: 5000,
+                    dismissible: true
+                })
+            ]);
+        });
+
+        it('should update the toast with the same id', () => {
+            const toaster = createToaster({ announcement: false });
+            toaster.show({ id: 'upload', title: 'Uploading' });
+
+            toaster.show({ id: 'upload', title: 'Uploaded', type: 'success' });
+
+            expect(toaster.state.getState().toasts).toHaveLength(1);
+            expect(toaster.state.getState().toasts[0]).toMatchObject({ title: 'Uploaded', type: 'success' });
+        });
+
+        it('should queue toasts beyond maxVisible', () => {
+            const toaster = createToaster({ maxVisible: 2, announcement: false });
+
+            ['One', 'Two', 'Three'].forEach(title => toaster.show({ title }));
+
+            expect(titles(toaster)).toEqual(['One', 'Two']);
+            expect(toaster.state.getState().queue.map(item => item.title)).toEqual(['Three']);
+        });
+
+        it('should show toasts in the shared toaster', () => {
+            const id = toast.success('Saved');
+
+            expect(getToaster().state.getState().toasts).toEqual([
+                expect.objectContaining({ id, title: 'Saved', type: 'success' })
+            ]);
+        });
+    });
+
+    describe('Timers', () => {
+        it('should dismiss a toast after its duration', () => {
+            const onAutoClose = vi.fn();
+            const toaster = createToaster({ announcement: false });
+            toaster.show({ title: 'Saved', duration: 1000, onAutoClose });
+
+            vi.advanceTimersByTime(999);
+            expect(titles(toaster)).toEqual(['Saved']);
+
+            vi.advanceTimersByTime(1);
+            expect(titles(toaster)).toEqual([]);
+            expect(onAutoClose).toHaveBeenCalledWith(expect.objectContaining({ title: 'Saved' }));
+        });
+
+        it('should not start the timer of a queued toast', () => {
+            const toaster = createToaster({ maxVisible: 1, announcement: false });
+            toaster.show({ title: 'First', duration: 1000 });
+            toaster.show({ title: 'Second', duration: 1000 });
+
+            vi.advanceTimersByTime(1000);
+            expect(titles(toaster)).toEqual(['Second']);
+
+            vi.advanceTimersByTime(999);
+            expect(titles(toaster)).toEqual(['Second']);
+
+            vi.advanceTimersByTime(1);
+            expect(titles(toaster)).toEqual([]);
+        });
+
+        it('should keep loading toasts until they are updated', () => {
+            const toaster = createToaster({ announcement: false });
+            const id = toaster.show({ title: 'Saving', type: 'loading' });
+
+            vi.advanceTimersByTime(60000);
+            expect(titles(toaster)).toEqual(['Saving']);
+
+            toaster.update(id, { title: 'Saved', type: 'success' });
+            vi.advanceTimersByTime(5000);
+            expect(titles(toaster)).toEqual([]);
+        });
+
+        it('should keep the time left while paused', () => {
+            const toaster = createToaster({ announcement: false });
+            toaster.show({ title: 'Saved', duration: 1000 });
+
+            vi.advanceTimersByTime(600);
+            toaster.pause('hover');
+            expect(toaster.state.getState().paused).toBe(true);
+
+            vi.advanceTimersByTime(5000);
+            expect(titles(toaster)).toEqual(['Saved']);
+
+            toaster.resume('hover');
+            vi.advanceTimersByTime(399);
+            expect(titles(toaster)).toEqual(['Saved']);
+
+            vi.advanceTimersByTime(1);
+            expect(titles(toaster)).toEqual([]);
+        });
+
+        it('should stay paused until every reason is resumed', () => {
+            const toaster = createToaster({ announcement: false });
+            toaster.show({ title: 'Saved', duration: 1000 });
+
+            toaster.pause('hover');
+            toaster.pause('focus');
+            toaster.resume('hover');
+            vi.advanceTimersByTime(2000);
+
+            expect(titles(toaster)).toEqual(['Saved']);
+            expect(toaster.state.getState().paused).toBe(true);
+
+            toaster.resume('focus');
+            vi.advanceTimersByTime(1000);
+            expect(titles(toaster)).toEqual([]);
+        });
+    });
+
+    describe('Dismissing', () => {
+        it('should dismiss a toast and call onDismiss', () => {
+            const onDismiss = vi.fn();
+            const toaster = createToaster({ announcement: false });
+            const id = toaster.show({ title: 'Saved', onDismiss });
+
+            toaster.dismiss(id);
+
+            expect(titles(toaster)).toEqual([]);
+            expect(onDismiss).toHaveBeenCalledWith(expect.objectContaining({ id }));
+        });
+
+        it('should dismiss every shown and queued toast without an id', () => {
+            const onDismiss = vi.fn();
+            const toaster = createToaster({ maxVisible: 1, announcement: false });
+            toaster.show({ title: 'First', onDismiss });
+            toaster.show({ title: 'Second', onDismiss });
+
+            toaster.dismiss();
+
+            expect(toaster.state.getState().toasts).toEqual([]);
+            expect(toaster.state.getState().queue).toEqual([]);
+            expect(onDismiss).toHaveBeenCalledTimes(2);
+        });
+
+        it('should clear toasts without calling their callbacks', () => {
+            const onDismiss = vi.fn();
+            const toaster = createToaster({ announcement: false });
+            toaster.show({ title: 'Saved', onDismiss });
+
+            toaster.clear();
+
+            expect(titles(toaster)).toEqual([]);
+            expect(onDismiss).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Promises', () => {
+        it('should turn a loading toast into a success toast', async () => {
+            const toaster = createToaster({ announcement: false });
+
+            await toaster.promise(Promise.resolve('report.pdf'), {
+                loading: 'Uploading',
+                success: (name) => `Uploaded ${name}`,
+                error: 'Upload failed'
+            });
+
+            expect(toaster.state.getState().toasts).toEqual([
+                expect.objectContaining({ title: 'Uploaded report.pdf', type: 'success', duration: 5000 })
+            ]);
+        });
+
+        it('should turn a loading toast into an error toast', async () => {
+            const toaster = createToaster({ announcement: false });
+
+            const pending = toaster.promise(() => Promise.reject(new Error('Offline')), {
+                loading: 'Uploading',
+                success: 'Uploaded',
+                error: (error) => `Upload failed: ${(error as Error).message}`
+            });
+            expect(toaster.state.getState().toasts[0]).toMatchObject({ title: 'Uploading', type: 'loading' });
+
+            await expect(pending).rejects.toThrow('Offline');
+            expect(toaster.state.getState().toasts[0]).toMatchObject({ title: 'Upload failed: Offline', type: 'error' });
+        });
+    });
+
+    describe('Announcements', () => {
+        it('should announce toasts coming on screen', () => {
+            const toaster = createToaster();
+
+            toaster.show({ title: 'Saved', description: 'All changes are saved' });
+            vi.advanceTimersByTime(200);
+
+            expect(document.querySelector('[data-stellarix-announcer="polite"]')?.textContent)
+                .toBe('Saved. All changes are saved');
+        });
+
+        it('should announce errors assertively', () => {
+            const toaster = createToaster();
+
+            toaster.show({ title: 'Upload failed', type: 'error' });
+            vi.advanceTimersByTime(200);
+
+            expect(document.querySelector('[data-stellarix-announcer="assertive"]')?.textContent)
+                .toBe('Upload failed');
+        });
+
+        it('should announce queued toasts when they come on screen', () => {
+            const toaster = createToaster({ maxVisible: 1 });
+            const id = toaster.show({ title: 'First' });
+            toaster.show({ title: 'Second' });
+            vi.advanceTimersByTime(200);
+
+            expect(document.querySelector('[data-stellarix-announcer="polite"]')?.textContent).toBe('First');
+
+            toaster.dismiss(id);
+            vi.advanceTimersByTime(400);
+
+            expect(document.querySelector('[data-stellarix-announcer="polite"]')?.textContent).toBe('Second');
+        });
+
+        it('should use a custom announcement', () => {
+            const toaster = createToaster({ announcement: (item) => `Notification: ${item.title}` });
+
+            toaster.show({ title: 'Saved' });
+            vi.advanceTimersByTime(200);
+
+            expect(document.querySelector('[data-stellarix-announcer="polite"]')?.textContent)
+                .toBe('Notification: Saved');
+        });
+    });
+});
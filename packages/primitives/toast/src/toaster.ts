@@ -0,0 +1,306 @@
+/**
+ * Toaster
+ * Queue of toasts with auto-dismiss timers and screen reader announcements.
+ * Timers run only while a toast is on screen and stop while any reason to
+ * pause holds, keeping the time left. Usable without any framework:
+ * `toast.success('Saved')` shows a toast in the shared toaster.
+ */
+
+import { createComponentId } from '@stellarix-ui/core';
+import { announce } from '@stellarix-ui/utils';
+import { createToastState, findToast, type ToastStateStore } from './state.js';
+import type {
+    ToastInput,
+    ToastItem,
+    ToastPauseReason,
+    ToastPromiseMessages,
+    ToastState,
+    ToastType,
+    ToasterOptions
+} from './types.js';
+
+/**
+ * Queue of toasts with their timers. One toaster is shared by the page
+ * (`getToaster()`), and any number of regions can render it.
+ */
+export interface Toaster {
+    /**
+     * State store of the queue
+     */
+    state: ToastStateStore;
+
+    /**
+     * Shows a toast, or updates the shown or queued toast with the same id
+     * @returns Id of the toast
+     */
+    show: (input: ToastInput) => string;
+
+    /**
+     * Changes a shown or queued toast. A new type or duration restarts its timer.
+     */
+    update: (id: string, changes: Partial<Omit<ToastInput, 'id'>>) => void;
+
+    /**
+     * Dismisses one toast, or every toast without an id
+     */
+    dismiss: (id?: string) => void;
+
+    /**
+     * Shows a loading toast that turns into a success or error toast when the promise settles
+     * @returns The promise
+     */
+    promise: <T>(
+        promise: Promise<T> | (() => Promise<T>),
+        messages: ToastPromiseMessages<T>,
+        input?: Partial<Omit<ToastInput, 'title' | 'type'>>
+    ) => Promise<T>;
+
+    /**
+     * Pauses the auto-dismiss timers until every reason to pause is resumed
+     */
+    pause: (reason?: ToastPauseReason) => void;
+
+    /**
+     * Resumes the timers paused for a reason
+     */
+    resume: (reason?: ToastPauseReason) => void;
+
+    /**
+     * Removes every toast, shown or queued, without calling their callbacks
+     */
+    clear: () => void;
+}
+
+interface ToastTimer {
+    remaining: number;
+    startedAt: number;
+    handle: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Creates a toaster with its own queue. Most code should use `toast`,
+ * which shows toasts in the toaster shared by the page.
+ * @param options Stack limit, default duration and announcements
+ */
+export function createToaster(options: ToasterOptions = {}): Toaster {
+    const state = createToastState(options);
+    const defaultDuration = options.duration ?? 5000;
+    const pauseReasons = new Set<ToastPauseReason>();
+    // Timers and last announced message of the toasts on screen
+    const timers = new Map<string, ToastTimer>();
+    const announced = new Map<string, string>();
+
+    const getDuration = (type: ToastType, duration?: number) =>
+        duration ?? (type === 'loading' ? Infinity : defaultDuration);
+
+    const describe = (toast: ToastItem) => options.announcement
+        ? options.announcement(toast)
+        : [toast.title, toast.description].filter(Boolean).join('. ');
+
+    const startTimer = (id: string) => {
+        const timer = timers.get(id);
+        if (!timer || timer.handle || pauseReasons.size > 0 || !Number.isFinite(timer.remaining)) return;
+
+        timer.startedAt = Date.now();
+        timer.handle = setTimeout(() => {
+            const toast = findToast(state.getState(), id);
+            timers.delete(id);
+            state.removeToast(id);
+            if (toast?.onAutoClose) {
+                toast.onAutoClose(toast);
+            }
+        }, Math.max(0, timer.remaining));
+    };
+
+    const stopTimer = (id: string) => {
+        const timer = timers.get(id);
+        if (timer?.handle) {
+            clearTimeout(timer.handle);
+            timer.handle = null;
+            timer.remaining -= Date.now() - timer.startedAt;
+        }
+    };
+
+    const forget = (id: string) => {
+        const timer = timers.get(id);
+        if (timer?.handle) {
+            clearTimeout(timer.handle);
+        }
+        timers.delete(id);
+        announced.delete(id);
+    };
+
+    // Toasts coming on screen start their timer and are announced
+    const sync = (current: ToastState) => {
+        current.toasts.forEach(toast => {
+            if (!timers.has(toast.id)) {
+                timers.set(toast.id, { remaining: toast.duration, startedAt: 0, handle: null });
+            }
+            startTimer(toast.id);
+
+            if (options.announcement !== false) {
+                const message = describe(toast);
+                if (announced.get(toast.id) !== message) {
+                    announced.set(toast.id, message);
+                    announce(message, {
+                        priority: toast.type === 'error' || toast.priority === 'high' ? 'assertive' : 'polite'
+                    });
+                }
+            }
+        });
+
+        Array.from(timers.keys())
+            .filter(id => !current.toasts.some(toast => toast.id === id))
+            .forEach(forget);
+    };
+    state.subscribe(sync);
+
+    const update: Toaster['update'] = (id, changes) => {
+        const toast = findToast(state.getState(), id);
+        if (!toast) return;
+
+        const next: Partial<ToastItem> = { ...changes };
+        if (changes.type !== undefined || changes.duration !== undefined) {
+            next.duration = getDuration(changes.type ?? toast.type, changes.duration);
+            // The timer starts over with the new duration, and the toast is announced again
+            forget(id);
+        }
+        state.updateToast(id, next);
+    };
+
+    const show: Toaster['show'] = (input) => {
+        const id = input.id ?? createComponentId('toast');
+        if (findToast(state.getState(), id)) {
+            const { id: _id, ...changes } = input;
+            update(id, changes);
+            return id;
+        }
+
+        const type = input.type ?? 'default';
+        state.addToast({
+            ...input,
+            id,
+            type,
+            priority: input.priority ?? 'normal',
+            duration: getDuration(type, input.duration),
+            dismissible: input.dismissible ?? true,
+            createdAt: Date.now()
+        });
+        return id;
+    };
+
+    return {
+        state,
+        show,
+        update,
+
+        dismiss: (id) => {
+            const current = state.getState();
+            const dismissed = id === undefined
+                ? [...current.toasts, ...current.queue]
+                : [findToast(current, id)].filter((toast): toast is ToastItem => Boolean(toast));
+
+            if (id === undefined) {
+                // At once, so queued toasts do not come on screen in between
+                state.clearToasts();
+            } else if (dismissed.length > 0) {
+                state.removeToast(id);
+            }
+
+            dismissed.forEach(toast => {
+                if (toast.onDismiss) {
+                    toast.onDismiss(toast);
+                }
+            });
+        },
+
+        promise: (promise, messages, input = {}) => {
+            const id = show({ ...input, title: messages.loading, type: 'loading' });
+            const pending = typeof promise === 'function' ? promise() : promise;
+
+            pending.then(
+                value => update(id, {
+                    title: typeof messages.success === 'function' ? messages.success(value) : messages.success,
+                    type: 'success',
+                    duration: getDuration('success', input.duration)
+                }),
+                error => update(id, {
+                    title: typeof messages.error === 'function' ? messages.error(error) : messages.error,
+                    type: 'error',
+                    duration: getDuration('error', input.duration)
+                })
+            );
+
+            return pending;
+        },
+
+        pause: (reason = 'manual') => {
+            if (pauseReasons.has(reason)) return;
+
+            pauseReasons.add(reason);
+            if (pauseReasons.size === 1) {
+                timers.forEach((_timer, id) => stopTimer(id));
+                state.setPaused(true);
+            }
+        },
+
+        resume: (reason = 'manual') => {
+            if (!pauseReasons.delete(reason) || pauseReasons.size > 0) return;
+
+            state.setPaused(false);
+            timers.forEach((_timer, id) => startTimer(id));
+        },
+
+        clear: () => {
+            Array.from(timers.keys()).forEach(forget);
+            state.clearToasts();
+        }
+    };
+}
+
+let sharedToaster: Toaster | null = null;
+
+/**
+ * Toaster shared by the page
+ */
+export function getToaster(): Toaster {
+    return sharedToaster ??= createToaster();
+}
+
+type ToastShortcutInput = Partial<Omit<ToastInput, 'title' | 'type'>>;
+
+/**
+ * Shows toasts in the shared toaster
+ */
+export interface ToastFunction {
+    (title: string, input?: Partial<Omit<ToastInput, 'title'>>): string;
+    success: (title: string, input?: ToastShortcutInput) => string;
+    error: (title: string, input?: ToastShortcutInput) => string;
+    warning: (title: string, input?: ToastShortcutInput) => string;
+    info: (title: string, input?: ToastShortcutInput) => string;
+    loading: (title: string, input?: ToastShortcutInput) => string;
+    promise: Toaster['promise'];
+    update: Toaster['update'];
+    dismiss: Toaster['dismiss'];
+}
+
+const showType = (type: ToastType) => (title: string, input: ToastShortcutInput = {}) =>
+    getToaster().show({ ...input, title, type });
+
+/**
+ * Shows a toast in the shared toaster, e.g. `toast.success('Saved')`
+ * @returns Id of the toast
+ */
+export const toast: ToastFunction = Object.assign(
+    (title: string, input: Partial<Omit<ToastInput, 'title'>> = {}) => getToaster().show({ ...input, title }),
+    {
+        success: showType('success'),
+        error: showType('error'),
+        warning: showType('warning'),
+        info: showType('info'),
+        loading: showType('loading'),
+        promise: ((promise, messages, input) => getToaster().promise(promise, messages, input)) as Toaster['promise'],
+        update: ((id, changes) => getToaster().update(id, changes)) as Toaster['update'],
+        dismiss: ((id) => getToaster().dismiss(id)) as Toaster['dismiss']
+    }
+);
@@ -0,0 +1,295 @@
+/**
+ * Toast Component Types
+ * Define all TypeScript interfaces for the toast component
+ */
+
+import type { Toaster } from './toaster';
+
+/**
+ * Kind of toast, which sets its styling and default duration
+ */
+export type ToastType = 'default' | 'success' | 'error' | 'warning' | 'info' | 'loading';
+
+/**
+ * How urgent a toast is. High priority toasts wait ahead of the others
+ * when the stack is full and are announced assertively.
+ */
+export type ToastPriority = 'low' | 'normal' | 'high';
+
+/**
+ * Corner or edge of the viewport the toasts stack in
+ */
+export type ToastPlacement = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+/**
+ * Direction a toast is swiped in to dismiss it
+ */
+export type ToastSwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Why the auto-dismiss timers are paused
+ * - `hover`: the pointer is over the region
+ * - `focus`: focus is in the region
+ * - `swipe`: a toast is being swiped
+ * - `manual`: `pause()` was called
+ */
+export type ToastPauseReason = 'hover' | 'focus' | 'swipe' | 'manual';
+
+/**
+ * Button in a toast that runs an action and dismisses the toast
+ */
+export interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
+
+/**
+ * Toast to show
+ */
+export interface ToastInput {
+    /**
+     * Id of the toast; showing a toast with the id of a shown one updates it
+     * @default Generated
+     */
+    id?: string;
+
+    /**
+     * Main message
+     */
+    title: string;
+
+    /**
+     * Secondary text under the title
+     */
+    description?: string;
+
+    /**
+     * @default 'default'
+     */
+    type?: ToastType;
+
+    /**
+     * @default 'normal'
+     */
+    priority?: ToastPriority;
+
+    /**
+     * Milliseconds the toast stays once shown; `Infinity` keeps it until dismissed
+     * @default The toaster's duration, or Infinity for loading toasts
+     */
+    duration?: number;
+
+    /**
+     * Whether the toast has a close button and can be swiped away
+     * @default true
+     */
+    dismissible?: boolean;
+
+    /**
+     * Action button
+     */
+    action?: ToastAction;
+
+    /**
+     * Called when the toast is dismissed by the user or through `dismiss`
+     */
+    onDismiss?: (toast: ToastItem) => void;
+
+    /**
+     * Called when the toast closes because its duration ran out
+     */
+    onAutoClose?: (toast: ToastItem) => void;
+}
+
+/**
+ * Toast in the queue
+ */
+export interface ToastItem extends ToastInput {
+    id: string;
+    type: ToastType;
+    priority: ToastPriority;
+    duration: number;
+    dismissible: boolean;
+
+    /**
+     * When the toast was first shown, in milliseconds since the epoch
+     */
+    createdAt: number;
+}
+
+/**
+ * Toast being swiped
+ */
+export interface ToastSwipe {
+    /**
+     * Id of the swiped toast
+     */
+    id: string;
+
+    /**
+     * Distance swiped in the dismiss direction, in pixels
+     */
+    offset: number;
+}
+
+/**
+ * Toast state, shared by the toaster and every region rendering it
+ */
+export interface ToastState {
+    /**
+     * Toasts on screen, oldest first
+     */
+    toasts: ToastItem[];
+
+    /**
+     * Toasts waiting for room in the stack, in the order they will be shown
+     */
+    queue: ToastItem[];
+
+    /**
+     * Most toasts on screen at once
+     */
+    maxVisible: number;
+
+    /**
+     * Whether the auto-dismiss timers are paused
+     */
+    paused: boolean;
+
+    /**
+     * Toast being swiped, if any
+     */
+    swipe: ToastSwipe | null;
+}
+
+/**
+ * Messages of a promise toast. Functions receive the resolved value or the rejection reason.
+ */
+export interface ToastPromiseMessages<T> {
+    loading: string;
+    success: string | ((value: T) => string);
+    error: string | ((error: unknown) => string);
+}
+
+/**
+ * Toaster options
+ */
+export interface ToasterOptions {
+    /**
+     * Most toasts on screen at once; the others wait in the queue
+     * @default 3
+     */
+    maxVisible?: number;
+
+    /**
+     * Milliseconds a toast stays when it sets no duration
+     * @default 5000
+     */
+    duration?: number;
+
+    /**
+     * Announces toasts to screen readers as they are shown; `false` turns it off
+     * @default Title and description
+     */
+    announcement?: ((toast: ToastItem) => string) | false;
+}
+
+/**
+ * Toast region options
+ */
+export interface ToastOptions {
+    /**
+     * Toaster rendered by the region
+     * @default The shared toaster
+     */
+    toaster?: Toaster;
+
+    /**
+     * @default 'bottom-right'
+     */
+    placement?: ToastPlacement;
+
+    /**
+     * Label of the region landmark
+     * @default 'Notifications'
+     */
+    label?: string;
+
+    /**
+     * Keys that move focus to the region, as `KeyboardEvent` modifier
+     * flags and codes; every one must be pressed
+     * @default ['F6']
+     */
+    hotkey?: string[];
+
+    /**
+     * @default 'right'
+     */
+    swipeDirection?: ToastSwipeDirection;
+
+    /**
+     * Pixels a toast must be swiped to be dismissed
+     * @default 50
+     */
+    swipeThreshold?: number;
+
+    /**
+     * Label of the close button of each toast
+     * @default 'Dismiss notification'
+     */
+    closeLabel?: string;
+}
+
+/**
+ * Toast component events
+ */
+export interface ToastEvents {
+    /**
+     * Fired when a toast is dismissed from the region
+     */
+    dismiss: {
+        id: string;
+    };
+
+    /**
+     * Fired when the action of a toast is run
+     */
+    action: {
+        id: string;
+    };
+
+    /**
+     * Fired when the region pauses the timers
+     */
+    pause: {
+        reason: ToastPauseReason;
+    };
+
+    /**
+     * Fired when the region resumes the timers
+     */
+    resume: {
+        reason: ToastPauseReason;
+    };
+
+    /**
+     * Fired while a toast is swiped
+     */
+    swipe: ToastSwipe;
+}
+
+/**
+ * Toast component props
+ * Props that can be passed to the component
+ */
+export interface ToastProps extends ToastOptions {
+    /**
+     * Additional CSS class
+     */
+    className?: string;
+
+    /**
+     * Test ID for testing
+     */
+    'data-testid'?: string;
+}
@@ -0,0 +1,71 @@
+/**
+ * Toast React Integration Tests
+ * Tests for rendering a toaster through the React adapter
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { createToast, createToaster } from '../src';
+import { reactAdapter } from '@stellarix-ui/react';
+import { getAnnouncer } from '@stellarix-ui/utils';
+
+describe('Toast React Integration', () => {
+    afterEach(() => {
+        getAnnouncer().destroy();
+    });
+
+    const renderRegion = () => {
+        const toaster = createToaster({ announcement: false });
+        const region = createToast({ toaster });
+        const ToastRegion = region.connect(reactAdapter) as React.ComponentType;
+        render(<ToastRegion />);
+        return toaster;
+    };
+
+    it('should render the region landmark', () => {
+        renderRegion();
+
+        expect(screen.getByRole('region', { name: 'Notifications (F6)' })).toBeInTheDocument();
+    });
+
+    it('should render shown toasts with their title and description', () => {
+        const toaster = renderRegion();
+
+        act(() => {
+            toaster.show({ title: 'Saved', description: 'All changes are saved', type: 'success' });
+        });
+
+        const toast = screen.getByRole('status');
+        expect(toast).toHaveAccessibleName('Saved');
+        expect(toast).toHaveAccessibleDescription('All changes are saved');
+        expect(toast).toHaveAttribute('data-type', 'success');
+    });
+
+    it('should dismiss a toast with its close button', () => {
+        const onDismiss = vi.fn();
+        const toaster = renderRegion();
+
+        act(() => {
+            toaster.show({ title: 'Saved', onDismiss });
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+
+        expect(screen.queryByRole('status')).not.toBeInTheDocument();
+        expect(onDismiss).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run the action of a toast', () => {
+        const onClick = vi.fn();
+        const toaster = renderRegion();
+
+        act(() => {
+            toaster.show({ title: 'Message deleted', action: { label: 'Undo', onClick } });
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+        expect(onClick).toHaveBeenCalledTimes(1);
+        expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Toggle Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { ToggleOptions, ToggleState } from './types';
+
+const sizes = {
+    sm: { width: 32, height: 18 },
+    md: { width: 44, height: 24 },
+    lg: { width: 56, height: 30 },
+};
+
+/**
+ * Creates the render contract of a toggle: a switch button and its thumb
+ * @param options Component options, for the size
+ * @returns Toggle anatomy
+ */
+export function createToggleAnatomy(options: ToggleOptions = {}): ComponentAnatomy<ToggleState> {
+    const { width, height } = sizes[options.size ?? 'md'];
+    const thumbSize = height - 4;
+
+    return {
+        parts: {
+            root: {
+                element: 'button',
+                props: ({ state }) => ({
+                    type: 'button',
+                    disabled: state.disabled || undefined,
+                    'data-state': state.checked ? 'checked' : 'unchecked',
+                    style: {
+                        position: 'relative',
+                        width,
+                        height,
+                        padding: '0',
+                        border: 'none',
+                        borderRadius: height / 2,
+                        backgroundColor: state.checked ? '#3b82f6' : '#d1d5db',
+                        cursor: state.disabled ? 'not-allowed' : 'pointer',
+                        opacity: state.disabled ? 0.5 : 1,
+                    },
+                }),
+            },
+            thumb: {
+                element: 'span',
+                props: ({ state }) => ({
+                    'data-state': state.checked ? 'checked' : 'unchecked',
+                    style: {
+                        position: 'absolute',
+                        top: 2,
+                        left: state.checked ? width - thumbSize - 2 : 2,
+                        width: thumbSize,
+                        height: thumbSize,
+                        borderRadius: '50%',
+                        backgroundColor: 'white',
+                        transition: 'left 0.2s ease',
+                    },
+                }),
+            },
+        },
+        bindings: {
+            checked: 'checked',
+        },
+    };
+}
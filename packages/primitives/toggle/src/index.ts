@@ -6,6 +6,7 @@
 import { createPrimitive } from '@stellarix-ui/core';
 import { createToggleState } from './state';
 import { createToggleLogic } from './logic';
+import { createToggleAnatomy } from './anatomy';
 import type { ToggleOptions, ToggleState, ToggleEvents } from './types';
 
 /**
@@ -17,6 +18,7 @@ export function createToggle(options: ToggleOptions = {}) {
     return createPrimitive<ToggleState, ToggleEvents, ToggleOptions>('Toggle', {
         initialState: options,
         logicConfig: options,
+        anatomy: createToggleAnatomy(options),
         metadata: {
             accessibility: {
                 role: 'switch',
@@ -80,6 +82,7 @@ export type {
 } from './types';
 
 export type { ToggleStateStore } from './state';
+export { createToggleAnatomy } from './anatomy';
 
 // Default export for convenience
 export default createToggleWithImplementation;
\ No newline at end of file
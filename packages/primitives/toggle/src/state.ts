@@ -3,7 +3,7 @@
  * Ultra-generic state implementation
  */
 
-import { createComponentState } from '@stellarix-ui/core';
+import { createComponentState, type StoreSelection } from '@stellarix-ui/core';
 import type { ToggleState, ToggleOptions } from './types';
 
 /**
@@ -14,6 +14,7 @@ export interface ToggleStateStore {
     getState: () => ToggleState;
     setState: (updates: Partial<ToggleState>) => void;
     subscribe: (listener: (state: ToggleState) => void) => () => void;
+    select: <U>(selector: (state: ToggleState) => U, equalityFn?: (a: U, b: U) => boolean) => StoreSelection<U>;
     derive: <U>(selector: (state: ToggleState) => U) => {
         get: () => U;
         subscribe: (listener: (value: U) => void) => () => void;
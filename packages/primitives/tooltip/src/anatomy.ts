@@ -0,0 +1,46 @@
+/**
+ * Tooltip Anatomy
+ * Render contract shared by every framework adapter
+ */
+
+import type { ComponentAnatomy } from '@stellarix-ui/core';
+import type { TooltipState } from './types';
+
+/**
+ * Tooltip bubble, rendered while the tooltip is visible.
+ * Shows the children of the component, or the `content` state when there are none.
+ * Placed at `position`, see updateTooltipPosition.
+ */
+export const tooltipAnatomy: ComponentAnatomy<TooltipState> = {
+    parts: {
+        root: {
+            element: null,
+        },
+        content: {
+            element: 'div',
+            when: ({ state }) => state.visible,
+            text: ({ state, props }) => props.children ? undefined : state.content,
+            slot: true,
+            props: ({ state }) => ({
+                'data-part': 'tooltip',
+                'data-placement': state.placement,
+                style: {
+                    position: 'absolute',
+                    ...(state.position ? { left: `${state.position.x}px`, top: `${state.position.y}px` } : {}),
+                    backgroundColor: '#333',
+                    color: 'white',
+                    padding: '8px 12px',
+                    borderRadius: '4px',
+                    fontSize: '0.875rem',
+                    zIndex: 1000,
+                    maxWidth: '250px',
+                    wordWrap: 'break-word',
+                },
+            }),
+        },
+    },
+    host: 'content',
+    bindings: {
+        visible: 'visible',
+    },
+};
@@ -6,6 +6,7 @@
 import { ComponentCore } from '@stellarix-ui/core';
 import { createTooltipState } from './state';
 import { createTooltipLogic } from './logic';
+import { tooltipAnatomy } from './anatomy';
 import type { TooltipState, TooltipOptions, TooltipEvents, TooltipPlacement } from './types';
 
 // Re-export types
@@ -19,6 +20,8 @@ export type {
 
 // Re-export state store type
 export type { TooltipStateStore } from './state';
+export { tooltipAnatomy } from './anatomy';
+export { updateTooltipPosition, autoUpdateTooltipPosition } from './logic';
 
 /**
  * Creates a new tooltip component instance
@@ -59,6 +62,7 @@ export function createTooltip(options: TooltipOptions = {}) {
                 }
             }
         },
+        anatomy: tooltipAnatomy,
         connect: (adapter: any) => adapter.createComponent(this),
         destroy: () => logic.cleanup(),
         options
@@ -9,7 +9,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createTooltipState } from './state';
-import { createTooltipLogic } from './logic';
+import { createTooltipLogic, updateTooltipPosition } from './logic';
 import type { TooltipOptions } from './types';
 
 describe('createTooltipLogic', () => {
@@ -386,4 +386,42 @@ describe('createTooltipLogic', () => {
         });
         
     });
-});
\ No newline at end of file
+});
+
+describe('updateTooltipPosition', () => {
+    // jsdom lays nothing out, so the elements report mocked rects
+    const createElement = (rect: { left: number; top: number; width: number; height: number }) => {
+        const element = document.createElement('div');
+        element.getBoundingClientRect = () => ({
+            ...rect,
+            x: rect.left,
+            y: rect.top,
+            right: rect.left + rect.width,
+            bottom: rect.top + rect.height,
+            toJSON: () => rect
+        });
+        return element;
+    };
+    
+    it('should store the position above the trigger', () => {
+        const state = createTooltipState({ visible: true });
+        const trigger = createElement({ left: 100, top: 100, width: 80, height: 30 });
+        const tooltip = createElement({ left: 0, top: 0, width: 60, height: 20 });
+        
+        updateTooltipPosition(state, trigger, tooltip);
+        
+        expect(state.getState().position).toEqual({ x: 110, y: 72 });
+        expect(state.getState().placement).toBe('top');
+    });
+    
+    it('should flip below the trigger at the top of the viewport', () => {
+        const state = createTooltipState({ visible: true });
+        const trigger = createElement({ left: 100, top: 10, width: 80, height: 30 });
+        const tooltip = createElement({ left: 0, top: 0, width: 60, height: 20 });
+        
+        updateTooltipPosition(state, trigger, tooltip, { offset: 4 });
+        
+        expect(state.getState().position).toEqual({ x: 110, y: 44 });
+        expect(state.getState().placement).toBe('bottom');
+    });
+});
@@ -19,9 +19,9 @@
  * that cause infinite loops and crash the application.
  */
 
-import { LogicLayerBuilder } from '@stellarix-ui/core';
+import { LogicLayerBuilder, autoUpdate, computePosition, flip, offset, shift } from '@stellarix-ui/core';
 import type { LogicLayer } from '@stellarix-ui/core';
-import type { TooltipState, TooltipEvents, TooltipOptions } from './types';
+import type { TooltipState, TooltipEvents, TooltipOptions, TooltipPlacement } from './types';
 import type { TooltipStateStore } from './state';
 
 /**
@@ -163,4 +163,45 @@ export function createTooltipLogic(
             return 'blur';
         })
         .build();
-}
\ No newline at end of file
+}
+
+/**
+ * Places the tooltip next to its trigger, on the opposite side when the
+ * preferred one has no room, and stores the result in `position` and `placement`
+ * @param state State store of the tooltip
+ * @param trigger The element the tooltip describes
+ * @param tooltip The tooltip element
+ * @param options Component options, for `placement` and `offset`
+ */
+export function updateTooltipPosition(
+    state: TooltipStateStore,
+    trigger: HTMLElement,
+    tooltip: HTMLElement,
+    options: TooltipOptions = {}
+): void {
+    const { x, y, placement } = computePosition(trigger, tooltip, {
+        placement: options.placement || 'top',
+        middleware: [offset(options.offset ?? 8), flip(), shift({ padding: 4 })],
+    });
+    
+    const current = state.getState();
+    if (!current.position || current.position.x !== x || current.position.y !== y) {
+        state.setPosition({ x, y });
+    }
+    if (placement !== current.placement) {
+        state.setPlacement(placement as TooltipPlacement);
+    }
+}
+
+/**
+ * Keeps the tooltip next to its trigger while the page scrolls or either element resizes
+ * @returns Stops updating
+ */
+export function autoUpdateTooltipPosition(
+    state: TooltipStateStore,
+    trigger: HTMLElement,
+    tooltip: HTMLElement,
+    options: TooltipOptions = {}
+): () => void {
+    return autoUpdate(trigger, tooltip, () => updateTooltipPosition(state, trigger, tooltip, options));
+}
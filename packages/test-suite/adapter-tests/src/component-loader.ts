@@ -11,18 +11,21 @@ const componentFactoryMap: Record<ComponentName, string> = {
   'calendar': 'createCalendarWithImplementation',
   'card': 'createCardWithImplementation',
   'checkbox': 'createCheckboxWithImplementation',
+  'combobox': 'createComboboxWithImplementation',
   'container': 'createContainerWithImplementation',
+  'date-field': 'createDateFieldWithImplementation',
   'date-picker': 'createDatePickerWithImplementation',
   'dialog': 'createDialogWithImplementation',
   'divider': 'createDividerWithImplementation',
-  'file-upload': 'createFileUploadWithImplementation',
+  'drawer': 'createDrawerWithImplementation',
+  'file-upload': 'createFileUpload',
   'input': 'createInputWithImplementation',
   'menu': 'createMenuWithImplementation',
   'navigation-menu': 'createNavigationMenu',
   'pagination': 'createPaginationWithImplementation',
-  'popover': 'createPopoverWithImplementation',
+  'popover': 'createPopover',
   'progress-bar': 'createProgressBarWithImplementation',
-  'radio': 'createRadioGroup',
+  'radio': 'createRadioWithImplementation',
   'select': 'createSelect',
   'slider': 'createSliderWithImplementation',
   'spinner': 'createSpinnerWithImplementation',
@@ -30,6 +33,7 @@ const componentFactoryMap: Record<ComponentName, string> = {
   'table': 'createTableWithImplementation',
   'tabs': 'createTabsWithImplementation',
   'textarea': 'createTextareaWithImplementation',
+  'toast': 'createToastWithImplementation',
   'toggle': 'createToggleWithImplementation',
   'tooltip': 'createTooltipWithImplementation'
 };
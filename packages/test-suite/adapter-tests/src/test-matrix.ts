@@ -1,6 +1,6 @@
 import type { FrameworkAdapter, ComponentCore } from '@stellarix-ui/core';
 
-export const ADAPTERS = ['react', 'vue', 'svelte', 'solid'] as const;
+export const ADAPTERS = ['react', 'vue', 'svelte', 'solid', 'angular'] as const;
 export type AdapterName = typeof ADAPTERS[number];
 
 export const COMPONENTS = [
@@ -13,10 +13,13 @@ export const COMPONENTS = [
   'calendar',
   'card',
   'checkbox',
+  'combobox',
   'container',
+  'date-field',
   'date-picker',
   'dialog',
   'divider',
+  'drawer',
   'file-upload',
   'input',
   'menu',
@@ -32,12 +35,45 @@ export const COMPONENTS = [
   'table',
   'tabs',
   'textarea',
+  'toast',
   'toggle',
   'tooltip'
 ] as const;
 
 export type ComponentName = typeof COMPONENTS[number];
 
+/**
+ * Parts carrying the ARIA props of composite components whose root has none,
+ * keyed by lowercased component name: the input of a combobox, the panel of a dialog
+ */
+const ARIA_PARTS: Record<string, string> = {
+  card: 'header',
+  combobox: 'input',
+  datepicker: 'input',
+  dialog: 'dialog',
+  drawer: 'drawer',
+  fileupload: 'dropzone',
+  menu: 'menu',
+  popover: 'content',
+  select: 'trigger',
+  table: 'table',
+  tabs: 'tablist',
+  tooltip: 'content'
+};
+
+/**
+ * State bringing out the ARIA props of components that have none by default
+ */
+const ARIA_STATES: Record<string, Record<string, unknown>> = {
+  divider: { orientation: 'vertical' },
+  input: { required: true }
+};
+
+/**
+ * Layout components with no ARIA semantics to check
+ */
+const LAYOUT_COMPONENTS = ['container'];
+
 export interface TestScenario {
   name: string;
   description: string;
@@ -66,9 +102,11 @@ export const TEST_SCENARIOS: TestScenario[] = [
       
       if ('setValue' in state && typeof state.setValue === 'function') {
         const initialValue = state.getState().value;
-        state.setValue('test-value');
+        // Numeric components (slider, progress bar) only take numbers
+        const nextValue = typeof initialValue === 'number' ? initialValue + 1 : 'test-value';
+        state.setValue(nextValue);
         const newState = state.getState();
-        expect(newState.value).toBe('test-value');
+        expect(newState.value).toBe(nextValue);
       }
       
       if ('setOpen' in state && typeof state.setOpen === 'function') {
@@ -123,7 +161,23 @@ export const TEST_SCENARIOS: TestScenario[] = [
         }
       }
       
-      const ariaAttributes = Object.keys(a11yProps).filter(key => key.startsWith('aria-'));
+      const name = component.metadata.name.toLowerCase();
+      const ariaPart = ARIA_PARTS[name];
+      if (ariaPart) {
+        const partAttributes = Object.keys(logic.getA11yProps(ariaPart)).filter(key => key.startsWith('aria-'));
+        expect(partAttributes.length).toBeGreaterThan(0);
+        return;
+      }
+      
+      if (LAYOUT_COMPONENTS.includes(name)) {
+        return;
+      }
+      
+      if (ARIA_STATES[name]) {
+        component.state.setState((prev: any) => ({ ...prev, ...ARIA_STATES[name] }));
+      }
+      
+      const ariaAttributes = Object.keys(logic.getA11yProps('root')).filter(key => key.startsWith('aria-'));
       expect(ariaAttributes.length).toBeGreaterThan(0);
     }
   },
@@ -147,7 +201,7 @@ export const TEST_SCENARIOS: TestScenario[] = [
     name: 'Compound Components',
     description: 'Verifies compound components render sub-elements correctly',
     test: async (adapter, component) => {
-      const compoundComponents = ['select', 'menu', 'tabs', 'stepper', 'dialog'];
+      const compoundComponents = ['select', 'menu', 'tabs', 'stepper', 'dialog', 'combobox', 'drawer'];
       if (!compoundComponents.includes(component.metadata.name.toLowerCase())) {
         return;
       }
@@ -169,6 +223,21 @@ export const TEST_SCENARIOS: TestScenario[] = [
       if (tabListA11y) {
         expect(tabListA11y).toBeDefined();
       }
+      
+      // A combobox input owns the popup it controls
+      const inputA11y = logic.getA11yProps('input');
+      if (inputA11y?.role === 'combobox') {
+        expect(inputA11y['aria-controls']).toBe(listboxA11y.id);
+        expect(listboxA11y.role).toBe('listbox');
+      }
+      
+      // Dialogs and drawers render their modal panel as a part of the same name
+      const name = component.metadata.name.toLowerCase();
+      if (name === 'dialog' || name === 'drawer') {
+        const panelA11y = logic.getA11yProps(name);
+        expect(panelA11y.role).toBe('dialog');
+        expect(panelA11y['aria-modal']).toBe('true');
+      }
     }
   },
   {
@@ -177,7 +246,7 @@ export const TEST_SCENARIOS: TestScenario[] = [
     test: async (adapter, component) => {
       const TestComponent = adapter.createComponent(component);
       
-      expect(adapter.name).toMatch(/^(react|vue|svelte|solid)$/);
+      expect(adapter.name).toMatch(/^(react|vue|svelte|solid|angular)$/);
       expect(adapter.version).toBeDefined();
       expect(typeof adapter.createComponent).toBe('function');
       
@@ -0,0 +1,116 @@
+import '@angular/compiler';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  Component,
+  createComponent,
+  provideExperimentalZonelessChangeDetection,
+  type ApplicationRef,
+  type Type
+} from '@angular/core';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { createApplication } from '@angular/platform-browser';
+import { angularAdapter, getSelector } from '@stellarix-ui/angular';
+import type { ComponentName } from '../src/test-matrix';
+import { loadComponent } from '../src/component-loader';
+
+const RENDERED_COMPONENTS: ComponentName[] = [
+  'button',
+  'checkbox',
+  'date-picker',
+  'dialog',
+  'input',
+  'select',
+  'slider',
+  'tabs',
+  'toggle',
+  'tooltip'
+];
+
+const FORM_CONTROLS: ComponentName[] = ['input', 'checkbox', 'select', 'slider', 'date-picker'];
+
+let hostCounter = 0;
+
+describe('Angular Adapter Specific Tests', () => {
+  let appRef: ApplicationRef;
+
+  const render = (component: Type<unknown>, tagName: string) => {
+    const hostElement = document.createElement(tagName);
+    document.body.appendChild(hostElement);
+
+    const ref = createComponent(component, { environmentInjector: appRef.injector, hostElement });
+    appRef.attachView(ref.hostView);
+    ref.changeDetectorRef.detectChanges();
+    return ref;
+  };
+
+  beforeEach(async () => {
+    appRef = await createApplication({
+      providers: [provideExperimentalZonelessChangeDetection()]
+    });
+  });
+
+  afterEach(() => {
+    appRef.destroy();
+    document.body.innerHTML = '';
+  });
+
+  describe('Standalone Components', () => {
+    RENDERED_COMPONENTS.forEach(componentName => {
+      it(`renders ${componentName} with root host bindings`, async () => {
+        const core = await loadComponent(componentName);
+        const TestComponent = angularAdapter.createComponent(core);
+        const tagName = getSelector(core).split(',')[0];
+
+        const ref = render(TestComponent, tagName);
+        const host = ref.location.nativeElement as HTMLElement;
+        const { role } = core.logic.getA11yProps('root');
+
+        if (typeof role === 'string') {
+          expect(host.getAttribute('role')).toBe(role);
+        }
+      });
+    });
+  });
+
+  describe('Signals', () => {
+    it('re-renders host bindings from store updates', async () => {
+      const { createToggleWithImplementation } = await import('@stellarix-ui/toggle');
+      const toggleCore = createToggleWithImplementation();
+      const ref = render(angularAdapter.createComponent(toggleCore), 'sx-toggle');
+      const host = ref.location.nativeElement as HTMLElement;
+
+      expect(host.getAttribute('aria-checked')).toBe('false');
+
+      toggleCore.state.setChecked(true);
+      await appRef.whenStable();
+
+      expect(host.getAttribute('aria-checked')).toBe('true');
+    });
+  });
+
+  describe('Forms', () => {
+    FORM_CONTROLS.forEach(componentName => {
+      it(`binds ${componentName} to reactive forms`, async () => {
+        const core = await loadComponent(componentName);
+        const TestComponent = angularAdapter.createComponent(core);
+        const tagName = getSelector(core).split(',')[0];
+        const control = new FormControl();
+        const hostTag = `test-forms-host-${++hostCounter}`;
+
+        const FormHost = Component({
+          selector: hostTag,
+          standalone: true,
+          imports: [TestComponent, ReactiveFormsModule],
+          template: `<${tagName} [formControl]="control" />`
+        })(class {
+          control = control;
+        });
+
+        render(FormHost, hostTag);
+
+        control.disable();
+        expect(core.state.getState().disabled).toBe(true);
+      });
+    });
+  });
+});
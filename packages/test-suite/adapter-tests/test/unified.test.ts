@@ -1,8 +1,11 @@
+// Angular's own packages are partially compiled and not linked under vitest
+import '@angular/compiler';
 import { describe, it, expect, beforeAll } from 'vitest';
 import { reactAdapter } from '@stellarix-ui/react';
 import { vueAdapter } from '@stellarix-ui/vue';
 import { svelteAdapter } from '@stellarix-ui/svelte';
 import { solidAdapter } from '@stellarix-ui/solid';
+import { angularAdapter } from '@stellarix-ui/angular';
 import type { FrameworkAdapter, ComponentCore } from '@stellarix-ui/core';
 
 import { 
@@ -32,7 +35,8 @@ const adapters: Record<AdapterName, FrameworkAdapter<any>> = {
   react: reactAdapter,
   vue: vueAdapter,
   svelte: svelteAdapter,
-  solid: solidAdapter
+  solid: solidAdapter,
+  angular: angularAdapter
 };
 
 import { loadComponent } from '../src/component-loader';
@@ -29,6 +29,7 @@ export default defineConfig({
       '@stellarix-ui/vue': new URL('../../adapters/vue/src', import.meta.url).pathname,
       '@stellarix-ui/svelte': new URL('../../adapters/svelte/src', import.meta.url).pathname,
       '@stellarix-ui/solid': new URL('../../adapters/solid/src', import.meta.url).pathname,
+      '@stellarix-ui/angular': new URL('../../adapters/angular/src', import.meta.url).pathname,
     }
   }
 });
\ No newline at end of file
@@ -4,6 +4,9 @@
  */
 
 import { isBrowser } from './dom';
+import { announce } from './announcer';
+import type { AnnouncePriority } from './announcer';
+import { createFocusScope, getTabbableElements } from './focus';
 
 /**
  * ARIA roles
@@ -59,15 +62,12 @@ export function getCheckboxA11yProps(checked?: boolean, isDisabled?: boolean) {
 export function getFirstFocusableElement(container: HTMLElement): HTMLElement | null {
     if (!isBrowser() || !container) return null;
 
-    const focusableElements = container.querySelectorAll(
-        'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-    );
-
-    return focusableElements.length > 0 ? focusableElements[0] as HTMLElement : null;
+    return getTabbableElements(container)[0] ?? null;
 }
 
 /**
  * Creates a focus trap within a container
+ * Tab order is read on every key press; see createFocusScope for nesting and restore options
  * @param container The container element
  * @returns Functions to activate and deactivate the focus trap
  */
@@ -79,75 +79,20 @@ export function createFocusTrap(container: HTMLElement | null) {
         };
     }
 
-    let previouslyFocusedElement: HTMLElement | null = null;
-
-    const focusableElements = container.querySelectorAll(
-        'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-    );
-
-    const firstElement = focusableElements[0] as HTMLElement | undefined;
-    const lastElement = focusableElements[focusableElements.length - 1] as HTMLElement | undefined;
-
-    const handleKeyDown = (event: KeyboardEvent) => {
-        if (event.key !== 'Tab') return;
-
-        if (!firstElement || !lastElement) return;
-
-        if (event.shiftKey) {
-            if (document.activeElement === firstElement) {
-                lastElement.focus();
-                event.preventDefault();
-            }
-        } else {
-            if (document.activeElement === lastElement) {
-                firstElement.focus();
-                event.preventDefault();
-            }
-        }
-    };
+    const scope = createFocusScope(container);
 
     return {
-        activate: () => {
-            previouslyFocusedElement = document.activeElement as HTMLElement;
-            container.addEventListener('keydown', handleKeyDown);
-            if (firstElement) {
-                firstElement.focus();
-            }
-        },
-        deactivate: () => {
-            container.removeEventListener('keydown', handleKeyDown);
-            if (previouslyFocusedElement) {
-                previouslyFocusedElement.focus();
-            }
-        },
+        activate: scope.activate,
+        deactivate: scope.deactivate,
     };
 }
 
-// ARIA utilities
-export function announceToScreenReader(message: string, priority: 'polite' | 'assertive' = 'polite'): void {
-  const announcer = document.createElement('div');
-  announcer.setAttribute('aria-live', priority);
-  announcer.setAttribute('aria-atomic', 'true');
-  announcer.className = 'sr-only';
-  announcer.style.cssText = `
-    position: absolute !important;
-    width: 1px !important;
-    height: 1px !important;
-    padding: 0 !important;
-    margin: -1px !important;
-    overflow: hidden !important;
-    clip: rect(0, 0, 0, 0) !important;
-    white-space: nowrap !important;
-    border: 0 !important;
-  `;
-
-  document.body.appendChild(announcer);
-  announcer.textContent = message;
-
-  // Clean up after announcement
-  setTimeout(() => {
-    if (document.body.contains(announcer)) {
-      document.body.removeChild(announcer);
-    }
-  }, 1000);
-} 
\ No newline at end of file
+/**
+ * Announces a message to screen readers through the shared announcer,
+ * which queues and deduplicates messages
+ * @param message Message to read
+ * @param priority How urgently the message interrupts
+ */
+export function announceToScreenReader(message: string, priority: AnnouncePriority = 'polite'): void {
+    announce(message, { priority });
+}
\ No newline at end of file
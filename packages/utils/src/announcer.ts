@@ -0,0 +1,265 @@
+/**
+ * Live Region Announcer
+ * One polite and one assertive live region, created on first use and kept in
+ * the page, so screen readers pick up every message. Messages are queued and
+ * read one at a time, repeats within a short window are dropped, and history
+ * navigation clears whatever is still pending. Does nothing on the server.
+ */
+
+import { isBrowser } from './dom';
+
+/**
+ * How urgently a message interrupts the screen reader
+ */
+export type AnnouncePriority = 'polite' | 'assertive';
+
+/**
+ * Options of one announcement
+ */
+export interface AnnounceOptions {
+    /**
+     * @default 'polite'
+     */
+    priority?: AnnouncePriority;
+
+    /**
+     * Milliseconds during which the same message is not announced again
+     * @default The announcer's dedupeWindow
+     */
+    dedupeWindow?: number;
+}
+
+/**
+ * Announcer options
+ */
+export interface AnnouncerOptions {
+    /**
+     * Milliseconds a region stays empty before the next message is written,
+     * and a message stays before the next one replaces it
+     * @default 150
+     */
+    delay?: number;
+
+    /**
+     * Milliseconds during which the same message is not announced again
+     * @default 1000
+     */
+    dedupeWindow?: number;
+
+    /**
+     * Milliseconds after which a message is removed, so browsing the page
+     * does not run into it later
+     * @default 7000
+     */
+    clearAfter?: number;
+
+    /**
+     * Clears pending messages and the regions on `popstate` and `hashchange`
+     * @default true
+     */
+    clearOnNavigation?: boolean;
+}
+
+/**
+ * Live region announcer
+ */
+export interface Announcer {
+    /**
+     * Queues a message; assertive messages go before pending polite ones
+     */
+    announce: (message: string, options?: AnnounceOptions) => void;
+
+    /**
+     * Drops pending messages and empties the regions, of one priority or both
+     */
+    clear: (priority?: AnnouncePriority) => void;
+
+    /**
+     * Clears everything and removes the regions from the page
+     */
+    destroy: () => void;
+}
+
+interface QueuedMessage {
+    message: string;
+    priority: AnnouncePriority;
+}
+
+const VISUALLY_HIDDEN = [
+    'position: absolute',
+    'width: 1px',
+    'height: 1px',
+    'padding: 0',
+    'margin: -1px',
+    'overflow: hidden',
+    'clip: rect(0, 0, 0, 0)',
+    'white-space: nowrap',
+    'border: 0',
+].join('; ');
+
+const noopAnnouncer: Announcer = {
+    announce: () => { },
+    clear: () => { },
+    destroy: () => { },
+};
+
+let sharedAnnouncer: Announcer | null = null;
+
+function createRegion(priority: AnnouncePriority): HTMLElement {
+    const region = document.createElement('div');
+    region.setAttribute('aria-live', priority);
+    region.setAttribute('aria-atomic', 'true');
+    region.setAttribute('data-stellarix-announcer', priority);
+    region.className = 'sr-only';
+    region.style.cssText = VISUALLY_HIDDEN;
+    document.body.appendChild(region);
+    return region;
+}
+
+/**
+ * Creates an announcer with its own regions. Most code should use
+ * `announce`, which shares one announcer across the page.
+ * @param options Announcer options
+ */
+export function createAnnouncer(options: AnnouncerOptions = {}): Announcer {
+    if (!isBrowser()) {
+        return noopAnnouncer;
+    }
+
+    const { delay = 150, dedupeWindow = 1000, clearAfter = 7000, clearOnNavigation = true } = options;
+
+    const regions: Partial<Record<AnnouncePriority, HTMLElement>> = {};
+    const clearTimers: Partial<Record<AnnouncePriority, ReturnType<typeof setTimeout>>> = {};
+    const lastAnnounced = new Map<string, number>();
+    let queue: QueuedMessage[] = [];
+    let current: QueuedMessage | null = null;
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const getRegion = (priority: AnnouncePriority) => {
+        const region = regions[priority];
+        return region?.isConnected ? region : (regions[priority] = createRegion(priority));
+    };
+
+    const flush = () => {
+        flushTimer = null;
+        current = queue.shift() ?? null;
+        if (!current) {
+            return;
+        }
+
+        const { message, priority } = current;
+        const region = getRegion(priority);
+        // Emptying the region first makes a repeated message a change again,
+        // and gives a region created just now time to be registered
+        region.textContent = '';
+        flushTimer = setTimeout(() => {
+            current = null;
+            region.textContent = message;
+
+            clearTimeout(clearTimers[priority]);
+            clearTimers[priority] = setTimeout(() => {
+                region.textContent = '';
+            }, clearAfter);
+
+            flushTimer = setTimeout(flush, delay);
+        }, delay);
+    };
+
+    const clear = (priority?: AnnouncePriority) => {
+        queue = priority ? queue.filter(item => item.priority !== priority) : [];
+        if (current && (!priority || current.priority === priority)) {
+            current = null;
+            if (flushTimer) {
+                clearTimeout(flushTimer);
+            }
+            flushTimer = setTimeout(flush, delay);
+        }
+
+        (priority ? [priority] : ['polite', 'assertive'] as const).forEach(regionPriority => {
+            clearTimeout(clearTimers[regionPriority]);
+            const region = regions[regionPriority];
+            if (region) {
+                region.textContent = '';
+            }
+        });
+    };
+
+    const clearAll = () => clear();
+
+    if (clearOnNavigation) {
+        window.addEventListener('popstate', clearAll);
+        window.addEventListener('hashchange', clearAll);
+    }
+
+    const announcer: Announcer = {
+        announce: (message, announceOptions = {}) => {
+            const text = message.trim();
+            if (!text) {
+                return;
+            }
+
+            const priority = announceOptions.priority ?? 'polite';
+            const dedupeFor = announceOptions.dedupeWindow ?? dedupeWindow;
+            const key = `${priority}:${text}`;
+            const now = Date.now();
+            const last = lastAnnounced.get(key);
+            if (last !== undefined && now - last < dedupeFor) {
+                return;
+            }
+
+            lastAnnounced.forEach((time, previousKey) => {
+                if (now - time >= Math.max(dedupeFor, dedupeWindow)) {
+                    lastAnnounced.delete(previousKey);
+                }
+            });
+            lastAnnounced.set(key, now);
+
+            const item = { message: text, priority };
+            const firstPolite = queue.findIndex(queued => queued.priority === 'polite');
+            if (priority === 'assertive' && firstPolite !== -1) {
+                queue.splice(firstPolite, 0, item);
+            } else {
+                queue.push(item);
+            }
+
+            if (!flushTimer) {
+                flush();
+            }
+        },
+        clear,
+        destroy: () => {
+            clear();
+            if (flushTimer) {
+                clearTimeout(flushTimer);
+                flushTimer = null;
+            }
+            window.removeEventListener('popstate', clearAll);
+            window.removeEventListener('hashchange', clearAll);
+            Object.values(regions).forEach(region => region?.remove());
+            if (sharedAnnouncer === announcer) {
+                sharedAnnouncer = null;
+            }
+        },
+    };
+
+    return announcer;
+}
+
+/**
+ * Announcer shared by every component on the page
+ */
+export function getAnnouncer(): Announcer {
+    if (!isBrowser()) {
+        return noopAnnouncer;
+    }
+    return sharedAnnouncer ??= createAnnouncer();
+}
+
+/**
+ * Announces a message through the shared announcer
+ * @param message Message to read
+ * @param options Announcement options
+ */
+export function announce(message: string, options?: AnnounceOptions): void {
+    getAnnouncer().announce(message, options);
+}
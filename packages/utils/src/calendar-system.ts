@@ -0,0 +1,303 @@
+/**
+ * Calendar Systems
+ * Years, months and days of the Gregorian calendar and of calendars such
+ * as the Hebrew, Islamic, Japanese or Buddhist one, built on Intl.
+ *
+ * Calendar dates convert from and to `PlainDate` days, so they combine
+ * with the time zone utilities. Months count from 1 in the order of the
+ * calendar's year: Tishri is month 1 of a Hebrew year, and in a leap year
+ * Adar I is month 6 and Adar II month 7.
+ */
+
+import { addDays, type PlainDate } from './time-zone';
+
+/**
+ * Supported calendars, as Unicode calendar identifiers
+ */
+export type CalendarIdentifier =
+    | 'gregory'
+    | 'japanese'
+    | 'buddhist'
+    | 'roc'
+    | 'hebrew'
+    | 'islamic'
+    | 'islamic-umalqura'
+    | 'islamic-civil'
+    | 'islamic-tbla'
+    | 'persian'
+    | 'indian'
+    | 'coptic'
+    | 'ethiopic';
+
+/**
+ * Day in a calendar system
+ */
+export interface CalendarDate {
+    /**
+     * Year of the calendar, e.g. 5786 in the Hebrew calendar
+     */
+    year: number;
+
+    /**
+     * Month, 1 for the first month of the year
+     */
+    month: number;
+
+    /**
+     * Day of the month
+     */
+    day: number;
+}
+
+/**
+ * Arithmetic of a calendar
+ */
+export interface CalendarSystem {
+    /**
+     * Unicode identifier of the calendar
+     */
+    identifier: CalendarIdentifier;
+
+    /**
+     * Calendar date of a day
+     */
+    fromPlainDate: (plainDate: PlainDate) => CalendarDate;
+
+    /**
+     * Day of a calendar date; a month or day past the end of the year or
+     * month is read as the last one
+     */
+    toPlainDate: (date: CalendarDate) => PlainDate;
+
+    /**
+     * Number of days in a month
+     */
+    getDaysInMonth: (year: number, month: number) => number;
+
+    /**
+     * Number of months in a year
+     */
+    getMonthsInYear: (year: number) => number;
+}
+
+/**
+ * Calendars sharing the months of the Gregorian calendar, with the offset
+ * of their year numbers. Japanese eras only show in formatting.
+ */
+const GREGORIAN_YEAR_OFFSETS: Partial<Record<CalendarIdentifier, number>> = {
+    gregory: 0,
+    japanese: 0,
+    buddhist: 543,
+    roc: -1911,
+};
+
+const calendarCache = new Map<CalendarIdentifier, CalendarSystem>();
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * UTC midnight of a day, the instant calendars are read at
+ */
+function toUtcDate(plainDate: PlainDate): Date {
+    const date = new Date(Date.UTC(2000, 0, 1));
+    date.setUTCFullYear(plainDate.year, plainDate.month - 1, plainDate.day);
+    return date;
+}
+
+function gregorianDaysInMonth(year: number, month: number): number {
+    const date = new Date(Date.UTC(2000, 0, 1));
+    date.setUTCFullYear(year, month, 0);
+    return date.getUTCDate();
+}
+
+function createGregorianCalendar(identifier: CalendarIdentifier, yearOffset: number): CalendarSystem {
+    return {
+        identifier,
+        fromPlainDate: ({ year, month, day }) => ({ year: year + yearOffset, month, day }),
+        toPlainDate: ({ year, month, day }) => {
+            const plainYear = year - yearOffset;
+            const plainMonth = clamp(month, 1, 12);
+            return { year: plainYear, month: plainMonth, day: clamp(day, 1, gregorianDaysInMonth(plainYear, plainMonth)) };
+        },
+        getDaysInMonth: (year, month) => gregorianDaysInMonth(year - yearOffset, clamp(month, 1, 12)),
+        getMonthsInYear: () => 12,
+    };
+}
+
+/**
+ * Calendar read from Intl. Years and days come from the formatted date;
+ * months are counted from the start of the year, since calendars such as
+ * the Hebrew one name their months rather than number them.
+ */
+function createIntlCalendar(identifier: CalendarIdentifier): CalendarSystem {
+    const formatter = new Intl.DateTimeFormat(`en-US-u-ca-${identifier}`, {
+        timeZone: 'UTC',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+    });
+    if (formatter.resolvedOptions().calendar !== identifier) {
+        throw new Error(`Calendar "${identifier}" is not supported by this environment`);
+    }
+
+    const monthCache = new Map<string, number>();
+    const monthStartCache = new Map<string, PlainDate>();
+    const daysInMonthCache = new Map<string, number>();
+    const key = ({ year, month, day }: PlainDate) => `${year}-${month}-${day}`;
+
+    const read = (plainDate: PlainDate) => {
+        const values: Record<string, string> = {};
+        formatter.formatToParts(toUtcDate(plainDate)).forEach(part => {
+            values[part.type] = part.value;
+        });
+        return { year: Number(values.year), day: Number(values.day) };
+    };
+
+    /**
+     * Month of a year starting on a day, counted back to the start of the year
+     */
+    const getMonth = (monthStart: PlainDate, year: number): number => {
+        const cached = monthCache.get(key(monthStart));
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const lastDay = addDays(monthStart, -1);
+        const previous = read(lastDay);
+        const month = previous.year === year ? getMonth(addDays(lastDay, 1 - previous.day), year) + 1 : 1;
+        monthCache.set(key(monthStart), month);
+        return month;
+    };
+
+    const fromPlainDate = (plainDate: PlainDate): CalendarDate => {
+        const { year, day } = read(plainDate);
+        return { year, month: getMonth(addDays(plainDate, 1 - day), year), day };
+    };
+
+    // Average month length, for the first guess of a month start
+    const anchor: PlainDate = { year: 2000, month: 1, day: 1 };
+    const anchorDate = fromPlainDate(anchor);
+    const monthDays = 36524 / ((fromPlainDate(addDays(anchor, 36524)).year - anchorDate.year) * 12);
+
+    /**
+     * First day of a month, found by jumping close to it and stepping a
+     * month at a time from there
+     */
+    const getMonthStart = (year: number, month: number): PlainDate => {
+        const cacheKey = `${year}-${month}`;
+        const cached = monthStartCache.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        let plainDate = addDays(anchor, Math.round(((year - anchorDate.year) * 12 + (month - anchorDate.month)) * monthDays));
+        for (let step = 0; step < 200; step++) {
+            const current = fromPlainDate(plainDate);
+            const direction = Math.sign(year - current.year || month - current.month);
+            if (direction === 0) {
+                const monthStart = addDays(plainDate, 1 - current.day);
+                monthStartCache.set(cacheKey, monthStart);
+                return monthStart;
+            }
+
+            const months = (year - current.year) * 12 + (month - current.month);
+            if (Math.abs(months) > 2 && Math.sign(months) === direction) {
+                plainDate = addDays(plainDate, Math.round(months * monthDays));
+            } else {
+                // Into the next month past day 31, or onto the last day of the previous one
+                plainDate = addDays(plainDate, direction > 0 ? 32 - current.day : -current.day);
+            }
+        }
+
+        throw new Error(`Month ${month} of year ${year} not found in the ${identifier} calendar`);
+    };
+
+    const getMonthsInYear = (year: number): number =>
+        fromPlainDate(addDays(getMonthStart(year + 1, 1), -1)).month;
+
+    const getDaysInMonth = (year: number, month: number): number => {
+        const cacheKey = `${year}-${month}`;
+        let days = daysInMonthCache.get(cacheKey);
+        if (days === undefined) {
+            const monthStart = getMonthStart(year, month);
+            days = 1;
+            while (read(addDays(monthStart, days)).day !== 1) {
+                days++;
+            }
+            daysInMonthCache.set(cacheKey, days);
+        }
+        return days;
+    };
+
+    return {
+        identifier,
+        fromPlainDate,
+        toPlainDate: ({ year, month, day }) => {
+            const calendarMonth = clamp(month, 1, getMonthsInYear(year));
+            return addDays(getMonthStart(year, calendarMonth), clamp(day, 1, getDaysInMonth(year, calendarMonth)) - 1);
+        },
+        getDaysInMonth: (year, month) => getDaysInMonth(year, clamp(month, 1, getMonthsInYear(year))),
+        getMonthsInYear,
+    };
+}
+
+/**
+ * Arithmetic of a calendar
+ * @param identifier Unicode calendar identifier
+ * @throws When the calendar is not supported by the environment
+ */
+export function getCalendarSystem(identifier: CalendarIdentifier = 'gregory'): CalendarSystem {
+    let calendar = calendarCache.get(identifier);
+    if (!calendar) {
+        const yearOffset = GREGORIAN_YEAR_OFFSETS[identifier];
+        calendar = yearOffset !== undefined
+            ? createGregorianCalendar(identifier, yearOffset)
+            : createIntlCalendar(identifier);
+        calendarCache.set(identifier, calendar);
+    }
+    return calendar;
+}
+
+/**
+ * Moves a calendar date by months, keeping the day within the month
+ * @param calendar Calendar system
+ * @param date Calendar date
+ * @param months Months to move, negative to move back
+ */
+export function addCalendarMonths(calendar: CalendarSystem, date: CalendarDate, months: number): CalendarDate {
+    let { year, month } = date;
+    month += months;
+    while (month > calendar.getMonthsInYear(year)) {
+        month -= calendar.getMonthsInYear(year);
+        year++;
+    }
+    while (month < 1) {
+        year--;
+        month += calendar.getMonthsInYear(year);
+    }
+    return { year, month, day: Math.min(date.day, calendar.getDaysInMonth(year, month)) };
+}
+
+/**
+ * Formats a day in a calendar, e.g. `Kislev 5786` for a month and year
+ * in the Hebrew calendar
+ * @param plainDate Day to format
+ * @param locale Locale to format in
+ * @param options Fields to show
+ * @param calendar Calendar to format in
+ */
+export function formatCalendarDate(
+    plainDate: PlainDate,
+    locale: string,
+    options: Intl.DateTimeFormatOptions,
+    calendar: CalendarIdentifier = 'gregory'
+): string {
+    const cacheKey = `${locale}|${calendar}|${JSON.stringify(options)}`;
+    let formatter = formatterCache.get(cacheKey);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat(locale, { ...options, calendar, timeZone: 'UTC' });
+        formatterCache.set(cacheKey, formatter);
+    }
+    return formatter.format(toUtcDate(plainDate));
+}
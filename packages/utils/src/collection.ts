@@ -0,0 +1,157 @@
+/**
+ * Collection Utilities
+ * Grouping and typeahead for lists of options and menu items
+ */
+
+/**
+ * Items sharing a group, as they appear in a list ordered by `orderByGroup`
+ */
+export interface ItemGroup<T> {
+    /**
+     * Group name
+     */
+    label: string;
+
+    /**
+     * Items of the group
+     */
+    items: T[];
+
+    /**
+     * Position of the first item of the group in the ordered list
+     */
+    startIndex: number;
+}
+
+/**
+ * Orders items so the items of each group are adjacent: ungrouped items
+ * first, then the groups in the order they first appear. Items keep their
+ * order within a group, so ordering an ordered list changes nothing.
+ * @param items Items to order
+ * @param getGroup Group of an item, `undefined` for ungrouped items
+ * @returns Ordered items
+ */
+export function orderByGroup<T>(items: readonly T[], getGroup: (item: T) => string | undefined): T[] {
+    const ungrouped: T[] = [];
+    const groups = new Map<string, T[]>();
+
+    items.forEach(item => {
+        const group = getGroup(item);
+        if (group === undefined) {
+            ungrouped.push(item);
+        } else {
+            groups.set(group, [...(groups.get(group) ?? []), item]);
+        }
+    });
+
+    return [...ungrouped, ...Array.from(groups.values()).flat()];
+}
+
+/**
+ * Groups of a list ordered by `orderByGroup`; ungrouped items are left out
+ * @param items Ordered items
+ * @param getGroup Group of an item, `undefined` for ungrouped items
+ * @returns Groups in list order
+ */
+export function getItemGroups<T>(items: readonly T[], getGroup: (item: T) => string | undefined): ItemGroup<T>[] {
+    const groups: ItemGroup<T>[] = [];
+
+    items.forEach((item, index) => {
+        const label = getGroup(item);
+        if (label === undefined) {
+            return;
+        }
+
+        const last = groups[groups.length - 1];
+        if (last?.label === label) {
+            last.items.push(item);
+        } else {
+            groups.push({ label, items: [item], startIndex: index });
+        }
+    });
+
+    return groups;
+}
+
+/**
+ * Group rendered in a window of a list, e.g. the window of a virtualized list
+ */
+export interface RenderedGroup<T> extends ItemGroup<T> {
+    /**
+     * Position of the group among all groups
+     */
+    index: number;
+
+    /**
+     * Whether the group starts before the window, so its header is not rendered
+     */
+    continued: boolean;
+}
+
+/**
+ * Groups of a list ordered by `orderByGroup` that have items in a window of
+ * the list, holding only those items
+ * @param items Ordered items
+ * @param getGroup Group of an item, `undefined` for ungrouped items
+ * @param startIndex First item of the window
+ * @param endIndex Item after the last one of the window
+ * @returns Groups in list order; `startIndex` is the first item in the window
+ */
+export function getRenderedGroups<T>(
+    items: readonly T[],
+    getGroup: (item: T) => string | undefined,
+    startIndex = 0,
+    endIndex = items.length
+): RenderedGroup<T>[] {
+    return getItemGroups(items, getGroup)
+        .map((group, index) => {
+            const first = Math.max(group.startIndex, startIndex);
+            return {
+                label: group.label,
+                items: group.items.slice(first - group.startIndex, Math.max(0, endIndex - group.startIndex)),
+                startIndex: first,
+                index,
+                continued: group.startIndex < startIndex,
+            };
+        })
+        .filter(group => group.items.length > 0);
+}
+
+/**
+ * Finds the next enabled item whose label starts with the typed text,
+ * searching after the current item and wrapping around
+ * @param items Items to search
+ * @param query Typed text
+ * @param currentIndex Index of the current item, -1 for none
+ * @param getLabel Label of an item
+ * @param isDisabled Whether an item is skipped
+ * @returns Index of the match, or -1
+ */
+export function findTypeaheadIndex<T>(
+    items: readonly T[],
+    query: string,
+    currentIndex: number,
+    getLabel: (item: T) => string,
+    isDisabled: (item: T) => boolean = () => false
+): number {
+    const text = query.toLowerCase();
+    if (!text) {
+        return -1;
+    }
+
+    // Typing the same character repeatedly cycles through the items starting with it
+    const repeated = text.length > 1 && text.split('').every(char => char === text[0]);
+    const search = repeated ? text[0]! : text;
+    // A longer query may still match the current item
+    const start = currentIndex < 0 ? 0 : currentIndex + (search.length > 1 ? 0 : 1);
+
+    for (let step = 0; step < items.length; step++) {
+        const index = (start + step) % items.length;
+        const item = items[index]!;
+        if (!isDisabled(item) && getLabel(item).toLowerCase().startsWith(search)) {
+            return index;
+        }
+    }
+
+    return -1;
+}
@@ -0,0 +1,502 @@
+/**
+ * Date Utilities
+ * Locale-aware date formatting and typed date parsing, built on Intl
+ *
+ * Patterns use the tokens below; text in square brackets is kept as is.
+ *
+ * | Token | Output |
+ * |-------|--------|
+ * | `YYYY` / `YY` | Year, four or two digits |
+ * | `MMMM` / `MMM` | Month name, long or short |
+ * | `MM` / `M` | Month number, padded or not |
+ * | `DD` / `D` | Day of the month, padded or not |
+ * | `dddd` / `ddd` | Weekday name, long or short |
+ * | `HH` / `H` | Hour from 0 to 23, padded or not |
+ * | `hh` / `h` | Hour from 1 to 12, padded or not |
+ * | `mm` / `m` | Minutes, padded or not |
+ * | `ss` / `s` | Seconds, padded or not |
+ * | `A` / `a` | Day period, e.g. AM, or lowercased |
+ */
+
+/**
+ * Width of month and weekday names
+ */
+export type DateNameWidth = 'long' | 'short' | 'narrow';
+
+/**
+ * Outcome of parsing typed text
+ * - `empty`: nothing typed
+ * - `partial`: a date can still be typed from it, e.g. `11/2` for `MM/DD/YYYY`
+ * - `valid`: the text is a date
+ * - `invalid`: no date can be typed from it, e.g. `13/` or `02/30`
+ */
+export type DateParseStatus = 'empty' | 'partial' | 'valid' | 'invalid';
+
+/**
+ * Result of parsing typed text
+ */
+export interface DateParseResult {
+    status: DateParseStatus;
+
+    /**
+     * Parsed date, only when the status is `valid`
+     */
+    date: Date | null;
+}
+
+/**
+ * Date parsing options
+ */
+export interface DateParseOptions {
+    /**
+     * Locale of month names and day periods
+     * @default 'en-US'
+     */
+    locale?: string;
+
+    /**
+     * How many years after the reference year two-digit years may reach;
+     * later ones fall in the previous century
+     * @default 50
+     */
+    twoDigitYearPivot?: number;
+
+    /**
+     * Date providing the year when the pattern has none, and the century of two-digit years
+     * @default new Date()
+     */
+    referenceDate?: Date;
+}
+
+type DateToken =
+    | 'YYYY' | 'YY' | 'MMMM' | 'MMM' | 'MM' | 'M' | 'DD' | 'D' | 'dddd' | 'ddd'
+    | 'HH' | 'H' | 'hh' | 'h' | 'mm' | 'm' | 'ss' | 's' | 'A' | 'a';
+
+type PatternSegment = { token: DateToken } | { literal: string };
+
+type DateField = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second';
+
+const TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|A|a/g;
+
+/**
+ * Numeric tokens: the field they set, their longest length and their range
+ */
+const NUMERIC_TOKENS: Partial<Record<DateToken, { field: DateField; length: number; min: number; max: number }>> = {
+    YYYY: { field: 'year', length: 4, min: 0, max: 9999 },
+    YY: { field: 'year', length: 2, min: 0, max: 99 },
+    MM: { field: 'month', length: 2, min: 1, max: 12 },
+    M: { field: 'month', length: 2, min: 1, max: 12 },
+    DD: { field: 'day', length: 2, min: 1, max: 31 },
+    D: { field: 'day', length: 2, min: 1, max: 31 },
+    HH: { field: 'hour', length: 2, min: 0, max: 23 },
+    H: { field: 'hour', length: 2, min: 0, max: 23 },
+    hh: { field: 'hour', length: 2, min: 1, max: 12 },
+    h: { field: 'hour', length: 2, min: 1, max: 12 },
+    mm: { field: 'minute', length: 2, min: 0, max: 59 },
+    m: { field: 'minute', length: 2, min: 0, max: 59 },
+    ss: { field: 'second', length: 2, min: 0, max: 59 },
+    s: { field: 'second', length: 2, min: 0, max: 59 },
+};
+
+const patternCache = new Map<string, PatternSegment[]>();
+const nameCache = new Map<string, string[]>();
+
+/**
+ * Splits a pattern into tokens and literal text
+ */
+function tokenize(pattern: string): PatternSegment[] {
+    const cached = patternCache.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    const segments: PatternSegment[] = [];
+    let last = 0;
+    for (const match of pattern.matchAll(TOKEN_PATTERN)) {
+        if (match.index! > last) {
+            segments.push({ literal: pattern.slice(last, match.index) });
+        }
+        segments.push(match[1] !== undefined ? { literal: match[1] } : { token: match[0] as DateToken });
+        last = match.index! + match[0].length;
+    }
+    if (last < pattern.length) {
+        segments.push({ literal: pattern.slice(last) });
+    }
+
+    patternCache.set(pattern, segments);
+    return segments;
+}
+
+/**
+ * Intl names, cached per locale. `format` names are the ones used inside a
+ * full date, which differ from standalone names in some languages.
+ */
+function getNames(
+    locale: string,
+    kind: 'month' | 'weekday',
+    width: DateNameWidth,
+    context: 'format' | 'standalone'
+): string[] {
+    const key = `${locale}|${kind}|${width}|${context}`;
+    const cached = nameCache.get(key);
+    if (cached) {
+        return cached;
+    }
+
+    const formatter = new Intl.DateTimeFormat(locale, {
+        [kind]: width,
+        ...(context === 'format' ? { day: 'numeric' } : {}),
+        timeZone: 'UTC',
+    });
+    // January 2001 starts on a Monday, so 7 January is a Sunday
+    const names = Array.from({ length: kind === 'month' ? 12 : 7 }, (_, index) => {
+        const date = kind === 'month' ? new Date(Date.UTC(2001, index, 1)) : new Date(Date.UTC(2001, 0, 7 + index));
+        return formatter.formatToParts(date).find(part => part.type === kind)?.value ?? '';
+    });
+
+    nameCache.set(key, names);
+    return names;
+}
+
+/**
+ * Month names of a locale, January first
+ * @param locale Locale of the names
+ * @param width Name width
+ * @returns Twelve month names
+ */
+export function getMonthNames(locale: string, width: DateNameWidth = 'long'): string[] {
+    return getNames(locale, 'month', width, 'standalone');
+}
+
+/**
+ * Weekday names of a locale
+ * @param locale Locale of the names
+ * @param width Name width
+ * @param firstDayOfWeek Day the list starts at, 0 for Sunday
+ * @returns Seven weekday names
+ */
+export function getWeekdayNames(locale: string, width: DateNameWidth = 'short', firstDayOfWeek = 0): string[] {
+    const names = getNames(locale, 'weekday', width, 'standalone');
+    return [...names.slice(firstDayOfWeek), ...names.slice(0, firstDayOfWeek)];
+}
+
+/**
+ * Day period names of a locale, morning first, e.g. `['AM', 'PM']`
+ * @param locale Locale of the names
+ */
+export function getDayPeriodNames(locale: string): [string, string] {
+    const key = `${locale}|dayPeriod`;
+    const cached = nameCache.get(key);
+    if (cached) {
+        return cached as [string, string];
+    }
+
+    const formatter = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true, timeZone: 'UTC' });
+    const [am, pm] = [1, 13].map(hour =>
+        formatter.formatToParts(new Date(Date.UTC(2001, 0, 1, hour))).find(part => part.type === 'dayPeriod')?.value);
+    const names: [string, string] = am && pm ? [am, pm] : ['AM', 'PM'];
+
+    nameCache.set(key, names);
+    return names;
+}
+
+/**
+ * Turns Intl date parts into a pattern, escaping literal text with letters.
+ * No-break spaces become plain ones, as the pattern is for text people type.
+ */
+function partsToPattern(parts: Intl.DateTimeFormatPart[], tokens: Partial<Record<string, string>>): string {
+    return parts
+        .map(part => {
+            if (part.type === 'literal') {
+                const literal = part.value.replace(/[\u00a0\u202f]/g, ' ');
+                return /\p{L}/u.test(literal) ? `[${literal}]` : literal;
+            }
+            return tokens[part.type] ?? '';
+        })
+        .join('');
+}
+
+/**
+ * Default date pattern of a locale, e.g. `MM/DD/YYYY` for en-US and `DD.MM.YYYY` for de-DE
+ * @param locale Locale of the pattern
+ */
+export function getLocaleDatePattern(locale: string): string {
+    const parts = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' })
+        .formatToParts(new Date(Date.UTC(2001, 10, 22)));
+    return partsToPattern(parts, { year: 'YYYY', month: 'MM', day: 'DD' });
+}
+
+/**
+ * Default time pattern of a locale, with the 12 or 24 hour clock it uses,
+ * e.g. `hh:mm A` for en-US and `HH:mm` for de-DE
+ * @param locale Locale of the pattern
+ */
+export function getLocaleTimePattern(locale: string): string {
+    const formatter = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' });
+    const hourCycle = formatter.resolvedOptions().hourCycle;
+    const twelveHour = hourCycle === 'h11' || hourCycle === 'h12';
+    const parts = formatter.formatToParts(new Date(Date.UTC(2001, 0, 1, 13, 5)));
+    return partsToPattern(parts, { hour: twelveHour ? 'hh' : 'HH', minute: 'mm', dayPeriod: 'A' });
+}
+
+/**
+ * Formats a date with a pattern
+ * @param date Date to format
+ * @param pattern Pattern made of the tokens described at the top of this module
+ * @param locale Locale of month, weekday and day period names
+ * @returns Formatted date, or an empty string for an invalid date
+ */
+export function formatDate(date: Date | null | undefined, pattern: string, locale = 'en-US'): string {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+        return '';
+    }
+
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hour = date.getHours();
+    const twelveHour = hour % 12 || 12;
+
+    return tokenize(pattern)
+        .map(segment => {
+            if ('literal' in segment) {
+                return segment.literal;
+            }
+            switch (segment.token) {
+                case 'YYYY': return pad(date.getFullYear(), 4);
+                case 'YY': return pad(date.getFullYear() % 100);
+                case 'MMMM': return getNames(locale, 'month', 'long', 'format')[date.getMonth()];
+                case 'MMM': return getNames(locale, 'month', 'short', 'format')[date.getMonth()];
+                case 'MM': return pad(date.getMonth() + 1);
+                case 'M': return String(date.getMonth() + 1);
+                case 'DD': return pad(date.getDate());
+                case 'D': return String(date.getDate());
+                case 'dddd': return getNames(locale, 'weekday', 'long', 'format')[date.getDay()];
+                case 'ddd': return getNames(locale, 'weekday', 'short', 'format')[date.getDay()];
+                case 'HH': return pad(hour);
+                case 'H': return String(hour);
+                case 'hh': return pad(twelveHour);
+                case 'h': return String(twelveHour);
+                case 'mm': return pad(date.getMinutes());
+                case 'm': return String(date.getMinutes());
+                case 'ss': return pad(date.getSeconds());
+                case 's': return String(date.getSeconds());
+                case 'A': return getDayPeriodNames(locale)[hour < 12 ? 0 : 1];
+                case 'a': return getDayPeriodNames(locale)[hour < 12 ? 0 : 1].toLocaleLowerCase(locale);
+            }
+        })
+        .join('');
+}
+
+/**
+ * Day of the month in the digits of a locale
+ * @param date Date to format
+ * @param locale Locale to format in
+ */
+export function formatDayOfMonth(date: Date, locale = 'en-US'): string {
+    return new Intl.DateTimeFormat(locale, { day: 'numeric' }).format(date);
+}
+
+/**
+ * Month and year as a locale writes them, e.g. `November 2025` or `2025年11月`
+ * @param month Month, 0 for January
+ * @param year Full year
+ * @param locale Locale to format in
+ */
+export function formatMonthYear(month: number, year: number, locale = 'en-US'): string {
+    const date = new Date(2000, month, 1);
+    date.setFullYear(year);
+    return new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' }).format(date);
+}
+
+/**
+ * Places a two-digit year in the century that keeps it at most `pivot`
+ * years after the reference year
+ * @param year Year from 0 to 99
+ * @param pivot How many years after the reference year the result may be
+ * @param referenceYear Year the result is close to
+ * @returns Full year, e.g. 2031 or 1987 for 31 or 87 with the defaults in 2026
+ */
+export function resolveTwoDigitYear(year: number, pivot = 50, referenceYear = new Date().getFullYear()): number {
+    const resolved = Math.floor(referenceYear / 100) * 100 + year;
+    if (resolved > referenceYear + pivot) {
+        return resolved - 100;
+    }
+    if (resolved <= referenceYear + pivot - 100) {
+        return resolved + 100;
+    }
+    return resolved;
+}
+
+/**
+ * Whether more digits typed after `digits` can bring a field within its range
+ */
+function canComplete(digits: string, length: number, min: number, max: number): boolean {
+    const value = Number(digits);
+    for (let extra = 0; extra <= length - digits.length; extra++) {
+        const scale = 10 ** extra;
+        if ((value + 1) * scale - 1 >= min && value * scale <= max) {
+            return true;
+        }
+    }
+    return false;
+}
+
+const normalizeName = (name: string, locale: string) => name.replace(/\./g, '').toLocaleLowerCase(locale);
+
+/**
+ * Matches typed letters against names: the index of an exact match,
+ * `'partial'` when the letters start a name, `null` otherwise
+ */
+function matchName(typed: string, names: string[][], locale: string): number | 'partial' | null {
+    const value = normalizeName(typed, locale);
+    let partial = false;
+    for (const list of names) {
+        const index = list.findIndex(name => normalizeName(name, locale) === value);
+        if (index !== -1) {
+            return index;
+        }
+        partial ||= list.some(name => normalizeName(name, locale).startsWith(value));
+    }
+    return partial ? 'partial' : null;
+}
+
+/**
+ * Days in a month, 1 for January
+ */
+function daysInMonth(year: number, month: number): number {
+    const date = new Date(Date.UTC(2000, 0, 1));
+    date.setUTCFullYear(year, month, 0);
+    return date.getUTCDate();
+}
+
+/**
+ * Parses typed text with a pattern. Parsing is lenient about what the user
+ * types between fields, accepts single digits for padded fields, and
+ * validates text that is still being typed, so a field can be flagged as
+ * soon as it cannot become part of a date.
+ * @param text Typed text
+ * @param pattern Pattern made of the tokens described at the top of this module
+ * @param options Parse options
+ * @returns Parse status, with the date when the text is one
+ */
+export function parseDate(text: string, pattern: string, options: DateParseOptions = {}): DateParseResult {
+    const locale = options.locale ?? 'en-US';
+    const referenceDate = options.referenceDate ?? new Date();
+    const input = text.trim();
+    if (input === '') {
+        return { status: 'empty', date: null };
+    }
+
+    const invalid: DateParseResult = { status: 'invalid', date: null };
+    const segments = tokenize(pattern);
+    const fields: Partial<Record<DateField, number>> = {};
+    let pm: boolean | null = null;
+    let partial = false;
+    let position = 0;
+
+    for (let index = 0; index < segments.length && !partial; index++) {
+        const segment = segments[index]!;
+        if (position >= input.length) {
+            // Text ending before the pattern does is partial, unless only literal text is left
+            partial = segments.slice(index).some(rest => 'token' in rest);
+            break;
+        }
+
+        const rest = input.slice(position);
+        if ('literal' in segment) {
+            const literal = segment.literal.trim();
+            if (/[\p{L}\p{N}]/u.test(literal)) {
+                const typed = rest.slice(0, literal.length).toLocaleLowerCase(locale);
+                if (typed === literal.toLocaleLowerCase(locale)) {
+                    position += literal.length;
+                } else if (position + typed.length >= input.length && literal.toLocaleLowerCase(locale).startsWith(typed)) {
+                    partial = true;
+                } else {
+                    return invalid;
+                }
+            }
+            // Any separators, or none, stand for separators in the pattern
+            position += /^[^\p{L}\p{N}]*/u.exec(input.slice(position))![0].length;
+            continue;
+        }
+
+        const numeric = NUMERIC_TOKENS[segment.token];
+        if (numeric) {
+            const digits = new RegExp(`^\\d{1,${numeric.length}}`).exec(rest)?.[0];
+            if (!digits) {
+                return invalid;
+            }
+            position += digits.length;
+
+            const open = position >= input.length && digits.length < numeric.length;
+            let value = Number(digits);
+            if (numeric.field === 'year') {
+                if (open && digits.length !== 2) {
+                    partial = true;
+                    continue;
+                }
+                if (digits.length <= 2) {
+                    value = resolveTwoDigitYear(value, options.twoDigitYearPivot, referenceDate.getFullYear());
+                }
+            } else if (value < numeric.min || value > numeric.max) {
+                if (open && canComplete(digits, numeric.length, numeric.min, numeric.max)) {
+                    partial = true;
+                    continue;
+                }
+                return invalid;
+            }
+            fields[numeric.field] = value;
+            continue;
+        }
+
+        // Month, weekday and day period names
+        const typed = /^[\p{L}\p{M}.]+/u.exec(rest)?.[0];
+        if (!typed) {
+            return invalid;
+        }
+        position += typed.length;
+
+        let match: number | 'partial' | null;
+        if (segment.token === 'MMMM' || segment.token === 'MMM') {
+            match = matchName(typed, (['long', 'short'] as const).flatMap(width =>
+                [getNames(locale, 'month', width, 'format'), getNames(locale, 'month', width, 'standalone')]), locale);
+        } else if (segment.token === 'dddd' || segment.token === 'ddd') {
+            match = matchName(typed, (['long', 'short'] as const).map(width =>
+                getNames(locale, 'weekday', width, 'format')), locale);
+        } else {
+            match = matchName(typed, [getDayPeriodNames(locale)], locale);
+        }
+
+        if (match === null || (match === 'partial' && position < input.length)) {
+            return invalid;
+        }
+        if (match === 'partial') {
+            partial = true;
+        } else if (segment.token === 'MMMM' || segment.token === 'MMM') {
+            fields.month = match + 1;
+        } else if (segment.token === 'A' || segment.token === 'a') {
+            pm = match === 1;
+        }
+    }
+
+    // Only separators may follow the pattern
+    if (!partial && /[\p{L}\p{N}]/u.test(input.slice(position))) {
+        return invalid;
+    }
+
+    // A day past the end of its month cannot become valid, even in a leap year
+    const month = fields.month;
+    if (month !== undefined && fields.day !== undefined && fields.day > daysInMonth(fields.year ?? 2000, month)) {
+        return invalid;
+    }
+    if (partial) {
+        return { status: 'partial', date: null };
+    }
+
+    let hour = fields.hour ?? 0;
+    if (pm !== null) {
+        hour = (hour % 12) + (pm ? 12 : 0);
+    }
+    const date = new Date(2000, 0, 1, hour, fields.minute ?? 0, fields.second ?? 0);
+    date.setFullYear(fields.year ?? referenceDate.getFullYear(), (month ?? 1) - 1, fields.day ?? 1);
+    return { status: 'valid', date };
+}
@@ -0,0 +1,367 @@
+/**
+ * Focus Management
+ * Focus scopes keep Tab inside a container, move focus in on activation and
+ * back out on deactivation. Scopes stack: a dialog opened from a dialog traps
+ * focus until it closes, then the outer one takes over again.
+ */
+
+import { isBrowser } from './dom';
+
+/**
+ * Element to focus, or a function returning it when focus moves
+ */
+export type FocusTarget = HTMLElement | null | (() => HTMLElement | null);
+
+/**
+ * Elements that can be tabbable, before checking tabindex, disabled and hidden
+ */
+const TABBABLE_CANDIDATES = [
+    'a[href]',
+    'area[href]',
+    'button',
+    'input:not([type="hidden"])',
+    'select',
+    'textarea',
+    'iframe',
+    'summary',
+    'audio[controls]',
+    'video[controls]',
+    '[contenteditable]:not([contenteditable="false"])',
+    '[tabindex]',
+].join(', ');
+
+const FORM_CONTROLS = 'button, input, select, textarea';
+
+function getTabIndex(element: HTMLElement): number {
+    const value = parseInt(element.getAttribute('tabindex') ?? '0', 10);
+    return Number.isNaN(value) ? 0 : value;
+}
+
+function isDisabled(element: HTMLElement): boolean {
+    return element.matches(FORM_CONTROLS)
+        && ((element as HTMLButtonElement).disabled || Boolean(element.closest('fieldset[disabled]')));
+}
+
+/**
+ * Whether the element or an ancestor, across shadow roots, is hidden or inert
+ */
+function isHidden(element: HTMLElement): boolean {
+    let current: Element | null = element;
+    while (current) {
+        if ((current as HTMLElement).hidden || current.hasAttribute('inert') || getComputedStyle(current).display === 'none') {
+            return true;
+        }
+        current = current.parentElement ?? (current.getRootNode() as Partial<ShadowRoot>).host ?? null;
+    }
+    return getComputedStyle(element).visibility === 'hidden';
+}
+
+/**
+ * Whether Tab skips a radio button because another one of its group is checked
+ */
+function isSkippedRadio(element: HTMLElement, candidates: HTMLElement[]): boolean {
+    if (!(element instanceof HTMLInputElement) || element.type !== 'radio' || !element.name || element.checked) {
+        return false;
+    }
+    return candidates.some(other =>
+        other instanceof HTMLInputElement && other.type === 'radio' && other.name === element.name && other.checked);
+}
+
+function collectCandidates(root: Element | ShadowRoot, candidates: HTMLElement[]): void {
+    Array.from(root.children).forEach(child => {
+        if (child.matches(TABBABLE_CANDIDATES)) {
+            candidates.push(child as HTMLElement);
+        }
+        if (child.shadowRoot) {
+            collectCandidates(child.shadowRoot, candidates);
+        }
+        collectCandidates(child, candidates);
+    });
+}
+
+/**
+ * Elements Tab reaches inside a container, in tab order, including open shadow roots.
+ * Read on every call, so elements added, enabled or shown later are included.
+ * @param container The container element
+ */
+export function getTabbableElements(container: HTMLElement): HTMLElement[] {
+    if (!isBrowser()) {
+        return [];
+    }
+
+    const candidates: HTMLElement[] = [];
+    collectCandidates(container, candidates);
+
+    const tabbable = candidates.filter(element =>
+        getTabIndex(element) >= 0 && !isDisabled(element) && !isHidden(element) && !isSkippedRadio(element, candidates));
+
+    // Positive tabindex values come first, in ascending order
+    return [
+        ...tabbable.filter(element => getTabIndex(element) > 0).sort((a, b) => getTabIndex(a) - getTabIndex(b)),
+        ...tabbable.filter(element => getTabIndex(element) === 0),
+    ];
+}
+
+/**
+ * Focused element, inside shadow roots too
+ */
+function getActiveElement(): Element | null {
+    let active = document.activeElement;
+    while (active?.shadowRoot?.activeElement) {
+        active = active.shadowRoot.activeElement;
+    }
+    return active;
+}
+
+/**
+ * Whether a node is inside a container, across shadow roots
+ */
+function containsDeep(container: Element, node: Node | null): boolean {
+    let current = node;
+    while (current) {
+        if (current === container) {
+            return true;
+        }
+        current = current.parentNode ?? (current as Partial<ShadowRoot>).host ?? null;
+    }
+    return false;
+}
+
+function resolveFocusTarget(target: FocusTarget | undefined): HTMLElement | null {
+    return typeof target === 'function' ? target() : target ?? null;
+}
+
+let scrollLocks = 0;
+let restoreScroll: (() => void) | null = null;
+
+/**
+ * Stops the page from scrolling until every lock is released,
+ * so nested dialogs share one lock
+ * @returns Releases this lock
+ */
+export function lockScroll(): () => void {
+    if (!isBrowser()) {
+        return () => { };
+    }
+
+    if (scrollLocks++ === 0) {
+        const { style } = document.body;
+        const scrollY = window.scrollY;
+        const previous = { position: style.position, top: style.top, width: style.width };
+
+        Object.assign(style, { position: 'fixed', top: `-${scrollY}px`, width: '100%' });
+        restoreScroll = () => {
+            Object.assign(style, previous);
+            window.scrollTo(0, scrollY);
+        };
+    }
+
+    let released = false;
+    return () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        if (--scrollLocks === 0) {
+            restoreScroll?.();
+            restoreScroll = null;
+        }
+    };
+}
+
+/**
+ * Makes every element outside a container inert and hidden from assistive
+ * technology. Live regions stay untouched so announcements are still read.
+ * @returns Restores the elements
+ */
+function makeOutsideInert(container: HTMLElement): () => void {
+    const changed: Array<{ element: Element; ariaHidden: string | null }> = [];
+
+    let current: Element = container;
+    while (current !== document.body && current.parentElement) {
+        const inside = current;
+        Array.from(current.parentElement.children).forEach(sibling => {
+            if (sibling === inside || sibling.hasAttribute('inert') || sibling.hasAttribute('aria-live') || sibling.tagName === 'SCRIPT') {
+                return;
+            }
+            changed.push({ element: sibling, ariaHidden: sibling.getAttribute('aria-hidden') });
+            sibling.setAttribute('inert', '');
+            sibling.setAttribute('aria-hidden', 'true');
+        });
+        current = current.parentElement;
+    }
+
+    return () => {
+        changed.forEach(({ element, ariaHidden }) => {
+            element.removeAttribute('inert');
+            if (ariaHidden === null) {
+                element.removeAttribute('aria-hidden');
+            } else {
+                element.setAttribute('aria-hidden', ariaHidden);
+            }
+        });
+    };
+}
+
+/**
+ * Focus scope options
+ */
+export interface FocusScopeOptions {
+    /**
+     * Keeps Tab and focus inside the container while this is the innermost active scope
+     * @default true
+     */
+    trapped?: boolean;
+
+    /**
+     * Focused on activation; `false` leaves focus where it is
+     * @default The first tabbable element, or the container
+     */
+    initialFocus?: FocusTarget | false;
+
+    /**
+     * Focused on deactivation, unless focus already moved outside the container;
+     * `false` leaves focus where it is
+     * @default The element focused before activation
+     */
+    finalFocus?: FocusTarget | false;
+
+    /**
+     * Makes everything outside the container inert, for modal content
+     * @default false
+     */
+    inertOutside?: boolean;
+
+    /**
+     * Locks page scroll while active
+     * @default false
+     */
+    preventScroll?: boolean;
+}
+
+/**
+ * Focus scope of a container
+ */
+export interface FocusScope {
+    activate: () => void;
+    deactivate: () => void;
+    isActive: () => boolean;
+}
+
+/**
+ * Active scopes, innermost last
+ */
+const scopeStack: FocusScope[] = [];
+
+/**
+ * Creates a focus scope for a container
+ * @param container The container element
+ * @param options Focus scope options
+ */
+export function createFocusScope(container: HTMLElement, options: FocusScopeOptions = {}): FocusScope {
+    const { trapped = true, inertOutside = false, preventScroll = false } = options;
+
+    let active = false;
+    let previousFocus: HTMLElement | null = null;
+    let lastFocused: HTMLElement | null = null;
+    const cleanups: Array<() => void> = [];
+
+    const isTrapping = () => trapped && container.isConnected && scopeStack[scopeStack.length - 1] === scope;
+
+    const focusFirst = () => {
+        (getTabbableElements(container)[0] ?? container).focus();
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key !== 'Tab' || !isTrapping()) {
+            return;
+        }
+
+        const tabbable = getTabbableElements(container);
+        const first = tabbable[0];
+        const last = tabbable[tabbable.length - 1];
+        const activeElement = getActiveElement();
+
+        if (!first || !last) {
+            event.preventDefault();
+            container.focus();
+        } else if (event.shiftKey && (activeElement === first || activeElement === container || !containsDeep(container, activeElement))) {
+            event.preventDefault();
+            last.focus();
+        } else if (!event.shiftKey && (activeElement === last || !containsDeep(container, activeElement))) {
+            event.preventDefault();
+            first.focus();
+        }
+    };
+
+    const handleFocusIn = (event: FocusEvent) => {
+        if (!isTrapping()) {
+            return;
+        }
+
+        const target = event.target as HTMLElement;
+        if (containsDeep(container, target)) {
+            lastFocused = target;
+            return;
+        }
+
+        // Focus escaped, e.g. by a click outside: bring it back
+        if (lastFocused?.isConnected && containsDeep(container, lastFocused)) {
+            lastFocused.focus();
+        } else {
+            focusFirst();
+        }
+    };
+
+    const scope: FocusScope = {
+        activate: () => {
+            if (active || !isBrowser()) {
+                return;
+            }
+            active = true;
+            previousFocus = getActiveElement() as HTMLElement | null;
+            scopeStack.push(scope);
+
+            document.addEventListener('keydown', handleKeyDown, true);
+            document.addEventListener('focusin', handleFocusIn, true);
+            if (inertOutside) {
+                cleanups.push(makeOutsideInert(container));
+            }
+            if (preventScroll) {
+                cleanups.push(lockScroll());
+            }
+
+            if (options.initialFocus !== false) {
+                const target = resolveFocusTarget(options.initialFocus);
+                if (target) {
+                    target.focus();
+                } else {
+                    focusFirst();
+                }
+            }
+        },
+        deactivate: () => {
+            if (!active) {
+                return;
+            }
+            active = false;
+            scopeStack.splice(scopeStack.indexOf(scope), 1);
+
+            document.removeEventListener('keydown', handleKeyDown, true);
+            document.removeEventListener('focusin', handleFocusIn, true);
+            cleanups.splice(0).reverse().forEach(cleanup => cleanup());
+
+            const activeElement = getActiveElement();
+            const focusMovedOut = activeElement && activeElement !== document.body && !containsDeep(container, activeElement);
+            if (options.finalFocus !== false && !focusMovedOut) {
+                const target = resolveFocusTarget(options.finalFocus) ?? previousFocus;
+                if (target?.isConnected) {
+                    target.focus();
+                }
+            }
+        },
+        isActive: () => active,
+    };
+
+    return scope;
+}
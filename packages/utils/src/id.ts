@@ -1,8 +1,10 @@
 // Utility for generating unique IDs
+// IDs are counted rather than timed, so server and client renders agree.
+// Components take theirs from the scoped ID provider of @stellarix-ui/core.
 let idCounter = 0;
 
 export function generateId(prefix = 'stellarix'): string {
-  return `${prefix}-${Date.now()}-${++idCounter}`;
+  return `${prefix}-${++idCounter}`;
 }
 
 export function generateUniqueId(): string {
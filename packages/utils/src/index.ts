@@ -5,8 +5,14 @@
 
 export * from './id';
 export * from './accessibility';
+export * from './focus';
+export * from './announcer';
+export * from './collection';
 export * from './object';
 export * from './dom';
+export * from './date';
+export * from './time-zone';
+export * from './calendar-system';
 
 // Re-export commonly used utilities
 export {
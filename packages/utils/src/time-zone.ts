@@ -0,0 +1,250 @@
+/**
+ * Time Zone Utilities
+ * Days and wall-clock times of an IANA time zone, built on Intl.
+ *
+ * A `PlainDate` is a day without a time zone, in the ISO calendar. Days
+ * of a time zone are read from a `Date` with `toPlainDate`, and a day
+ * starts at the `Date` returned by `fromPlainDate`. Without a time zone
+ * both use the time zone of the host.
+ */
+
+/**
+ * Day without a time zone, in the ISO calendar
+ */
+export interface PlainDate {
+    /**
+     * Full year
+     */
+    year: number;
+
+    /**
+     * Month, 1 for January
+     */
+    month: number;
+
+    /**
+     * Day of the month
+     */
+    day: number;
+}
+
+/**
+ * Date and wall-clock time of an instant in a time zone
+ */
+interface ZonedParts extends PlainDate {
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = zoneFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            era: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        zoneFormatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * UTC timestamp of a date and wall-clock time, for years before 100 too
+ */
+function utcTimestamp(parts: ZonedParts): number {
+    const date = new Date(Date.UTC(2000, 0, 1, parts.hour, parts.minute, parts.second));
+    date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+    return date.getTime();
+}
+
+/**
+ * UTC timestamp of the midnight starting a day
+ */
+function toUtcTime(plainDate: PlainDate): number {
+    const date = new Date(Date.UTC(2000, 0, 1));
+    date.setUTCFullYear(plainDate.year, plainDate.month - 1, plainDate.day);
+    return date.getTime();
+}
+
+/**
+ * Date and wall-clock time of an instant in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string | undefined): ZonedParts {
+    if (!timeZone) {
+        return {
+            year: date.getFullYear(),
+            month: date.getMonth() + 1,
+            day: date.getDate(),
+            hour: date.getHours(),
+            minute: date.getMinutes(),
+            second: date.getSeconds(),
+        };
+    }
+
+    const values: Record<string, string> = {};
+    getZoneFormatter(timeZone).formatToParts(date).forEach(part => {
+        values[part.type] = part.value;
+    });
+    const year = Number(values.year);
+
+    return {
+        // Years before the common era count down from 1 BC
+        year: values.era === 'BC' ? 1 - year : year,
+        month: Number(values.month),
+        day: Number(values.day),
+        hour: Number(values.hour),
+        minute: Number(values.minute),
+        second: Number(values.second),
+    };
+}
+
+/**
+ * Time zone of the host, e.g. `Europe/Berlin`
+ */
+export function getHostTimeZone(): string {
+    return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant
+ * @param date Instant to look up
+ * @param timeZone IANA time zone
+ * @returns Offset in milliseconds, positive east of UTC
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const time = date.getTime();
+    return utcTimestamp(getZonedParts(date, timeZone)) - (time - (((time % 1000) + 1000) % 1000));
+}
+
+/**
+ * Day of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone, the host's when left out
+ */
+export function toPlainDate(date: Date, timeZone?: string): PlainDate {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return { year, month, day };
+}
+
+/**
+ * Instant a wall-clock time of a day is reached in a time zone. A time
+ * skipped by a daylight saving change moves forward by the gap, so a day
+ * starting at 01:00 starts then, and a repeated time is the earlier one.
+ * @param plainDate Day
+ * @param timeZone IANA time zone, the host's when left out
+ * @param hour Hour from 0 to 23
+ * @param minute Minutes
+ */
+export function fromPlainDate(plainDate: PlainDate, timeZone?: string, hour = 0, minute = 0): Date {
+    const parts: ZonedParts = { ...plainDate, hour, minute, second: 0 };
+
+    if (!timeZone) {
+        const date = new Date(2000, 0, 1, hour, minute);
+        date.setFullYear(plainDate.year, plainDate.month - 1, plainDate.day);
+        return date;
+    }
+
+    const wallClock = utcTimestamp(parts);
+    // Offsets before and after a daylight saving change on that day
+    const offsets = [
+        getTimeZoneOffset(new Date(wallClock - 86400000), timeZone),
+        getTimeZoneOffset(new Date(wallClock + 86400000), timeZone),
+    ];
+    // Both fit a time repeated by a change from daylight saving time
+    const fitting = offsets.filter(offset => getTimeZoneOffset(new Date(wallClock - offset), timeZone) === offset);
+    if (fitting.length) {
+        // The earlier instant has the larger offset
+        return new Date(wallClock - Math.max(...fitting));
+    }
+
+    // Skipped by a change to daylight saving time: move forward by the gap
+    return new Date(wallClock - Math.min(...offsets));
+}
+
+/**
+ * Start of the day of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone, the host's when left out
+ */
+export function startOfDayInTimeZone(date: Date, timeZone?: string): Date {
+    return fromPlainDate(toPlainDate(date, timeZone), timeZone);
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as a date in the time
+ * zone of the host. Host-time formatting such as `formatDate` then shows
+ * the time of the zone.
+ * @param date Instant
+ * @param timeZone IANA time zone, the host's when left out
+ */
+export function toZonedTime(date: Date, timeZone?: string): Date {
+    const parts = getZonedParts(date, timeZone);
+    const zoned = new Date(2000, 0, 1, parts.hour, parts.minute, parts.second, date.getMilliseconds());
+    zoned.setFullYear(parts.year, parts.month - 1, parts.day);
+    return zoned;
+}
+
+/**
+ * Instant of a wall-clock time given as a date in the time zone of the
+ * host, such as a parsed date, read in another time zone
+ * @param wallClock Date with the wall-clock time
+ * @param timeZone IANA time zone, the host's when left out
+ */
+export function fromZonedTime(wallClock: Date, timeZone?: string): Date {
+    if (!timeZone) {
+        return new Date(wallClock);
+    }
+
+    const date = fromPlainDate(toPlainDate(wallClock), timeZone, wallClock.getHours(), wallClock.getMinutes());
+    date.setTime(date.getTime() + wallClock.getSeconds() * 1000 + wallClock.getMilliseconds());
+    return date;
+}
+
+/**
+ * Day a number of days after another, before it for negative numbers
+ */
+export function addDays(plainDate: PlainDate, days: number): PlainDate {
+    const date = new Date(Date.UTC(2000, 0, 1));
+    date.setUTCFullYear(plainDate.year, plainDate.month - 1, plainDate.day + days);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Number of days from one day to another, negative when `to` is earlier
+ */
+export function differenceInDays(from: PlainDate, to: PlainDate): number {
+    return Math.round((toUtcTime(to) - toUtcTime(from)) / 86400000);
+}
+
+/**
+ * Orders two days
+ * @returns A negative number when `a` is earlier, positive when later, 0 for the same day
+ */
+export function comparePlainDates(a: PlainDate, b: PlainDate): number {
+    return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+/**
+ * Day of the week, 0 for Sunday
+ */
+export function getDayOfWeek(plainDate: PlainDate): number {
+    return new Date(toUtcTime(plainDate)).getUTCDay();
+}
+
+/**
+ * Whether two instants fall on the same day of a time zone
+ * @param timeZone IANA time zone, the host's when left out
+ */
+export function isSameDayInTimeZone(a: Date, b: Date, timeZone?: string): boolean {
+    return comparePlainDates(toPlainDate(a, timeZone), toPlainDate(b, timeZone)) === 0;
+}
@@ -3,10 +3,21 @@ import react from '@vitejs/plugin-react';
 import tsconfigPaths from 'vite-tsconfig-paths';
 import { resolve } from 'path';
 
+/**
+ * Provides the client manifest module that @builder.io/qwik/server imports
+ * (qwikVite emits the same empty manifest outside of production builds)
+ */
+const qwikClientManifest = {
+    name: 'qwik-client-manifest',
+    resolveId: (id: string) => (id === '@qwik-client-manifest' ? id : null),
+    load: (id: string) => (id === '@qwik-client-manifest' ? 'export const manifest = null;' : null),
+};
+
 export default defineConfig({
     plugins: [
         react(),
         tsconfigPaths(),
+        qwikClientManifest,
     ],
     test: {
         globals: true,
@@ -14,6 +25,11 @@ export default defineConfig({
         setupFiles: ['./vitest.setup.ts'],
         include: ['packages/**/*.{test,spec}.{ts,tsx}'],
         exclude: ['**/node_modules/**', '**/dist/**', '**/examples/**', './packages/integrations/**'],
+        server: {
+            deps: {
+                inline: ['@builder.io/qwik'],
+            },
+        },
         coverage: {
             reporter: ['text', 'json', 'html'],
             include: ['packages/**/*.{ts,tsx}'],
@@ -34,9 +50,14 @@ export default defineConfig({
             '@stellarix-ui/vue': resolve(__dirname, 'packages/adapters/vue/src'),
             '@stellarix-ui/svelte': resolve(__dirname, 'packages/adapters/svelte/src'),
             '@stellarix-ui/solid': resolve(__dirname, 'packages/adapters/solid/src'),
+            '@stellarix-ui/angular': resolve(__dirname, 'packages/adapters/angular/src'),
+            '@stellarix-ui/qwik': resolve(__dirname, 'packages/adapters/qwik/src'),
+            '@stellarix-ui/web-components': resolve(__dirname, 'packages/adapters/web-components/src'),
+            '@stellarix-ui/vanilla': resolve(__dirname, 'packages/adapters/vanilla/src'),
             '@stellarix-ui/button': resolve(__dirname, 'packages/primitives/button/src'),
             '@stellarix-ui/input': resolve(__dirname, 'packages/primitives/input/src'),
             '@stellarix-ui/checkbox': resolve(__dirname, 'packages/primitives/checkbox/src'),
+            '@stellarix-ui/combobox': resolve(__dirname, 'packages/primitives/combobox/src'),
             '@stellarix-ui/toggle': resolve(__dirname, 'packages/primitives/toggle/src'),
             '@stellarix-ui/select': resolve(__dirname, 'packages/primitives/select/src'),
             '@stellarix-ui/tabs': resolve(__dirname, 'packages/primitives/tabs/src'),
@@ -51,8 +72,10 @@ export default defineConfig({
             '@stellarix-ui/calendar': resolve(__dirname, 'packages/primitives/calendar/src'),
             '@stellarix-ui/card': resolve(__dirname, 'packages/primitives/card/src'),
             '@stellarix-ui/container': resolve(__dirname, 'packages/primitives/container/src'),
+            '@stellarix-ui/date-field': resolve(__dirname, 'packages/primitives/date-field/src'),
             '@stellarix-ui/date-picker': resolve(__dirname, 'packages/primitives/date-picker/src'),
             '@stellarix-ui/divider': resolve(__dirname, 'packages/primitives/divider/src'),
+            '@stellarix-ui/drawer': resolve(__dirname, 'packages/primitives/drawer/src'),
             '@stellarix-ui/file-upload': resolve(__dirname, 'packages/primitives/file-upload/src'),
             '@stellarix-ui/navigation-menu': resolve(__dirname, 'packages/primitives/navigation-menu/src'),
             '@stellarix-ui/pagination': resolve(__dirname, 'packages/primitives/pagination/src'),
@@ -64,6 +87,7 @@ export default defineConfig({
             '@stellarix-ui/stepper': resolve(__dirname, 'packages/primitives/stepper/src'),
             '@stellarix-ui/table': resolve(__dirname, 'packages/primitives/table/src'),
             '@stellarix-ui/textarea': resolve(__dirname, 'packages/primitives/textarea/src'),
+            '@stellarix-ui/toast': resolve(__dirname, 'packages/primitives/toast/src'),
         },
     },
 }); 
\ No newline at end of file